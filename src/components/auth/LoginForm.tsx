@@ -7,6 +7,7 @@ import { z } from "zod";
 import { AuthForm } from "@/components/auth/AuthForm";
 import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { withRedirectParam } from "@/lib/redirect";
 
 const loginSchema = z.object({
   email: z.string({ required_error: "Adres e-mail jest wymagany." }).email("Podaj poprawny adres e-mail."),
@@ -16,7 +17,12 @@ const loginSchema = z.object({
 
 export type LoginFormValues = z.infer<typeof loginSchema>;
 
-export const LoginForm = () => {
+export interface LoginFormProps {
+  /** Local path opened after signing in, "/" by default */
+  readonly redirectTo?: string;
+}
+
+export const LoginForm = ({ redirectTo = "/" }: LoginFormProps) => {
   const [globalError, setGlobalError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
@@ -29,36 +35,39 @@ export const LoginForm = () => {
     },
   });
 
-  const handleSubmit = useCallback(async (values: LoginFormValues) => {
-    setGlobalError(null);
-    setSuccessMessage(null);
+  const handleSubmit = useCallback(
+    async (values: LoginFormValues) => {
+      setGlobalError(null);
+      setSuccessMessage(null);
 
-    try {
-      const response = await fetch("/api/auth/login", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          email: values.email,
-          password: values.password,
-        }),
-      });
+      try {
+        const response = await fetch("/api/auth/login", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            email: values.email,
+            password: values.password,
+          }),
+        });
 
-      const data = await response.json();
+        const data = await response.json();
 
-      if (!response.ok) {
-        setGlobalError(data.error || "Nieprawidłowy login lub hasło.");
-        return;
-      }
+        if (!response.ok) {
+          setGlobalError(data.error || "Nieprawidłowy login lub hasło.");
+          return;
+        }
 
-      // Successful login - redirect to home page
-      window.location.href = "/";
-    } catch (error) {
-      console.error("Login error:", error);
-      setGlobalError("Nie udało się połączyć z serwerem. Spróbuj ponownie.");
-    }
-  }, []);
+        // Successful login - redirect to home page or the page opened before signing in
+        window.location.href = redirectTo;
+      } catch (error) {
+        console.error("Login error:", error);
+        setGlobalError("Nie udało się połączyć z serwerem. Spróbuj ponownie.");
+      }
+    },
+    [redirectTo]
+  );
 
   return (
     <AuthForm<LoginFormValues>
@@ -73,7 +82,10 @@ export const LoginForm = () => {
         <>
           <p>
             Nie masz konta?{" "}
-            <a href="/register" className="font-medium text-primary hover:text-primary/80">
+            <a
+              href={withRedirectParam("/register", redirectTo)}
+              className="font-medium text-primary hover:text-primary/80"
+            >
               Zarejestruj się
             </a>
           </p>
@@ -7,6 +7,7 @@ import { z } from "zod";
 import { AuthForm } from "@/components/auth/AuthForm";
 import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { withRedirectParam } from "@/lib/redirect";
 
 const registerSchema = z
   .object({
@@ -26,7 +27,12 @@ const registerSchema = z
 
 export type RegisterFormValues = z.infer<typeof registerSchema>;
 
-export const RegisterForm = () => {
+export interface RegisterFormProps {
+  /** Local path opened after signing in, "/" by default */
+  readonly redirectTo?: string;
+}
+
+export const RegisterForm = ({ redirectTo = "/" }: RegisterFormProps) => {
   const [globalError, setGlobalError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
 
@@ -39,37 +45,40 @@ export const RegisterForm = () => {
     },
   });
 
-  const handleSubmit = useCallback(async (values: RegisterFormValues) => {
-    setGlobalError(null);
-    setSuccessMessage(null);
+  const handleSubmit = useCallback(
+    async (values: RegisterFormValues) => {
+      setGlobalError(null);
+      setSuccessMessage(null);
 
-    try {
-      const response = await fetch("/api/auth/register", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          email: values.email,
-          password: values.password,
-          confirmPassword: values.confirmPassword,
-        }),
-      });
+      try {
+        const response = await fetch("/api/auth/register", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            email: values.email,
+            password: values.password,
+            confirmPassword: values.confirmPassword,
+          }),
+        });
 
-      const data = await response.json();
+        const data = await response.json();
 
-      if (!response.ok) {
-        setGlobalError(data.error || "Nie udało się utworzyć konta.");
-        return;
-      }
+        if (!response.ok) {
+          setGlobalError(data.error || "Nie udało się utworzyć konta.");
+          return;
+        }
 
-      // Successful registration - redirect to home page
-      window.location.href = "/";
-    } catch (error) {
-      console.error("Registration error:", error);
-      setGlobalError("Nie udało się połączyć z serwerem. Spróbuj ponownie.");
-    }
-  }, []);
+        // Successful registration - redirect to home page or the page opened before signing in
+        window.location.href = redirectTo;
+      } catch (error) {
+        console.error("Registration error:", error);
+        setGlobalError("Nie udało się połączyć z serwerem. Spróbuj ponownie.");
+      }
+    },
+    [redirectTo]
+  );
 
   return (
     <AuthForm<RegisterFormValues>
@@ -83,7 +92,7 @@ export const RegisterForm = () => {
       footer={
         <p>
           Masz już konto?{" "}
-          <a href="/login" className="font-medium text-primary hover:text-primary/80">
+          <a href={withRedirectParam("/login", redirectTo)} className="font-medium text-primary hover:text-primary/80">
             Zaloguj się
           </a>
         </p>
@@ -2,11 +2,13 @@ import { useMemo } from "react";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
-import type { BudgetDetailDto, CategoryDto, HouseholdMemberDto } from "@/types";
+import { hasHouseholdPermission } from "@/lib/permissions";
+import type { BudgetDetailDto, CategoryDto, HouseholdMemberDto, HouseholdRole } from "@/types";
 
 import type { BudgetWizardStep } from "./types";
 import { IncomesForm } from "./IncomesForm";
 import { PlannedExpensesForm } from "./PlannedExpensesForm";
+import { PreviousBudgetCopyPanel } from "./PreviousBudgetCopyPanel";
 import { ReadOnlyBudgetView } from "./ReadOnlyBudgetView";
 import { WizardStepper } from "./WizardStepper";
 import { useBudgetWizard } from "./useBudgetWizard";
@@ -21,9 +23,12 @@ export interface BudgetWizardViewDependencies {
 interface BudgetWizardViewProps {
   readonly budgetId?: string;
   readonly dependencies?: Parameters<typeof useBudgetWizard>[0]["dependencies"];
+  /** Household role of the current user; roles that cannot edit budgets only see the saved plan */
+  readonly role?: HouseholdRole;
 }
 
-export const BudgetWizardView = ({ budgetId, dependencies }: BudgetWizardViewProps) => {
+export const BudgetWizardView = ({ budgetId, dependencies, role }: BudgetWizardViewProps) => {
+  const canEditBudgets = hasHouseholdPermission(role, "budgets:edit");
   const { ToastPortal } = useToast();
   const {
     wizard,
@@ -38,6 +43,7 @@ export const BudgetWizardView = ({ budgetId, dependencies }: BudgetWizardViewPro
     onSave,
     onIncomeChange,
     onPlannedExpenseChange,
+    onPlannedExpenseRolloverChange,
     onStepValidityChange,
     canGoToNextStep,
     canGoToPreviousStep,
@@ -45,6 +51,9 @@ export const BudgetWizardView = ({ budgetId, dependencies }: BudgetWizardViewPro
     budgetDetail,
     members,
     categories,
+    isCloning,
+    clonePreview,
+    onStartFromPreviousBudget,
   } = useBudgetWizard({ budgetId, dependencies });
 
   console.log("categories", categories);
@@ -85,17 +94,30 @@ export const BudgetWizardView = ({ budgetId, dependencies }: BudgetWizardViewPro
     );
   }
 
-  if (!isEditMode && budgetDetail) {
+  if ((!isEditMode || !canEditBudgets) && budgetDetail) {
     return (
       <ReadOnlyBudgetView
         categories={categories}
         members={members}
         budget={budgetDetail}
-        onEditClick={() => onToggleEditMode(true)}
+        onEditClick={canEditBudgets ? () => onToggleEditMode(true) : undefined}
       />
     );
   }
 
+  if (!canEditBudgets) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col gap-2 p-6 text-center">
+          <h2 className="text-lg font-semibold">Brak uprawnień</h2>
+          <p className="text-sm text-muted-foreground">
+            Twoja rola w gospodarstwie pozwala przeglądać budżety, ale nie tworzyć ich ani zmieniać.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
   const handleNext = () => {
     if (canGoToNextStep) {
       onStepChange(currentStepIndex + 1);
@@ -126,7 +148,15 @@ export const BudgetWizardView = ({ budgetId, dependencies }: BudgetWizardViewPro
         <WizardStepper steps={steps} currentStepIndex={currentStepIndex} onStepSelect={onStepChange} />
 
         <Card>
-          <CardContent className="p-4">
+          <CardContent className="space-y-4 p-4">
+            {currentStep === "incomes" && !wizard.budgetId ? (
+              <PreviousBudgetCopyPanel
+                clonePreview={clonePreview}
+                isCloning={isCloning}
+                isDisabled={isSaving}
+                onStartFromPreviousBudget={() => void onStartFromPreviousBudget()}
+              />
+            ) : null}
             {currentStep === "incomes" ? (
               <IncomesForm
                 incomes={wizard.incomes}
@@ -139,6 +169,7 @@ export const BudgetWizardView = ({ budgetId, dependencies }: BudgetWizardViewPro
               <PlannedExpensesForm
                 plannedExpenses={wizard.plannedExpenses}
                 onPlannedExpenseChange={onPlannedExpenseChange}
+                onRolloverModeChange={onPlannedExpenseRolloverChange}
                 onValidityChange={(isValid) => handleValidityChange("planned-expenses", isValid)}
                 isDisabled={isSaving}
               />
@@ -1,13 +1,25 @@
-import { useEffect } from "react";
+import { Fragment, useCallback, useEffect, useMemo, useState } from "react";
+import { ChevronDown, ChevronRight } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 
+import { Button } from "@/components/ui/button";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { buildCategoryTree } from "@/lib/category-tree";
+import { cn } from "@/lib/utils";
+import type { PlannedExpenseRolloverMode } from "@/types";
 
 import type { PlannedExpenseFormViewModel } from "./types";
 
+export const ROLLOVER_MODE_LABELS: Record<PlannedExpenseRolloverMode, string> = {
+  none: "Bez przenoszenia",
+  surplus: "Przenoś nadwyżkę",
+  surplus_and_deficit: "Przenoś nadwyżkę i niedobór",
+};
+
 const moneySchema = z
   .string()
   .transform((value) => value.trim())
@@ -39,6 +51,7 @@ type PlannedExpensesFormSchema = z.infer<typeof plannedExpensesFormSchema>;
 interface PlannedExpensesFormProps {
   readonly plannedExpenses: PlannedExpenseFormViewModel[];
   readonly onPlannedExpenseChange: (categoryId: string, amount: string) => void;
+  readonly onRolloverModeChange?: (categoryId: string, rolloverMode: PlannedExpenseRolloverMode) => void;
   readonly onValidityChange?: (isValid: boolean) => void;
   readonly isDisabled?: boolean;
 }
@@ -46,6 +59,7 @@ interface PlannedExpensesFormProps {
 export const PlannedExpensesForm = ({
   plannedExpenses,
   onPlannedExpenseChange,
+  onRolloverModeChange,
   onValidityChange,
   isDisabled = false,
 }: PlannedExpensesFormProps) => {
@@ -64,36 +78,117 @@ export const PlannedExpensesForm = ({
     onValidityChange?.(form.formState.isValid);
   }, [form.formState.isValid, onValidityChange]);
 
+  // Subcategories are listed under their parents; the tree keeps the form index of every category
+  const tree = useMemo(
+    () =>
+      buildCategoryTree(
+        plannedExpenses.map((expense, index) => ({ id: expense.categoryId, parentId: expense.parentId, index }))
+      ),
+    [plannedExpenses]
+  );
+  const [collapsedIds, setCollapsedIds] = useState<ReadonlySet<string>>(new Set());
+
+  const toggleExpanded = useCallback((categoryId: string) => {
+    setCollapsedIds((previous) => {
+      const next = new Set(previous);
+      if (!next.delete(categoryId)) {
+        next.add(categoryId);
+      }
+      return next;
+    });
+  }, []);
+
+  const watchedExpenses = form.watch("plannedExpenses") ?? [];
+
+  const renderExpenseField = (index: number, subcategoryCount: number, isSubcategory: boolean) => {
+    const expense = watchedExpenses[index];
+    if (!expense) {
+      return null;
+    }
+
+    const categoryId = plannedExpenses[index]?.categoryId ?? expense.categoryId;
+    const name = plannedExpenses[index]?.name ?? expense.name;
+    const isExpanded = !collapsedIds.has(categoryId);
+
+    return (
+      <FormField
+        key={categoryId}
+        name={`plannedExpenses.${index}.limitAmount`}
+        render={({ field }) => (
+          <FormItem className={cn(isSubcategory && "ml-6 border-l border-border pl-4")}>
+            <FormLabel className="flex items-baseline justify-between">
+              <span className="flex items-center gap-1 font-medium text-foreground">
+                {subcategoryCount > 0 ? (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => toggleExpanded(categoryId)}
+                    aria-expanded={isExpanded}
+                    aria-label={isExpanded ? `Zwiń podkategorie ${name}` : `Rozwiń podkategorie ${name}`}
+                  >
+                    {isExpanded ? (
+                      <ChevronDown className="h-4 w-4" aria-hidden="true" />
+                    ) : (
+                      <ChevronRight className="h-4 w-4" aria-hidden="true" />
+                    )}
+                  </Button>
+                ) : null}
+                {name}
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {subcategoryCount > 0 ? "Limit łączny z podkategoriami" : "Limit miesięczny"}
+              </span>
+            </FormLabel>
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <FormControl>
+                <Input
+                  inputMode="decimal"
+                  placeholder="Wpisz kwotę"
+                  {...field}
+                  onChange={(event) => {
+                    const normalised = event.target.value.replace(/,/g, ".");
+                    field.onChange(normalised);
+                    onPlannedExpenseChange(categoryId, normalised);
+                  }}
+                  disabled={isDisabled}
+                />
+              </FormControl>
+              {onRolloverModeChange ? (
+                <Select
+                  value={plannedExpenses[index]?.rolloverMode ?? "none"}
+                  onValueChange={(value) => onRolloverModeChange(categoryId, value as PlannedExpenseRolloverMode)}
+                  disabled={isDisabled}
+                >
+                  <SelectTrigger className="sm:w-64" aria-label={`Przenoszenie limitu: ${name}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ROLLOVER_MODE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : null}
+            </div>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    );
+  };
+
   return (
     <Form {...form}>
       <form className="space-y-4" noValidate>
-        {(form.watch("plannedExpenses") ?? []).map((expense, index) => (
-          <FormField
-            key={plannedExpenses[index]?.categoryId ?? expense.categoryId}
-            name={`plannedExpenses.${index}.limitAmount`}
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel className="flex items-baseline justify-between">
-                  <span className="font-medium text-foreground">{plannedExpenses[index]?.name ?? expense.name}</span>
-                  <span className="text-xs text-muted-foreground">Limit miesięczny</span>
-                </FormLabel>
-                <FormControl>
-                  <Input
-                    inputMode="decimal"
-                    placeholder="Wpisz kwotę"
-                    {...field}
-                    onChange={(event) => {
-                      const normalised = event.target.value.replace(/,/g, ".");
-                      field.onChange(normalised);
-                      onPlannedExpenseChange(plannedExpenses[index]?.categoryId ?? expense.categoryId, normalised);
-                    }}
-                    disabled={isDisabled}
-                  />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
+        {tree.map(({ category, children }) => (
+          <Fragment key={category.id}>
+            {renderExpenseField(category.index, children.length, false)}
+            {!collapsedIds.has(category.id) ? children.map((child) => renderExpenseField(child.index, 0, true)) : null}
+          </Fragment>
         ))}
       </form>
     </Form>
@@ -0,0 +1,59 @@
+import { Copy } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { formatCurrency, formatMonth } from "@/lib/formatters";
+import type { BudgetClonePreviewDto } from "@/types";
+
+interface PreviousBudgetCopyPanelProps {
+  readonly clonePreview: BudgetClonePreviewDto | null;
+  readonly isCloning: boolean;
+  readonly isDisabled?: boolean;
+  readonly onStartFromPreviousBudget: () => void;
+}
+
+/**
+ * Lets the user prefill the wizard with the previous month's budget and lists items that could not be copied.
+ */
+export const PreviousBudgetCopyPanel = ({
+  clonePreview,
+  isCloning,
+  isDisabled = false,
+  onStartFromPreviousBudget,
+}: PreviousBudgetCopyPanelProps) => {
+  const skippedIncomes = clonePreview?.skipped.incomes ?? [];
+  const skippedPlannedExpenses = clonePreview?.skipped.plannedExpenses ?? [];
+
+  return (
+    <div className="space-y-3 rounded-lg border border-dashed p-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <p className="text-sm text-muted-foreground">
+          {clonePreview
+            ? `Formularze wypełniono na podstawie budżetu: ${formatMonth(clonePreview.sourceMonth)}. Możesz je dowolnie zmienić.`
+            : "Skopiuj przychody i limity z poprzedniego budżetu, aby nie wpisywać ich od nowa."}
+        </p>
+        <Button variant="outline" onClick={onStartFromPreviousBudget} disabled={isCloning || isDisabled}>
+          <Copy className="mr-2 h-4 w-4" aria-hidden="true" />
+          {isCloning ? "Kopiowanie..." : "Zacznij od poprzedniego miesiąca"}
+        </Button>
+      </div>
+
+      {skippedIncomes.length > 0 || skippedPlannedExpenses.length > 0 ? (
+        <div className="space-y-1 text-sm" role="status">
+          <p className="font-medium text-foreground">Pominięte pozycje:</p>
+          <ul className="list-inside list-disc text-muted-foreground">
+            {skippedIncomes.map((income) => (
+              <li key={income.householdMemberId}>
+                Przychód nieaktywnego członka {income.fullName} ({formatCurrency(income.amount)})
+              </li>
+            ))}
+            {skippedPlannedExpenses.map((expense) => (
+              <li key={expense.categoryId}>
+                Limit zarchiwizowanej kategorii {expense.categoryName} ({formatCurrency(expense.limitAmount)})
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+    </div>
+  );
+};
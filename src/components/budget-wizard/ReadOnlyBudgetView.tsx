@@ -1,10 +1,13 @@
+import { FileDown } from "lucide-react";
+
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import type { BudgetDetailDto, CategoryDto, HouseholdMemberDto } from "@/types";
 
 interface ReadOnlyBudgetViewProps {
   readonly budget: BudgetDetailDto;
-  readonly onEditClick: () => void;
+  /** Opens the wizard; the edit button is hidden when not provided */
+  readonly onEditClick?: () => void;
   readonly members?: readonly HouseholdMemberDto[];
   readonly categories?: readonly CategoryDto[];
 }
@@ -20,7 +23,18 @@ export const ReadOnlyBudgetView = ({ budget, onEditClick, members = [], categori
           <h2 className="text-xl font-semibold">Podsumowanie budżetu</h2>
           <p className="text-sm text-muted-foreground">Miesiąc: {budget.month.slice(0, 7)}</p>
         </div>
-        <Button onClick={onEditClick}>Edytuj plan</Button>
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button variant="outline" asChild>
+            <a href={`/budget/${budget.id}/settlement`}>Rozliczenie</a>
+          </Button>
+          <Button variant="outline" asChild>
+            <a href={`/api/budgets/${budget.id}/report.pdf`} download>
+              <FileDown className="size-4" aria-hidden />
+              Raport PDF
+            </a>
+          </Button>
+          {onEditClick && <Button onClick={onEditClick}>Edytuj plan</Button>}
+        </div>
       </header>
 
       <div className="grid gap-4 lg:grid-cols-3">
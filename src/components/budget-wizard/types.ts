@@ -1,4 +1,4 @@
-import type { BudgetDetailDto, CategoryDto, HouseholdMemberDto } from "@/types";
+import type { BudgetDetailDto, CategoryDto, HouseholdMemberDto, PlannedExpenseRolloverMode } from "@/types";
 
 export interface IncomeFormViewModel {
   readonly householdMemberId: HouseholdMemberDto["id"];
@@ -10,8 +10,10 @@ export interface IncomeFormViewModel {
 export interface PlannedExpenseFormViewModel {
   readonly categoryId: CategoryDto["id"];
   readonly name: CategoryDto["name"];
+  readonly parentId: CategoryDto["parentId"];
   readonly originalPlannedExpenseId?: string;
   limitAmount: string;
+  rolloverMode: PlannedExpenseRolloverMode;
 }
 
 export type BudgetWizardStep = "incomes" | "planned-expenses" | "review";
@@ -1,10 +1,13 @@
 import { useCallback, useEffect, useMemo, useReducer, useRef } from "react";
 
 import type {
+  BudgetClonePreviewDto,
   BudgetDetailDto,
   BudgetSummaryDto,
+  BudgetsListResponseDto,
   CategoryDto,
   HouseholdMemberDto,
+  PlannedExpenseRolloverMode,
   UpsertBudgetIncomesCommand,
   UpsertPlannedExpensesCommand,
 } from "@/types";
@@ -18,6 +21,7 @@ import type {
 } from "./types";
 
 import { showToast } from "@/components/ui/toast";
+import { sumPlannedLimits } from "@/lib/category-tree";
 
 interface BudgetWizardState {
   readonly isLoading: boolean;
@@ -32,6 +36,8 @@ interface BudgetWizardState {
   readonly stepValidity: Record<BudgetWizardStep, boolean>;
   readonly error: string | null;
   readonly budgetDetail: BudgetDetailDto | null;
+  readonly isCloning: boolean;
+  readonly clonePreview: BudgetClonePreviewDto | null;
 }
 
 type BudgetWizardAction =
@@ -54,6 +60,8 @@ type BudgetWizardAction =
   | { type: "SET_EDIT_MODE"; payload: { isEditMode: boolean } }
   | { type: "SET_SAVING"; payload: { isSaving: boolean } }
   | { type: "SET_ERROR"; payload: { error: string | null } }
+  | { type: "SET_CLONING"; payload: { isCloning: boolean } }
+  | { type: "APPLY_CLONE_PREVIEW"; payload: { wizard: BudgetWizardViewModel; clonePreview: BudgetClonePreviewDto } }
   | { type: "SET_STEP_VALIDITY"; payload: { step: BudgetWizardStep; isValid: boolean } };
 
 const WIZARD_STEPS: WizardStepDefinition[] = [
@@ -89,6 +97,8 @@ const initialState: BudgetWizardState = {
   },
   error: null,
   budgetDetail: null,
+  isCloning: false,
+  clonePreview: null,
 };
 
 function budgetWizardReducer(state: BudgetWizardState, action: BudgetWizardAction): BudgetWizardState {
@@ -120,6 +130,10 @@ function budgetWizardReducer(state: BudgetWizardState, action: BudgetWizardActio
       return { ...state, isSaving: action.payload.isSaving };
     case "SET_ERROR":
       return { ...state, error: action.payload.error };
+    case "SET_CLONING":
+      return { ...state, isCloning: action.payload.isCloning };
+    case "APPLY_CLONE_PREVIEW":
+      return { ...state, wizard: action.payload.wizard, clonePreview: action.payload.clonePreview };
     case "SET_STEP_VALIDITY":
       if (state.stepValidity[action.payload.step] === action.payload.isValid) {
         return state;
@@ -145,6 +159,7 @@ interface UseBudgetWizardDependencies {
     wizard: BudgetWizardViewModel;
   }) => Promise<{ budget: BudgetDetailDto; summary: BudgetSummaryDto | null }>;
   replaceBudgetsData?: (payload: { wizard: BudgetWizardViewModel; budgetId: string }) => Promise<BudgetDetailDto>;
+  fetchPreviousBudgetClone?: (month: string) => Promise<BudgetClonePreviewDto | null>;
 }
 
 interface UseBudgetWizardOptions {
@@ -164,6 +179,8 @@ interface UseBudgetWizardResult {
   readonly error: string | null;
   readonly budgetDetail: BudgetDetailDto | null;
   readonly stepValidity: Record<BudgetWizardStep, boolean>;
+  readonly isCloning: boolean;
+  readonly clonePreview: BudgetClonePreviewDto | null;
   readonly canGoToNextStep: boolean;
   readonly canGoToPreviousStep: boolean;
   readonly onInitialize: () => void;
@@ -171,9 +188,11 @@ interface UseBudgetWizardResult {
   readonly onToggleEditMode: (editMode: boolean) => void;
   readonly onIncomeChange: (memberId: string, amount: string) => void;
   readonly onPlannedExpenseChange: (categoryId: string, amount: string) => void;
+  readonly onPlannedExpenseRolloverChange: (categoryId: string, rolloverMode: PlannedExpenseRolloverMode) => void;
   readonly onStepValidityChange: (step: BudgetWizardStep, isValid: boolean) => void;
   readonly onSave: () => Promise<void>;
   readonly onCalculateTotals: () => void;
+  readonly onStartFromPreviousBudget: () => Promise<void>;
 }
 
 function mapMembersToIncomes(
@@ -201,28 +220,65 @@ function mapCategoriesToPlannedExpenses(
   categories: readonly CategoryDto[],
   budget?: BudgetDetailDto | null
 ): PlannedExpenseFormViewModel[] {
-  const existingPlannedExpensesByCategory = new Map<string, { id: string; limitAmount: number }>();
+  const existingPlannedExpensesByCategory = new Map<
+    string,
+    { id: string; limitAmount: number; rolloverMode: PlannedExpenseRolloverMode }
+  >();
 
   budget?.plannedExpenses.forEach((expense) => {
-    existingPlannedExpensesByCategory.set(expense.categoryId, { id: expense.id, limitAmount: expense.limitAmount });
+    existingPlannedExpensesByCategory.set(expense.categoryId, {
+      id: expense.id,
+      limitAmount: expense.limitAmount,
+      rolloverMode: expense.rolloverMode,
+    });
   });
 
-  return categories.map((category) => {
+  // Archived categories cannot be planned anymore, but limits already planned for them stay editable
+  const plannableCategories = categories.filter(
+    (category) => !category.isArchived || existingPlannedExpensesByCategory.has(category.id)
+  );
+
+  return plannableCategories.map((category) => {
     const existingExpense = existingPlannedExpensesByCategory.get(category.id);
     return {
       categoryId: category.id,
       name: category.name,
+      parentId: category.parentId,
       originalPlannedExpenseId: existingExpense?.id,
       limitAmount: existingExpense ? existingExpense.limitAmount.toFixed(2) : "0",
+      rolloverMode: existingExpense?.rolloverMode ?? "none",
     };
   });
 }
 
+function applyClonePreview(wizard: BudgetWizardViewModel, preview: BudgetClonePreviewDto): BudgetWizardViewModel {
+  const incomeAmounts = new Map(preview.incomes.map((income) => [income.householdMemberId, income.amount]));
+  const plannedExpensesByCategory = new Map(preview.plannedExpenses.map((expense) => [expense.categoryId, expense]));
+
+  return calculateTotals({
+    ...wizard,
+    incomes: wizard.incomes.map((income) => {
+      const amount = incomeAmounts.get(income.householdMemberId);
+      return amount === undefined ? income : { ...income, amount: amount.toFixed(2) };
+    }),
+    plannedExpenses: wizard.plannedExpenses.map((expense) => {
+      const copied = plannedExpensesByCategory.get(expense.categoryId);
+      return copied
+        ? { ...expense, limitAmount: copied.limitAmount.toFixed(2), rolloverMode: copied.rolloverMode ?? "none" }
+        : expense;
+    }),
+  });
+}
+
 function calculateTotals(wizard: BudgetWizardViewModel): BudgetWizardViewModel {
   const totalIncome = wizard.incomes.reduce((sum, income) => sum + (Number.parseFloat(income.amount) || 0), 0);
-  const totalPlanned = wizard.plannedExpenses.reduce(
-    (sum, expense) => sum + (Number.parseFloat(expense.limitAmount) || 0),
-    0
+  // Parent limits cover their subcategories, the same way the budget summary counts them
+  const totalPlanned = sumPlannedLimits(
+    wizard.plannedExpenses.map((expense) => ({
+      categoryId: expense.categoryId,
+      limitAmount: Number.parseFloat(expense.limitAmount) || 0,
+    })),
+    new Map(wizard.plannedExpenses.map((expense) => [expense.categoryId, expense.parentId]))
   );
   const freeFunds = totalIncome - totalPlanned;
 
@@ -337,6 +393,17 @@ export function useBudgetWizard({ budgetId, dependencies }: UseBudgetWizardOptio
     [state.wizard]
   );
 
+  const onPlannedExpenseRolloverChange = useCallback(
+    (categoryId: string, rolloverMode: PlannedExpenseRolloverMode) => {
+      const plannedExpenses = state.wizard.plannedExpenses.map((expense) =>
+        expense.categoryId === categoryId ? { ...expense, rolloverMode } : expense
+      );
+
+      dispatch({ type: "SET_WIZARD", payload: { wizard: { ...state.wizard, plannedExpenses } } });
+    },
+    [state.wizard]
+  );
+
   const onStepChange = useCallback(
     (index: number) => {
       if (index < 0 || index >= state.steps.length) {
@@ -447,6 +514,36 @@ export function useBudgetWizard({ budgetId, dependencies }: UseBudgetWizardOptio
     }
   }, [api, state.categories, state.members, state.steps.length, state.wizard]);
 
+  const onStartFromPreviousBudget = useCallback(async () => {
+    dispatch({ type: "SET_CLONING", payload: { isCloning: true } });
+
+    try {
+      const preview = await api.fetchPreviousBudgetClone(state.wizard.month);
+      if (!preview) {
+        showToast({
+          title: "Brak poprzedniego budżetu",
+          description: "Nie znaleziono budżetu z wcześniejszego miesiąca.",
+        });
+        return;
+      }
+
+      dispatch({
+        type: "APPLY_CLONE_PREVIEW",
+        payload: { wizard: applyClonePreview(state.wizard, preview), clonePreview: preview },
+      });
+    } catch (error) {
+      console.error("Failed to copy previous budget", error);
+      const message = error instanceof Error ? error.message : undefined;
+      showToast({
+        title: "Nie udało się skopiować budżetu",
+        description: message,
+        variant: "destructive",
+      });
+    } finally {
+      dispatch({ type: "SET_CLONING", payload: { isCloning: false } });
+    }
+  }, [api, state.wizard]);
+
   const onSave = useCallback(async () => {
     await saveWizardState();
     showToast({
@@ -485,6 +582,8 @@ export function useBudgetWizard({ budgetId, dependencies }: UseBudgetWizardOptio
     error: state.error,
     budgetDetail: state.budgetDetail,
     stepValidity: state.stepValidity,
+    isCloning: state.isCloning,
+    clonePreview: state.clonePreview,
     canGoToNextStep,
     canGoToPreviousStep,
     onInitialize: initialize,
@@ -492,9 +591,11 @@ export function useBudgetWizard({ budgetId, dependencies }: UseBudgetWizardOptio
     onToggleEditMode,
     onIncomeChange,
     onPlannedExpenseChange,
+    onPlannedExpenseRolloverChange,
     onStepValidityChange,
     onSave,
     onCalculateTotals,
+    onStartFromPreviousBudget,
   };
 }
 
@@ -542,6 +643,7 @@ export function transformWizardToCreateCommand(wizard: BudgetWizardViewModel): {
     .map((expense) => ({
       categoryId: expense.categoryId,
       limitAmount: Number.parseFloat(expense.limitAmount),
+      rolloverMode: expense.rolloverMode,
     }));
 
   return {
@@ -569,7 +671,12 @@ function createBudgetWizardApi(deps: UseBudgetWizardDependencies) {
   const fetchCategories =
     deps.fetchCategories ??
     (async () => {
-      const response = await fetch(categoriesEndpoint, { method: "GET", headers: { Accept: "application/json" } });
+      // Whole category tree on one page, so that subcategories can be grouped under their parents;
+      // archived categories are needed for the names in budgets planned before they were archived
+      const response = await fetch(`${categoriesEndpoint}?page=1&pageSize=100&sort=sortOrder&includeArchived=true`, {
+        method: "GET",
+        headers: { Accept: "application/json" },
+      });
       if (!response.ok) {
         throw await normalizeApiError(response, "Nie udało się pobrać kategorii budżetowych.");
       }
@@ -651,12 +758,42 @@ function createBudgetWizardApi(deps: UseBudgetWizardDependencies) {
       return fetchBudgetDetail(budgetId);
     });
 
+  const fetchPreviousBudgetClone =
+    deps.fetchPreviousBudgetClone ??
+    (async (month: string) => {
+      const params = new URLSearchParams({ status: "all", sort: "month_desc", pageSize: "100" });
+      const listResponse = await fetch(`/api/budgets?${params.toString()}`, {
+        method: "GET",
+        headers: { Accept: "application/json" },
+      });
+      if (!listResponse.ok) {
+        throw await normalizeApiError(listResponse, "Nie udało się pobrać listy budżetów.");
+      }
+
+      const payload = (await listResponse.json()) as BudgetsListResponseDto;
+      const previousBudget = payload.data.find((budget) => budget.month.slice(0, 7) < month.slice(0, 7));
+      if (!previousBudget) {
+        return null;
+      }
+
+      const cloneResponse = await fetch(`/api/budgets/${previousBudget.id}/clone`, {
+        method: "GET",
+        headers: { Accept: "application/json" },
+      });
+      if (!cloneResponse.ok) {
+        throw await normalizeApiError(cloneResponse, "Nie udało się skopiować poprzedniego budżetu.");
+      }
+
+      return (await cloneResponse.json()) as BudgetClonePreviewDto;
+    });
+
   return {
     fetchHouseholdMembers,
     fetchCategories,
     fetchBudgetDetail,
     createBudget,
     replaceBudgetsData,
+    fetchPreviousBudgetClone,
   } as const;
 }
 
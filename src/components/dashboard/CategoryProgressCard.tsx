@@ -1,32 +1,63 @@
-import { AlertTriangle } from "lucide-react";
+import { useState } from "react";
+import { AlertTriangle, ChevronDown, ChevronRight } from "lucide-react";
 
+import { CategoryIcon } from "@/components/settings/CategoryAppearance";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { formatCurrency, formatPercentage } from "@/lib/formatters";
+import { cn } from "@/lib/utils";
+import type { BudgetCategorySummaryStatus, CategoryGroup, SpendingForecastDto } from "@/types";
 
-export type CategoryStatus = "ok" | "warning" | "over";
+export type CategoryStatus = BudgetCategorySummaryStatus;
 
 export interface CategoryProgressViewModel {
   readonly id: string;
   readonly name: string;
+  readonly parentId: string | null;
+  readonly color: string | null;
+  readonly icon: string | null;
+  readonly group: CategoryGroup;
+  /** False when the limit is only the sum of the subcategory limits */
+  readonly hasOwnLimit: boolean;
   readonly spent: number;
   readonly limit: number;
+  readonly carriedIn: number;
   readonly progressPercentage: number;
+  /** Progress a category keeping pace with the month would have */
+  readonly expectedPercentage: number;
   readonly status: CategoryStatus;
+  readonly forecast: SpendingForecastDto;
 }
 
 export interface CategoryProgressCardProps {
   readonly category: CategoryProgressViewModel;
+  /** Planned subcategories; their spending is already included in the category */
+  readonly subcategories?: readonly CategoryProgressViewModel[];
 }
 
-export const CategoryProgressCard = ({ category }: CategoryProgressCardProps) => {
-  const { name, spent, limit, progressPercentage, status } = category;
+export const CategoryProgressCard = ({ category, subcategories = [] }: CategoryProgressCardProps) => {
+  const {
+    name,
+    color,
+    icon,
+    spent,
+    limit,
+    hasOwnLimit,
+    carriedIn,
+    progressPercentage,
+    expectedPercentage,
+    status,
+    forecast,
+  } = category;
+  const [isExpanded, setIsExpanded] = useState(false);
 
   return (
     <Card className="w-full">
       <CardHeader className="flex-row items-center justify-between space-y-0">
         <CardTitle className="text-base font-medium">
           <span className="flex items-center gap-2">
+            <CategoryIcon icon={icon} color={color} />
             {name}
             {status === "over" ? <AlertTriangle className="h-4 w-4 text-destructive" aria-hidden="true" /> : null}
           </span>
@@ -40,12 +71,79 @@ export const CategoryProgressCard = ({ category }: CategoryProgressCardProps) =>
           </p>
           <span className="font-medium text-foreground">{formatPercentage(progressPercentage)}</span>
         </div>
+        {!hasOwnLimit ? <p className="text-xs text-muted-foreground">Limit to suma limitów podkategorii.</p> : null}
+        {status === "ahead_of_pace" ? (
+          <p className="text-xs text-sky-700">
+            Wydatki rosną szybciej niż mija miesiąc (oczekiwano ok. {formatPercentage(expectedPercentage)}).
+          </p>
+        ) : null}
+        {carriedIn !== 0 ? (
+          <p className={carriedIn > 0 ? "text-xs text-emerald-700" : "text-xs text-destructive"}>
+            {carriedIn > 0 ? "Przeniesiono z poprzedniego miesiąca: +" : "Przekroczenie z poprzedniego miesiąca: "}
+            {formatCurrency(carriedIn)}
+          </p>
+        ) : null}
         <Progress
           value={progressPercentage}
           indicatorClassName={getIndicatorClassName(status)}
           className={getTrackClassName(status)}
           aria-label={`Postęp kategorii ${name}`}
         />
+        {forecast.daysRemaining > 0 ? (
+          <p className="text-xs text-muted-foreground">
+            Prognoza: <span className="font-medium text-foreground">{formatCurrency(forecast.projectedSpent)}</span> (
+            {formatCurrency(forecast.lowerBound)} – {formatCurrency(forecast.upperBound)})
+            {forecast.projectedSpent > limit ? (
+              <span className="block text-destructive">
+                Prognozowane przekroczenie limitu o {formatCurrency(forecast.projectedSpent - limit)}.
+              </span>
+            ) : null}
+          </p>
+        ) : null}
+        {subcategories.length > 0 ? (
+          <div className="space-y-3 border-t border-border pt-3">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="-ml-2 h-7 px-2 text-muted-foreground"
+              onClick={() => setIsExpanded((previous) => !previous)}
+              aria-expanded={isExpanded}
+            >
+              {isExpanded ? (
+                <ChevronDown className="mr-1 h-4 w-4" aria-hidden="true" />
+              ) : (
+                <ChevronRight className="mr-1 h-4 w-4" aria-hidden="true" />
+              )}
+              Podkategorie ({subcategories.length})
+            </Button>
+            {isExpanded ? (
+              <ul className="space-y-3">
+                {subcategories.map((subcategory) => (
+                  <li key={subcategory.id} className="space-y-1 pl-6">
+                    <div className="flex items-center justify-between gap-2 text-sm">
+                      <span className="flex items-center gap-2">
+                        {subcategory.name}
+                        {subcategory.status === "over" ? (
+                          <AlertTriangle className="h-3.5 w-3.5 text-destructive" aria-hidden="true" />
+                        ) : null}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {formatCurrency(subcategory.spent)} / {formatCurrency(subcategory.limit)}
+                      </span>
+                    </div>
+                    <Progress
+                      value={subcategory.progressPercentage}
+                      indicatorClassName={getIndicatorClassName(subcategory.status)}
+                      className={cn("h-1.5", getTrackClassName(subcategory.status))}
+                      aria-label={`Postęp podkategorii ${subcategory.name}`}
+                    />
+                  </li>
+                ))}
+              </ul>
+            ) : null}
+          </div>
+        ) : null}
       </CardContent>
     </Card>
   );
@@ -60,6 +158,10 @@ const getIndicatorClassName = (status: CategoryStatus): string => {
     return "bg-amber-500";
   }
 
+  if (status === "ahead_of_pace") {
+    return "bg-sky-500";
+  }
+
   return "bg-primary";
 };
 
@@ -72,5 +174,9 @@ const getTrackClassName = (status: CategoryStatus): string => {
     return "bg-amber-500/20";
   }
 
+  if (status === "ahead_of_pace") {
+    return "bg-sky-500/20";
+  }
+
   return "bg-muted";
 };
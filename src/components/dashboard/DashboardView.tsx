@@ -6,12 +6,21 @@ import { EmptyState } from "@/components/dashboard/EmptyState";
 import type { OverallSummaryViewModel } from "@/components/dashboard/OverallSummaryCard";
 import { OverallSummaryCard } from "@/components/dashboard/OverallSummaryCard";
 import { UISkeletonLoader } from "@/components/dashboard/UISkeletonLoader";
+import { CATEGORY_GROUP_LABELS } from "@/components/settings/CategoryAppearance";
 import { Button } from "@/components/ui/button";
-import { clampPercentage, formatMonth } from "@/lib/formatters";
+import { groupCategoriesByCostGroup } from "@/lib/category-appearance";
+import { buildCategoryTree } from "@/lib/category-tree";
+import { clampPercentage, formatCurrency, formatMonth } from "@/lib/formatters";
 import { useDashboard } from "@/lib/hooks/useDashboard";
+import type { HouseholdRole } from "@/types";
 
-export const DashboardView = () => {
-  const { data, isLoading, error, refetch } = useDashboard();
+export interface DashboardViewProps {
+  /** Household role of the current user; editors and owners book due recurring transactions */
+  readonly role?: HouseholdRole;
+}
+
+export const DashboardView = ({ role }: DashboardViewProps) => {
+  const { data, isLoading, error, recurringError, refetch } = useDashboard(role);
 
   /**
    * Listen for expense-added event and refresh dashboard
@@ -44,13 +53,38 @@ export const DashboardView = () => {
     return data.categories.map((category) => ({
       id: category.categoryId,
       name: category.name,
+      parentId: category.parentId,
+      color: category.color,
+      icon: category.icon,
+      group: category.group,
+      hasOwnLimit: category.hasOwnLimit,
       spent: category.spent,
-      limit: category.limitAmount,
+      limit: category.effectiveLimit,
+      carriedIn: category.carriedIn,
       progressPercentage: clampPercentage(category.progress),
+      expectedPercentage: category.expectedProgress,
       status: category.status,
+      forecast: category.forecast,
     }));
   }, [data]);
 
+  // Subcategories are shown inside the cards of their parents
+  const categoryTree = useMemo(() => buildCategoryTree(categories), [categories]);
+
+  // Cards are grouped by the cost group of the top-level category; parents already include their subcategories
+  const categoryGroups = useMemo(
+    () =>
+      groupCategoriesByCostGroup(
+        categoryTree.map((node) => ({
+          group: node.category.group,
+          spent: node.category.spent,
+          limit: node.category.limit,
+          node,
+        }))
+      ),
+    [categoryTree]
+  );
+
   const summary = useMemo<OverallSummaryViewModel | null>(() => {
     if (!data) {
       return null;
@@ -61,6 +95,7 @@ export const DashboardView = () => {
       totalSpent: data.totalSpent,
       freeFunds: data.freeFunds,
       progressPercentage: clampPercentage(data.progress),
+      forecast: data.forecast,
     };
   }, [data]);
 
@@ -106,6 +141,11 @@ export const DashboardView = () => {
             Edytuj budżet
           </Button>
         </header>
+        {recurringError ? (
+          <div role="alert" className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
+            {recurringError}
+          </div>
+        ) : null}
         <OverallSummaryCard data={summary} />
       </section>
 
@@ -116,11 +156,22 @@ export const DashboardView = () => {
             Monitoruj postęp w każdej kategorii i reaguj, gdy zbliżasz się do limitu.
           </p>
         </header>
-        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 xl:grid-cols-3">
-          {categories.map((category) => (
-            <CategoryProgressCard key={category.id} category={category} />
-          ))}
-        </div>
+        {categoryGroups.map((costGroup) => (
+          <div key={costGroup.group} className="space-y-3">
+            <div className="flex flex-wrap items-baseline justify-between gap-2">
+              <h3 className="text-lg font-medium">{CATEGORY_GROUP_LABELS[costGroup.group]}</h3>
+              <p className="text-sm text-muted-foreground">
+                Wydano <span className="font-medium text-foreground">{formatCurrency(costGroup.spent)}</span> z
+                <span className="font-medium text-foreground"> {formatCurrency(costGroup.limit)}</span>
+              </p>
+            </div>
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 xl:grid-cols-3">
+              {costGroup.categories.map(({ node }) => (
+                <CategoryProgressCard key={node.category.id} category={node.category} subcategories={node.children} />
+              ))}
+            </div>
+          </div>
+        ))}
       </section>
     </div>
   );
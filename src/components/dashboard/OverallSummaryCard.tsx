@@ -1,12 +1,14 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { formatCurrency, formatPercentage } from "@/lib/formatters";
+import type { SpendingForecastDto } from "@/types";
 
 export interface OverallSummaryViewModel {
   readonly totalSpent: number;
   readonly totalIncome: number;
   readonly freeFunds: number;
   readonly progressPercentage: number;
+  readonly forecast: SpendingForecastDto;
 }
 
 export interface OverallSummaryCardProps {
@@ -14,7 +16,7 @@ export interface OverallSummaryCardProps {
 }
 
 export const OverallSummaryCard = ({ data }: OverallSummaryCardProps) => {
-  const { totalSpent, totalIncome, freeFunds, progressPercentage } = data;
+  const { totalSpent, totalIncome, freeFunds, progressPercentage, forecast } = data;
 
   return (
     <Card className="w-full">
@@ -38,6 +40,27 @@ export const OverallSummaryCard = ({ data }: OverallSummaryCardProps) => {
             {formatPercentage(progressPercentage)} budżetu zostało wykorzystane.
           </p>
         </div>
+        {forecast.daysRemaining > 0 ? (
+          <div className="space-y-1 border-t border-border pt-4 text-sm text-muted-foreground">
+            <p>
+              Prognoza wydatków na koniec miesiąca:{" "}
+              <span className="font-semibold text-foreground">{formatCurrency(forecast.projectedSpent)}</span>
+            </p>
+            <p className="text-xs">
+              Prawdopodobny zakres: {formatCurrency(forecast.lowerBound)} – {formatCurrency(forecast.upperBound)}
+              {forecast.upcomingRecurring > 0
+                ? `, w tym nadchodzące płatności cykliczne: ${formatCurrency(forecast.upcomingRecurring)}`
+                : null}
+              .
+            </p>
+            {forecast.projectedSpent > totalIncome ? (
+              <p className="text-xs text-destructive">
+                Przy obecnym tempie wydatki przekroczą przychody o{" "}
+                {formatCurrency(forecast.projectedSpent - totalIncome)}.
+              </p>
+            ) : null}
+          </div>
+        ) : null}
       </CardContent>
     </Card>
   );
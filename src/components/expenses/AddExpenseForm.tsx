@@ -1,50 +1,96 @@
 import { zodResolver } from "@hookform/resolvers/zod";
-import { CalendarIcon } from "lucide-react";
-import { useState } from "react";
+import { CalendarIcon, Split } from "lucide-react";
+import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 
 import type { AddExpenseFormValues } from "@/components/expenses/types";
+import {
+  TransactionSplitsEditor,
+  createEmptySplitLines,
+  refineSplitLines,
+  splitLineFormSchema,
+  toSplitCommandItems,
+} from "@/components/transactions/TransactionSplitsEditor";
 import { Button } from "@/components/ui/button";
 import { Calendar } from "@/components/ui/calendar";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
+import { findMatchingCategorizationRule } from "@/lib/categorization";
 import { cn } from "@/lib/utils";
-import type { CategoryDto, CreateTransactionCommand } from "@/types";
+import type { CategorizationRuleDto, CategoryDto, CreateTransactionCommand, HouseholdMemberDto } from "@/types";
 
 const AMOUNT_REGEX = /^\d+(?:\.\d{1,2})?$/;
 
+// Radix Select does not accept an empty value, so "not assigned" gets its own option value
+const UNASSIGNED_MEMBER_VALUE = "none";
+
 /**
  * Zod schema for add expense form validation
  */
-const addExpenseFormSchema = z.object({
-  amount: z
-    .string()
-    .min(1, "Kwota jest wymagana")
-    .refine((value) => AMOUNT_REGEX.test(value), "Kwota może mieć maksymalnie dwa miejsca po przecinku")
-    .refine((value) => Number(value) > 0, "Kwota musi być większa od zera"),
+const addExpenseFormSchema = z
+  .object({
+    kind: z.enum(["expense", "refund"]),
+
+    amount: z
+      .string()
+      .min(1, "Kwota jest wymagana")
+      .refine((value) => AMOUNT_REGEX.test(value), "Kwota może mieć maksymalnie dwa miejsca po przecinku")
+      .refine((value) => Number(value) > 0, "Kwota musi być większa od zera"),
+
+    categoryId: z.string(),
+
+    transactionDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Podaj datę w formacie RRRR-MM-DD")
+      .refine((value) => !Number.isNaN(new Date(value).getTime()), "Podaj poprawną datę"),
 
-  categoryId: z.string().min(1, "Wybierz kategorię").uuid("Wybierz poprawną kategorię"),
+    note: z.string().max(500, "Notatka nie może przekraczać 500 znaków").optional().default(""),
 
-  transactionDate: z
-    .string()
-    .regex(/^\d{4}-\d{2}-\d{2}$/, "Podaj datę w formacie RRRR-MM-DD")
-    .refine((value) => !Number.isNaN(new Date(value).getTime()), "Podaj poprawną datę"),
+    householdMemberId: z.string(),
 
-  note: z.string().max(500, "Notatka nie może przekraczać 500 znaków").optional().default(""),
-});
+    isSplit: z.boolean(),
+
+    splits: z.array(splitLineFormSchema),
+  })
+  .superRefine((values, ctx) => {
+    if (values.isSplit) {
+      refineSplitLines(ctx, values.amount, values.splits);
+      return;
+    }
+
+    const categoryResult = z
+      .string()
+      .min(1, "Wybierz kategorię")
+      .uuid("Wybierz poprawną kategorię")
+      .safeParse(values.categoryId);
+    if (!categoryResult.success) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: categoryResult.error.errors[0].message,
+        path: ["categoryId"],
+      });
+    }
+  });
 
 export interface AddExpenseFormProps {
   readonly categories: readonly CategoryDto[];
+  /** Active members; the member linked to the signed-in account is preselected as the payer */
+  readonly members?: readonly HouseholdMemberDto[];
+  /** Rules used to pick the category while the note is typed */
+  readonly categorizationRules?: readonly CategorizationRuleDto[];
   readonly isLoadingCategories: boolean;
   readonly onSubmit: (data: CreateTransactionCommand) => Promise<void>;
   readonly onCancel: () => void;
   readonly isSubmitting: boolean;
   readonly submitError: string | null;
   readonly onClearError: () => void;
+  readonly isDuplicateSuspected?: boolean;
+  readonly onConfirmDuplicate?: () => Promise<void>;
 }
 
 /**
@@ -52,33 +98,104 @@ export interface AddExpenseFormProps {
  */
 export const AddExpenseForm = ({
   categories,
+  members = [],
+  categorizationRules = [],
   isLoadingCategories,
   onSubmit,
   onCancel,
   isSubmitting,
   submitError,
   onClearError,
+  isDuplicateSuspected = false,
+  onConfirmDuplicate,
 }: AddExpenseFormProps) => {
   const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+  // Rule that picked the current category; a category chosen by hand is never overwritten
+  const [appliedRule, setAppliedRule] = useState<CategorizationRuleDto | null>(null);
+  const [isCategoryChosenByHand, setIsCategoryChosenByHand] = useState(false);
 
   const form = useForm<AddExpenseFormValues>({
     resolver: zodResolver(addExpenseFormSchema),
     defaultValues: {
+      kind: "expense",
       amount: "",
       categoryId: "",
       transactionDate: getTodayDate(),
       note: "",
+      householdMemberId: "",
+      isSplit: false,
+      splits: [],
     },
   });
 
+  const isSplit = form.watch("isSplit");
+  const amountValue = form.watch("amount");
+
+  // Members may load after the form opens; the own member is preselected unless a payer was already chosen
+  const currentUserMemberId = members.find((member) => member.isCurrentUser)?.id;
+  useEffect(() => {
+    if (currentUserMemberId && !form.getFieldState("householdMemberId").isDirty) {
+      form.setValue("householdMemberId", currentUserMemberId);
+    }
+  }, [currentUserMemberId, form]);
+
+  /**
+   * Switch between a single category and a split across categories.
+   * The first split line starts with the currently entered category and amount.
+   */
+  const handleToggleSplit = () => {
+    if (isSplit) {
+      form.setValue("isSplit", false);
+      form.setValue("splits", []);
+      return;
+    }
+
+    const [firstLine, ...otherLines] = createEmptySplitLines();
+    form.setValue("splits", [
+      { categoryId: form.getValues("categoryId") || firstLine.categoryId, amount: amountValue || firstLine.amount },
+      ...otherLines,
+    ]);
+    form.setValue("isSplit", true);
+    form.clearErrors("categoryId");
+  };
+
+  /**
+   * Pick the category of the best matching categorization rule while the note or amount is typed
+   */
+  const applyCategorizationRules = (note: string, amount: string) => {
+    if (isCategoryChosenByHand || categorizationRules.length === 0) {
+      return;
+    }
+
+    // Rules of archived categories are skipped, as those categories cannot be chosen
+    const activeRules = categorizationRules.filter((candidate) =>
+      categories.some((category) => category.id === candidate.categoryId)
+    );
+    const rule = findMatchingCategorizationRule(activeRules, {
+      note,
+      amount: AMOUNT_REGEX.test(amount) ? Number(amount) : null,
+    });
+
+    if (rule) {
+      form.setValue("categoryId", rule.categoryId);
+      form.clearErrors("categoryId");
+    } else if (appliedRule) {
+      form.setValue("categoryId", "");
+    }
+    setAppliedRule(rule);
+  };
+
   const handleSubmit = async (values: AddExpenseFormValues) => {
     onClearError();
 
     const command: CreateTransactionCommand = {
-      categoryId: values.categoryId,
+      ...(values.isSplit ? { splits: toSplitCommandItems(values.splits) } : { categoryId: values.categoryId }),
+      kind: values.kind,
       amount: Number(values.amount),
       transactionDate: values.transactionDate,
       note: values.note || undefined,
+      // Sent as null when unassigned, otherwise the API would pick the member of the signed-in account
+      householdMemberId: values.householdMemberId || null,
     };
 
     await onSubmit(command);
@@ -87,6 +204,28 @@ export const AddExpenseForm = ({
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4" data-testid="add-expense-form">
+        {/* Kind field - a refund reduces the spending of its category */}
+        <FormField
+          name="kind"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Rodzaj</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value} disabled={isSubmitting}>
+                <FormControl>
+                  <SelectTrigger data-testid="expense-kind-select">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="expense">Wydatek</SelectItem>
+                  <SelectItem value="refund">Zwrot</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         {/* Amount field */}
         <FormField
           name="amount"
@@ -101,6 +240,10 @@ export const AddExpenseForm = ({
                   disabled={isSubmitting}
                   data-testid="expense-amount-input"
                   {...field}
+                  onChange={(event) => {
+                    field.onChange(event);
+                    applyCategorizationRules(form.getValues("note") ?? "", event.target.value);
+                  }}
                 />
               </FormControl>
               <FormMessage />
@@ -108,41 +251,107 @@ export const AddExpenseForm = ({
           )}
         />
 
-        {/* Category field */}
-        <FormField
-          name="categoryId"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>Kategoria</FormLabel>
-              <Select
-                onValueChange={field.onChange}
-                defaultValue={field.value}
-                disabled={isSubmitting || isLoadingCategories}
-              >
-                <FormControl>
-                  <SelectTrigger data-testid="expense-category-select">
-                    <SelectValue placeholder="Wybierz kategorię" />
-                  </SelectTrigger>
-                </FormControl>
-                <SelectContent data-testid="expense-category-options">
-                  {categories.length === 0 && !isLoadingCategories && (
-                    <div className="px-2 py-6 text-center text-sm text-muted-foreground">Brak dostępnych kategorii</div>
-                  )}
-                  {categories.map((category) => (
-                    <SelectItem
-                      key={category.id}
-                      value={category.id}
-                      data-testid={`expense-category-option-${category.id}`}
-                    >
-                      {category.name}
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-              <FormMessage />
-            </FormItem>
-          )}
-        />
+        {/* Category field or split editor */}
+        {isSplit ? (
+          <div className="space-y-2">
+            <Label>Podział na kategorie</Label>
+            <TransactionSplitsEditor
+              categories={categories}
+              totalAmount={amountValue}
+              disabled={isSubmitting || isLoadingCategories}
+            />
+          </div>
+        ) : (
+          <FormField
+            name="categoryId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Kategoria</FormLabel>
+                <Select
+                  onValueChange={(value) => {
+                    field.onChange(value);
+                    setIsCategoryChosenByHand(true);
+                    setAppliedRule(null);
+                  }}
+                  value={field.value}
+                  disabled={isSubmitting || isLoadingCategories}
+                >
+                  <FormControl>
+                    <SelectTrigger data-testid="expense-category-select">
+                      <SelectValue placeholder="Wybierz kategorię" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent data-testid="expense-category-options">
+                    {categories.length === 0 && !isLoadingCategories && (
+                      <div className="px-2 py-6 text-center text-sm text-muted-foreground">
+                        Brak dostępnych kategorii
+                      </div>
+                    )}
+                    {categories.map((category) => (
+                      <SelectItem
+                        key={category.id}
+                        value={category.id}
+                        data-testid={`expense-category-option-${category.id}`}
+                      >
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {appliedRule ? (
+                  <p className="text-xs text-muted-foreground" data-testid="expense-category-rule-hint">
+                    Kategoria dobrana według reguły „{appliedRule.pattern}”
+                  </p>
+                ) : null}
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={handleToggleSplit}
+          disabled={isSubmitting || isLoadingCategories}
+          data-testid="expense-split-toggle"
+        >
+          <Split className="mr-2 h-4 w-4" aria-hidden="true" />
+          {isSplit ? "Jedna kategoria" : "Podziel na kategorie"}
+        </Button>
+
+        {/* Paying member field */}
+        {members.length > 0 && (
+          <FormField
+            name="householdMemberId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Kto zapłacił? (opcjonalnie)</FormLabel>
+                <Select
+                  onValueChange={(value) => field.onChange(value === UNASSIGNED_MEMBER_VALUE ? "" : value)}
+                  value={field.value || UNASSIGNED_MEMBER_VALUE}
+                  disabled={isSubmitting}
+                >
+                  <FormControl>
+                    <SelectTrigger data-testid="expense-member-select">
+                      <SelectValue placeholder="Nie przypisano" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={UNASSIGNED_MEMBER_VALUE}>Nie przypisano</SelectItem>
+                    {members.map((member) => (
+                      <SelectItem key={member.id} value={member.id}>
+                        {member.fullName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
 
         {/* Transaction Date field */}
         <FormField
@@ -199,6 +408,10 @@ export const AddExpenseForm = ({
                   disabled={isSubmitting}
                   data-testid="expense-note-input"
                   {...field}
+                  onChange={(event) => {
+                    field.onChange(event);
+                    applyCategorizationRules(event.target.value, form.getValues("amount"));
+                  }}
                 />
               </FormControl>
               <FormMessage />
@@ -206,11 +419,30 @@ export const AddExpenseForm = ({
           )}
         />
 
-        {/* Error message */}
-        {submitError && (
-          <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive" data-testid="form-error-message">
-            {submitError}
+        {/* Suspected duplicate warning - the expense can be saved anyway */}
+        {submitError && isDuplicateSuspected && onConfirmDuplicate ? (
+          <div
+            className="space-y-3 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900"
+            data-testid="duplicate-warning"
+          >
+            <p>{submitError}</p>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => void onConfirmDuplicate()}
+              disabled={isSubmitting}
+              data-testid="confirm-duplicate-button"
+            >
+              Zapisz mimo to
+            </Button>
           </div>
+        ) : (
+          submitError && (
+            <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive" data-testid="form-error-message">
+              {submitError}
+            </div>
+          )
         )}
 
         {/* Action buttons */}
@@ -1,14 +1,27 @@
-import type { CategoryDto, TransactionDto } from "@/types";
+import type { SplitLineFormValues } from "@/components/transactions/TransactionSplitsEditor";
+import type {
+  CategorizationRuleDto,
+  CategoryDto,
+  CreateTransactionCommand,
+  HouseholdMemberDto,
+  TransactionDto,
+  TransactionKind,
+} from "@/types";
 
 /**
  * Wartości formularza dodawania wydatku.
  * Wszystkie pola są stringami dla kompatybilności z react-hook-form.
  */
 export interface AddExpenseFormValues {
+  /** Zwrot zmniejsza wydatki kategorii zamiast je zwiększać */
+  readonly kind: TransactionKind;
   readonly amount: string;
   readonly categoryId: string;
   readonly transactionDate: string;
   readonly note?: string;
+  readonly householdMemberId: string;
+  readonly isSplit: boolean;
+  readonly splits: SplitLineFormValues[];
 }
 
 /**
@@ -18,8 +31,13 @@ export interface AddExpenseState {
   readonly categories: readonly CategoryDto[];
   readonly isLoadingCategories: boolean;
   readonly categoriesError: AddExpenseError | null;
+  readonly members: readonly HouseholdMemberDto[];
+  /** Reguły kategoryzacji gospodarstwa, według których formularz podpowiada kategorię */
+  readonly categorizationRules: readonly CategorizationRuleDto[];
   readonly isSubmitting: boolean;
   readonly submitError: string | null;
+  /** Wydatek odrzucony jako podejrzany duplikat, który użytkownik może zapisać mimo to */
+  readonly duplicateCommand: CreateTransactionCommand | null;
   readonly budgetId: string | null;
   readonly isLoadingBudget: boolean;
 }
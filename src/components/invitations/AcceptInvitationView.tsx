@@ -0,0 +1,101 @@
+import { useCallback, useState } from "react";
+import { Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import type { AcceptHouseholdInvitationCommand, ApiErrorDto } from "@/types";
+
+export interface AcceptInvitationViewProps {
+  /** Token from the invitation link, null when the link has none */
+  readonly token: string | null;
+  /** Email address of the signed-in account */
+  readonly email: string;
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  INVALID_TOKEN: "Link z zaproszeniem jest niepełny. Poproś o nowe zaproszenie.",
+  INVITATION_NOT_FOUND:
+    "Zaproszenie wygasło, zostało odwołane lub zostało już wykorzystane. Poproś o nowe zaproszenie.",
+  INVITATION_EMAIL_MISMATCH:
+    "Zaproszenie zostało wysłane na inny adres e-mail. Zaloguj się na konto z adresem, na który przyszło zaproszenie.",
+  HOUSEHOLD_NOT_EMPTY:
+    "Twoje obecne gospodarstwo zawiera już dane (domowników, budżety, płatności cykliczne lub reguły), a nikt inny z niego nie korzysta. Dołączyć do innego gospodarstwa można tylko z pustego konta.",
+  HOUSEHOLD_OWNER_CANNOT_LEAVE: "Właściciel gospodarstwa nie może go opuścić, dopóki korzystają z niego inne osoby.",
+  UNAUTHENTICATED: "Sesja wygasła. Zaloguj się ponownie.",
+};
+
+/**
+ * View for accepting an invitation to a household.
+ * The signed-in user joins the invited household and is taken to its dashboard.
+ */
+export const AcceptInvitationView = ({ token, email }: AcceptInvitationViewProps) => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(token ? null : ERROR_MESSAGES.INVALID_TOKEN);
+
+  const handleAccept = useCallback(async () => {
+    if (!token || isSubmitting) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setErrorMessage(null);
+
+    try {
+      const command: AcceptHouseholdInvitationCommand = { token };
+      const response = await fetch("/api/household/invitations/accept", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Accept: "application/json",
+        },
+        body: JSON.stringify(command),
+      });
+
+      if (!response.ok) {
+        const payload = (await response.json().catch(() => null)) as ApiErrorDto | null;
+        const code = payload?.error.code;
+        setErrorMessage(code && ERROR_MESSAGES[code] ? ERROR_MESSAGES[code] : "Nie udało się przyjąć zaproszenia.");
+        return;
+      }
+
+      // Joined the household - open its dashboard
+      window.location.href = "/";
+    } catch (error) {
+      console.error("Accept invitation error:", error);
+      setErrorMessage("Nie udało się połączyć z serwerem. Spróbuj ponownie.");
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [isSubmitting, token]);
+
+  return (
+    <Card className="border-border/60 shadow-xl shadow-primary/5">
+      <CardHeader className="space-y-3 text-center">
+        <CardTitle className="text-2xl font-semibold tracking-tight">Zaproszenie do gospodarstwa</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Po dołączeniu będziesz wspólnie z pozostałymi osobami prowadzić budżet tego gospodarstwa. Zalogowano jako{" "}
+          <span className="font-medium text-foreground">{email}</span>.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {errorMessage ? (
+          <div
+            role="alert"
+            className="rounded-md border border-destructive/40 bg-destructive/10 px-3 py-2 text-sm font-medium text-destructive"
+          >
+            {errorMessage}
+          </div>
+        ) : null}
+        <Button type="button" className="w-full" onClick={handleAccept} disabled={!token || isSubmitting}>
+          {isSubmitting ? <Loader2 className="mr-2 size-4 animate-spin" aria-hidden /> : null}
+          <span>Dołącz do gospodarstwa</span>
+        </Button>
+      </CardContent>
+      <CardFooter className="justify-center text-sm text-muted-foreground">
+        <a href="/" className="font-medium text-primary hover:text-primary/80">
+          Wróć do panelu
+        </a>
+      </CardFooter>
+    </Card>
+  );
+};
@@ -34,9 +34,11 @@ export const MainLayout = ({ children, user }: MainLayoutProps) => {
 
   return (
     <UIContextProvider>
-      <div className="flex h-dvh overflow-hidden bg-background text-foreground">
+      <div className="flex h-dvh overflow-hidden bg-background text-foreground print:block print:h-auto print:overflow-visible">
         <MainNavigation user={user} />
-        <main className={`flex-1 overflow-y-auto px-4 pb-10 pt-6 transition-all ${mainPaddingClasses}`}>
+        <main
+          className={`flex-1 overflow-y-auto px-4 pb-10 pt-6 transition-all print:overflow-visible print:p-0 ${mainPaddingClasses}`}
+        >
           <div className="mx-auto w-full max-w-5xl space-y-8">{children}</div>
         </main>
       </div>
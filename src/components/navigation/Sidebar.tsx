@@ -1,4 +1,4 @@
-import { LayoutDashboard, Settings, Waves } from "lucide-react";
+import { ChartLine, LayoutDashboard, Settings, Waves } from "lucide-react";
 
 import { AddExpenseButton } from "@/components/navigation/AddExpenseButton";
 import { NavigationItem } from "@/components/navigation/NavigationItem";
@@ -15,6 +15,11 @@ const NAVIGATION_LINKS = [
     label: "Transakcje",
     icon: Waves,
   },
+  {
+    href: "/reports",
+    label: "Raporty",
+    icon: ChartLine,
+  },
   {
     href: "/settings",
     label: "Ustawienia",
@@ -35,7 +40,7 @@ export interface SidebarProps {
 
 export const Sidebar = ({ onNavigate, user }: SidebarProps) => {
   return (
-    <aside className="hidden lg:flex lg:h-dvh lg:w-72 lg:flex-col lg:gap-6 lg:border-r lg:border-sidebar-border lg:bg-sidebar lg:px-6 lg:py-8 lg:text-sidebar-foreground">
+    <aside className="hidden print:hidden lg:flex lg:h-dvh lg:w-72 lg:flex-col lg:gap-6 lg:border-r lg:border-sidebar-border lg:bg-sidebar lg:px-6 lg:py-8 lg:text-sidebar-foreground">
       <div className="flex items-center gap-2 text-lg font-semibold">
         <span className="flex size-9 items-center justify-center rounded-full bg-primary text-primary-foreground">
           HB
@@ -1,4 +1,4 @@
-import { LayoutDashboard, Settings, Waves } from "lucide-react";
+import { ChartLine, LayoutDashboard, Settings, Waves } from "lucide-react";
 
 import { AddExpenseButton } from "@/components/navigation/AddExpenseButton";
 import { NavigationItem } from "@/components/navigation/NavigationItem";
@@ -14,6 +14,11 @@ const NAVIGATION_LINKS = [
     label: "Transakcje",
     icon: Waves,
   },
+  {
+    href: "/reports",
+    label: "Raporty",
+    icon: ChartLine,
+  },
   {
     href: "/settings",
     label: "Ustawienia",
@@ -27,15 +32,15 @@ export interface TabBarProps {
 
 export const TabBar = ({ onNavigate }: TabBarProps) => {
   return (
-    <footer className="fixed inset-x-0 bottom-0 z-40 border-t border-sidebar-border bg-sidebar/90 px-6 pb-4 pt-6 shadow-lg shadow-black/10 backdrop-blur supports-[backdrop-filter]:bg-sidebar/70 lg:hidden">
+    <footer className="fixed inset-x-0 bottom-0 z-40 border-t border-sidebar-border bg-sidebar/90 px-6 pb-4 pt-6 shadow-lg shadow-black/10 backdrop-blur supports-[backdrop-filter]:bg-sidebar/70 print:hidden lg:hidden">
       <nav aria-label="Dolna nawigacja" className="mx-auto flex max-w-md items-end justify-between">
-        {NAVIGATION_LINKS.slice(0, 1).map((link) => (
+        {NAVIGATION_LINKS.slice(0, 2).map((link) => (
           <NavigationItem key={link.href} {...link} orientation="horizontal" onNavigate={onNavigate} />
         ))}
 
         <AddExpenseButton variant="tabbar" />
 
-        {NAVIGATION_LINKS.slice(1).map((link) => (
+        {NAVIGATION_LINKS.slice(2).map((link) => (
           <NavigationItem key={link.href} {...link} orientation="horizontal" onNavigate={onNavigate} />
         ))}
       </nav>
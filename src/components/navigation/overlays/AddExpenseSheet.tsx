@@ -17,10 +17,13 @@ export const AddExpenseSheet = () => {
     categories,
     isLoadingCategories,
     categoriesError,
+    members,
+    categorizationRules,
     budgetId,
     isLoadingBudget,
     isSubmitting,
     submitError,
+    duplicateCommand,
     submitExpense,
     clearSubmitError,
     refetchCategories,
@@ -51,6 +54,15 @@ export const AddExpenseSheet = () => {
     [submitExpense, closeAddExpenseSheet]
   );
 
+  /**
+   * Save the expense rejected as a suspected duplicate after the user confirms it
+   */
+  const handleConfirmDuplicate = useCallback(async () => {
+    if (duplicateCommand) {
+      await handleSubmit({ ...duplicateCommand, allowDuplicate: true });
+    }
+  }, [duplicateCommand, handleSubmit]);
+
   /**
    * Handle cancel action
    */
@@ -144,12 +156,16 @@ export const AddExpenseSheet = () => {
         </DialogHeader>
         <AddExpenseForm
           categories={categories}
+          members={members}
+          categorizationRules={categorizationRules}
           isLoadingCategories={isLoadingCategories}
           onSubmit={handleSubmit}
           onCancel={handleCancel}
           isSubmitting={isSubmitting}
           submitError={submitError}
           onClearError={clearSubmitError}
+          isDuplicateSuspected={duplicateCommand !== null}
+          onConfirmDuplicate={handleConfirmDuplicate}
         />
       </DialogContent>
     </Dialog>
@@ -0,0 +1,216 @@
+import { useMemo } from "react";
+import { AlertCircle, ChevronLeft, ChevronRight, Printer } from "lucide-react";
+
+import { CATEGORY_COLOR_PRESETS, CATEGORY_GROUP_LABELS } from "@/components/settings/CategoryAppearance";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatCurrency, formatMonth } from "@/lib/formatters";
+import { cn } from "@/lib/utils";
+import type { AnnualReportDto, TrendsMonthDto } from "@/types";
+
+import { TrendLineChart, type ChartSeries } from "./TrendCharts";
+import { useAnnualReport } from "./useAnnualReport";
+
+interface AnnualReportViewProps {
+  readonly year: number;
+}
+
+const PERCENT_FORMATTER = new Intl.NumberFormat("pl-PL", { maximumFractionDigits: 2 });
+
+const getMonthsSeries = (report: AnnualReportDto): ChartSeries[] => [
+  { key: "income", label: "Przychody", color: "#22c55e", values: report.months.map((month) => month.totalIncome) },
+  { key: "spent", label: "Wydatki", color: "#ef4444", values: report.months.map((month) => month.totalSpent) },
+];
+
+const SummaryTile = ({ label, value, hint }: { label: string; value: string; hint?: string }) => (
+  <div className="rounded-lg border p-4 print:break-inside-avoid">
+    <p className="text-sm text-muted-foreground">{label}</p>
+    <p className="text-xl font-semibold">{value}</p>
+    {hint ? <p className="text-xs text-muted-foreground">{hint}</p> : null}
+  </div>
+);
+
+/**
+ * Opis miesiąca: nazwa i saldo (przychody minus wydatki).
+ */
+const getMonthHint = (month: TrendsMonthDto | null): string =>
+  month ? `${formatMonth(month.month)}: ${formatCurrency(month.totalIncome - month.totalSpent)}` : "Brak budżetów";
+
+/**
+ * Roczne podsumowanie budżetów przygotowane do wydruku: sumy, przychody domowników, wydatki według kategorii,
+ * najlepszy i najgorszy miesiąc oraz stopa oszczędności.
+ */
+export const AnnualReportView = ({ year }: AnnualReportViewProps) => {
+  const { report, isLoading, error } = useAnnualReport(year);
+
+  const months = useMemo(() => report?.months.map((month) => month.month) ?? [], [report]);
+  const monthsSeries = useMemo(() => (report ? getMonthsSeries(report) : []), [report]);
+
+  const handlePrint = () => {
+    window.print();
+  };
+
+  return (
+    <div className="mx-auto max-w-5xl space-y-6 p-4 print:max-w-none print:p-0">
+      <header className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-semibold">Podsumowanie roku {year}</h1>
+          <p className="text-sm text-muted-foreground">Rok w pigułce: przychody, wydatki i oszczędności.</p>
+        </div>
+        <div className="flex flex-wrap gap-2 print:hidden">
+          <Button variant="outline" size="icon" asChild>
+            <a href={`/reports/annual/${year - 1}`} aria-label="Poprzedni rok">
+              <ChevronLeft className="size-4" aria-hidden />
+            </a>
+          </Button>
+          <Button variant="outline" size="icon" asChild>
+            <a href={`/reports/annual/${year + 1}`} aria-label="Następny rok">
+              <ChevronRight className="size-4" aria-hidden />
+            </a>
+          </Button>
+          <Button onClick={handlePrint} disabled={!report}>
+            <Printer className="size-4" aria-hidden />
+            Drukuj
+          </Button>
+        </div>
+      </header>
+
+      {error ? (
+        <div className="flex items-center gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-4 text-sm text-destructive">
+          <AlertCircle className="size-4" aria-hidden />
+          <span>{error}</span>
+        </div>
+      ) : null}
+
+      {isLoading && !report ? (
+        <div className="space-y-3">
+          <Skeleton className="h-32 w-full" />
+          <Skeleton className="h-72 w-full" />
+        </div>
+      ) : null}
+
+      {report && report.budgetCount === 0 ? (
+        <p className="rounded-md border border-dashed p-8 text-center text-sm text-muted-foreground">
+          Brak budżetów w roku {year}.
+        </p>
+      ) : null}
+
+      {report && report.budgetCount > 0 ? (
+        <div className={cn("space-y-6", isLoading && "opacity-60")}>
+          <section className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4 print:grid-cols-4">
+            <SummaryTile label="Przychody" value={formatCurrency(report.totalIncome)} />
+            <SummaryTile
+              label="Wydatki"
+              value={formatCurrency(report.totalSpent)}
+              hint={`Zaplanowano ${formatCurrency(report.totalPlanned)}`}
+            />
+            <SummaryTile
+              label="Średnie wydatki miesięczne"
+              value={formatCurrency(report.averageMonthlySpent)}
+              hint={`Liczba budżetów: ${report.budgetCount}`}
+            />
+            <SummaryTile
+              label="Zaoszczędzono"
+              value={formatCurrency(report.savedAmount)}
+              hint={
+                report.savingsRate !== null
+                  ? `${PERCENT_FORMATTER.format(report.savingsRate)}% przychodów`
+                  : "Brak przychodów"
+              }
+            />
+            <SummaryTile label="Najlepszy miesiąc" value={getMonthHint(report.bestMonth)} />
+            <SummaryTile label="Najgorszy miesiąc" value={getMonthHint(report.worstMonth)} />
+          </section>
+
+          <Card className="print:break-inside-avoid">
+            <CardHeader>
+              <CardTitle>Przychody i wydatki</CardTitle>
+              <CardDescription>Sumy budżetów w kolejnych miesiącach roku.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TrendLineChart
+                months={months}
+                series={monthsSeries}
+                label={`Wykres przychodów i wydatków w roku ${year}`}
+              />
+            </CardContent>
+          </Card>
+
+          <Card className="print:break-inside-avoid">
+            <CardHeader>
+              <CardTitle>Przychody domowników</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {report.incomeByMember.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Brak przychodów w tym roku.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="text-left text-muted-foreground">
+                    <tr>
+                      <th className="py-2 font-medium">Domownik</th>
+                      <th className="py-2 text-right font-medium">Razem</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.incomeByMember.map((member) => (
+                      <tr key={member.householdMemberId} className="border-t border-border">
+                        <td className="py-2">{member.fullName}</td>
+                        <td className="py-2 text-right font-medium">{formatCurrency(member.totalIncome)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="print:break-inside-avoid">
+            <CardHeader>
+              <CardTitle>Wydatki według kategorii</CardTitle>
+              <CardDescription>Podkategorie są wliczone w kategorie nadrzędne.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {report.spentByCategory.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Brak wydatków w tym roku.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="text-left text-muted-foreground">
+                    <tr>
+                      <th className="py-2 font-medium">Kategoria</th>
+                      <th className="py-2 font-medium">Grupa</th>
+                      <th className="py-2 text-right font-medium">Średnio miesięcznie</th>
+                      <th className="py-2 text-right font-medium">Razem</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.spentByCategory.map((category, index) => (
+                      <tr key={category.categoryId} className="border-t border-border">
+                        <td className="py-2">
+                          <span className="flex items-center gap-2">
+                            <span
+                              className="size-2.5 rounded-full"
+                              style={{
+                                backgroundColor:
+                                  category.color ?? CATEGORY_COLOR_PRESETS[index % CATEGORY_COLOR_PRESETS.length],
+                              }}
+                              aria-hidden="true"
+                            />
+                            {category.name ?? "Nieznana kategoria"}
+                          </span>
+                        </td>
+                        <td className="py-2 text-muted-foreground">{CATEGORY_GROUP_LABELS[category.group]}</td>
+                        <td className="py-2 text-right">{formatCurrency(category.averageMonthlySpent)}</td>
+                        <td className="py-2 text-right font-medium">{formatCurrency(category.totalSpent)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      ) : null}
+    </div>
+  );
+};
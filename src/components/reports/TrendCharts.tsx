@@ -0,0 +1,182 @@
+import { formatCurrency } from "@/lib/formatters";
+
+/**
+ * Seria danych wykresu: jedna wartość na każdy miesiąc raportu.
+ */
+export interface ChartSeries {
+  readonly key: string;
+  readonly label: string;
+  readonly color: string;
+  readonly values: readonly number[];
+}
+
+interface TrendChartProps {
+  /** Miesiące raportu (YYYY-MM-01), wyznaczają oś X */
+  readonly months: readonly string[];
+  readonly series: readonly ChartSeries[];
+  /** Opis wykresu dla czytników ekranu */
+  readonly label: string;
+}
+
+const WIDTH = 640;
+const HEIGHT = 260;
+const PADDING = { top: 16, right: 16, bottom: 32, left: 72 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+const TICK_COUNT = 4;
+const MAX_MONTH_LABELS = 12;
+
+const SHORT_MONTH_FORMATTER = new Intl.DateTimeFormat("pl-PL", { month: "short", year: "2-digit" });
+const AXIS_FORMATTER = new Intl.NumberFormat("pl-PL", { notation: "compact", maximumFractionDigits: 1 });
+
+const formatShortMonth = (month: string): string => SHORT_MONTH_FORMATTER.format(new Date(month));
+
+/**
+ * Wyznacza zakres osi Y obejmujący zero i wszystkie wartości.
+ */
+const getValueRange = (values: readonly number[]): { min: number; max: number } => {
+  const min = Math.min(0, ...values);
+  const max = Math.max(0, ...values);
+
+  return { min, max: max === min ? min + 1 : max };
+};
+
+const ChartAxes = ({ months, range }: { months: readonly string[]; range: { min: number; max: number } }) => {
+  const toY = (value: number) =>
+    PADDING.top + PLOT_HEIGHT - ((value - range.min) / (range.max - range.min)) * PLOT_HEIGHT;
+  const bandWidth = PLOT_WIDTH / Math.max(months.length, 1);
+  const labelStep = Math.ceil(months.length / MAX_MONTH_LABELS);
+
+  return (
+    <g className="text-muted-foreground">
+      {Array.from({ length: TICK_COUNT + 1 }, (_, index) => {
+        const value = range.min + ((range.max - range.min) * index) / TICK_COUNT;
+        const y = toY(value);
+
+        return (
+          <g key={index}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y}
+              y2={y}
+              stroke="currentColor"
+              strokeOpacity={0.15}
+            />
+            <text x={PADDING.left - 8} y={y} dy="0.32em" textAnchor="end" fontSize={11} fill="currentColor">
+              {AXIS_FORMATTER.format(value)}
+            </text>
+          </g>
+        );
+      })}
+      {months.map((month, index) =>
+        index % labelStep === 0 ? (
+          <text
+            key={month}
+            x={PADDING.left + bandWidth * (index + 0.5)}
+            y={HEIGHT - 10}
+            textAnchor="middle"
+            fontSize={11}
+            fill="currentColor"
+          >
+            {formatShortMonth(month)}
+          </text>
+        ) : null
+      )}
+    </g>
+  );
+};
+
+const ChartLegend = ({ series }: { series: readonly ChartSeries[] }) => (
+  <ul className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+    {series.map((item) => (
+      <li key={item.key} className="flex items-center gap-1.5">
+        <span className="size-2.5 rounded-full" style={{ backgroundColor: item.color }} aria-hidden="true" />
+        {item.label}
+      </li>
+    ))}
+  </ul>
+);
+
+/**
+ * Wykres liniowy: każda seria jest linią przechodzącą przez środki kolejnych miesięcy.
+ */
+export const TrendLineChart = ({ months, series, label }: TrendChartProps) => {
+  const range = getValueRange(series.flatMap((item) => item.values));
+  const bandWidth = PLOT_WIDTH / Math.max(months.length, 1);
+  const toX = (index: number) => PADDING.left + bandWidth * (index + 0.5);
+  const toY = (value: number) =>
+    PADDING.top + PLOT_HEIGHT - ((value - range.min) / (range.max - range.min)) * PLOT_HEIGHT;
+
+  return (
+    <div className="space-y-3">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="h-auto w-full" role="img" aria-label={label}>
+        <ChartAxes months={months} range={range} />
+        {series.map((item) => (
+          <g key={item.key}>
+            <polyline
+              points={item.values.map((value, index) => `${toX(index)},${toY(value)}`).join(" ")}
+              fill="none"
+              stroke={item.color}
+              strokeWidth={2}
+              strokeLinejoin="round"
+            />
+            {item.values.map((value, index) => (
+              <circle key={months[index]} cx={toX(index)} cy={toY(value)} r={3} fill={item.color}>
+                <title>{`${item.label}, ${formatShortMonth(months[index])}: ${formatCurrency(value)}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+      <ChartLegend series={series} />
+    </div>
+  );
+};
+
+/**
+ * Skumulowany wykres słupkowy: serie są układane jedna na drugiej w słupku każdego miesiąca.
+ * Ujemne wartości (przewaga zwrotów) są pomijane.
+ */
+export const TrendBarChart = ({ months, series, label }: TrendChartProps) => {
+  const totals = months.map((_, index) => series.reduce((sum, item) => sum + Math.max(0, item.values[index] ?? 0), 0));
+  const range = getValueRange(totals);
+  const bandWidth = PLOT_WIDTH / Math.max(months.length, 1);
+  const barWidth = bandWidth * 0.6;
+  const toHeight = (value: number) => (value / (range.max - range.min)) * PLOT_HEIGHT;
+
+  return (
+    <div className="space-y-3">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="h-auto w-full" role="img" aria-label={label}>
+        <ChartAxes months={months} range={range} />
+        {months.map((month, monthIndex) => {
+          let stackedHeight = 0;
+
+          return (
+            <g key={month}>
+              {series.map((item) => {
+                const value = Math.max(0, item.values[monthIndex] ?? 0);
+                const height = toHeight(value);
+                stackedHeight += height;
+
+                return value > 0 ? (
+                  <rect
+                    key={item.key}
+                    x={PADDING.left + bandWidth * monthIndex + (bandWidth - barWidth) / 2}
+                    y={PADDING.top + PLOT_HEIGHT - stackedHeight}
+                    width={barWidth}
+                    height={height}
+                    fill={item.color}
+                  >
+                    <title>{`${item.label}, ${formatShortMonth(month)}: ${formatCurrency(value)}`}</title>
+                  </rect>
+                ) : null;
+              })}
+            </g>
+          );
+        })}
+      </svg>
+      <ChartLegend series={series} />
+    </div>
+  );
+};
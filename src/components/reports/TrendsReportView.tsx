@@ -0,0 +1,227 @@
+import { useMemo, useState } from "react";
+import { AlertCircle, CalendarRange } from "lucide-react";
+
+import { CATEGORY_COLOR_PRESETS } from "@/components/settings/CategoryAppearance";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatCurrency } from "@/lib/formatters";
+import { addMonthsToMonth } from "@/lib/trends";
+import { cn } from "@/lib/utils";
+import type { TrendsGroupBy, TrendsReportDto } from "@/types";
+
+import { TrendBarChart, TrendLineChart, type ChartSeries } from "./TrendCharts";
+import { useTrendsReport, type TrendsRange } from "./useTrendsReport";
+
+const RANGE_OPTIONS = [
+  { value: "6", label: "Ostatnie 6 miesięcy" },
+  { value: "12", label: "Ostatnie 12 miesięcy" },
+  { value: "24", label: "Ostatnie 24 miesiące" },
+];
+
+const GROUP_BY_OPTIONS: { value: TrendsGroupBy; label: string }[] = [
+  { value: "category", label: "Według kategorii" },
+  { value: "member", label: "Według domowników" },
+];
+
+const DEFAULT_RANGE_MONTHS = "12";
+
+/** Liczba serii pokazywanych osobno na wykresie słupkowym; pozostałe są sumowane */
+const MAX_BAR_SERIES = 6;
+
+const OTHER_SERIES_COLOR = "#94a3b8";
+
+/**
+ * Zakres kończący się bieżącym miesiącem.
+ */
+const getRange = (monthCount: number): TrendsRange => {
+  const currentMonth = new Date().toISOString().slice(0, 7) + "-01";
+
+  return {
+    from: addMonthsToMonth(currentMonth, 1 - monthCount).slice(0, 7),
+    to: currentMonth.slice(0, 7),
+  };
+};
+
+const getTotalsSeries = (report: TrendsReportDto): ChartSeries[] => [
+  { key: "income", label: "Przychody", color: "#22c55e", values: report.months.map((month) => month.totalIncome) },
+  { key: "planned", label: "Zaplanowane", color: "#6366f1", values: report.months.map((month) => month.totalPlanned) },
+  { key: "spent", label: "Wydatki", color: "#ef4444", values: report.months.map((month) => month.totalSpent) },
+  { key: "free", label: "Wolne środki", color: "#64748b", values: report.months.map((month) => month.freeFunds) },
+];
+
+const getSeriesLabel = (report: TrendsReportDto, name: string | null): string =>
+  name ?? (report.groupBy === "member" ? "Bez płacącego" : "Nieznana kategoria");
+
+/**
+ * Serie wykresu słupkowego: największe serie osobno, reszta jako „Pozostałe”.
+ */
+const getSpendingSeries = (report: TrendsReportDto): ChartSeries[] => {
+  const series: ChartSeries[] = report.series.slice(0, MAX_BAR_SERIES).map((item, index) => ({
+    key: item.id ?? "none",
+    label: getSeriesLabel(report, item.name),
+    color: item.color ?? CATEGORY_COLOR_PRESETS[index % CATEGORY_COLOR_PRESETS.length],
+    values: item.monthlySpent,
+  }));
+  const rest = report.series.slice(MAX_BAR_SERIES);
+
+  if (rest.length > 0) {
+    series.push({
+      key: "other",
+      label: "Pozostałe",
+      color: OTHER_SERIES_COLOR,
+      values: report.months.map((_, index) => rest.reduce((sum, item) => sum + item.monthlySpent[index], 0)),
+    });
+  }
+
+  return series;
+};
+
+/**
+ * Widok raportów: zmiany przychodów, planu i wydatków w kolejnych miesiącach oraz wydatki według kategorii lub domowników.
+ */
+export const TrendsReportView = () => {
+  const [rangeMonths, setRangeMonths] = useState(DEFAULT_RANGE_MONTHS);
+  const [groupBy, setGroupBy] = useState<TrendsGroupBy>("category");
+  const { report, isLoading, error, load } = useTrendsReport(getRange(Number(DEFAULT_RANGE_MONTHS)), "category");
+
+  const months = useMemo(() => report?.months.map((month) => month.month) ?? [], [report]);
+  const totalsSeries = useMemo(() => (report ? getTotalsSeries(report) : []), [report]);
+  const spendingSeries = useMemo(() => (report ? getSpendingSeries(report) : []), [report]);
+  const hasBudgets = report?.months.some((month) => month.budgetId !== null) ?? false;
+
+  const handleRangeChange = (value: string) => {
+    setRangeMonths(value);
+    void load(getRange(Number(value)), groupBy);
+  };
+
+  const handleGroupByChange = (value: string) => {
+    const nextGroupBy = value as TrendsGroupBy;
+    setGroupBy(nextGroupBy);
+    void load(getRange(Number(rangeMonths)), nextGroupBy);
+  };
+
+  return (
+    <div className="mx-auto max-w-5xl space-y-6 p-4">
+      <header className="flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-semibold">Raporty</h1>
+          <p className="text-sm text-muted-foreground">Jak zmieniają się Twoje przychody i wydatki w czasie.</p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" asChild>
+            <a href={`/reports/annual/${new Date().getFullYear()}`}>
+              <CalendarRange className="size-4" aria-hidden />
+              Podsumowanie roku
+            </a>
+          </Button>
+          <Select value={rangeMonths} onValueChange={handleRangeChange}>
+            <SelectTrigger className="w-52" aria-label="Zakres raportu">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={groupBy} onValueChange={handleGroupByChange}>
+            <SelectTrigger className="w-48" aria-label="Grupowanie wydatków">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {GROUP_BY_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </header>
+
+      {error ? (
+        <div className="flex items-center gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-4 text-sm text-destructive">
+          <AlertCircle className="size-4" aria-hidden />
+          <span>{error}</span>
+        </div>
+      ) : null}
+
+      {isLoading && !report ? (
+        <div className="space-y-3">
+          <Skeleton className="h-72 w-full" />
+          <Skeleton className="h-72 w-full" />
+        </div>
+      ) : null}
+
+      {report && !hasBudgets ? (
+        <p className="rounded-md border border-dashed p-8 text-center text-sm text-muted-foreground">
+          Brak budżetów w wybranym okresie.
+        </p>
+      ) : null}
+
+      {report && hasBudgets ? (
+        <div className={cn("space-y-6", isLoading && "opacity-60")}>
+          <Card>
+            <CardHeader>
+              <CardTitle>Budżet miesiąc po miesiącu</CardTitle>
+              <CardDescription>Przychody, zaplanowane limity, wydatki i wolne środki.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TrendLineChart
+                months={months}
+                series={totalsSeries}
+                label="Wykres sum budżetów w kolejnych miesiącach"
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{groupBy === "member" ? "Wydatki domowników" : "Wydatki według kategorii"}</CardTitle>
+              <CardDescription>
+                {groupBy === "member"
+                  ? "Kto ile zapłacił w kolejnych miesiącach."
+                  : "Podkategorie są wliczone w kategorie nadrzędne."}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {spendingSeries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Brak wydatków w wybranym okresie.</p>
+              ) : (
+                <>
+                  <TrendBarChart
+                    months={months}
+                    series={spendingSeries}
+                    label="Wykres wydatków w kolejnych miesiącach"
+                  />
+                  <table className="w-full text-sm">
+                    <thead className="text-left text-muted-foreground">
+                      <tr>
+                        <th className="py-2 font-medium">{groupBy === "member" ? "Domownik" : "Kategoria"}</th>
+                        <th className="py-2 text-right font-medium">Średnio miesięcznie</th>
+                        <th className="py-2 text-right font-medium">Razem</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.series.map((item) => (
+                        <tr key={item.id ?? "none"} className="border-t border-border">
+                          <td className="py-2">{getSeriesLabel(report, item.name)}</td>
+                          <td className="py-2 text-right">{formatCurrency(item.totalSpent / months.length)}</td>
+                          <td className="py-2 text-right font-medium">{formatCurrency(item.totalSpent)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      ) : null}
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import type { AnnualReportDto, ApiErrorDto } from "@/types";
+
+interface AnnualReportState {
+  readonly report: AnnualReportDto | null;
+  readonly isLoading: boolean;
+  readonly error: string | null;
+}
+
+export interface UseAnnualReportResult extends AnnualReportState {
+  readonly refetch: () => Promise<void>;
+}
+
+const ANNUAL_REPORT_ENDPOINT = "/api/reports/annual";
+
+const ERROR_MESSAGES: Record<string, string> = {
+  UNAUTHENTICATED: "Sesja wygasła. Zaloguj się ponownie.",
+  HOUSEHOLD_NOT_FOUND: "Nie znaleziono gospodarstwa domowego.",
+  INVALID_YEAR: "Nieprawidłowy rok raportu.",
+  REPORT_FETCH_FAILED: "Nie udało się przygotować raportu rocznego.",
+};
+
+const parseErrorResponse = async (response: Response): Promise<string> => {
+  try {
+    const payload = (await response.json()) as ApiErrorDto;
+    return ERROR_MESSAGES[payload.error.code] ?? payload.error.message;
+  } catch (parseError) {
+    console.warn("Unable to parse API error", parseError);
+    return "Nie udało się przygotować raportu rocznego.";
+  }
+};
+
+/**
+ * Hook pobierający roczne podsumowanie budżetów gospodarstwa.
+ */
+export const useAnnualReport = (year: number): UseAnnualReportResult => {
+  const [state, setState] = useState<AnnualReportState>({
+    report: null,
+    isLoading: true,
+    error: null,
+  });
+
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const refetch = useCallback(async () => {
+    abortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    setState((previous) => ({ ...previous, isLoading: true, error: null }));
+
+    try {
+      const response = await fetch(`${ANNUAL_REPORT_ENDPOINT}/${year}`, {
+        method: "GET",
+        signal: abortController.signal,
+        headers: { Accept: "application/json" },
+      });
+
+      if (!response.ok) {
+        const message = await parseErrorResponse(response);
+        setState((previous) => ({ ...previous, isLoading: false, error: message }));
+        return;
+      }
+
+      const report = (await response.json()) as AnnualReportDto;
+      setState({ report, isLoading: false, error: null });
+    } catch (cause) {
+      if (cause instanceof DOMException && cause.name === "AbortError") {
+        return;
+      }
+
+      console.error("Failed to fetch annual report", cause);
+      setState((previous) => ({
+        ...previous,
+        isLoading: false,
+        error: "Nie udało się przygotować raportu rocznego.",
+      }));
+    }
+  }, [year]);
+
+  useEffect(() => {
+    void refetch();
+
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, [refetch]);
+
+  return { ...state, refetch };
+};
@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import type { ApiErrorDto, TrendsGroupBy, TrendsReportDto } from "@/types";
+
+/**
+ * Zakres raportu: pierwszy i ostatni miesiąc w formacie YYYY-MM.
+ */
+export interface TrendsRange {
+  readonly from: string;
+  readonly to: string;
+}
+
+interface TrendsReportState {
+  readonly report: TrendsReportDto | null;
+  readonly isLoading: boolean;
+  readonly error: string | null;
+}
+
+export interface UseTrendsReportResult extends TrendsReportState {
+  readonly load: (range: TrendsRange, groupBy: TrendsGroupBy) => Promise<void>;
+}
+
+const TRENDS_ENDPOINT = "/api/reports/trends";
+
+const ERROR_MESSAGES: Record<string, string> = {
+  UNAUTHENTICATED: "Sesja wygasła. Zaloguj się ponownie.",
+  HOUSEHOLD_NOT_FOUND: "Nie znaleziono gospodarstwa domowego.",
+  INVALID_QUERY_PARAMS: "Nieprawidłowy zakres raportu.",
+  REPORT_FETCH_FAILED: "Nie udało się przygotować raportu.",
+};
+
+const parseErrorResponse = async (response: Response): Promise<string> => {
+  try {
+    const payload = (await response.json()) as ApiErrorDto;
+    return ERROR_MESSAGES[payload.error.code] ?? payload.error.message;
+  } catch (parseError) {
+    console.warn("Unable to parse API error", parseError);
+    return "Nie udało się przygotować raportu.";
+  }
+};
+
+/**
+ * Hook pobierający raport trendów: miesięczne sumy budżetów oraz wydatki według kategorii lub domowników.
+ */
+export const useTrendsReport = (initialRange: TrendsRange, initialGroupBy: TrendsGroupBy): UseTrendsReportResult => {
+  const [state, setState] = useState<TrendsReportState>({
+    report: null,
+    isLoading: true,
+    error: null,
+  });
+
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const initialQueryRef = useRef({ range: initialRange, groupBy: initialGroupBy });
+
+  const load = useCallback(async (range: TrendsRange, groupBy: TrendsGroupBy) => {
+    abortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    setState((previous) => ({ ...previous, isLoading: true, error: null }));
+
+    const params = new URLSearchParams({ from: range.from, to: range.to, groupBy });
+
+    try {
+      const response = await fetch(`${TRENDS_ENDPOINT}?${params.toString()}`, {
+        method: "GET",
+        signal: abortController.signal,
+        headers: { Accept: "application/json" },
+      });
+
+      if (!response.ok) {
+        const message = await parseErrorResponse(response);
+        setState((previous) => ({ ...previous, isLoading: false, error: message }));
+        return;
+      }
+
+      const report = (await response.json()) as TrendsReportDto;
+      setState({ report, isLoading: false, error: null });
+    } catch (cause) {
+      if (cause instanceof DOMException && cause.name === "AbortError") {
+        return;
+      }
+
+      console.error("Failed to fetch trends report", cause);
+      setState((previous) => ({
+        ...previous,
+        isLoading: false,
+        error: "Nie udało się przygotować raportu.",
+      }));
+    }
+  }, []);
+
+  useEffect(() => {
+    const { range, groupBy } = initialQueryRef.current;
+    void load(range, groupBy);
+
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, [load]);
+
+  return { ...state, load };
+};
@@ -0,0 +1,151 @@
+import { z } from "zod";
+import { FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import type { AlertSettingsFormValues } from "./types";
+
+const PERCENT_REGEX = /^\d+(?:[.,]\d{1,2})?$/;
+const DAY_REGEX = /^\d{1,2}$/;
+
+const percentField = z
+  .string()
+  .trim()
+  .refine(
+    (value) => value === "" || PERCENT_REGEX.test(value),
+    "Podaj liczbę z maksymalnie dwoma miejscami po przecinku."
+  )
+  .refine((value) => {
+    const parsed = parseAlertSettingInput(value);
+    return parsed === null || (parsed > 0 && parsed <= 1000);
+  }, "Wartość musi być większa od 0 i nie większa niż 1000.");
+
+/**
+ * Zod fields of the alert settings, to be spread into a form schema.
+ */
+export const alertSettingsFormFields = {
+  warningThreshold: percentField,
+  overThreshold: percentField,
+  paceAlertDay: z
+    .string()
+    .trim()
+    .refine((value) => {
+      const parsed = parseAlertSettingInput(value);
+      return value === "" || (DAY_REGEX.test(value) && parsed !== null && parsed >= 1 && parsed <= 31);
+    }, "Podaj dzień miesiąca od 1 do 31."),
+  paceAlertPercent: percentField,
+};
+
+/**
+ * Cross-field checks of the alert settings: thresholds in order and a complete pace alert.
+ */
+export const refineAlertSettings = (values: AlertSettingsFormValues, context: z.RefinementCtx) => {
+  const warningThreshold = parseAlertSettingInput(values.warningThreshold);
+  const overThreshold = parseAlertSettingInput(values.overThreshold);
+
+  if (warningThreshold !== null && overThreshold !== null && warningThreshold > overThreshold) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Próg ostrzeżenia nie może być wyższy niż próg przekroczenia.",
+      path: ["warningThreshold"],
+    });
+  }
+
+  if ((values.paceAlertDay.trim() === "") !== (values.paceAlertPercent.trim() === "")) {
+    context.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Podaj zarówno dzień, jak i procent limitu.",
+      path: [values.paceAlertDay.trim() === "" ? "paceAlertDay" : "paceAlertPercent"],
+    });
+  }
+};
+
+/**
+ * Parses an alert setting input, accepting a comma as the decimal separator.
+ *
+ * @returns The number, or null for an empty input
+ */
+export function parseAlertSettingInput(value: string): number | null {
+  const trimmed = value.trim();
+  return trimmed === "" ? null : Number(trimmed.replace(",", "."));
+}
+
+/**
+ * Formats a stored alert setting for an input; null becomes an empty string.
+ */
+export function toAlertSettingInput(value: number | null | undefined): string {
+  return value === null || value === undefined ? "" : String(value);
+}
+
+export interface AlertSettingsFieldsProps {
+  readonly disabled?: boolean;
+  /** Placeholder of empty inputs, e.g. the household default a category falls back to */
+  readonly placeholders?: Partial<Record<keyof AlertSettingsFormValues, string>>;
+  readonly description?: string;
+}
+
+/**
+ * Inputs for the warning and overspending thresholds and the pace alert.
+ * Must be rendered inside a form whose values extend AlertSettingsFormValues.
+ */
+export const AlertSettingsFields = ({ disabled = false, placeholders = {}, description }: AlertSettingsFieldsProps) => (
+  <fieldset className="space-y-4" disabled={disabled}>
+    <legend className="text-sm font-medium">Alerty</legend>
+    {description ? <p className="text-sm text-muted-foreground">{description}</p> : null}
+
+    <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+      <FormField
+        name="warningThreshold"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Ostrzeżenie od (%)</FormLabel>
+            <FormControl>
+              <Input {...field} inputMode="decimal" placeholder={placeholders.warningThreshold} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        name="overThreshold"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Przekroczenie od (%)</FormLabel>
+            <FormControl>
+              <Input {...field} inputMode="decimal" placeholder={placeholders.overThreshold} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        name="paceAlertPercent"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Tempo: więcej niż (%)</FormLabel>
+            <FormControl>
+              <Input {...field} inputMode="decimal" placeholder={placeholders.paceAlertPercent} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        name="paceAlertDay"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>do dnia miesiąca</FormLabel>
+            <FormControl>
+              <Input {...field} inputMode="numeric" placeholder={placeholders.paceAlertDay} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+    <p className="text-xs text-muted-foreground">
+      Alert tempa ostrzega np. gdy do 10. dnia miesiąca wydasz więcej niż 50% limitu.
+    </p>
+  </fieldset>
+);
@@ -1,7 +1,9 @@
-import { useCallback } from "react";
+import { Fragment, useCallback, useMemo, useState } from "react";
 import { CategoryListItem } from "./CategoryListItem";
 import { InfiniteScrollTrigger } from "@/components/ui/infinite-scroll-trigger";
 import { PaginationControl } from "@/components/ui/pagination-control";
+import { moveCategory } from "@/lib/category-appearance";
+import { buildCategoryTree } from "@/lib/category-tree";
 import type { CategoryVM } from "./types";
 import type { PaginationMetaDto } from "@/types";
 
@@ -11,12 +13,17 @@ export interface CategoriesListProps {
   readonly isLoadingMore: boolean;
   readonly onEdit: (category: CategoryVM) => void;
   readonly onDelete: (category: CategoryVM) => void;
+  readonly onToggleArchived: (category: CategoryVM) => void;
+  /** Called with all category IDs in their new order after a category is dragged to another position */
+  readonly onReorder: (categoryIds: readonly string[]) => void;
   readonly onLoadMore: () => void;
   readonly onPageChange: (page: number) => void;
 }
 
 /**
  * List of categories with pagination support.
+ * Subcategories are grouped under their parents and can be collapsed.
+ * Categories can be dragged to another position among their siblings.
  * Uses infinite scroll on mobile and pagination controls on desktop.
  */
 export const CategoriesList = ({
@@ -25,10 +32,70 @@ export const CategoriesList = ({
   isLoadingMore,
   onEdit,
   onDelete,
+  onToggleArchived,
+  onReorder,
   onLoadMore,
   onPageChange,
 }: CategoriesListProps) => {
   const hasMorePages = meta ? meta.page < meta.totalPages : false;
+  const tree = useMemo(() => buildCategoryTree(categories), [categories]);
+  const [collapsedIds, setCollapsedIds] = useState<ReadonlySet<string>>(new Set());
+
+  const handleToggleExpanded = useCallback((category: CategoryVM) => {
+    setCollapsedIds((previous) => {
+      const next = new Set(previous);
+      if (!next.delete(category.id)) {
+        next.add(category.id);
+      }
+      return next;
+    });
+  }, []);
+
+  const [draggedCategory, setDraggedCategory] = useState<CategoryVM | null>(null);
+
+  // Top-level categories are reordered among themselves, subcategories within their parent
+  const getSiblingIds = useCallback(
+    (category: CategoryVM) => {
+      const parentNode = tree.find((node) => node.children.some((child) => child.id === category.id));
+      return parentNode ? parentNode.children.map((child) => child.id) : tree.map((node) => node.category.id);
+    },
+    [tree]
+  );
+
+  const handleDragOver = useCallback(
+    (category: CategoryVM) =>
+      draggedCategory !== null &&
+      draggedCategory.id !== category.id &&
+      getSiblingIds(draggedCategory).includes(category.id),
+    [draggedCategory, getSiblingIds]
+  );
+
+  const handleDrop = useCallback(
+    (target: CategoryVM) => {
+      if (!draggedCategory || !handleDragOver(target)) {
+        setDraggedCategory(null);
+        return;
+      }
+
+      const reorderedSiblings = moveCategory(getSiblingIds(draggedCategory), draggedCategory.id, target.id);
+      const parentNode = tree.find((node) => node.children.some((child) => child.id === draggedCategory.id));
+      const orderedIds = parentNode
+        ? tree.flatMap((node) => [
+            node.category.id,
+            ...(node === parentNode ? reorderedSiblings : node.children.map((child) => child.id)),
+          ])
+        : reorderedSiblings.flatMap((categoryId) => {
+            const node = tree.find((candidate) => candidate.category.id === categoryId);
+            return [categoryId, ...(node?.children.map((child) => child.id) ?? [])];
+          });
+
+      setDraggedCategory(null);
+      onReorder(orderedIds);
+    },
+    [draggedCategory, getSiblingIds, handleDragOver, onReorder, tree]
+  );
+
+  const handleDragEnd = useCallback(() => setDraggedCategory(null), []);
 
   const handleLoadMore = useCallback(() => {
     if (!isLoadingMore && hasMorePages) {
@@ -39,9 +106,45 @@ export const CategoriesList = ({
   return (
     <div className="space-y-4">
       <ul className="space-y-3">
-        {categories.map((category) => (
-          <CategoryListItem key={category.id} category={category} onEdit={onEdit} onDelete={onDelete} />
-        ))}
+        {tree.map(({ category, children }) => {
+          const isExpanded = !collapsedIds.has(category.id);
+
+          return (
+            <Fragment key={category.id}>
+              <CategoryListItem
+                category={category}
+                onEdit={onEdit}
+                onDelete={onDelete}
+                onToggleArchived={onToggleArchived}
+                subcategoryCount={children.length}
+                isExpanded={isExpanded}
+                onToggleExpanded={handleToggleExpanded}
+                onDragStart={setDraggedCategory}
+                onDragOver={handleDragOver}
+                onDrop={handleDrop}
+                onDragEnd={handleDragEnd}
+                isDragging={draggedCategory?.id === category.id}
+              />
+              {isExpanded
+                ? children.map((child) => (
+                    <CategoryListItem
+                      key={child.id}
+                      category={child}
+                      onEdit={onEdit}
+                      onDelete={onDelete}
+                      onToggleArchived={onToggleArchived}
+                      isSubcategory
+                      onDragStart={setDraggedCategory}
+                      onDragOver={handleDragOver}
+                      onDrop={handleDrop}
+                      onDragEnd={handleDragEnd}
+                      isDragging={draggedCategory?.id === child.id}
+                    />
+                  ))
+                : null}
+            </Fragment>
+          );
+        })}
       </ul>
 
       {/* Infinite scroll for mobile */}
@@ -0,0 +1,268 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2 } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { DialogFooter } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { CategoryDto } from "@/types";
+import type {
+  CategorizationRuleFormValues,
+  CategorizationRuleVM,
+  CreateCategorizationRuleCommand,
+  UpdateCategorizationRuleCommand,
+} from "./types";
+
+export interface CategorizationRuleFormProps {
+  readonly rule?: CategorizationRuleVM;
+  /** Prefilled values of a new rule, e.g. when the rule is learned from a transaction */
+  readonly initialValues?: Partial<Pick<CreateCategorizationRuleCommand, "pattern" | "categoryId">>;
+  readonly categories: readonly CategoryDto[];
+  readonly onSubmit: (data: CreateCategorizationRuleCommand | UpdateCategorizationRuleCommand) => Promise<void>;
+  readonly onCancel: () => void;
+  readonly formError?: string | null;
+  readonly onClearError?: () => void;
+}
+
+const AMOUNT_REGEX = /^\d+(?:\.\d{1,2})?$/;
+
+const optionalAmountSchema = z
+  .string()
+  .refine(
+    (value) => value === "" || (AMOUNT_REGEX.test(value) && Number(value) > 0),
+    "Podaj kwotę większą od zera z maksymalnie dwoma miejscami po przecinku."
+  );
+
+const formSchema = z
+  .object({
+    pattern: z
+      .string()
+      .trim()
+      .min(1, "Wzorzec jest wymagany.")
+      .max(100, "Wzorzec nie może przekraczać 100 znaków.")
+      .refine((value) => /[\p{L}\p{N}]/u.test(value), "Wzorzec musi zawierać literę lub cyfrę."),
+    categoryId: z.string().uuid({ message: "Wybierz poprawną kategorię." }),
+    priority: z
+      .string()
+      .refine(
+        (value) => /^\d+$/.test(value) && Number(value) <= 1000,
+        "Priorytet musi być liczbą całkowitą od 0 do 1000."
+      ),
+    minAmount: optionalAmountSchema,
+    maxAmount: optionalAmountSchema,
+  })
+  .refine(
+    (values) =>
+      values.minAmount === "" || values.maxAmount === "" || Number(values.minAmount) <= Number(values.maxAmount),
+    { message: "Kwota maksymalna nie może być mniejsza niż minimalna.", path: ["maxAmount"] }
+  );
+
+const toOptionalAmount = (value: string): number | null => (value === "" ? null : Number(Number(value).toFixed(2)));
+
+/**
+ * Form for creating and editing categorization rules.
+ * Uses react-hook-form with zod validation.
+ */
+export const CategorizationRuleForm = ({
+  rule,
+  initialValues,
+  categories,
+  onSubmit,
+  onCancel,
+  formError,
+  onClearError,
+}: CategorizationRuleFormProps) => {
+  const isEditMode = !!rule;
+  const currentCategoryId = rule?.categoryId ?? initialValues?.categoryId;
+
+  // Archived categories cannot be chosen, but the one already assigned stays visible
+  const categoryOptions = useMemo(
+    () => categories.filter((category) => !category.isArchived || category.id === currentCategoryId),
+    [categories, currentCategoryId]
+  );
+
+  const form = useForm<CategorizationRuleFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      pattern: rule?.pattern ?? initialValues?.pattern ?? "",
+      categoryId: rule?.categoryId ?? initialValues?.categoryId ?? "",
+      priority: rule?.priority.toString() ?? "0",
+      minAmount: rule?.minAmount?.toFixed(2) ?? "",
+      maxAmount: rule?.maxAmount?.toFixed(2) ?? "",
+    },
+  });
+
+  const isSubmitting = form.formState.isSubmitting;
+  const [localError, setLocalError] = useState<string | null>(null);
+
+  // Clear errors when form values change
+  useEffect(() => {
+    const subscription = form.watch(() => {
+      setLocalError(null);
+      onClearError?.();
+    });
+    return () => subscription.unsubscribe();
+  }, [form, onClearError]);
+
+  const onFormSubmit = useCallback(
+    async (values: CategorizationRuleFormValues) => {
+      setLocalError(null);
+      onClearError?.();
+
+      const pattern = values.pattern.trim();
+      const priority = Number(values.priority);
+      const minAmount = toOptionalAmount(values.minAmount);
+      const maxAmount = toOptionalAmount(values.maxAmount);
+
+      try {
+        if (isEditMode) {
+          const changes: Record<string, unknown> = {};
+
+          if (pattern !== rule.pattern) changes.pattern = pattern;
+          if (values.categoryId !== rule.categoryId) changes.categoryId = values.categoryId;
+          if (priority !== rule.priority) changes.priority = priority;
+          if (minAmount !== rule.minAmount) changes.minAmount = minAmount;
+          if (maxAmount !== rule.maxAmount) changes.maxAmount = maxAmount;
+
+          if (Object.keys(changes).length === 0) {
+            setLocalError("Wprowadź zmiany przed zapisaniem.");
+            return;
+          }
+
+          await onSubmit(changes as UpdateCategorizationRuleCommand);
+        } else {
+          const payload: CreateCategorizationRuleCommand = {
+            pattern,
+            categoryId: values.categoryId,
+            priority,
+            minAmount,
+            maxAmount,
+          };
+          await onSubmit(payload);
+        }
+
+        form.reset(values);
+      } catch (error) {
+        console.error("Failed to submit categorization rule form", error);
+        // Error is handled by parent component
+      }
+    },
+    [form, isEditMode, onClearError, onSubmit, rule]
+  );
+
+  const displayError = formError || localError;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onFormSubmit)} className="space-y-4">
+        <FormField
+          name="pattern"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notatka zawiera</FormLabel>
+              <FormControl>
+                <Input {...field} maxLength={100} placeholder="np. Biedronka" disabled={isSubmitting} />
+              </FormControl>
+              <FormDescription>Wielkość liter i polskie znaki nie mają znaczenia.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          name="categoryId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Kategoria</FormLabel>
+              <Select disabled={isSubmitting} onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger aria-label="Kategoria">
+                    <SelectValue placeholder="Wybierz kategorię" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {categoryOptions.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          {(["minAmount", "maxAmount"] as const).map((name) => (
+            <FormField
+              key={name}
+              name={name}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{name === "minAmount" ? "Kwota od (opcjonalnie)" : "Kwota do (opcjonalnie)"}</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      inputMode="decimal"
+                      type="number"
+                      min="0.01"
+                      step="0.01"
+                      placeholder="0.00"
+                      disabled={isSubmitting}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+
+        <FormField
+          name="priority"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Priorytet</FormLabel>
+              <FormControl>
+                <Input {...field} inputMode="numeric" type="number" min="0" max="1000" disabled={isSubmitting} />
+              </FormControl>
+              <FormDescription>Gdy pasuje kilka reguł, wygrywa ta z najwyższym priorytetem.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {displayError && (
+          <div
+            role="alert"
+            className="rounded-md border border-destructive bg-destructive/10 px-4 py-3 text-sm text-destructive"
+          >
+            {displayError}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+            Anuluj
+          </Button>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
+                Zapisywanie...
+              </>
+            ) : isEditMode ? (
+              "Zapisz zmiany"
+            ) : (
+              "Dodaj regułę"
+            )}
+          </Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+};
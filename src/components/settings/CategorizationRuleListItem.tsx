@@ -0,0 +1,54 @@
+import { Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatCurrency } from "@/lib/formatters";
+import type { CategorizationRuleVM } from "./types";
+
+export interface CategorizationRuleListItemProps {
+  readonly rule: CategorizationRuleVM;
+  readonly onEdit: (rule: CategorizationRuleVM) => void;
+  readonly onDelete: (rule: CategorizationRuleVM) => void;
+}
+
+const describeAmountRange = (rule: CategorizationRuleVM): string | null => {
+  if (rule.minAmount !== null && rule.maxAmount !== null) {
+    return `od ${formatCurrency(rule.minAmount)} do ${formatCurrency(rule.maxAmount)}`;
+  }
+  if (rule.minAmount !== null) {
+    return `od ${formatCurrency(rule.minAmount)}`;
+  }
+  if (rule.maxAmount !== null) {
+    return `do ${formatCurrency(rule.maxAmount)}`;
+  }
+
+  return null;
+};
+
+/**
+ * Single categorization rule list item with pattern, category and actions.
+ */
+export const CategorizationRuleListItem = ({ rule, onEdit, onDelete }: CategorizationRuleListItemProps) => {
+  const amountRange = describeAmountRange(rule);
+
+  return (
+    <li className="flex items-center justify-between gap-4 rounded-lg border border-border bg-card p-4 transition-colors hover:bg-accent/50">
+      <div className="flex-1 space-y-1">
+        <div className="flex flex-wrap items-baseline justify-between gap-2">
+          <span className="font-medium">„{rule.pattern}”</span>
+          <span className="text-sm font-semibold">{rule.categoryName}</span>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Priorytet: {rule.priority}
+          {amountRange ? ` · Kwota ${amountRange}` : null}
+        </p>
+      </div>
+      <div className="flex items-center gap-2">
+        <Button variant="ghost" size="icon" onClick={() => onEdit(rule)} aria-label={`Edytuj regułę ${rule.pattern}`}>
+          <Pencil className="h-4 w-4" aria-hidden="true" />
+        </Button>
+        <Button variant="ghost" size="icon" onClick={() => onDelete(rule)} aria-label={`Usuń regułę ${rule.pattern}`}>
+          <Trash2 className="h-4 w-4 text-destructive" aria-hidden="true" />
+        </Button>
+      </div>
+    </li>
+  );
+};
@@ -0,0 +1,113 @@
+import type { LucideIcon } from "lucide-react";
+import {
+  Baby,
+  Bus,
+  Car,
+  Clapperboard,
+  Dumbbell,
+  Gift,
+  GraduationCap,
+  HeartPulse,
+  House,
+  Landmark,
+  PawPrint,
+  PiggyBank,
+  Plane,
+  Receipt,
+  Shirt,
+  ShoppingCart,
+  Tag,
+  UtensilsCrossed,
+} from "lucide-react";
+import type { CategoryIconKey } from "@/lib/category-appearance";
+import { cn } from "@/lib/utils";
+import type { CategoryGroup } from "@/types";
+
+const CATEGORY_ICONS: Record<CategoryIconKey, LucideIcon> = {
+  home: House,
+  bills: Receipt,
+  loans: Landmark,
+  food: UtensilsCrossed,
+  shopping: ShoppingCart,
+  transport: Bus,
+  car: Car,
+  health: HeartPulse,
+  entertainment: Clapperboard,
+  clothing: Shirt,
+  education: GraduationCap,
+  kids: Baby,
+  pets: PawPrint,
+  travel: Plane,
+  gift: Gift,
+  sport: Dumbbell,
+  savings: PiggyBank,
+  other: Tag,
+};
+
+export const CATEGORY_ICON_LABELS: Record<CategoryIconKey, string> = {
+  home: "Dom",
+  bills: "Rachunki",
+  loans: "Kredyty",
+  food: "Jedzenie",
+  shopping: "Zakupy",
+  transport: "Transport",
+  car: "Samochód",
+  health: "Zdrowie",
+  entertainment: "Rozrywka",
+  clothing: "Ubrania",
+  education: "Edukacja",
+  kids: "Dzieci",
+  pets: "Zwierzęta",
+  travel: "Podróże",
+  gift: "Prezenty",
+  sport: "Sport",
+  savings: "Oszczędności",
+  other: "Inne",
+};
+
+export const CATEGORY_GROUP_LABELS: Record<CategoryGroup, string> = {
+  fixed: "Koszty stałe",
+  variable: "Koszty zmienne",
+  savings: "Oszczędności",
+};
+
+/** Preset colors offered in the category form */
+export const CATEGORY_COLOR_PRESETS = [
+  "#ef4444",
+  "#f97316",
+  "#eab308",
+  "#22c55e",
+  "#14b8a6",
+  "#3b82f6",
+  "#6366f1",
+  "#a855f7",
+  "#ec4899",
+  "#64748b",
+] as const;
+
+export interface CategoryIconProps {
+  /** Icon key of the category; unknown or missing keys show the generic icon */
+  readonly icon: string | null;
+  readonly color: string | null;
+  readonly className?: string;
+}
+
+/**
+ * Category icon in a circle tinted with the category color.
+ */
+export const CategoryIcon = ({ icon, color, className }: CategoryIconProps) => {
+  const Icon = (icon && CATEGORY_ICONS[icon as CategoryIconKey]) || Tag;
+
+  return (
+    <span
+      className={cn(
+        "inline-flex h-7 w-7 shrink-0 items-center justify-center rounded-full bg-muted text-muted-foreground",
+        className
+      )}
+      style={color ? { backgroundColor: `${color}26`, color } : undefined}
+      aria-hidden="true"
+    >
+      <Icon className="h-4 w-4" />
+    </span>
+  );
+};
@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { AlertTriangle } from "lucide-react";
+import { useMemo, useState } from "react";
+import { AlertTriangle, Loader2 } from "lucide-react";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -11,37 +11,70 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { CategoryDependenciesDto } from "@/types";
 import type { CategoryVM } from "./types";
 
 export interface CategoryDeleteConfirmationDialogProps {
   readonly open: boolean;
   readonly onOpenChange: (open: boolean) => void;
   readonly category: CategoryVM | null;
-  readonly onConfirm: () => Promise<void>;
+  /** All categories of the household, offered as targets for reassigning the category's entries */
+  readonly categories?: readonly CategoryVM[];
+  /** Entries depending on the category; null while loading or when they could not be counted */
+  readonly dependencies?: CategoryDependenciesDto | null;
+  readonly isLoadingDependencies?: boolean;
+  /** Called with the target category when the entries are reassigned, or with null to delete them */
+  readonly onConfirm: (targetCategoryId: string | null) => Promise<void>;
   readonly isProcessing?: boolean;
   readonly requiresForce?: boolean;
 }
 
+// Select value for deleting the entries together with the category
+const DELETE_WITH_ENTRIES = "delete";
+
 /**
  * Special confirmation dialog for category deletion.
- * Shows warning about cascading deletion of related transactions and planned expenses.
+ * Shows how many transactions, planned expenses and subcategories depend on the category
+ * and lets the user reassign them to another category instead of deleting them.
  */
 export const CategoryDeleteConfirmationDialog = ({
   open,
   onOpenChange,
   category,
+  categories = [],
+  dependencies = null,
+  isLoadingDependencies = false,
   onConfirm,
   isProcessing = false,
   requiresForce = false,
 }: CategoryDeleteConfirmationDialogProps) => {
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [resolution, setResolution] = useState<string>("");
+
+  const targetOptions = useMemo(() => {
+    const namesById = new Map(categories.map((option) => [option.id, option.name]));
+
+    return categories
+      .filter((option) => option.id !== category?.id && !option.isArchived)
+      .map((option) => {
+        const parentName = option.parentId ? namesById.get(option.parentId) : undefined;
+        return { id: option.id, label: parentName ? `${parentName} › ${option.name}` : option.name };
+      })
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }, [categories, category?.id]);
+
+  const hasEntries = dependencies !== null && dependencies.transactions + dependencies.plannedExpenses > 0;
+  // Without counts (e.g. when they failed to load) the server still asks for force confirmation
+  const requiresChoice = hasEntries || (dependencies === null && requiresForce);
 
   const handleConfirm = async () => {
     if (isSubmitting || isProcessing) return;
 
     setIsSubmitting(true);
     try {
-      await onConfirm();
+      await onConfirm(resolution && resolution !== DELETE_WITH_ENTRIES ? resolution : null);
       onOpenChange(false);
     } catch (error) {
       // Error handling is delegated to parent component
@@ -52,6 +85,7 @@ export const CategoryDeleteConfirmationDialog = ({
   };
 
   const isLoading = isSubmitting || isProcessing;
+  const isReassigning = resolution !== "" && resolution !== DELETE_WITH_ENTRIES;
 
   if (!category) return null;
 
@@ -67,18 +101,60 @@ export const CategoryDeleteConfirmationDialog = ({
           </div>
           <AlertDialogDescription className="space-y-3 pt-2">
             <p>Czy na pewno chcesz usunąć kategorię &quot;{category.name}&quot;?</p>
-            {requiresForce && (
+            {isLoadingDependencies && (
+              <span className="flex items-center gap-2 text-sm">
+                <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+                Sprawdzanie powiązanych danych...
+              </span>
+            )}
+            {dependencies && (
+              <span className="block text-sm">
+                Powiązane dane: transakcje – {dependencies.transactions}, planowane wydatki –{" "}
+                {dependencies.plannedExpenses}, podkategorie – {dependencies.subcategories}.
+              </span>
+            )}
+            {!requiresChoice && !isLoadingDependencies && (
+              <span className="block text-sm">Ta operacja jest nieodwracalna.</span>
+            )}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {requiresChoice && (
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="category-delete-resolution">Co zrobić z powiązanymi danymi?</Label>
+              <Select value={resolution} onValueChange={setResolution} disabled={isLoading}>
+                <SelectTrigger id="category-delete-resolution">
+                  <SelectValue placeholder="Wybierz kategorię docelową" />
+                </SelectTrigger>
+                <SelectContent>
+                  {targetOptions.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      Przenieś do: {option.label}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={DELETE_WITH_ENTRIES}>Usuń razem z danymi</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {isReassigning && (
+              <p className="text-sm text-muted-foreground">
+                Transakcje i planowane wydatki trafią do wybranej kategorii. Jeśli obie kategorie są zaplanowane w tym
+                samym budżecie, ich limity zostaną zsumowane.
+              </p>
+            )}
+            {resolution === DELETE_WITH_ENTRIES && (
               <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-900">
                 <p className="font-medium">Uwaga!</p>
                 <p className="mt-1">
-                  Ta kategoria ma powiązane transakcje lub planowane wydatki. Usunięcie kategorii spowoduje również
-                  usunięcie wszystkich powiązanych danych. Ta operacja jest nieodwracalna.
+                  Usunięcie kategorii spowoduje również usunięcie wszystkich powiązanych transakcji i planowanych
+                  wydatków. Ta operacja jest nieodwracalna.
                 </p>
               </div>
             )}
-            {!requiresForce && <p className="text-sm">Ta operacja jest nieodwracalna.</p>}
-          </AlertDialogDescription>
-        </AlertDialogHeader>
+          </div>
+        )}
+
         <AlertDialogFooter>
           <AlertDialogCancel asChild>
             <Button variant="outline" disabled={isLoading}>
@@ -86,8 +162,18 @@ export const CategoryDeleteConfirmationDialog = ({
             </Button>
           </AlertDialogCancel>
           <AlertDialogAction asChild>
-            <Button variant="destructive" onClick={handleConfirm} disabled={isLoading}>
-              {isLoading ? "Usuwanie..." : "Usuń kategorię"}
+            <Button
+              variant={isReassigning ? "default" : "destructive"}
+              onClick={handleConfirm}
+              disabled={isLoading || isLoadingDependencies || (requiresChoice && resolution === "")}
+            >
+              {isReassigning
+                ? isLoading
+                  ? "Scalanie..."
+                  : "Przenieś i usuń"
+                : isLoading
+                  ? "Usuwanie..."
+                  : "Usuń kategorię"}
             </Button>
           </AlertDialogAction>
         </AlertDialogFooter>
@@ -1,45 +1,108 @@
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { DialogFooter } from "@/components/ui/dialog";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CATEGORY_GROUPS, CATEGORY_ICON_KEYS } from "@/lib/category-appearance";
+import { cn } from "@/lib/utils";
+import {
+  AlertSettingsFields,
+  alertSettingsFormFields,
+  parseAlertSettingInput,
+  refineAlertSettings,
+  toAlertSettingInput,
+} from "./AlertSettingsFields";
+import {
+  CATEGORY_COLOR_PRESETS,
+  CATEGORY_GROUP_LABELS,
+  CATEGORY_ICON_LABELS,
+  CategoryIcon,
+} from "./CategoryAppearance";
 import type { CategoryVM, CategoryFormValues, CreateCategoryCommand, UpdateCategoryCommand } from "./types";
 
 export interface CategoryFormProps {
   readonly category?: CategoryVM;
+  /** All loaded categories; top-level ones are offered as parents */
+  readonly categories: readonly CategoryVM[];
   readonly onSubmit: (data: CreateCategoryCommand | UpdateCategoryCommand) => Promise<void>;
   readonly onCancel: () => void;
   readonly formError?: string | null;
   readonly onClearError?: () => void;
 }
 
-const formSchema = z.object({
-  name: z
-    .string()
-    .trim()
-    .min(1, "Nazwa kategorii jest wymagana.")
-    .max(100, "Nazwa kategorii nie może przekraczać 100 znaków."),
-});
+const formSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, "Nazwa kategorii jest wymagana.")
+      .max(100, "Nazwa kategorii nie może przekraczać 100 znaków."),
+    parentId: z.string(),
+    color: z.string(),
+    icon: z.string(),
+    group: z.enum(CATEGORY_GROUPS),
+    ...alertSettingsFormFields,
+  })
+  .superRefine(refineAlertSettings);
+
+const NO_PARENT_CATEGORY = "none";
+const NO_ICON = "none";
 
 /**
- * Form for creating and editing categories.
+ * Form for creating and editing categories, including their color, icon, cost group and alert settings.
  * Uses react-hook-form with zod validation.
  */
-export const CategoryForm = ({ category, onSubmit, onCancel, formError, onClearError }: CategoryFormProps) => {
+export const CategoryForm = ({
+  category,
+  categories,
+  onSubmit,
+  onCancel,
+  formError,
+  onClearError,
+}: CategoryFormProps) => {
   const isEditMode = !!category;
 
+  // Categories are nested only two levels deep, so a category with subcategories stays at the top level
+  const hasSubcategories = useMemo(
+    () => !!category && categories.some((candidate) => candidate.parentId === category.id),
+    [categories, category]
+  );
+
+  // Archived categories cannot take new subcategories, but the current parent stays visible
+  const parentOptions = useMemo(
+    () =>
+      categories.filter(
+        (candidate) =>
+          candidate.parentId === null &&
+          candidate.id !== category?.id &&
+          (!candidate.isArchived || candidate.id === category?.parentId)
+      ),
+    [categories, category]
+  );
+
   const form = useForm<CategoryFormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       name: category?.name ?? "",
+      parentId: category?.parentId ?? NO_PARENT_CATEGORY,
+      color: category?.color ?? "",
+      icon: category?.icon ?? NO_ICON,
+      group: category?.group ?? "variable",
+      warningThreshold: toAlertSettingInput(category?.warningThreshold),
+      overThreshold: toAlertSettingInput(category?.overThreshold),
+      paceAlertDay: toAlertSettingInput(category?.paceAlertDay),
+      paceAlertPercent: toAlertSettingInput(category?.paceAlertPercent),
     },
   });
 
   const isSubmitting = form.formState.isSubmitting;
+  const colorValue = form.watch("color");
+  const iconValue = form.watch("icon");
   const [localError, setLocalError] = useState<string | null>(null);
 
   // Clear errors when form values change
@@ -57,22 +120,65 @@ export const CategoryForm = ({ category, onSubmit, onCancel, formError, onClearE
       onClearError?.();
 
       const trimmedName = values.name.trim();
-
-      // Check if there are any changes in edit mode
-      if (isEditMode && trimmedName === category.name) {
-        setLocalError("Wprowadź zmiany przed zapisaniem.");
-        return;
-      }
+      const parentId = values.parentId === NO_PARENT_CATEGORY ? null : values.parentId;
+      const color = values.color || null;
+      const icon = values.icon === NO_ICON ? null : values.icon;
+      const alertSettings = {
+        warningThreshold: parseAlertSettingInput(values.warningThreshold),
+        overThreshold: parseAlertSettingInput(values.overThreshold),
+        paceAlertDay: parseAlertSettingInput(values.paceAlertDay),
+        paceAlertPercent: parseAlertSettingInput(values.paceAlertPercent),
+      };
 
       try {
         if (isEditMode) {
-          const payload: UpdateCategoryCommand = {
-            name: trimmedName,
-          };
-          await onSubmit(payload);
+          const payload: {
+            name?: string;
+            parentId?: string | null;
+            color?: string | null;
+            icon?: string | null;
+            group?: CategoryFormValues["group"];
+            warningThreshold?: number | null;
+            overThreshold?: number | null;
+            paceAlertDay?: number | null;
+            paceAlertPercent?: number | null;
+          } = {};
+
+          if (trimmedName !== category.name) payload.name = trimmedName;
+          if (parentId !== category.parentId) payload.parentId = parentId;
+          if (color !== category.color) payload.color = color;
+          if (icon !== category.icon) payload.icon = icon;
+          if (values.group !== category.group) payload.group = values.group;
+          if (alertSettings.warningThreshold !== category.warningThreshold) {
+            payload.warningThreshold = alertSettings.warningThreshold;
+          }
+          if (alertSettings.overThreshold !== category.overThreshold) {
+            payload.overThreshold = alertSettings.overThreshold;
+          }
+          // The pace alert day and percentage are always sent together
+          if (
+            alertSettings.paceAlertDay !== category.paceAlertDay ||
+            alertSettings.paceAlertPercent !== category.paceAlertPercent
+          ) {
+            payload.paceAlertDay = alertSettings.paceAlertDay;
+            payload.paceAlertPercent = alertSettings.paceAlertPercent;
+          }
+
+          // Check if there are any changes in edit mode
+          if (Object.keys(payload).length === 0) {
+            setLocalError("Wprowadź zmiany przed zapisaniem.");
+            return;
+          }
+
+          await onSubmit(payload as UpdateCategoryCommand);
         } else {
           const payload: CreateCategoryCommand = {
             name: trimmedName,
+            ...(parentId ? { parentId } : {}),
+            color,
+            icon,
+            group: values.group,
+            ...alertSettings,
           };
           await onSubmit(payload);
         }
@@ -104,6 +210,140 @@ export const CategoryForm = ({ category, onSubmit, onCancel, formError, onClearE
           )}
         />
 
+        <FormField
+          name="parentId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Kategoria nadrzędna</FormLabel>
+              <Select disabled={isSubmitting || hasSubcategories} onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger aria-label="Kategoria nadrzędna">
+                    <SelectValue placeholder="Brak" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={NO_PARENT_CATEGORY}>Brak (kategoria główna)</SelectItem>
+                  {parentOptions.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                {hasSubcategories
+                  ? "Kategoria ma podkategorie, więc pozostaje kategorią główną."
+                  : "Podkategoria sumuje się do wydatków kategorii nadrzędnej."}
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          name="group"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Grupa</FormLabel>
+              <Select disabled={isSubmitting} onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger aria-label="Grupa">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {CATEGORY_GROUPS.map((group) => (
+                    <SelectItem key={group} value={group}>
+                      {CATEGORY_GROUP_LABELS[group]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>Pulpit grupuje kategorie i sumuje wydatki w każdej grupie.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          name="icon"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Ikona</FormLabel>
+              <Select disabled={isSubmitting} onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger aria-label="Ikona">
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={NO_ICON}>Domyślna</SelectItem>
+                  {CATEGORY_ICON_KEYS.map((iconKey) => (
+                    <SelectItem key={iconKey} value={iconKey}>
+                      <span className="flex items-center gap-2">
+                        <CategoryIcon icon={iconKey} color={null} className="h-5 w-5 bg-transparent" />
+                        {CATEGORY_ICON_LABELS[iconKey]}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          name="color"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Kolor</FormLabel>
+              <div className="flex flex-wrap items-center gap-2" role="radiogroup" aria-label="Kolor kategorii">
+                <Button
+                  type="button"
+                  variant={field.value === "" ? "secondary" : "outline"}
+                  size="sm"
+                  onClick={() => field.onChange("")}
+                  disabled={isSubmitting}
+                  role="radio"
+                  aria-checked={field.value === ""}
+                >
+                  Brak
+                </Button>
+                {CATEGORY_COLOR_PRESETS.map((preset) => (
+                  <button
+                    key={preset}
+                    type="button"
+                    className={cn(
+                      "h-7 w-7 rounded-full border-2 border-transparent transition-transform hover:scale-110",
+                      field.value === preset && "border-foreground"
+                    )}
+                    style={{ backgroundColor: preset }}
+                    onClick={() => field.onChange(preset)}
+                    disabled={isSubmitting}
+                    role="radio"
+                    aria-checked={field.value === preset}
+                    aria-label={`Kolor ${preset}`}
+                  />
+                ))}
+                <CategoryIcon icon={iconValue === NO_ICON ? null : iconValue} color={colorValue || null} />
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <AlertSettingsFields
+          disabled={isSubmitting}
+          description="Puste pola oznaczają ustawienia domyślne gospodarstwa."
+          placeholders={{
+            warningThreshold: "Domyślnie",
+            overThreshold: "Domyślnie",
+            paceAlertDay: "Domyślnie",
+            paceAlertPercent: "Domyślnie",
+          }}
+        />
+
         {displayError && (
           <div
             role="alert"
@@ -1,20 +1,113 @@
-import { Pencil, Trash2 } from "lucide-react";
+import { Archive, ArchiveRestore, ChevronDown, ChevronRight, GripVertical, Pencil, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { CATEGORY_GROUP_LABELS, CategoryIcon } from "./CategoryAppearance";
 import type { CategoryVM } from "./types";
 
 export interface CategoryListItemProps {
   readonly category: CategoryVM;
   readonly onEdit: (category: CategoryVM) => void;
   readonly onDelete: (category: CategoryVM) => void;
+  readonly onToggleArchived: (category: CategoryVM) => void;
+  /** Number of subcategories shown under the category; they can be collapsed when there are any */
+  readonly subcategoryCount?: number;
+  readonly isExpanded?: boolean;
+  readonly onToggleExpanded?: (category: CategoryVM) => void;
+  readonly isSubcategory?: boolean;
+  /** Drag handlers for reordering; the item is not draggable without them */
+  readonly onDragStart?: (category: CategoryVM) => void;
+  readonly onDragOver?: (category: CategoryVM) => boolean;
+  readonly onDrop?: (category: CategoryVM) => void;
+  readonly onDragEnd?: () => void;
+  readonly isDragging?: boolean;
 }
 
 /**
- * Single category list item with edit and delete actions.
+ * Single category list item with its icon, cost group and edit, archive and delete actions.
+ * Items can be dragged by the handle to change their position among siblings.
+ * Parent categories can expand and collapse their subcategories, subcategories are indented.
+ * Archived categories are dimmed and can be restored.
  */
-export const CategoryListItem = ({ category, onEdit, onDelete }: CategoryListItemProps) => (
-  <li className="flex items-center justify-between gap-4 rounded-lg border border-border bg-card p-4 transition-colors hover:bg-accent/50">
-    <span className="flex-1 font-medium">{category.name}</span>
+export const CategoryListItem = ({
+  category,
+  onEdit,
+  onDelete,
+  onToggleArchived,
+  subcategoryCount = 0,
+  isExpanded = true,
+  onToggleExpanded,
+  isSubcategory = false,
+  onDragStart,
+  onDragOver,
+  onDrop,
+  onDragEnd,
+  isDragging = false,
+}: CategoryListItemProps) => (
+  <li
+    className={cn(
+      "flex items-center justify-between gap-4 rounded-lg border border-border bg-card p-4 transition-colors hover:bg-accent/50",
+      isSubcategory && "ml-6",
+      category.isArchived && "opacity-70",
+      isDragging && "opacity-40"
+    )}
+    draggable={Boolean(onDragStart)}
+    onDragStart={(event) => {
+      event.dataTransfer.effectAllowed = "move";
+      event.dataTransfer.setData("text/plain", category.id);
+      onDragStart?.(category);
+    }}
+    onDragOver={(event) => {
+      // Only siblings accept the drop, so the browser shows the move cursor just over them
+      if (onDragOver?.(category)) {
+        event.preventDefault();
+        event.dataTransfer.dropEffect = "move";
+      }
+    }}
+    onDrop={(event) => {
+      event.preventDefault();
+      onDrop?.(category);
+    }}
+    onDragEnd={() => onDragEnd?.()}
+  >
+    <div className="flex flex-1 items-center gap-2">
+      {onDragStart ? <GripVertical className="h-4 w-4 cursor-grab text-muted-foreground" aria-hidden="true" /> : null}
+      {subcategoryCount > 0 ? (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={() => onToggleExpanded?.(category)}
+          aria-expanded={isExpanded}
+          aria-label={isExpanded ? `Zwiń podkategorie ${category.name}` : `Rozwiń podkategorie ${category.name}`}
+        >
+          {isExpanded ? (
+            <ChevronDown className="h-4 w-4" aria-hidden="true" />
+          ) : (
+            <ChevronRight className="h-4 w-4" aria-hidden="true" />
+          )}
+        </Button>
+      ) : null}
+      <CategoryIcon icon={category.icon} color={category.color} />
+      <span className="font-medium">{category.name}</span>
+      {subcategoryCount > 0 ? <span className="text-xs text-muted-foreground">({subcategoryCount})</span> : null}
+      <span className="text-xs text-muted-foreground">{CATEGORY_GROUP_LABELS[category.group]}</span>
+      {category.isArchived ? <span className="text-xs text-muted-foreground">Zarchiwizowana</span> : null}
+    </div>
     <div className="flex items-center gap-2">
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => onToggleArchived(category)}
+        aria-label={
+          category.isArchived ? `Przywróć kategorię ${category.name}` : `Zarchiwizuj kategorię ${category.name}`
+        }
+      >
+        {category.isArchived ? (
+          <ArchiveRestore className="h-4 w-4" aria-hidden="true" />
+        ) : (
+          <Archive className="h-4 w-4" aria-hidden="true" />
+        )}
+      </Button>
       <Button
         variant="ghost"
         size="icon"
@@ -0,0 +1,155 @@
+import { useCallback, useEffect } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { DialogFooter } from "@/components/ui/dialog";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { HOUSEHOLD_ROLE_LABELS } from "@/lib/permissions";
+import type { CreateHouseholdInvitationCommand, HouseholdInvitationFormValues } from "./types";
+
+export interface HouseholdInvitationFormProps {
+  readonly onSubmit: (data: CreateHouseholdInvitationCommand) => Promise<void>;
+  readonly onCancel: () => void;
+  readonly formError?: string | null;
+  readonly onClearError?: () => void;
+}
+
+const formSchema = z.object({
+  email: z
+    .string()
+    .trim()
+    .min(1, "Adres e-mail jest wymagany.")
+    .max(254, "Adres e-mail nie może przekraczać 254 znaków.")
+    .email("Podaj poprawny adres e-mail."),
+  role: z.enum(["editor", "viewer"]),
+});
+
+const ROLE_DESCRIPTIONS: Record<HouseholdInvitationFormValues["role"], string> = {
+  editor: "Zarządza budżetami, transakcjami i ustawieniami gospodarstwa.",
+  viewer: "Przegląda dane i dodaje własne wydatki.",
+};
+
+/**
+ * Form for inviting a person to the household by email address.
+ * Uses react-hook-form with zod validation.
+ */
+export const HouseholdInvitationForm = ({
+  onSubmit,
+  onCancel,
+  formError,
+  onClearError,
+}: HouseholdInvitationFormProps) => {
+  const form = useForm<HouseholdInvitationFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      email: "",
+      role: "editor",
+    },
+  });
+
+  const isSubmitting = form.formState.isSubmitting;
+
+  // Clear errors when form values change
+  useEffect(() => {
+    const subscription = form.watch(() => {
+      onClearError?.();
+    });
+    return () => subscription.unsubscribe();
+  }, [form, onClearError]);
+
+  const onFormSubmit = useCallback(
+    async (values: HouseholdInvitationFormValues) => {
+      onClearError?.();
+
+      try {
+        await onSubmit({ email: values.email.trim().toLowerCase(), role: values.role });
+      } catch (error) {
+        console.error("Failed to submit household invitation form", error);
+        // Error is handled by parent component
+      }
+    },
+    [onClearError, onSubmit]
+  );
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onFormSubmit)} className="space-y-4">
+        <FormField
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Adres e-mail</FormLabel>
+              <FormControl>
+                <Input
+                  {...field}
+                  type="email"
+                  inputMode="email"
+                  placeholder="np. anna.kowalska@example.com"
+                  disabled={isSubmitting}
+                  autoComplete="off"
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          name="role"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Rola</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange} disabled={isSubmitting}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {(["editor", "viewer"] as const).map((role) => (
+                    <SelectItem key={role} value={role}>
+                      {HOUSEHOLD_ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                {ROLE_DESCRIPTIONS[field.value as HouseholdInvitationFormValues["role"]]}
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {formError && (
+          <div
+            role="alert"
+            className="rounded-md border border-destructive bg-destructive/10 px-4 py-3 text-sm text-destructive"
+          >
+            {formError}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+            Anuluj
+          </Button>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
+                Tworzenie...
+              </>
+            ) : (
+              "Utwórz zaproszenie"
+            )}
+          </Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+};
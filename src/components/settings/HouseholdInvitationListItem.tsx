@@ -0,0 +1,65 @@
+import { XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { HOUSEHOLD_ROLE_LABELS } from "@/lib/permissions";
+import { cn } from "@/lib/utils";
+import type { HouseholdInvitationDto, HouseholdInvitationStatus } from "@/types";
+
+export interface HouseholdInvitationListItemProps {
+  readonly invitation: HouseholdInvitationDto;
+  /** Called to revoke a pending invitation; the invitation is read-only when not provided */
+  readonly onRevoke?: (invitation: HouseholdInvitationDto) => void;
+}
+
+const STATUS_LABELS: Record<HouseholdInvitationStatus, string> = {
+  pending: "Oczekuje",
+  accepted: "Przyjęte",
+  revoked: "Odwołane",
+  expired: "Wygasło",
+};
+
+const STATUS_CLASSES: Record<HouseholdInvitationStatus, string> = {
+  pending: "bg-amber-100 text-amber-900",
+  accepted: "bg-emerald-100 text-emerald-900",
+  revoked: "bg-muted text-muted-foreground",
+  expired: "bg-muted text-muted-foreground",
+};
+
+const formatDate = (value: string): string => new Date(value).toLocaleDateString("pl-PL");
+
+/**
+ * Single household invitation list item with email, role, status and revoke action for pending invitations.
+ */
+export const HouseholdInvitationListItem = ({ invitation, onRevoke }: HouseholdInvitationListItemProps) => {
+  const isPending = invitation.status === "pending";
+
+  return (
+    <li className="flex items-center justify-between gap-4 rounded-lg border border-border bg-card p-4 transition-colors hover:bg-accent/50">
+      <div className="flex-1 space-y-1">
+        <div className="flex flex-wrap items-baseline justify-between gap-2">
+          <span className="break-all font-medium">{invitation.email}</span>
+          <span className={cn("rounded-full px-2 py-0.5 text-xs font-medium", STATUS_CLASSES[invitation.status])}>
+            {STATUS_LABELS[invitation.status]}
+          </span>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {HOUSEHOLD_ROLE_LABELS[invitation.role]} · Utworzone {formatDate(invitation.createdAt)}
+          {invitation.acceptedAt
+            ? ` · Przyjęte ${formatDate(invitation.acceptedAt)}`
+            : isPending
+              ? ` · Ważne do ${formatDate(invitation.expiresAt)}`
+              : null}
+        </p>
+      </div>
+      {isPending && onRevoke && (
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => onRevoke(invitation)}
+          aria-label={`Odwołaj zaproszenie dla ${invitation.email}`}
+        >
+          <XCircle className="h-4 w-4 text-destructive" aria-hidden="true" />
+        </Button>
+      )}
+    </li>
+  );
+};
@@ -5,8 +5,10 @@ import { z } from "zod";
 import { Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { DialogFooter } from "@/components/ui/dialog";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { HouseholdUserDto } from "@/types";
 import type {
   HouseholdMemberVM,
   HouseholdMemberFormValues,
@@ -16,6 +18,8 @@ import type {
 
 export interface HouseholdMemberFormProps {
   readonly member?: HouseholdMemberVM;
+  /** Accounts the member can be linked to; the account field is hidden when empty */
+  readonly accounts?: readonly HouseholdUserDto[];
   readonly onSubmit: (data: CreateHouseholdMemberCommand | UpdateHouseholdMemberCommand) => Promise<void>;
   readonly onCancel: () => void;
   readonly formError?: string | null;
@@ -24,14 +28,20 @@ export interface HouseholdMemberFormProps {
 
 const formSchema = z.object({
   fullName: z.string().trim().min(1, "Imię jest wymagane.").max(120, "Imię nie może przekraczać 120 znaków."),
+  userId: z.string(),
 });
 
+// Select items cannot have an empty value, so the missing account has its own
+const NO_ACCOUNT_VALUE = "none";
+
 /**
  * Form for creating and editing household members.
+ * A member can be linked to an account with access to the household, which makes it the account's own member.
  * Uses react-hook-form with zod validation.
  */
 export const HouseholdMemberForm = ({
   member,
+  accounts = [],
   onSubmit,
   onCancel,
   formError,
@@ -43,6 +53,7 @@ export const HouseholdMemberForm = ({
     resolver: zodResolver(formSchema),
     defaultValues: {
       fullName: member?.fullName ?? "",
+      userId: member?.userId ?? "",
     },
   });
 
@@ -64,9 +75,11 @@ export const HouseholdMemberForm = ({
       onClearError?.();
 
       const trimmedFullName = values.fullName.trim();
+      const userId = values.userId || null;
+      const isUserIdChanged = userId !== (member?.userId ?? null);
 
       // Check if there are any changes in edit mode
-      if (isEditMode && trimmedFullName === member.fullName) {
+      if (isEditMode && trimmedFullName === member.fullName && !isUserIdChanged) {
         setLocalError("Wprowadź zmiany przed zapisaniem.");
         return;
       }
@@ -75,11 +88,13 @@ export const HouseholdMemberForm = ({
         if (isEditMode) {
           const payload: UpdateHouseholdMemberCommand = {
             fullName: trimmedFullName,
+            ...(isUserIdChanged ? { userId } : {}),
           };
           await onSubmit(payload);
         } else {
           const payload: CreateHouseholdMemberCommand = {
             fullName: trimmedFullName,
+            ...(userId ? { userId } : {}),
           };
           await onSubmit(payload);
         }
@@ -111,6 +126,40 @@ export const HouseholdMemberForm = ({
           )}
         />
 
+        {accounts.length > 0 && (
+          <FormField
+            name="userId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Konto</FormLabel>
+                <Select
+                  value={field.value || NO_ACCOUNT_VALUE}
+                  onValueChange={(value) => field.onChange(value === NO_ACCOUNT_VALUE ? "" : value)}
+                  disabled={isSubmitting}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={NO_ACCOUNT_VALUE}>Bez konta</SelectItem>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.userId} value={account.userId}>
+                        {account.isCurrentUser ? `${account.email} (Ty)` : account.email}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  Wydatki dodane z połączonego konta są domyślnie przypisywane temu domownikowi.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
         {displayError && (
           <div
             role="alert"
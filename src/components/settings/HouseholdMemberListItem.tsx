@@ -4,16 +4,28 @@ import type { HouseholdMemberVM } from "./types";
 
 export interface HouseholdMemberListItemProps {
   readonly member: HouseholdMemberVM;
+  /** Email addresses of the accounts with access to the household, by user ID */
+  readonly accountEmails?: ReadonlyMap<string, string>;
   readonly onEdit: (member: HouseholdMemberVM) => void;
   readonly onDelete: (member: HouseholdMemberVM) => void;
 }
 
 /**
- * Single household member list item with edit and delete actions.
+ * Single household member list item with the linked account, edit and delete actions.
  */
-export const HouseholdMemberListItem = ({ member, onEdit, onDelete }: HouseholdMemberListItemProps) => (
+export const HouseholdMemberListItem = ({ member, accountEmails, onEdit, onDelete }: HouseholdMemberListItemProps) => (
   <li className="flex items-center justify-between gap-4 rounded-lg border border-border bg-card p-4 transition-colors hover:bg-accent/50">
-    <span className="flex-1 font-medium">{member.fullName}</span>
+    <div className="flex-1 space-y-1">
+      <span className="font-medium">
+        {member.fullName}
+        {member.isCurrentUser && <span className="text-muted-foreground"> (Ty)</span>}
+      </span>
+      {member.userId && (
+        <p className="break-all text-xs text-muted-foreground">
+          Konto: {accountEmails?.get(member.userId) ?? "połączone"}
+        </p>
+      )}
+    </div>
     <div className="flex items-center gap-2">
       <Button
         variant="ghost"
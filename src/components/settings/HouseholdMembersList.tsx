@@ -7,6 +7,8 @@ import type { PaginationMetaDto } from "@/types";
 
 export interface HouseholdMembersListProps {
   readonly members: readonly HouseholdMemberVM[];
+  /** Email addresses of the accounts with access to the household, by user ID */
+  readonly accountEmails?: ReadonlyMap<string, string>;
   readonly meta: PaginationMetaDto | null;
   readonly isLoadingMore: boolean;
   readonly onEdit: (member: HouseholdMemberVM) => void;
@@ -21,6 +23,7 @@ export interface HouseholdMembersListProps {
  */
 export const HouseholdMembersList = ({
   members,
+  accountEmails,
   meta,
   isLoadingMore,
   onEdit,
@@ -40,7 +43,13 @@ export const HouseholdMembersList = ({
     <div className="space-y-4">
       <ul className="space-y-3">
         {members.map((member) => (
-          <HouseholdMemberListItem key={member.id} member={member} onEdit={onEdit} onDelete={onDelete} />
+          <HouseholdMemberListItem
+            key={member.id}
+            member={member}
+            accountEmails={accountEmails}
+            onEdit={onEdit}
+            onDelete={onDelete}
+          />
         ))}
       </ul>
 
@@ -0,0 +1,51 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { HOUSEHOLD_ROLE_LABELS } from "@/lib/permissions";
+import type { AssignableHouseholdRole, HouseholdUserDto } from "@/types";
+
+export interface HouseholdUserListItemProps {
+  readonly user: HouseholdUserDto;
+  /** Called when the role is changed; the role is read-only when not provided */
+  readonly onRoleChange?: (user: HouseholdUserDto, role: AssignableHouseholdRole) => void;
+}
+
+const ASSIGNABLE_ROLES: readonly AssignableHouseholdRole[] = ["editor", "viewer"];
+
+const formatDate = (value: string): string => new Date(value).toLocaleDateString("pl-PL");
+
+/**
+ * Single account with access to the household, with its role.
+ * The owner and the current user keep their roles; other roles can be switched between editor and viewer.
+ */
+export const HouseholdUserListItem = ({ user, onRoleChange }: HouseholdUserListItemProps) => {
+  const canChangeRole = Boolean(onRoleChange) && user.role !== "owner" && !user.isCurrentUser;
+
+  return (
+    <li className="flex items-center justify-between gap-4 rounded-lg border border-border bg-card p-4">
+      <div className="flex-1 space-y-1">
+        <span className="break-all font-medium">
+          {user.email}
+          {user.isCurrentUser && <span className="text-muted-foreground"> (Ty)</span>}
+        </span>
+        <p className="text-xs text-muted-foreground">Dostęp od {formatDate(user.joinedAt)}</p>
+      </div>
+      {canChangeRole ? (
+        <Select value={user.role} onValueChange={(value) => onRoleChange?.(user, value as AssignableHouseholdRole)}>
+          <SelectTrigger className="w-36" aria-label={`Rola konta ${user.email}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ASSIGNABLE_ROLES.map((role) => (
+              <SelectItem key={role} value={role}>
+                {HOUSEHOLD_ROLE_LABELS[role]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <span className="rounded-full bg-muted px-2 py-0.5 text-xs font-medium text-muted-foreground">
+          {HOUSEHOLD_ROLE_LABELS[user.role]}
+        </span>
+      )}
+    </li>
+  );
+};
@@ -0,0 +1,166 @@
+import { useCallback, useEffect } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { AlertCircle, CheckCircle2, Loader2 } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Form } from "@/components/ui/form";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { HouseholdDto } from "@/types";
+import {
+  AlertSettingsFields,
+  alertSettingsFormFields,
+  parseAlertSettingInput,
+  refineAlertSettings,
+  toAlertSettingInput,
+} from "./AlertSettingsFields";
+import { useAlertSettings } from "./useAlertSettings";
+import type { AlertSettingsFormValues } from "./types";
+import { cn } from "@/lib/utils";
+
+const formSchema = z.object(alertSettingsFormFields).superRefine((values, context) => {
+  // Unlike category overrides, the household thresholds cannot fall back to anything
+  if (values.warningThreshold === "") {
+    context.addIssue({ code: z.ZodIssueCode.custom, message: "Próg jest wymagany.", path: ["warningThreshold"] });
+  }
+  if (values.overThreshold === "") {
+    context.addIssue({ code: z.ZodIssueCode.custom, message: "Próg jest wymagany.", path: ["overThreshold"] });
+  }
+
+  refineAlertSettings(values, context);
+});
+
+const toFormValues = (household: HouseholdDto | null): AlertSettingsFormValues => ({
+  warningThreshold: toAlertSettingInput(household?.categoryWarningThreshold),
+  overThreshold: toAlertSettingInput(household?.categoryOverThreshold),
+  paceAlertDay: toAlertSettingInput(household?.paceAlertDay),
+  paceAlertPercent: toAlertSettingInput(household?.paceAlertPercent),
+});
+
+/**
+ * View for the default alert thresholds of the household.
+ * Categories use these settings unless they define their own.
+ */
+export const ManageAlertSettingsView = () => {
+  const { household, isLoading, error, operationResult, saveAlertSettings, retry, clearOperationResult } =
+    useAlertSettings();
+
+  const form = useForm<AlertSettingsFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: toFormValues(household),
+    mode: "onChange",
+  });
+
+  const { isSubmitting } = form.formState;
+
+  // Reset form when the household is loaded or saved
+  useEffect(() => {
+    form.reset(toFormValues(household));
+  }, [form, household]);
+
+  const handleSubmit = useCallback(
+    async (values: AlertSettingsFormValues) => {
+      try {
+        await saveAlertSettings({
+          categoryWarningThreshold: parseAlertSettingInput(values.warningThreshold) ?? undefined,
+          categoryOverThreshold: parseAlertSettingInput(values.overThreshold) ?? undefined,
+          paceAlertDay: parseAlertSettingInput(values.paceAlertDay),
+          paceAlertPercent: parseAlertSettingInput(values.paceAlertPercent),
+        });
+      } catch {
+        // Error is already set in the hook's operationResult
+      }
+    },
+    [saveAlertSettings]
+  );
+
+  const handleRetry = useCallback(() => {
+    void retry();
+  }, [retry]);
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <div className="container mx-auto max-w-2xl space-y-6 p-4 md:p-6">
+        <div className="space-y-2">
+          <Skeleton className="h-8 w-48" />
+          <Skeleton className="h-4 w-96" />
+        </div>
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  // Error state
+  if (error) {
+    return (
+      <div className="container mx-auto max-w-2xl p-4 md:p-6">
+        <div className="flex min-h-[60vh] flex-col items-center justify-center gap-6 text-center">
+          <div className="space-y-2">
+            <h1 className="text-2xl font-semibold">Nie udało się załadować danych</h1>
+            <p className="text-sm text-muted-foreground">{error.message}</p>
+          </div>
+          <Button variant="outline" onClick={handleRetry}>
+            Spróbuj ponownie
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto max-w-2xl space-y-6 p-4 md:p-6">
+      {/* Header */}
+      <header className="space-y-2">
+        <h1 className="text-3xl font-bold tracking-tight">Alerty budżetowe</h1>
+        <p className="text-muted-foreground">
+          Domyślne progi dla wszystkich kategorii. Każda kategoria może mieć własne ustawienia.
+        </p>
+      </header>
+
+      {/* Operation result banner */}
+      {operationResult && (
+        <div
+          role={operationResult.status === "success" ? "status" : "alert"}
+          aria-live={operationResult.status === "success" ? "polite" : "assertive"}
+          className={cn(
+            "flex items-center gap-3 rounded-md border px-4 py-3",
+            operationResult.status === "success"
+              ? "border-emerald-200 bg-emerald-50 text-emerald-900"
+              : "border-destructive bg-destructive/10 text-destructive"
+          )}
+        >
+          {operationResult.status === "success" ? (
+            <CheckCircle2 className="h-5 w-5 flex-shrink-0" aria-hidden="true" />
+          ) : (
+            <AlertCircle className="h-5 w-5 flex-shrink-0" aria-hidden="true" />
+          )}
+          <p className="flex-1 text-sm">{operationResult.message}</p>
+          <button
+            onClick={clearOperationResult}
+            className="text-sm font-medium underline-offset-4 hover:underline"
+            aria-label="Zamknij powiadomienie"
+          >
+            Zamknij
+          </button>
+        </div>
+      )}
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6" noValidate>
+          <AlertSettingsFields
+            disabled={isSubmitting}
+            description="Domyślny alert tempa dotyczy tylko kosztów zmiennych, bo koszty stałe i oszczędności zwykle opłacane są jednorazowo."
+          />
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={isSubmitting || !form.formState.isDirty}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />}
+              Zapisz
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import { useCallback, useState } from "react";
+import { useCallback, useRef, useState } from "react";
 import { Plus, AlertCircle, CheckCircle2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
@@ -9,12 +9,14 @@ import { CategoriesList } from "./CategoriesList";
 import { CategoryDeleteConfirmationDialog } from "./CategoryDeleteConfirmationDialog";
 import { useCategories } from "./useCategories";
 import type { CategoryVM, CreateCategoryCommand, UpdateCategoryCommand } from "./types";
+import type { CategoryDependenciesDto } from "@/types";
 import { cn } from "@/lib/utils";
 
 /**
  * Main view for managing expense categories.
  * Handles CRUD operations with dialogs and displays operation results.
- * Supports cascading delete with force confirmation.
+ * Categories can be archived instead of deleted, keeping their history, and restored later.
+ * Supports cascading delete with force confirmation and reassigning the entries of a deleted category.
  */
 export const ManageCategoriesView = () => {
   const {
@@ -29,7 +31,11 @@ export const ManageCategoriesView = () => {
     loadNextPage,
     createCategory,
     updateCategory,
+    setCategoryArchived,
+    reorderCategories,
     deleteCategory,
+    fetchDependencies,
+    mergeCategory,
     retry,
     clearOperationResult,
     clearPendingDeleteRequiresForce,
@@ -39,6 +45,10 @@ export const ManageCategoriesView = () => {
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<CategoryVM | null>(null);
   const [formError, setFormError] = useState<string | null>(null);
+  const [deleteDependencies, setDeleteDependencies] = useState<CategoryDependenciesDto | null>(null);
+  const [isLoadingDependencies, setIsLoadingDependencies] = useState(false);
+  // Category whose dependencies are being loaded; answers for previously opened categories are ignored
+  const dependenciesCategoryIdRef = useRef<string | null>(null);
 
   const handleOpenCreateDialog = useCallback(() => {
     setSelectedCategory(null);
@@ -56,9 +66,28 @@ export const ManageCategoriesView = () => {
     (category: CategoryVM) => {
       setSelectedCategory(category);
       clearPendingDeleteRequiresForce();
+      setDeleteDependencies(null);
+      setIsLoadingDependencies(true);
       setIsDeleteDialogOpen(true);
+      dependenciesCategoryIdRef.current = category.id;
+
+      fetchDependencies(category.id)
+        .then((dependencies) => {
+          if (dependenciesCategoryIdRef.current === category.id) {
+            setDeleteDependencies(dependencies);
+          }
+        })
+        .catch((error) => {
+          // Without counts the dialog falls back to the force confirmation flow
+          console.error("Failed to load category dependencies", error);
+        })
+        .finally(() => {
+          if (dependenciesCategoryIdRef.current === category.id) {
+            setIsLoadingDependencies(false);
+          }
+        });
     },
-    [clearPendingDeleteRequiresForce]
+    [clearPendingDeleteRequiresForce, fetchDependencies]
   );
 
   const handleCloseFormDialog = useCallback(() => {
@@ -70,6 +99,9 @@ export const ManageCategoriesView = () => {
   const handleCloseDeleteDialog = useCallback(() => {
     setIsDeleteDialogOpen(false);
     setSelectedCategory(null);
+    setDeleteDependencies(null);
+    setIsLoadingDependencies(false);
+    dependenciesCategoryIdRef.current = null;
     clearPendingDeleteRequiresForce();
   }, [clearPendingDeleteRequiresForce]);
 
@@ -94,29 +126,61 @@ export const ManageCategoriesView = () => {
     [createCategory, handleCloseFormDialog, selectedCategory, updateCategory]
   );
 
-  const handleDelete = useCallback(async () => {
-    if (!selectedCategory) return;
-
-    try {
-      // If force is required, pass true, otherwise undefined
-      await deleteCategory(selectedCategory.id, pendingDeleteRequiresForce);
-      handleCloseDeleteDialog();
-    } catch (error) {
-      // If force confirmation is required, keep the dialog open
-      if (
-        typeof error === "object" &&
-        error !== null &&
-        "code" in error &&
-        error.code === "FORCE_CONFIRMATION_REQUIRED"
-      ) {
-        // Dialog stays open, pendingDeleteRequiresForce is now true
-        return;
+  const handleDelete = useCallback(
+    async (targetCategoryId: string | null) => {
+      if (!selectedCategory) return;
+
+      try {
+        if (targetCategoryId) {
+          await mergeCategory(selectedCategory.id, targetCategoryId);
+        } else {
+          // Deleting a category with entries was already confirmed in the dialog when their counts are known
+          const hasEntries =
+            deleteDependencies !== null && deleteDependencies.transactions + deleteDependencies.plannedExpenses > 0;
+          await deleteCategory(selectedCategory.id, pendingDeleteRequiresForce || hasEntries);
+        }
+        handleCloseDeleteDialog();
+      } catch (error) {
+        // If force confirmation is required, keep the dialog open
+        if (
+          typeof error === "object" &&
+          error !== null &&
+          "code" in error &&
+          error.code === "FORCE_CONFIRMATION_REQUIRED"
+        ) {
+          // Dialog stays open, pendingDeleteRequiresForce is now true
+          return;
+        }
+
+        // For other errors, close dialog
+        console.error("Failed to delete category", error);
       }
+    },
+    [
+      deleteCategory,
+      deleteDependencies,
+      handleCloseDeleteDialog,
+      mergeCategory,
+      pendingDeleteRequiresForce,
+      selectedCategory,
+    ]
+  );
+
+  const handleToggleArchived = useCallback(
+    (category: CategoryVM) => {
+      setCategoryArchived(category.id, !category.isArchived).catch(() => {
+        // Error is already shown in the hook's operationResult
+      });
+    },
+    [setCategoryArchived]
+  );
 
-      // For other errors, close dialog
-      console.error("Failed to delete category", error);
-    }
-  }, [deleteCategory, handleCloseDeleteDialog, pendingDeleteRequiresForce, selectedCategory]);
+  const handleReorder = useCallback(
+    (categoryIds: readonly string[]) => {
+      void reorderCategories(categoryIds);
+    },
+    [reorderCategories]
+  );
 
   const handleRetry = useCallback(() => {
     void retry();
@@ -218,6 +282,8 @@ export const ManageCategoriesView = () => {
           isLoadingMore={isLoadingMore}
           onEdit={handleOpenEditDialog}
           onDelete={handleOpenDeleteDialog}
+          onToggleArchived={handleToggleArchived}
+          onReorder={handleReorder}
           onLoadMore={loadNextPage}
           onPageChange={loadPage}
         />
@@ -225,15 +291,18 @@ export const ManageCategoriesView = () => {
 
       {/* Form Dialog */}
       <Dialog open={isFormDialogOpen} onOpenChange={setIsFormDialogOpen}>
-        <DialogContent>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>{selectedCategory ? "Edytuj kategorię" : "Dodaj kategorię"}</DialogTitle>
             <DialogDescription>
-              {selectedCategory ? "Wprowadź zmiany w nazwie kategorii." : "Dodaj nową kategorię wydatków."}
+              {selectedCategory
+                ? "Wprowadź zmiany w nazwie lub kategorii nadrzędnej."
+                : "Dodaj nową kategorię lub podkategorię wydatków."}
             </DialogDescription>
           </DialogHeader>
           <CategoryForm
             category={selectedCategory ?? undefined}
+            categories={categories}
             onSubmit={handleFormSubmit}
             onCancel={handleCloseFormDialog}
             formError={formError}
@@ -244,9 +313,13 @@ export const ManageCategoriesView = () => {
 
       {/* Delete Confirmation Dialog */}
       <CategoryDeleteConfirmationDialog
+        key={selectedCategory?.id}
         open={isDeleteDialogOpen}
         onOpenChange={setIsDeleteDialogOpen}
         category={selectedCategory}
+        categories={categories}
+        dependencies={deleteDependencies}
+        isLoadingDependencies={isLoadingDependencies}
         onConfirm={handleDelete}
         requiresForce={pendingDeleteRequiresForce}
       />
@@ -0,0 +1,228 @@
+import { useCallback, useState } from "react";
+import { Plus, AlertCircle, CheckCircle2, Wand2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ConfirmationDialog } from "./ConfirmationDialog";
+import { SettingsEmptyState } from "./SettingsEmptyState";
+import { CategorizationRuleForm } from "./CategorizationRuleForm";
+import { CategorizationRuleListItem } from "./CategorizationRuleListItem";
+import { useCategorizationRules } from "./useCategorizationRules";
+import type { CategorizationRuleVM, CreateCategorizationRuleCommand, UpdateCategorizationRuleCommand } from "./types";
+import { cn } from "@/lib/utils";
+
+/**
+ * Main view for managing categorization rules that pick the category of transactions from their notes.
+ * Handles CRUD operations with dialogs and displays operation results.
+ */
+export const ManageCategorizationRulesView = () => {
+  const {
+    rules,
+    categories,
+    isLoading,
+    error,
+    operationResult,
+    createRule,
+    updateRule,
+    deleteRule,
+    retry,
+    clearOperationResult,
+  } = useCategorizationRules();
+
+  const [isFormDialogOpen, setIsFormDialogOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [selectedItem, setSelectedItem] = useState<CategorizationRuleVM | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleOpenCreateDialog = useCallback(() => {
+    setSelectedItem(null);
+    setFormError(null);
+    setIsFormDialogOpen(true);
+  }, []);
+
+  const handleOpenEditDialog = useCallback((item: CategorizationRuleVM) => {
+    setSelectedItem(item);
+    setFormError(null);
+    setIsFormDialogOpen(true);
+  }, []);
+
+  const handleOpenDeleteDialog = useCallback((item: CategorizationRuleVM) => {
+    setSelectedItem(item);
+    setIsDeleteDialogOpen(true);
+  }, []);
+
+  const handleCloseFormDialog = useCallback(() => {
+    setIsFormDialogOpen(false);
+    setSelectedItem(null);
+    setFormError(null);
+  }, []);
+
+  const handleFormSubmit = useCallback(
+    async (data: CreateCategorizationRuleCommand | UpdateCategorizationRuleCommand) => {
+      try {
+        if (selectedItem) {
+          await updateRule(selectedItem.id, data as UpdateCategorizationRuleCommand);
+        } else {
+          await createRule(data as CreateCategorizationRuleCommand);
+        }
+        handleCloseFormDialog();
+      } catch (error) {
+        // Error is already set in the hook's operationResult
+        const errorMessage =
+          typeof error === "object" && error !== null && "message" in error
+            ? String((error as { message?: unknown }).message)
+            : null;
+        setFormError(errorMessage);
+      }
+    },
+    [createRule, handleCloseFormDialog, selectedItem, updateRule]
+  );
+
+  const handleDelete = useCallback(async () => {
+    if (!selectedItem) return;
+
+    await deleteRule(selectedItem.id);
+    setSelectedItem(null);
+  }, [deleteRule, selectedItem]);
+
+  const handleRetry = useCallback(() => {
+    void retry();
+  }, [retry]);
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <div className="container mx-auto max-w-2xl space-y-6 p-4 md:p-6">
+        <div className="space-y-2">
+          <Skeleton className="h-8 w-48" />
+          <Skeleton className="h-4 w-96" />
+        </div>
+        <Skeleton className="h-10 w-40" />
+        <div className="space-y-3">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <Skeleton key={i} className="h-20 w-full" />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  // Error state
+  if (error) {
+    return (
+      <div className="container mx-auto max-w-2xl p-4 md:p-6">
+        <div className="flex min-h-[60vh] flex-col items-center justify-center gap-6 text-center">
+          <div className="space-y-2">
+            <h1 className="text-2xl font-semibold">Nie udało się załadować danych</h1>
+            <p className="text-sm text-muted-foreground">{error.message}</p>
+          </div>
+          <Button variant="outline" onClick={handleRetry}>
+            Spróbuj ponownie
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const isEmpty = rules.length === 0;
+
+  return (
+    <div className="container mx-auto max-w-2xl space-y-6 p-4 md:p-6">
+      {/* Header */}
+      <header className="space-y-2">
+        <h1 className="text-3xl font-bold tracking-tight">Reguły kategoryzacji</h1>
+        <p className="text-muted-foreground">
+          Nowe i importowane transakcje bez kategorii otrzymują kategorię reguły, której wzorzec występuje w notatce
+        </p>
+      </header>
+
+      {/* Operation result banner */}
+      {operationResult && (
+        <div
+          role={operationResult.status === "success" ? "status" : "alert"}
+          aria-live={operationResult.status === "success" ? "polite" : "assertive"}
+          className={cn(
+            "flex items-center gap-3 rounded-md border px-4 py-3",
+            operationResult.status === "success"
+              ? "border-emerald-200 bg-emerald-50 text-emerald-900"
+              : "border-destructive bg-destructive/10 text-destructive"
+          )}
+        >
+          {operationResult.status === "success" ? (
+            <CheckCircle2 className="h-5 w-5 flex-shrink-0" aria-hidden="true" />
+          ) : (
+            <AlertCircle className="h-5 w-5 flex-shrink-0" aria-hidden="true" />
+          )}
+          <p className="flex-1 text-sm">{operationResult.message}</p>
+          <button
+            onClick={clearOperationResult}
+            className="text-sm font-medium underline-offset-4 hover:underline"
+            aria-label="Zamknij powiadomienie"
+          >
+            Zamknij
+          </button>
+        </div>
+      )}
+
+      {/* Add button */}
+      <div>
+        <Button onClick={handleOpenCreateDialog}>
+          <Plus className="mr-2 h-4 w-4" aria-hidden="true" />
+          Dodaj regułę
+        </Button>
+      </div>
+
+      {/* Content */}
+      {isEmpty ? (
+        <SettingsEmptyState
+          title="Brak reguł kategoryzacji"
+          description="Dodaj regułę, np. „Orlen” → Transport, albo utwórz ją z transakcji w historii."
+          actionLabel="Dodaj regułę"
+          onAction={handleOpenCreateDialog}
+          icon={Wand2}
+        />
+      ) : (
+        <ul className="space-y-3">
+          {rules.map((item) => (
+            <CategorizationRuleListItem
+              key={item.id}
+              rule={item}
+              onEdit={handleOpenEditDialog}
+              onDelete={handleOpenDeleteDialog}
+            />
+          ))}
+        </ul>
+      )}
+
+      {/* Form Dialog */}
+      <Dialog open={isFormDialogOpen} onOpenChange={setIsFormDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selectedItem ? "Edytuj regułę" : "Dodaj regułę"}</DialogTitle>
+            <DialogDescription>Reguła nie zmienia kategorii transakcji zapisanych wcześniej.</DialogDescription>
+          </DialogHeader>
+          <CategorizationRuleForm
+            rule={selectedItem ?? undefined}
+            categories={categories}
+            onSubmit={handleFormSubmit}
+            onCancel={handleCloseFormDialog}
+            formError={formError}
+            onClearError={() => setFormError(null)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <ConfirmationDialog
+        open={isDeleteDialogOpen}
+        onOpenChange={setIsDeleteDialogOpen}
+        title="Usuń regułę"
+        description="Czy na pewno chcesz usunąć tę regułę? Transakcje skategoryzowane wcześniej zachowają swoją kategorię."
+        confirmLabel="Usuń"
+        cancelLabel="Anuluj"
+        variant="destructive"
+        onConfirm={handleDelete}
+      />
+    </div>
+  );
+};
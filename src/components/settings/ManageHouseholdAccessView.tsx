@@ -0,0 +1,337 @@
+import { useCallback, useState } from "react";
+import { AlertCircle, Check, CheckCircle2, Copy, Mail, UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ConfirmationDialog } from "./ConfirmationDialog";
+import { SettingsEmptyState } from "./SettingsEmptyState";
+import { HouseholdInvitationForm } from "./HouseholdInvitationForm";
+import { HouseholdInvitationListItem } from "./HouseholdInvitationListItem";
+import { HouseholdUserListItem } from "./HouseholdUserListItem";
+import { useHouseholdInvitations } from "./useHouseholdInvitations";
+import { useHouseholdUsers } from "./useHouseholdUsers";
+import type { CreateHouseholdInvitationCommand, OperationResult } from "./types";
+import type {
+  AssignableHouseholdRole,
+  HouseholdInvitationCreatedDto,
+  HouseholdInvitationDto,
+  HouseholdRole,
+  HouseholdUserDto,
+} from "@/types";
+import { hasHouseholdPermission } from "@/lib/permissions";
+import { cn } from "@/lib/utils";
+
+export interface ManageHouseholdAccessViewProps {
+  /** Household role of the current user; only the owner invites people and changes roles */
+  readonly role?: HouseholdRole;
+}
+
+interface OperationResultBannerProps {
+  readonly result: OperationResult;
+  readonly onClose: () => void;
+}
+
+const OperationResultBanner = ({ result, onClose }: OperationResultBannerProps) => (
+  <div
+    role={result.status === "success" ? "status" : "alert"}
+    aria-live={result.status === "success" ? "polite" : "assertive"}
+    className={cn(
+      "flex items-center gap-3 rounded-md border px-4 py-3",
+      result.status === "success"
+        ? "border-emerald-200 bg-emerald-50 text-emerald-900"
+        : "border-destructive bg-destructive/10 text-destructive"
+    )}
+  >
+    {result.status === "success" ? (
+      <CheckCircle2 className="h-5 w-5 flex-shrink-0" aria-hidden="true" />
+    ) : (
+      <AlertCircle className="h-5 w-5 flex-shrink-0" aria-hidden="true" />
+    )}
+    <p className="flex-1 text-sm">{result.message}</p>
+    <button
+      onClick={onClose}
+      className="text-sm font-medium underline-offset-4 hover:underline"
+      aria-label="Zamknij powiadomienie"
+    >
+      Zamknij
+    </button>
+  </div>
+);
+
+/**
+ * Main view for sharing the household with other accounts.
+ * Lists accounts with access and their roles, creates invitation links, lists invitations and revokes pending ones.
+ */
+export const ManageHouseholdAccessView = ({ role }: ManageHouseholdAccessViewProps) => {
+  const canManage = hasHouseholdPermission(role, "household:manage");
+  const {
+    users,
+    isLoading: isLoadingUsers,
+    error: usersError,
+    operationResult: usersOperationResult,
+    updateUserRole,
+    retry: retryUsers,
+    clearOperationResult: clearUsersOperationResult,
+  } = useHouseholdUsers();
+
+  const {
+    invitations,
+    isLoading,
+    error,
+    operationResult,
+    createInvitation,
+    revokeInvitation,
+    retry,
+    clearOperationResult,
+  } = useHouseholdInvitations();
+
+  const [isFormDialogOpen, setIsFormDialogOpen] = useState(false);
+  const [isRevokeDialogOpen, setIsRevokeDialogOpen] = useState(false);
+  const [selectedItem, setSelectedItem] = useState<HouseholdInvitationDto | null>(null);
+  const [createdInvitation, setCreatedInvitation] = useState<HouseholdInvitationCreatedDto | null>(null);
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleOpenCreateDialog = useCallback(() => {
+    setCreatedInvitation(null);
+    setIsLinkCopied(false);
+    setFormError(null);
+    setIsFormDialogOpen(true);
+  }, []);
+
+  const handleOpenRevokeDialog = useCallback((item: HouseholdInvitationDto) => {
+    setSelectedItem(item);
+    setIsRevokeDialogOpen(true);
+  }, []);
+
+  const handleCloseFormDialog = useCallback(() => {
+    setIsFormDialogOpen(false);
+    setCreatedInvitation(null);
+    setFormError(null);
+  }, []);
+
+  const handleFormSubmit = useCallback(
+    async (data: CreateHouseholdInvitationCommand) => {
+      try {
+        // The dialog stays open to show the link, which is not available later
+        setCreatedInvitation(await createInvitation(data));
+      } catch (error) {
+        // Error is already set in the hook's operationResult
+        const errorMessage =
+          typeof error === "object" && error !== null && "message" in error
+            ? String((error as { message?: unknown }).message)
+            : null;
+        setFormError(errorMessage);
+      }
+    },
+    [createInvitation]
+  );
+
+  const handleCopyLink = useCallback(async () => {
+    if (!createdInvitation) return;
+
+    try {
+      await navigator.clipboard.writeText(createdInvitation.acceptUrl);
+      setIsLinkCopied(true);
+    } catch (error) {
+      console.error("Failed to copy invitation link", error);
+    }
+  }, [createdInvitation]);
+
+  const handleRevoke = useCallback(async () => {
+    if (!selectedItem) return;
+
+    await revokeInvitation(selectedItem.id);
+    setSelectedItem(null);
+  }, [revokeInvitation, selectedItem]);
+
+  const handleRoleChange = useCallback(
+    (user: HouseholdUserDto, newRole: AssignableHouseholdRole) => {
+      void updateUserRole(user.userId, newRole);
+    },
+    [updateUserRole]
+  );
+
+  const handleRetry = useCallback(() => {
+    void retry();
+    void retryUsers();
+  }, [retry, retryUsers]);
+
+  // Loading state
+  if (isLoading || isLoadingUsers) {
+    return (
+      <div className="container mx-auto max-w-2xl space-y-6 p-4 md:p-6">
+        <div className="space-y-2">
+          <Skeleton className="h-8 w-48" />
+          <Skeleton className="h-4 w-96" />
+        </div>
+        <Skeleton className="h-10 w-40" />
+        <div className="space-y-3">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <Skeleton key={i} className="h-20 w-full" />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  // Error state
+  const loadError = error ?? usersError;
+  if (loadError) {
+    return (
+      <div className="container mx-auto max-w-2xl p-4 md:p-6">
+        <div className="flex min-h-[60vh] flex-col items-center justify-center gap-6 text-center">
+          <div className="space-y-2">
+            <h1 className="text-2xl font-semibold">Nie udało się załadować danych</h1>
+            <p className="text-sm text-muted-foreground">{loadError.message}</p>
+          </div>
+          <Button variant="outline" onClick={handleRetry}>
+            Spróbuj ponownie
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const isEmpty = invitations.length === 0;
+
+  return (
+    <div className="container mx-auto max-w-2xl space-y-6 p-4 md:p-6">
+      {/* Header */}
+      <header className="space-y-2">
+        <h1 className="text-3xl font-bold tracking-tight">Dostęp do gospodarstwa</h1>
+        <p className="text-muted-foreground">
+          Zaproś inne osoby, aby wspólnie prowadzić budżet. Osoba zaproszona loguje się lub zakłada konto na podany
+          adres e-mail i otwiera otrzymany link. Edytor zarządza budżetami i ustawieniami, a obserwator przegląda dane i
+          dodaje własne wydatki.
+        </p>
+      </header>
+
+      {/* Operation result banners */}
+      {usersOperationResult && (
+        <OperationResultBanner result={usersOperationResult} onClose={clearUsersOperationResult} />
+      )}
+      {operationResult && <OperationResultBanner result={operationResult} onClose={clearOperationResult} />}
+
+      {/* Accounts with access */}
+      <section className="space-y-3" aria-labelledby="household-users-heading">
+        <h2 id="household-users-heading" className="text-lg font-semibold">
+          Osoby z dostępem
+        </h2>
+        <ul className="space-y-3">
+          {users.map((user) => (
+            <HouseholdUserListItem
+              key={user.userId}
+              user={user}
+              onRoleChange={canManage ? handleRoleChange : undefined}
+            />
+          ))}
+        </ul>
+      </section>
+
+      {/* Invitations */}
+      <section className="space-y-3" aria-labelledby="household-invitations-heading">
+        <h2 id="household-invitations-heading" className="text-lg font-semibold">
+          Zaproszenia
+        </h2>
+
+        {canManage && (
+          <div>
+            <Button onClick={handleOpenCreateDialog}>
+              <UserPlus className="mr-2 h-4 w-4" aria-hidden="true" />
+              Zaproś osobę
+            </Button>
+          </div>
+        )}
+
+        {isEmpty ? (
+          <SettingsEmptyState
+            title="Brak zaproszeń"
+            description={
+              canManage
+                ? "Zaproś domownika, aby miał dostęp do budżetów i transakcji gospodarstwa."
+                : "Zapraszać inne osoby może tylko właściciel gospodarstwa."
+            }
+            actionLabel={canManage ? "Zaproś osobę" : undefined}
+            onAction={canManage ? handleOpenCreateDialog : undefined}
+            icon={Mail}
+          />
+        ) : (
+          <ul className="space-y-3">
+            {invitations.map((item) => (
+              <HouseholdInvitationListItem
+                key={item.id}
+                invitation={item}
+                onRevoke={canManage ? handleOpenRevokeDialog : undefined}
+              />
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {/* Form Dialog */}
+      <Dialog
+        open={isFormDialogOpen}
+        onOpenChange={(open) => (open ? setIsFormDialogOpen(true) : handleCloseFormDialog())}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{createdInvitation ? "Link z zaproszeniem" : "Zaproś osobę"}</DialogTitle>
+            <DialogDescription>
+              {createdInvitation
+                ? `Przekaż ten link osobie z adresem ${createdInvitation.email}. Link jest ważny 7 dni i nie będzie już wyświetlany.`
+                : "Zaproszenie może przyjąć tylko konto z podanym adresem e-mail."}
+            </DialogDescription>
+          </DialogHeader>
+          {createdInvitation ? (
+            <div className="space-y-4">
+              <div className="flex gap-2">
+                <Input value={createdInvitation.acceptUrl} readOnly aria-label="Link z zaproszeniem" />
+                <Button type="button" variant="outline" onClick={handleCopyLink}>
+                  {isLinkCopied ? (
+                    <Check className="mr-2 h-4 w-4" aria-hidden="true" />
+                  ) : (
+                    <Copy className="mr-2 h-4 w-4" aria-hidden="true" />
+                  )}
+                  {isLinkCopied ? "Skopiowano" : "Kopiuj"}
+                </Button>
+              </div>
+              <DialogFooter>
+                <Button type="button" onClick={handleCloseFormDialog}>
+                  Gotowe
+                </Button>
+              </DialogFooter>
+            </div>
+          ) : (
+            <HouseholdInvitationForm
+              onSubmit={handleFormSubmit}
+              onCancel={handleCloseFormDialog}
+              formError={formError}
+              onClearError={() => setFormError(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Revoke Confirmation Dialog */}
+      <ConfirmationDialog
+        open={isRevokeDialogOpen}
+        onOpenChange={setIsRevokeDialogOpen}
+        title="Odwołaj zaproszenie"
+        description="Czy na pewno chcesz odwołać to zaproszenie? Link przestanie działać."
+        confirmLabel="Odwołaj"
+        cancelLabel="Anuluj"
+        variant="destructive"
+        onConfirm={handleRevoke}
+      />
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import { useCallback, useState } from "react";
+import { useCallback, useMemo, useState } from "react";
 import { Plus, AlertCircle, CheckCircle2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
@@ -8,12 +8,14 @@ import { SettingsEmptyState } from "./SettingsEmptyState";
 import { HouseholdMemberForm } from "./HouseholdMemberForm";
 import { HouseholdMembersList } from "./HouseholdMembersList";
 import { useHouseholdMembers } from "./useHouseholdMembers";
+import { useHouseholdUsers } from "./useHouseholdUsers";
 import type { HouseholdMemberVM, CreateHouseholdMemberCommand, UpdateHouseholdMemberCommand } from "./types";
 import { cn } from "@/lib/utils";
 
 /**
  * Main view for managing household members.
  * Handles CRUD operations with dialogs and displays operation results.
+ * Members can be linked to the accounts with access to the household.
  */
 export const ManageHouseholdMembersView = () => {
   const {
@@ -31,12 +33,25 @@ export const ManageHouseholdMembersView = () => {
     retry,
     clearOperationResult,
   } = useHouseholdMembers();
+  // Accounts only extend the form and the list, so failing to load them leaves the view usable
+  const { users } = useHouseholdUsers();
 
   const [isFormDialogOpen, setIsFormDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [selectedMember, setSelectedMember] = useState<HouseholdMemberVM | null>(null);
   const [formError, setFormError] = useState<string | null>(null);
 
+  const accountEmails = useMemo(() => new Map(users.map((user) => [user.userId, user.email])), [users]);
+
+  // An account can be linked to a single member, so accounts of other members are not offered
+  const availableAccounts = useMemo(
+    () =>
+      users.filter(
+        (user) => !members.some((member) => member.userId === user.userId && member.id !== selectedMember?.id)
+      ),
+    [members, selectedMember, users]
+  );
+
   const handleOpenCreateDialog = useCallback(() => {
     setSelectedMember(null);
     setFormError(null);
@@ -194,6 +209,7 @@ export const ManageHouseholdMembersView = () => {
       ) : (
         <HouseholdMembersList
           members={members}
+          accountEmails={accountEmails}
           meta={meta}
           isLoadingMore={isLoadingMore}
           onEdit={handleOpenEditDialog}
@@ -214,6 +230,7 @@ export const ManageHouseholdMembersView = () => {
           </DialogHeader>
           <HouseholdMemberForm
             member={selectedMember ?? undefined}
+            accounts={availableAccounts}
             onSubmit={handleFormSubmit}
             onCancel={handleCloseFormDialog}
             formError={formError}
@@ -0,0 +1,244 @@
+import { useCallback, useState } from "react";
+import { Plus, AlertCircle, CheckCircle2, Repeat } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ConfirmationDialog } from "./ConfirmationDialog";
+import { SettingsEmptyState } from "./SettingsEmptyState";
+import { RecurringTransactionForm } from "./RecurringTransactionForm";
+import { RecurringTransactionListItem } from "./RecurringTransactionListItem";
+import { useRecurringTransactions } from "./useRecurringTransactions";
+import type {
+  CreateRecurringTransactionCommand,
+  RecurringTransactionVM,
+  UpdateRecurringTransactionCommand,
+} from "./types";
+import { cn } from "@/lib/utils";
+
+/**
+ * Main view for managing recurring transactions (rent, subscriptions, bills).
+ * Handles CRUD operations with dialogs, pausing rules and displays operation results.
+ */
+export const ManageRecurringTransactionsView = () => {
+  const {
+    recurringTransactions,
+    categories,
+    isLoading,
+    error,
+    operationResult,
+    createRecurringTransaction,
+    updateRecurringTransaction,
+    deleteRecurringTransaction,
+    retry,
+    clearOperationResult,
+  } = useRecurringTransactions();
+
+  const [isFormDialogOpen, setIsFormDialogOpen] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [selectedItem, setSelectedItem] = useState<RecurringTransactionVM | null>(null);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const handleOpenCreateDialog = useCallback(() => {
+    setSelectedItem(null);
+    setFormError(null);
+    setIsFormDialogOpen(true);
+  }, []);
+
+  const handleOpenEditDialog = useCallback((item: RecurringTransactionVM) => {
+    setSelectedItem(item);
+    setFormError(null);
+    setIsFormDialogOpen(true);
+  }, []);
+
+  const handleOpenDeleteDialog = useCallback((item: RecurringTransactionVM) => {
+    setSelectedItem(item);
+    setIsDeleteDialogOpen(true);
+  }, []);
+
+  const handleCloseFormDialog = useCallback(() => {
+    setIsFormDialogOpen(false);
+    setSelectedItem(null);
+    setFormError(null);
+  }, []);
+
+  const handleFormSubmit = useCallback(
+    async (data: CreateRecurringTransactionCommand | UpdateRecurringTransactionCommand) => {
+      try {
+        if (selectedItem) {
+          await updateRecurringTransaction(selectedItem.id, data as UpdateRecurringTransactionCommand);
+        } else {
+          await createRecurringTransaction(data as CreateRecurringTransactionCommand);
+        }
+        handleCloseFormDialog();
+      } catch (error) {
+        // Error is already set in the hook's operationResult
+        const errorMessage =
+          typeof error === "object" && error !== null && "message" in error
+            ? String((error as { message?: unknown }).message)
+            : null;
+        setFormError(errorMessage);
+      }
+    },
+    [createRecurringTransaction, handleCloseFormDialog, selectedItem, updateRecurringTransaction]
+  );
+
+  const handleToggleActive = useCallback(
+    (item: RecurringTransactionVM) => {
+      updateRecurringTransaction(item.id, { isActive: !item.isActive }).catch(() => {
+        // Error is already set in the hook's operationResult
+      });
+    },
+    [updateRecurringTransaction]
+  );
+
+  const handleDelete = useCallback(async () => {
+    if (!selectedItem) return;
+
+    await deleteRecurringTransaction(selectedItem.id);
+    setSelectedItem(null);
+  }, [deleteRecurringTransaction, selectedItem]);
+
+  const handleRetry = useCallback(() => {
+    void retry();
+  }, [retry]);
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <div className="container mx-auto max-w-2xl space-y-6 p-4 md:p-6">
+        <div className="space-y-2">
+          <Skeleton className="h-8 w-48" />
+          <Skeleton className="h-4 w-96" />
+        </div>
+        <Skeleton className="h-10 w-40" />
+        <div className="space-y-3">
+          {Array.from({ length: 3 }).map((_, i) => (
+            <Skeleton key={i} className="h-20 w-full" />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  // Error state
+  if (error) {
+    return (
+      <div className="container mx-auto max-w-2xl p-4 md:p-6">
+        <div className="flex min-h-[60vh] flex-col items-center justify-center gap-6 text-center">
+          <div className="space-y-2">
+            <h1 className="text-2xl font-semibold">Nie udało się załadować danych</h1>
+            <p className="text-sm text-muted-foreground">{error.message}</p>
+          </div>
+          <Button variant="outline" onClick={handleRetry}>
+            Spróbuj ponownie
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const isEmpty = recurringTransactions.length === 0;
+
+  return (
+    <div className="container mx-auto max-w-2xl space-y-6 p-4 md:p-6">
+      {/* Header */}
+      <header className="space-y-2">
+        <h1 className="text-3xl font-bold tracking-tight">Płatności cykliczne</h1>
+        <p className="text-muted-foreground">
+          Stałe wydatki, takie jak czynsz czy abonamenty, są dodawane automatycznie w dniu płatności
+        </p>
+      </header>
+
+      {/* Operation result banner */}
+      {operationResult && (
+        <div
+          role={operationResult.status === "success" ? "status" : "alert"}
+          aria-live={operationResult.status === "success" ? "polite" : "assertive"}
+          className={cn(
+            "flex items-center gap-3 rounded-md border px-4 py-3",
+            operationResult.status === "success"
+              ? "border-emerald-200 bg-emerald-50 text-emerald-900"
+              : "border-destructive bg-destructive/10 text-destructive"
+          )}
+        >
+          {operationResult.status === "success" ? (
+            <CheckCircle2 className="h-5 w-5 flex-shrink-0" aria-hidden="true" />
+          ) : (
+            <AlertCircle className="h-5 w-5 flex-shrink-0" aria-hidden="true" />
+          )}
+          <p className="flex-1 text-sm">{operationResult.message}</p>
+          <button
+            onClick={clearOperationResult}
+            className="text-sm font-medium underline-offset-4 hover:underline"
+            aria-label="Zamknij powiadomienie"
+          >
+            Zamknij
+          </button>
+        </div>
+      )}
+
+      {/* Add button */}
+      <div>
+        <Button onClick={handleOpenCreateDialog}>
+          <Plus className="mr-2 h-4 w-4" aria-hidden="true" />
+          Dodaj płatność cykliczną
+        </Button>
+      </div>
+
+      {/* Content */}
+      {isEmpty ? (
+        <SettingsEmptyState
+          title="Brak płatności cyklicznych"
+          description="Dodaj stałe opłaty, aby nie wprowadzać ich ręcznie co miesiąc."
+          actionLabel="Dodaj płatność cykliczną"
+          onAction={handleOpenCreateDialog}
+          icon={Repeat}
+        />
+      ) : (
+        <ul className="space-y-3">
+          {recurringTransactions.map((item) => (
+            <RecurringTransactionListItem
+              key={item.id}
+              recurringTransaction={item}
+              onEdit={handleOpenEditDialog}
+              onToggleActive={handleToggleActive}
+              onDelete={handleOpenDeleteDialog}
+            />
+          ))}
+        </ul>
+      )}
+
+      {/* Form Dialog */}
+      <Dialog open={isFormDialogOpen} onOpenChange={setIsFormDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selectedItem ? "Edytuj płatność cykliczną" : "Dodaj płatność cykliczną"}</DialogTitle>
+            <DialogDescription>
+              Transakcje są tworzone w budżecie miesiąca, w którym przypada płatność.
+            </DialogDescription>
+          </DialogHeader>
+          <RecurringTransactionForm
+            recurringTransaction={selectedItem ?? undefined}
+            categories={categories}
+            onSubmit={handleFormSubmit}
+            onCancel={handleCloseFormDialog}
+            formError={formError}
+            onClearError={() => setFormError(null)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <ConfirmationDialog
+        open={isDeleteDialogOpen}
+        onOpenChange={setIsDeleteDialogOpen}
+        title="Usuń płatność cykliczną"
+        description="Czy na pewno chcesz usunąć tę płatność cykliczną? Dodane wcześniej transakcje pozostaną bez zmian."
+        confirmLabel="Usuń"
+        cancelLabel="Anuluj"
+        variant="destructive"
+        onConfirm={handleDelete}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,350 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import { pl } from "date-fns/locale";
+import { CalendarIcon, Loader2 } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { DialogFooter } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import type { CategoryDto } from "@/types";
+import type {
+  CreateRecurringTransactionCommand,
+  RecurringTransactionFormValues,
+  RecurringTransactionVM,
+  UpdateRecurringTransactionCommand,
+} from "./types";
+
+export interface RecurringTransactionFormProps {
+  readonly recurringTransaction?: RecurringTransactionVM;
+  readonly categories: readonly CategoryDto[];
+  readonly onSubmit: (data: CreateRecurringTransactionCommand | UpdateRecurringTransactionCommand) => Promise<void>;
+  readonly onCancel: () => void;
+  readonly formError?: string | null;
+  readonly onClearError?: () => void;
+}
+
+const AMOUNT_REGEX = /^\d+(?:\.\d{1,2})?$/;
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+export const FREQUENCY_LABELS: Record<RecurringTransactionFormValues["frequency"], string> = {
+  monthly: "Co miesiąc",
+  weekly: "Co tydzień",
+  custom: "Co określoną liczbę dni",
+};
+
+const formSchema = z
+  .object({
+    categoryId: z.string().uuid({ message: "Wybierz poprawną kategorię." }),
+    amount: z
+      .string()
+      .min(1, "Kwota jest wymagana.")
+      .refine((value) => AMOUNT_REGEX.test(value), "Kwota może mieć maksymalnie dwa miejsca po przecinku.")
+      .refine((value) => Number(value) > 0, "Kwota musi być większa od zera."),
+    frequency: z.enum(["monthly", "weekly", "custom"]),
+    intervalDays: z.string(),
+    startDate: z.string().regex(DATE_REGEX, "Wybierz datę pierwszej płatności."),
+    endDate: z.string().refine((value) => value === "" || DATE_REGEX.test(value), "Podaj poprawną datę."),
+    note: z.string().max(500, "Notatka nie może przekraczać 500 znaków."),
+  })
+  .refine(
+    (values) =>
+      values.frequency !== "custom" ||
+      (/^\d+$/.test(values.intervalDays) && Number(values.intervalDays) >= 1 && Number(values.intervalDays) <= 366),
+    { message: "Podaj liczbę dni od 1 do 366.", path: ["intervalDays"] }
+  )
+  .refine((values) => values.endDate === "" || values.endDate >= values.startDate, {
+    message: "Data zakończenia nie może być wcześniejsza niż data rozpoczęcia.",
+    path: ["endDate"],
+  });
+
+const formatDateLabel = (value: string, placeholder: string): string => {
+  if (!value) {
+    return placeholder;
+  }
+
+  return format(new Date(value), "PPP", { locale: pl });
+};
+
+/**
+ * Form for creating and editing recurring transactions.
+ * Uses react-hook-form with zod validation.
+ */
+export const RecurringTransactionForm = ({
+  recurringTransaction,
+  categories,
+  onSubmit,
+  onCancel,
+  formError,
+  onClearError,
+}: RecurringTransactionFormProps) => {
+  const isEditMode = !!recurringTransaction;
+
+  // Archived categories cannot be chosen, but the one already assigned stays visible
+  const categoryOptions = useMemo(
+    () => categories.filter((category) => !category.isArchived || category.id === recurringTransaction?.categoryId),
+    [categories, recurringTransaction?.categoryId]
+  );
+
+  const form = useForm<RecurringTransactionFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      categoryId: recurringTransaction?.categoryId ?? "",
+      amount: recurringTransaction ? recurringTransaction.amount.toFixed(2) : "",
+      frequency: recurringTransaction?.frequency ?? "monthly",
+      intervalDays: recurringTransaction?.intervalDays?.toString() ?? "",
+      startDate: recurringTransaction?.startDate ?? format(new Date(), "yyyy-MM-dd"),
+      endDate: recurringTransaction?.endDate ?? "",
+      note: recurringTransaction?.note ?? "",
+    },
+  });
+
+  const isSubmitting = form.formState.isSubmitting;
+  const [localError, setLocalError] = useState<string | null>(null);
+  const [openCalendar, setOpenCalendar] = useState<"startDate" | "endDate" | null>(null);
+  const frequencyValue = form.watch("frequency");
+
+  // Clear errors when form values change
+  useEffect(() => {
+    const subscription = form.watch(() => {
+      setLocalError(null);
+      onClearError?.();
+    });
+    return () => subscription.unsubscribe();
+  }, [form, onClearError]);
+
+  const onFormSubmit = useCallback(
+    async (values: RecurringTransactionFormValues) => {
+      setLocalError(null);
+      onClearError?.();
+
+      const amount = Number(Number(values.amount).toFixed(2));
+      const intervalDays = values.frequency === "custom" ? Number(values.intervalDays) : null;
+      const endDate = values.endDate === "" ? null : values.endDate;
+      const note = values.note.trim() === "" ? null : values.note.trim();
+
+      try {
+        if (isEditMode) {
+          const changes: Record<string, unknown> = {};
+
+          if (values.categoryId !== recurringTransaction.categoryId) changes.categoryId = values.categoryId;
+          if (amount !== recurringTransaction.amount) changes.amount = amount;
+          if (values.frequency !== recurringTransaction.frequency) changes.frequency = values.frequency;
+          if (intervalDays !== recurringTransaction.intervalDays) changes.intervalDays = intervalDays;
+          if (values.startDate !== recurringTransaction.startDate) changes.startDate = values.startDate;
+          if (endDate !== recurringTransaction.endDate) changes.endDate = endDate;
+          if (note !== recurringTransaction.note) changes.note = note;
+
+          if (Object.keys(changes).length === 0) {
+            setLocalError("Wprowadź zmiany przed zapisaniem.");
+            return;
+          }
+
+          await onSubmit(changes as UpdateRecurringTransactionCommand);
+        } else {
+          const payload: CreateRecurringTransactionCommand = {
+            categoryId: values.categoryId,
+            amount,
+            frequency: values.frequency,
+            intervalDays,
+            startDate: values.startDate,
+            endDate,
+            note,
+          };
+          await onSubmit(payload);
+        }
+
+        form.reset(values);
+      } catch (error) {
+        console.error("Failed to submit recurring transaction form", error);
+        // Error is handled by parent component
+      }
+    },
+    [form, isEditMode, onClearError, onSubmit, recurringTransaction]
+  );
+
+  const displayError = formError || localError;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onFormSubmit)} className="space-y-4">
+        <FormField
+          name="categoryId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Kategoria</FormLabel>
+              <Select disabled={isSubmitting} onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger aria-label="Kategoria">
+                    <SelectValue placeholder="Wybierz kategorię" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {categoryOptions.map((category) => (
+                    <SelectItem key={category.id} value={category.id}>
+                      {category.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          name="amount"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Kwota</FormLabel>
+              <FormControl>
+                <Input
+                  {...field}
+                  inputMode="decimal"
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  placeholder="0.00"
+                  disabled={isSubmitting}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            name="frequency"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Powtarzanie</FormLabel>
+                <Select disabled={isSubmitting} onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger aria-label="Powtarzanie">
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {frequencyValue === "custom" && (
+            <FormField
+              name="intervalDays"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Co ile dni</FormLabel>
+                  <FormControl>
+                    <Input {...field} inputMode="numeric" type="number" min="1" max="366" disabled={isSubmitting} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          {(["startDate", "endDate"] as const).map((name) => (
+            <FormField
+              key={name}
+              name={name}
+              render={({ field }) => (
+                <FormItem className="flex flex-col">
+                  <FormLabel>{name === "startDate" ? "Pierwsza płatność" : "Koniec (opcjonalnie)"}</FormLabel>
+                  <Popover
+                    open={openCalendar === name}
+                    onOpenChange={(isOpen) => setOpenCalendar(isOpen ? name : null)}
+                  >
+                    <PopoverTrigger asChild>
+                      <FormControl>
+                        <Button
+                          variant="outline"
+                          type="button"
+                          className={cn("justify-start text-left font-normal", !field.value && "text-muted-foreground")}
+                          disabled={isSubmitting}
+                        >
+                          {formatDateLabel(field.value, name === "startDate" ? "Wybierz datę" : "Bez końca")}
+                          <CalendarIcon className="ml-auto size-4 opacity-50" />
+                        </Button>
+                      </FormControl>
+                    </PopoverTrigger>
+                    <PopoverContent align="start" className="p-0">
+                      <Calendar
+                        mode="single"
+                        selected={field.value ? new Date(field.value) : undefined}
+                        onSelect={(date) => {
+                          field.onChange(date ? format(date, "yyyy-MM-dd") : "");
+                          setOpenCalendar(null);
+                        }}
+                        locale={pl}
+                      />
+                    </PopoverContent>
+                  </Popover>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+
+        <FormField
+          name="note"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notatka (opcjonalnie)</FormLabel>
+              <FormControl>
+                <Textarea {...field} rows={3} maxLength={500} placeholder="np. Czynsz" disabled={isSubmitting} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {displayError && (
+          <div
+            role="alert"
+            className="rounded-md border border-destructive bg-destructive/10 px-4 py-3 text-sm text-destructive"
+          >
+            {displayError}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+            Anuluj
+          </Button>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
+                Zapisywanie...
+              </>
+            ) : isEditMode ? (
+              "Zapisz zmiany"
+            ) : (
+              "Dodaj płatność"
+            )}
+          </Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+};
@@ -0,0 +1,99 @@
+import { Pause, Pencil, Play, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { formatCurrency } from "@/lib/formatters";
+import { cn } from "@/lib/utils";
+import { FREQUENCY_LABELS } from "./RecurringTransactionForm";
+import type { RecurringTransactionVM } from "./types";
+
+export interface RecurringTransactionListItemProps {
+  readonly recurringTransaction: RecurringTransactionVM;
+  readonly onEdit: (recurringTransaction: RecurringTransactionVM) => void;
+  readonly onToggleActive: (recurringTransaction: RecurringTransactionVM) => void;
+  readonly onDelete: (recurringTransaction: RecurringTransactionVM) => void;
+}
+
+const DATE_FORMATTER = new Intl.DateTimeFormat("pl-PL", {
+  day: "numeric",
+  month: "long",
+  year: "numeric",
+});
+
+const formatDate = (value: string): string => DATE_FORMATTER.format(new Date(value));
+
+const describeSchedule = (item: RecurringTransactionVM): string => {
+  if (item.frequency === "custom") {
+    return `Co ${item.intervalDays} dni`;
+  }
+
+  return FREQUENCY_LABELS[item.frequency];
+};
+
+/**
+ * Single recurring transaction list item with schedule summary and actions.
+ */
+export const RecurringTransactionListItem = ({
+  recurringTransaction,
+  onEdit,
+  onToggleActive,
+  onDelete,
+}: RecurringTransactionListItemProps) => {
+  const label = recurringTransaction.note ?? recurringTransaction.categoryName;
+  const isFinished = !!recurringTransaction.endDate && recurringTransaction.nextRunDate > recurringTransaction.endDate;
+
+  let statusLabel = `Następna płatność: ${formatDate(recurringTransaction.nextRunDate)}`;
+  if (!recurringTransaction.isActive) {
+    statusLabel = "Wstrzymana";
+  } else if (isFinished) {
+    statusLabel = "Zakończona";
+  }
+
+  return (
+    <li
+      className={cn(
+        "flex items-center justify-between gap-4 rounded-lg border border-border bg-card p-4 transition-colors hover:bg-accent/50",
+        (!recurringTransaction.isActive || isFinished) && "opacity-70"
+      )}
+    >
+      <div className="flex-1 space-y-1">
+        <div className="flex flex-wrap items-baseline justify-between gap-2">
+          <span className="font-medium">{label}</span>
+          <span className="font-semibold">{formatCurrency(recurringTransaction.amount)}</span>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {recurringTransaction.categoryName} · {describeSchedule(recurringTransaction)}
+        </p>
+        <p className="text-xs text-muted-foreground">{statusLabel}</p>
+      </div>
+      <div className="flex items-center gap-2">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => onToggleActive(recurringTransaction)}
+          aria-label={recurringTransaction.isActive ? `Wstrzymaj płatność ${label}` : `Wznów płatność ${label}`}
+        >
+          {recurringTransaction.isActive ? (
+            <Pause className="h-4 w-4" aria-hidden="true" />
+          ) : (
+            <Play className="h-4 w-4" aria-hidden="true" />
+          )}
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => onEdit(recurringTransaction)}
+          aria-label={`Edytuj płatność ${label}`}
+        >
+          <Pencil className="h-4 w-4" aria-hidden="true" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => onDelete(recurringTransaction)}
+          aria-label={`Usuń płatność ${label}`}
+        >
+          <Trash2 className="h-4 w-4 text-destructive" aria-hidden="true" />
+        </Button>
+      </div>
+    </li>
+  );
+};
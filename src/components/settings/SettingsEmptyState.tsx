@@ -5,14 +5,15 @@ import { Plus } from "lucide-react";
 export interface SettingsEmptyStateProps {
   readonly title: string;
   readonly description: string;
-  readonly actionLabel: string;
-  readonly onAction: () => void;
+  readonly actionLabel?: string;
+  /** Called by the call-to-action button, which is hidden when not provided */
+  readonly onAction?: () => void;
   readonly icon?: ComponentType<{ className?: string }>;
 }
 
 /**
  * Empty state component for settings lists.
- * Displays when no items exist with a call-to-action button.
+ * Displays when no items exist with an optional call-to-action button.
  */
 export const SettingsEmptyState = ({
   title,
@@ -31,9 +32,11 @@ export const SettingsEmptyState = ({
         <p className="text-sm text-muted-foreground">{description}</p>
       </div>
     </div>
-    <Button onClick={onAction}>
-      <Plus className="mr-2 h-4 w-4" aria-hidden="true" />
-      {actionLabel}
-    </Button>
+    {onAction && (
+      <Button onClick={onAction}>
+        <Plus className="mr-2 h-4 w-4" aria-hidden="true" />
+        {actionLabel}
+      </Button>
+    )}
   </div>
 );
@@ -1,14 +1,22 @@
 import { useCallback } from "react";
-import { Users, FolderOpen, UserCircle } from "lucide-react";
+import { Bell, Users, FolderOpen, Repeat, UserCircle, UserPlus, Wand2 } from "lucide-react";
 import { SettingsNavItem } from "./SettingsNavItem";
 import { useToast, showToast } from "@/components/ui/toast";
+import { hasHouseholdPermission } from "@/lib/permissions";
+import type { HouseholdRole } from "@/types";
 import type { SettingsNavItemData } from "./types";
 
+export interface SettingsViewProps {
+  /** Household role of the current user; sections the role does not allow are hidden */
+  readonly role?: HouseholdRole;
+}
+
 /**
  * Main settings view displaying navigation to subsections.
- * Provides access to household members, categories, and profile settings.
+ * Provides access to household members, categories, recurring transactions, categorization rules, household access,
+ * and profile settings.
  */
-export const SettingsView = () => {
+export const SettingsView = ({ role }: SettingsViewProps) => {
   const { ToastPortal } = useToast();
 
   const handleProfileClick = useCallback(() => {
@@ -24,12 +32,41 @@ export const SettingsView = () => {
       label: "Domownicy",
       icon: Users,
       description: "Zarządzaj członkami gospodarstwa domowego",
+      permission: "settings:edit",
     },
     {
       href: "/settings/categories",
       label: "Kategorie",
       icon: FolderOpen,
       description: "Zarządzaj kategoriami wydatków",
+      permission: "settings:edit",
+    },
+    {
+      href: "/settings/alerts",
+      label: "Alerty budżetowe",
+      icon: Bell,
+      description: "Progi ostrzeżeń i alerty tempa wydatków dla kategorii",
+      permission: "household:manage",
+    },
+    {
+      href: "/settings/recurring",
+      label: "Płatności cykliczne",
+      icon: Repeat,
+      description: "Czynsz, abonamenty i inne stałe opłaty dodawane automatycznie",
+      permission: "settings:edit",
+    },
+    {
+      href: "/settings/rules",
+      label: "Reguły kategoryzacji",
+      icon: Wand2,
+      description: "Automatyczny wybór kategorii na podstawie notatki, np. „Biedronka” → Jedzenie",
+      permission: "settings:edit",
+    },
+    {
+      href: "/settings/access",
+      label: "Dostęp do gospodarstwa",
+      icon: UserPlus,
+      description: "Zaproś inne osoby do wspólnego prowadzenia budżetu",
     },
     {
       label: "Profil",
@@ -49,16 +86,18 @@ export const SettingsView = () => {
 
         <nav aria-label="Sekcje ustawień">
           <ul className="space-y-3">
-            {navItems.map((item) => (
-              <SettingsNavItem
-                key={item.href || item.label}
-                href={item.href}
-                label={item.label}
-                icon={item.icon}
-                description={item.description}
-                onClick={item.onClick}
-              />
-            ))}
+            {navItems
+              .filter((item) => !item.permission || hasHouseholdPermission(role, item.permission))
+              .map((item) => (
+                <SettingsNavItem
+                  key={item.href || item.label}
+                  href={item.href}
+                  label={item.label}
+                  icon={item.icon}
+                  description={item.description}
+                  onClick={item.onClick}
+                />
+              ))}
           </ul>
         </nav>
       </div>
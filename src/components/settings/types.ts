@@ -1,11 +1,22 @@
 import type { ComponentType } from "react";
+import type { HouseholdPermission } from "@/lib/permissions";
 import type {
   HouseholdMemberDto,
   CategoryDto,
+  CategoryGroup,
   CreateHouseholdMemberCommand,
   UpdateHouseholdMemberCommand,
   CreateCategoryCommand,
   UpdateCategoryCommand,
+  RecurringTransactionDto,
+  RecurringTransactionFrequency,
+  CreateRecurringTransactionCommand,
+  UpdateRecurringTransactionCommand,
+  CategorizationRuleDto,
+  CreateCategorizationRuleCommand,
+  UpdateCategorizationRuleCommand,
+  CreateHouseholdInvitationCommand,
+  AssignableHouseholdRole,
 } from "@/types";
 
 /**
@@ -24,6 +35,20 @@ export interface CategoryVM extends CategoryDto {
   // Possible future extensions: hasTransactions, transactionCount
 }
 
+/**
+ * ViewModel for recurring transaction (DTO enriched with category name for display)
+ */
+export interface RecurringTransactionVM extends RecurringTransactionDto {
+  readonly categoryName: string;
+}
+
+/**
+ * ViewModel for categorization rule (DTO enriched with category name for display)
+ */
+export interface CategorizationRuleVM extends CategorizationRuleDto {
+  readonly categoryName: string;
+}
+
 /**
  * Navigation item data for settings sections
  */
@@ -33,6 +58,8 @@ export interface SettingsNavItemData {
   readonly icon: ComponentType<{ className?: string }>;
   readonly description: string;
   readonly onClick?: () => void;
+  /** Operation the section is for; the section is hidden from users whose role does not allow it */
+  readonly permission?: HouseholdPermission;
 }
 
 /**
@@ -40,13 +67,67 @@ export interface SettingsNavItemData {
  */
 export interface HouseholdMemberFormValues {
   readonly fullName: string;
+  /** ID of the linked account, empty when the member has no account */
+  readonly userId: string;
+}
+
+/**
+ * Form values for alert settings, shared by the category form and the household alert settings.
+ * Numeric fields are strings for compatibility with react-hook-form inputs; empty strings mean "not set".
+ */
+export interface AlertSettingsFormValues {
+  readonly warningThreshold: string;
+  readonly overThreshold: string;
+  readonly paceAlertDay: string;
+  readonly paceAlertPercent: string;
 }
 
 /**
- * Form values for category
+ * Form values for category; empty alert settings use the household defaults
  */
-export interface CategoryFormValues {
+export interface CategoryFormValues extends AlertSettingsFormValues {
   readonly name: string;
+  /** Parent category ID, "none" for a top-level category */
+  readonly parentId: string;
+  /** Color as a #rrggbb hex string, empty for no color */
+  readonly color: string;
+  /** Icon key, "none" for the generic icon */
+  readonly icon: string;
+  readonly group: CategoryGroup;
+}
+
+/**
+ * Form values for recurring transaction.
+ * Numeric fields are strings for compatibility with react-hook-form inputs.
+ */
+export interface RecurringTransactionFormValues {
+  readonly categoryId: string;
+  readonly amount: string;
+  readonly frequency: RecurringTransactionFrequency;
+  readonly intervalDays: string;
+  readonly startDate: string;
+  readonly endDate: string;
+  readonly note: string;
+}
+
+/**
+ * Form values for categorization rule.
+ * Numeric fields are strings for compatibility with react-hook-form inputs.
+ */
+export interface CategorizationRuleFormValues {
+  readonly pattern: string;
+  readonly categoryId: string;
+  readonly priority: string;
+  readonly minAmount: string;
+  readonly maxAmount: string;
+}
+
+/**
+ * Form values for household invitation
+ */
+export interface HouseholdInvitationFormValues {
+  readonly email: string;
+  readonly role: AssignableHouseholdRole;
 }
 
 /**
@@ -78,4 +159,9 @@ export type {
   UpdateHouseholdMemberCommand,
   CreateCategoryCommand,
   UpdateCategoryCommand,
+  CreateRecurringTransactionCommand,
+  UpdateRecurringTransactionCommand,
+  CreateCategorizationRuleCommand,
+  UpdateCategorizationRuleCommand,
+  CreateHouseholdInvitationCommand,
 };
@@ -0,0 +1,203 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ApiErrorDto, HouseholdDto, UpdateHouseholdCommand } from "@/types";
+import type { OperationResult, SettingsError } from "./types";
+
+interface AlertSettingsState {
+  readonly household: HouseholdDto | null;
+  readonly isLoading: boolean;
+  readonly error: SettingsError | null;
+  readonly operationResult: OperationResult | null;
+}
+
+export interface UseAlertSettingsResult {
+  readonly household: HouseholdDto | null;
+  readonly isLoading: boolean;
+  readonly error: SettingsError | null;
+  readonly operationResult: OperationResult | null;
+  readonly saveAlertSettings: (data: UpdateHouseholdCommand) => Promise<void>;
+  readonly retry: () => Promise<void>;
+  readonly clearOperationResult: () => void;
+}
+
+interface HouseholdResponseDto {
+  readonly household: HouseholdDto;
+}
+
+const HOUSEHOLD_ENDPOINT = "/api/household";
+
+const ERROR_MESSAGES: Record<string, string> = {
+  UNAUTHENTICATED: "Sesja wygasła. Zaloguj się ponownie.",
+  PERMISSION_DENIED: "Twoja rola w gospodarstwie nie pozwala na tę operację.",
+  HOUSEHOLD_NOT_FOUND: "Nie znaleziono gospodarstwa domowego.",
+  INVALID_THRESHOLDS: "Próg ostrzeżenia nie może być wyższy niż próg przekroczenia.",
+  INVALID_PACE_ALERT: "Podaj zarówno dzień, jak i procent alertu tempa.",
+  HOUSEHOLD_FETCH_FAILED: "Nie udało się pobrać ustawień gospodarstwa.",
+  HOUSEHOLD_UPDATE_FAILED: "Nie udało się zapisać ustawień alertów.",
+};
+
+/**
+ * Custom hook for the default alert settings of the household.
+ * Categories without their own settings use these thresholds and pace alert.
+ */
+export const useAlertSettings = (): UseAlertSettingsResult => {
+  const [state, setState] = useState<AlertSettingsState>({
+    household: null,
+    isLoading: true,
+    error: null,
+    operationResult: null,
+  });
+
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const parseErrorResponse = useCallback(async (response: Response): Promise<SettingsError> => {
+    const status = response.status;
+    let payload: ApiErrorDto | undefined;
+
+    try {
+      const text = await response.text();
+      payload = text ? (JSON.parse(text) as ApiErrorDto) : undefined;
+    } catch (parseError) {
+      console.warn("Unable to parse API error", parseError);
+    }
+
+    const code = payload?.error.code;
+    const message = code && ERROR_MESSAGES[code] ? ERROR_MESSAGES[code] : (payload?.error.message ?? "Wystąpił błąd.");
+
+    return {
+      status,
+      message,
+      code,
+    };
+  }, []);
+
+  const loadData = useCallback(async () => {
+    abortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    setState((previous) => ({
+      ...previous,
+      isLoading: true,
+      error: null,
+    }));
+
+    try {
+      const response = await fetch(HOUSEHOLD_ENDPOINT, {
+        method: "GET",
+        signal: abortController.signal,
+        headers: { Accept: "application/json" },
+      });
+
+      if (!response.ok) {
+        throw await parseErrorResponse(response);
+      }
+
+      const payload = (await response.json()) as HouseholdResponseDto;
+
+      setState({
+        household: payload.household,
+        isLoading: false,
+        error: null,
+        operationResult: null,
+      });
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") {
+        return;
+      }
+
+      const settingsError =
+        typeof error === "object" && error !== null && "status" in error
+          ? (error as SettingsError)
+          : ({
+              status: 0,
+              message: "Wystąpił błąd połączenia. Spróbuj ponownie później.",
+            } satisfies SettingsError);
+
+      setState((previous) => ({
+        ...previous,
+        isLoading: false,
+        error: settingsError,
+      }));
+    }
+  }, [parseErrorResponse]);
+
+  useEffect(() => {
+    void loadData();
+
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, [loadData]);
+
+  const saveAlertSettings = useCallback(
+    async (data: UpdateHouseholdCommand) => {
+      try {
+        const response = await fetch(HOUSEHOLD_ENDPOINT, {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+            Accept: "application/json",
+          },
+          body: JSON.stringify(data),
+        });
+
+        if (!response.ok) {
+          throw await parseErrorResponse(response);
+        }
+
+        const payload = (await response.json()) as HouseholdResponseDto;
+
+        setState((previous) => ({
+          ...previous,
+          household: payload.household,
+          operationResult: {
+            type: "update",
+            status: "success",
+            message: "Ustawienia alertów zostały zapisane.",
+          },
+        }));
+      } catch (error) {
+        console.error("Failed to save alert settings", error);
+        const errorMessage =
+          typeof error === "object" && error !== null && "message" in error
+            ? String((error as { message?: unknown }).message) || "Nie udało się zapisać ustawień alertów."
+            : "Nie udało się zapisać ustawień alertów.";
+
+        setState((previous) => ({
+          ...previous,
+          operationResult: {
+            type: "update",
+            status: "error",
+            message: errorMessage,
+          },
+        }));
+        throw error;
+      }
+    },
+    [parseErrorResponse]
+  );
+
+  // Redirect to login on 401 error
+  useEffect(() => {
+    if (state.error?.status === 401) {
+      window.location.href = "/login";
+    }
+  }, [state.error]);
+
+  return {
+    household: state.household,
+    isLoading: state.isLoading,
+    error: state.error,
+    operationResult: state.operationResult,
+    saveAlertSettings,
+    retry: loadData,
+    clearOperationResult: useCallback(
+      () =>
+        setState((previous) => ({
+          ...previous,
+          operationResult: null,
+        })),
+      []
+    ),
+  };
+};
@@ -1,11 +1,15 @@
 import { useCallback, useEffect, useRef, useState } from "react";
+import { compareCategoryOrder } from "@/lib/category-appearance";
 import type {
   ApiErrorDto,
   CategoryDto,
+  CategoryDependenciesDto,
+  CategoryMergedDto,
   CategoriesListResponseDto,
   CreateCategoryCommand,
   UpdateCategoryCommand,
   PaginationMetaDto,
+  ReorderCategoriesCommand,
 } from "@/types";
 import type { CategoryVM, OperationResult, SettingsError } from "./types";
 
@@ -32,31 +36,54 @@ export interface UseCategoriesResult {
   readonly refresh: () => Promise<void>;
   readonly createCategory: (data: CreateCategoryCommand) => Promise<void>;
   readonly updateCategory: (id: string, data: UpdateCategoryCommand) => Promise<void>;
+  readonly setCategoryArchived: (id: string, isArchived: boolean) => Promise<void>;
+  readonly reorderCategories: (categoryIds: readonly string[]) => Promise<void>;
   readonly deleteCategory: (id: string, force?: boolean) => Promise<void>;
+  readonly fetchDependencies: (id: string) => Promise<CategoryDependenciesDto>;
+  readonly mergeCategory: (id: string, targetCategoryId: string) => Promise<void>;
   readonly retry: () => Promise<void>;
   readonly clearOperationResult: () => void;
   readonly clearPendingDeleteRequiresForce: () => void;
 }
 
 const CATEGORIES_ENDPOINT = "/api/categories";
-const DEFAULT_PAGE_SIZE = 20;
-const DEFAULT_SORT = "name";
+// Large enough to show the category tree on one page; subcategories are grouped under their parents
+const DEFAULT_PAGE_SIZE = 100;
+const CATEGORIES_ORDER_ENDPOINT = "/api/categories/order";
+const DEFAULT_SORT = "sortOrder";
 
 const ERROR_MESSAGES: Record<string, string> = {
   UNAUTHENTICATED: "Sesja wygasła. Zaloguj się ponownie.",
+  PERMISSION_DENIED: "Twoja rola w gospodarstwie nie pozwala na tę operację.",
   INVALID_NAME: "Nieprawidłowa nazwa kategorii.",
   CATEGORY_NOT_FOUND: "Nie znaleziono kategorii.",
   CATEGORY_NAME_CONFLICT: "Kategoria o tej nazwie już istnieje.",
+  INVALID_PARENT_ID: "Wybierz prawidłową kategorię nadrzędną.",
+  CATEGORY_PARENT_CYCLE: "Kategoria nie może być podkategorią samej siebie.",
+  CATEGORY_DEPTH_EXCEEDED:
+    "Kategorie mogą mieć tylko dwa poziomy. Kategoria nadrzędna nie może być podkategorią, a kategoria z podkategoriami nie może zostać podkategorią.",
   CATEGORIES_LIST_FAILED: "Nie udało się pobrać listy kategorii.",
   CATEGORY_CREATE_FAILED: "Nie udało się dodać kategorii.",
   CATEGORY_UPDATE_FAILED: "Nie udało się zaktualizować kategorii.",
   CATEGORY_DELETE_FAILED: "Nie udało się usunąć kategorii.",
   FORCE_CONFIRMATION_REQUIRED: "Kategoria ma powiązane transakcje. Potwierdź usunięcie.",
+  INVALID_TARGET_CATEGORY_ID: "Wybierz inną kategorię, do której mają trafić wpisy.",
+  TARGET_CATEGORY_NOT_FOUND: "Nie znaleziono kategorii, do której mają trafić wpisy.",
+  CATEGORY_ARCHIVED: "Nie można przenieść wpisów do zarchiwizowanej kategorii.",
+  CATEGORY_MERGE_FAILED: "Nie udało się scalić kategorii.",
+  CATEGORY_DEPENDENCIES_FAILED: "Nie udało się sprawdzić powiązanych danych kategorii.",
+  INVALID_COLOR: "Wybierz prawidłowy kolor kategorii.",
+  INVALID_ICON: "Wybierz prawidłową ikonę kategorii.",
+  INVALID_GROUP: "Wybierz prawidłową grupę kategorii.",
+  INVALID_THRESHOLDS: "Próg ostrzeżenia nie może być wyższy niż próg przekroczenia.",
+  INVALID_PACE_ALERT: "Podaj zarówno dzień, jak i procent alertu tempa.",
+  CATEGORIES_REORDER_FAILED: "Nie udało się zapisać kolejności kategorii.",
 };
 
 /**
  * Custom hook for managing categories state.
- * Handles CRUD operations, pagination, and cascading delete with force confirmation.
+ * Handles CRUD operations, pagination, archiving, reordering, cascading delete with force confirmation,
+ * and merging a category into another one instead of deleting its data.
  */
 export const useCategories = (): UseCategoriesResult => {
   const [state, setState] = useState<CategoriesState>({
@@ -97,6 +124,8 @@ export const useCategories = (): UseCategoriesResult => {
     url.searchParams.set("page", page.toString());
     url.searchParams.set("pageSize", DEFAULT_PAGE_SIZE.toString());
     url.searchParams.set("sort", DEFAULT_SORT);
+    // Archived categories are listed too, so they can be restored
+    url.searchParams.set("includeArchived", "true");
     if (search) {
       url.searchParams.set("search", search);
     }
@@ -139,7 +168,7 @@ export const useCategories = (): UseCategoriesResult => {
         deduplicated.set(category.id, category);
       }
 
-      return Array.from(deduplicated.values()).sort((a, b) => a.name.localeCompare(b.name));
+      return Array.from(deduplicated.values()).sort(compareCategoryOrder);
     },
     [mapDtoToVM]
   );
@@ -346,9 +375,7 @@ export const useCategories = (): UseCategoriesResult => {
 
         setState((previous) => ({
           ...previous,
-          categories: [...previous.categories, mapDtoToVM(createdCategory)].sort((a, b) =>
-            a.name.localeCompare(b.name)
-          ),
+          categories: [...previous.categories, mapDtoToVM(createdCategory)].sort(compareCategoryOrder),
           meta: previous.meta
             ? {
                 ...previous.meta,
@@ -406,7 +433,7 @@ export const useCategories = (): UseCategoriesResult => {
           ...previous,
           categories: previous.categories
             .map((category) => (category.id === id ? mapDtoToVM(updatedCategory) : category))
-            .sort((a, b) => a.name.localeCompare(b.name)),
+            .sort(compareCategoryOrder),
           operationResult: {
             type: "update",
             status: "success",
@@ -436,6 +463,132 @@ export const useCategories = (): UseCategoriesResult => {
     [mapDtoToVM, parseErrorResponse]
   );
 
+  const setCategoryArchived = useCallback(
+    async (id: string, isArchived: boolean) => {
+      const fallbackMessage = isArchived
+        ? "Nie udało się zarchiwizować kategorii."
+        : "Nie udało się przywrócić kategorii.";
+
+      try {
+        const response = await fetch(`${CATEGORIES_ENDPOINT}/${id}`, {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+            Accept: "application/json",
+          },
+          body: JSON.stringify({ isArchived } satisfies UpdateCategoryCommand),
+        });
+
+        if (!response.ok) {
+          throw await parseErrorResponse(response);
+        }
+
+        const updatedCategory = (await response.json()) as CategoryDto;
+
+        setState((previous) => ({
+          ...previous,
+          // Archiving a parent archives its subcategories on the server as well
+          categories: previous.categories.map((category) => {
+            if (category.id === id) {
+              return mapDtoToVM(updatedCategory);
+            }
+
+            return isArchived && category.parentId === id ? { ...category, isArchived: true } : category;
+          }),
+          operationResult: {
+            type: "update",
+            status: "success",
+            message: isArchived
+              ? `Kategoria „${updatedCategory.name}” została zarchiwizowana.`
+              : `Kategoria „${updatedCategory.name}” została przywrócona.`,
+          },
+          pendingDeleteRequiresForce: false,
+        }));
+      } catch (error) {
+        console.error("Failed to change category archived state", error);
+        const errorMessage =
+          typeof error === "object" && error !== null && "message" in error
+            ? String((error as { message?: unknown }).message) || fallbackMessage
+            : fallbackMessage;
+
+        setState((previous) => ({
+          ...previous,
+          operationResult: {
+            type: "update",
+            status: "error",
+            message: errorMessage,
+          },
+          pendingDeleteRequiresForce: false,
+        }));
+        throw error;
+      }
+    },
+    [mapDtoToVM, parseErrorResponse]
+  );
+
+  const reorderCategories = useCallback(
+    async (categoryIds: readonly string[]) => {
+      const previousCategories = state.categories;
+      const positionById = new Map(categoryIds.map((categoryId, position) => [categoryId, position]));
+
+      // Show the new order right away; the server response replaces it once saved
+      setState((previous) => ({
+        ...previous,
+        categories: previous.categories
+          .map((category) =>
+            positionById.has(category.id) ? { ...category, sortOrder: positionById.get(category.id) ?? 0 } : category
+          )
+          .sort(compareCategoryOrder),
+      }));
+
+      try {
+        const response = await fetch(CATEGORIES_ORDER_ENDPOINT, {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+            Accept: "application/json",
+          },
+          body: JSON.stringify({ categoryIds } satisfies ReorderCategoriesCommand),
+        });
+
+        if (!response.ok) {
+          throw await parseErrorResponse(response);
+        }
+
+        const { data } = (await response.json()) as { data: CategoryDto[] };
+
+        setState((previous) => ({
+          ...previous,
+          categories: data.map(mapDtoToVM),
+          operationResult: {
+            type: "update",
+            status: "success",
+            message: "Kolejność kategorii została zapisana.",
+          },
+          pendingDeleteRequiresForce: false,
+        }));
+      } catch (error) {
+        console.error("Failed to reorder categories", error);
+        const errorMessage =
+          typeof error === "object" && error !== null && "message" in error
+            ? String((error as { message?: unknown }).message) || "Nie udało się zapisać kolejności kategorii."
+            : "Nie udało się zapisać kolejności kategorii.";
+
+        setState((previous) => ({
+          ...previous,
+          categories: previousCategories,
+          operationResult: {
+            type: "update",
+            status: "error",
+            message: errorMessage,
+          },
+          pendingDeleteRequiresForce: false,
+        }));
+      }
+    },
+    [mapDtoToVM, parseErrorResponse, state.categories]
+  );
+
   const deleteCategory = useCallback(
     async (id: string, force = false) => {
       try {
@@ -469,7 +622,10 @@ export const useCategories = (): UseCategoriesResult => {
 
         setState((previous) => ({
           ...previous,
-          categories: previous.categories.filter((category) => category.id !== id),
+          // Subcategories of the deleted category become top-level categories
+          categories: previous.categories
+            .filter((category) => category.id !== id)
+            .map((category) => (category.parentId === id ? { ...category, parentId: null } : category)),
           meta: previous.meta
             ? {
                 ...previous.meta,
@@ -516,6 +672,96 @@ export const useCategories = (): UseCategoriesResult => {
     [parseErrorResponse]
   );
 
+  const fetchDependencies = useCallback(
+    async (id: string) => {
+      const response = await fetch(`${CATEGORIES_ENDPOINT}/${id}/dependencies`, {
+        method: "GET",
+        headers: {
+          Accept: "application/json",
+        },
+      });
+
+      if (!response.ok) {
+        throw await parseErrorResponse(response);
+      }
+
+      return (await response.json()) as CategoryDependenciesDto;
+    },
+    [parseErrorResponse]
+  );
+
+  const mergeCategory = useCallback(
+    async (id: string, targetCategoryId: string) => {
+      try {
+        const response = await fetch(`${CATEGORIES_ENDPOINT}/${id}/merge`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Accept: "application/json",
+          },
+          body: JSON.stringify({ targetCategoryId }),
+        });
+
+        if (!response.ok) {
+          throw await parseErrorResponse(response);
+        }
+
+        const { targetCategory } = (await response.json()) as CategoryMergedDto;
+
+        setState((previous) => {
+          const mergedCategory = previous.categories.find((category) => category.id === id);
+          // Subcategories follow the merged category to a top-level target, otherwise they become top-level
+          const subcategoriesParentId = targetCategory.parentId === null ? targetCategory.id : null;
+
+          return {
+            ...previous,
+            categories: previous.categories
+              .filter((category) => category.id !== id)
+              .map((category) => {
+                if (category.id === targetCategory.id) {
+                  return mapDtoToVM(targetCategory);
+                }
+
+                return category.parentId === id ? { ...category, parentId: subcategoriesParentId } : category;
+              }),
+            meta: previous.meta
+              ? {
+                  ...previous.meta,
+                  totalItems: Math.max(previous.meta.totalItems - 1, 0),
+                }
+              : previous.meta,
+            operationResult: {
+              type: "delete",
+              status: "success",
+              message: mergedCategory
+                ? `Kategoria „${mergedCategory.name}” została scalona z „${targetCategory.name}”.`
+                : `Kategoria została scalona z „${targetCategory.name}”.`,
+            },
+            pendingDeleteRequiresForce: false,
+          };
+        });
+      } catch (error) {
+        console.error("Failed to merge category", error);
+        const errorMessage =
+          typeof error === "object" && error !== null && "message" in error
+            ? String((error as { message?: unknown }).message) || "Nie udało się scalić kategorii."
+            : "Nie udało się scalić kategorii.";
+
+        setState((previous) => ({
+          ...previous,
+          operationResult: {
+            type: "delete",
+            status: "error",
+            message: errorMessage,
+          },
+          pendingDeleteRequiresForce: false,
+        }));
+        throw error;
+      }
+    },
+    [mapDtoToVM, parseErrorResponse]
+  );
+
   // Redirect to login on 401 error
   useEffect(() => {
     if (state.error?.status === 401) {
@@ -536,7 +782,11 @@ export const useCategories = (): UseCategoriesResult => {
     refresh,
     createCategory,
     updateCategory,
+    setCategoryArchived,
+    reorderCategories,
     deleteCategory,
+    fetchDependencies,
+    mergeCategory,
     retry,
     clearOperationResult: useCallback(
       () =>
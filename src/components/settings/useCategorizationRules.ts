@@ -0,0 +1,332 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type {
+  ApiErrorDto,
+  CategoriesListResponseDto,
+  CategoryDto,
+  CategorizationRuleDto,
+  CategorizationRulesListResponseDto,
+  CreateCategorizationRuleCommand,
+  UpdateCategorizationRuleCommand,
+} from "@/types";
+import type { CategorizationRuleVM, OperationResult, OperationType, SettingsError } from "./types";
+
+interface CategorizationRulesState {
+  readonly items: readonly CategorizationRuleDto[];
+  readonly categories: readonly CategoryDto[];
+  readonly isLoading: boolean;
+  readonly error: SettingsError | null;
+  readonly operationResult: OperationResult | null;
+}
+
+export interface UseCategorizationRulesResult {
+  readonly rules: readonly CategorizationRuleVM[];
+  readonly categories: readonly CategoryDto[];
+  readonly isLoading: boolean;
+  readonly error: SettingsError | null;
+  readonly operationResult: OperationResult | null;
+  readonly createRule: (data: CreateCategorizationRuleCommand) => Promise<void>;
+  readonly updateRule: (id: string, data: UpdateCategorizationRuleCommand) => Promise<void>;
+  readonly deleteRule: (id: string) => Promise<void>;
+  readonly retry: () => Promise<void>;
+  readonly clearOperationResult: () => void;
+}
+
+const CATEGORIZATION_RULES_ENDPOINT = "/api/categorization-rules";
+const CATEGORIES_ENDPOINT = "/api/categories";
+
+const ERROR_MESSAGES: Record<string, string> = {
+  UNAUTHENTICATED: "Sesja wygasła. Zaloguj się ponownie.",
+  PERMISSION_DENIED: "Twoja rola w gospodarstwie nie pozwala na tę operację.",
+  INVALID_CATEGORY_ID: "Wybierz prawidłową kategorię.",
+  CATEGORY_ARCHIVED: "Ta kategoria jest zarchiwizowana. Wybierz inną kategorię.",
+  INVALID_PATTERN: "Wprowadź prawidłowy wzorzec.",
+  INVALID_PRIORITY: "Priorytet musi być liczbą całkowitą od 0 do 1000.",
+  INVALID_AMOUNT_RANGE: "Kwota maksymalna nie może być mniejsza niż minimalna.",
+  CATEGORIZATION_RULE_NOT_FOUND: "Nie znaleziono reguły kategoryzacji.",
+  CATEGORIZATION_RULES_LIST_FAILED: "Nie udało się pobrać listy reguł kategoryzacji.",
+  CATEGORIZATION_RULE_CREATE_FAILED: "Nie udało się dodać reguły kategoryzacji.",
+  CATEGORIZATION_RULE_UPDATE_FAILED: "Nie udało się zaktualizować reguły kategoryzacji.",
+  CATEGORIZATION_RULE_DELETE_FAILED: "Nie udało się usunąć reguły kategoryzacji.",
+};
+
+const SUCCESS_MESSAGES: Record<OperationType, string> = {
+  create: "Reguła kategoryzacji została dodana.",
+  update: "Reguła kategoryzacji została zaktualizowana.",
+  delete: "Reguła kategoryzacji została usunięta.",
+};
+
+const FALLBACK_ERROR_MESSAGES: Record<OperationType, string> = {
+  create: "Nie udało się dodać reguły kategoryzacji.",
+  update: "Nie udało się zaktualizować reguły kategoryzacji.",
+  delete: "Nie udało się usunąć reguły kategoryzacji.",
+};
+
+// Same order as the server applies the rules: the highest priority first
+const sortByPriority = (items: readonly CategorizationRuleDto[]): CategorizationRuleDto[] =>
+  [...items].sort((a, b) => b.priority - a.priority || a.createdAt.localeCompare(b.createdAt));
+
+/**
+ * Custom hook for managing categorization rules in settings.
+ * Loads rules together with categories (for names and form options) and handles CRUD operations.
+ */
+export const useCategorizationRules = (): UseCategorizationRulesResult => {
+  const [state, setState] = useState<CategorizationRulesState>({
+    items: [],
+    categories: [],
+    isLoading: true,
+    error: null,
+    operationResult: null,
+  });
+
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const parseErrorResponse = useCallback(async (response: Response): Promise<SettingsError> => {
+    const status = response.status;
+    let payload: ApiErrorDto | undefined;
+
+    try {
+      const text = await response.text();
+      payload = text ? (JSON.parse(text) as ApiErrorDto) : undefined;
+    } catch (parseError) {
+      console.warn("Unable to parse API error", parseError);
+    }
+
+    const code = payload?.error.code;
+    const message = code && ERROR_MESSAGES[code] ? ERROR_MESSAGES[code] : (payload?.error.message ?? "Wystąpił błąd.");
+
+    return {
+      status,
+      message,
+      code,
+    };
+  }, []);
+
+  const loadData = useCallback(async () => {
+    abortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    setState((previous) => ({
+      ...previous,
+      isLoading: true,
+      error: null,
+    }));
+
+    try {
+      const [rulesResponse, categoriesResponse] = await Promise.all([
+        fetch(CATEGORIZATION_RULES_ENDPOINT, {
+          method: "GET",
+          signal: abortController.signal,
+          headers: { Accept: "application/json" },
+        }),
+        // Archived categories are included, so entries assigned to them keep their category name
+        fetch(`${CATEGORIES_ENDPOINT}?page=1&pageSize=100&includeArchived=true`, {
+          method: "GET",
+          signal: abortController.signal,
+          headers: { Accept: "application/json" },
+        }),
+      ]);
+
+      if (!rulesResponse.ok) {
+        throw await parseErrorResponse(rulesResponse);
+      }
+
+      if (!categoriesResponse.ok) {
+        throw await parseErrorResponse(categoriesResponse);
+      }
+
+      const rulesPayload = (await rulesResponse.json()) as CategorizationRulesListResponseDto;
+      const categoriesPayload = (await categoriesResponse.json()) as CategoriesListResponseDto;
+
+      setState({
+        items: rulesPayload.data,
+        categories: categoriesPayload.data,
+        isLoading: false,
+        error: null,
+        operationResult: null,
+      });
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") {
+        return;
+      }
+
+      const settingsError =
+        typeof error === "object" && error !== null && "status" in error
+          ? (error as SettingsError)
+          : ({
+              status: 0,
+              message: "Wystąpił błąd połączenia. Spróbuj ponownie później.",
+            } satisfies SettingsError);
+
+      setState((previous) => ({
+        ...previous,
+        isLoading: false,
+        error: settingsError,
+      }));
+    }
+  }, [parseErrorResponse]);
+
+  useEffect(() => {
+    void loadData();
+
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, [loadData]);
+
+  const reportFailure = useCallback((type: OperationType, error: unknown) => {
+    const errorMessage =
+      typeof error === "object" && error !== null && "message" in error
+        ? String((error as { message?: unknown }).message) || FALLBACK_ERROR_MESSAGES[type]
+        : FALLBACK_ERROR_MESSAGES[type];
+
+    setState((previous) => ({
+      ...previous,
+      operationResult: {
+        type,
+        status: "error",
+        message: errorMessage,
+      },
+    }));
+  }, []);
+
+  const createRule = useCallback(
+    async (data: CreateCategorizationRuleCommand) => {
+      try {
+        const response = await fetch(CATEGORIZATION_RULES_ENDPOINT, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Accept: "application/json",
+          },
+          body: JSON.stringify(data),
+        });
+
+        if (!response.ok) {
+          throw await parseErrorResponse(response);
+        }
+
+        const created = (await response.json()) as CategorizationRuleDto;
+
+        setState((previous) => ({
+          ...previous,
+          items: sortByPriority([...previous.items, created]),
+          operationResult: {
+            type: "create",
+            status: "success",
+            message: SUCCESS_MESSAGES.create,
+          },
+        }));
+      } catch (error) {
+        console.error("Failed to create categorization rule", error);
+        reportFailure("create", error);
+        throw error;
+      }
+    },
+    [parseErrorResponse, reportFailure]
+  );
+
+  const updateRule = useCallback(
+    async (id: string, data: UpdateCategorizationRuleCommand) => {
+      try {
+        const response = await fetch(`${CATEGORIZATION_RULES_ENDPOINT}/${id}`, {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+            Accept: "application/json",
+          },
+          body: JSON.stringify(data),
+        });
+
+        if (!response.ok) {
+          throw await parseErrorResponse(response);
+        }
+
+        const updated = (await response.json()) as CategorizationRuleDto;
+
+        setState((previous) => ({
+          ...previous,
+          items: sortByPriority(previous.items.map((item) => (item.id === id ? updated : item))),
+          operationResult: {
+            type: "update",
+            status: "success",
+            message: SUCCESS_MESSAGES.update,
+          },
+        }));
+      } catch (error) {
+        console.error("Failed to update categorization rule", error);
+        reportFailure("update", error);
+        throw error;
+      }
+    },
+    [parseErrorResponse, reportFailure]
+  );
+
+  const deleteRule = useCallback(
+    async (id: string) => {
+      try {
+        const response = await fetch(`${CATEGORIZATION_RULES_ENDPOINT}/${id}`, {
+          method: "DELETE",
+          headers: {
+            Accept: "application/json",
+          },
+        });
+
+        if (!response.ok && response.status !== 204) {
+          throw await parseErrorResponse(response);
+        }
+
+        setState((previous) => ({
+          ...previous,
+          items: previous.items.filter((item) => item.id !== id),
+          operationResult: {
+            type: "delete",
+            status: "success",
+            message: SUCCESS_MESSAGES.delete,
+          },
+        }));
+      } catch (error) {
+        console.error("Failed to delete categorization rule", error);
+        reportFailure("delete", error);
+        throw error;
+      }
+    },
+    [parseErrorResponse, reportFailure]
+  );
+
+  const rules = useMemo<CategorizationRuleVM[]>(() => {
+    const categoryNames = new Map(state.categories.map((category) => [category.id, category.name]));
+
+    return state.items.map((item) => ({
+      ...item,
+      categoryName: categoryNames.get(item.categoryId) ?? "Nieznana kategoria",
+    }));
+  }, [state.categories, state.items]);
+
+  // Redirect to login on 401 error
+  useEffect(() => {
+    if (state.error?.status === 401) {
+      window.location.href = "/login";
+    }
+  }, [state.error]);
+
+  return {
+    rules,
+    categories: state.categories,
+    isLoading: state.isLoading,
+    error: state.error,
+    operationResult: state.operationResult,
+    createRule,
+    updateRule,
+    deleteRule,
+    retry: loadData,
+    clearOperationResult: useCallback(
+      () =>
+        setState((previous) => ({
+          ...previous,
+          operationResult: null,
+        })),
+      []
+    ),
+  };
+};
@@ -0,0 +1,268 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type {
+  ApiErrorDto,
+  CreateHouseholdInvitationCommand,
+  HouseholdInvitationCreatedDto,
+  HouseholdInvitationDto,
+  HouseholdInvitationsListResponseDto,
+} from "@/types";
+import type { OperationResult, OperationType, SettingsError } from "./types";
+
+interface HouseholdInvitationsState {
+  readonly items: readonly HouseholdInvitationDto[];
+  readonly isLoading: boolean;
+  readonly error: SettingsError | null;
+  readonly operationResult: OperationResult | null;
+}
+
+export interface UseHouseholdInvitationsResult {
+  readonly invitations: readonly HouseholdInvitationDto[];
+  readonly isLoading: boolean;
+  readonly error: SettingsError | null;
+  readonly operationResult: OperationResult | null;
+  readonly createInvitation: (data: CreateHouseholdInvitationCommand) => Promise<HouseholdInvitationCreatedDto>;
+  readonly revokeInvitation: (id: string) => Promise<void>;
+  readonly retry: () => Promise<void>;
+  readonly clearOperationResult: () => void;
+}
+
+const HOUSEHOLD_INVITATIONS_ENDPOINT = "/api/household/invitations";
+
+const ERROR_MESSAGES: Record<string, string> = {
+  UNAUTHENTICATED: "Sesja wygasła. Zaloguj się ponownie.",
+  PERMISSION_DENIED: "Twoja rola w gospodarstwie nie pozwala na tę operację.",
+  INVALID_EMAIL: "Podaj poprawny adres e-mail.",
+  INVITATION_ALREADY_PENDING: "Zaproszenie na ten adres e-mail czeka już na przyjęcie.",
+  INVITATION_NOT_FOUND: "Nie znaleziono zaproszenia.",
+  INVITATION_NOT_PENDING: "Można odwołać tylko zaproszenie oczekujące na przyjęcie.",
+  HOUSEHOLD_INVITATIONS_LIST_FAILED: "Nie udało się pobrać listy zaproszeń.",
+  HOUSEHOLD_INVITATION_CREATE_FAILED: "Nie udało się utworzyć zaproszenia.",
+  HOUSEHOLD_INVITATION_REVOKE_FAILED: "Nie udało się odwołać zaproszenia.",
+};
+
+const SUCCESS_MESSAGES: Partial<Record<OperationType, string>> = {
+  create: "Zaproszenie zostało utworzone. Przekaż link zaproszonej osobie.",
+  delete: "Zaproszenie zostało odwołane.",
+};
+
+const FALLBACK_ERROR_MESSAGES: Partial<Record<OperationType, string>> = {
+  create: "Nie udało się utworzyć zaproszenia.",
+  delete: "Nie udało się odwołać zaproszenia.",
+};
+
+/**
+ * Custom hook for managing invitations to the household in settings.
+ * Invitations are created and revoked here; they are accepted by the invited person.
+ */
+export const useHouseholdInvitations = (): UseHouseholdInvitationsResult => {
+  const [state, setState] = useState<HouseholdInvitationsState>({
+    items: [],
+    isLoading: true,
+    error: null,
+    operationResult: null,
+  });
+
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const parseErrorResponse = useCallback(async (response: Response): Promise<SettingsError> => {
+    const status = response.status;
+    let payload: ApiErrorDto | undefined;
+
+    try {
+      const text = await response.text();
+      payload = text ? (JSON.parse(text) as ApiErrorDto) : undefined;
+    } catch (parseError) {
+      console.warn("Unable to parse API error", parseError);
+    }
+
+    const code = payload?.error.code;
+    const message = code && ERROR_MESSAGES[code] ? ERROR_MESSAGES[code] : (payload?.error.message ?? "Wystąpił błąd.");
+
+    return {
+      status,
+      message,
+      code,
+    };
+  }, []);
+
+  const loadData = useCallback(async () => {
+    abortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    setState((previous) => ({
+      ...previous,
+      isLoading: true,
+      error: null,
+    }));
+
+    try {
+      const response = await fetch(HOUSEHOLD_INVITATIONS_ENDPOINT, {
+        method: "GET",
+        signal: abortController.signal,
+        headers: { Accept: "application/json" },
+      });
+
+      if (!response.ok) {
+        throw await parseErrorResponse(response);
+      }
+
+      const payload = (await response.json()) as HouseholdInvitationsListResponseDto;
+
+      setState({
+        items: payload.data,
+        isLoading: false,
+        error: null,
+        operationResult: null,
+      });
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") {
+        return;
+      }
+
+      const settingsError =
+        typeof error === "object" && error !== null && "status" in error
+          ? (error as SettingsError)
+          : ({
+              status: 0,
+              message: "Wystąpił błąd połączenia. Spróbuj ponownie później.",
+            } satisfies SettingsError);
+
+      setState((previous) => ({
+        ...previous,
+        isLoading: false,
+        error: settingsError,
+      }));
+    }
+  }, [parseErrorResponse]);
+
+  useEffect(() => {
+    void loadData();
+
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, [loadData]);
+
+  const reportFailure = useCallback((type: OperationType, error: unknown) => {
+    const fallbackMessage = FALLBACK_ERROR_MESSAGES[type] ?? "Wystąpił błąd.";
+    const errorMessage =
+      typeof error === "object" && error !== null && "message" in error
+        ? String((error as { message?: unknown }).message) || fallbackMessage
+        : fallbackMessage;
+
+    setState((previous) => ({
+      ...previous,
+      operationResult: {
+        type,
+        status: "error",
+        message: errorMessage,
+      },
+    }));
+  }, []);
+
+  const createInvitation = useCallback(
+    async (data: CreateHouseholdInvitationCommand) => {
+      try {
+        const response = await fetch(HOUSEHOLD_INVITATIONS_ENDPOINT, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Accept: "application/json",
+          },
+          body: JSON.stringify(data),
+        });
+
+        if (!response.ok) {
+          throw await parseErrorResponse(response);
+        }
+
+        const created = (await response.json()) as HouseholdInvitationCreatedDto;
+        // The token and link are returned once; the list keeps only the invitation itself
+        const invitation: HouseholdInvitationDto = {
+          id: created.id,
+          email: created.email,
+          role: created.role,
+          status: created.status,
+          expiresAt: created.expiresAt,
+          acceptedAt: created.acceptedAt,
+          createdAt: created.createdAt,
+        };
+
+        setState((previous) => ({
+          ...previous,
+          items: [invitation, ...previous.items],
+          operationResult: {
+            type: "create",
+            status: "success",
+            message: SUCCESS_MESSAGES.create ?? "",
+          },
+        }));
+
+        return created;
+      } catch (error) {
+        console.error("Failed to create household invitation", error);
+        reportFailure("create", error);
+        throw error;
+      }
+    },
+    [parseErrorResponse, reportFailure]
+  );
+
+  const revokeInvitation = useCallback(
+    async (id: string) => {
+      try {
+        const response = await fetch(`${HOUSEHOLD_INVITATIONS_ENDPOINT}/${id}`, {
+          method: "DELETE",
+          headers: {
+            Accept: "application/json",
+          },
+        });
+
+        if (!response.ok && response.status !== 204) {
+          throw await parseErrorResponse(response);
+        }
+
+        setState((previous) => ({
+          ...previous,
+          items: previous.items.map((item) => (item.id === id ? { ...item, status: "revoked" } : item)),
+          operationResult: {
+            type: "delete",
+            status: "success",
+            message: SUCCESS_MESSAGES.delete ?? "",
+          },
+        }));
+      } catch (error) {
+        console.error("Failed to revoke household invitation", error);
+        reportFailure("delete", error);
+        throw error;
+      }
+    },
+    [parseErrorResponse, reportFailure]
+  );
+
+  // Redirect to login on 401 error
+  useEffect(() => {
+    if (state.error?.status === 401) {
+      window.location.href = "/login";
+    }
+  }, [state.error]);
+
+  return {
+    invitations: state.items,
+    isLoading: state.isLoading,
+    error: state.error,
+    operationResult: state.operationResult,
+    createInvitation,
+    revokeInvitation,
+    retry: loadData,
+    clearOperationResult: useCallback(
+      () =>
+        setState((previous) => ({
+          ...previous,
+          operationResult: null,
+        })),
+      []
+    ),
+  };
+};
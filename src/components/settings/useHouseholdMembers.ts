@@ -41,9 +41,12 @@ const DEFAULT_SORT = "fullName";
 
 const ERROR_MESSAGES: Record<string, string> = {
   UNAUTHENTICATED: "Sesja wygasła. Zaloguj się ponownie.",
+  PERMISSION_DENIED: "Twoja rola w gospodarstwie nie pozwala na tę operację.",
   INVALID_FULL_NAME: "Nieprawidłowe imię domownika.",
   MEMBER_NOT_FOUND: "Nie znaleziono domownika.",
   MEMBER_NAME_CONFLICT: "Domownik o tym imieniu już istnieje.",
+  INVALID_USER_ID: "Wybrane konto nie ma dostępu do gospodarstwa.",
+  MEMBER_USER_CONFLICT: "To konto jest już połączone z innym domownikiem.",
   MEMBERS_LIST_FAILED: "Nie udało się pobrać listy domowników.",
   MEMBER_CREATE_FAILED: "Nie udało się dodać domownika.",
   MEMBER_UPDATE_FAILED: "Nie udało się zaktualizować domownika.",
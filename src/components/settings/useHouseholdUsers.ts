@@ -0,0 +1,206 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type {
+  ApiErrorDto,
+  AssignableHouseholdRole,
+  HouseholdUserDto,
+  HouseholdUsersListResponseDto,
+  UpdateHouseholdUserRoleCommand,
+} from "@/types";
+import type { OperationResult, SettingsError } from "./types";
+
+interface HouseholdUsersState {
+  readonly items: readonly HouseholdUserDto[];
+  readonly isLoading: boolean;
+  readonly error: SettingsError | null;
+  readonly operationResult: OperationResult | null;
+}
+
+export interface UseHouseholdUsersResult {
+  readonly users: readonly HouseholdUserDto[];
+  readonly isLoading: boolean;
+  readonly error: SettingsError | null;
+  readonly operationResult: OperationResult | null;
+  readonly updateUserRole: (userId: string, role: AssignableHouseholdRole) => Promise<void>;
+  readonly retry: () => Promise<void>;
+  readonly clearOperationResult: () => void;
+}
+
+const HOUSEHOLD_USERS_ENDPOINT = "/api/household/users";
+
+const ERROR_MESSAGES: Record<string, string> = {
+  UNAUTHENTICATED: "Sesja wygasła. Zaloguj się ponownie.",
+  PERMISSION_DENIED: "Twoja rola w gospodarstwie nie pozwala na tę operację.",
+  INVALID_ROLE: "Wybierz rolę edytora lub obserwatora.",
+  CANNOT_CHANGE_OWN_ROLE: "Nie możesz zmienić własnej roli.",
+  OWNER_ROLE_LOCKED: "Nie można zmienić roli właściciela gospodarstwa.",
+  HOUSEHOLD_USER_NOT_FOUND: "Nie znaleziono konta w gospodarstwie.",
+  HOUSEHOLD_USERS_LIST_FAILED: "Nie udało się pobrać listy kont.",
+  HOUSEHOLD_USER_UPDATE_FAILED: "Nie udało się zmienić roli.",
+};
+
+/**
+ * Custom hook for the accounts with access to the household and their roles.
+ * Roles of other accounts can be changed by the owner of the household.
+ */
+export const useHouseholdUsers = (): UseHouseholdUsersResult => {
+  const [state, setState] = useState<HouseholdUsersState>({
+    items: [],
+    isLoading: true,
+    error: null,
+    operationResult: null,
+  });
+
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const parseErrorResponse = useCallback(async (response: Response): Promise<SettingsError> => {
+    const status = response.status;
+    let payload: ApiErrorDto | undefined;
+
+    try {
+      const text = await response.text();
+      payload = text ? (JSON.parse(text) as ApiErrorDto) : undefined;
+    } catch (parseError) {
+      console.warn("Unable to parse API error", parseError);
+    }
+
+    const code = payload?.error.code;
+    const message = code && ERROR_MESSAGES[code] ? ERROR_MESSAGES[code] : (payload?.error.message ?? "Wystąpił błąd.");
+
+    return {
+      status,
+      message,
+      code,
+    };
+  }, []);
+
+  const loadData = useCallback(async () => {
+    abortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    setState((previous) => ({
+      ...previous,
+      isLoading: true,
+      error: null,
+    }));
+
+    try {
+      const response = await fetch(HOUSEHOLD_USERS_ENDPOINT, {
+        method: "GET",
+        signal: abortController.signal,
+        headers: { Accept: "application/json" },
+      });
+
+      if (!response.ok) {
+        throw await parseErrorResponse(response);
+      }
+
+      const payload = (await response.json()) as HouseholdUsersListResponseDto;
+
+      setState({
+        items: payload.data,
+        isLoading: false,
+        error: null,
+        operationResult: null,
+      });
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") {
+        return;
+      }
+
+      const settingsError =
+        typeof error === "object" && error !== null && "status" in error
+          ? (error as SettingsError)
+          : ({
+              status: 0,
+              message: "Wystąpił błąd połączenia. Spróbuj ponownie później.",
+            } satisfies SettingsError);
+
+      setState((previous) => ({
+        ...previous,
+        isLoading: false,
+        error: settingsError,
+      }));
+    }
+  }, [parseErrorResponse]);
+
+  useEffect(() => {
+    void loadData();
+
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, [loadData]);
+
+  const updateUserRole = useCallback(
+    async (userId: string, role: AssignableHouseholdRole) => {
+      try {
+        const command: UpdateHouseholdUserRoleCommand = { role };
+        const response = await fetch(`${HOUSEHOLD_USERS_ENDPOINT}/${userId}`, {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+            Accept: "application/json",
+          },
+          body: JSON.stringify(command),
+        });
+
+        if (!response.ok) {
+          throw await parseErrorResponse(response);
+        }
+
+        const updated = (await response.json()) as HouseholdUserDto;
+
+        setState((previous) => ({
+          ...previous,
+          items: previous.items.map((item) => (item.userId === updated.userId ? updated : item)),
+          operationResult: {
+            type: "update",
+            status: "success",
+            message: "Rola została zmieniona.",
+          },
+        }));
+      } catch (error) {
+        console.error("Failed to update household user role", error);
+        const errorMessage =
+          typeof error === "object" && error !== null && "message" in error
+            ? String((error as { message?: unknown }).message) || "Nie udało się zmienić roli."
+            : "Nie udało się zmienić roli.";
+
+        setState((previous) => ({
+          ...previous,
+          operationResult: {
+            type: "update",
+            status: "error",
+            message: errorMessage,
+          },
+        }));
+      }
+    },
+    [parseErrorResponse]
+  );
+
+  // Redirect to login on 401 error
+  useEffect(() => {
+    if (state.error?.status === 401) {
+      window.location.href = "/login";
+    }
+  }, [state.error]);
+
+  return {
+    users: state.items,
+    isLoading: state.isLoading,
+    error: state.error,
+    operationResult: state.operationResult,
+    updateUserRole,
+    retry: loadData,
+    clearOperationResult: useCallback(
+      () =>
+        setState((previous) => ({
+          ...previous,
+          operationResult: null,
+        })),
+      []
+    ),
+  };
+};
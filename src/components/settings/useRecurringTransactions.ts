@@ -0,0 +1,332 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type {
+  ApiErrorDto,
+  CategoriesListResponseDto,
+  CategoryDto,
+  CreateRecurringTransactionCommand,
+  RecurringTransactionDto,
+  RecurringTransactionsListResponseDto,
+  UpdateRecurringTransactionCommand,
+} from "@/types";
+import type { OperationResult, OperationType, RecurringTransactionVM, SettingsError } from "./types";
+
+interface RecurringTransactionsState {
+  readonly items: readonly RecurringTransactionDto[];
+  readonly categories: readonly CategoryDto[];
+  readonly isLoading: boolean;
+  readonly error: SettingsError | null;
+  readonly operationResult: OperationResult | null;
+}
+
+export interface UseRecurringTransactionsResult {
+  readonly recurringTransactions: readonly RecurringTransactionVM[];
+  readonly categories: readonly CategoryDto[];
+  readonly isLoading: boolean;
+  readonly error: SettingsError | null;
+  readonly operationResult: OperationResult | null;
+  readonly createRecurringTransaction: (data: CreateRecurringTransactionCommand) => Promise<void>;
+  readonly updateRecurringTransaction: (id: string, data: UpdateRecurringTransactionCommand) => Promise<void>;
+  readonly deleteRecurringTransaction: (id: string) => Promise<void>;
+  readonly retry: () => Promise<void>;
+  readonly clearOperationResult: () => void;
+}
+
+const RECURRING_TRANSACTIONS_ENDPOINT = "/api/recurring-transactions";
+const CATEGORIES_ENDPOINT = "/api/categories";
+
+const ERROR_MESSAGES: Record<string, string> = {
+  UNAUTHENTICATED: "Sesja wygasła. Zaloguj się ponownie.",
+  PERMISSION_DENIED: "Twoja rola w gospodarstwie nie pozwala na tę operację.",
+  INVALID_CATEGORY_ID: "Wybierz prawidłową kategorię.",
+  CATEGORY_ARCHIVED: "Ta kategoria jest zarchiwizowana. Wybierz inną kategorię.",
+  INVALID_AMOUNT: "Wprowadź prawidłową kwotę.",
+  INVALID_DATE: "Wprowadź prawidłową datę.",
+  INVALID_NOTE: "Notatka nie może przekraczać 500 znaków.",
+  INVALID_SCHEDULE: "Nieprawidłowy harmonogram płatności.",
+  RECURRING_TRANSACTION_NOT_FOUND: "Nie znaleziono płatności cyklicznej.",
+  RECURRING_TRANSACTIONS_LIST_FAILED: "Nie udało się pobrać listy płatności cyklicznych.",
+  RECURRING_TRANSACTION_CREATE_FAILED: "Nie udało się dodać płatności cyklicznej.",
+  RECURRING_TRANSACTION_UPDATE_FAILED: "Nie udało się zaktualizować płatności cyklicznej.",
+  RECURRING_TRANSACTION_DELETE_FAILED: "Nie udało się usunąć płatności cyklicznej.",
+};
+
+const SUCCESS_MESSAGES: Record<OperationType, string> = {
+  create: "Płatność cykliczna została dodana.",
+  update: "Płatność cykliczna została zaktualizowana.",
+  delete: "Płatność cykliczna została usunięta.",
+};
+
+const FALLBACK_ERROR_MESSAGES: Record<OperationType, string> = {
+  create: "Nie udało się dodać płatności cyklicznej.",
+  update: "Nie udało się zaktualizować płatności cyklicznej.",
+  delete: "Nie udało się usunąć płatności cyklicznej.",
+};
+
+const sortByNextRunDate = (items: readonly RecurringTransactionDto[]): RecurringTransactionDto[] =>
+  [...items].sort((a, b) => a.nextRunDate.localeCompare(b.nextRunDate));
+
+/**
+ * Custom hook for managing recurring transactions in settings.
+ * Loads rules together with categories (for names and form options) and handles CRUD operations.
+ */
+export const useRecurringTransactions = (): UseRecurringTransactionsResult => {
+  const [state, setState] = useState<RecurringTransactionsState>({
+    items: [],
+    categories: [],
+    isLoading: true,
+    error: null,
+    operationResult: null,
+  });
+
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const parseErrorResponse = useCallback(async (response: Response): Promise<SettingsError> => {
+    const status = response.status;
+    let payload: ApiErrorDto | undefined;
+
+    try {
+      const text = await response.text();
+      payload = text ? (JSON.parse(text) as ApiErrorDto) : undefined;
+    } catch (parseError) {
+      console.warn("Unable to parse API error", parseError);
+    }
+
+    const code = payload?.error.code;
+    const message = code && ERROR_MESSAGES[code] ? ERROR_MESSAGES[code] : (payload?.error.message ?? "Wystąpił błąd.");
+
+    return {
+      status,
+      message,
+      code,
+    };
+  }, []);
+
+  const loadData = useCallback(async () => {
+    abortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    setState((previous) => ({
+      ...previous,
+      isLoading: true,
+      error: null,
+    }));
+
+    try {
+      const [recurringResponse, categoriesResponse] = await Promise.all([
+        fetch(RECURRING_TRANSACTIONS_ENDPOINT, {
+          method: "GET",
+          signal: abortController.signal,
+          headers: { Accept: "application/json" },
+        }),
+        // Archived categories are included, so entries assigned to them keep their category name
+        fetch(`${CATEGORIES_ENDPOINT}?page=1&pageSize=100&includeArchived=true`, {
+          method: "GET",
+          signal: abortController.signal,
+          headers: { Accept: "application/json" },
+        }),
+      ]);
+
+      if (!recurringResponse.ok) {
+        throw await parseErrorResponse(recurringResponse);
+      }
+
+      if (!categoriesResponse.ok) {
+        throw await parseErrorResponse(categoriesResponse);
+      }
+
+      const recurringPayload = (await recurringResponse.json()) as RecurringTransactionsListResponseDto;
+      const categoriesPayload = (await categoriesResponse.json()) as CategoriesListResponseDto;
+
+      setState({
+        items: recurringPayload.data,
+        categories: categoriesPayload.data,
+        isLoading: false,
+        error: null,
+        operationResult: null,
+      });
+    } catch (error) {
+      if (error instanceof DOMException && error.name === "AbortError") {
+        return;
+      }
+
+      const settingsError =
+        typeof error === "object" && error !== null && "status" in error
+          ? (error as SettingsError)
+          : ({
+              status: 0,
+              message: "Wystąpił błąd połączenia. Spróbuj ponownie później.",
+            } satisfies SettingsError);
+
+      setState((previous) => ({
+        ...previous,
+        isLoading: false,
+        error: settingsError,
+      }));
+    }
+  }, [parseErrorResponse]);
+
+  useEffect(() => {
+    void loadData();
+
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, [loadData]);
+
+  const reportFailure = useCallback((type: OperationType, error: unknown) => {
+    const errorMessage =
+      typeof error === "object" && error !== null && "message" in error
+        ? String((error as { message?: unknown }).message) || FALLBACK_ERROR_MESSAGES[type]
+        : FALLBACK_ERROR_MESSAGES[type];
+
+    setState((previous) => ({
+      ...previous,
+      operationResult: {
+        type,
+        status: "error",
+        message: errorMessage,
+      },
+    }));
+  }, []);
+
+  const createRecurringTransaction = useCallback(
+    async (data: CreateRecurringTransactionCommand) => {
+      try {
+        const response = await fetch(RECURRING_TRANSACTIONS_ENDPOINT, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Accept: "application/json",
+          },
+          body: JSON.stringify(data),
+        });
+
+        if (!response.ok) {
+          throw await parseErrorResponse(response);
+        }
+
+        const created = (await response.json()) as RecurringTransactionDto;
+
+        setState((previous) => ({
+          ...previous,
+          items: sortByNextRunDate([...previous.items, created]),
+          operationResult: {
+            type: "create",
+            status: "success",
+            message: SUCCESS_MESSAGES.create,
+          },
+        }));
+      } catch (error) {
+        console.error("Failed to create recurring transaction", error);
+        reportFailure("create", error);
+        throw error;
+      }
+    },
+    [parseErrorResponse, reportFailure]
+  );
+
+  const updateRecurringTransaction = useCallback(
+    async (id: string, data: UpdateRecurringTransactionCommand) => {
+      try {
+        const response = await fetch(`${RECURRING_TRANSACTIONS_ENDPOINT}/${id}`, {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+            Accept: "application/json",
+          },
+          body: JSON.stringify(data),
+        });
+
+        if (!response.ok) {
+          throw await parseErrorResponse(response);
+        }
+
+        const updated = (await response.json()) as RecurringTransactionDto;
+
+        setState((previous) => ({
+          ...previous,
+          items: sortByNextRunDate(previous.items.map((item) => (item.id === id ? updated : item))),
+          operationResult: {
+            type: "update",
+            status: "success",
+            message: SUCCESS_MESSAGES.update,
+          },
+        }));
+      } catch (error) {
+        console.error("Failed to update recurring transaction", error);
+        reportFailure("update", error);
+        throw error;
+      }
+    },
+    [parseErrorResponse, reportFailure]
+  );
+
+  const deleteRecurringTransaction = useCallback(
+    async (id: string) => {
+      try {
+        const response = await fetch(`${RECURRING_TRANSACTIONS_ENDPOINT}/${id}`, {
+          method: "DELETE",
+          headers: {
+            Accept: "application/json",
+          },
+        });
+
+        if (!response.ok && response.status !== 204) {
+          throw await parseErrorResponse(response);
+        }
+
+        setState((previous) => ({
+          ...previous,
+          items: previous.items.filter((item) => item.id !== id),
+          operationResult: {
+            type: "delete",
+            status: "success",
+            message: SUCCESS_MESSAGES.delete,
+          },
+        }));
+      } catch (error) {
+        console.error("Failed to delete recurring transaction", error);
+        reportFailure("delete", error);
+        throw error;
+      }
+    },
+    [parseErrorResponse, reportFailure]
+  );
+
+  const recurringTransactions = useMemo<RecurringTransactionVM[]>(() => {
+    const categoryNames = new Map(state.categories.map((category) => [category.id, category.name]));
+
+    return state.items.map((item) => ({
+      ...item,
+      categoryName: categoryNames.get(item.categoryId) ?? "Nieznana kategoria",
+    }));
+  }, [state.categories, state.items]);
+
+  // Redirect to login on 401 error
+  useEffect(() => {
+    if (state.error?.status === 401) {
+      window.location.href = "/login";
+    }
+  }, [state.error]);
+
+  return {
+    recurringTransactions,
+    categories: state.categories,
+    isLoading: state.isLoading,
+    error: state.error,
+    operationResult: state.operationResult,
+    createRecurringTransaction,
+    updateRecurringTransaction,
+    deleteRecurringTransaction,
+    retry: loadData,
+    clearOperationResult: useCallback(
+      () =>
+        setState((previous) => ({
+          ...previous,
+          operationResult: null,
+        })),
+      []
+    ),
+  };
+};
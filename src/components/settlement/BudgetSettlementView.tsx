@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { AlertCircle, ArrowLeft, ArrowRight } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatCurrency, formatMonth, formatPercentage } from "@/lib/formatters";
+import { cn } from "@/lib/utils";
+import type { SettlementSplitRule } from "@/types";
+
+import { useBudgetSettlement, type SettlementWeights } from "./useBudgetSettlement";
+
+interface BudgetSettlementViewProps {
+  readonly budgetId: string;
+}
+
+const RULE_OPTIONS: { value: SettlementSplitRule; label: string }[] = [
+  { value: "equal", label: "Po równo" },
+  { value: "income", label: "Proporcjonalnie do przychodów" },
+  { value: "custom", label: "Własne wagi" },
+];
+
+const DEFAULT_WEIGHT = "1";
+
+/**
+ * Widok rozliczenia budżetu: kto komu i ile powinien oddać, aby wydatki zostały podzielone według wybranej reguły.
+ */
+export const BudgetSettlementView = ({ budgetId }: BudgetSettlementViewProps) => {
+  const { settlement, members, isLoading, error, calculate } = useBudgetSettlement(budgetId);
+  const [rule, setRule] = useState<SettlementSplitRule>("equal");
+  const [weights, setWeights] = useState<Record<string, string>>({});
+
+  const activeMembers = members.filter((member) => member.isActive);
+  const weightsAreValid = activeMembers.every((member) => {
+    const weight = Number(weights[member.id] ?? DEFAULT_WEIGHT);
+    return Number.isFinite(weight) && weight >= 0;
+  });
+
+  const buildWeights = (): SettlementWeights =>
+    Object.fromEntries(activeMembers.map((member) => [member.id, Number(weights[member.id] ?? DEFAULT_WEIGHT)]));
+
+  const handleRuleChange = (value: string) => {
+    const nextRule = value as SettlementSplitRule;
+    setRule(nextRule);
+    void calculate(nextRule, nextRule === "custom" ? buildWeights() : undefined);
+  };
+
+  const handleRecalculate = () => {
+    void calculate(rule, buildWeights());
+  };
+
+  return (
+    <div className="mx-auto max-w-4xl space-y-6 p-4">
+      <header className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-semibold">Rozliczenie budżetu</h1>
+          {settlement ? (
+            <p className="text-sm text-muted-foreground">Miesiąc: {formatMonth(settlement.month)}</p>
+          ) : null}
+        </div>
+        <Button variant="outline" asChild>
+          <a href={`/budget/${budgetId}/edit`}>
+            <ArrowLeft className="mr-2 size-4" aria-hidden />
+            Wróć do budżetu
+          </a>
+        </Button>
+      </header>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Reguła podziału</CardTitle>
+          <CardDescription>Określ, jaką część wydatków powinien pokryć każdy członek gospodarstwa.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Select value={rule} onValueChange={handleRuleChange}>
+            <SelectTrigger className="w-full sm:w-80" aria-label="Reguła podziału">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RULE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {rule === "custom" ? (
+            <div className="space-y-3">
+              {activeMembers.map((member) => (
+                <div key={member.id} className="flex items-center justify-between gap-3">
+                  <Label htmlFor={`weight-${member.id}`}>{member.fullName}</Label>
+                  <Input
+                    id={`weight-${member.id}`}
+                    className="w-28"
+                    type="number"
+                    inputMode="decimal"
+                    min="0"
+                    step="0.5"
+                    value={weights[member.id] ?? DEFAULT_WEIGHT}
+                    onChange={(event) => setWeights((previous) => ({ ...previous, [member.id]: event.target.value }))}
+                  />
+                </div>
+              ))}
+              <Button onClick={handleRecalculate} disabled={isLoading || !weightsAreValid}>
+                Przelicz
+              </Button>
+            </div>
+          ) : null}
+        </CardContent>
+      </Card>
+
+      {error ? (
+        <div className="flex items-center gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-4 text-sm text-destructive">
+          <AlertCircle className="size-4" aria-hidden />
+          <span>{error}</span>
+        </div>
+      ) : null}
+
+      {isLoading && !settlement ? (
+        <div className="space-y-3">
+          <Skeleton className="h-32 w-full" />
+          <Skeleton className="h-24 w-full" />
+        </div>
+      ) : null}
+
+      {settlement ? (
+        <div className={cn("grid gap-4 lg:grid-cols-2", isLoading && "opacity-60")}>
+          <Card>
+            <CardHeader>
+              <CardTitle>Salda członków</CardTitle>
+              <CardDescription>
+                Wydatki do rozliczenia:{" "}
+                <span className="font-semibold text-foreground">{formatCurrency(settlement.totalPaid)}</span>
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {settlement.members.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Brak przychodów i wydatków przypisanych do członków.</p>
+              ) : (
+                <ul className="space-y-3 text-sm">
+                  {settlement.members.map((member) => (
+                    <li key={member.householdMemberId} className="space-y-1">
+                      <div className="flex justify-between font-medium">
+                        <span>{member.fullName}</span>
+                        <span
+                          className={cn(
+                            member.balance > 0 && "text-emerald-600",
+                            member.balance < 0 && "text-destructive"
+                          )}
+                        >
+                          {formatCurrency(member.balance)}
+                        </span>
+                      </div>
+                      <p className="text-muted-foreground">
+                        Zapłacił(a) {formatCurrency(member.paid)} · udział {formatPercentage(member.share)} · do
+                        pokrycia {formatCurrency(member.owed)}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {settlement.unassignedSpent > 0 ? (
+                <p className="mt-4 text-xs text-muted-foreground">
+                  Wydatki bez przypisanego płacącego ({formatCurrency(settlement.unassignedSpent)}) nie są uwzględnione
+                  w rozliczeniu.
+                </p>
+              ) : null}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Przelewy</CardTitle>
+              <CardDescription>Najkrótsza lista przelewów wyrównujących salda.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {settlement.transfers.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Wszyscy są rozliczeni.</p>
+              ) : (
+                <ul className="space-y-2 text-sm">
+                  {settlement.transfers.map((transfer) => (
+                    <li
+                      key={`${transfer.fromMemberId}-${transfer.toMemberId}`}
+                      className="flex items-center justify-between gap-2"
+                    >
+                      <span className="flex items-center gap-2">
+                        {transfer.fromName}
+                        <ArrowRight className="size-4 text-muted-foreground" aria-label="przekazuje" />
+                        {transfer.toName}
+                      </span>
+                      <span className="font-medium text-foreground">{formatCurrency(transfer.amount)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      ) : null}
+    </div>
+  );
+};
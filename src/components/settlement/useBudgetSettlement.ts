@@ -0,0 +1,138 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import type {
+  ApiErrorDto,
+  BudgetSettlementDto,
+  HouseholdMemberDto,
+  HouseholdMembersListResponseDto,
+  SettlementSplitRule,
+} from "@/types";
+
+/**
+ * Wagi podziału wydatków dla reguły niestandardowej (ID członka -> waga).
+ */
+export type SettlementWeights = Readonly<Record<string, number>>;
+
+interface BudgetSettlementState {
+  readonly settlement: BudgetSettlementDto | null;
+  readonly members: readonly HouseholdMemberDto[];
+  readonly isLoading: boolean;
+  readonly error: string | null;
+}
+
+export interface UseBudgetSettlementResult extends BudgetSettlementState {
+  readonly calculate: (rule: SettlementSplitRule, weights?: SettlementWeights) => Promise<void>;
+}
+
+const MEMBERS_ENDPOINT = "/api/household-members";
+
+const ERROR_MESSAGES: Record<string, string> = {
+  UNAUTHENTICATED: "Sesja wygasła. Zaloguj się ponownie.",
+  BUDGET_NOT_FOUND: "Nie znaleziono budżetu.",
+  INVALID_QUERY_PARAMS: "Nieprawidłowe wagi podziału.",
+  INVALID_MEMBER: "Wagi zawierają nieznanego członka gospodarstwa.",
+  SETTLEMENT_FETCH_FAILED: "Nie udało się obliczyć rozliczenia.",
+};
+
+const parseErrorResponse = async (response: Response): Promise<string> => {
+  try {
+    const payload = (await response.json()) as ApiErrorDto;
+    return ERROR_MESSAGES[payload.error.code] ?? payload.error.message;
+  } catch (parseError) {
+    console.warn("Unable to parse API error", parseError);
+    return "Nie udało się obliczyć rozliczenia.";
+  }
+};
+
+/**
+ * Hook pobierający rozliczenie budżetu między członkami gospodarstwa dla wybranej reguły podziału.
+ */
+export const useBudgetSettlement = (budgetId: string): UseBudgetSettlementResult => {
+  const [state, setState] = useState<BudgetSettlementState>({
+    settlement: null,
+    members: [],
+    isLoading: true,
+    error: null,
+  });
+
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const calculate = useCallback(
+    async (rule: SettlementSplitRule, weights: SettlementWeights = {}) => {
+      abortControllerRef.current?.abort();
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+
+      setState((previous) => ({ ...previous, isLoading: true, error: null }));
+
+      const params = new URLSearchParams({ rule });
+      if (rule === "custom") {
+        params.set(
+          "weights",
+          Object.entries(weights)
+            .map(([memberId, weight]) => `${memberId}:${weight}`)
+            .join(",")
+        );
+      }
+
+      try {
+        const response = await fetch(`/api/budgets/${budgetId}/settlement?${params.toString()}`, {
+          method: "GET",
+          signal: abortController.signal,
+          headers: { Accept: "application/json" },
+        });
+
+        if (!response.ok) {
+          const message = await parseErrorResponse(response);
+          setState((previous) => ({ ...previous, isLoading: false, error: message }));
+          return;
+        }
+
+        const settlement = (await response.json()) as BudgetSettlementDto;
+        setState((previous) => ({ ...previous, settlement, isLoading: false }));
+      } catch (cause) {
+        if (cause instanceof DOMException && cause.name === "AbortError") {
+          return;
+        }
+
+        console.error("Failed to fetch budget settlement", cause);
+        setState((previous) => ({
+          ...previous,
+          isLoading: false,
+          error: "Nie udało się obliczyć rozliczenia.",
+        }));
+      }
+    },
+    [budgetId]
+  );
+
+  const fetchMembers = useCallback(async (): Promise<readonly HouseholdMemberDto[]> => {
+    try {
+      const response = await fetch(`${MEMBERS_ENDPOINT}?includeInactive=true&pageSize=100`, {
+        method: "GET",
+        headers: { Accept: "application/json" },
+      });
+
+      if (!response.ok) {
+        return [];
+      }
+
+      const payload = (await response.json()) as HouseholdMembersListResponseDto;
+      return payload.data;
+    } catch (cause) {
+      console.error("Failed to fetch household members", cause);
+      return [];
+    }
+  }, []);
+
+  useEffect(() => {
+    void fetchMembers().then((members) => setState((previous) => ({ ...previous, members })));
+    void calculate("equal");
+
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, [calculate, fetchMembers]);
+
+  return { ...state, calculate };
+};
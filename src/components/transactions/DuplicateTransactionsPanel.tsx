@@ -0,0 +1,105 @@
+import { Copy, Loader2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  getDuplicatePairKey,
+  type UseTransactionDuplicatesResult,
+} from "@/components/transactions/useTransactionDuplicates";
+import { formatCurrency } from "@/lib/formatters";
+import type { TransactionDto, TransactionDuplicatePairDto } from "@/types";
+
+export interface DuplicateTransactionsPanelProps {
+  readonly duplicates: UseTransactionDuplicatesResult;
+  readonly categoriesIndex: ReadonlyMap<string, string>;
+  /** Wywoływane po scaleniu pary, aby odświeżyć listę transakcji */
+  readonly onMerged: () => void;
+}
+
+const DuplicateTransactionSummary = ({
+  transaction,
+  categoriesIndex,
+}: {
+  readonly transaction: TransactionDto;
+  readonly categoriesIndex: ReadonlyMap<string, string>;
+}) => (
+  <div className="flex-1 space-y-1 rounded-md bg-muted/60 p-3 text-sm">
+    <div className="flex items-center justify-between gap-2">
+      <span className="font-medium">
+        {categoriesIndex.get(transaction.categoryId) ?? "Nieznana kategoria"} · {formatCurrency(transaction.amount)}
+      </span>
+      <span className="text-muted-foreground">{new Date(transaction.transactionDate).toLocaleDateString("pl-PL")}</span>
+    </div>
+    <p className="text-muted-foreground">{transaction.note || "Brak notatki"}</p>
+  </div>
+);
+
+/**
+ * Lista par transakcji wyglądających na ten sam wydatek zapisany dwukrotnie.
+ * Parę można scalić (zostaje wcześniejsza transakcja) albo oznaczyć jako dwa różne wydatki.
+ */
+export const DuplicateTransactionsPanel = ({
+  duplicates,
+  categoriesIndex,
+  onMerged,
+}: DuplicateTransactionsPanelProps) => {
+  const { pairs, error, processingPairKey, mergePair, dismissPair } = duplicates;
+
+  if (pairs.length === 0 && !error) {
+    return null;
+  }
+
+  const handleMerge = async (pair: TransactionDuplicatePairDto) => {
+    if (await mergePair(pair)) {
+      onMerged();
+    }
+  };
+
+  return (
+    <Card className="border-amber-200" data-testid="duplicate-transactions-panel">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Copy className="size-4" aria-hidden />
+          Możliwe duplikaty
+        </CardTitle>
+        <CardDescription>
+          Te transakcje mają tę samą kategorię i kwotę, podobny opis i zostały zapisane w odstępie kilku dni.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error ? (
+          <p role="alert" className="text-sm text-destructive">
+            {error}
+          </p>
+        ) : null}
+        {pairs.map((pair) => {
+          const pairKey = getDuplicatePairKey(pair);
+          const isProcessing = processingPairKey === pairKey;
+
+          return (
+            <div key={pairKey} className="space-y-3 border-b border-border/60 pb-4 last:border-b-0 last:pb-0">
+              <div className="flex flex-col gap-2 md:flex-row">
+                <DuplicateTransactionSummary transaction={pair.transaction} categoriesIndex={categoriesIndex} />
+                <DuplicateTransactionSummary transaction={pair.duplicate} categoriesIndex={categoriesIndex} />
+              </div>
+              <div className="flex flex-wrap justify-end gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={processingPairKey !== null}
+                  onClick={() => void dismissPair(pair)}
+                >
+                  To różne wydatki
+                </Button>
+                <Button size="sm" disabled={processingPairKey !== null} onClick={() => void handleMerge(pair)}>
+                  {isProcessing ? <Loader2 className="size-4 animate-spin" aria-hidden /> : null}
+                  Scal
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
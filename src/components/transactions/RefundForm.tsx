@@ -0,0 +1,197 @@
+import { useCallback, useMemo, useState } from "react";
+
+import { zodResolver } from "@hookform/resolvers/zod";
+import { format } from "date-fns";
+import { pl } from "date-fns/locale";
+import { CalendarIcon, Loader2 } from "lucide-react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { DialogFooter } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Textarea } from "@/components/ui/textarea";
+import type { TransactionVM } from "@/components/transactions/useTransactionsHistory";
+import { formatCurrency } from "@/lib/formatters";
+import { cn } from "@/lib/utils";
+import type { CreateTransactionCommand } from "@/types";
+
+export interface RefundFormValues {
+  readonly amount: string;
+  readonly transactionDate: string;
+  readonly note: string;
+}
+
+export interface RefundFormProps {
+  /** Expense the refund returns money for */
+  readonly transaction: TransactionVM;
+  readonly onSubmit: (data: CreateTransactionCommand) => Promise<void>;
+  readonly onCancel: () => void;
+  readonly formError?: string | null;
+  readonly onClearError?: () => void;
+}
+
+const AMOUNT_REGEX = /^\d+(?:\.\d{1,2})?$/;
+
+/**
+ * Form for recording a refund of an expense.
+ * The refund gets the category of the expense, so only the amount, date and note are asked for.
+ */
+export const RefundForm = ({ transaction, onSubmit, onCancel, formError, onClearError }: RefundFormProps) => {
+  const formSchema = useMemo(
+    () =>
+      z.object({
+        amount: z
+          .string()
+          .min(1, "Kwota jest wymagana.")
+          .refine((value) => AMOUNT_REGEX.test(value), "Kwota może mieć maksymalnie dwa miejsca po przecinku.")
+          .refine((value) => Number(value) > 0, "Kwota musi być większa od zera.")
+          .refine(
+            (value) => Number(value) <= transaction.amount,
+            `Zwrot nie może przekroczyć kwoty wydatku (${formatCurrency(transaction.amount)}).`
+          ),
+        transactionDate: z
+          .string()
+          .regex(/^\d{4}-\d{2}-\d{2}$/)
+          .refine((value) => !Number.isNaN(new Date(value).getTime()), "Podaj poprawną datę."),
+        note: z.string().max(500, "Notatka nie może przekraczać 500 znaków."),
+      }),
+    [transaction.amount]
+  );
+
+  const form = useForm<RefundFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      amount: transaction.amount.toFixed(2),
+      transactionDate: format(new Date(), "yyyy-MM-dd"),
+      note: transaction.note ? `Zwrot: ${transaction.note}`.slice(0, 500) : "",
+    },
+  });
+
+  const isSubmitting = form.formState.isSubmitting;
+  const [isTransactionDateOpen, setIsTransactionDateOpen] = useState(false);
+  const transactionDateValue = form.watch("transactionDate");
+
+  const onFormSubmit = useCallback(
+    async (values: RefundFormValues) => {
+      onClearError?.();
+
+      const note = values.note.trim();
+
+      try {
+        await onSubmit({
+          amount: Number(Number(values.amount).toFixed(2)),
+          transactionDate: values.transactionDate,
+          note: note.length > 0 ? note : undefined,
+          householdMemberId: transaction.householdMemberId ?? undefined,
+        });
+      } catch (error) {
+        console.error("Failed to submit refund form", error);
+        // Error is handled by parent component
+      }
+    },
+    [onClearError, onSubmit, transaction.householdMemberId]
+  );
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onFormSubmit)} className="space-y-6">
+        <FormField
+          name="amount"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Zwracana kwota</FormLabel>
+              <FormControl>
+                <Input {...field} inputMode="decimal" type="number" min="0.01" step="0.01" disabled={isSubmitting} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          name="transactionDate"
+          render={({ field }) => (
+            <FormItem className="flex flex-col">
+              <FormLabel>Data zwrotu</FormLabel>
+              <Popover open={isTransactionDateOpen} onOpenChange={setIsTransactionDateOpen}>
+                <PopoverTrigger asChild>
+                  <FormControl>
+                    <Button
+                      variant="outline"
+                      type="button"
+                      className={cn("justify-start text-left font-normal", !field.value && "text-muted-foreground")}
+                      disabled={isSubmitting}
+                    >
+                      {transactionDateValue
+                        ? format(new Date(transactionDateValue), "PPP", { locale: pl })
+                        : "Wybierz datę"}
+                      <CalendarIcon className="ml-auto size-4 opacity-50" />
+                    </Button>
+                  </FormControl>
+                </PopoverTrigger>
+                <PopoverContent align="start" className="p-0">
+                  <Calendar
+                    mode="single"
+                    selected={transactionDateValue ? new Date(transactionDateValue) : undefined}
+                    onSelect={(date) => {
+                      if (!date) {
+                        return;
+                      }
+
+                      field.onChange(format(date, "yyyy-MM-dd"));
+                      setIsTransactionDateOpen(false);
+                    }}
+                    locale={pl}
+                  />
+                </PopoverContent>
+              </Popover>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          name="note"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notatka</FormLabel>
+              <FormControl>
+                <Textarea {...field} rows={3} maxLength={500} disabled={isSubmitting} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {formError && (
+          <div
+            role="alert"
+            className="rounded-md border border-destructive bg-destructive/10 px-4 py-3 text-sm text-destructive"
+          >
+            {formError}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+            Anuluj
+          </Button>
+          <Button type="submit" disabled={isSubmitting}>
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" aria-hidden="true" />
+                Zapisywanie...
+              </>
+            ) : (
+              "Zapisz zwrot"
+            )}
+          </Button>
+        </DialogFooter>
+      </form>
+    </Form>
+  );
+};
@@ -3,7 +3,7 @@ import { useCallback, useMemo, useState } from "react";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { format } from "date-fns";
 import { pl } from "date-fns/locale";
-import { CalendarIcon, Loader2 } from "lucide-react";
+import { CalendarIcon, Loader2, Split } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 
@@ -11,25 +11,45 @@ import { Button } from "@/components/ui/button";
 import { DialogFooter } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { formatCurrency } from "@/lib/formatters";
 import { cn } from "@/lib/utils";
+import {
+  TransactionSplitsEditor,
+  createEmptySplitLines,
+  refineSplitLines,
+  splitLineFormSchema,
+  toSplitCommandItems,
+  type SplitLineFormValues,
+} from "@/components/transactions/TransactionSplitsEditor";
 import type { TransactionVM } from "@/components/transactions/useTransactionsHistory";
-import type { CategoryDto, UpdateTransactionCommand } from "@/types";
+import type {
+  CategoryDto,
+  HouseholdMemberDto,
+  TransactionKind,
+  TransactionSplitCommandItem,
+  UpdateTransactionCommand,
+} from "@/types";
 
 export interface TransactionFormValues {
+  readonly kind: TransactionKind;
   readonly categoryId: string;
   readonly amount: string;
   readonly transactionDate: string;
   readonly note?: string | null;
+  readonly householdMemberId: string;
+  readonly isSplit: boolean;
+  readonly splits: SplitLineFormValues[];
 }
 
 export interface TransactionFormProps {
   readonly transaction: TransactionVM;
   readonly categories: readonly CategoryDto[];
+  readonly members?: readonly HouseholdMemberDto[];
   readonly onSubmit: (id: string, data: UpdateTransactionCommand) => Promise<void>;
   readonly onCancel: () => void;
   readonly formError?: string | null;
@@ -38,23 +58,53 @@ export interface TransactionFormProps {
 
 const AMOUNT_REGEX = /^\d+(?:\.\d{1,2})?$/;
 
-const formSchema = z.object({
-  categoryId: z.string().uuid({ message: "Wybierz poprawną kategorię." }),
-  amount: z
-    .string()
-    .min(1, "Kwota jest wymagana.")
-    .refine((value) => AMOUNT_REGEX.test(value), "Kwota może mieć maksymalnie dwa miejsca po przecinku.")
-    .refine((value) => Number(value) > 0, "Kwota musi być większa od zera."),
-  transactionDate: z
-    .string()
-    .regex(/^\d{4}-\d{2}-\d{2}$/)
-    .refine((value) => !Number.isNaN(new Date(value).getTime()), "Podaj poprawną datę."),
-  note: z.string().max(500, "Notatka nie może przekraczać 500 znaków.").optional().nullable(),
-});
+// Radix Select does not accept an empty value, so "not assigned" gets its own option value
+const UNASSIGNED_MEMBER_VALUE = "none";
+
+const formSchema = z
+  .object({
+    kind: z.enum(["expense", "refund"]),
+    categoryId: z.string(),
+    amount: z
+      .string()
+      .min(1, "Kwota jest wymagana.")
+      .refine((value) => AMOUNT_REGEX.test(value), "Kwota może mieć maksymalnie dwa miejsca po przecinku.")
+      .refine((value) => Number(value) > 0, "Kwota musi być większa od zera."),
+    transactionDate: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/)
+      .refine((value) => !Number.isNaN(new Date(value).getTime()), "Podaj poprawną datę."),
+    note: z.string().max(500, "Notatka nie może przekraczać 500 znaków.").optional().nullable(),
+    householdMemberId: z.string(),
+    isSplit: z.boolean(),
+    splits: z.array(splitLineFormSchema),
+  })
+  .superRefine((values, ctx) => {
+    if (values.isSplit) {
+      refineSplitLines(ctx, values.amount, values.splits);
+      return;
+    }
+
+    if (!z.string().uuid().safeParse(values.categoryId).success) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Wybierz poprawną kategorię.",
+        path: ["categoryId"],
+      });
+    }
+  });
+
+const areSplitsEqual = (
+  left: readonly TransactionSplitCommandItem[],
+  right: readonly TransactionSplitCommandItem[]
+): boolean =>
+  left.length === right.length &&
+  left.every((split, index) => split.categoryId === right[index].categoryId && split.amount === right[index].amount);
 
 export const TransactionForm = ({
   transaction,
   categories,
+  members = [],
   onSubmit,
   onCancel,
   formError,
@@ -63,10 +113,14 @@ export const TransactionForm = ({
   const form = useForm<TransactionFormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
+      kind: transaction.kind,
       categoryId: transaction.categoryId,
       amount: transaction.amount.toFixed(2),
       transactionDate: transaction.transactionDate,
       note: transaction.note ?? "",
+      householdMemberId: transaction.householdMemberId ?? "",
+      isSplit: transaction.splits.length > 0,
+      splits: transaction.splits.map((split) => ({ categoryId: split.categoryId, amount: split.amount.toFixed(2) })),
     },
   });
 
@@ -75,6 +129,26 @@ export const TransactionForm = ({
   const amountHintId = "transaction-amount-hint";
   const transactionDateValue = form.watch("transactionDate");
   const [isTransactionDateOpen, setIsTransactionDateOpen] = useState(false);
+  const isSplit = form.watch("isSplit");
+  const amountValue = form.watch("amount");
+
+  const handleToggleSplit = useCallback(() => {
+    if (form.getValues("isSplit")) {
+      form.setValue("isSplit", false);
+      form.setValue("splits", []);
+      return;
+    }
+
+    const [firstLine, ...otherLines] = createEmptySplitLines();
+    form.setValue("splits", [
+      {
+        categoryId: form.getValues("categoryId") || firstLine.categoryId,
+        amount: form.getValues("amount") || firstLine.amount,
+      },
+      ...otherLines,
+    ]);
+    form.setValue("isSplit", true);
+  }, [form]);
 
   const onFormSubmit = useCallback(
     async (values: TransactionFormValues) => {
@@ -82,14 +156,38 @@ export const TransactionForm = ({
       onClearError?.();
 
       const payloadParts: {
+        kind?: TransactionKind;
         categoryId?: string;
         amount?: number;
         transactionDate?: string;
         note?: string | null;
+        householdMemberId?: string | null;
+        splits?: TransactionSplitCommandItem[] | null;
       } = {};
 
-      if (values.categoryId && values.categoryId !== transaction.categoryId) {
-        payloadParts.categoryId = values.categoryId;
+      const existingSplits = transaction.splits.map((split) => ({
+        categoryId: split.categoryId,
+        amount: split.amount,
+      }));
+
+      if (values.isSplit) {
+        const splits = toSplitCommandItems(values.splits);
+        if (!areSplitsEqual(splits, existingSplits)) {
+          payloadParts.splits = splits;
+        }
+      } else {
+        if (existingSplits.length > 0) {
+          // Turn the split transaction back into a single-category one
+          payloadParts.splits = null;
+        }
+
+        if (values.categoryId && values.categoryId !== transaction.categoryId) {
+          payloadParts.categoryId = values.categoryId;
+        }
+      }
+
+      if (values.kind !== transaction.kind) {
+        payloadParts.kind = values.kind;
       }
 
       const amountNumber = Number(values.amount);
@@ -106,6 +204,10 @@ export const TransactionForm = ({
         payloadParts.note = sanitizedNote.length === 0 ? null : sanitizedNote;
       }
 
+      if (values.householdMemberId !== (transaction.householdMemberId ?? "")) {
+        payloadParts.householdMemberId = values.householdMemberId || null;
+      }
+
       if (Object.keys(payloadParts).length === 0) {
         setLocalError("Wprowadź zmiany przed zapisaniem.");
         return;
@@ -124,8 +226,26 @@ export const TransactionForm = ({
     [form, onSubmit, transaction]
   );
 
+  // Inactive members cannot be chosen, but the one already assigned stays visible
+  const memberOptions = useMemo(
+    () => members.filter((member) => member.isActive || member.id === transaction.householdMemberId),
+    [members, transaction.householdMemberId]
+  );
+
+  // Archived categories cannot be chosen, but the ones already assigned stay visible
+  const availableCategories = useMemo(
+    () =>
+      categories.filter(
+        (category) =>
+          !category.isArchived ||
+          category.id === transaction.categoryId ||
+          transaction.splits.some((split) => split.categoryId === category.id)
+      ),
+    [categories, transaction.categoryId, transaction.splits]
+  );
+
   const categoriesOptions = useMemo(() => {
-    if (!categories.length) {
+    if (!availableCategories.length) {
       return [
         <SelectItem key="no-category" value="" disabled>
           Brak kategorii
@@ -133,12 +253,12 @@ export const TransactionForm = ({
       ];
     }
 
-    return categories.map((category) => (
+    return availableCategories.map((category) => (
       <SelectItem key={category.id} value={category.id}>
         {category.name}
       </SelectItem>
     ));
-  }, [categories]);
+  }, [availableCategories]);
 
   const transactionDateLabel = useMemo(() => {
     if (!transactionDateValue) {
@@ -154,16 +274,19 @@ export const TransactionForm = ({
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onFormSubmit)} className="space-y-6">
         <FormField
-          name="categoryId"
+          name="kind"
           render={({ field }) => (
             <FormItem>
-              <FormLabel>Kategoria</FormLabel>
+              <FormLabel>Rodzaj</FormLabel>
               <FormControl>
                 <Select disabled={isSubmitting} onValueChange={field.onChange} value={field.value}>
-                  <SelectTrigger aria-label="Kategoria">
-                    <SelectValue placeholder="Wybierz kategorię" />
+                  <SelectTrigger aria-label="Rodzaj">
+                    <SelectValue />
                   </SelectTrigger>
-                  <SelectContent>{categoriesOptions}</SelectContent>
+                  <SelectContent>
+                    <SelectItem value="expense">Wydatek</SelectItem>
+                    <SelectItem value="refund">Zwrot</SelectItem>
+                  </SelectContent>
                 </Select>
               </FormControl>
               <FormMessage />
@@ -171,6 +294,40 @@ export const TransactionForm = ({
           )}
         />
 
+        {isSplit ? (
+          <div className="space-y-2">
+            <Label>Podział na kategorie</Label>
+            <TransactionSplitsEditor
+              categories={availableCategories}
+              totalAmount={amountValue}
+              disabled={isSubmitting}
+            />
+          </div>
+        ) : (
+          <FormField
+            name="categoryId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Kategoria</FormLabel>
+                <FormControl>
+                  <Select disabled={isSubmitting} onValueChange={field.onChange} value={field.value}>
+                    <SelectTrigger aria-label="Kategoria">
+                      <SelectValue placeholder="Wybierz kategorię" />
+                    </SelectTrigger>
+                    <SelectContent>{categoriesOptions}</SelectContent>
+                  </Select>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <Button type="button" variant="ghost" size="sm" onClick={handleToggleSplit} disabled={isSubmitting}>
+          <Split className="mr-2 size-4" aria-hidden />
+          {isSplit ? "Jedna kategoria" : "Podziel na kategorie"}
+        </Button>
+
         <FormField
           name="amount"
           render={({ field }) => (
@@ -236,6 +393,37 @@ export const TransactionForm = ({
           )}
         />
 
+        {memberOptions.length > 0 ? (
+          <FormField
+            name="householdMemberId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Kto zapłacił?</FormLabel>
+                <FormControl>
+                  <Select
+                    disabled={isSubmitting}
+                    onValueChange={(value) => field.onChange(value === UNASSIGNED_MEMBER_VALUE ? "" : value)}
+                    value={field.value || UNASSIGNED_MEMBER_VALUE}
+                  >
+                    <SelectTrigger aria-label="Kto zapłacił?">
+                      <SelectValue placeholder="Nie przypisano" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNASSIGNED_MEMBER_VALUE}>Nie przypisano</SelectItem>
+                      {memberOptions.map((member) => (
+                        <SelectItem key={member.id} value={member.id}>
+                          {member.fullName}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ) : null}
+
         <FormField
           name="note"
           render={({ field }) => (
@@ -1,6 +1,6 @@
 import { useMemo } from "react";
 
-import { PenLine, Trash2 } from "lucide-react";
+import { PenLine, Trash2, Undo2, Wand2 } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
@@ -16,12 +16,35 @@ import { formatCurrency } from "@/lib/formatters";
 
 export interface TransactionListItemProps {
   readonly transaction: TransactionVM;
-  readonly onEdit: (transaction: TransactionVM) => void;
-  readonly onDelete: (transaction: TransactionVM) => void;
+  /** Otwiera edycję transakcji; pozycja menu jest ukryta, gdy nie podano */
+  readonly onEdit?: (transaction: TransactionVM) => void;
+  /** Usuwa transakcję; pozycja menu jest ukryta, gdy nie podano */
+  readonly onDelete?: (transaction: TransactionVM) => void;
+  /** Tworzy regułę kategoryzacji z notatki i kategorii transakcji */
+  readonly onLearnRule?: (transaction: TransactionVM) => void;
+  /** Rejestruje zwrot pieniędzy za wydatek */
+  readonly onRecordRefund?: (transaction: TransactionVM) => void;
 }
 
-export const TransactionListItem = ({ transaction, onEdit, onDelete }: TransactionListItemProps) => {
-  const formattedAmount = useMemo(() => formatCurrency(transaction.amount), [transaction.amount]);
+export const TransactionListItem = ({
+  transaction,
+  onEdit,
+  onDelete,
+  onLearnRule,
+  onRecordRefund,
+}: TransactionListItemProps) => {
+  const isRefund = transaction.kind === "refund";
+  // Split transactions have no single category a rule could assign
+  const canLearnRule = !!onLearnRule && !!transaction.note && transaction.splits.length === 0;
+  const canRecordRefund = !!onRecordRefund && !isRefund;
+  // The menu is hidden when the household role of the user allows none of the actions
+  const hasActions = !!onEdit || !!onDelete || canLearnRule || canRecordRefund;
+
+  // Refunds are shown with a plus sign, as money coming back
+  const formattedAmount = useMemo(
+    () => (isRefund ? `+${formatCurrency(transaction.amount)}` : formatCurrency(transaction.amount)),
+    [isRefund, transaction.amount]
+  );
   const transactionDateLabel = useMemo(
     () => new Date(transaction.transactionDate).toLocaleDateString("pl-PL"),
     [transaction.transactionDate]
@@ -39,51 +62,99 @@ export const TransactionListItem = ({ transaction, onEdit, onDelete }: Transacti
     <Card className="border-border/60">
       <CardHeader className="flex flex-row items-center justify-between gap-2">
         <div>
-          <CardTitle className="text-base font-semibold">{transaction.categoryName}</CardTitle>
+          <CardTitle className="flex items-center gap-2 text-base font-semibold">
+            {transaction.categoryName}
+            {isRefund ? (
+              <span className="rounded-full bg-emerald-100 px-2 py-0.5 text-xs font-medium text-emerald-700 dark:bg-emerald-950/60 dark:text-emerald-300">
+                Zwrot
+              </span>
+            ) : null}
+          </CardTitle>
           <CardDescription>{transactionDateLabel}</CardDescription>
         </div>
-        <DropdownMenu>
-          <DropdownMenuTrigger asChild>
-            <Button variant="ghost" size="icon" aria-haspopup="menu">
-              <span className="sr-only">Pokaż działania</span>
-              <svg
-                xmlns="http://www.w3.org/2000/svg"
-                viewBox="0 0 24 24"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                className="size-5"
-                aria-hidden
-              >
-                <circle cx="12" cy="5" r="1.5" />
-                <circle cx="12" cy="12" r="1.5" />
-                <circle cx="12" cy="19" r="1.5" />
-              </svg>
-            </Button>
-          </DropdownMenuTrigger>
-          <DropdownMenuContent align="end" className="w-48" sideOffset={8}>
-            <DropdownMenuItem onSelect={() => onEdit(transaction)}>
-              <PenLine className="mr-2 size-4" aria-hidden />
-              Edytuj
-            </DropdownMenuItem>
-            <DropdownMenuSeparator />
-            <DropdownMenuItem
-              onSelect={() => onDelete(transaction)}
-              className="text-destructive focus:text-destructive"
-            >
-              <Trash2 className="mr-2 size-4" aria-hidden />
-              Usuń
-            </DropdownMenuItem>
-          </DropdownMenuContent>
-        </DropdownMenu>
+        {hasActions ? (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon" aria-haspopup="menu">
+                <span className="sr-only">Pokaż działania</span>
+                <svg
+                  xmlns="http://www.w3.org/2000/svg"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  className="size-5"
+                  aria-hidden
+                >
+                  <circle cx="12" cy="5" r="1.5" />
+                  <circle cx="12" cy="12" r="1.5" />
+                  <circle cx="12" cy="19" r="1.5" />
+                </svg>
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-64" sideOffset={8}>
+              {onEdit ? (
+                <DropdownMenuItem onSelect={() => onEdit(transaction)}>
+                  <PenLine className="mr-2 size-4" aria-hidden />
+                  Edytuj
+                </DropdownMenuItem>
+              ) : null}
+              {canRecordRefund ? (
+                <DropdownMenuItem onSelect={() => onRecordRefund?.(transaction)}>
+                  <Undo2 className="mr-2 size-4" aria-hidden />
+                  Dodaj zwrot
+                </DropdownMenuItem>
+              ) : null}
+              {canLearnRule ? (
+                <DropdownMenuItem onSelect={() => onLearnRule?.(transaction)}>
+                  <Wand2 className="mr-2 size-4" aria-hidden />
+                  Utwórz regułę z tej transakcji
+                </DropdownMenuItem>
+              ) : null}
+              {onDelete ? (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    onSelect={() => onDelete(transaction)}
+                    className="text-destructive focus:text-destructive"
+                  >
+                    <Trash2 className="mr-2 size-4" aria-hidden />
+                    Usuń
+                  </DropdownMenuItem>
+                </>
+              ) : null}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        ) : null}
       </CardHeader>
       <CardContent className="space-y-2">
         <div className="flex items-center justify-end text-sm">
           <span className="text-muted-foreground pr-2">Kwota:</span>
-          <span className="font-medium">{formattedAmount}</span>
+          <span className={isRefund ? "font-medium text-emerald-600 dark:text-emerald-400" : "font-medium"}>
+            {formattedAmount}
+          </span>
         </div>
+        {isRefund && transaction.refundedTransactionId ? (
+          <p className="text-right text-xs text-muted-foreground">Zwrot powiązany z wydatkiem</p>
+        ) : null}
+        {transaction.splits.length > 0 ? (
+          <ul className="space-y-1 text-sm" aria-label="Podział na kategorie">
+            {transaction.splits.map((split) => (
+              <li key={split.id} className="flex items-center justify-between text-muted-foreground">
+                <span>{split.categoryName}</span>
+                <span>{isRefund ? `+${formatCurrency(split.amount)}` : formatCurrency(split.amount)}</span>
+              </li>
+            ))}
+          </ul>
+        ) : null}
+        {transaction.memberName ? (
+          <div className="flex items-center justify-end text-sm">
+            <span className="text-muted-foreground pr-2">Zapłacone przez:</span>
+            <span>{transaction.memberName}</span>
+          </div>
+        ) : null}
         {transaction.note ? (
           <p className="rounded-md bg-muted/60 p-3 text-sm text-muted-foreground">{transaction.note}</p>
         ) : null}
@@ -0,0 +1,184 @@
+import { Plus, Trash2 } from "lucide-react";
+import { useFieldArray, useFormContext } from "react-hook-form";
+import { z } from "zod";
+
+import { Button } from "@/components/ui/button";
+import { FormControl, FormField, FormItem, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatCurrency } from "@/lib/formatters";
+import { MIN_SPLIT_LINES, splitsMatchTotal, sumSplitAmounts } from "@/lib/splits";
+import type { CategoryDto, TransactionSplitCommandItem } from "@/types";
+
+const AMOUNT_REGEX = /^\d+(?:\.\d{1,2})?$/;
+
+/**
+ * Wartości pojedynczej pozycji podziału w formularzu (stringi dla react-hook-form).
+ */
+export interface SplitLineFormValues {
+  readonly categoryId: string;
+  readonly amount: string;
+}
+
+interface SplitsFormValues {
+  readonly splits: SplitLineFormValues[];
+}
+
+/**
+ * Schemat pojedynczej pozycji podziału.
+ */
+export const splitLineFormSchema = z.object({
+  categoryId: z.string().min(1, "Wybierz kategorię").uuid("Wybierz poprawną kategorię"),
+  amount: z
+    .string()
+    .min(1, "Kwota jest wymagana")
+    .refine((value) => AMOUNT_REGEX.test(value), "Maksymalnie dwa miejsca po przecinku")
+    .refine((value) => Number(value) > 0, "Kwota musi być większa od zera"),
+});
+
+/**
+ * Zamienia pozycje formularza na pozycje komendy API.
+ */
+export const toSplitCommandItems = (lines: readonly SplitLineFormValues[]): TransactionSplitCommandItem[] =>
+  lines.map((line) => ({ categoryId: line.categoryId, amount: Number(Number(line.amount).toFixed(2)) }));
+
+/**
+ * Sprawdza, czy pozycje podziału tworzą poprawny podział kwoty, i zgłasza błąd na polu `splits`.
+ */
+export const refineSplitLines = (ctx: z.RefinementCtx, amount: string, lines: readonly SplitLineFormValues[]) => {
+  if (lines.length < MIN_SPLIT_LINES) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Podział musi mieć co najmniej ${MIN_SPLIT_LINES} pozycje`,
+      path: ["splits"],
+    });
+    return;
+  }
+
+  if (new Set(lines.map((line) => line.categoryId)).size !== lines.length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Każda pozycja musi mieć inną kategorię",
+      path: ["splits"],
+    });
+    return;
+  }
+
+  if (!splitsMatchTotal(Number(amount), toSplitCommandItems(lines))) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: "Suma pozycji musi być równa kwocie wydatku",
+      path: ["splits"],
+    });
+  }
+};
+
+/**
+ * Tworzy puste pozycje podziału dla nowego podziału.
+ */
+export const createEmptySplitLines = (): SplitLineFormValues[] =>
+  Array.from({ length: MIN_SPLIT_LINES }, () => ({ categoryId: "", amount: "" }));
+
+interface TransactionSplitsEditorProps {
+  readonly categories: readonly CategoryDto[];
+  readonly totalAmount: string;
+  readonly disabled?: boolean;
+}
+
+/**
+ * Edytor podziału transakcji na kategorie. Działa wewnątrz formularza react-hook-form z polem `splits`.
+ */
+export const TransactionSplitsEditor = ({
+  categories,
+  totalAmount,
+  disabled = false,
+}: TransactionSplitsEditorProps) => {
+  const form = useFormContext<SplitsFormValues>();
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "splits" });
+  const lines = form.watch("splits") ?? [];
+
+  const allocated = sumSplitAmounts(
+    lines.map((line) => ({ categoryId: line.categoryId, amount: Number(line.amount) || 0 }))
+  );
+  const remaining = Math.round(((Number(totalAmount) || 0) - allocated) * 100) / 100;
+  const splitsError = form.formState.errors.splits;
+  const splitsErrorMessage = splitsError?.root?.message ?? splitsError?.message;
+
+  return (
+    <div className="space-y-3" data-testid="transaction-splits-editor">
+      {fields.map((field, index) => (
+        <div key={field.id} className="flex items-start gap-2">
+          <FormField
+            name={`splits.${index}.categoryId`}
+            render={({ field: categoryField }) => (
+              <FormItem className="flex-1">
+                <Select onValueChange={categoryField.onChange} value={categoryField.value} disabled={disabled}>
+                  <FormControl>
+                    <SelectTrigger aria-label={`Kategoria pozycji ${index + 1}`}>
+                      <SelectValue placeholder="Wybierz kategorię" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {categories.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            name={`splits.${index}.amount`}
+            render={({ field: amountField }) => (
+              <FormItem className="w-32">
+                <FormControl>
+                  <Input
+                    {...amountField}
+                    type="number"
+                    inputMode="decimal"
+                    step="0.01"
+                    placeholder="0.00"
+                    aria-label={`Kwota pozycji ${index + 1}`}
+                    disabled={disabled}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => remove(index)}
+            disabled={disabled || fields.length <= MIN_SPLIT_LINES}
+            aria-label={`Usuń pozycję ${index + 1}`}
+          >
+            <Trash2 className="size-4" aria-hidden />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => append({ categoryId: "", amount: remaining > 0 ? remaining.toFixed(2) : "" })}
+          disabled={disabled}
+        >
+          <Plus className="mr-2 size-4" aria-hidden />
+          Dodaj pozycję
+        </Button>
+        <span className={remaining === 0 ? "text-sm text-muted-foreground" : "text-sm text-destructive"}>
+          Pozostało do podziału: {formatCurrency(remaining)}
+        </span>
+      </div>
+
+      {splitsErrorMessage ? <p className="text-sm font-medium text-destructive">{splitsErrorMessage}</p> : null}
+    </div>
+  );
+};
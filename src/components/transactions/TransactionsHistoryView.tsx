@@ -1,9 +1,15 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 
-import { AlertCircle, CheckCircle2, Loader2 } from "lucide-react";
+import { AlertCircle, CheckCircle2, Download, Loader2, UserRound } from "lucide-react";
 
 import { Button } from "@/components/ui/button";
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { InfiniteScrollTrigger } from "@/components/ui/infinite-scroll-trigger";
 import { PaginationControl } from "@/components/ui/pagination-control";
 import {
@@ -11,20 +17,43 @@ import {
   type TransactionOperationResult,
   type TransactionVM,
 } from "@/components/transactions/useTransactionsHistory";
+import { CategorizationRuleForm } from "@/components/settings/CategorizationRuleForm";
+import { DuplicateTransactionsPanel } from "@/components/transactions/DuplicateTransactionsPanel";
 import { TransactionConfirmationDialog } from "@/components/transactions/TransactionConfirmationDialog";
 import { TransactionForm } from "@/components/transactions/TransactionForm";
+import { RefundForm } from "@/components/transactions/RefundForm";
 import { TransactionListItem } from "@/components/transactions/TransactionListItem";
+import { useLearnCategorizationRule } from "@/components/transactions/useLearnCategorizationRule";
+import { useRecordRefund } from "@/components/transactions/useRecordRefund";
+import { useTransactionDuplicates } from "@/components/transactions/useTransactionDuplicates";
+import { suggestCategorizationPattern } from "@/lib/categorization";
 import { useMediaQuery } from "@/lib/hooks/useMediaQuery";
+import { hasHouseholdPermission } from "@/lib/permissions";
+import type {
+  CreateCategorizationRuleCommand,
+  CreateTransactionCommand,
+  HouseholdRole,
+  UpdateCategorizationRuleCommand,
+} from "@/types";
+
+export interface TransactionsHistoryViewProps {
+  /** Household role of the current user; actions the role does not allow are hidden */
+  readonly role?: HouseholdRole;
+}
 
-export const TransactionsHistoryView = () => {
+export const TransactionsHistoryView = ({ role }: TransactionsHistoryViewProps) => {
+  const canEditBudgets = hasHouseholdPermission(role, "budgets:edit");
+  const canEditSettings = hasHouseholdPermission(role, "settings:edit");
   const isMobile = useMediaQuery("(max-width: 767px)");
   const [selectedTransaction, setSelectedTransaction] = useState<TransactionVM | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isDeleteProcessing, setIsDeleteProcessing] = useState(false);
   const [transactionPendingDelete, setTransactionPendingDelete] = useState<TransactionVM | null>(null);
   const {
+    budgetId,
     transactions,
     categories,
+    members,
     meta,
     isLoading,
     isLoadingMore,
@@ -39,7 +68,27 @@ export const TransactionsHistoryView = () => {
     retry,
     clearOperationResult,
     clearLoadMoreError,
+    getExportUrl,
+    showOnlyMine,
+    setShowOnlyMine,
   } = useTransactionsHistory();
+  // The "only mine" filter needs a member linked to the signed-in account
+  const hasOwnMember = useMemo(() => members.some((member) => member.isCurrentUser), [members]);
+  const duplicates = useTransactionDuplicates(budgetId);
+  const { refresh: refreshDuplicates } = duplicates;
+  const learnRule = useLearnCategorizationRule();
+  const { saveRule, successMessage: ruleLearnedMessage, clearSuccessMessage: clearRuleLearnedMessage } = learnRule;
+  const recordRefund = useRecordRefund();
+  const {
+    saveRefund,
+    successMessage: refundRecordedMessage,
+    clearSuccessMessage: clearRefundRecordedMessage,
+  } = recordRefund;
+
+  const categoriesIndex = useMemo(
+    () => new Map(categories.map((category) => [category.id, category.name])),
+    [categories]
+  );
 
   const handleRetry = useCallback(() => {
     void retry();
@@ -49,6 +98,10 @@ export const TransactionsHistoryView = () => {
     void refresh();
   }, [refresh]);
 
+  const handleDuplicatesMerged = useCallback(() => {
+    void refresh();
+  }, [refresh]);
+
   const loadNext = useCallback(() => {
     void loadNextPage();
   }, [loadNextPage]);
@@ -69,6 +122,21 @@ export const TransactionsHistoryView = () => {
     setTransactionPendingDelete(transaction);
   }, []);
 
+  const handleSaveLearnedRule = useCallback(
+    async (data: CreateCategorizationRuleCommand | UpdateCategorizationRuleCommand) => {
+      await saveRule(data as CreateCategorizationRuleCommand);
+    },
+    [saveRule]
+  );
+
+  const handleSaveRefund = useCallback(
+    async (data: CreateTransactionCommand) => {
+      await saveRefund(data);
+      void refresh();
+    },
+    [refresh, saveRefund]
+  );
+
   const hasMorePages = useMemo(() => (meta ? meta.page < meta.totalPages : false), [meta]);
 
   useEffect(() => {
@@ -83,6 +151,30 @@ export const TransactionsHistoryView = () => {
     return () => window.clearTimeout(timeout);
   }, [clearOperationResult, operationResult]);
 
+  useEffect(() => {
+    if (!ruleLearnedMessage) {
+      return;
+    }
+
+    const timeout = window.setTimeout(() => {
+      clearRuleLearnedMessage();
+    }, 4000);
+
+    return () => window.clearTimeout(timeout);
+  }, [clearRuleLearnedMessage, ruleLearnedMessage]);
+
+  useEffect(() => {
+    if (!refundRecordedMessage) {
+      return;
+    }
+
+    const timeout = window.setTimeout(() => {
+      clearRefundRecordedMessage();
+    }, 4000);
+
+    return () => window.clearTimeout(timeout);
+  }, [clearRefundRecordedMessage, refundRecordedMessage]);
+
   const updateOperationError = useMemo(() => {
     if (!operationResult || operationResult.type !== "update" || operationResult.status !== "error") {
       return null;
@@ -91,7 +183,7 @@ export const TransactionsHistoryView = () => {
   }, [operationResult]);
 
   const renderOperationBanner = useCallback(
-    (result: TransactionOperationResult | null) => {
+    (result: Pick<TransactionOperationResult, "status" | "message"> | null, onClose: () => void) => {
       if (!result) {
         return null;
       }
@@ -113,7 +205,7 @@ export const TransactionsHistoryView = () => {
           </div>
           <button
             type="button"
-            onClick={clearOperationResult}
+            onClick={onClose}
             className="text-xs text-muted-foreground underline-offset-2 hover:underline"
           >
             Zamknij
@@ -121,7 +213,7 @@ export const TransactionsHistoryView = () => {
         </div>
       );
     },
-    [clearOperationResult]
+    []
   );
 
   if (isLoading) {
@@ -153,35 +245,97 @@ export const TransactionsHistoryView = () => {
         <div className="space-y-2">
           <h1 className="text-2xl font-semibold">Brak transakcji</h1>
           <p className="text-sm text-muted-foreground">
-            Dodaj pierwszą transakcję, aby śledzić swoje wydatki w czasie rzeczywistym.
+            {showOnlyMine
+              ? "W bieżącym budżecie nie ma transakcji zapłaconych przez Ciebie."
+              : "Dodaj pierwszą transakcję, aby śledzić swoje wydatki w czasie rzeczywistym."}
           </p>
         </div>
-        <Button onClick={handleRefresh}>Odśwież</Button>
+        {showOnlyMine ? (
+          <Button variant="outline" onClick={() => setShowOnlyMine(false)}>
+            Pokaż wszystkie
+          </Button>
+        ) : (
+          <Button onClick={handleRefresh}>Odśwież</Button>
+        )}
       </div>
     );
   }
 
   return (
     <div className="space-y-6">
-      <header className="space-y-1">
-        <h1 className="text-3xl font-semibold tracking-tight">Historia transakcji</h1>
-        <p className="text-sm text-muted-foreground">
-          Przeglądaj wydatki w bieżącym budżecie, edytuj je i usuwaj, gdy to konieczne.
-        </p>
+      <header className="flex flex-wrap items-start justify-between gap-3">
+        <div className="space-y-1">
+          <h1 className="text-3xl font-semibold tracking-tight">Historia transakcji</h1>
+          <p className="text-sm text-muted-foreground">
+            Przeglądaj wydatki w bieżącym budżecie, edytuj je i usuwaj, gdy to konieczne.
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {hasOwnMember ? (
+            <Button
+              variant={showOnlyMine ? "default" : "outline"}
+              aria-pressed={showOnlyMine}
+              onClick={() => setShowOnlyMine(!showOnlyMine)}
+            >
+              <UserRound className="size-4" aria-hidden />
+              Tylko moje
+            </Button>
+          ) : null}
+          {budgetId ? (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline">
+                  <Download className="size-4" aria-hidden />
+                  Eksportuj
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem asChild>
+                  <a href={getExportUrl("csv") ?? undefined} download>
+                    CSV (Excel, separator średnik)
+                  </a>
+                </DropdownMenuItem>
+                <DropdownMenuItem asChild>
+                  <a href={getExportUrl("xlsx") ?? undefined} download>
+                    Skoroszyt Excel (XLSX)
+                  </a>
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          ) : null}
+        </div>
       </header>
 
+      {canEditBudgets ? (
+        <DuplicateTransactionsPanel
+          duplicates={duplicates}
+          categoriesIndex={categoriesIndex}
+          onMerged={handleDuplicatesMerged}
+        />
+      ) : null}
+
       <div className="flex flex-col gap-4">
         {transactions.map((transaction) => (
           <TransactionListItem
             key={transaction.id}
             transaction={transaction}
-            onEdit={handleEdit}
-            onDelete={handleDelete}
+            onEdit={canEditBudgets ? handleEdit : undefined}
+            onDelete={canEditBudgets ? handleDelete : undefined}
+            onLearnRule={canEditSettings ? learnRule.open : undefined}
+            onRecordRefund={canEditBudgets ? recordRefund.open : undefined}
           />
         ))}
       </div>
 
-      {renderOperationBanner(operationResult)}
+      {renderOperationBanner(operationResult, clearOperationResult)}
+      {renderOperationBanner(
+        ruleLearnedMessage ? { status: "success", message: ruleLearnedMessage } : null,
+        clearRuleLearnedMessage
+      )}
+      {renderOperationBanner(
+        refundRecordedMessage ? { status: "success", message: refundRecordedMessage } : null,
+        clearRefundRecordedMessage
+      )}
 
       {isMobile ? (
         <InfiniteScrollTrigger
@@ -213,10 +367,12 @@ export const TransactionsHistoryView = () => {
               <TransactionForm
                 transaction={selectedTransaction}
                 categories={categories}
+                members={members}
                 onCancel={() => setIsDialogOpen(false)}
                 onSubmit={async (transactionId, data) => {
                   await updateTransaction(transactionId, data);
                   setIsDialogOpen(false);
+                  void refreshDuplicates();
                 }}
                 formError={updateOperationError}
                 onClearError={operationResult?.type === "update" ? clearOperationResult : undefined}
@@ -226,6 +382,54 @@ export const TransactionsHistoryView = () => {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={learnRule.transaction !== null} onOpenChange={(open) => !open && learnRule.close()}>
+        <DialogContent className="max-w-lg">
+          {learnRule.transaction ? (
+            <>
+              <DialogHeader>
+                <DialogTitle>Utwórz regułę kategoryzacji</DialogTitle>
+                <DialogDescription>
+                  Kolejne wydatki z tym tekstem w notatce, także importowane z banku, otrzymają wybraną kategorię.
+                </DialogDescription>
+              </DialogHeader>
+              <CategorizationRuleForm
+                initialValues={{
+                  pattern: suggestCategorizationPattern(learnRule.transaction.note) ?? "",
+                  categoryId: learnRule.transaction.categoryId,
+                }}
+                categories={categories}
+                onSubmit={handleSaveLearnedRule}
+                onCancel={learnRule.close}
+                formError={learnRule.error}
+                onClearError={learnRule.clearError}
+              />
+            </>
+          ) : null}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={recordRefund.transaction !== null} onOpenChange={(open) => !open && recordRefund.close()}>
+        <DialogContent className="max-w-lg">
+          {recordRefund.transaction ? (
+            <>
+              <DialogHeader>
+                <DialogTitle>Dodaj zwrot</DialogTitle>
+                <DialogDescription>
+                  Zwrot otrzyma kategorię wydatku „{recordRefund.transaction.categoryName}” i pomniejszy jej wydatki.
+                </DialogDescription>
+              </DialogHeader>
+              <RefundForm
+                transaction={recordRefund.transaction}
+                onSubmit={handleSaveRefund}
+                onCancel={recordRefund.close}
+                formError={recordRefund.error}
+                onClearError={recordRefund.clearError}
+              />
+            </>
+          ) : null}
+        </DialogContent>
+      </Dialog>
+
       <TransactionConfirmationDialog
         open={transactionPendingDelete !== null}
         onOpenChange={(open) => {
@@ -245,6 +449,7 @@ export const TransactionsHistoryView = () => {
           setIsDeleteProcessing(true);
           try {
             await deleteTransaction(transactionPendingDelete.id);
+            void refreshDuplicates();
           } finally {
             setIsDeleteProcessing(false);
             setTransactionPendingDelete(null);
@@ -0,0 +1,95 @@
+import { useCallback, useState } from "react";
+
+import type { TransactionVM } from "@/components/transactions/useTransactionsHistory";
+import type { ApiErrorDto, CreateCategorizationRuleCommand } from "@/types";
+
+interface LearnCategorizationRuleState {
+  /** Transakcja, z której tworzona jest reguła; null, gdy okno jest zamknięte */
+  readonly transaction: TransactionVM | null;
+  readonly error: string | null;
+  readonly successMessage: string | null;
+}
+
+export interface UseLearnCategorizationRuleResult extends LearnCategorizationRuleState {
+  readonly open: (transaction: TransactionVM) => void;
+  readonly close: () => void;
+  readonly saveRule: (command: CreateCategorizationRuleCommand) => Promise<void>;
+  readonly clearError: () => void;
+  readonly clearSuccessMessage: () => void;
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  UNAUTHENTICATED: "Sesja wygasła. Zaloguj się ponownie.",
+  PERMISSION_DENIED: "Twoja rola w gospodarstwie nie pozwala na tę operację.",
+  INVALID_CATEGORY_ID: "Wybierz prawidłową kategorię.",
+  CATEGORY_ARCHIVED: "Ta kategoria jest zarchiwizowana. Wybierz inną kategorię.",
+  INVALID_PATTERN: "Wprowadź prawidłowy wzorzec.",
+  INVALID_PRIORITY: "Priorytet musi być liczbą całkowitą od 0 do 1000.",
+  INVALID_AMOUNT_RANGE: "Kwota maksymalna nie może być mniejsza niż minimalna.",
+  CATEGORIZATION_RULE_CREATE_FAILED: "Nie udało się dodać reguły kategoryzacji.",
+};
+
+const FALLBACK_ERROR_MESSAGE = "Nie udało się dodać reguły kategoryzacji.";
+
+/**
+ * Hook obsługujący akcję „Utwórz regułę z tej transakcji” w historii transakcji.
+ * Reguła nie zmienia istniejących transakcji, działa dla kolejnych wydatków i importów.
+ */
+export const useLearnCategorizationRule = (): UseLearnCategorizationRuleResult => {
+  const [state, setState] = useState<LearnCategorizationRuleState>({
+    transaction: null,
+    error: null,
+    successMessage: null,
+  });
+
+  const open = useCallback((transaction: TransactionVM) => {
+    setState((previous) => ({ ...previous, transaction, error: null }));
+  }, []);
+
+  const close = useCallback(() => {
+    setState((previous) => ({ ...previous, transaction: null, error: null }));
+  }, []);
+
+  const saveRule = useCallback(async (command: CreateCategorizationRuleCommand) => {
+    try {
+      const response = await fetch("/api/categorization-rules", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Accept: "application/json" },
+        body: JSON.stringify(command),
+      });
+
+      if (!response.ok) {
+        let message = FALLBACK_ERROR_MESSAGE;
+        try {
+          const payload = (await response.json()) as ApiErrorDto;
+          message = ERROR_MESSAGES[payload.error.code] ?? payload.error.message;
+        } catch (parseError) {
+          console.warn("Unable to parse API error", parseError);
+        }
+
+        setState((previous) => ({ ...previous, error: message }));
+        throw new Error(message);
+      }
+
+      setState({
+        transaction: null,
+        error: null,
+        successMessage: `Reguła „${command.pattern}” została zapisana. Kolejne takie wydatki otrzymają kategorię automatycznie.`,
+      });
+    } catch (cause) {
+      console.error("Failed to create categorization rule", cause);
+      setState((previous) => ({ ...previous, error: previous.error ?? FALLBACK_ERROR_MESSAGE }));
+      throw cause;
+    }
+  }, []);
+
+  const clearError = useCallback(() => {
+    setState((previous) => ({ ...previous, error: null }));
+  }, []);
+
+  const clearSuccessMessage = useCallback(() => {
+    setState((previous) => ({ ...previous, successMessage: null }));
+  }, []);
+
+  return { ...state, open, close, saveRule, clearError, clearSuccessMessage };
+};
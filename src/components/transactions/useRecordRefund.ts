@@ -0,0 +1,105 @@
+import { useCallback, useState } from "react";
+
+import type { TransactionVM } from "@/components/transactions/useTransactionsHistory";
+import type { ApiErrorDto, CreateTransactionCommand } from "@/types";
+
+interface RecordRefundState {
+  /** Wydatek, do którego rejestrowany jest zwrot; null, gdy okno jest zamknięte */
+  readonly transaction: TransactionVM | null;
+  readonly error: string | null;
+  readonly successMessage: string | null;
+}
+
+export interface UseRecordRefundResult extends RecordRefundState {
+  readonly open: (transaction: TransactionVM) => void;
+  readonly close: () => void;
+  readonly saveRefund: (command: CreateTransactionCommand) => Promise<void>;
+  readonly clearError: () => void;
+  readonly clearSuccessMessage: () => void;
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  UNAUTHENTICATED: "Sesja wygasła. Zaloguj się ponownie.",
+  PERMISSION_DENIED: "Twoja rola w gospodarstwie nie pozwala na tę operację.",
+  INVALID_AMOUNT: "Wprowadź prawidłową kwotę.",
+  INVALID_DATE: "Wprowadź prawidłową datę.",
+  INVALID_REFUNDED_TRANSACTION: "Wydatek został usunięty lub jest zwrotem.",
+  REFUND_EXCEEDS_EXPENSE: "Zwroty nie mogą przekroczyć kwoty wydatku.",
+  DUPLICATE_SUSPECTED: "Podobny zwrot został już zapisany.",
+  BUDGET_NOT_FOUND: "Nie znaleziono budżetu wydatku.",
+  TRANSACTION_CREATE_FAILED: "Nie udało się zapisać zwrotu.",
+};
+
+const FALLBACK_ERROR_MESSAGE = "Nie udało się zapisać zwrotu.";
+
+/**
+ * Hook obsługujący akcję „Dodaj zwrot” w historii transakcji.
+ * Zwrot trafia do budżetu wydatku i jest z nim powiązany, więc otrzymuje jego kategorię.
+ */
+export const useRecordRefund = (): UseRecordRefundResult => {
+  const [state, setState] = useState<RecordRefundState>({
+    transaction: null,
+    error: null,
+    successMessage: null,
+  });
+
+  const open = useCallback((transaction: TransactionVM) => {
+    setState((previous) => ({ ...previous, transaction, error: null }));
+  }, []);
+
+  const close = useCallback(() => {
+    setState((previous) => ({ ...previous, transaction: null, error: null }));
+  }, []);
+
+  const refundedTransaction = state.transaction;
+
+  const saveRefund = useCallback(
+    async (command: CreateTransactionCommand) => {
+      if (!refundedTransaction) {
+        return;
+      }
+
+      try {
+        const response = await fetch(`/api/budgets/${refundedTransaction.budgetId}/transactions`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json", Accept: "application/json" },
+          body: JSON.stringify({ ...command, kind: "refund", refundedTransactionId: refundedTransaction.id }),
+        });
+
+        if (!response.ok) {
+          let message = FALLBACK_ERROR_MESSAGE;
+          try {
+            const payload = (await response.json()) as ApiErrorDto;
+            message = ERROR_MESSAGES[payload.error.code] ?? payload.error.message;
+          } catch (parseError) {
+            console.warn("Unable to parse API error", parseError);
+          }
+
+          setState((previous) => ({ ...previous, error: message }));
+          throw new Error(message);
+        }
+
+        setState({
+          transaction: null,
+          error: null,
+          successMessage: "Zwrot został zapisany i pomniejsza wydatki kategorii.",
+        });
+      } catch (cause) {
+        console.error("Failed to record refund", cause);
+        setState((previous) => ({ ...previous, error: previous.error ?? FALLBACK_ERROR_MESSAGE }));
+        throw cause;
+      }
+    },
+    [refundedTransaction]
+  );
+
+  const clearError = useCallback(() => {
+    setState((previous) => ({ ...previous, error: null }));
+  }, []);
+
+  const clearSuccessMessage = useCallback(() => {
+    setState((previous) => ({ ...previous, successMessage: null }));
+  }, []);
+
+  return { ...state, open, close, saveRefund, clearError, clearSuccessMessage };
+};
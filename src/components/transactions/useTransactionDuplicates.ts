@@ -0,0 +1,164 @@
+import { useCallback, useEffect, useState } from "react";
+
+import type { ApiErrorDto, TransactionDuplicatePairDto, TransactionDuplicatesListResponseDto } from "@/types";
+
+interface TransactionDuplicatesState {
+  readonly pairs: readonly TransactionDuplicatePairDto[];
+  readonly isLoading: boolean;
+  readonly error: string | null;
+  /** Klucz pary, dla której trwa scalanie lub odrzucanie */
+  readonly processingPairKey: string | null;
+}
+
+export interface UseTransactionDuplicatesResult extends TransactionDuplicatesState {
+  readonly refresh: () => Promise<void>;
+  readonly mergePair: (pair: TransactionDuplicatePairDto) => Promise<boolean>;
+  readonly dismissPair: (pair: TransactionDuplicatePairDto) => Promise<boolean>;
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  UNAUTHENTICATED: "Sesja wygasła. Zaloguj się ponownie.",
+  PERMISSION_DENIED: "Twoja rola w gospodarstwie nie pozwala na tę operację.",
+  BUDGET_NOT_FOUND: "Nie znaleziono budżetu.",
+  TRANSACTION_NOT_FOUND: "Jedna z transakcji została już usunięta.",
+  TRANSACTION_DUPLICATES_LIST_FAILED: "Nie udało się wyszukać duplikatów.",
+  TRANSACTION_DUPLICATE_DISMISS_FAILED: "Nie udało się odrzucić duplikatu.",
+  TRANSACTION_MERGE_FAILED: "Nie udało się scalić transakcji.",
+  TRANSACTION_KIND_MISMATCH: "Nie można scalić wydatku ze zwrotem.",
+  TRANSACTIONS_NOT_DUPLICATES: "Te transakcje nie wyglądają już na duplikaty. Odśwież listę.",
+  REFUND_EXCEEDS_EXPENSE: "Zwroty obu transakcji przekraczają kwotę wydatku.",
+};
+
+export const getDuplicatePairKey = (pair: TransactionDuplicatePairDto): string =>
+  `${pair.transaction.id}:${pair.duplicate.id}`;
+
+const parseErrorResponse = async (response: Response, fallback: string): Promise<string> => {
+  try {
+    const payload = (await response.json()) as ApiErrorDto;
+    return ERROR_MESSAGES[payload.error.code] ?? payload.error.message;
+  } catch (parseError) {
+    console.warn("Unable to parse API error", parseError);
+    return fallback;
+  }
+};
+
+/**
+ * Hook pobierający pary podejrzanych duplikatów w budżecie oraz pozwalający je scalić lub odrzucić.
+ * Scalenie zachowuje wcześniejszą transakcję i usuwa późniejszą.
+ */
+export const useTransactionDuplicates = (budgetId: string | null): UseTransactionDuplicatesResult => {
+  const [state, setState] = useState<TransactionDuplicatesState>({
+    pairs: [],
+    isLoading: false,
+    error: null,
+    processingPairKey: null,
+  });
+
+  const refresh = useCallback(async () => {
+    if (!budgetId) {
+      return;
+    }
+
+    setState((previous) => ({ ...previous, isLoading: true, error: null }));
+
+    try {
+      const response = await fetch(`/api/budgets/${budgetId}/transactions/duplicates`, {
+        method: "GET",
+        headers: { Accept: "application/json" },
+      });
+
+      if (!response.ok) {
+        const message = await parseErrorResponse(response, "Nie udało się wyszukać duplikatów.");
+        setState((previous) => ({ ...previous, isLoading: false, error: message }));
+        return;
+      }
+
+      const payload = (await response.json()) as TransactionDuplicatesListResponseDto;
+      setState((previous) => ({ ...previous, pairs: payload.data, isLoading: false }));
+    } catch (cause) {
+      console.error("Failed to fetch duplicate transactions", cause);
+      setState((previous) => ({ ...previous, isLoading: false, error: "Nie udało się wyszukać duplikatów." }));
+    }
+  }, [budgetId]);
+
+  /**
+   * Wykonuje operację na parze i po sukcesie usuwa ją z listy.
+   * Scalenie usuwa transakcję, więc znikają też inne pary, w których występowała.
+   */
+  const resolvePair = useCallback(
+    async (pair: TransactionDuplicatePairDto, request: () => Promise<Response>, fallbackError: string) => {
+      const pairKey = getDuplicatePairKey(pair);
+      setState((previous) => ({ ...previous, processingPairKey: pairKey, error: null }));
+
+      try {
+        const response = await request();
+
+        if (!response.ok) {
+          const message = await parseErrorResponse(response, fallbackError);
+          setState((previous) => ({ ...previous, processingPairKey: null, error: message }));
+          return false;
+        }
+
+        setState((previous) => ({
+          ...previous,
+          pairs: previous.pairs.filter((other) => getDuplicatePairKey(other) !== pairKey),
+          processingPairKey: null,
+        }));
+        return true;
+      } catch (cause) {
+        console.error("Failed to resolve duplicate transactions", cause);
+        setState((previous) => ({ ...previous, processingPairKey: null, error: fallbackError }));
+        return false;
+      }
+    },
+    []
+  );
+
+  const mergePair = useCallback(
+    async (pair: TransactionDuplicatePairDto) => {
+      const merged = await resolvePair(
+        pair,
+        () =>
+          fetch(`/api/transactions/${pair.transaction.id}/merge`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", Accept: "application/json" },
+            body: JSON.stringify({ duplicateTransactionId: pair.duplicate.id }),
+          }),
+        "Nie udało się scalić transakcji."
+      );
+
+      if (merged) {
+        setState((previous) => ({
+          ...previous,
+          pairs: previous.pairs.filter(
+            (other) => other.transaction.id !== pair.duplicate.id && other.duplicate.id !== pair.duplicate.id
+          ),
+        }));
+      }
+
+      return merged;
+    },
+    [resolvePair]
+  );
+
+  const dismissPair = useCallback(
+    (pair: TransactionDuplicatePairDto) =>
+      resolvePair(
+        pair,
+        () =>
+          fetch(`/api/budgets/${budgetId}/transactions/duplicates/dismissals`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", Accept: "application/json" },
+            body: JSON.stringify({ transactionId: pair.transaction.id, duplicateTransactionId: pair.duplicate.id }),
+          }),
+        "Nie udało się odrzucić duplikatu."
+      ),
+    [budgetId, resolvePair]
+  );
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return { ...state, refresh, mergePair, dismissPair };
+};
@@ -4,14 +4,24 @@ import type {
   ApiErrorDto,
   CategoryDto,
   DashboardSummaryDto,
+  ExportFormat,
+  HouseholdMemberDto,
+  HouseholdMembersListResponseDto,
   PaginationMetaDto,
   TransactionDto,
+  TransactionSplitDto,
   TransactionsListResponseDto,
   UpdateTransactionCommand,
 } from "@/types";
 
+export interface TransactionSplitVM extends TransactionSplitDto {
+  readonly categoryName: string;
+}
+
 export interface TransactionVM extends TransactionDto {
   readonly categoryName: string;
+  readonly memberName: string | null;
+  readonly splits: readonly TransactionSplitVM[];
 }
 
 interface TransactionsState {
@@ -44,8 +54,10 @@ export interface UseTransactionsHistoryOptions {
 }
 
 export interface UseTransactionsHistoryResult {
+  readonly budgetId: string | null;
   readonly transactions: readonly TransactionVM[];
   readonly categories: readonly CategoryDto[];
+  readonly members: readonly HouseholdMemberDto[];
   readonly meta: PaginationMetaDto | null;
   readonly isLoading: boolean;
   readonly isLoadingMore: boolean;
@@ -60,13 +72,29 @@ export interface UseTransactionsHistoryResult {
   readonly retry: () => Promise<void>;
   readonly clearOperationResult: () => void;
   readonly clearLoadMoreError: () => void;
+  /** Link to the export of the current budget with the filters of the list, null until the budget is known */
+  readonly getExportUrl: (format: ExportFormat) => string | null;
+  /** Whether only transactions paid by the member of the signed-in account are listed */
+  readonly showOnlyMine: boolean;
+  readonly setShowOnlyMine: (value: boolean) => void;
 }
 
 const DASHBOARD_ENDPOINT = "/api/dashboard/current";
 const CATEGORIES_ENDPOINT = "/api/categories";
+const MEMBERS_ENDPOINT = "/api/household-members";
 const DEFAULT_PAGE_SIZE = 20;
 const MAX_CATEGORIES_PER_PAGE = 100;
 
+/** Filters of the list (see transactionsQuerySchema), shared with the export */
+const LIST_FILTERS: Record<string, string> = {
+  sort: "date_desc",
+};
+
+/** Member filter for the transactions paid by the member of the signed-in account */
+const ONLY_MINE_FILTERS: Record<string, string> = {
+  memberId: "me",
+};
+
 export const useTransactionsHistory = ({
   pageSize = DEFAULT_PAGE_SIZE,
 }: UseTransactionsHistoryOptions = {}): UseTransactionsHistoryResult => {
@@ -81,14 +109,40 @@ export const useTransactionsHistory = ({
     loadMoreError: null,
   });
 
+  // Members are only used to label and attribute transactions, so they are kept outside the main state
+  const [members, setMembers] = useState<readonly HouseholdMemberDto[]>([]);
+  const [showOnlyMine, setShowOnlyMine] = useState(false);
+  const listFilters = useMemo(
+    () => (showOnlyMine ? { ...LIST_FILTERS, ...ONLY_MINE_FILTERS } : LIST_FILTERS),
+    [showOnlyMine]
+  );
+  // The ref is read by loaders, the state lets components depending on the budget (e.g. duplicates) render
+  const [budgetId, setBudgetId] = useState<string | null>(null);
   const budgetIdRef = useRef<string | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
 
   const mapTransactionDtoToVM = useCallback(
-    (transaction: TransactionDto, categoriesIndex: Map<string, string>): TransactionVM => ({
-      ...transaction,
-      categoryName: categoriesIndex.get(transaction.categoryId) ?? "Nieznana kategoria",
-    }),
+    (
+      transaction: TransactionDto,
+      categoriesIndex: Map<string, string>,
+      membersIndex: Map<string, string> = new Map()
+    ): TransactionVM => {
+      const splits = transaction.splits.map((split) => ({
+        ...split,
+        categoryName: categoriesIndex.get(split.categoryId) ?? "Nieznana kategoria",
+      }));
+
+      return {
+        ...transaction,
+        // Split transactions are titled with all categories they are booked against
+        categoryName:
+          splits.length > 0
+            ? splits.map((split) => split.categoryName).join(", ")
+            : (categoriesIndex.get(transaction.categoryId) ?? "Nieznana kategoria"),
+        memberName: transaction.householdMemberId ? (membersIndex.get(transaction.householdMemberId) ?? null) : null,
+        splits,
+      };
+    },
     []
   );
 
@@ -153,6 +207,8 @@ export const useTransactionsHistory = ({
     const url = new URL(CATEGORIES_ENDPOINT, window.location.origin);
     url.searchParams.set("page", "1");
     url.searchParams.set("pageSize", MAX_CATEGORIES_PER_PAGE.toString());
+    // Archived categories are still needed for the names and filters of older transactions
+    url.searchParams.set("includeArchived", "true");
 
     const response = await fetch(url, {
       method: "GET",
@@ -168,15 +224,45 @@ export const useTransactionsHistory = ({
     return await parseCategoriesResponse(response);
   }, [parseCategoriesResponse]);
 
+  const fetchMembers = useCallback(async (): Promise<readonly HouseholdMemberDto[]> => {
+    const url = new URL(MEMBERS_ENDPOINT, window.location.origin);
+    url.searchParams.set("includeInactive", "true");
+    url.searchParams.set("pageSize", "100");
+
+    try {
+      const response = await fetch(url, {
+        method: "GET",
+        headers: {
+          Accept: "application/json",
+        },
+      });
+
+      if (!response.ok) {
+        console.warn("Unable to fetch household members", response.status);
+        return [];
+      }
+
+      const payload = (await response.json()) as HouseholdMembersListResponseDto;
+      return payload.data;
+    } catch (cause) {
+      console.error("Failed to fetch household members", cause);
+      return [];
+    }
+  }, []);
+
+  useEffect(() => {
+    void fetchMembers().then(setMembers);
+  }, [fetchMembers]);
+
   const buildTransactionsEndpoint = useCallback(
     (budgetId: string, page: number) => {
       const url = new URL(`/api/budgets/${budgetId}/transactions`, window.location.origin);
       url.searchParams.set("page", page.toString());
       url.searchParams.set("pageSize", pageSize.toString());
-      url.searchParams.set("sort", "date_desc");
+      Object.entries(listFilters).forEach(([name, value]) => url.searchParams.set(name, value));
       return url;
     },
-    [pageSize]
+    [listFilters, pageSize]
   );
 
   const fetchTransactionsPage = useCallback(
@@ -234,6 +320,7 @@ export const useTransactionsHistory = ({
     try {
       if (!budgetIdRef.current) {
         budgetIdRef.current = await fetchCurrentBudgetId();
+        setBudgetId(budgetIdRef.current);
       }
 
       if (!budgetIdRef.current) {
@@ -549,9 +636,11 @@ export const useTransactionsHistory = ({
     [state.categories]
   );
 
+  const membersIndex = useMemo(() => new Map(members.map((member) => [member.id, member.fullName])), [members]);
+
   const transactions = useMemo(
-    () => state.transactions.map((transaction) => mapTransactionDtoToVM(transaction, categoriesIndex)),
-    [categoriesIndex, mapTransactionDtoToVM, state.transactions]
+    () => state.transactions.map((transaction) => mapTransactionDtoToVM(transaction, categoriesIndex, membersIndex)),
+    [categoriesIndex, mapTransactionDtoToVM, membersIndex, state.transactions]
   );
 
   // Redirect to login on 401 error
@@ -561,9 +650,23 @@ export const useTransactionsHistory = ({
     }
   }, [state.error, state.loadMoreError]);
 
+  const getExportUrl = useCallback(
+    (format: ExportFormat): string | null => {
+      if (!budgetId) {
+        return null;
+      }
+
+      const params = new URLSearchParams({ ...listFilters, format });
+      return `/api/budgets/${budgetId}/export?${params.toString()}`;
+    },
+    [budgetId, listFilters]
+  );
+
   return {
+    budgetId,
     transactions,
     categories: state.categories,
+    members,
     meta: state.meta,
     isLoading: state.isLoading,
     isLoadingMore: state.isLoadingMore,
@@ -576,6 +679,9 @@ export const useTransactionsHistory = ({
     updateTransaction,
     deleteTransaction,
     retry,
+    getExportUrl,
+    showOnlyMine,
+    setShowOnlyMine,
     clearOperationResult: useCallback(
       () =>
         setState((previous) => ({
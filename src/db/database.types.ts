@@ -57,25 +57,55 @@ export interface Database {
       };
       categories: {
         Row: {
+          color: string | null;
+          cost_group: string;
           created_at: string;
           household_id: string;
+          icon: string | null;
           id: string;
+          is_archived: boolean;
           name: string;
+          over_threshold: number | null;
+          pace_alert_day: number | null;
+          pace_alert_percent: number | null;
+          parent_id: string | null;
+          sort_order: number;
           updated_at: string;
+          warning_threshold: number | null;
         };
         Insert: {
+          color?: string | null;
+          cost_group?: string;
           created_at?: string;
           household_id: string;
+          icon?: string | null;
           id?: string;
+          is_archived?: boolean;
           name: string;
+          over_threshold?: number | null;
+          pace_alert_day?: number | null;
+          pace_alert_percent?: number | null;
+          parent_id?: string | null;
+          sort_order?: number;
           updated_at?: string;
+          warning_threshold?: number | null;
         };
         Update: {
+          color?: string | null;
+          cost_group?: string;
           created_at?: string;
           household_id?: string;
+          icon?: string | null;
           id?: string;
+          is_archived?: boolean;
           name?: string;
+          over_threshold?: number | null;
+          pace_alert_day?: number | null;
+          pace_alert_percent?: number | null;
+          parent_id?: string | null;
+          sort_order?: number;
           updated_at?: string;
+          warning_threshold?: number | null;
         };
         Relationships: [
           {
@@ -85,6 +115,117 @@ export interface Database {
             referencedRelation: "households";
             referencedColumns: ["id"];
           },
+          {
+            foreignKeyName: "categories_parent_id_household_id_fkey";
+            columns: ["parent_id", "household_id"];
+            isOneToOne: false;
+            referencedRelation: "categories";
+            referencedColumns: ["id", "household_id"];
+          },
+        ];
+      };
+      categorization_rules: {
+        Row: {
+          category_id: string;
+          created_at: string;
+          household_id: string;
+          id: string;
+          max_amount: number | null;
+          min_amount: number | null;
+          pattern: string;
+          priority: number;
+          updated_at: string;
+        };
+        Insert: {
+          category_id: string;
+          created_at?: string;
+          household_id: string;
+          id?: string;
+          max_amount?: number | null;
+          min_amount?: number | null;
+          pattern: string;
+          priority?: number;
+          updated_at?: string;
+        };
+        Update: {
+          category_id?: string;
+          created_at?: string;
+          household_id?: string;
+          id?: string;
+          max_amount?: number | null;
+          min_amount?: number | null;
+          pattern?: string;
+          priority?: number;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "categorization_rules_category_id_household_id_fkey";
+            columns: ["category_id", "household_id"];
+            isOneToOne: false;
+            referencedRelation: "categories";
+            referencedColumns: ["id", "household_id"];
+          },
+          {
+            foreignKeyName: "categorization_rules_household_id_fkey";
+            columns: ["household_id"];
+            isOneToOne: false;
+            referencedRelation: "households";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      household_invitations: {
+        Row: {
+          accepted_at: string | null;
+          accepted_by: string | null;
+          created_at: string;
+          email: string;
+          expires_at: string;
+          household_id: string;
+          id: string;
+          invited_by: string | null;
+          revoked_at: string | null;
+          role: string;
+          token_hash: string;
+          updated_at: string;
+        };
+        Insert: {
+          accepted_at?: string | null;
+          accepted_by?: string | null;
+          created_at?: string;
+          email: string;
+          expires_at?: string;
+          household_id: string;
+          id?: string;
+          invited_by?: string | null;
+          revoked_at?: string | null;
+          role?: string;
+          token_hash: string;
+          updated_at?: string;
+        };
+        Update: {
+          accepted_at?: string | null;
+          accepted_by?: string | null;
+          created_at?: string;
+          email?: string;
+          expires_at?: string;
+          household_id?: string;
+          id?: string;
+          invited_by?: string | null;
+          revoked_at?: string | null;
+          role?: string;
+          token_hash?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "household_invitations_household_id_fkey";
+            columns: ["household_id"];
+            isOneToOne: false;
+            referencedRelation: "households";
+            referencedColumns: ["id"];
+          },
         ];
       };
       household_members: {
@@ -95,6 +236,7 @@ export interface Database {
           id: string;
           is_active: boolean;
           updated_at: string;
+          user_id: string | null;
         };
         Insert: {
           created_at?: string;
@@ -103,6 +245,7 @@ export interface Database {
           id?: string;
           is_active?: boolean;
           updated_at?: string;
+          user_id?: string | null;
         };
         Update: {
           created_at?: string;
@@ -111,6 +254,7 @@ export interface Database {
           id?: string;
           is_active?: boolean;
           updated_at?: string;
+          user_id?: string | null;
         };
         Relationships: [
           {
@@ -122,25 +266,66 @@ export interface Database {
           },
         ];
       };
+      household_users: {
+        Row: {
+          created_at: string;
+          household_id: string;
+          role: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          household_id: string;
+          role: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          household_id?: string;
+          role?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "household_users_household_id_fkey";
+            columns: ["household_id"];
+            isOneToOne: false;
+            referencedRelation: "households";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       households: {
         Row: {
+          category_over_threshold: number;
+          category_warning_threshold: number;
           created_at: string;
           id: string;
           name: string;
+          pace_alert_day: number | null;
+          pace_alert_percent: number | null;
           updated_at: string;
           user_id: string;
         };
         Insert: {
+          category_over_threshold?: number;
+          category_warning_threshold?: number;
           created_at?: string;
           id?: string;
           name: string;
+          pace_alert_day?: number | null;
+          pace_alert_percent?: number | null;
           updated_at?: string;
           user_id: string;
         };
         Update: {
+          category_over_threshold?: number;
+          category_warning_threshold?: number;
           created_at?: string;
           id?: string;
           name?: string;
+          pace_alert_day?: number | null;
+          pace_alert_percent?: number | null;
           updated_at?: string;
           user_id?: string;
         };
@@ -213,6 +398,7 @@ export interface Database {
           household_id: string;
           id: string;
           limit_amount: number;
+          rollover_mode: string;
           updated_at: string;
         };
         Insert: {
@@ -222,6 +408,7 @@ export interface Database {
           household_id: string;
           id?: string;
           limit_amount: number;
+          rollover_mode?: string;
           updated_at?: string;
         };
         Update: {
@@ -231,6 +418,7 @@ export interface Database {
           household_id?: string;
           id?: string;
           limit_amount?: number;
+          rollover_mode?: string;
           updated_at?: string;
         };
         Relationships: [
@@ -271,15 +459,196 @@ export interface Database {
           },
         ];
       };
+      recurring_transactions: {
+        Row: {
+          amount: number;
+          category_id: string;
+          created_at: string;
+          end_date: string | null;
+          frequency: string;
+          household_id: string;
+          id: string;
+          interval_days: number | null;
+          is_active: boolean;
+          next_run_date: string;
+          note: string | null;
+          start_date: string;
+          updated_at: string;
+        };
+        Insert: {
+          amount: number;
+          category_id: string;
+          created_at?: string;
+          end_date?: string | null;
+          frequency: string;
+          household_id: string;
+          id?: string;
+          interval_days?: number | null;
+          is_active?: boolean;
+          next_run_date: string;
+          note?: string | null;
+          start_date: string;
+          updated_at?: string;
+        };
+        Update: {
+          amount?: number;
+          category_id?: string;
+          created_at?: string;
+          end_date?: string | null;
+          frequency?: string;
+          household_id?: string;
+          id?: string;
+          interval_days?: number | null;
+          is_active?: boolean;
+          next_run_date?: string;
+          note?: string | null;
+          start_date?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "recurring_transactions_category_id_fkey";
+            columns: ["category_id"];
+            isOneToOne: false;
+            referencedRelation: "categories";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "recurring_transactions_category_id_household_id_fkey";
+            columns: ["category_id", "household_id"];
+            isOneToOne: false;
+            referencedRelation: "categories";
+            referencedColumns: ["id", "household_id"];
+          },
+          {
+            foreignKeyName: "recurring_transactions_household_id_fkey";
+            columns: ["household_id"];
+            isOneToOne: false;
+            referencedRelation: "households";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      transaction_duplicate_dismissals: {
+        Row: {
+          created_at: string;
+          duplicate_transaction_id: string;
+          household_id: string;
+          id: string;
+          transaction_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          duplicate_transaction_id: string;
+          household_id: string;
+          id?: string;
+          transaction_id: string;
+        };
+        Update: {
+          created_at?: string;
+          duplicate_transaction_id?: string;
+          household_id?: string;
+          id?: string;
+          transaction_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "transaction_duplicate_dismissals_duplicate_transaction_id_household_id_fkey";
+            columns: ["duplicate_transaction_id", "household_id"];
+            isOneToOne: false;
+            referencedRelation: "transactions";
+            referencedColumns: ["id", "household_id"];
+          },
+          {
+            foreignKeyName: "transaction_duplicate_dismissals_household_id_fkey";
+            columns: ["household_id"];
+            isOneToOne: false;
+            referencedRelation: "households";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "transaction_duplicate_dismissals_transaction_id_household_id_fkey";
+            columns: ["transaction_id", "household_id"];
+            isOneToOne: false;
+            referencedRelation: "transactions";
+            referencedColumns: ["id", "household_id"];
+          },
+        ];
+      };
+      transaction_splits: {
+        Row: {
+          amount: number;
+          category_id: string;
+          created_at: string;
+          household_id: string;
+          id: string;
+          transaction_id: string;
+          updated_at: string;
+        };
+        Insert: {
+          amount: number;
+          category_id: string;
+          created_at?: string;
+          household_id: string;
+          id?: string;
+          transaction_id: string;
+          updated_at?: string;
+        };
+        Update: {
+          amount?: number;
+          category_id?: string;
+          created_at?: string;
+          household_id?: string;
+          id?: string;
+          transaction_id?: string;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "transaction_splits_category_id_fkey";
+            columns: ["category_id"];
+            isOneToOne: false;
+            referencedRelation: "categories";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "transaction_splits_category_id_household_id_fkey";
+            columns: ["category_id", "household_id"];
+            isOneToOne: false;
+            referencedRelation: "categories";
+            referencedColumns: ["id", "household_id"];
+          },
+          {
+            foreignKeyName: "transaction_splits_household_id_fkey";
+            columns: ["household_id"];
+            isOneToOne: false;
+            referencedRelation: "households";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "transaction_splits_transaction_id_household_id_fkey";
+            columns: ["transaction_id", "household_id"];
+            isOneToOne: false;
+            referencedRelation: "transactions";
+            referencedColumns: ["id", "household_id"];
+          },
+        ];
+      };
       transactions: {
         Row: {
           amount: number;
           budget_id: string;
           category_id: string;
           created_at: string;
+          created_by: string | null;
+          external_id: string | null;
           household_id: string;
+          household_member_id: string | null;
           id: string;
+          kind: string;
           note: string | null;
+          recurring_transaction_id: string | null;
+          refunded_transaction_id: string | null;
           transaction_date: string;
           updated_at: string;
         };
@@ -288,9 +657,15 @@ export interface Database {
           budget_id: string;
           category_id: string;
           created_at?: string;
+          created_by?: string | null;
+          external_id?: string | null;
           household_id: string;
+          household_member_id?: string | null;
           id?: string;
+          kind?: string;
           note?: string | null;
+          recurring_transaction_id?: string | null;
+          refunded_transaction_id?: string | null;
           transaction_date: string;
           updated_at?: string;
         };
@@ -299,9 +674,15 @@ export interface Database {
           budget_id?: string;
           category_id?: string;
           created_at?: string;
+          created_by?: string | null;
+          external_id?: string | null;
           household_id?: string;
+          household_member_id?: string | null;
           id?: string;
+          kind?: string;
           note?: string | null;
+          recurring_transaction_id?: string | null;
+          refunded_transaction_id?: string | null;
           transaction_date?: string;
           updated_at?: string;
         };
@@ -341,15 +722,81 @@ export interface Database {
             referencedRelation: "households";
             referencedColumns: ["id"];
           },
+          {
+            foreignKeyName: "transactions_household_member_id_fkey";
+            columns: ["household_member_id"];
+            isOneToOne: false;
+            referencedRelation: "household_members";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "transactions_recurring_transaction_id_fkey";
+            columns: ["recurring_transaction_id"];
+            isOneToOne: false;
+            referencedRelation: "recurring_transactions";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "transactions_refunded_transaction_id_fkey";
+            columns: ["refunded_transaction_id"];
+            isOneToOne: false;
+            referencedRelation: "transactions";
+            referencedColumns: ["id"];
+          },
         ];
       };
     };
     Views: Record<never, never>;
     Functions: {
+      accept_household_invitation: {
+        Args: { invitation_token: string };
+        Returns: string;
+      };
+      create_split_transaction: {
+        Args: { transaction: Json; splits: Json };
+        Returns: string;
+      };
       get_current_household_id: {
         Args: Record<PropertyKey, never>;
         Returns: string;
       };
+      has_household_role: {
+        Args: { required_role: string };
+        Returns: boolean;
+      };
+      import_household_backup: {
+        Args: { backup: Json };
+        Returns: undefined;
+      };
+      list_household_users: {
+        Args: Record<PropertyKey, never>;
+        Returns: {
+          created_at: string;
+          email: string;
+          role: string;
+          user_id: string;
+        }[];
+      };
+      materialize_recurring_transactions: {
+        Args: { occurrences: Json; cursors: Json };
+        Returns: Database["public"]["Tables"]["transactions"]["Row"][];
+      };
+      merge_category: {
+        Args: { source_category_id: string; target_category_id: string };
+        Returns: {
+          combined_planned_expenses: number;
+          moved_planned_expenses: number;
+          moved_transactions: number;
+        }[];
+      };
+      merge_transactions: {
+        Args: { target_transaction_id: string; duplicate_transaction_id: string };
+        Returns: undefined;
+      };
+      update_split_transaction: {
+        Args: { target_transaction_id: string; changes: Json; splits: Json };
+        Returns: undefined;
+      };
     };
     Enums: Record<never, never>;
     CompositeTypes: Record<never, never>;
@@ -2,6 +2,7 @@
 
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { Database } from "./db/database.types.ts";
+import type { HouseholdRole } from "./types.ts";
 
 declare global {
   namespace App {
@@ -12,6 +13,7 @@ declare global {
             id: string;
             email: string;
             household_id: string;
+            role: HouseholdRole;
           }
         | undefined;
     }
@@ -0,0 +1,94 @@
+import { splitNoteWords } from "./duplicates";
+
+/**
+ * Shortest word suggested as the pattern of a rule learned from a transaction.
+ */
+const MIN_SUGGESTED_PATTERN_LENGTH = 3;
+
+/**
+ * Rule fields used when picking the category of a transaction.
+ */
+export interface CategorizationRule {
+  readonly categoryId: string;
+  readonly pattern: string;
+  readonly priority: number;
+  readonly minAmount?: number | null;
+  readonly maxAmount?: number | null;
+}
+
+/**
+ * Transaction fields compared with the rules.
+ */
+export interface CategorizationSubject {
+  readonly note?: string | null;
+  readonly amount?: number | null;
+}
+
+/**
+ * Joins the words of a text into a single normalized string, so that "BIEDRONKA  1234" contains "biedronka".
+ */
+const normalizeText = (text: string | null | undefined): string => splitNoteWords(text).join(" ");
+
+/**
+ * Checks whether a transaction matches a rule: its note contains the pattern (ignoring case, diacritics
+ * and punctuation) and its amount falls within the rule's range. A rule with an amount range never matches
+ * a transaction without an amount.
+ */
+export function matchesCategorizationRule(rule: CategorizationRule, subject: CategorizationSubject): boolean {
+  const pattern = normalizeText(rule.pattern);
+  if (!pattern || !normalizeText(subject.note).includes(pattern)) {
+    return false;
+  }
+
+  const hasRange = (rule.minAmount ?? null) !== null || (rule.maxAmount ?? null) !== null;
+  if (!hasRange) {
+    return true;
+  }
+
+  if (subject.amount === undefined || subject.amount === null) {
+    return false;
+  }
+
+  return (
+    (rule.minAmount == null || subject.amount >= rule.minAmount) &&
+    (rule.maxAmount == null || subject.amount <= rule.maxAmount)
+  );
+}
+
+/**
+ * Returns the rule that decides the category of a transaction, or null when no rule matches.
+ * The rule with the highest priority wins; on equal priority the longer, more specific pattern wins.
+ */
+export function findMatchingCategorizationRule<T extends CategorizationRule>(
+  rules: readonly T[],
+  subject: CategorizationSubject
+): T | null {
+  let best: T | null = null;
+
+  for (const rule of rules) {
+    if (!matchesCategorizationRule(rule, subject)) {
+      continue;
+    }
+
+    if (
+      !best ||
+      rule.priority > best.priority ||
+      (rule.priority === best.priority && normalizeText(rule.pattern).length > normalizeText(best.pattern).length)
+    ) {
+      best = rule;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Suggests the pattern of a rule learned from a transaction note: its first word that is not a number,
+ * e.g. "BIEDRONKA 1234 WARSZAWA" gives "BIEDRONKA". Returns null when the note has no such word.
+ */
+export function suggestCategorizationPattern(note: string | null | undefined): string | null {
+  const words = (note ?? "").split(/[^\p{L}\p{N}]+/u);
+  const word = words.find((candidate) => candidate.length >= MIN_SUGGESTED_PATTERN_LENGTH && /\p{L}/u.test(candidate));
+
+  return word ?? null;
+}
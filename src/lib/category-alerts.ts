@@ -0,0 +1,147 @@
+import type { BudgetCategorySummaryStatus, CategoryGroup } from "../types";
+
+/**
+ * Alert settings used to classify the spending of a category.
+ * Thresholds and the pace alert percentage are percentages of the effective limit.
+ */
+export interface CategoryAlertSettings {
+  readonly warningThreshold: number;
+  readonly overThreshold: number;
+  /** Pace alert: day of the month by which no more than paceAlertPercent should be spent, null when disabled */
+  readonly paceAlertDay: number | null;
+  readonly paceAlertPercent: number | null;
+}
+
+/**
+ * Per-category overrides of the household alert settings, null fields fall back to the household.
+ */
+export interface CategoryAlertOverrides {
+  readonly warningThreshold: number | null;
+  readonly overThreshold: number | null;
+  readonly paceAlertDay: number | null;
+  readonly paceAlertPercent: number | null;
+}
+
+/**
+ * How far through the budget month we are.
+ */
+export interface MonthPace {
+  /** Day of the month today, null when the budget month is not the current month */
+  readonly dayOfMonth: number | null;
+  /** Share of the month that has passed, 0-100; past months are 100 and upcoming months 0 */
+  readonly elapsedPercentage: number;
+}
+
+export const DEFAULT_CATEGORY_ALERT_SETTINGS: CategoryAlertSettings = {
+  warningThreshold: 80,
+  overThreshold: 100,
+  paceAlertDay: null,
+  paceAlertPercent: null,
+};
+
+/**
+ * Percentage points a category may run ahead of the elapsed share of the month and still count as on track.
+ */
+export const PACE_TOLERANCE = 10;
+
+/**
+ * Applies the overrides of a category to the household settings.
+ * The pace alert is overridden as a whole, so a category cannot mix its own day with the household percentage.
+ * Fixed costs and savings are usually paid at once, so only variable costs inherit the household pace alert.
+ */
+export function resolveCategoryAlertSettings(
+  household: CategoryAlertSettings,
+  overrides: CategoryAlertOverrides,
+  group: CategoryGroup
+): CategoryAlertSettings {
+  const hasOwnPaceAlert = overrides.paceAlertDay !== null && overrides.paceAlertPercent !== null;
+  let paceAlert: Pick<CategoryAlertSettings, "paceAlertDay" | "paceAlertPercent"> = {
+    paceAlertDay: null,
+    paceAlertPercent: null,
+  };
+
+  if (hasOwnPaceAlert) {
+    paceAlert = overrides;
+  } else if (group === "variable") {
+    paceAlert = household;
+  }
+
+  return {
+    warningThreshold: overrides.warningThreshold ?? household.warningThreshold,
+    overThreshold: overrides.overThreshold ?? household.overThreshold,
+    paceAlertDay: paceAlert.paceAlertDay,
+    paceAlertPercent: paceAlert.paceAlertPercent,
+  };
+}
+
+/**
+ * Calculates how far through a budget month the given day is.
+ *
+ * @param month - The budget month (YYYY-MM-01)
+ * @param today - The current date
+ * @returns Day of the month and the elapsed share of the month
+ */
+export function getMonthPace(month: string, today: Date): MonthPace {
+  const [year, monthNumber] = month.split("-").map(Number);
+  const monthIndex = year * 12 + (monthNumber - 1);
+  const todayIndex = today.getFullYear() * 12 + today.getMonth();
+
+  if (todayIndex > monthIndex) {
+    return { dayOfMonth: null, elapsedPercentage: 100 };
+  }
+
+  if (todayIndex < monthIndex) {
+    return { dayOfMonth: null, elapsedPercentage: 0 };
+  }
+
+  const daysInMonth = new Date(year, monthNumber, 0).getDate();
+  const dayOfMonth = today.getDate();
+
+  return { dayOfMonth, elapsedPercentage: (dayOfMonth / daysInMonth) * 100 };
+}
+
+/**
+ * Calculates how much of the effective limit a category used and the resulting status.
+ *
+ * - "over": reached the overspending threshold; spending without a limit, or a limit
+ *   fully consumed by a carried deficit, always counts as overspent
+ * - "warning": reached the warning threshold, or the pace alert of the current month fired
+ * - "ahead_of_pace": variable costs spent faster than the month is passing (with PACE_TOLERANCE);
+ *   fixed costs and savings are usually paid at once, so they are never ahead of pace
+ * - "ok": none of the above
+ */
+export function getCategoryStatus(
+  spent: number,
+  effectiveLimit: number,
+  settings: CategoryAlertSettings,
+  pace: MonthPace,
+  group: CategoryGroup
+): { progress: number; status: BudgetCategorySummaryStatus } {
+  if (effectiveLimit <= 0) {
+    const isOver = spent > 0 || effectiveLimit < 0;
+    return { progress: isOver ? 100 : 0, status: isOver ? "over" : "ok" };
+  }
+
+  const progress = (spent / effectiveLimit) * 100;
+
+  if (progress >= settings.overThreshold) {
+    return { progress, status: "over" };
+  }
+
+  const paceAlertFired =
+    pace.dayOfMonth !== null &&
+    settings.paceAlertDay !== null &&
+    settings.paceAlertPercent !== null &&
+    pace.dayOfMonth <= settings.paceAlertDay &&
+    progress > settings.paceAlertPercent;
+
+  if (progress >= settings.warningThreshold || paceAlertFired) {
+    return { progress, status: "warning" };
+  }
+
+  if (group === "variable" && pace.dayOfMonth !== null && progress > pace.elapsedPercentage + PACE_TOLERANCE) {
+    return { progress, status: "ahead_of_pace" };
+  }
+
+  return { progress, status: "ok" };
+}
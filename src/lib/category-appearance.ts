@@ -0,0 +1,101 @@
+import type { CategoryGroup } from "../types";
+
+/**
+ * Cost groups in the order they are shown on the dashboard.
+ */
+export const CATEGORY_GROUPS = ["fixed", "variable", "savings"] as const satisfies readonly CategoryGroup[];
+
+/**
+ * Icon keys a category can use; the UI resolves every key to an icon.
+ */
+export const CATEGORY_ICON_KEYS = [
+  "home",
+  "bills",
+  "loans",
+  "food",
+  "shopping",
+  "transport",
+  "car",
+  "health",
+  "entertainment",
+  "clothing",
+  "education",
+  "kids",
+  "pets",
+  "travel",
+  "gift",
+  "sport",
+  "savings",
+  "other",
+] as const;
+
+export type CategoryIconKey = (typeof CATEGORY_ICON_KEYS)[number];
+
+export const CATEGORY_COLOR_REGEX = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * Category as seen by the ordering helpers.
+ */
+export interface OrderedCategory {
+  readonly name: string;
+  readonly sortOrder: number;
+}
+
+/**
+ * Compares categories by their user-defined position, ties are ordered by name.
+ */
+export function compareCategoryOrder(a: OrderedCategory, b: OrderedCategory): number {
+  return a.sortOrder - b.sortOrder || a.name.localeCompare(b.name);
+}
+
+/**
+ * Moves a category to another position and returns the new order of the IDs.
+ *
+ * @param orderedIds - Category IDs in their current order
+ * @param categoryId - The category being moved
+ * @param targetId - The category whose position the moved category takes
+ * @returns IDs in the new order, or the input order when either ID is unknown
+ */
+export function moveCategory(orderedIds: readonly string[], categoryId: string, targetId: string): string[] {
+  const fromIndex = orderedIds.indexOf(categoryId);
+  const toIndex = orderedIds.indexOf(targetId);
+
+  if (fromIndex === -1 || toIndex === -1 || fromIndex === toIndex) {
+    return [...orderedIds];
+  }
+
+  const reordered = [...orderedIds];
+  reordered.splice(fromIndex, 1);
+  reordered.splice(toIndex, 0, categoryId);
+  return reordered;
+}
+
+/**
+ * Spending and limits of one cost group.
+ */
+export interface CategoryGroupTotals<T> {
+  readonly group: CategoryGroup;
+  readonly categories: T[];
+  readonly spent: number;
+  readonly limit: number;
+}
+
+/**
+ * Splits categories into cost groups, keeping the input order within every group.
+ * Only the given categories are summed, so subcategories already included in their parents must be left out.
+ * Groups without categories are skipped.
+ */
+export function groupCategoriesByCostGroup<T extends { group: CategoryGroup; spent: number; limit: number }>(
+  categories: readonly T[]
+): CategoryGroupTotals<T>[] {
+  return CATEGORY_GROUPS.map((group) => {
+    const groupCategories = categories.filter((category) => category.group === group);
+
+    return {
+      group,
+      categories: groupCategories,
+      spent: groupCategories.reduce((sum, category) => sum + category.spent, 0),
+      limit: groupCategories.reduce((sum, category) => sum + category.limit, 0),
+    };
+  }).filter((totals) => totals.categories.length > 0);
+}
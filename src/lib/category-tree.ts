@@ -0,0 +1,141 @@
+/**
+ * Category as seen by the hierarchy helpers.
+ * Categories form a tree of at most two levels: top-level categories and their subcategories.
+ */
+export interface CategoryNode {
+  readonly id: string;
+  readonly parentId: string | null;
+}
+
+/**
+ * Category with its subcategories, as shown in collapsible lists.
+ */
+export interface CategoryTreeNode<T extends CategoryNode> {
+  readonly category: T;
+  readonly children: T[];
+}
+
+/**
+ * Limit planned for a category in one budget.
+ */
+export interface PlannedCategoryLimit {
+  readonly categoryId: string;
+  readonly limitAmount: number;
+}
+
+export type CategoryParentError = "INVALID_PARENT_ID" | "CATEGORY_PARENT_CYCLE" | "CATEGORY_DEPTH_EXCEEDED";
+
+/**
+ * Checks whether a category can be placed under the given parent.
+ *
+ * @param categories - All categories of the household
+ * @param categoryId - The category being moved, or null when a new category is created
+ * @param parentId - The requested parent category
+ * @returns Error code when the parent is not allowed, null otherwise
+ */
+export function validateCategoryParent(
+  categories: readonly CategoryNode[],
+  categoryId: string | null,
+  parentId: string
+): CategoryParentError | null {
+  const parentById = new Map(categories.map((category) => [category.id, category.parentId]));
+
+  if (!parentById.has(parentId)) {
+    return "INVALID_PARENT_ID";
+  }
+
+  // Walk up from the new parent; meeting the category itself would close a loop
+  const visited = new Set<string>();
+  let ancestorId: string | null = parentId;
+  while (ancestorId !== null && !visited.has(ancestorId)) {
+    if (ancestorId === categoryId) {
+      return "CATEGORY_PARENT_CYCLE";
+    }
+    visited.add(ancestorId);
+    ancestorId = parentById.get(ancestorId) ?? null;
+  }
+
+  // A subcategory cannot have subcategories of its own, and a category with subcategories cannot become one
+  const parentIsSubcategory = parentById.get(parentId) !== null;
+  const hasChildren = categoryId !== null && categories.some((category) => category.parentId === categoryId);
+
+  if (parentIsSubcategory || hasChildren) {
+    return "CATEGORY_DEPTH_EXCEEDED";
+  }
+
+  return null;
+}
+
+/**
+ * Adds the amounts of subcategories to their parents.
+ * Parents keep their own amount, subcategories keep theirs unchanged.
+ *
+ * @param amounts - Amounts booked directly on categories
+ * @param parentById - Parent of every known category, null for top-level ones
+ * @returns Amounts including everything booked on subcategories
+ */
+export function rollUpCategoryAmounts(
+  amounts: ReadonlyMap<string, number>,
+  parentById: ReadonlyMap<string, string | null>
+): Map<string, number> {
+  const rolledUp = new Map(amounts);
+
+  amounts.forEach((amount, categoryId) => {
+    const parentId = parentById.get(categoryId);
+    if (parentId) {
+      rolledUp.set(parentId, (rolledUp.get(parentId) ?? 0) + amount);
+    }
+  });
+
+  return rolledUp;
+}
+
+/**
+ * Sums the limits planned in a budget.
+ * A parent limit covers its subcategories, so every parent counts with its own limit
+ * or with the sum of its subcategory limits, whichever is higher.
+ */
+export function sumPlannedLimits(
+  plannedLimits: readonly PlannedCategoryLimit[],
+  parentById: ReadonlyMap<string, string | null>
+): number {
+  const ownLimits = new Map<string, number>();
+  const subcategoryLimits = new Map<string, number>();
+
+  plannedLimits.forEach((planned) => {
+    const parentId = parentById.get(planned.categoryId);
+    if (parentId) {
+      subcategoryLimits.set(parentId, (subcategoryLimits.get(parentId) ?? 0) + planned.limitAmount);
+    } else {
+      ownLimits.set(planned.categoryId, (ownLimits.get(planned.categoryId) ?? 0) + planned.limitAmount);
+    }
+  });
+
+  let total = 0;
+  new Set([...ownLimits.keys(), ...subcategoryLimits.keys()]).forEach((categoryId) => {
+    total += Math.max(ownLimits.get(categoryId) ?? 0, subcategoryLimits.get(categoryId) ?? 0);
+  });
+
+  return total;
+}
+
+/**
+ * Groups categories into a tree, keeping the input order on both levels.
+ * Subcategories whose parent is not in the list are shown at the top level.
+ */
+export function buildCategoryTree<T extends CategoryNode>(categories: readonly T[]): CategoryTreeNode<T>[] {
+  const categoryIds = new Set(categories.map((category) => category.id));
+  const childrenByParent = new Map<string, T[]>();
+
+  categories.forEach((category) => {
+    if (category.parentId && categoryIds.has(category.parentId)) {
+      const children = childrenByParent.get(category.parentId) ?? [];
+      children.push(category);
+      childrenByParent.set(category.parentId, children);
+    }
+  });
+
+  return categories
+    .filter((category) => !category.parentId || !categoryIds.has(category.parentId))
+    .map((category) => ({ category, children: childrenByParent.get(category.id) ?? [] }));
+}
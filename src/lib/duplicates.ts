@@ -0,0 +1,144 @@
+import type { TransactionKind } from "../types";
+
+/**
+ * Maximum number of days between two transactions that can still be duplicates of each other.
+ * Bank statements often book card payments a day or two after they were entered by hand.
+ */
+export const DUPLICATE_DATE_WINDOW_DAYS = 3;
+
+/**
+ * Minimum share of common words (of the shorter note) for two notes to be considered similar.
+ */
+export const NOTE_SIMILARITY_THRESHOLD = 0.5;
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Transaction fields compared by the duplicate detector.
+ */
+export interface DuplicateCandidate {
+  readonly categoryId?: string;
+  /** Missing kind means an expense */
+  readonly kind?: TransactionKind;
+  readonly amount: number;
+  /** Date in YYYY-MM-DD format */
+  readonly transactionDate: string;
+  readonly note?: string | null;
+}
+
+/**
+ * Pair of suspected duplicates; the earlier transaction comes first.
+ */
+export interface DuplicatePair<T> {
+  readonly transaction: T;
+  readonly duplicate: T;
+}
+
+const roundToCents = (value: number): number => Math.round(value * 100);
+
+const daysBetween = (from: string, to: string): number => Math.abs(Date.parse(to) - Date.parse(from)) / DAY_IN_MS;
+
+const shiftDate = (date: string, days: number): string =>
+  new Date(Date.parse(date) + days * DAY_IN_MS).toISOString().slice(0, 10);
+
+/**
+ * Splits a note into lowercase words without diacritics, in their original order,
+ * e.g. "Żabka, ul. Długa 5" becomes [zabka, ul, dluga, 5].
+ */
+export function splitNoteWords(note: string | null | undefined): string[] {
+  const normalized = (note ?? "")
+    .toLocaleLowerCase("pl-PL")
+    .replace(/ł/g, "l")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+
+  return normalized.match(/[a-z0-9]+/g) ?? [];
+}
+
+/**
+ * Returns the distinct words of a note, e.g. "Żabka, ul. Długa 5" becomes {zabka, ul, dluga, 5}.
+ */
+export function tokenizeNote(note: string | null | undefined): Set<string> {
+  return new Set(splitNoteWords(note));
+}
+
+/**
+ * Returns the share of words of the shorter note that also appear in the longer one, from 0 to 1.
+ * A note typed by hand ("Biedronka") is usually a part of the bank description ("BIEDRONKA 1234 WARSZAWA").
+ * An empty note does not contradict any other note, so it is similar to every note.
+ */
+export function calculateNoteSimilarity(first: string | null | undefined, second: string | null | undefined): number {
+  const firstWords = tokenizeNote(first);
+  const secondWords = tokenizeNote(second);
+
+  if (firstWords.size === 0 || secondWords.size === 0) {
+    return 1;
+  }
+
+  const [shorter, longer] = firstWords.size <= secondWords.size ? [firstWords, secondWords] : [secondWords, firstWords];
+  const commonCount = Array.from(shorter).filter((word) => longer.has(word)).length;
+
+  return commonCount / shorter.size;
+}
+
+/**
+ * Checks whether two transactions look like the same expense recorded twice:
+ * the same kind, category and amount, dates at most DUPLICATE_DATE_WINDOW_DAYS apart and similar notes.
+ * A refund is never a duplicate of the expense it returns money for.
+ */
+export function isSuspectedDuplicate(first: DuplicateCandidate, second: DuplicateCandidate): boolean {
+  return (
+    (first.kind ?? "expense") === (second.kind ?? "expense") &&
+    first.categoryId !== undefined &&
+    first.categoryId === second.categoryId &&
+    roundToCents(first.amount) === roundToCents(second.amount) &&
+    daysBetween(first.transactionDate, second.transactionDate) <= DUPLICATE_DATE_WINDOW_DAYS &&
+    calculateNoteSimilarity(first.note, second.note) >= NOTE_SIMILARITY_THRESHOLD
+  );
+}
+
+/**
+ * Returns the range of transaction dates that can hold duplicates of transactions from the given dates.
+ */
+export function getDuplicateDateRange(dates: readonly string[]): { fromDate: string; toDate: string } | null {
+  if (dates.length === 0) {
+    return null;
+  }
+
+  const sortedDates = [...dates].sort();
+
+  return {
+    fromDate: shiftDate(sortedDates[0], -DUPLICATE_DATE_WINDOW_DAYS),
+    toDate: shiftDate(sortedDates[sortedDates.length - 1], DUPLICATE_DATE_WINDOW_DAYS),
+  };
+}
+
+/**
+ * Finds all pairs of suspected duplicates among the given transactions.
+ * Within a pair the transaction with the earlier date (or listed first on the same date) comes first.
+ */
+export function findDuplicatePairs<T extends DuplicateCandidate>(transactions: readonly T[]): DuplicatePair<T>[] {
+  const sorted = transactions
+    .map((transaction, index) => ({ transaction, index }))
+    .sort((a, b) => a.transaction.transactionDate.localeCompare(b.transaction.transactionDate) || a.index - b.index)
+    .map((entry) => entry.transaction);
+
+  const pairs: DuplicatePair<T>[] = [];
+
+  sorted.forEach((transaction, index) => {
+    for (let otherIndex = index + 1; otherIndex < sorted.length; otherIndex++) {
+      const other = sorted[otherIndex];
+
+      // Transactions are sorted by date, so no later one can fall within the window
+      if (daysBetween(transaction.transactionDate, other.transactionDate) > DUPLICATE_DATE_WINDOW_DAYS) {
+        break;
+      }
+
+      if (isSuspectedDuplicate(transaction, other)) {
+        pairs.push({ transaction, duplicate: other });
+      }
+    }
+  });
+
+  return pairs;
+}
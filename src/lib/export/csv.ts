@@ -0,0 +1,44 @@
+import type { ExportCell, ExportSheet } from "./workbook";
+
+/**
+ * Excel in the Polish locale splits columns on semicolons, because the comma is the decimal separator.
+ */
+export const CSV_SEPARATOR = ";";
+
+const BYTE_ORDER_MARK = "\uFEFF";
+const LINE_BREAK = "\r\n";
+
+/** Characters that make spreadsheets treat a text cell as a formula */
+const FORMULA_PREFIXES = ["=", "+", "-", "@", "\t", "\r"];
+
+/**
+ * Formats a cell for a CSV file. Numbers get a decimal comma; text is quoted when it contains the separator,
+ * quotes or line breaks. Text starting like a formula is prefixed with an apostrophe, so that notes typed by users
+ * are never evaluated by the spreadsheet.
+ */
+export function formatCsvCell(cell: ExportCell): string {
+  if (cell === null) {
+    return "";
+  }
+
+  if (typeof cell === "number") {
+    return String(cell).replace(".", ",");
+  }
+
+  const text = FORMULA_PREFIXES.some((prefix) => cell.startsWith(prefix)) ? `'${cell}` : cell;
+
+  return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Writes a sheet as CSV text in UTF-8 with a byte order mark, semicolon separators and CRLF line endings,
+ * which Excel opens correctly without an import wizard.
+ *
+ * @param sheet - The sheet to write, its columns become the header row
+ * @returns CSV text including the byte order mark
+ */
+export function buildCsv(sheet: ExportSheet): string {
+  const lines = [sheet.columns, ...sheet.rows].map((row) => row.map(formatCsvCell).join(CSV_SEPARATOR));
+
+  return BYTE_ORDER_MARK + lines.join(LINE_BREAK) + LINE_BREAK;
+}
@@ -0,0 +1,39 @@
+import type { ExportFormat, ExportSheetKey } from "../../types";
+import { buildCsv } from "./csv";
+import type { ExportWorkbook } from "./workbook";
+import { buildXlsx } from "./xlsx";
+
+/**
+ * Export rendered as a downloadable file.
+ */
+export interface ExportFile {
+  readonly fileName: string;
+  readonly contentType: string;
+  readonly content: string | Uint8Array;
+}
+
+/**
+ * Renders an export as a file: an XLSX workbook with all sheets, or a CSV file with the chosen sheet.
+ *
+ * @param workbook - Sheets of the export
+ * @param format - File format
+ * @param sheet - Sheet written to a CSV file, ignored for XLSX
+ * @returns The file with its name and content type
+ */
+export function renderExportFile(workbook: ExportWorkbook, format: ExportFormat, sheet: ExportSheetKey): ExportFile {
+  if (format === "xlsx") {
+    return {
+      fileName: `${workbook.fileName}.xlsx`,
+      contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      content: buildXlsx(workbook.sheets),
+    };
+  }
+
+  const csvSheet = workbook.sheets.find((item) => item.key === sheet) ?? workbook.sheets[0];
+
+  return {
+    fileName: sheet === "transactions" ? `${workbook.fileName}.csv` : `${workbook.fileName}-${sheet}.csv`,
+    contentType: "text/csv; charset=utf-8",
+    content: buildCsv(csvSheet),
+  };
+}
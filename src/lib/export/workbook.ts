@@ -0,0 +1,24 @@
+import type { ExportSheetKey } from "../../types";
+
+/** Value of a cell; numbers are written as numbers, null as an empty cell */
+export type ExportCell = string | number | null;
+
+/**
+ * Table exported as a CSV file or as one sheet of an XLSX workbook.
+ */
+export interface ExportSheet {
+  readonly key: ExportSheetKey;
+  /** Sheet name shown in the spreadsheet */
+  readonly name: string;
+  readonly columns: readonly string[];
+  readonly rows: readonly (readonly ExportCell[])[];
+}
+
+/**
+ * Sheets of an export together with the base name of the downloaded file.
+ */
+export interface ExportWorkbook {
+  /** File name without extension */
+  readonly fileName: string;
+  readonly sheets: readonly ExportSheet[];
+}
@@ -0,0 +1,147 @@
+import type { ExportCell, ExportSheet } from "./workbook";
+import { createZip } from "./zip";
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const SPREADSHEET_NAMESPACE = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const RELATIONSHIPS_NAMESPACE = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PACKAGE_RELATIONSHIPS_NAMESPACE = "http://schemas.openxmlformats.org/package/2006/relationships";
+
+/** Excel limits sheet names to 31 characters */
+const MAX_SHEET_NAME_LENGTH = 31;
+
+/** Indexes of the cell formats defined in the styles part */
+const HEADER_STYLE = 1;
+const NUMBER_STYLE = 2;
+
+const STYLES_XML =
+  `${XML_DECLARATION}<styleSheet xmlns="${SPREADSHEET_NAMESPACE}">` +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>' +
+  "</styleSheet>";
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Control characters other than tab and line breaks are not allowed in XML
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "");
+
+/**
+ * Converts a zero-based column index to its spreadsheet letters (0 → A, 26 → AA).
+ */
+export function getColumnName(index: number): string {
+  let name = "";
+  let remaining = index + 1;
+
+  while (remaining > 0) {
+    const letter = (remaining - 1) % 26;
+    name = String.fromCharCode(65 + letter) + name;
+    remaining = Math.floor((remaining - 1) / 26);
+  }
+
+  return name;
+}
+
+/**
+ * Makes a sheet name valid: removes the characters Excel rejects and shortens it to the allowed length.
+ */
+const sanitizeSheetName = (name: string): string =>
+  name.replace(/[[\]:*?/\\]/g, " ").slice(0, MAX_SHEET_NAME_LENGTH) || "Arkusz";
+
+const buildCellXml = (cell: ExportCell, reference: string, style: number): string => {
+  if (cell === null) {
+    return "";
+  }
+
+  if (typeof cell === "number") {
+    return `<c r="${reference}" s="${NUMBER_STYLE}"><v>${cell}</v></c>`;
+  }
+
+  const styleAttribute = style > 0 ? ` s="${style}"` : "";
+  return `<c r="${reference}" t="inlineStr"${styleAttribute}><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+};
+
+const buildSheetXml = (sheet: ExportSheet): string => {
+  const rows = [sheet.columns, ...sheet.rows].map((row, rowIndex) => {
+    const style = rowIndex === 0 ? HEADER_STYLE : 0;
+    const cells = row.map((cell, columnIndex) =>
+      buildCellXml(cell, `${getColumnName(columnIndex)}${rowIndex + 1}`, style)
+    );
+    return `<row r="${rowIndex + 1}">${cells.join("")}</row>`;
+  });
+
+  return `${XML_DECLARATION}<worksheet xmlns="${SPREADSHEET_NAMESPACE}"><sheetData>${rows.join("")}</sheetData></worksheet>`;
+};
+
+/**
+ * Writes sheets as an XLSX workbook (Office Open XML), one worksheet per sheet in the given order.
+ * Text is written inline, numbers with two decimal places and the header rows in bold.
+ *
+ * @param sheets - Sheets of the workbook
+ * @returns The XLSX file bytes
+ */
+export function buildXlsx(sheets: readonly ExportSheet[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const sheetNumbers = sheets.map((_, index) => index + 1);
+
+  const contentTypesXml =
+    `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    sheetNumbers
+      .map(
+        (number) =>
+          `<Override PartName="/xl/worksheets/sheet${number}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+      )
+      .join("") +
+    "</Types>";
+
+  const rootRelationshipsXml =
+    `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NAMESPACE}">` +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    "</Relationships>";
+
+  const workbookXml =
+    `${XML_DECLARATION}<workbook xmlns="${SPREADSHEET_NAMESPACE}" xmlns:r="${RELATIONSHIPS_NAMESPACE}"><sheets>` +
+    sheets
+      .map(
+        (sheet, index) =>
+          `<sheet name="${escapeXml(sanitizeSheetName(sheet.name))}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+      )
+      .join("") +
+    "</sheets></workbook>";
+
+  // Worksheets take the first relationship IDs, the styles part follows them
+  const workbookRelationshipsXml =
+    `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_RELATIONSHIPS_NAMESPACE}">` +
+    sheetNumbers
+      .map(
+        (number) =>
+          `<Relationship Id="rId${number}" Type="${RELATIONSHIPS_NAMESPACE}/worksheet" Target="worksheets/sheet${number}.xml"/>`
+      )
+      .join("") +
+    `<Relationship Id="rId${sheets.length + 1}" Type="${RELATIONSHIPS_NAMESPACE}/styles" Target="styles.xml"/>` +
+    "</Relationships>";
+
+  return createZip([
+    { path: "[Content_Types].xml", content: encoder.encode(contentTypesXml) },
+    { path: "_rels/.rels", content: encoder.encode(rootRelationshipsXml) },
+    { path: "xl/workbook.xml", content: encoder.encode(workbookXml) },
+    { path: "xl/_rels/workbook.xml.rels", content: encoder.encode(workbookRelationshipsXml) },
+    { path: "xl/styles.xml", content: encoder.encode(STYLES_XML) },
+    ...sheets.map((sheet, index) => ({
+      path: `xl/worksheets/sheet${index + 1}.xml`,
+      content: encoder.encode(buildSheetXml(sheet)),
+    })),
+  ]);
+}
@@ -0,0 +1,124 @@
+/**
+ * Minimal ZIP writer for generated files. Entries are stored without compression,
+ * which every ZIP reader (including spreadsheet applications opening XLSX files) supports.
+ */
+
+export interface ZipEntry {
+  /** Path inside the archive, with forward slashes */
+  readonly path: string;
+  readonly content: Uint8Array;
+}
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP_VERSION = 20;
+/** General purpose flag marking file names as UTF-8 */
+const UTF8_FLAG = 0x0800;
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let value = index;
+  for (let bit = 0; bit < 8; bit += 1) {
+    value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+  }
+  return value >>> 0;
+});
+
+/**
+ * Calculates the CRC-32 checksum used by ZIP archives.
+ */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Converts a date to the MS-DOS time and date fields of ZIP headers.
+ */
+const toDosDateTime = (date: Date): { time: number; date: number } => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/**
+ * Packs entries into a ZIP archive.
+ *
+ * @param entries - Files of the archive, in the order they are written
+ * @param modifiedAt - Modification time recorded for every entry
+ * @returns The archive bytes
+ */
+export function createZip(entries: readonly ZipEntry[], modifiedAt: Date = new Date()): Uint8Array {
+  const encoder = new TextEncoder();
+  const dosDateTime = toDosDateTime(modifiedAt);
+  const records = entries.map((entry) => ({
+    name: encoder.encode(entry.path),
+    content: entry.content,
+    crc: crc32(entry.content),
+  }));
+
+  const localSize = records.reduce((sum, record) => sum + 30 + record.name.length + record.content.length, 0);
+  const centralSize = records.reduce((sum, record) => sum + 46 + record.name.length, 0);
+  const archive = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(archive.buffer);
+
+  let offset = 0;
+  const localOffsets: number[] = [];
+
+  // Writes the fields shared by local file headers and central directory entries
+  const writeEntryFields = (record: (typeof records)[number]) => {
+    view.setUint16(offset, UTF8_FLAG, true);
+    view.setUint16(offset + 2, 0, true);
+    view.setUint16(offset + 4, dosDateTime.time, true);
+    view.setUint16(offset + 6, dosDateTime.date, true);
+    view.setUint32(offset + 8, record.crc, true);
+    view.setUint32(offset + 12, record.content.length, true);
+    view.setUint32(offset + 16, record.content.length, true);
+    view.setUint16(offset + 20, record.name.length, true);
+    view.setUint16(offset + 22, 0, true);
+    offset += 24;
+  };
+
+  records.forEach((record) => {
+    localOffsets.push(offset);
+    view.setUint32(offset, LOCAL_FILE_HEADER_SIGNATURE, true);
+    view.setUint16(offset + 4, ZIP_VERSION, true);
+    offset += 6;
+    writeEntryFields(record);
+    archive.set(record.name, offset);
+    offset += record.name.length;
+    archive.set(record.content, offset);
+    offset += record.content.length;
+  });
+
+  const centralOffset = offset;
+  records.forEach((record, index) => {
+    view.setUint32(offset, CENTRAL_DIRECTORY_SIGNATURE, true);
+    view.setUint16(offset + 4, ZIP_VERSION, true);
+    view.setUint16(offset + 6, ZIP_VERSION, true);
+    offset += 8;
+    writeEntryFields(record);
+    // Comment length, disk number, internal and external attributes
+    view.setUint16(offset, 0, true);
+    view.setUint16(offset + 2, 0, true);
+    view.setUint16(offset + 4, 0, true);
+    view.setUint32(offset + 6, 0, true);
+    view.setUint32(offset + 10, localOffsets[index], true);
+    offset += 14;
+    archive.set(record.name, offset);
+    offset += record.name.length;
+  });
+
+  view.setUint32(offset, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  view.setUint16(offset + 4, 0, true);
+  view.setUint16(offset + 6, 0, true);
+  view.setUint16(offset + 8, records.length, true);
+  view.setUint16(offset + 10, records.length, true);
+  view.setUint32(offset + 12, centralSize, true);
+  view.setUint32(offset + 16, centralOffset, true);
+  view.setUint16(offset + 20, 0, true);
+
+  return archive;
+}
@@ -0,0 +1,132 @@
+import type { SpendingForecastDto } from "../types";
+
+/**
+ * Days of the budget month that have passed, today included.
+ */
+export interface ForecastPeriod {
+  readonly daysElapsed: number;
+  readonly daysInMonth: number;
+}
+
+/**
+ * Spending of a category (or the whole budget) known so far.
+ */
+export interface SpendingForecastInput {
+  /** Spending booked so far, recurring and future-dated transactions included */
+  readonly spent: number;
+  /** Recurring payments still due in the month */
+  readonly upcomingRecurring: number;
+  /** Planned spending expected on top of the above, e.g. the unpaid part of a fixed cost */
+  readonly plannedOutflow: number;
+  /** Spending of every elapsed day that runs at a daily rate and is extrapolated over the rest of the month */
+  readonly dailyAmounts: readonly number[];
+}
+
+/**
+ * Dated spending line used to build the daily amounts.
+ */
+export interface DatedAmount {
+  readonly date: string;
+  readonly amount: number;
+}
+
+/**
+ * Standard normal quantile of the confidence band; 1.28 gives a two-sided band of about 80%.
+ */
+export const FORECAST_CONFIDENCE_Z = 1.28;
+
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Calculates how many days of a budget month have passed.
+ *
+ * @param month - The budget month (YYYY-MM-01)
+ * @param today - The current date
+ * @returns Elapsed days and the length of the month; past months are fully elapsed, upcoming ones not started
+ */
+export function getForecastPeriod(month: string, today: Date): ForecastPeriod {
+  const [year, monthNumber] = month.split("-").map(Number);
+  const daysInMonth = new Date(year, monthNumber, 0).getDate();
+  const monthIndex = year * 12 + (monthNumber - 1);
+  const todayIndex = today.getFullYear() * 12 + today.getMonth();
+
+  if (todayIndex > monthIndex) {
+    return { daysElapsed: daysInMonth, daysInMonth };
+  }
+
+  if (todayIndex < monthIndex) {
+    return { daysElapsed: 0, daysInMonth };
+  }
+
+  return { daysElapsed: today.getDate(), daysInMonth };
+}
+
+/**
+ * Sums spending lines per elapsed day of the budget month.
+ * Lines dated before the month count on its first day; lines dated after the elapsed days are left out,
+ * as they are already booked and do not say anything about the daily rate.
+ *
+ * @param lines - Spending lines with their dates (YYYY-MM-DD)
+ * @param month - The budget month (YYYY-MM-01)
+ * @param daysElapsed - Elapsed days of the month
+ * @returns Spending of every elapsed day, the first day at index 0
+ */
+export function buildDailyAmounts(lines: readonly DatedAmount[], month: string, daysElapsed: number): number[] {
+  const dailyAmounts = Array.from({ length: daysElapsed }, () => 0);
+  const monthPrefix = month.slice(0, 7);
+
+  lines.forEach((line) => {
+    const day = line.date.slice(0, 7) < monthPrefix ? 1 : Number(line.date.slice(8, 10));
+    if (line.date.slice(0, 7) <= monthPrefix && day <= daysElapsed) {
+      dailyAmounts[day - 1] += line.amount;
+    }
+  });
+
+  return dailyAmounts;
+}
+
+/**
+ * Projects the spending at the end of the budget month.
+ *
+ * Known outflows (booked spending, recurring payments still due and planned spending) are taken as they are,
+ * the daily spending is extrapolated over the remaining days at its average rate. The confidence band
+ * grows with the day-to-day variability of the spending and with the number of remaining days.
+ *
+ * @param input - Spending known so far
+ * @param period - Elapsed days of the budget month
+ * @returns Projected spending with its confidence band
+ */
+export function forecastSpending(input: SpendingForecastInput, period: ForecastPeriod): SpendingForecastDto {
+  const daysRemaining = period.daysInMonth - period.daysElapsed;
+
+  // A finished month will not get any more spending
+  if (daysRemaining === 0) {
+    const spent = roundToCents(input.spent);
+    return { projectedSpent: spent, lowerBound: spent, upperBound: spent, upcomingRecurring: 0, daysRemaining };
+  }
+
+  const known = input.spent + input.upcomingRecurring + input.plannedOutflow;
+  const daysElapsed = input.dailyAmounts.length;
+  let extrapolated = 0;
+  let margin = 0;
+
+  if (daysElapsed > 0) {
+    const mean = input.dailyAmounts.reduce((sum, amount) => sum + amount, 0) / daysElapsed;
+    // A single day says nothing about the variability, so it is assumed to be as large as the spending itself
+    const deviation =
+      daysElapsed > 1
+        ? Math.sqrt(input.dailyAmounts.reduce((sum, amount) => sum + (amount - mean) ** 2, 0) / (daysElapsed - 1))
+        : Math.abs(mean);
+
+    extrapolated = Math.max(0, mean * daysRemaining);
+    margin = FORECAST_CONFIDENCE_Z * deviation * Math.sqrt(daysRemaining);
+  }
+
+  return {
+    projectedSpent: roundToCents(known + extrapolated),
+    lowerBound: roundToCents(known + Math.max(0, extrapolated - margin)),
+    upperBound: roundToCents(known + extrapolated + margin),
+    upcomingRecurring: roundToCents(input.upcomingRecurring),
+    daysRemaining,
+  };
+}
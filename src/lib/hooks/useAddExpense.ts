@@ -3,19 +3,26 @@ import { useCallback, useEffect, useRef, useState } from "react";
 import type { AddExpenseError, AddExpenseResult, AddExpenseState } from "@/components/expenses/types";
 import type {
   ApiErrorDto,
+  CategorizationRuleDto,
+  CategorizationRulesListResponseDto,
   CategoriesListResponseDto,
   CategoryDto,
   CreateTransactionCommand,
   DashboardSummaryDto,
+  HouseholdMemberDto,
+  HouseholdMembersListResponseDto,
   TransactionDto,
 } from "@/types";
 
 const CATEGORIES_ENDPOINT = "/api/categories";
 const DASHBOARD_ENDPOINT = "/api/dashboard/current";
+const MEMBERS_ENDPOINT = "/api/household-members";
+const CATEGORIZATION_RULES_ENDPOINT = "/api/categorization-rules";
 
 /**
  * Custom hook for managing add expense form logic.
- * Handles fetching categories, getting current budget ID, and submitting expenses.
+ * Handles fetching categories, household members and categorization rules, getting current budget ID,
+ * and submitting expenses.
  */
 export const useAddExpense = (): AddExpenseState & {
   readonly submitExpense: (data: CreateTransactionCommand) => Promise<AddExpenseResult>;
@@ -26,11 +33,15 @@ export const useAddExpense = (): AddExpenseState & {
   const [isLoadingCategories, setIsLoadingCategories] = useState<boolean>(true);
   const [categoriesError, setCategoriesError] = useState<AddExpenseError | null>(null);
 
+  const [members, setMembers] = useState<readonly HouseholdMemberDto[]>([]);
+  const [categorizationRules, setCategorizationRules] = useState<readonly CategorizationRuleDto[]>([]);
+
   const [budgetId, setBudgetId] = useState<string | null>(null);
   const [isLoadingBudget, setIsLoadingBudget] = useState<boolean>(true);
 
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
+  const [duplicateCommand, setDuplicateCommand] = useState<CreateTransactionCommand | null>(null);
 
   const abortControllerRef = useRef<AbortController | null>(null);
 
@@ -46,7 +57,7 @@ export const useAddExpense = (): AddExpenseState & {
     setCategoriesError(null);
 
     try {
-      const response = await fetch(`${CATEGORIES_ENDPOINT}?page=1&pageSize=100`, {
+      const response = await fetch(`${CATEGORIES_ENDPOINT}?page=1&pageSize=100&sort=sortOrder`, {
         method: "GET",
         signal: abortController.signal,
         headers: {
@@ -91,6 +102,60 @@ export const useAddExpense = (): AddExpenseState & {
     }
   }, []);
 
+  /**
+   * Fetch active household members from API.
+   * Choosing the paying member is optional, so failures only leave the list empty.
+   */
+  const fetchMembers = useCallback(async () => {
+    try {
+      const response = await fetch(`${MEMBERS_ENDPOINT}?page=1&pageSize=100`, {
+        method: "GET",
+        headers: {
+          Accept: "application/json",
+        },
+      });
+
+      if (!response.ok) {
+        console.warn("Failed to fetch household members", response.status);
+        setMembers([]);
+        return;
+      }
+
+      const payload = (await response.json()) as HouseholdMembersListResponseDto;
+      setMembers(payload.data);
+    } catch (cause) {
+      console.error("Failed to fetch household members", cause);
+      setMembers([]);
+    }
+  }, []);
+
+  /**
+   * Fetch categorization rules from API.
+   * Rules only suggest the category, so failures only leave the list empty.
+   */
+  const fetchCategorizationRules = useCallback(async () => {
+    try {
+      const response = await fetch(CATEGORIZATION_RULES_ENDPOINT, {
+        method: "GET",
+        headers: {
+          Accept: "application/json",
+        },
+      });
+
+      if (!response.ok) {
+        console.warn("Failed to fetch categorization rules", response.status);
+        setCategorizationRules([]);
+        return;
+      }
+
+      const payload = (await response.json()) as CategorizationRulesListResponseDto;
+      setCategorizationRules(payload.data);
+    } catch (cause) {
+      console.error("Failed to fetch categorization rules", cause);
+      setCategorizationRules([]);
+    }
+  }, []);
+
   /**
    * Fetch current budget ID from dashboard
    */
@@ -153,6 +218,7 @@ export const useAddExpense = (): AddExpenseState & {
 
       setIsSubmitting(true);
       setSubmitError(null);
+      setDuplicateCommand(null);
 
       try {
         const response = await fetch(`/api/budgets/${budgetId}/transactions`, {
@@ -184,6 +250,11 @@ export const useAddExpense = (): AddExpenseState & {
           const errorMessage = mapApiErrorToMessage(payload?.error.code);
           setSubmitError(errorMessage);
 
+          // A suspected duplicate can be saved anyway, so keep the expense for confirmation
+          if (payload?.error.code === "DUPLICATE_SUSPECTED") {
+            setDuplicateCommand(data);
+          }
+
           return {
             success: false,
             error: {
@@ -223,28 +294,34 @@ export const useAddExpense = (): AddExpenseState & {
    */
   const clearSubmitError = useCallback(() => {
     setSubmitError(null);
+    setDuplicateCommand(null);
   }, []);
 
   /**
-   * Initialize hook by fetching categories and budget ID
+   * Initialize hook by fetching categories, members, categorization rules and budget ID
    */
   useEffect(() => {
     void fetchCategories();
+    void fetchMembers();
+    void fetchCategorizationRules();
     void fetchBudgetId();
 
     return () => {
       abortControllerRef.current?.abort();
     };
-  }, [fetchCategories, fetchBudgetId]);
+  }, [fetchCategories, fetchMembers, fetchCategorizationRules, fetchBudgetId]);
 
   return {
     categories,
     isLoadingCategories,
     categoriesError,
+    members,
+    categorizationRules,
     budgetId,
     isLoadingBudget,
     isSubmitting,
     submitError,
+    duplicateCommand,
     submitExpense,
     clearSubmitError,
     refetchCategories: fetchCategories,
@@ -279,8 +356,18 @@ const mapApiErrorToMessage = (code?: string): string => {
       return "Wprowadź prawidłową datę";
     case "INVALID_CATEGORY_ID":
       return "Wybierz prawidłową kategorię";
+    case "CATEGORY_NOT_MATCHED":
+      return "Żadna reguła kategoryzacji nie pasuje do notatki. Wybierz kategorię";
+    case "INVALID_MEMBER":
+      return "Wybrana osoba nie jest aktywnym członkiem gospodarstwa";
     case "CATEGORY_MISMATCH":
       return "Wybrana kategoria nie jest dostępna";
+    case "INVALID_SPLITS":
+      return "Popraw podział na kategorie";
+    case "SPLIT_TOTAL_MISMATCH":
+      return "Suma pozycji musi być równa kwocie wydatku";
+    case "DUPLICATE_SUSPECTED":
+      return "Podobny wydatek został już zapisany w ostatnich dniach. Czy to na pewno nowy wydatek?";
     case "BUDGET_NOT_FOUND":
       return "Nie znaleziono aktywnego budżetu";
     case "UNAUTHENTICATED":
@@ -1,11 +1,14 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 
-import type { ApiErrorDto, DashboardSummaryDto } from "@/types";
+import { hasHouseholdPermission } from "@/lib/permissions";
+import type { ApiErrorDto, DashboardSummaryDto, HouseholdRole } from "@/types";
 
 export interface DashboardState {
   readonly data: DashboardSummaryDto | null;
   readonly isLoading: boolean;
   readonly error: DashboardError | null;
+  /** Message shown when due recurring transactions could not be booked; the summary is still loaded */
+  readonly recurringError: string | null;
   readonly refetch: () => Promise<void>;
 }
 
@@ -16,13 +19,22 @@ export interface DashboardError {
 }
 
 const DASHBOARD_ENDPOINT = "/api/dashboard/current";
-
-export const useDashboard = (): DashboardState => {
+const MATERIALIZE_RECURRING_ENDPOINT = "/api/recurring-transactions/materialize";
+
+/**
+ * Loads the dashboard summary of the current budget.
+ * For editors and owners, recurring transactions that became due since the last visit are booked first,
+ * once per page load, so that the summary includes them.
+ */
+export const useDashboard = (role?: HouseholdRole): DashboardState => {
   const [data, setData] = useState<DashboardSummaryDto | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<DashboardError | null>(null);
+  const [recurringError, setRecurringError] = useState<string | null>(null);
 
   const abortControllerRef = useRef<AbortController | null>(null);
+  const hasMaterializedRef = useRef(false);
+  const canMaterialize = hasHouseholdPermission(role, "budgets:edit");
 
   const fetchDashboard = useCallback(async () => {
     abortControllerRef.current?.abort();
@@ -33,6 +45,25 @@ export const useDashboard = (): DashboardState => {
     setError(null);
 
     try {
+      if (canMaterialize && !hasMaterializedRef.current) {
+        const materializeResponse = await fetch(MATERIALIZE_RECURRING_ENDPOINT, {
+          method: "POST",
+          signal: abortController.signal,
+          headers: {
+            Accept: "application/json",
+          },
+        });
+
+        if (materializeResponse.ok) {
+          hasMaterializedRef.current = true;
+          setRecurringError(null);
+        } else {
+          const payload = await safeParseApiError(materializeResponse);
+          console.error("Failed to materialize recurring transactions", payload);
+          setRecurringError("Nie udało się zaksięgować transakcji cyklicznych. Spróbuj odświeżyć stronę.");
+        }
+      }
+
       const response = await fetch(DASHBOARD_ENDPOINT, {
         method: "GET",
         signal: abortController.signal,
@@ -70,7 +101,7 @@ export const useDashboard = (): DashboardState => {
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [canMaterialize]);
 
   useEffect(() => {
     void fetchDashboard();
@@ -91,6 +122,7 @@ export const useDashboard = (): DashboardState => {
     data,
     isLoading,
     error,
+    recurringError,
     refetch: fetchDashboard,
   };
 };
@@ -0,0 +1,69 @@
+/**
+ * Helpers for full household backups (see HouseholdBackupDto).
+ */
+import type { HouseholdBackupDto } from "../types";
+
+/** Version of the backup document written by the export; the import only accepts this version */
+export const HOUSEHOLD_BACKUP_VERSION = 1;
+
+/**
+ * Gives every record of a backup a new ID and updates the references between records,
+ * so that a backup can be restored next to the data it was taken from.
+ *
+ * @param backup - Validated backup; every reference points to a record of the backup
+ * @param generateId - Generator of the new IDs
+ * @returns The backup with new IDs
+ */
+export function remapBackupIds(
+  backup: HouseholdBackupDto,
+  generateId: () => string = () => crypto.randomUUID()
+): HouseholdBackupDto {
+  const createIdMap = (records: readonly { id: string }[]) =>
+    new Map(records.map((record) => [record.id, generateId()]));
+
+  const memberIds = createIdMap(backup.members);
+  const categoryIds = createIdMap(backup.categories);
+  const budgetIds = createIdMap(backup.budgets);
+  const transactionIds = createIdMap(backup.transactions);
+
+  // References are validated before remapping, so every lookup finds its record
+  const remap = (ids: Map<string, string>, id: string) => ids.get(id) as string;
+  const remapOptional = (ids: Map<string, string>, id: string | null) => (id === null ? null : remap(ids, id));
+
+  return {
+    ...backup,
+    members: backup.members.map((member) => ({ ...member, id: remap(memberIds, member.id) })),
+    categories: backup.categories.map((category) => ({
+      ...category,
+      id: remap(categoryIds, category.id),
+      parentId: remapOptional(categoryIds, category.parentId),
+    })),
+    budgets: backup.budgets.map((budget) => ({ ...budget, id: remap(budgetIds, budget.id) })),
+    incomes: backup.incomes.map((income) => ({
+      ...income,
+      id: generateId(),
+      budgetId: remap(budgetIds, income.budgetId),
+      householdMemberId: remap(memberIds, income.householdMemberId),
+    })),
+    plannedExpenses: backup.plannedExpenses.map((plannedExpense) => ({
+      ...plannedExpense,
+      id: generateId(),
+      budgetId: remap(budgetIds, plannedExpense.budgetId),
+      categoryId: remap(categoryIds, plannedExpense.categoryId),
+    })),
+    transactions: backup.transactions.map((transaction) => ({
+      ...transaction,
+      id: remap(transactionIds, transaction.id),
+      budgetId: remap(budgetIds, transaction.budgetId),
+      categoryId: remap(categoryIds, transaction.categoryId),
+      householdMemberId: remapOptional(memberIds, transaction.householdMemberId),
+      refundedTransactionId: remapOptional(transactionIds, transaction.refundedTransactionId),
+    })),
+    transactionSplits: backup.transactionSplits.map((split) => ({
+      ...split,
+      id: generateId(),
+      transactionId: remap(transactionIds, split.transactionId),
+      categoryId: remap(categoryIds, split.categoryId),
+    })),
+  };
+}
@@ -0,0 +1,71 @@
+import type { StatementEntry } from "./pipeline";
+import { decodeXmlEntities } from "./xml";
+
+/**
+ * Returns the inner XML of all elements with the given name, ignoring namespace prefixes.
+ * camt.053 elements do not nest within elements of the same name, so a non-greedy match is enough.
+ */
+function findElements(xml: string, name: string): string[] {
+  const pattern = new RegExp(`<(?:[\\w-]+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`, "g");
+  return Array.from(xml.matchAll(pattern), (match) => match[1]);
+}
+
+/**
+ * Returns the text of the first element found by following the path of element names.
+ */
+function readText(xml: string, ...path: string[]): string | null {
+  let current: string | undefined = xml;
+  for (const name of path) {
+    current = current !== undefined ? findElements(current, name)[0] : undefined;
+  }
+
+  const value = current !== undefined ? decodeXmlEntities(current.replace(/<[^>]+>/g, "").trim()) : "";
+  return value || null;
+}
+
+const parseIsoDate = (value: string | null): string | null => {
+  const match = value ? /^(\d{4}-\d{2}-\d{2})/.exec(value) : null;
+  return match && !isNaN(Date.parse(match[1])) ? match[1] : null;
+};
+
+/**
+ * Parses an ISO 20022 camt.053 (bank to customer statement) XML file into statement entries.
+ * Only booked entries are returned. Debits (CdtDbtInd DBIT) have negative amounts. The description joins
+ * the counterparty name with the unstructured remittance information, or with additional entry information when
+ * there is none.
+ * The account servicer reference is used as the entry reference, falling back to the entry reference.
+ *
+ * @throws Error with INVALID_STATEMENT code when the content is not a camt.053 statement
+ */
+export function parseCamt053Statement(content: string): StatementEntry[] {
+  if (!/<(?:[\w-]+:)?BkToCstmrStmt[\s>]/.test(content)) {
+    throw new Error("INVALID_STATEMENT: The file is not a camt.053 statement");
+  }
+
+  return findElements(content, "Ntry")
+    .filter((entry) => {
+      // Entries can be reported as pending (PDNG) or informational (INFO); only booked ones are final
+      const status = readText(entry, "Sts", "Cd") ?? readText(entry, "Sts");
+      return !status || status === "BOOK";
+    })
+    .map((entry) => {
+      const rawAmount = readText(entry, "Amt");
+      const amount = rawAmount ? Number(rawAmount) : NaN;
+      const isDebit = readText(entry, "CdtDbtInd") === "DBIT";
+
+      const details = findElements(entry, "TxDtls")[0] ?? "";
+      // For debits the counterparty is the creditor, for credits the debtor
+      const counterparty = readText(details, "RltdPties", isDebit ? "Cdtr" : "Dbtr", "Nm");
+      const remittance = findElements(details, "Ustrd").map((part) => decodeXmlEntities(part.trim()));
+      const additionalInfo = readText(entry, "AddtlNtryInf");
+
+      return {
+        bookingDate: parseIsoDate(readText(entry, "BookgDt", "Dt") ?? readText(entry, "BookgDt", "DtTm")),
+        amount: Number.isFinite(amount) ? (isDebit ? -amount : amount) : null,
+        description: [counterparty, ...remittance, remittance.length === 0 ? additionalInfo : null]
+          .filter(Boolean)
+          .join(" "),
+        reference: readText(entry, "AcctSvcrRef") ?? readText(entry, "NtryRef"),
+      };
+    });
+}
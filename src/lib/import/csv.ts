@@ -0,0 +1,244 @@
+import type {
+  ImportColumnRef,
+  ImportExpenseSign,
+  ImportTransactionsColumnMapping,
+  TransactionImportRowErrorDto,
+} from "../../types";
+import { MAX_IMPORT_ROWS, type TransactionImportDraft } from "./pipeline";
+
+export type CsvDelimiter = ";" | "," | "\t";
+
+export interface CsvImportOptions {
+  readonly mapping: ImportTransactionsColumnMapping;
+  /** Detected from the first line when not given */
+  readonly delimiter?: CsvDelimiter;
+  readonly hasHeader: boolean;
+  readonly expenseSign: ImportExpenseSign;
+}
+
+const CANDIDATE_DELIMITERS: CsvDelimiter[] = [";", "\t", ","];
+
+/**
+ * Picks the delimiter that occurs most often in a line. Polish bank exports mostly use semicolons,
+ * because the comma is the decimal separator.
+ */
+export function detectCsvDelimiter(line: string): CsvDelimiter {
+  let bestDelimiter: CsvDelimiter = ";";
+  let bestCount = 0;
+
+  CANDIDATE_DELIMITERS.forEach((delimiter) => {
+    const count = line.split(delimiter).length - 1;
+    if (count > bestCount) {
+      bestDelimiter = delimiter;
+      bestCount = count;
+    }
+  });
+
+  return bestDelimiter;
+}
+
+/**
+ * Splits CSV text into records. Supports quoted fields with escaped quotes ("") and line breaks,
+ * CRLF line endings and a leading byte order mark. Records with only empty fields are dropped.
+ */
+export function parseCsv(text: string, delimiter?: CsvDelimiter): string[][] {
+  const content = text.replace(/^\uFEFF/, "");
+  const separator = delimiter ?? detectCsvDelimiter(content.split(/\r?\n/, 1)[0] ?? "");
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const pushRecord = () => {
+    record.push(field);
+    if (record.some((value) => value.trim() !== "")) {
+      records.push(record);
+    }
+    record = [];
+    field = "";
+  };
+
+  for (let index = 0; index < content.length; index++) {
+    const char = content[index];
+
+    if (inQuotes) {
+      if (char === '"' && content[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === separator) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[index + 1] === "\n") {
+        index++;
+      }
+      pushRecord();
+    } else {
+      field += char;
+    }
+  }
+
+  pushRecord();
+
+  return records;
+}
+
+/**
+ * Parses an amount as written in bank exports, e.g. "-1 234,56", "1.234,56 PLN" or "-45.10".
+ * When both a comma and a dot are present, the last one is the decimal separator.
+ * Returns null when the value is not a number.
+ */
+export function parseImportAmount(value: string): number | null {
+  let normalized = value
+    .replace(/\s/g, "")
+    .replace(/(PLN|zł|zl)$/i, "")
+    .trim();
+
+  if (!/^[+-]?[\d.,]*\d[\d.,]*$/.test(normalized)) {
+    return null;
+  }
+
+  const lastComma = normalized.lastIndexOf(",");
+  const lastDot = normalized.lastIndexOf(".");
+
+  if (lastComma !== -1 && lastDot !== -1) {
+    const decimalSeparator = lastComma > lastDot ? "," : ".";
+    const thousandsSeparator = decimalSeparator === "," ? "." : ",";
+    normalized = normalized.split(thousandsSeparator).join("").replace(decimalSeparator, ".");
+  } else if (lastComma !== -1) {
+    // A single comma is a decimal separator, several commas separate thousands
+    normalized = normalized.split(",").length > 2 ? normalized.split(",").join("") : normalized.replace(",", ".");
+  } else if (normalized.split(".").length > 2) {
+    normalized = normalized.split(".").join("");
+  }
+
+  const amount = Number(normalized);
+  return Number.isFinite(amount) ? amount : null;
+}
+
+/**
+ * Parses a date as written in bank exports: DD.MM.YYYY, DD-MM-YYYY, DD/MM/YYYY or YYYY-MM-DD,
+ * optionally followed by a time. Returns the date in YYYY-MM-DD format or null when it is not a valid date.
+ */
+export function parseImportDate(value: string): string | null {
+  const datePart = value.trim().split(/[\sT]/)[0] ?? "";
+
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const isoMatch = /^(\d{4})[-./](\d{1,2})[-./](\d{1,2})$/.exec(datePart);
+  const polishMatch = /^(\d{1,2})[-./](\d{1,2})[-./](\d{4})$/.exec(datePart);
+
+  if (isoMatch) {
+    [year, month, day] = [Number(isoMatch[1]), Number(isoMatch[2]), Number(isoMatch[3])];
+  } else if (polishMatch) {
+    [day, month, year] = [Number(polishMatch[1]), Number(polishMatch[2]), Number(polishMatch[3])];
+  } else {
+    return null;
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Resolves a mapped column to its index in the records.
+ *
+ * @throws Error with INVALID_MAPPING code when a named column is not in the header
+ */
+function resolveColumnIndex(column: ImportColumnRef, header: readonly string[] | null): number {
+  if (typeof column === "number") {
+    return column;
+  }
+
+  const normalizedColumn = column.trim().toLocaleLowerCase("pl-PL");
+  const index = (header ?? []).findIndex((name) => name.trim().toLocaleLowerCase("pl-PL") === normalizedColumn);
+
+  if (index === -1) {
+    throw new Error(`INVALID_MAPPING: Column "${column}" not found in the header`);
+  }
+
+  return index;
+}
+
+/**
+ * Reads transactions from a CSV bank export using the given column mapping.
+ * With the "negative" expense sign only debits (negative amounts) are expenses and credits are skipped;
+ * amounts of imported expenses are always positive.
+ *
+ * @throws Error with INVALID_CSV, INVALID_MAPPING or IMPORT_TOO_LARGE code when the file cannot be imported
+ */
+export function csvToImportDrafts(text: string, options: CsvImportOptions): TransactionImportDraft[] {
+  const records = parseCsv(text, options.delimiter);
+  const header = options.hasHeader ? (records[0] ?? null) : null;
+  const dataRecords = options.hasHeader ? records.slice(1) : records;
+  const firstRowNumber = options.hasHeader ? 2 : 1;
+
+  if (dataRecords.length === 0) {
+    throw new Error("INVALID_CSV: The file does not contain any transactions");
+  }
+
+  if (dataRecords.length > MAX_IMPORT_ROWS) {
+    throw new Error(`IMPORT_TOO_LARGE: A single import can contain at most ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  const dateIndex = resolveColumnIndex(options.mapping.date, header);
+  const amountIndex = resolveColumnIndex(options.mapping.amount, header);
+  const descriptionIndex = resolveColumnIndex(options.mapping.description, header);
+  const categoryIndex =
+    options.mapping.category !== undefined ? resolveColumnIndex(options.mapping.category, header) : null;
+
+  return dataRecords.map((record, index) => {
+    const rowNumber = firstRowNumber + index;
+    const errors: TransactionImportRowErrorDto[] = [];
+
+    const rawDate = (record[dateIndex] ?? "").trim();
+    const transactionDate = parseImportDate(rawDate);
+    if (!transactionDate) {
+      errors.push({
+        field: "transactionDate",
+        code: "INVALID_DATE",
+        message: rawDate ? `"${rawDate}" is not a valid date` : "Transaction date is missing",
+      });
+    }
+
+    const rawAmount = (record[amountIndex] ?? "").trim();
+    const signedAmount = parseImportAmount(rawAmount);
+    if (signedAmount === null) {
+      errors.push({
+        field: "amount",
+        code: "INVALID_AMOUNT",
+        message: rawAmount ? `"${rawAmount}" is not a valid amount` : "Amount is missing",
+      });
+    }
+
+    const note = (record[descriptionIndex] ?? "").replace(/\s+/g, " ").trim();
+    const categoryName = categoryIndex !== null ? (record[categoryIndex] ?? "").trim() : "";
+
+    if (options.expenseSign === "negative" && signedAmount !== null && signedAmount > 0) {
+      return { rowNumber, skipReason: "NOT_AN_EXPENSE", errors: [] };
+    }
+
+    return {
+      rowNumber,
+      transactionDate: transactionDate ?? undefined,
+      amount: signedAmount !== null ? Math.abs(signedAmount) : undefined,
+      note: note || undefined,
+      categoryName: categoryName || undefined,
+      errors,
+    };
+  });
+}
@@ -0,0 +1,127 @@
+import type { StatementEntry } from "./pipeline";
+
+/**
+ * Statement line (:61:) layout: value date YYMMDD, optional entry date MMDD, debit/credit mark (with R for reversals),
+ * optional funds code, amount with a decimal comma, transaction type, customer reference and optional bank reference.
+ */
+const STATEMENT_LINE_REGEX =
+  /^(\d{2})(\d{2})(\d{2})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d{0,2})([A-Z][A-Z0-9]{3})([^/\r\n]*)(?:\/\/([^\r\n]*))?/;
+
+/** Structured :86: subfields used by Polish banks, e.g. "~20payment title" or "^32payee name" */
+const SUBFIELD_REGEX = /[~^<](\d{2})/g;
+
+/** Description subfields (20-25) and counterparty name subfields (32-33) */
+const DESCRIPTION_SUBFIELDS = ["20", "21", "22", "23", "24", "25", "32", "33"];
+
+interface Mt940Field {
+  readonly tag: string;
+  readonly value: string;
+}
+
+/**
+ * Splits an MT940 statement into tagged fields. A field continues on the following lines until the next tag.
+ */
+function splitFields(content: string): Mt940Field[] {
+  const fields: { tag: string; lines: string[] }[] = [];
+
+  content.split(/\r?\n/).forEach((line) => {
+    const tagMatch = /^:(\d{2}[A-Z]?):(.*)$/.exec(line);
+    if (tagMatch) {
+      fields.push({ tag: tagMatch[1], lines: [tagMatch[2]] });
+    } else if (fields.length > 0 && line.trim() !== "" && !line.startsWith("-")) {
+      fields[fields.length - 1].lines.push(line);
+    }
+  });
+
+  return fields.map((field) => ({ tag: field.tag, value: field.lines.join("\n") }));
+}
+
+/**
+ * Reads the transaction description from an :86: field. Structured fields keep only the payment title
+ * and counterparty name; unstructured ones are used as they are.
+ */
+function parseInformationField(value: string): string {
+  const joined = value.replace(/\r?\n/g, "");
+  const matches = Array.from(joined.matchAll(SUBFIELD_REGEX));
+
+  if (matches.length === 0) {
+    return joined;
+  }
+
+  return matches
+    .map((match, index) => {
+      const start = (match.index ?? 0) + match[0].length;
+      const end = index + 1 < matches.length ? matches[index + 1].index : joined.length;
+      return { code: match[1], text: joined.slice(start, end) };
+    })
+    .filter((subfield) => DESCRIPTION_SUBFIELDS.includes(subfield.code))
+    .map((subfield) => subfield.text.trim())
+    .filter(Boolean)
+    .join(" ");
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parses an MT940 (SWIFT) bank statement into statement entries.
+ * The booking date is the entry date when given, otherwise the value date. Debits (D, and reversed credits RC)
+ * have negative amounts. The bank reference after "//" is used as the entry reference,
+ * falling back to the customer reference unless it is NONREF.
+ *
+ * @throws Error with INVALID_STATEMENT code when the content is not an MT940 statement
+ */
+export function parseMt940Statement(content: string): StatementEntry[] {
+  const fields = splitFields(content);
+
+  if (!fields.some((field) => field.tag === "20" || field.tag.startsWith("60"))) {
+    throw new Error("INVALID_STATEMENT: The file is not an MT940 statement");
+  }
+
+  const entries: StatementEntry[] = [];
+
+  fields.forEach((field, index) => {
+    if (field.tag !== "61") {
+      return;
+    }
+
+    const information = fields[index + 1]?.tag === "86" ? parseInformationField(fields[index + 1].value) : "";
+    const match = STATEMENT_LINE_REGEX.exec(field.value);
+
+    if (!match) {
+      entries.push({ bookingDate: null, amount: null, description: information, reference: null });
+      return;
+    }
+
+    const [, year, month, day, entryDate, mark, , rawAmount, , customerReference, bankReference] = match;
+    const valueYear = 2000 + Number(year);
+
+    let bookingDate = toIsoDate(valueYear, Number(month), Number(day));
+    if (entryDate) {
+      const entryMonth = Number(entryDate.slice(0, 2));
+      // An entry booked in January for a December value date belongs to the next year (and vice versa)
+      let entryYear = valueYear;
+      if (entryMonth === 1 && Number(month) === 12) entryYear += 1;
+      if (entryMonth === 12 && Number(month) === 1) entryYear -= 1;
+      bookingDate = toIsoDate(entryYear, entryMonth, Number(entryDate.slice(2, 4))) ?? bookingDate;
+    }
+
+    const amount = Number(rawAmount.replace(",", "."));
+    const isDebit = mark === "D" || mark === "RC";
+    const reference = bankReference?.trim() || customerReference.trim();
+
+    entries.push({
+      bookingDate,
+      amount: Number.isFinite(amount) ? (isDebit ? -amount : amount) : null,
+      description: information,
+      reference: reference && reference.toUpperCase() !== "NONREF" ? reference : null,
+    });
+  });
+
+  return entries;
+}
@@ -0,0 +1,61 @@
+import type { StatementEntry } from "./pipeline";
+import { decodeXmlEntities } from "./xml";
+
+/**
+ * Reads the value of an element. Works for OFX 1.x (SGML, closing tags optional) and OFX 2.x (XML),
+ * since the value always ends at the next tag or line break.
+ */
+function readElement(block: string, name: string): string | null {
+  const match = new RegExp(`<${name}>([^<\\r\\n]*)`, "i").exec(block);
+  const value = match ? decodeXmlEntities(match[1].trim()) : "";
+  return value || null;
+}
+
+/**
+ * Converts an OFX date (YYYYMMDD with optional time and time zone, e.g. 20241005120000[+1:CET]) to YYYY-MM-DD.
+ */
+function parseOfxDate(value: string | null): string | null {
+  const match = value ? /^(\d{4})(\d{2})(\d{2})/.exec(value) : null;
+  if (!match) {
+    return null;
+  }
+
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parses an OFX or QFX bank statement into statement entries.
+ * Amounts are signed as in the file (TRNAMT is negative for debits). The description joins NAME and MEMO,
+ * and FITID - the bank's unique transaction ID - is used as the entry reference.
+ *
+ * @throws Error with INVALID_STATEMENT code when the content is not an OFX statement
+ */
+export function parseOfxStatement(content: string): StatementEntry[] {
+  if (!/<OFX>/i.test(content)) {
+    throw new Error("INVALID_STATEMENT: The file is not an OFX statement");
+  }
+
+  const blocks = Array.from(content.matchAll(/<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi), (match) => match[1]);
+
+  return blocks.map((block) => {
+    const rawAmount = readElement(block, "TRNAMT");
+    // Some banks write the amount with a decimal comma
+    const amount = rawAmount ? Number(rawAmount.replace(",", ".")) : NaN;
+    const name = readElement(block, "NAME");
+    const memo = readElement(block, "MEMO");
+
+    return {
+      bookingDate: parseOfxDate(readElement(block, "DTPOSTED")),
+      amount: Number.isFinite(amount) ? amount : null,
+      // Banks often repeat the name in the memo
+      description: [name, memo !== name ? memo : null].filter(Boolean).join(" "),
+      reference: readElement(block, "FITID"),
+    };
+  });
+}
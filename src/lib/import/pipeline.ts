@@ -0,0 +1,205 @@
+import type { CreateTransactionCommand, TransactionImportRowDto, TransactionImportRowErrorDto } from "../../types";
+import { isSuspectedDuplicate, type DuplicateCandidate } from "../duplicates";
+import { validateCreateTransactionCommand } from "../validation/transactions";
+
+/**
+ * Maximum number of rows accepted in a single import.
+ */
+export const MAX_IMPORT_ROWS = 1000;
+
+/**
+ * Transaction read from an imported file, before categories are resolved and the row is validated.
+ * Fields that could not be read are left out and the reason is recorded in `errors`.
+ */
+export interface TransactionImportDraft {
+  /** Position of the row in the file, used to point the user at the problem */
+  readonly rowNumber: number;
+  readonly transactionDate?: string;
+  readonly amount?: number;
+  readonly note?: string;
+  readonly categoryName?: string;
+  /** Category picked by a categorization rule matching the note */
+  readonly ruleCategoryId?: string;
+  /** Bank reference of the entry, used to recognise entries imported before */
+  readonly externalId?: string;
+  /** Set when the row is intentionally left out of the import, e.g. an incoming transfer */
+  readonly skipReason?: string;
+  readonly errors: readonly TransactionImportRowErrorDto[];
+}
+
+/**
+ * Household category that imported category names are matched against.
+ */
+export interface ImportCategory {
+  readonly id: string;
+  readonly name: string;
+}
+
+export interface ResolveImportDraftsOptions {
+  readonly categories: readonly ImportCategory[];
+  /** Category used for rows that neither name an existing category nor match a categorization rule */
+  readonly defaultCategoryId?: string;
+  /** Household member recorded as the payer of every imported transaction */
+  readonly householdMemberId?: string;
+  /** Bank references already stored in the household; matching drafts are skipped */
+  readonly existingExternalIds?: ReadonlySet<string>;
+  /** Household transactions around the imported dates; drafts that look like their duplicates are skipped */
+  readonly existingTransactions?: readonly DuplicateCandidate[];
+  /** Imports suspected duplicates instead of skipping them */
+  readonly allowDuplicates?: boolean;
+}
+
+/**
+ * Entry of a bank statement as read by the MT940, OFX and camt.053 parsers.
+ */
+export interface StatementEntry {
+  /** Booking date in YYYY-MM-DD format, null when missing or invalid */
+  readonly bookingDate: string | null;
+  /** Signed amount, negative for debits; null when missing or invalid */
+  readonly amount: number | null;
+  readonly description: string;
+  readonly reference: string | null;
+}
+
+const normalizeCategoryName = (name: string): string => name.trim().toLocaleLowerCase("pl-PL");
+
+/**
+ * Turns import drafts into create transaction commands and validates them with the same rules as a single transaction.
+ * Category names are matched case-insensitively; a category named in the file takes precedence over
+ * the category picked by a categorization rule, which takes precedence over the default one. Errors found while reading the file take precedence
+ * over validation errors of the same field. Valid rows that look like duplicates of existing transactions
+ * are skipped unless duplicates are allowed.
+ */
+export function resolveImportDrafts(
+  drafts: readonly TransactionImportDraft[],
+  options: ResolveImportDraftsOptions
+): TransactionImportRowDto[] {
+  const categoriesByName = new Map(
+    options.categories.map((category) => [normalizeCategoryName(category.name), category.id])
+  );
+
+  const seenExternalIds = new Set(options.existingExternalIds);
+
+  return drafts.map((draft) => {
+    if (draft.skipReason) {
+      return {
+        rowNumber: draft.rowNumber,
+        status: "skipped",
+        transaction: null,
+        errors: [],
+        skipReason: draft.skipReason,
+      };
+    }
+
+    // Entries imported before, including repeats within the same file, are not imported again
+    if (draft.externalId) {
+      if (seenExternalIds.has(draft.externalId)) {
+        return {
+          rowNumber: draft.rowNumber,
+          status: "skipped",
+          transaction: null,
+          errors: [],
+          skipReason: "ALREADY_IMPORTED",
+        };
+      }
+      seenExternalIds.add(draft.externalId);
+    }
+
+    const errors: TransactionImportRowErrorDto[] = [...draft.errors];
+
+    let categoryId = draft.ruleCategoryId ?? options.defaultCategoryId;
+    if (draft.categoryName) {
+      const matchedCategoryId = categoriesByName.get(normalizeCategoryName(draft.categoryName));
+      if (matchedCategoryId) {
+        categoryId = matchedCategoryId;
+      } else if (!categoryId) {
+        errors.push({
+          field: "categoryId",
+          code: "CATEGORY_NOT_FOUND",
+          message: `Category "${draft.categoryName}" does not exist`,
+        });
+      }
+    } else if (!categoryId) {
+      // A single transaction may leave the category to the rules, an imported row has no later chance to get one
+      errors.push({
+        field: "categoryId",
+        code: "INVALID_CATEGORY_ID",
+        message: "Category is required when no categorization rule matches the note",
+      });
+    }
+
+    const command: CreateTransactionCommand = {
+      categoryId,
+      amount: draft.amount as number,
+      transactionDate: draft.transactionDate as string,
+      note: draft.note || undefined,
+      householdMemberId: options.householdMemberId,
+      externalId: draft.externalId,
+    };
+
+    const validation = validateCreateTransactionCommand(command);
+    const erroredFields = new Set(errors.map((error) => error.field));
+    errors.push(...validation.errors.filter((error) => !erroredFields.has(error.field)));
+
+    if (errors.length > 0) {
+      return { rowNumber: draft.rowNumber, status: "invalid", transaction: null, errors, skipReason: null };
+    }
+
+    // Entries already recorded by hand (without a bank reference) are recognised by their details.
+    // Only stored transactions are compared, repeated entries within the file can be separate expenses.
+    const transaction = validation.data;
+    if (
+      transaction &&
+      !options.allowDuplicates &&
+      options.existingTransactions?.some((existing) => isSuspectedDuplicate(existing, transaction))
+    ) {
+      return {
+        rowNumber: draft.rowNumber,
+        status: "skipped",
+        transaction: null,
+        errors: [],
+        skipReason: "DUPLICATE_SUSPECTED",
+      };
+    }
+
+    return { rowNumber: draft.rowNumber, status: "valid", transaction, errors: [], skipReason: null };
+  });
+}
+
+/**
+ * Turns bank statement entries into import drafts. Only debits are expenses, credits are skipped.
+ *
+ * @throws Error with IMPORT_TOO_LARGE code when the statement has too many entries
+ */
+export function statementEntriesToDrafts(entries: readonly StatementEntry[]): TransactionImportDraft[] {
+  if (entries.length > MAX_IMPORT_ROWS) {
+    throw new Error(`IMPORT_TOO_LARGE: A single import can contain at most ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  return entries.map((entry, index) => {
+    const rowNumber = index + 1;
+
+    if (entry.amount !== null && entry.amount > 0) {
+      return { rowNumber, skipReason: "NOT_AN_EXPENSE", errors: [] };
+    }
+
+    const errors: TransactionImportRowErrorDto[] = [];
+    if (!entry.bookingDate) {
+      errors.push({ field: "transactionDate", code: "INVALID_DATE", message: "Booking date is missing or invalid" });
+    }
+    if (entry.amount === null) {
+      errors.push({ field: "amount", code: "INVALID_AMOUNT", message: "Amount is missing or invalid" });
+    }
+
+    const note = entry.description.replace(/\s+/g, " ").trim();
+
+    return {
+      rowNumber,
+      transactionDate: entry.bookingDate ?? undefined,
+      amount: entry.amount !== null ? Math.abs(entry.amount) : undefined,
+      note: note || undefined,
+      externalId: entry.reference ?? undefined,
+      errors,
+    };
+  });
+}
@@ -0,0 +1,26 @@
+import type { ImportStatementFormat } from "../../types";
+import { parseCamt053Statement } from "./camt053";
+import { parseMt940Statement } from "./mt940";
+import { parseOfxStatement } from "./ofx";
+import { statementEntriesToDrafts, type StatementEntry, type TransactionImportDraft } from "./pipeline";
+
+const STATEMENT_PARSERS: Record<ImportStatementFormat, (content: string) => StatementEntry[]> = {
+  mt940: parseMt940Statement,
+  ofx: parseOfxStatement,
+  camt053: parseCamt053Statement,
+};
+
+/**
+ * Reads a bank statement in the given format into import drafts.
+ *
+ * @throws Error with INVALID_STATEMENT or IMPORT_TOO_LARGE code when the statement cannot be imported
+ */
+export function statementToImportDrafts(format: ImportStatementFormat, content: string): TransactionImportDraft[] {
+  const entries = STATEMENT_PARSERS[format](content.replace(/^\uFEFF/, ""));
+
+  if (entries.length === 0) {
+    throw new Error("INVALID_STATEMENT: The statement does not contain any transactions");
+  }
+
+  return statementEntriesToDrafts(entries);
+}
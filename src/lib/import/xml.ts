@@ -0,0 +1,33 @@
+const XML_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": '"',
+  "&apos;": "'",
+};
+
+/**
+ * Converts a numeric character reference to its character.
+ *
+ * @throws Error with INVALID_STATEMENT code when the reference is not a Unicode scalar value, so the file is not
+ * well-formed XML
+ */
+function decodeCharacterReference(codePoint: number): string {
+  if (codePoint < 1 || codePoint > 0x10ffff || (codePoint >= 0xd800 && codePoint <= 0xdfff)) {
+    throw new Error("INVALID_STATEMENT: The file contains an invalid character reference");
+  }
+
+  return String.fromCodePoint(codePoint);
+}
+
+/**
+ * Decodes predefined XML entities and numeric character references in element text.
+ *
+ * @throws Error with INVALID_STATEMENT code when a character reference is out of the Unicode range
+ */
+export function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => decodeCharacterReference(parseInt(code, 16)))
+    .replace(/&#(\d+);/g, (_, code: string) => decodeCharacterReference(Number(code)))
+    .replace(/&(amp|lt|gt|quot|apos);/g, (entity) => XML_ENTITIES[entity] ?? entity);
+}
@@ -0,0 +1,73 @@
+/**
+ * Helpers for household invitations.
+ * The token is given to the invited person; the database keeps only its SHA-256 hash.
+ */
+import type { HouseholdInvitationStatus, HouseholdRole } from "../types";
+
+/** Number of random bytes in an invitation token */
+const TOKEN_BYTES = 32;
+
+/**
+ * Generates a new invitation token.
+ *
+ * @returns URL-safe base64 token
+ */
+export function generateInvitationToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(TOKEN_BYTES));
+  const base64 = btoa(String.fromCharCode(...bytes));
+
+  return base64.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Hashes an invitation token the same way as accept_household_invitation() does.
+ *
+ * @param token - The invitation token
+ * @returns Hex encoded SHA-256 hash of the UTF-8 token
+ */
+export async function hashInvitationToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Determines the status of an invitation.
+ *
+ * @param invitation - Dates of the invitation
+ * @param now - The current time
+ * @returns Status of the invitation
+ */
+export function getInvitationStatus(
+  invitation: { acceptedAt: string | null; revokedAt: string | null; expiresAt: string },
+  now: Date = new Date()
+): HouseholdInvitationStatus {
+  if (invitation.acceptedAt) {
+    return "accepted";
+  }
+  if (invitation.revokedAt) {
+    return "revoked";
+  }
+
+  return new Date(invitation.expiresAt) <= now ? "expired" : "pending";
+}
+
+/**
+ * Determines why a user cannot leave their current household to accept an invitation, with the same rules as
+ * accept_household_invitation(). A household the user is the last account of is deleted, so it must be empty;
+ * a household other accounts still use keeps its data, but cannot lose its owner.
+ *
+ * @param household - The user's role in the household, the number of other accounts and whether it has data
+ * @returns Error code of the reason, or null when the user can leave
+ */
+export function getHouseholdLeaveBlocker(household: {
+  role: HouseholdRole;
+  otherUserCount: number;
+  hasData: boolean;
+}): "HOUSEHOLD_NOT_EMPTY" | "HOUSEHOLD_OWNER_CANNOT_LEAVE" | null {
+  if (household.otherUserCount === 0) {
+    return household.hasData ? "HOUSEHOLD_NOT_EMPTY" : null;
+  }
+
+  return household.role === "owner" ? "HOUSEHOLD_OWNER_CANNOT_LEAVE" : null;
+}
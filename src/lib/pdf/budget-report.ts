@@ -0,0 +1,284 @@
+import type { BudgetCategorySummaryStatus, BudgetSummaryTotalsDto } from "../../types";
+import { formatCurrency, formatMonth } from "../formatters";
+import { PAGE_HEIGHT, PAGE_WIDTH, PdfDocument, type PdfColor } from "./document";
+
+/**
+ * Data of a monthly budget report.
+ */
+export interface BudgetReportData {
+  readonly month: string;
+  readonly note: string | null;
+  readonly generatedAt: Date;
+  readonly totals: BudgetSummaryTotalsDto;
+  readonly incomes: readonly { memberName: string; amount: number }[];
+  /** Planned categories, each subcategory listed right after its parent */
+  readonly categories: readonly {
+    name: string;
+    isSubcategory: boolean;
+    limit: number;
+    spent: number;
+    progress: number;
+    status: BudgetCategorySummaryStatus;
+  }[];
+  /** Transactions of the budget; refunds have negative amounts */
+  readonly transactions: readonly {
+    date: string;
+    categoryName: string;
+    memberName: string | null;
+    note: string | null;
+    amount: number;
+  }[];
+}
+
+interface TableColumn {
+  readonly label: string;
+  readonly width: number;
+  readonly align?: "left" | "right";
+}
+
+interface TableRow {
+  readonly cells: readonly string[];
+  readonly bold?: boolean;
+  /** Colors of single cells, by column index */
+  readonly cellColors?: Readonly<Record<number, PdfColor>>;
+  /** Indentation of the first cell */
+  readonly indent?: number;
+}
+
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 30;
+const ROW_HEIGHT = 16;
+const CELL_PADDING = 4;
+const TABLE_FONT_SIZE = 9;
+
+const TEXT_COLOR: PdfColor = [0.09, 0.09, 0.11];
+const MUTED_COLOR: PdfColor = [0.45, 0.45, 0.5];
+const BORDER_COLOR: PdfColor = [0.85, 0.85, 0.88];
+const HEADER_BACKGROUND: PdfColor = [0.95, 0.95, 0.96];
+
+const STATUS_LABELS: Record<BudgetCategorySummaryStatus, string> = {
+  ok: "W normie",
+  ahead_of_pace: "Szybkie tempo",
+  warning: "Ostrzeżenie",
+  over: "Przekroczony",
+};
+
+const STATUS_COLORS: Record<BudgetCategorySummaryStatus, PdfColor> = {
+  ok: [0.09, 0.5, 0.24],
+  ahead_of_pace: [0.01, 0.52, 0.78],
+  warning: [0.85, 0.47, 0.04],
+  over: [0.86, 0.15, 0.15],
+};
+
+/**
+ * Lays out content from top to bottom, starting a new page when the current one is full.
+ */
+class ReportLayout {
+  y = MARGIN;
+
+  constructor(readonly document: PdfDocument) {}
+
+  ensureSpace(height: number): boolean {
+    if (this.y + height <= PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT) {
+      return false;
+    }
+
+    this.document.addPage();
+    this.y = MARGIN;
+    return true;
+  }
+
+  heading(text: string): void {
+    // Keeps a heading on the same page as the first rows below it
+    this.ensureSpace(24 + ROW_HEIGHT * 3);
+    this.y += 24;
+    this.document.drawText(text, MARGIN, this.y, { size: 13, bold: true, color: TEXT_COLOR });
+    this.y += 10;
+  }
+
+  table(columns: readonly TableColumn[], rows: readonly TableRow[]): void {
+    const drawHeader = () => {
+      this.document.fillRect(MARGIN, this.y, CONTENT_WIDTH, ROW_HEIGHT, HEADER_BACKGROUND);
+      this.drawRow(columns, { cells: columns.map((column) => column.label), bold: true }, MUTED_COLOR);
+    };
+
+    drawHeader();
+    rows.forEach((row) => {
+      if (this.ensureSpace(ROW_HEIGHT)) {
+        drawHeader();
+      }
+      this.drawRow(columns, row, TEXT_COLOR);
+      this.document.drawLine(MARGIN, this.y, MARGIN + CONTENT_WIDTH, this.y, BORDER_COLOR);
+    });
+  }
+
+  private drawRow(columns: readonly TableColumn[], row: TableRow, color: PdfColor): void {
+    let x = MARGIN;
+    const baseline = this.y + ROW_HEIGHT - 5;
+
+    columns.forEach((column, index) => {
+      const indent = index === 0 ? (row.indent ?? 0) : 0;
+      const text = this.document.fitText(
+        row.cells[index] ?? "",
+        column.width - CELL_PADDING * 2 - indent,
+        TABLE_FONT_SIZE,
+        row.bold
+      );
+      const options = {
+        size: TABLE_FONT_SIZE,
+        bold: row.bold,
+        color: row.cellColors?.[index] ?? color,
+      };
+
+      if (column.align === "right") {
+        this.document.drawText(text, x + column.width - CELL_PADDING, baseline, { ...options, align: "right" });
+      } else {
+        this.document.drawText(text, x + CELL_PADDING + indent, baseline, options);
+      }
+      x += column.width;
+    });
+
+    this.y += ROW_HEIGHT;
+  }
+}
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+/**
+ * Renders the monthly budget report as a PDF: header with totals, the note, incomes per member,
+ * planned vs. spent per category with status colors and the full transaction list.
+ *
+ * @param data - Data of the report
+ * @returns The PDF file bytes
+ */
+export function renderBudgetReportPdf(data: BudgetReportData): Uint8Array {
+  const document = new PdfDocument();
+  const layout = new ReportLayout(document);
+
+  // Header
+  layout.y += 18;
+  document.drawText("Raport budżetu", MARGIN, layout.y, { size: 20, bold: true, color: TEXT_COLOR });
+  document.drawText(formatMonth(data.month), PAGE_WIDTH - MARGIN, layout.y, {
+    size: 14,
+    color: TEXT_COLOR,
+    align: "right",
+  });
+  layout.y += 16;
+  document.drawText(`Wygenerowano ${formatDate(data.generatedAt)}`, MARGIN, layout.y, {
+    size: 9,
+    color: MUTED_COLOR,
+  });
+
+  // Totals
+  layout.y += 14;
+  const totals: [string, number][] = [
+    ["Przychody", data.totals.totalIncome],
+    ["Zaplanowano", data.totals.totalPlanned],
+    ["Wydano", data.totals.totalSpent],
+    ["Wolne środki", data.totals.freeFunds],
+  ];
+  const totalWidth = CONTENT_WIDTH / totals.length;
+  totals.forEach(([label, amount], index) => {
+    const x = MARGIN + totalWidth * index;
+    document.fillRect(x + 2, layout.y, totalWidth - 4, 40, HEADER_BACKGROUND);
+    document.drawText(label, x + 10, layout.y + 15, { size: 9, color: MUTED_COLOR });
+    document.drawText(formatCurrency(amount), x + 10, layout.y + 31, { size: 12, bold: true, color: TEXT_COLOR });
+  });
+  layout.y += 40;
+
+  if (data.note) {
+    layout.heading("Notatka");
+    layout.y += 4;
+    document.wrapText(data.note, CONTENT_WIDTH, 10).forEach((line) => {
+      layout.ensureSpace(14);
+      layout.y += 14;
+      document.drawText(line, MARGIN, layout.y, { size: 10, color: TEXT_COLOR });
+    });
+  }
+
+  layout.heading("Przychody");
+  if (data.incomes.length === 0) {
+    layout.y += 14;
+    document.drawText("Brak przychodów w tym budżecie.", MARGIN, layout.y, { size: 10, color: MUTED_COLOR });
+  } else {
+    layout.table(
+      [
+        { label: "Domownik", width: CONTENT_WIDTH - 140 },
+        { label: "Kwota", width: 140, align: "right" },
+      ],
+      [
+        ...data.incomes.map((income) => ({ cells: [income.memberName, formatCurrency(income.amount)] })),
+        { cells: ["Razem", formatCurrency(data.totals.totalIncome)], bold: true },
+      ]
+    );
+  }
+
+  layout.heading("Plan a wydatki");
+  if (data.categories.length === 0) {
+    layout.y += 14;
+    document.drawText("Brak zaplanowanych wydatków.", MARGIN, layout.y, { size: 10, color: MUTED_COLOR });
+  } else {
+    layout.table(
+      [
+        { label: "Kategoria", width: CONTENT_WIDTH - 375 },
+        { label: "Limit", width: 95, align: "right" },
+        { label: "Wydano", width: 95, align: "right" },
+        { label: "Wykorzystanie", width: 85, align: "right" },
+        { label: "Status", width: 100 },
+      ],
+      data.categories.map((category) => ({
+        cells: [
+          category.name,
+          formatCurrency(category.limit),
+          formatCurrency(category.spent),
+          `${Math.round(category.progress)}%`,
+          STATUS_LABELS[category.status],
+        ],
+        bold: !category.isSubcategory,
+        indent: category.isSubcategory ? 12 : 0,
+        cellColors: { 3: STATUS_COLORS[category.status], 4: STATUS_COLORS[category.status] },
+      }))
+    );
+  }
+
+  layout.heading("Transakcje");
+  if (data.transactions.length === 0) {
+    layout.y += 14;
+    document.drawText("Brak transakcji w tym budżecie.", MARGIN, layout.y, { size: 10, color: MUTED_COLOR });
+  } else {
+    layout.table(
+      [
+        { label: "Data", width: 65 },
+        { label: "Kategoria", width: 120 },
+        { label: "Domownik", width: 95 },
+        { label: "Notatka", width: CONTENT_WIDTH - 370 },
+        { label: "Kwota", width: 90, align: "right" },
+      ],
+      [
+        ...data.transactions.map((transaction) => ({
+          cells: [
+            transaction.date,
+            transaction.categoryName,
+            transaction.memberName ?? "",
+            transaction.note ?? "",
+            formatCurrency(transaction.amount),
+          ],
+        })),
+        { cells: ["Razem", "", "", "", formatCurrency(data.totals.totalSpent)], bold: true },
+      ]
+    );
+  }
+
+  // Page numbers are added once the number of pages is known
+  for (let page = 0; page < document.pageCount; page += 1) {
+    document.selectPage(page);
+    document.drawText(`Strona ${page + 1} z ${document.pageCount}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - MARGIN / 2, {
+      size: 8,
+      color: MUTED_COLOR,
+      align: "right",
+    });
+  }
+
+  return document.save();
+}
@@ -0,0 +1,295 @@
+/**
+ * Minimal PDF writer for generated reports. Text uses the built-in Helvetica fonts, so no font files are embedded;
+ * Polish letters are mapped through a custom encoding onto the glyphs those fonts provide.
+ * Coordinates passed to the drawing methods are in points, measured from the top-left corner of the page.
+ */
+
+/** A4 page size in points */
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+/** RGB color with components from 0 to 1 */
+export type PdfColor = readonly [number, number, number];
+
+export interface PdfTextOptions {
+  readonly size?: number;
+  readonly bold?: boolean;
+  readonly color?: PdfColor;
+  /** Right alignment places the end of the text at x */
+  readonly align?: "left" | "right";
+}
+
+const BLACK: PdfColor = [0, 0, 0];
+const DEFAULT_FONT_SIZE = 10;
+
+/**
+ * Glyphs of Polish letters, placed at codes 128-143 on top of the WinAnsi encoding.
+ * Other Latin-1 letters (e.g. ó) are already part of WinAnsi.
+ */
+const POLISH_GLYPHS: readonly [string, string][] = [
+  ["ą", "aogonek"],
+  ["ć", "cacute"],
+  ["ę", "eogonek"],
+  ["ł", "lslash"],
+  ["ń", "nacute"],
+  ["ś", "sacute"],
+  ["ź", "zacute"],
+  ["ż", "zdotaccent"],
+  ["Ą", "Aogonek"],
+  ["Ć", "Cacute"],
+  ["Ę", "Eogonek"],
+  ["Ł", "Lslash"],
+  ["Ń", "Nacute"],
+  ["Ś", "Sacute"],
+  ["Ź", "Zacute"],
+  ["Ż", "Zdotaccent"],
+];
+
+const POLISH_GLYPHS_FIRST_CODE = 128;
+const POLISH_CODES = new Map(POLISH_GLYPHS.map(([letter], index) => [letter, POLISH_GLYPHS_FIRST_CODE + index]));
+
+/** Characters outside the encoding replaced with their closest equivalents */
+const CHARACTER_REPLACEMENTS: Record<string, string> = {
+  "–": "-",
+  "—": "-",
+  "‘": "'",
+  "’": "'",
+  "‚": "'",
+  "“": '"',
+  "”": '"',
+  "„": '"',
+  "…": "...",
+  // Narrow no-break space used by number formatting
+  "\u202f": "\u00a0",
+};
+
+/** Advance widths of printable ASCII characters (32-126) in thousandths of the font size */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611,
+  556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389,
+  280, 389, 584,
+];
+
+const DEFAULT_CHARACTER_WIDTH = 556;
+
+const normalizeText = (text: string): string =>
+  Array.from(text)
+    .map((char) => CHARACTER_REPLACEMENTS[char] ?? char)
+    .join("");
+
+/**
+ * Returns the width of a character; accented letters take the width of their base letter.
+ */
+const getCharacterWidth = (char: string, bold: boolean): number => {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const baseChar = char === "ł" ? "l" : char === "Ł" ? "L" : char === "\u00a0" ? " " : char.normalize("NFD")[0];
+  const code = baseChar.charCodeAt(0);
+
+  return code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_CHARACTER_WIDTH;
+};
+
+/**
+ * Encodes text as a PDF literal string in the document encoding.
+ * Characters the fonts cannot show are replaced with a question mark.
+ */
+const encodeText = (text: string): string => {
+  const encoded = Array.from(normalizeText(text))
+    .map((char) => {
+      const code = POLISH_CODES.get(char) ?? char.charCodeAt(0);
+
+      if (char === "\\" || char === "(" || char === ")") {
+        return `\\${char}`;
+      }
+
+      if ((code >= 32 && code <= 126) || POLISH_CODES.has(char) || (code >= 160 && code <= 255)) {
+        return code > 126 ? `\\${code.toString(8).padStart(3, "0")}` : char;
+      }
+
+      return "?";
+    })
+    .join("");
+
+  return `(${encoded})`;
+};
+
+const formatNumber = (value: number): string => String(Math.round(value * 100) / 100);
+
+const formatColor = (color: PdfColor): string => color.map(formatNumber).join(" ");
+
+/**
+ * PDF document built page by page.
+ */
+export class PdfDocument {
+  private readonly pages: string[][] = [];
+  private currentPageIndex = 0;
+
+  constructor() {
+    this.addPage();
+  }
+
+  /**
+   * Number of pages added so far.
+   */
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * Starts a new page; further drawing goes to it.
+   */
+  addPage(): void {
+    this.pages.push([]);
+    this.currentPageIndex = this.pages.length - 1;
+  }
+
+  /**
+   * Goes back to a page added earlier, e.g. to number the pages; further drawing goes to it.
+   *
+   * @param index - Zero-based page index
+   */
+  selectPage(index: number): void {
+    this.currentPageIndex = Math.min(Math.max(index, 0), this.pages.length - 1);
+  }
+
+  /**
+   * Measures the width of text in points.
+   */
+  measureText(text: string, size: number = DEFAULT_FONT_SIZE, bold = false): number {
+    const width = Array.from(normalizeText(text)).reduce((sum, char) => sum + getCharacterWidth(char, bold), 0);
+    return (width * size) / 1000;
+  }
+
+  /**
+   * Shortens text to fit the width, marking the cut with dots.
+   */
+  fitText(text: string, maxWidth: number, size: number = DEFAULT_FONT_SIZE, bold = false): string {
+    if (this.measureText(text, size, bold) <= maxWidth) {
+      return text;
+    }
+
+    const chars = Array.from(text);
+    while (chars.length > 0 && this.measureText(`${chars.join("")}...`, size, bold) > maxWidth) {
+      chars.pop();
+    }
+
+    return `${chars.join("").trimEnd()}...`;
+  }
+
+  /**
+   * Splits text into lines that fit the width, breaking between words.
+   */
+  wrapText(text: string, maxWidth: number, size: number = DEFAULT_FONT_SIZE, bold = false): string[] {
+    return text.split(/\r?\n/).flatMap((paragraph) => {
+      const lines: string[] = [];
+      let line = "";
+
+      paragraph.split(/\s+/).forEach((word) => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && this.measureText(candidate, size, bold) > maxWidth) {
+          lines.push(line);
+          line = this.fitText(word, maxWidth, size, bold);
+        } else {
+          line = this.fitText(candidate, maxWidth, size, bold);
+        }
+      });
+
+      lines.push(line);
+      return lines;
+    });
+  }
+
+  /**
+   * Draws a line of text with its baseline at y.
+   */
+  drawText(text: string, x: number, y: number, options: PdfTextOptions = {}): void {
+    const { size = DEFAULT_FONT_SIZE, bold = false, color = BLACK, align = "left" } = options;
+    const startX = align === "right" ? x - this.measureText(text, size, bold) : x;
+
+    this.currentPage.push(
+      `BT /${bold ? "F2" : "F1"} ${formatNumber(size)} Tf ${formatColor(color)} rg ` +
+        `${formatNumber(startX)} ${formatNumber(PAGE_HEIGHT - y)} Td ${encodeText(text)} Tj ET`
+    );
+  }
+
+  /**
+   * Fills a rectangle whose top-left corner is at (x, y).
+   */
+  fillRect(x: number, y: number, width: number, height: number, color: PdfColor): void {
+    this.currentPage.push(
+      `${formatColor(color)} rg ${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y - height)} ` +
+        `${formatNumber(width)} ${formatNumber(height)} re f`
+    );
+  }
+
+  /**
+   * Draws a straight line.
+   */
+  drawLine(x1: number, y1: number, x2: number, y2: number, color: PdfColor, lineWidth = 0.5): void {
+    this.currentPage.push(
+      `${formatColor(color)} RG ${formatNumber(lineWidth)} w ${formatNumber(x1)} ${formatNumber(PAGE_HEIGHT - y1)} m ` +
+        `${formatNumber(x2)} ${formatNumber(PAGE_HEIGHT - y2)} l S`
+    );
+  }
+
+  /**
+   * Serializes the document to PDF bytes.
+   */
+  save(): Uint8Array {
+    const objects: string[] = [];
+    const addObject = (content: string): number => objects.push(content);
+
+    const differences = POLISH_GLYPHS.map(([, glyph]) => `/${glyph}`).join(" ");
+    const encodingId = addObject(
+      `<< /Type /Encoding /BaseEncoding /WinAnsiEncoding /Differences [${POLISH_GLYPHS_FIRST_CODE} ${differences}] >>`
+    );
+    const regularFontId = addObject(
+      `<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding ${encodingId} 0 R >>`
+    );
+    const boldFontId = addObject(
+      `<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding ${encodingId} 0 R >>`
+    );
+
+    // The pages object is referenced by every page, so its number is reserved before the pages are written
+    const pagesId = objects.length + 1 + this.pages.length * 2;
+    const pageIds = this.pages.map((operations) => {
+      const stream = operations.join("\n");
+      const contentId = addObject(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+
+      return addObject(
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 ${regularFontId} 0 R /F2 ${boldFontId} 0 R >> >> /Contents ${contentId} 0 R >>`
+      );
+    });
+    addObject(`<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`);
+    const catalogId = addObject(`<< /Type /Catalog /Pages ${pagesId} 0 R >>`);
+
+    // Every string above is ASCII, so character offsets equal byte offsets
+    let output = "%PDF-1.4\n";
+    const offsets = objects.map((content, index) => {
+      const offset = output.length;
+      output += `${index + 1} 0 obj\n${content}\nendobj\n`;
+      return offset;
+    });
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+    output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return new TextEncoder().encode(output);
+  }
+
+  private get currentPage(): string[] {
+    return this.pages[this.currentPageIndex];
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Household roles and the operations they allow.
+ * The same rules are enforced by the row level security policies (see has_household_role()),
+ * the API routes and the UI, which hides actions the user may not perform.
+ */
+import type { ApiErrorDto, HouseholdRole } from "../types";
+
+/**
+ * Operations that depend on the household role of the user:
+ * - expenses:create - adding expenses
+ * - budgets:edit - budgets, incomes, planned expenses, refunds, changing and deleting transactions, imports
+ * - settings:edit - household members, categories, recurring transactions, categorization rules
+ * - household:manage - household name and alert defaults, access to the household, restoring backups
+ */
+export type HouseholdPermission = "expenses:create" | "budgets:edit" | "settings:edit" | "household:manage";
+
+/** Least privileged role allowed to perform each operation */
+export const PERMISSION_REQUIRED_ROLES: Readonly<Record<HouseholdPermission, HouseholdRole>> = {
+  "expenses:create": "viewer",
+  "budgets:edit": "editor",
+  "settings:edit": "editor",
+  "household:manage": "owner",
+};
+
+/** Names of the roles shown in the UI */
+export const HOUSEHOLD_ROLE_LABELS: Readonly<Record<HouseholdRole, string>> = {
+  owner: "Właściciel",
+  editor: "Edytor",
+  viewer: "Obserwator",
+};
+
+const ROLE_RANKS: Readonly<Record<HouseholdRole, number>> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3,
+};
+
+/**
+ * Checks whether a household role allows an operation.
+ *
+ * @param role - Role of the user, undefined when the user has no household
+ * @param permission - The operation
+ * @returns True if the role is at least the one required for the operation
+ */
+export function hasHouseholdPermission(role: HouseholdRole | undefined, permission: HouseholdPermission): boolean {
+  if (!role) {
+    return false;
+  }
+
+  return ROLE_RANKS[role] >= ROLE_RANKS[PERMISSION_REQUIRED_ROLES[permission]];
+}
+
+/**
+ * Creates the API error response returned when the household role of the user does not allow an operation.
+ *
+ * @param permission - The denied operation
+ * @returns Response with status 403 and the PERMISSION_DENIED error code
+ */
+export function createPermissionDeniedResponse(permission: HouseholdPermission): Response {
+  const errorResponse: ApiErrorDto = {
+    error: {
+      code: "PERMISSION_DENIED",
+      message: "Your household role does not allow this operation",
+      requiredRole: PERMISSION_REQUIRED_ROLES[permission],
+    },
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status: 403,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
+}
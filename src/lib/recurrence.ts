@@ -0,0 +1,97 @@
+import { addDays, addMonths, differenceInCalendarDays, differenceInCalendarMonths, format, parseISO } from "date-fns";
+
+/**
+ * Date utilities for recurring transaction schedules.
+ * All dates are handled as YYYY-MM-DD strings.
+ */
+
+export interface RecurrenceSchedule {
+  readonly frequency: "monthly" | "weekly" | "custom";
+  readonly intervalDays?: number | null;
+  readonly startDate: string;
+  readonly endDate?: string | null;
+}
+
+const toIsoDate = (date: Date): string => format(date, "yyyy-MM-dd");
+
+/**
+ * Returns the first occurrence of the schedule that falls on or after the given date.
+ * Monthly schedules stay anchored to the start date's day of month (clamped to shorter months).
+ *
+ * @param schedule - Recurrence schedule definition
+ * @param date - Lower bound (inclusive) in YYYY-MM-DD format
+ * @returns Occurrence date in YYYY-MM-DD format
+ */
+export function getFirstOccurrenceOnOrAfter(schedule: RecurrenceSchedule, date: string): string {
+  const start = parseISO(schedule.startDate);
+  const target = parseISO(date);
+
+  if (target <= start) {
+    return schedule.startDate;
+  }
+
+  if (schedule.frequency === "monthly") {
+    let step = differenceInCalendarMonths(target, start);
+    let occurrence = addMonths(start, step);
+
+    while (occurrence < target) {
+      step += 1;
+      occurrence = addMonths(start, step);
+    }
+
+    return toIsoDate(occurrence);
+  }
+
+  const stepDays = schedule.frequency === "weekly" ? 7 : (schedule.intervalDays ?? 0);
+  if (stepDays < 1) {
+    throw new Error("INVALID_SCHEDULE");
+  }
+
+  const steps = Math.ceil(differenceInCalendarDays(target, start) / stepDays);
+  return toIsoDate(addDays(start, steps * stepDays));
+}
+
+/**
+ * Returns the occurrence that directly follows the given occurrence.
+ *
+ * @param schedule - Recurrence schedule definition
+ * @param occurrence - Current occurrence in YYYY-MM-DD format
+ * @returns Next occurrence date in YYYY-MM-DD format
+ */
+export function getNextOccurrence(schedule: RecurrenceSchedule, occurrence: string): string {
+  return getFirstOccurrenceOnOrAfter(schedule, toIsoDate(addDays(parseISO(occurrence), 1)));
+}
+
+/**
+ * Checks whether the occurrence is still within the schedule's end date.
+ */
+export function isWithinSchedule(schedule: RecurrenceSchedule, occurrence: string): boolean {
+  return !schedule.endDate || occurrence <= schedule.endDate;
+}
+
+/**
+ * Returns the first day of the month of the given date (budget month key).
+ */
+export function getMonthStart(date: string): string {
+  return `${date.slice(0, 7)}-01`;
+}
+
+/**
+ * Lists the occurrences of the schedule within a date range, respecting the schedule's end date.
+ *
+ * @param schedule - Recurrence schedule definition
+ * @param from - Lower bound (inclusive) in YYYY-MM-DD format
+ * @param to - Upper bound (inclusive) in YYYY-MM-DD format
+ * @returns Occurrence dates in YYYY-MM-DD format, in chronological order
+ */
+export function listOccurrencesBetween(schedule: RecurrenceSchedule, from: string, to: string): string[] {
+  const occurrences: string[] = [];
+  let occurrence = getFirstOccurrenceOnOrAfter(schedule, from);
+
+  while (occurrence <= to && isWithinSchedule(schedule, occurrence)) {
+    occurrences.push(occurrence);
+    occurrence = getNextOccurrence(schedule, occurrence);
+  }
+
+  return occurrences;
+}
@@ -0,0 +1,32 @@
+/**
+ * Helpers for returning users to the page they opened before signing in.
+ */
+
+/** Query parameter of the login and registration pages holding the page to return to */
+export const REDIRECT_PARAM = "redirectTo";
+
+/**
+ * Returns the path to redirect to after signing in.
+ * Only paths within the application are accepted, so the parameter cannot send users to another site.
+ *
+ * @param value - Requested path with optional query string, e.g. "/invitations/accept?token=..."
+ * @returns The requested path, or "/" when it is missing or not a local path
+ */
+export function getSafeRedirectPath(value: string | null | undefined): string {
+  if (!value || !value.startsWith("/") || value.startsWith("//") || value.startsWith("/\\")) {
+    return "/";
+  }
+
+  return value;
+}
+
+/**
+ * Builds a link to the login or registration page that returns to the given path after signing in.
+ *
+ * @param page - Path of the login or registration page
+ * @param redirectTo - Path to return to
+ * @returns Link to the page, without the parameter when returning to the home page
+ */
+export function withRedirectParam(page: string, redirectTo: string): string {
+  return redirectTo === "/" ? page : `${page}?${REDIRECT_PARAM}=${encodeURIComponent(redirectTo)}`;
+}
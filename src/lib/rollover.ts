@@ -0,0 +1,70 @@
+import type { PlannedExpenseRolloverMode } from "../types";
+
+/**
+ * Planned expense of a single category in one budget, together with what was spent against it.
+ */
+export interface RolloverPeriod {
+  readonly limitAmount: number;
+  readonly rolloverMode: PlannedExpenseRolloverMode;
+  readonly spent: number;
+}
+
+/**
+ * Rollover figures of a category in one budget.
+ */
+export interface CategoryRollover {
+  readonly carriedIn: number;
+  readonly effectiveLimit: number;
+  readonly carriedOut: number;
+}
+
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Returns the amount that a category passes on to the next budget.
+ * Surplus mode carries only unspent money, surplus_and_deficit also carries overspending as a negative amount.
+ */
+export function calculateCarriedOut(mode: PlannedExpenseRolloverMode, effectiveLimit: number, spent: number): number {
+  const leftover = roundToCents(effectiveLimit - spent);
+
+  switch (mode) {
+    case "surplus":
+      return Math.max(leftover, 0);
+    case "surplus_and_deficit":
+      return leftover;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Calculates rollover figures of a category for one budget, given the amount carried in from the previous one.
+ */
+export function calculateCategoryRollover(period: RolloverPeriod, carriedIn: number): CategoryRollover {
+  const effectiveLimit = roundToCents(period.limitAmount + carriedIn);
+
+  return {
+    carriedIn,
+    effectiveLimit,
+    carriedOut: calculateCarriedOut(period.rolloverMode, effectiveLimit, period.spent),
+  };
+}
+
+/**
+ * Calculates rollover figures for a consecutive chain of budgets of one category, oldest first.
+ * The first period starts with nothing carried in, every next one receives what the previous one carried out.
+ *
+ * @returns Rollover figures for every period, in the same order
+ */
+export function calculateRolloverChain(periods: readonly RolloverPeriod[]): CategoryRollover[] {
+  const result: CategoryRollover[] = [];
+  let carriedIn = 0;
+
+  for (const period of periods) {
+    const rollover = calculateCategoryRollover(period, carriedIn);
+    result.push(rollover);
+    carriedIn = rollover.carriedOut;
+  }
+
+  return result;
+}
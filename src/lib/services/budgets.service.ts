@@ -6,12 +6,21 @@ import type {
   PaginationMetaDto,
   CreateBudgetCommand,
   BudgetCreatedDto,
+  BudgetClonePreviewDto,
+  BudgetClonedDto,
+  BudgetCloneSkippedIncomeDto,
+  BudgetCloneSkippedPlannedExpenseDto,
+  BudgetIncomeCommandItem,
+  BudgetPlannedExpenseCommandItem,
+  CloneBudgetCommand,
+  PlannedExpenseRolloverMode,
   BudgetDetailDto,
   BudgetIncomeDto,
   BudgetPlannedExpenseDto,
   BudgetSummaryDto,
   BudgetCategorySummaryDto,
-  BudgetCategorySummaryStatus,
+  BudgetMemberSpendingDto,
+  CategoryGroup,
   UpdateBudgetCommand,
   BudgetIncomesListResponseDto,
   UpdateBudgetIncomeCommand,
@@ -20,13 +29,49 @@ import type {
   UpsertPlannedExpensesCommand,
   UpdatePlannedExpenseCommand,
   TransactionDto,
+  TransactionKind,
   TransactionsListResponseDto,
   CreateTransactionCommand,
   DashboardSummaryDto,
+  DashboardCategorySummaryDto,
+  SpendingForecastDto,
+  RecurringTransactionFrequency,
   BudgetSummaryResponseDto,
+  BudgetSettlementDto,
+  BudgetSettlementMemberDto,
+  SettlementSplitRule,
+  ImportTransactionsCommand,
+  TransactionsImportDto,
+  TransactionDuplicatesListResponseDto,
+  DismissTransactionDuplicateCommand,
 } from "../../types";
 import type { ListTransactionsFilters } from "../validation/transactions";
 import { createPartialMatchPattern } from "../sql";
+import { calculateCategoryRollover, calculateRolloverChain, type RolloverPeriod } from "../rollover";
+import {
+  getCategoryStatus,
+  getMonthPace,
+  resolveCategoryAlertSettings,
+  type CategoryAlertSettings,
+} from "../category-alerts";
+import { compareCategoryOrder } from "../category-appearance";
+import { rollUpCategoryAmounts, sumPlannedLimits } from "../category-tree";
+import { buildDailyAmounts, forecastSpending, getForecastPeriod, type ForecastPeriod } from "../forecast";
+import { listOccurrencesBetween } from "../recurrence";
+import { expandTransactionSplits, getSignedAmount, splitsMatchTotal, type CategoryAmount } from "../splits";
+import { csvToImportDrafts } from "../import/csv";
+import { statementToImportDrafts } from "../import/statements";
+import { resolveImportDrafts, type TransactionImportDraft } from "../import/pipeline";
+import type { BudgetReportData } from "../pdf/budget-report";
+import { calculateSettlementBalances, calculateSettlementTransfers, type SettlementParticipant } from "../settlement";
+import {
+  findDuplicatePairs,
+  getDuplicateDateRange,
+  isSuspectedDuplicate,
+  type DuplicateCandidate,
+} from "../duplicates";
+import { createCategorizationService } from "./categorization.service";
+import { createHouseholdMembersService } from "./household-members.service";
 
 export type SupabaseClientType = SupabaseClient;
 
@@ -44,6 +89,20 @@ export interface GetBudgetDetailOptions {
   includeInactiveMembers?: boolean;
 }
 
+export interface GetBudgetSettlementOptions {
+  rule?: SettlementSplitRule;
+  weights?: { householdMemberId: string; weight: number }[];
+}
+
+/**
+ * Amount booked against a category by a transaction (or one of its split lines), with the member who paid.
+ */
+interface BudgetTransactionLine extends CategoryAmount {
+  readonly householdMemberId: string | null;
+  readonly transactionDate: string;
+  readonly recurringTransactionId: string | null;
+}
+
 /**
  * Service for managing budgets operations.
  */
@@ -64,8 +123,8 @@ export class BudgetsService {
     // First, get the household_id for the user
     const { data: householdData, error: householdError } = await this.supabase
       .from("households")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
       .single();
 
     if (householdError) {
@@ -212,8 +271,8 @@ export class BudgetsService {
     // First, get the household_id for the user
     const { data: householdData, error: householdError } = await this.supabase
       .from("households")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
       .single();
 
     if (householdError) {
@@ -314,6 +373,7 @@ export class BudgetsService {
           budget_id: budgetId,
           category_id: expense.categoryId,
           limit_amount: expense.limitAmount,
+          rollover_mode: expense.rolloverMode ?? "none",
         }));
 
         const { error: expensesError } = await this.supabase.from("planned_expenses").insert(expensesToInsert);
@@ -338,6 +398,179 @@ export class BudgetsService {
     }
   }
 
+  /**
+   * Prepares a copy of a budget's incomes and planned expenses that can be used for another month.
+   * Incomes of inactive members and limits of archived categories are left out and reported as skipped.
+   *
+   * @param userId - The ID of the user whose budget to copy
+   * @param sourceBudgetId - The ID of the budget to copy from
+   * @returns Promise resolving to the copyable items together with the skipped ones
+   * @throws Error if household not found, budget not found, or database error occurs
+   */
+  async getBudgetClonePreview(userId: string, sourceBudgetId: string): Promise<BudgetClonePreviewDto> {
+    // First, get the household_id for the user
+    const { data: householdData, error: householdError } = await this.supabase
+      .from("households")
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
+      .single();
+
+    if (householdError) {
+      if (householdError.code === "PGRST116") {
+        throw new Error("HOUSEHOLD_NOT_FOUND");
+      }
+      console.error("Database error while fetching household:", householdError);
+      throw new Error("BUDGET_CLONE_FAILED");
+    }
+
+    if (!householdData) {
+      throw new Error("HOUSEHOLD_NOT_FOUND");
+    }
+
+    const householdId = householdData.id;
+
+    // Verify the source budget belongs to the user's household
+    const { data: budgetData, error: budgetError } = await this.supabase
+      .from("budgets")
+      .select("id, month")
+      .eq("id", sourceBudgetId)
+      .eq("household_id", householdId)
+      .single();
+
+    if (budgetError) {
+      if (budgetError.code === "PGRST116") {
+        throw new Error("BUDGET_NOT_FOUND");
+      }
+      console.error("Database error while fetching source budget:", budgetError);
+      throw new Error("BUDGET_CLONE_FAILED");
+    }
+
+    if (!budgetData) {
+      throw new Error("BUDGET_NOT_FOUND");
+    }
+
+    const [incomesResult, plannedExpensesResult] = await Promise.all([
+      this.supabase
+        .from("incomes")
+        .select("household_member_id, amount, household_members!inner(full_name, is_active)")
+        .eq("budget_id", sourceBudgetId)
+        .eq("household_id", householdId),
+      this.supabase
+        .from("planned_expenses")
+        .select("category_id, limit_amount, rollover_mode")
+        .eq("budget_id", sourceBudgetId)
+        .eq("household_id", householdId),
+    ]);
+
+    if (incomesResult.error || plannedExpensesResult.error) {
+      console.error(
+        "Database error while fetching source budget items:",
+        incomesResult.error ?? plannedExpensesResult.error
+      );
+      throw new Error("BUDGET_CLONE_FAILED");
+    }
+
+    const incomes: BudgetIncomeCommandItem[] = [];
+    const skippedIncomes: BudgetCloneSkippedIncomeDto[] = [];
+
+    for (const income of incomesResult.data || []) {
+      if (income.household_members.is_active) {
+        incomes.push({ householdMemberId: income.household_member_id, amount: income.amount });
+      } else {
+        skippedIncomes.push({
+          householdMemberId: income.household_member_id,
+          fullName: income.household_members.full_name,
+          amount: income.amount,
+          reason: "INACTIVE_MEMBER",
+        });
+      }
+    }
+
+    // Archived categories cannot be planned in new budgets
+    const sourcePlannedExpenses = plannedExpensesResult.data || [];
+    const categoriesById = new Map<string, { name: string; is_archived: boolean }>();
+
+    if (sourcePlannedExpenses.length > 0) {
+      const { data: categoriesData, error: categoriesError } = await this.supabase
+        .from("categories")
+        .select("id, name, is_archived")
+        .eq("household_id", householdId)
+        .in(
+          "id",
+          sourcePlannedExpenses.map((expense) => expense.category_id)
+        );
+
+      if (categoriesError) {
+        console.error("Database error while fetching categories for clone:", categoriesError);
+        throw new Error("BUDGET_CLONE_FAILED");
+      }
+
+      (categoriesData || []).forEach((category) => categoriesById.set(category.id, category));
+    }
+
+    const plannedExpenses: BudgetPlannedExpenseCommandItem[] = [];
+    const skippedPlannedExpenses: BudgetCloneSkippedPlannedExpenseDto[] = [];
+
+    for (const expense of sourcePlannedExpenses) {
+      const category = categoriesById.get(expense.category_id);
+
+      if (category?.is_archived) {
+        skippedPlannedExpenses.push({
+          categoryId: expense.category_id,
+          categoryName: category.name,
+          limitAmount: expense.limit_amount,
+          reason: "CATEGORY_ARCHIVED",
+        });
+      } else {
+        plannedExpenses.push({
+          categoryId: expense.category_id,
+          limitAmount: expense.limit_amount,
+          rolloverMode: expense.rollover_mode as PlannedExpenseRolloverMode,
+        });
+      }
+    }
+
+    return {
+      sourceBudgetId: budgetData.id,
+      sourceMonth: budgetData.month,
+      incomes,
+      plannedExpenses,
+      skipped: {
+        incomes: skippedIncomes,
+        plannedExpenses: skippedPlannedExpenses,
+      },
+    };
+  }
+
+  /**
+   * Creates a new budget for the given month by copying incomes and planned expenses from an existing budget.
+   * Items that can no longer be copied are skipped and listed in the response.
+   *
+   * @param userId - The ID of the user creating the budget
+   * @param sourceBudgetId - The ID of the budget to copy from
+   * @param command - The target month and optional note of the new budget
+   * @returns Promise resolving to the created budget with copy statistics
+   * @throws Error if household not found, source budget not found, month conflict, or database error occurs
+   */
+  async cloneBudget(userId: string, sourceBudgetId: string, command: CloneBudgetCommand): Promise<BudgetClonedDto> {
+    const preview = await this.getBudgetClonePreview(userId, sourceBudgetId);
+
+    const created = await this.createBudget(userId, {
+      month: command.month,
+      note: command.note,
+      incomes: preview.incomes,
+      plannedExpenses: preview.plannedExpenses,
+    });
+
+    return {
+      ...created,
+      sourceBudgetId: preview.sourceBudgetId,
+      copiedIncomes: preview.incomes.length,
+      copiedPlannedExpenses: preview.plannedExpenses.length,
+      skipped: preview.skipped,
+    };
+  }
+
   /**
    * Retrieves detailed information about a specific budget for the specified user's household.
    * Includes incomes, planned expenses, and financial summary with optional transaction aggregation.
@@ -358,8 +591,8 @@ export class BudgetsService {
     // First, get the household_id for the user
     const { data: householdData, error: householdError } = await this.supabase
       .from("households")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
       .single();
 
     if (householdError) {
@@ -398,15 +631,17 @@ export class BudgetsService {
 
     try {
       // Fetch all related data in parallel
-      const [incomesData, plannedExpensesData, transactionsData] = await Promise.all([
+      const [incomesData, plannedExpensesData, transactionsData, parentById] = await Promise.all([
         this.getBudgetIncomes(budgetId, householdId, includeInactiveMembers),
         this.getBudgetPlannedExpenses(budgetId, householdId),
         includeTransactions ? this.getBudgetTransactions(budgetId, householdId) : Promise.resolve([]),
+        this.getCategoryParents(householdId),
       ]);
 
       // Calculate summary totals
       const totalIncome = incomesData.reduce((sum, income) => sum + income.amount, 0);
-      const totalPlanned = plannedExpensesData.reduce((sum, expense) => sum + expense.limitAmount, 0);
+      // Parent limits cover their subcategories, so nested limits are not counted twice
+      const totalPlanned = sumPlannedLimits(plannedExpensesData, parentById);
       const totalSpent = transactionsData.reduce((sum, transaction) => sum + transaction.amount, 0);
       const freeFunds = totalIncome - totalPlanned;
       const progress = totalIncome > 0 ? (totalSpent / totalIncome) * 100 : 0;
@@ -420,12 +655,22 @@ export class BudgetsService {
         progress,
       };
 
-      // Add per-category summary if transactions are included
+      // Add per-category and per-member summaries if transactions are included
       if (includeTransactions) {
-        const perCategory = await this.calculateCategorySummaries(plannedExpensesData, transactionsData, householdId);
+        const [perCategory, memberSpending] = await Promise.all([
+          this.calculateCategorySummaries(
+            plannedExpensesData,
+            transactionsData,
+            householdId,
+            budgetData.month,
+            parentById
+          ),
+          this.calculateMemberSpending(transactionsData, householdId),
+        ]);
         summary = {
           ...summary,
           perCategory,
+          ...memberSpending,
         };
       }
 
@@ -504,7 +749,7 @@ export class BudgetsService {
   private async getBudgetPlannedExpenses(budgetId: string, householdId: string): Promise<BudgetPlannedExpenseDto[]> {
     const { data, error } = await this.supabase
       .from("planned_expenses")
-      .select("id, category_id, limit_amount, created_at, updated_at")
+      .select("id, category_id, limit_amount, rollover_mode, created_at, updated_at")
       .eq("budget_id", budgetId)
       .eq("household_id", householdId);
 
@@ -517,25 +762,26 @@ export class BudgetsService {
       id: expense.id,
       categoryId: expense.category_id,
       limitAmount: expense.limit_amount,
+      rolloverMode: expense.rollover_mode as PlannedExpenseRolloverMode,
       createdAt: expense.created_at,
       updatedAt: expense.updated_at,
     }));
   }
 
   /**
-   * Fetches transactions for a specific budget.
+   * Fetches transactions for a specific budget as per-category amounts, with split transactions expanded into their lines.
+   * Refunds are returned as negative amounts, so every sum over the lines nets them against the spending.
    *
    * @param budgetId - The budget ID to fetch transactions for
    * @param householdId - The household ID for security filtering
-   * @returns Promise resolving to array of transaction data
+   * @returns Promise resolving to array of category amounts with the paying member
    */
-  private async getBudgetTransactions(
-    budgetId: string,
-    householdId: string
-  ): Promise<{ categoryId: string; amount: number }[]> {
+  private async getBudgetTransactions(budgetId: string, householdId: string): Promise<BudgetTransactionLine[]> {
     const { data, error } = await this.supabase
       .from("transactions")
-      .select("category_id, amount")
+      .select(
+        "category_id, household_member_id, kind, amount, transaction_date, recurring_transaction_id, transaction_splits(category_id, amount)"
+      )
       .eq("budget_id", budgetId)
       .eq("household_id", householdId);
 
@@ -544,76 +790,397 @@ export class BudgetsService {
       throw new Error("BUDGET_FETCH_FAILED");
     }
 
-    return (data || []).map((transaction) => ({
-      categoryId: transaction.category_id,
-      amount: transaction.amount,
-    }));
+    // Split transactions are counted per line so that every category gets its own share
+    return (data || []).flatMap((transaction) =>
+      expandTransactionSplits({
+        categoryId: transaction.category_id,
+        kind: transaction.kind as TransactionKind,
+        amount: transaction.amount,
+        splits: transaction.transaction_splits.map((split) => ({
+          categoryId: split.category_id,
+          amount: split.amount,
+        })),
+      }).map((line) => ({
+        ...line,
+        householdMemberId: transaction.household_member_id,
+        transactionDate: transaction.transaction_date,
+        recurringTransactionId: transaction.recurring_transaction_id,
+      }))
+    );
+  }
+
+  /**
+   * Fetches the parent of every category in the household.
+   *
+   * @param householdId - The household ID for security filtering
+   * @returns Promise resolving to a Map of category ID to parent category ID, null for top-level categories
+   */
+  private async getCategoryParents(householdId: string): Promise<Map<string, string | null>> {
+    const { data, error } = await this.supabase
+      .from("categories")
+      .select("id, parent_id")
+      .eq("household_id", householdId);
+
+    if (error) {
+      console.error("Database error while fetching category hierarchy:", error);
+      throw new Error("BUDGET_FETCH_FAILED");
+    }
+
+    return new Map((data || []).map((category) => [category.id, category.parent_id]));
   }
 
   /**
    * Calculates per-category summaries by combining planned expenses with transaction data.
+   * Limits are extended (or reduced) by amounts carried over from previous budgets according to rollover modes.
+   * Spending of subcategories is rolled up into their parents. A parent without its own limit is still listed
+   * when any of its subcategories is planned, with the subcategory limits summed up.
+   * Statuses use the alert settings of every category, falling back to the household defaults,
+   * and the pace of the budget month.
+   * Summaries are sorted by the user-defined category order.
    *
    * @param plannedExpenses - Array of planned expenses
    * @param transactions - Array of transactions
    * @param householdId - The household ID for fetching category names
+   * @param budgetMonth - The month of the budget (YYYY-MM-01), used to find previous budgets for rollover
+   * @param parentById - Parent of every category of the household, null for top-level ones
    * @returns Promise resolving to array of category summary DTOs
    */
   private async calculateCategorySummaries(
     plannedExpenses: BudgetPlannedExpenseDto[],
     transactions: { categoryId: string; amount: number }[],
-    householdId: string
+    householdId: string,
+    budgetMonth: string,
+    parentById: ReadonlyMap<string, string | null>
   ): Promise<BudgetCategorySummaryDto[]> {
     if (plannedExpenses.length === 0) {
       return [];
     }
 
-    // Get category names
-    const categoryIds = plannedExpenses.map((expense) => expense.categoryId);
-    const { data: categoriesData, error: categoriesError } = await this.supabase
-      .from("categories")
-      .select("id, name")
-      .eq("household_id", householdId)
-      .in("id", categoryIds);
+    const plannedCategoryIds = plannedExpenses.map((expense) => expense.categoryId);
+    const unplannedParentIds = Array.from(
+      new Set(
+        plannedCategoryIds
+          .map((categoryId) => parentById.get(categoryId))
+          .filter((parentId): parentId is string => !!parentId && !plannedCategoryIds.includes(parentId))
+      )
+    );
+
+    // Get category names, appearance and alert settings
+    const [
+      { data: categoriesData, error: categoriesError },
+      { data: householdData, error: householdError },
+      carriedInByCategory,
+    ] = await Promise.all([
+      this.supabase
+        .from("categories")
+        .select(
+          "id, name, color, icon, sort_order, cost_group, warning_threshold, over_threshold, pace_alert_day, pace_alert_percent"
+        )
+        .eq("household_id", householdId)
+        .in("id", [...plannedCategoryIds, ...unplannedParentIds]),
+      this.supabase
+        .from("households")
+        .select("category_warning_threshold, category_over_threshold, pace_alert_day, pace_alert_percent")
+        .eq("id", householdId)
+        .single(),
+      this.getCarriedInByCategory(householdId, budgetMonth, plannedCategoryIds, parentById),
+    ]);
 
     if (categoriesError) {
       console.error("Database error while fetching category names:", categoriesError);
       throw new Error("BUDGET_FETCH_FAILED");
     }
 
-    const categoriesMap = new Map((categoriesData || []).map((category) => [category.id, category.name]));
+    if (householdError) {
+      console.error("Database error while fetching household alert settings:", householdError);
+      throw new Error("BUDGET_FETCH_FAILED");
+    }
+
+    const householdAlertSettings: CategoryAlertSettings = {
+      warningThreshold: householdData.category_warning_threshold,
+      overThreshold: householdData.category_over_threshold,
+      paceAlertDay: householdData.pace_alert_day,
+      paceAlertPercent: householdData.pace_alert_percent,
+    };
+    const monthPace = getMonthPace(budgetMonth, new Date());
+
+    const categoriesMap = new Map((categoriesData || []).map((category) => [category.id, category]));
+    const getCategoryDetails = (categoryId: string) => {
+      const category = categoriesMap.get(categoryId);
+      return {
+        name: category?.name ?? "Unknown Category",
+        color: category?.color ?? null,
+        icon: category?.icon ?? null,
+        sortOrder: category?.sort_order ?? 0,
+        group: (category?.cost_group ?? "variable") as CategoryGroup,
+      };
+    };
+    const getCategoryProgress = (categoryId: string, spent: number, effectiveLimit: number) => {
+      const category = categoriesMap.get(categoryId);
+      const group = (category?.cost_group ?? "variable") as CategoryGroup;
+      const settings = resolveCategoryAlertSettings(
+        householdAlertSettings,
+        {
+          warningThreshold: category?.warning_threshold ?? null,
+          overThreshold: category?.over_threshold ?? null,
+          paceAlertDay: category?.pace_alert_day ?? null,
+          paceAlertPercent: category?.pace_alert_percent ?? null,
+        },
+        group
+      );
+
+      return {
+        ...getCategoryStatus(spent, effectiveLimit, settings, monthPace, group),
+        expectedProgress: monthPace.elapsedPercentage,
+      };
+    };
 
-    // Aggregate transactions by category
+    // Aggregate transactions by category, parents include the spending of their subcategories
     const transactionsByCategory = new Map<string, number>();
     transactions.forEach((transaction) => {
       const currentAmount = transactionsByCategory.get(transaction.categoryId) || 0;
       transactionsByCategory.set(transaction.categoryId, currentAmount + transaction.amount);
     });
+    const spentByCategory = rollUpCategoryAmounts(transactionsByCategory, parentById);
 
     // Build category summaries
-    return plannedExpenses.map((expense) => {
-      const spent = transactionsByCategory.get(expense.categoryId) || 0;
-      const progress = expense.limitAmount > 0 ? (spent / expense.limitAmount) * 100 : 0;
-
-      let status: BudgetCategorySummaryStatus = "ok";
-      if (progress >= 100) {
-        status = "over";
-      } else if (progress >= 80) {
-        status = "warning";
-      }
+    const plannedSummaries = plannedExpenses.map((expense) => {
+      const spent = spentByCategory.get(expense.categoryId) || 0;
+      const rollover = calculateCategoryRollover(
+        { limitAmount: expense.limitAmount, rolloverMode: expense.rolloverMode, spent },
+        carriedInByCategory.get(expense.categoryId) ?? 0
+      );
 
       return {
         categoryId: expense.categoryId,
-        name: categoriesMap.get(expense.categoryId) ?? "Unknown Category",
+        ...getCategoryDetails(expense.categoryId),
+        parentId: parentById.get(expense.categoryId) ?? null,
         spent,
+        hasOwnLimit: true,
         limitAmount: expense.limitAmount,
-        progress,
-        status,
+        rolloverMode: expense.rolloverMode,
+        ...rollover,
+        ...getCategoryProgress(expense.categoryId, spent, rollover.effectiveLimit),
+      };
+    });
+
+    // Parents without their own limit sum up the limits of their planned subcategories
+    const parentSummaries = unplannedParentIds.map((parentId) => {
+      const subcategories = plannedSummaries.filter((summary) => summary.parentId === parentId);
+      const sumOf = (field: "limitAmount" | "carriedIn" | "effectiveLimit" | "carriedOut") =>
+        subcategories.reduce((sum, summary) => sum + summary[field], 0);
+      const spent = spentByCategory.get(parentId) || 0;
+      const effectiveLimit = sumOf("effectiveLimit");
+
+      return {
+        categoryId: parentId,
+        ...getCategoryDetails(parentId),
+        parentId: null,
+        spent,
+        hasOwnLimit: false,
+        limitAmount: sumOf("limitAmount"),
+        rolloverMode: "none" as const,
+        carriedIn: sumOf("carriedIn"),
+        effectiveLimit,
+        carriedOut: sumOf("carriedOut"),
+        ...getCategoryProgress(parentId, spent, effectiveLimit),
       };
     });
+
+    // Categories are listed in the user-defined order
+    return [...parentSummaries, ...plannedSummaries].sort(compareCategoryOrder);
+  }
+
+  /**
+   * Calculates how much each household member paid in a budget.
+   * Members are listed by spending, highest first; spending without a member is returned separately.
+   *
+   * @param transactions - Transaction lines of the budget
+   * @param householdId - The household ID for fetching member names
+   * @returns Promise resolving to per-member spending and the unassigned amount
+   */
+  private async calculateMemberSpending(
+    transactions: BudgetTransactionLine[],
+    householdId: string
+  ): Promise<{ perMember: BudgetMemberSpendingDto[]; unassignedSpent: number }> {
+    const spentByMember = new Map<string, number>();
+    let unassignedSpent = 0;
+
+    transactions.forEach((transaction) => {
+      if (transaction.householdMemberId) {
+        const currentAmount = spentByMember.get(transaction.householdMemberId) || 0;
+        spentByMember.set(transaction.householdMemberId, currentAmount + transaction.amount);
+      } else {
+        unassignedSpent += transaction.amount;
+      }
+    });
+
+    if (spentByMember.size === 0) {
+      return { perMember: [], unassignedSpent };
+    }
+
+    // Inactive members are included - they may have paid before being deactivated
+    const { data: membersData, error: membersError } = await this.supabase
+      .from("household_members")
+      .select("id, full_name")
+      .eq("household_id", householdId)
+      .in("id", Array.from(spentByMember.keys()));
+
+    if (membersError) {
+      console.error("Database error while fetching member names:", membersError);
+      throw new Error("BUDGET_FETCH_FAILED");
+    }
+
+    const membersMap = new Map((membersData || []).map((member) => [member.id, member.full_name]));
+
+    const perMember = Array.from(spentByMember.entries())
+      .map(([householdMemberId, spent]) => ({
+        householdMemberId,
+        fullName: membersMap.get(householdMemberId) ?? "Unknown Member",
+        spent,
+      }))
+      .sort((a, b) => b.spent - a.spent);
+
+    return { perMember, unassignedSpent };
+  }
+
+  /**
+   * Calculates the amounts carried into a budget from previous budgets for the given categories.
+   * For every category the chain of directly preceding budgets with an active rollover mode is replayed
+   * from the oldest one, so leftovers accumulate across months until a budget without rollover breaks the chain.
+   *
+   * @param householdId - The household ID for security filtering
+   * @param budgetMonth - The month of the budget receiving the carried amounts (YYYY-MM-01)
+   * @param categoryIds - Categories planned in the budget
+   * @param parentById - Parent of every category of the household, used to roll subcategory spending up
+   * @returns Promise resolving to a Map of category ID to carried-in amount
+   */
+  private async getCarriedInByCategory(
+    householdId: string,
+    budgetMonth: string,
+    categoryIds: string[],
+    parentById: ReadonlyMap<string, string | null>
+  ): Promise<Map<string, number>> {
+    const carriedInByCategory = new Map<string, number>();
+
+    const { data: previousBudgets, error: budgetsError } = await this.supabase
+      .from("budgets")
+      .select("id")
+      .eq("household_id", householdId)
+      .lt("month", budgetMonth)
+      .order("month", { ascending: false });
+
+    if (budgetsError) {
+      console.error("Database error while fetching previous budgets for rollover:", budgetsError);
+      throw new Error("BUDGET_FETCH_FAILED");
+    }
+
+    if (!previousBudgets || previousBudgets.length === 0) {
+      return carriedInByCategory;
+    }
+
+    const { data: previousPlannedExpenses, error: plannedExpensesError } = await this.supabase
+      .from("planned_expenses")
+      .select("budget_id, category_id, limit_amount, rollover_mode")
+      .eq("household_id", householdId)
+      .in(
+        "budget_id",
+        previousBudgets.map((budget) => budget.id)
+      )
+      .in("category_id", categoryIds);
+
+    if (plannedExpensesError) {
+      console.error("Database error while fetching previous planned expenses for rollover:", plannedExpensesError);
+      throw new Error("BUDGET_FETCH_FAILED");
+    }
+
+    const plannedByBudgetAndCategory = new Map(
+      (previousPlannedExpenses || []).map((expense) => [`${expense.budget_id}:${expense.category_id}`, expense])
+    );
+
+    // Walk back from the most recent budget while the category keeps rolling over
+    const chainsByCategory = new Map<string, (Omit<RolloverPeriod, "spent"> & { budgetId: string })[]>();
+    const chainBudgetIds = new Set<string>();
+
+    for (const categoryId of categoryIds) {
+      const chain: (Omit<RolloverPeriod, "spent"> & { budgetId: string })[] = [];
+
+      for (const budget of previousBudgets) {
+        const expense = plannedByBudgetAndCategory.get(`${budget.id}:${categoryId}`);
+        if (!expense || expense.rollover_mode === "none") {
+          break;
+        }
+
+        chain.unshift({
+          budgetId: budget.id,
+          limitAmount: expense.limit_amount,
+          rolloverMode: expense.rollover_mode as PlannedExpenseRolloverMode,
+        });
+        chainBudgetIds.add(budget.id);
+      }
+
+      if (chain.length > 0) {
+        chainsByCategory.set(categoryId, chain);
+      }
+    }
+
+    if (chainsByCategory.size === 0) {
+      return carriedInByCategory;
+    }
+
+    // Not filtered by category - split transactions may book a category only through their lines
+    const { data: previousTransactions, error: transactionsError } = await this.supabase
+      .from("transactions")
+      .select("budget_id, category_id, kind, amount, transaction_splits(category_id, amount)")
+      .eq("household_id", householdId)
+      .in("budget_id", Array.from(chainBudgetIds));
+
+    if (transactionsError) {
+      console.error("Database error while fetching previous transactions for rollover:", transactionsError);
+      throw new Error("BUDGET_FETCH_FAILED");
+    }
+
+    const spentByBudgetAndCategory = new Map<string, number>();
+    (previousTransactions || []).forEach((transaction) => {
+      const lines = expandTransactionSplits({
+        categoryId: transaction.category_id,
+        kind: transaction.kind as TransactionKind,
+        amount: transaction.amount,
+        splits: transaction.transaction_splits.map((split) => ({
+          categoryId: split.category_id,
+          amount: split.amount,
+        })),
+      });
+
+      // Parents include the spending of their subcategories, like in the summary of the budget itself
+      lines.forEach((line) => {
+        [line.categoryId, parentById.get(line.categoryId)].forEach((categoryId) => {
+          if (!categoryId) {
+            return;
+          }
+          const key = `${transaction.budget_id}:${categoryId}`;
+          spentByBudgetAndCategory.set(key, (spentByBudgetAndCategory.get(key) || 0) + line.amount);
+        });
+      });
+    });
+
+    chainsByCategory.forEach((chain, categoryId) => {
+      const periods: RolloverPeriod[] = chain.map((entry) => ({
+        limitAmount: entry.limitAmount,
+        rolloverMode: entry.rolloverMode,
+        spent: spentByBudgetAndCategory.get(`${entry.budgetId}:${categoryId}`) || 0,
+      }));
+
+      const rollovers = calculateRolloverChain(periods);
+      carriedInByCategory.set(categoryId, rollovers[rollovers.length - 1].carriedOut);
+    });
+
+    return carriedInByCategory;
   }
 
   /**
    * Fetches aggregated summaries for multiple budgets.
+   * Refunds are netted against the spending.
    *
    * @param budgetIds - Array of budget IDs to fetch summaries for
    * @param householdId - The household ID for security filtering
@@ -642,7 +1209,7 @@ export class BudgetsService {
       // Fetch planned expenses aggregation
       const { data: plannedData, error: plannedError } = await this.supabase
         .from("planned_expenses")
-        .select("budget_id, limit_amount")
+        .select("budget_id, category_id, limit_amount")
         .in("budget_id", budgetIds);
 
       if (plannedError) {
@@ -653,7 +1220,7 @@ export class BudgetsService {
       // Fetch transactions aggregation
       const { data: transactionsData, error: transactionsError } = await this.supabase
         .from("transactions")
-        .select("budget_id, amount")
+        .select("budget_id, kind, amount")
         .eq("household_id", householdId)
         .in("budget_id", budgetIds);
 
@@ -689,28 +1256,33 @@ export class BudgetsService {
         });
       }
 
-      // Aggregate planned expenses
-      if (plannedData) {
-        plannedData.forEach((planned) => {
-          const summary = summariesMap.get(planned.budget_id);
-          if (summary) {
-            const updatedSummary = {
-              ...summary,
-              totalPlanned: summary.totalPlanned + (planned.limit_amount || 0),
-            };
-            summariesMap.set(planned.budget_id, updatedSummary);
-          }
+      // Aggregate planned expenses, parent limits cover their subcategories
+      if (plannedData && plannedData.length > 0) {
+        const parentById = await this.getCategoryParents(householdId);
+
+        summariesMap.forEach((summary, budgetId) => {
+          const updatedSummary = {
+            ...summary,
+            totalPlanned: sumPlannedLimits(
+              plannedData
+                .filter((planned) => planned.budget_id === budgetId)
+                .map((planned) => ({ categoryId: planned.category_id, limitAmount: planned.limit_amount || 0 })),
+              parentById
+            ),
+          };
+          summariesMap.set(budgetId, updatedSummary);
         });
       }
 
-      // Aggregate transactions
+      // Aggregate transactions, refunds reduce the spending
       if (transactionsData) {
         transactionsData.forEach((transaction) => {
           const summary = summariesMap.get(transaction.budget_id);
           if (summary) {
             const updatedSummary = {
               ...summary,
-              totalSpent: summary.totalSpent + (transaction.amount || 0),
+              totalSpent:
+                summary.totalSpent + getSignedAmount(transaction.kind as TransactionKind, transaction.amount || 0),
             };
             summariesMap.set(transaction.budget_id, updatedSummary);
           }
@@ -766,18 +1338,23 @@ export class BudgetsService {
   }
 
   /**
-   * Validates that all provided category IDs belong to the specified household.
+   * Validates that all provided category IDs belong to the specified household and are not archived.
    *
    * @param householdId - The household ID to validate against
    * @param categoryIds - Array of category IDs to validate
-   * @throws Error if any category ID is invalid
+   * @param plannedCategoryIds - Archived categories that are accepted because the budget already plans them
+   * @throws Error if any category ID is invalid or archived
    */
-  private async validateCategories(householdId: string, categoryIds: string[]): Promise<void> {
+  private async validateCategories(
+    householdId: string,
+    categoryIds: string[],
+    plannedCategoryIds: string[] = []
+  ): Promise<void> {
     if (categoryIds.length === 0) return;
 
     const { data: categories, error } = await this.supabase
       .from("categories")
-      .select("id")
+      .select("id, is_archived")
       .eq("household_id", householdId)
       .in("id", categoryIds);
 
@@ -789,6 +1366,10 @@ export class BudgetsService {
     if (!categories || categories.length !== categoryIds.length) {
       throw new Error("INVALID_CATEGORY");
     }
+
+    if (categories.some((category) => category.is_archived && !plannedCategoryIds.includes(category.id))) {
+      throw new Error("CATEGORY_ARCHIVED");
+    }
   }
 
   /**
@@ -870,15 +1451,16 @@ export class BudgetsService {
    *
    * @param userId - The ID of the user whose budget incomes to retrieve
    * @param budgetId - The ID of the budget to retrieve incomes for
+   * @param memberId - Optional member whose incomes to retrieve, "me" for the member linked to the user's account
    * @returns Promise resolving to list of budget incomes
    * @throws Error if household not found, budget not found, or database error occurs
    */
-  async listBudgetIncomes(userId: string, budgetId: string): Promise<BudgetIncomesListResponseDto> {
+  async listBudgetIncomes(userId: string, budgetId: string, memberId?: string): Promise<BudgetIncomesListResponseDto> {
     // First, get the household_id for the user
     const { data: householdData, error: householdError } = await this.supabase
       .from("households")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
       .single();
 
     if (householdError) {
@@ -916,11 +1498,19 @@ export class BudgetsService {
     }
 
     try {
+      const memberFilter = await createHouseholdMembersService(this.supabase).resolveMemberFilter(
+        householdId,
+        userId,
+        memberId,
+        "INCOMES_LIST_FAILED"
+      );
+
       // Fetch incomes using existing private method (include only active members)
       const incomes = await this.getBudgetIncomes(budgetId, householdId, false);
 
       return {
-        data: incomes,
+        data:
+          memberFilter === undefined ? incomes : incomes.filter((income) => income.householdMemberId === memberFilter),
       };
     } catch (error) {
       console.error("Error fetching budget incomes:", error);
@@ -940,8 +1530,8 @@ export class BudgetsService {
     // First, get the household_id for the user
     const { data: householdData, error: householdError } = await this.supabase
       .from("households")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
       .single();
 
     if (householdError) {
@@ -1005,8 +1595,8 @@ export class BudgetsService {
     // First, get the household_id for the user
     const { data: household, error: householdError } = await this.supabase
       .from("households")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
       .maybeSingle();
 
     if (householdError) {
@@ -1088,14 +1678,16 @@ export class BudgetsService {
 
     // Fetch all related data in parallel (optimized - avoid extra household lookup)
     try {
-      const [incomesData, plannedExpensesData] = await Promise.all([
+      const [incomesData, plannedExpensesData, parentById] = await Promise.all([
         this.getBudgetIncomes(budgetId, householdId, false), // includeInactiveMembers = false for PATCH
         this.getBudgetPlannedExpenses(budgetId, householdId),
+        this.getCategoryParents(householdId),
       ]);
 
       // Calculate summary totals (no transactions for PATCH response)
       const totalIncome = incomesData.reduce((sum, income) => sum + income.amount, 0);
-      const totalPlanned = plannedExpensesData.reduce((sum, expense) => sum + expense.limitAmount, 0);
+      // Parent limits cover their subcategories, so nested limits are not counted twice
+      const totalPlanned = sumPlannedLimits(plannedExpensesData, parentById);
       const totalSpent = 0; // No transactions included in PATCH response
       const freeFunds = totalIncome - totalPlanned;
       const progress = totalIncome > 0 ? (totalSpent / totalIncome) * 100 : 0;
@@ -1144,8 +1736,8 @@ export class BudgetsService {
     // First, get the household_id for the user
     const { data: householdData, error: householdError } = await this.supabase
       .from("households")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
       .single();
 
     if (householdError) {
@@ -1236,8 +1828,8 @@ export class BudgetsService {
     // First, get the household_id for the user
     const { data: householdData, error: householdError } = await this.supabase
       .from("households")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
       .single();
 
     if (householdError) {
@@ -1346,8 +1938,8 @@ export class BudgetsService {
     // First, get the household_id for the user
     const { data: householdData, error: householdError } = await this.supabase
       .from("households")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
       .single();
 
     if (householdError) {
@@ -1438,8 +2030,8 @@ export class BudgetsService {
     // First, get the household_id for the user
     const { data: householdData, error: householdError } = await this.supabase
       .from("households")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
       .single();
 
     if (householdError) {
@@ -1478,8 +2070,24 @@ export class BudgetsService {
 
     // Validate categories if planned expenses are provided
     if (command.plannedExpenses.length > 0) {
+      // Limits already planned for archived categories stay editable
+      const { data: currentExpenses, error: currentExpensesError } = await this.supabase
+        .from("planned_expenses")
+        .select("category_id")
+        .eq("budget_id", budgetId)
+        .eq("household_id", householdId);
+
+      if (currentExpensesError) {
+        console.error("Database error while fetching planned expenses:", currentExpensesError);
+        throw new Error("PLANNED_EXPENSES_UPSERT_FAILED");
+      }
+
       const categoryIds = command.plannedExpenses.map((expense) => expense.categoryId);
-      await this.validateCategories(householdId, categoryIds);
+      await this.validateCategories(
+        householdId,
+        categoryIds,
+        (currentExpenses || []).map((expense) => expense.category_id)
+      );
     }
 
     try {
@@ -1498,6 +2106,7 @@ export class BudgetsService {
           budget_id: budgetId,
           category_id: expense.categoryId,
           limit_amount: expense.limitAmount,
+          rollover_mode: expense.rolloverMode ?? "none",
         }));
 
         const { error: insertError } = await this.supabase.from("planned_expenses").insert(expensesToInsert);
@@ -1542,12 +2151,12 @@ export class BudgetsService {
   }
 
   /**
-   * Updates the limit amount of a specific planned expense in a budget.
+   * Updates the limit amount and/or rollover mode of a specific planned expense in a budget.
    *
    * @param userId - The ID of the user making the request
    * @param budgetId - The ID of the budget containing the planned expense
    * @param plannedExpenseId - The ID of the planned expense to update
-   * @param command - The update command containing the new limit amount
+   * @param command - The update command containing the new limit amount and/or rollover mode
    * @returns Promise resolving to the updated planned expense DTO
    * @throws Error if household, budget, or planned expense not found, or if update fails
    */
@@ -1560,8 +2169,8 @@ export class BudgetsService {
     // First, get the household_id for the user
     const { data: householdData, error: householdError } = await this.supabase
       .from("households")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
       .single();
 
     if (householdError) {
@@ -1598,17 +2207,27 @@ export class BudgetsService {
       throw new Error("BUDGET_NOT_FOUND");
     }
 
+    // Build update data with only the provided fields
+    const updateData: Record<string, unknown> = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (command.limitAmount !== undefined) {
+      updateData.limit_amount = command.limitAmount;
+    }
+
+    if (command.rolloverMode !== undefined) {
+      updateData.rollover_mode = command.rolloverMode;
+    }
+
     // Update the planned expense record
     const { data: updatedPlannedExpense, error: updateError } = await this.supabase
       .from("planned_expenses")
-      .update({
-        limit_amount: command.limitAmount,
-        updated_at: new Date().toISOString(),
-      })
+      .update(updateData)
       .eq("id", plannedExpenseId)
       .eq("budget_id", budgetId)
       .eq("household_id", householdId)
-      .select("id, category_id, limit_amount, created_at, updated_at")
+      .select("id, category_id, limit_amount, rollover_mode, created_at, updated_at")
       .single();
 
     if (updateError) {
@@ -1649,8 +2268,8 @@ export class BudgetsService {
     // First, get the household_id for the user
     const { data: householdData, error: householdError } = await this.supabase
       .from("households")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
       .single();
 
     if (householdError) {
@@ -1741,13 +2360,13 @@ export class BudgetsService {
   async createBudgetPlannedExpense(
     userId: string,
     budgetId: string,
-    command: { categoryId: string; limitAmount: number }
+    command: BudgetPlannedExpenseCommandItem
   ): Promise<BudgetPlannedExpenseDto> {
     // First, get the household_id for the user
     const { data: householdData, error: householdError } = await this.supabase
       .from("households")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
       .single();
 
     if (householdError) {
@@ -1784,7 +2403,7 @@ export class BudgetsService {
       throw new Error("BUDGET_NOT_FOUND");
     }
 
-    // Validate that the category exists and belongs to the household
+    // Validate that the category exists, belongs to the household and is not archived
     await this.validateCategories(householdId, [command.categoryId]);
 
     // Check if a planned expense already exists for this category in the budget
@@ -1813,8 +2432,9 @@ export class BudgetsService {
         budget_id: budgetId,
         category_id: command.categoryId,
         limit_amount: command.limitAmount,
+        rollover_mode: command.rolloverMode ?? "none",
       })
-      .select("id, category_id, limit_amount, created_at, updated_at")
+      .select("id, category_id, limit_amount, rollover_mode, created_at, updated_at")
       .single();
 
     if (insertError) {
@@ -1846,7 +2466,8 @@ export class BudgetsService {
 
   /**
    * Lists transactions for a specific budget that belongs to the authenticated user's household.
-   * Supports filtering by category, date range, note search, pagination, and sorting.
+   * Supports filtering by category, paying member, date range, note search, pagination, and sorting.
+   * The member filter "me" stands for the member linked to the user's account.
    *
    * @param userId - The ID of the user whose budget transactions to retrieve
    * @param budgetId - The ID of the budget to retrieve transactions for
@@ -1862,8 +2483,8 @@ export class BudgetsService {
     // First, get the household_id for the user
     const { data: householdData, error: householdError } = await this.supabase
       .from("households")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
       .single();
 
     if (householdError || !householdData) {
@@ -1889,13 +2510,51 @@ export class BudgetsService {
     // Build the query with filters
     let query = this.supabase
       .from("transactions")
-      .select("id, category_id, amount, transaction_date, note, created_at, updated_at", { count: "exact" })
+      .select(
+        "id, category_id, household_member_id, kind, amount, transaction_date, note, external_id, refunded_transaction_id, created_at, updated_at, transaction_splits(id, category_id, amount)",
+        { count: "exact" }
+      )
       .eq("household_id", householdId)
       .eq("budget_id", budgetId);
 
     // Apply filters
     if (filters.categoryId) {
-      query = query.eq("category_id", filters.categoryId);
+      // Split transactions match when any of their lines uses the category
+      const { data: splitMatches, error: splitMatchesError } = await this.supabase
+        .from("transaction_splits")
+        .select("transaction_id")
+        .eq("household_id", householdId)
+        .eq("category_id", filters.categoryId);
+
+      if (splitMatchesError) {
+        console.error("Error fetching split transactions for category filter:", splitMatchesError);
+        throw new Error("TRANSACTIONS_LIST_FAILED");
+      }
+
+      const splitTransactionIds = Array.from(new Set((splitMatches || []).map((split) => split.transaction_id)));
+      query =
+        splitTransactionIds.length > 0
+          ? query.or(`category_id.eq.${filters.categoryId},id.in.(${splitTransactionIds.join(",")})`)
+          : query.eq("category_id", filters.categoryId);
+    }
+
+    // "me" is the member linked to the signed-in account; without such a member nothing matches
+    const memberId = await createHouseholdMembersService(this.supabase).resolveMemberFilter(
+      householdId,
+      userId,
+      filters.memberId,
+      "TRANSACTIONS_LIST_FAILED"
+    );
+
+    if (memberId === null) {
+      return {
+        data: [],
+        meta: { page: filters.page, pageSize: filters.pageSize, totalItems: 0, totalPages: 0 },
+      };
+    }
+
+    if (memberId) {
+      query = query.eq("household_member_id", memberId);
     }
 
     if (filters.fromDate) {
@@ -1957,25 +2616,47 @@ export class BudgetsService {
   /**
    * Creates a new transaction for a specific budget that belongs to the authenticated user's household.
    * Validates that the budget exists, the category belongs to the household, and creates the transaction.
+   * A split transaction is created together with its lines, which must add up to the transaction amount.
+   * A transaction that looks like a duplicate of an existing one is rejected unless allowDuplicate is set.
+   * A transaction without a category gets the category of the categorization rule matching its note.
+   * A refund can be linked to the expense it returns money for; without a category it then takes the expense's one.
+   * The refunds of an expense cannot return more than the expense amount.
+   * An expense without a paying member is attributed to the member linked to the user's account.
    *
    * @param userId - The ID of the user creating the transaction
    * @param budgetId - The ID of the budget to create the transaction for
    * @param command - The transaction creation command
    * @returns Promise resolving to the created transaction DTO
-   * @throws Error if household not found, budget not found, category mismatch, or database error occurs
+   * @throws Error if household not found, budget not found, category mismatch, archived or not matched by any rule,
+   * split total mismatch, invalid or exceeded refunded transaction, suspected duplicate, or database error occurs
    */
   async createBudgetTransaction(
     userId: string,
     budgetId: string,
     command: CreateTransactionCommand
   ): Promise<TransactionDto> {
-    const { categoryId, amount, transactionDate, note } = command;
+    const {
+      amount,
+      transactionDate,
+      note,
+      householdMemberId,
+      externalId,
+      kind = "expense",
+      refundedTransactionId,
+      splits,
+      allowDuplicate,
+    } = command;
+
+    // Split lines must add up to the transaction amount, the parent row keeps the category of the first line
+    if (splits && !splitsMatchTotal(amount, splits)) {
+      throw new Error("SPLIT_TOTAL_MISMATCH");
+    }
 
     // First, get the household_id for the user
     const { data: householdData, error: householdError } = await this.supabase
       .from("households")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
       .single();
 
     if (householdError) {
@@ -1992,10 +2673,34 @@ export class BudgetsService {
 
     const householdId = householdData.id;
 
-    // Verify budget and category in parallel for better performance
+    // A linked refund without a category or splits is booked against the category of the refunded expense
+    const refundedCategoryId = refundedTransactionId
+      ? await this.getRefundedTransactionCategory(
+          householdId,
+          refundedTransactionId,
+          amount,
+          "TRANSACTION_CREATE_FAILED"
+        )
+      : undefined;
+
+    // Without a category or splits, the category is picked by the household's categorization rules
+    const { categoryId: ruleCategoryId } = await createCategorizationService(this.supabase).categorizeTransaction(
+      householdId,
+      { ...command, categoryId: command.categoryId ?? (splits ? undefined : refundedCategoryId) },
+      "TRANSACTION_CREATE_FAILED"
+    );
+
+    const categoryId = splits ? splits[0].categoryId : ruleCategoryId;
+    if (!categoryId) {
+      throw new Error("CATEGORY_NOT_MATCHED");
+    }
+
+    const categoryIds = splits ? splits.map((split) => split.categoryId) : [categoryId];
+
+    // Verify budget and categories in parallel for better performance
     const [budgetResult, categoryResult] = await Promise.all([
       this.supabase.from("budgets").select("id").eq("id", budgetId).eq("household_id", householdId).single(),
-      this.supabase.from("categories").select("id").eq("id", categoryId).eq("household_id", householdId).single(),
+      this.supabase.from("categories").select("id, is_archived").eq("household_id", householdId).in("id", categoryIds),
     ]);
 
     // Check budget verification result
@@ -2015,31 +2720,112 @@ export class BudgetsService {
     // Check category verification result
     const { data: categoryData, error: categoryError } = categoryResult;
     if (categoryError) {
-      if (categoryError.code === "PGRST116") {
-        throw new Error("CATEGORY_MISMATCH");
-      }
       console.error("Database error while validating category:", categoryError);
       throw new Error("TRANSACTION_CREATE_FAILED");
     }
 
-    if (!categoryData) {
+    if (!categoryData || categoryData.length !== new Set(categoryIds).size) {
       throw new Error("CATEGORY_MISMATCH");
     }
 
+    // A refund can still be booked against the archived category it inherited from the refunded expense
+    const inheritedCategoryId = !command.categoryId && !splits ? refundedCategoryId : undefined;
+    if (categoryData.some((category) => category.is_archived && category.id !== inheritedCategoryId)) {
+      throw new Error("CATEGORY_ARCHIVED");
+    }
+
+    // An expense without a payer is paid by the member linked to the user's account, if it is active
+    let payerMemberId = householdMemberId;
+    if (payerMemberId === undefined && kind === "expense") {
+      const linkedMember = await createHouseholdMembersService(this.supabase).getLinkedMember(
+        householdId,
+        userId,
+        "TRANSACTION_CREATE_FAILED"
+      );
+      payerMemberId = linkedMember?.isActive ? linkedMember.id : undefined;
+    }
+
+    // The paying member, if given, must be an active member of the household
+    if (payerMemberId) {
+      await this.validateHouseholdMembers(householdId, [payerMemberId]);
+    }
+
+    // A nearly identical transaction is usually a double submission; the client confirms it with allowDuplicate
+    if (!allowDuplicate) {
+      const existingTransactions = await this.getDuplicateCandidates(
+        householdId,
+        [transactionDate],
+        "TRANSACTION_CREATE_FAILED"
+      );
+
+      if (
+        existingTransactions.some((existing) =>
+          isSuspectedDuplicate(existing, { categoryId, kind, amount, transactionDate, note })
+        )
+      ) {
+        throw new Error("DUPLICATE_SUSPECTED");
+      }
+    }
+
+    const transactionRow = {
+      household_id: householdId,
+      budget_id: budgetId,
+      category_id: categoryId,
+      household_member_id: payerMemberId ?? null,
+      kind,
+      amount: amount,
+      transaction_date: transactionDate,
+      note: note || null,
+      external_id: externalId ?? null,
+      refunded_transaction_id: refundedTransactionId ?? null,
+    };
+
+    // A split transaction is written together with its lines, so that it is never left without them
+    if (splits) {
+      const { data: createdId, error: createError } = await this.supabase.rpc("create_split_transaction", {
+        transaction: transactionRow,
+        splits: splits.map((split) => ({ category_id: split.categoryId, amount: split.amount })),
+      });
+
+      if (createError?.code === "23505") {
+        throw new Error("DUPLICATE_EXTERNAL_ID");
+      }
+
+      if (createError || !createdId) {
+        console.error("Database error while creating split transaction:", createError);
+        throw new Error("TRANSACTION_CREATE_FAILED");
+      }
+
+      const { data: splitTransactionData, error: fetchError } = await this.supabase
+        .from("transactions")
+        .select(
+          "id, household_id, budget_id, category_id, household_member_id, kind, amount, transaction_date, note, external_id, refunded_transaction_id, created_at, updated_at, transaction_splits(id, category_id, amount)"
+        )
+        .eq("id", createdId)
+        .single();
+
+      if (fetchError || !splitTransactionData) {
+        console.error("Database error while fetching created split transaction:", fetchError);
+        throw new Error("TRANSACTION_CREATE_FAILED");
+      }
+
+      return this.mapTransactionToDto(splitTransactionData);
+    }
+
     // Create the transaction
     const { data: transactionData, error: insertError } = await this.supabase
       .from("transactions")
-      .insert({
-        household_id: householdId,
-        budget_id: budgetId,
-        category_id: categoryId,
-        amount: amount,
-        transaction_date: transactionDate,
-        note: note || null,
-      })
-      .select("id, household_id, budget_id, category_id, amount, transaction_date, note, created_at, updated_at")
+      .insert(transactionRow)
+      .select(
+        "id, household_id, budget_id, category_id, household_member_id, kind, amount, transaction_date, note, external_id, refunded_transaction_id, created_at, updated_at"
+      )
       .single();
 
+    // The same bank reference can be stored only once per household
+    if (insertError?.code === "23505") {
+      throw new Error("DUPLICATE_EXTERNAL_ID");
+    }
+
     if (insertError || !transactionData) {
       console.error("Database error while creating transaction:", insertError);
       throw new Error("TRANSACTION_CREATE_FAILED");
@@ -2052,10 +2838,490 @@ export class BudgetsService {
     return this.mapTransactionToDto(transactionData);
   }
 
+  /**
+   * Imports transactions from a CSV bank export or a bank statement (MT940, OFX/QFX, camt.053) into a specific budget.
+   * CSV rows are read using the column mapping; statement entries keep the bank reference as their external ID.
+   * Rows are validated with the same rules as a single transaction.
+   * A dry run only returns the per-row preview; otherwise all valid rows are inserted in one batch,
+   * which is rejected as a whole when any row is invalid.
+   *
+   * @param userId - The ID of the user importing the transactions
+   * @param budgetId - The ID of the budget to import the transactions into
+   * @param command - File content, its format (with the column mapping for CSV) and import options
+   * @returns Promise resolving to the per-row preview and the number of imported transactions
+   * @throws Error if household not found, budget not found, file cannot be read, rows are invalid, or database error occurs
+   */
+  async importBudgetTransactions(
+    userId: string,
+    budgetId: string,
+    command: ImportTransactionsCommand
+  ): Promise<TransactionsImportDto> {
+    // Throws INVALID_CSV, INVALID_MAPPING, INVALID_STATEMENT or IMPORT_TOO_LARGE with details
+    // when the file cannot be read
+    const drafts =
+      "content" in command
+        ? statementToImportDrafts(command.format, command.content)
+        : csvToImportDrafts(command.csv, {
+            mapping: command.mapping,
+            delimiter: command.delimiter,
+            hasHeader: command.hasHeader ?? true,
+            expenseSign: command.expenseSign ?? "negative",
+          });
+
+    return this.importTransactionDrafts(userId, budgetId, drafts, command);
+  }
+
+  /**
+   * Validates import drafts against the household's categories and members and inserts them unless it is a dry run.
+   * Drafts whose bank reference is already stored in the household are skipped, and so are drafts that look like
+   * duplicates of stored transactions unless duplicates are allowed. Drafts without a known category get the category
+   * of the categorization rule matching their note. Shared by all import formats.
+   *
+   * @param userId - The ID of the user importing the transactions
+   * @param budgetId - The ID of the budget to import the transactions into
+   * @param drafts - Transactions read from the imported file
+   * @param options - Default category, paying member, dry run and allow duplicates flags
+   * @returns Promise resolving to the per-row preview and the number of imported transactions
+   */
+  private async importTransactionDrafts(
+    userId: string,
+    budgetId: string,
+    drafts: TransactionImportDraft[],
+    options: Pick<ImportTransactionsCommand, "defaultCategoryId" | "householdMemberId" | "dryRun" | "allowDuplicates">
+  ): Promise<TransactionsImportDto> {
+    const { defaultCategoryId, householdMemberId, dryRun = true, allowDuplicates = false } = options;
+
+    // First, get the household_id for the user
+    const { data: householdData, error: householdError } = await this.supabase
+      .from("households")
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
+      .single();
+
+    if (householdError) {
+      if (householdError.code === "PGRST116") {
+        throw new Error("HOUSEHOLD_NOT_FOUND");
+      }
+      console.error("Database error while fetching household:", householdError);
+      throw new Error("TRANSACTION_IMPORT_FAILED");
+    }
+
+    if (!householdData) {
+      throw new Error("HOUSEHOLD_NOT_FOUND");
+    }
+
+    const householdId = householdData.id;
+
+    // Verify budget and load categories in parallel - imported category names are matched against them
+    const [budgetResult, categoriesResult] = await Promise.all([
+      this.supabase.from("budgets").select("id").eq("id", budgetId).eq("household_id", householdId).single(),
+      this.supabase.from("categories").select("id, name, is_archived").eq("household_id", householdId),
+    ]);
+
+    const { data: budgetData, error: budgetError } = budgetResult;
+    if (budgetError) {
+      if (budgetError.code === "PGRST116") {
+        throw new Error("BUDGET_NOT_FOUND");
+      }
+      console.error("Database error while fetching budget:", budgetError);
+      throw new Error("TRANSACTION_IMPORT_FAILED");
+    }
+
+    if (!budgetData) {
+      throw new Error("BUDGET_NOT_FOUND");
+    }
+
+    const { data: categoriesData, error: categoriesError } = categoriesResult;
+    if (categoriesError) {
+      console.error("Database error while fetching categories:", categoriesError);
+      throw new Error("TRANSACTION_IMPORT_FAILED");
+    }
+
+    const defaultCategory = defaultCategoryId
+      ? (categoriesData || []).find((category) => category.id === defaultCategoryId)
+      : undefined;
+    if (defaultCategoryId && !defaultCategory) {
+      throw new Error("CATEGORY_MISMATCH");
+    }
+
+    if (defaultCategory?.is_archived) {
+      throw new Error("CATEGORY_ARCHIVED");
+    }
+
+    // Names of archived categories are not matched, so their rows are reported as without a known category
+    const categories = (categoriesData || []).filter((category) => !category.is_archived);
+
+    // The paying member, if given, must be an active member of the household
+    if (householdMemberId) {
+      await this.validateHouseholdMembers(householdId, [householdMemberId]);
+    }
+
+    const existingExternalIds = await this.getExistingExternalIds(
+      householdId,
+      drafts.flatMap((draft) => (draft.externalId ? [draft.externalId] : []))
+    );
+
+    const existingTransactions = allowDuplicates
+      ? []
+      : await this.getDuplicateCandidates(
+          householdId,
+          drafts.flatMap((draft) => (draft.transactionDate ? [draft.transactionDate] : [])),
+          "TRANSACTION_IMPORT_FAILED"
+        );
+
+    const categorizedDrafts = await createCategorizationService(this.supabase).categorizeDrafts(
+      householdId,
+      drafts,
+      "TRANSACTION_IMPORT_FAILED"
+    );
+
+    const rows = resolveImportDrafts(categorizedDrafts, {
+      categories,
+      defaultCategoryId: defaultCategoryId ?? undefined,
+      householdMemberId: householdMemberId ?? undefined,
+      existingExternalIds,
+      existingTransactions,
+      allowDuplicates,
+    });
+    const transactionsToImport = rows.flatMap((row) =>
+      row.status === "valid" && row.transaction ? [row.transaction] : []
+    );
+    const invalidCount = rows.filter((row) => row.status === "invalid").length;
+
+    const result: TransactionsImportDto = {
+      dryRun,
+      totalRows: rows.length,
+      validCount: transactionsToImport.length,
+      invalidCount,
+      skippedCount: rows.length - transactionsToImport.length - invalidCount,
+      importedCount: 0,
+      rows,
+    };
+
+    if (dryRun) {
+      return result;
+    }
+
+    if (invalidCount > 0) {
+      throw new Error("IMPORT_HAS_INVALID_ROWS");
+    }
+
+    if (transactionsToImport.length === 0) {
+      return result;
+    }
+
+    // All rows are inserted in a single statement, so either the whole import succeeds or nothing is saved
+    const { error: insertError } = await this.supabase.from("transactions").insert(
+      transactionsToImport.map((transaction) => ({
+        household_id: householdId,
+        budget_id: budgetId,
+        category_id: transaction.categoryId as string,
+        household_member_id: transaction.householdMemberId ?? null,
+        amount: transaction.amount,
+        transaction_date: transaction.transactionDate,
+        note: transaction.note || null,
+        external_id: transaction.externalId ?? null,
+      }))
+    );
+
+    if (insertError) {
+      console.error("Database error while importing transactions:", insertError);
+      throw new Error("TRANSACTION_IMPORT_FAILED");
+    }
+
+    return { ...result, importedCount: transactionsToImport.length };
+  }
+
+  /**
+   * Returns the bank references from the given list that are already stored in the household's transactions.
+   *
+   * @param householdId - The household ID for security filtering
+   * @param externalIds - Bank references of the imported entries
+   * @returns Promise resolving to the set of references that already exist
+   */
+  private async getExistingExternalIds(householdId: string, externalIds: string[]): Promise<Set<string>> {
+    if (externalIds.length === 0) {
+      return new Set();
+    }
+
+    const { data, error } = await this.supabase
+      .from("transactions")
+      .select("external_id")
+      .eq("household_id", householdId)
+      .in("external_id", Array.from(new Set(externalIds)));
+
+    if (error) {
+      console.error("Database error while fetching external IDs:", error);
+      throw new Error("TRANSACTION_IMPORT_FAILED");
+    }
+
+    return new Set((data || []).flatMap((transaction) => (transaction.external_id ? [transaction.external_id] : [])));
+  }
+
+  /**
+   * Returns the household's transactions dated close enough to the given dates to be their duplicates.
+   *
+   * @param householdId - The household ID for security filtering
+   * @param dates - Dates of the new transactions in YYYY-MM-DD format
+   * @param failureCode - Error code thrown when the query fails, specific to the calling operation
+   * @returns Promise resolving to the transactions compared by the duplicate detector
+   */
+  private async getDuplicateCandidates(
+    householdId: string,
+    dates: string[],
+    failureCode: string
+  ): Promise<DuplicateCandidate[]> {
+    const dateRange = getDuplicateDateRange(dates);
+    if (!dateRange) {
+      return [];
+    }
+
+    const { data, error } = await this.supabase
+      .from("transactions")
+      .select("category_id, kind, amount, transaction_date, note")
+      .eq("household_id", householdId)
+      .gte("transaction_date", dateRange.fromDate)
+      .lte("transaction_date", dateRange.toDate);
+
+    if (error) {
+      console.error("Database error while fetching transactions for duplicate detection:", error);
+      throw new Error(failureCode);
+    }
+
+    return (data || []).map((transaction) => ({
+      categoryId: transaction.category_id,
+      kind: transaction.kind as TransactionKind,
+      amount: Number(transaction.amount),
+      transactionDate: transaction.transaction_date,
+      note: transaction.note,
+    }));
+  }
+
+  /**
+   * Verifies that a refund can be linked to the given transaction: it must be an expense of the household
+   * and its refunds, including the new one, cannot return more than the expense amount.
+   *
+   * @param householdId - The household ID for security filtering
+   * @param refundedTransactionId - The ID of the expense the refund returns money for
+   * @param amount - Amount of the new refund
+   * @param failureCode - Error code thrown when a query fails, specific to the calling operation
+   * @returns Promise resolving to the category of the refunded expense
+   * @throws Error INVALID_REFUNDED_TRANSACTION if the transaction is not an expense of the household,
+   * REFUND_EXCEEDS_EXPENSE if the refunds would exceed the expense amount
+   */
+  private async getRefundedTransactionCategory(
+    householdId: string,
+    refundedTransactionId: string,
+    amount: number,
+    failureCode: string
+  ): Promise<string> {
+    const [refundedResult, refundsResult] = await Promise.all([
+      this.supabase
+        .from("transactions")
+        .select("id, kind, amount, category_id")
+        .eq("id", refundedTransactionId)
+        .eq("household_id", householdId)
+        .single(),
+      this.supabase
+        .from("transactions")
+        .select("amount")
+        .eq("household_id", householdId)
+        .eq("refunded_transaction_id", refundedTransactionId),
+    ]);
+
+    const { data: refundedData, error: refundedError } = refundedResult;
+    if (refundedError) {
+      if (refundedError.code === "PGRST116") {
+        throw new Error("INVALID_REFUNDED_TRANSACTION");
+      }
+      console.error("Database error while fetching refunded transaction:", refundedError);
+      throw new Error(failureCode);
+    }
+
+    if (!refundedData || refundedData.kind !== "expense") {
+      throw new Error("INVALID_REFUNDED_TRANSACTION");
+    }
+
+    const { data: refundsData, error: refundsError } = refundsResult;
+    if (refundsError) {
+      console.error("Database error while fetching refunds of transaction:", refundsError);
+      throw new Error(failureCode);
+    }
+
+    const refundedAmount = (refundsData || []).reduce((sum, refund) => sum + Number(refund.amount), amount);
+    if (Math.round(refundedAmount * 100) > Math.round(Number(refundedData.amount) * 100)) {
+      throw new Error("REFUND_EXCEEDS_EXPENSE");
+    }
+
+    return refundedData.category_id;
+  }
+
+  /**
+   * Lists pairs of suspected duplicate transactions within a specific budget: the same category and amount,
+   * dates a few days apart and similar notes. Pairs dismissed by the user are left out.
+   *
+   * @param userId - The authenticated user's ID
+   * @param budgetId - The ID of the budget to search for duplicates
+   * @returns Promise resolving to the suspected pairs, the earlier transaction first
+   * @throws Error if household not found, budget not found, or database error occurs
+   */
+  async listBudgetTransactionDuplicates(
+    userId: string,
+    budgetId: string
+  ): Promise<TransactionDuplicatesListResponseDto> {
+    const householdId = await this.getBudgetHouseholdId(userId, budgetId, "TRANSACTION_DUPLICATES_LIST_FAILED");
+
+    const [transactionsResult, dismissalsResult] = await Promise.all([
+      this.supabase
+        .from("transactions")
+        .select(
+          "id, household_id, budget_id, category_id, household_member_id, kind, amount, transaction_date, note, external_id, refunded_transaction_id, created_at, updated_at, transaction_splits(id, category_id, amount)"
+        )
+        .eq("household_id", householdId)
+        .eq("budget_id", budgetId)
+        .order("created_at", { ascending: true }),
+      this.supabase
+        .from("transaction_duplicate_dismissals")
+        .select("transaction_id, duplicate_transaction_id")
+        .eq("household_id", householdId),
+    ]);
+
+    if (transactionsResult.error || dismissalsResult.error) {
+      console.error(
+        "Database error while fetching transactions for duplicates:",
+        transactionsResult.error ?? dismissalsResult.error
+      );
+      throw new Error("TRANSACTION_DUPLICATES_LIST_FAILED");
+    }
+
+    const dismissedPairs = new Set(
+      (dismissalsResult.data || []).map((dismissal) =>
+        this.getDuplicatePairKey(dismissal.transaction_id, dismissal.duplicate_transaction_id)
+      )
+    );
+
+    const transactions = (transactionsResult.data || []).map(this.mapTransactionToDto);
+    const pairs = findDuplicatePairs(transactions).filter(
+      (pair) => !dismissedPairs.has(this.getDuplicatePairKey(pair.transaction.id, pair.duplicate.id))
+    );
+
+    return { data: pairs };
+  }
+
+  /**
+   * Marks a pair of suspected duplicates within a specific budget as separate transactions,
+   * so that it is no longer listed. Dismissing the same pair again has no effect.
+   *
+   * @param userId - The authenticated user's ID
+   * @param budgetId - The ID of the budget the transactions belong to
+   * @param command - IDs of both transactions of the pair
+   * @throws Error if household not found, budget not found, transaction not found, or database error occurs
+   */
+  async dismissBudgetTransactionDuplicate(
+    userId: string,
+    budgetId: string,
+    command: DismissTransactionDuplicateCommand
+  ): Promise<void> {
+    const householdId = await this.getBudgetHouseholdId(userId, budgetId, "TRANSACTION_DUPLICATE_DISMISS_FAILED");
+    const transactionIds = [command.transactionId, command.duplicateTransactionId];
+
+    const { data: transactionsData, error: transactionsError } = await this.supabase
+      .from("transactions")
+      .select("id")
+      .eq("household_id", householdId)
+      .eq("budget_id", budgetId)
+      .in("id", transactionIds);
+
+    if (transactionsError) {
+      console.error("Database error while fetching transactions to dismiss:", transactionsError);
+      throw new Error("TRANSACTION_DUPLICATE_DISMISS_FAILED");
+    }
+
+    if (!transactionsData || transactionsData.length !== transactionIds.length) {
+      throw new Error("TRANSACTION_NOT_FOUND");
+    }
+
+    // Pairs are stored with the smaller ID first, so each pair has a single row
+    const [transactionId, duplicateTransactionId] = [...transactionIds].sort();
+    const { error: insertError } = await this.supabase.from("transaction_duplicate_dismissals").insert({
+      household_id: householdId,
+      transaction_id: transactionId,
+      duplicate_transaction_id: duplicateTransactionId,
+    });
+
+    // The pair has already been dismissed
+    if (insertError?.code === "23505") {
+      return;
+    }
+
+    if (insertError) {
+      console.error("Database error while dismissing duplicate:", insertError);
+      throw new Error("TRANSACTION_DUPLICATE_DISMISS_FAILED");
+    }
+  }
+
+  /**
+   * Returns the household ID of the user after checking that the budget belongs to the household.
+   *
+   * @param userId - The authenticated user's ID
+   * @param budgetId - The budget ID to verify
+   * @param failureCode - Error code thrown when a query fails, specific to the calling operation
+   * @returns Promise resolving to the household ID
+   * @throws Error if household not found, budget not found, or database error occurs
+   */
+  private async getBudgetHouseholdId(userId: string, budgetId: string, failureCode: string): Promise<string> {
+    const { data: householdData, error: householdError } = await this.supabase
+      .from("households")
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
+      .single();
+
+    if (householdError) {
+      if (householdError.code === "PGRST116") {
+        throw new Error("HOUSEHOLD_NOT_FOUND");
+      }
+      console.error("Database error while fetching household:", householdError);
+      throw new Error(failureCode);
+    }
+
+    if (!householdData) {
+      throw new Error("HOUSEHOLD_NOT_FOUND");
+    }
+
+    const { data: budgetData, error: budgetError } = await this.supabase
+      .from("budgets")
+      .select("id")
+      .eq("id", budgetId)
+      .eq("household_id", householdData.id)
+      .single();
+
+    if (budgetError) {
+      if (budgetError.code === "PGRST116") {
+        throw new Error("BUDGET_NOT_FOUND");
+      }
+      console.error("Database error while fetching budget:", budgetError);
+      throw new Error(failureCode);
+    }
+
+    if (!budgetData) {
+      throw new Error("BUDGET_NOT_FOUND");
+    }
+
+    return householdData.id;
+  }
+
+  /**
+   * Builds a key identifying a pair of transactions regardless of their order.
+   */
+  private getDuplicatePairKey(firstId: string, secondId: string): string {
+    return [firstId, secondId].sort().join(":");
+  }
+
   /**
    * Retrieves the current dashboard summary for the authenticated user's household.
    * Selects the budget for the current month (YYYY-MM-01) or the latest previous budget if current doesn't exist.
-   * Includes financial totals and per-category breakdown with spending status.
+   * Includes financial totals and per-category breakdown with spending status,
+   * both with a forecast of the spending at the end of the month.
    *
    * @param userId - The ID of the user whose dashboard to retrieve
    * @returns Promise resolving to dashboard summary DTO
@@ -2065,8 +3331,8 @@ export class BudgetsService {
     // First, get the household_id for the user
     const { data: householdData, error: householdError } = await this.supabase
       .from("households")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
       .single();
 
     if (householdError) {
@@ -2109,18 +3375,23 @@ export class BudgetsService {
 
     const budgetId = budgetData.id;
     const budgetMonth = budgetData.month;
+    const forecastPeriod = getForecastPeriod(budgetMonth, new Date());
 
     try {
       // Fetch all related data in parallel
-      const [incomesData, plannedExpensesData, transactionsData] = await Promise.all([
-        this.getBudgetIncomes(budgetId, householdId, false), // Only active members
-        this.getBudgetPlannedExpenses(budgetId, householdId),
-        this.getBudgetTransactions(budgetId, householdId),
-      ]);
+      const [incomesData, plannedExpensesData, transactionsData, parentById, upcomingRecurringByCategory] =
+        await Promise.all([
+          this.getBudgetIncomes(budgetId, householdId, false), // Only active members
+          this.getBudgetPlannedExpenses(budgetId, householdId),
+          this.getBudgetTransactions(budgetId, householdId),
+          this.getCategoryParents(householdId),
+          this.getUpcomingRecurringByCategory(householdId, budgetMonth, forecastPeriod),
+        ]);
 
       // Calculate summary totals
       const totalIncome = incomesData.reduce((sum, income) => sum + income.amount, 0);
-      const totalPlanned = plannedExpensesData.reduce((sum, expense) => sum + expense.limitAmount, 0);
+      // Parent limits cover their subcategories, so nested limits are not counted twice
+      const totalPlanned = sumPlannedLimits(plannedExpensesData, parentById);
       const totalSpent = transactionsData.reduce((sum, transaction) => sum + transaction.amount, 0);
       const freeFunds = totalIncome - totalPlanned;
 
@@ -2128,7 +3399,24 @@ export class BudgetsService {
       const progress = totalIncome > 0 ? totalSpent / totalIncome : 0;
 
       // Calculate per-category summaries
-      const categories = await this.calculateCategorySummaries(plannedExpensesData, transactionsData, householdId);
+      const categories = await this.calculateCategorySummaries(
+        plannedExpensesData,
+        transactionsData,
+        householdId,
+        budgetMonth,
+        parentById
+      );
+
+      // Project the end-of-month spending, overall and per category
+      const forecasts = this.calculateSpendingForecasts(
+        categories,
+        transactionsData,
+        totalSpent,
+        upcomingRecurringByCategory,
+        parentById,
+        budgetMonth,
+        forecastPeriod
+      );
 
       return {
         currentBudgetId: budgetId,
@@ -2138,7 +3426,8 @@ export class BudgetsService {
         totalSpent,
         freeFunds,
         progress,
-        categories,
+        forecast: forecasts.forecast,
+        categories: forecasts.categories,
       };
     } catch (error) {
       console.error("Error fetching dashboard summary data:", error);
@@ -2146,6 +3435,146 @@ export class BudgetsService {
     }
   }
 
+  /**
+   * Sums the recurring payments of a budget month that are not booked as transactions yet, per category.
+   * Occurrences already due but not materialized are included; a finished month expects no more payments.
+   *
+   * @param householdId - The household ID for security filtering
+   * @param budgetMonth - The month of the budget (YYYY-MM-01)
+   * @param period - Elapsed days of the budget month
+   * @returns Promise resolving to a Map of category ID to the amount still due
+   */
+  private async getUpcomingRecurringByCategory(
+    householdId: string,
+    budgetMonth: string,
+    period: ForecastPeriod
+  ): Promise<Map<string, number>> {
+    const upcomingByCategory = new Map<string, number>();
+
+    if (period.daysElapsed === period.daysInMonth) {
+      return upcomingByCategory;
+    }
+
+    const monthEnd = `${budgetMonth.slice(0, 7)}-${String(period.daysInMonth).padStart(2, "0")}`;
+
+    const { data, error } = await this.supabase
+      .from("recurring_transactions")
+      .select("category_id, amount, frequency, interval_days, start_date, end_date, next_run_date")
+      .eq("household_id", householdId)
+      .eq("is_active", true)
+      .lte("next_run_date", monthEnd);
+
+    if (error) {
+      console.error("Database error while fetching recurring transactions:", error);
+      throw new Error("BUDGET_FETCH_FAILED");
+    }
+
+    (data || []).forEach((rule) => {
+      // The cursor points at the first occurrence that is not booked yet
+      const from = rule.next_run_date > budgetMonth ? rule.next_run_date : budgetMonth;
+      const occurrences = listOccurrencesBetween(
+        {
+          frequency: rule.frequency as RecurringTransactionFrequency,
+          intervalDays: rule.interval_days,
+          startDate: rule.start_date,
+          endDate: rule.end_date,
+        },
+        from,
+        monthEnd
+      );
+
+      if (occurrences.length > 0) {
+        const currentAmount = upcomingByCategory.get(rule.category_id) || 0;
+        upcomingByCategory.set(rule.category_id, currentAmount + occurrences.length * Number(rule.amount));
+      }
+    });
+
+    return upcomingByCategory;
+  }
+
+  /**
+   * Projects the end-of-month spending of a budget, overall and for every category summary.
+   * Variable costs are extrapolated from their daily rate, while fixed costs and savings are usually paid at once,
+   * so the unpaid part of their limits is expected as a planned outflow instead.
+   * Recurring payments are known outflows: booked ones count as spending and the rest of the month as upcoming.
+   *
+   * @param categories - Category summaries of the budget
+   * @param transactions - Transaction lines of the budget
+   * @param totalSpent - Spending of the whole budget
+   * @param upcomingRecurringByCategory - Recurring payments still due, per category
+   * @param parentById - Parent of every category of the household, null for top-level ones
+   * @param budgetMonth - The month of the budget (YYYY-MM-01)
+   * @param period - Elapsed days of the budget month
+   * @returns The overall forecast and the category summaries with their forecasts
+   */
+  private calculateSpendingForecasts(
+    categories: BudgetCategorySummaryDto[],
+    transactions: BudgetTransactionLine[],
+    totalSpent: number,
+    upcomingRecurringByCategory: ReadonlyMap<string, number>,
+    parentById: ReadonlyMap<string, string | null>,
+    budgetMonth: string,
+    period: ForecastPeriod
+  ): { forecast: SpendingForecastDto; categories: DashboardCategorySummaryDto[] } {
+    const summariesById = new Map(categories.map((summary) => [summary.categoryId, summary]));
+    const upcomingByCategory = rollUpCategoryAmounts(upcomingRecurringByCategory, parentById);
+
+    // Unplanned categories count as variable costs; subcategories without a summary follow their parent
+    const isVariable = (categoryId: string) => {
+      const summary = summariesById.get(categoryId) ?? summariesById.get(parentById.get(categoryId) ?? "");
+      return !summary || summary.group === "variable";
+    };
+    const dailyRateLines = transactions
+      .filter((line) => line.recurringTransactionId === null && isVariable(line.categoryId))
+      .map((line) => ({ categoryId: line.categoryId, date: line.transactionDate, amount: line.amount }));
+    const getPlannedOutflow = (summary: BudgetCategorySummaryDto) =>
+      summary.group === "variable"
+        ? 0
+        : Math.max(0, summary.limitAmount - summary.spent - (upcomingByCategory.get(summary.categoryId) ?? 0));
+
+    const categoriesWithForecast = categories.map((summary) => {
+      const lines =
+        summary.group === "variable"
+          ? dailyRateLines.filter(
+              (line) => line.categoryId === summary.categoryId || parentById.get(line.categoryId) === summary.categoryId
+            )
+          : [];
+
+      return {
+        ...summary,
+        forecast: forecastSpending(
+          {
+            spent: summary.spent,
+            upcomingRecurring: upcomingByCategory.get(summary.categoryId) ?? 0,
+            plannedOutflow: getPlannedOutflow(summary),
+            dailyAmounts: buildDailyAmounts(lines, budgetMonth, period.daysElapsed),
+          },
+          period
+        ),
+      };
+    });
+
+    // Planned outflows of subcategories are already covered by a fixed or savings parent
+    const plannedOutflow = categories
+      .filter((summary) => {
+        const parent = summary.parentId ? summariesById.get(summary.parentId) : undefined;
+        return !parent || parent.group === "variable";
+      })
+      .reduce((sum, summary) => sum + getPlannedOutflow(summary), 0);
+
+    const forecast = forecastSpending(
+      {
+        spent: totalSpent,
+        upcomingRecurring: Array.from(upcomingRecurringByCategory.values()).reduce((sum, amount) => sum + amount, 0),
+        plannedOutflow,
+        dailyAmounts: buildDailyAmounts(dailyRateLines, budgetMonth, period.daysElapsed),
+      },
+      period
+    );
+
+    return { forecast, categories: categoriesWithForecast };
+  }
+
   /**
    * Maps a database income record to BudgetIncomeDto.
    *
@@ -2173,6 +3602,7 @@ export class BudgetsService {
       id: plannedExpense.id as string,
       categoryId: plannedExpense.category_id as string,
       limitAmount: plannedExpense.limit_amount as number,
+      rolloverMode: plannedExpense.rollover_mode as PlannedExpenseRolloverMode,
       createdAt: plannedExpense.created_at as string,
       updatedAt: plannedExpense.updated_at as string,
     };
@@ -2199,8 +3629,8 @@ export class BudgetsService {
     // First, get the household_id for the user
     const { data: householdData, error: householdError } = await this.supabase
       .from("households")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
       .single();
 
     if (householdError) {
@@ -2239,15 +3669,17 @@ export class BudgetsService {
 
     try {
       // Fetch all related data in parallel
-      const [incomesData, plannedExpensesData, transactionsData] = await Promise.all([
+      const [incomesData, plannedExpensesData, transactionsData, parentById] = await Promise.all([
         this.getBudgetIncomes(budgetId, householdId, false), // Only active members
         this.getBudgetPlannedExpenses(budgetId, householdId),
         this.getBudgetTransactions(budgetId, householdId),
+        this.getCategoryParents(householdId),
       ]);
 
       // Calculate summary totals
       const totalIncome = incomesData.reduce((sum, income) => sum + income.amount, 0);
-      const totalPlanned = plannedExpensesData.reduce((sum, expense) => sum + expense.limitAmount, 0);
+      // Parent limits cover their subcategories, so nested limits are not counted twice
+      const totalPlanned = sumPlannedLimits(plannedExpensesData, parentById);
       const totalSpent = transactionsData.reduce((sum, transaction) => sum + transaction.amount, 0);
       const freeFunds = totalIncome - totalPlanned;
 
@@ -2261,11 +3693,18 @@ export class BudgetsService {
         totalSpent,
         freeFunds,
         progress,
+        ...(await this.calculateMemberSpending(transactionsData, householdId)),
       };
 
       // Add per-category summaries if requested
       if (includeCategories) {
-        const perCategory = await this.calculateCategorySummaries(plannedExpensesData, transactionsData, householdId);
+        const perCategory = await this.calculateCategorySummaries(
+          plannedExpensesData,
+          transactionsData,
+          householdId,
+          budgetData.month,
+          parentById
+        );
         summary = {
           ...summary,
           perCategory,
@@ -2289,6 +3728,274 @@ export class BudgetsService {
     }
   }
 
+  /**
+   * Gathers the data of the monthly budget report: the budget detail with its note and incomes,
+   * the per-category summary with spending statuses and the full transaction list.
+   *
+   * @param userId - The ID of the user whose budget to report on
+   * @param budgetId - The ID of the budget to report on
+   * @returns Promise resolving to the report data
+   * @throws Error if household not found, budget not found, or database error occurs
+   */
+  async getBudgetReportData(userId: string, budgetId: string): Promise<BudgetReportData> {
+    const [detail, summaryResponse] = await Promise.all([
+      this.getBudgetDetail(userId, budgetId, { includeInactiveMembers: true }),
+      this.getBudgetSummary(userId, budgetId),
+    ]);
+    const householdId = await this.getBudgetHouseholdId(userId, budgetId, "BUDGET_FETCH_FAILED");
+
+    const [transactionsResult, categoriesResult, membersResult] = await Promise.all([
+      this.supabase
+        .from("transactions")
+        .select(
+          "category_id, household_member_id, kind, amount, transaction_date, note, transaction_splits(category_id)"
+        )
+        .eq("budget_id", budgetId)
+        .eq("household_id", householdId)
+        .order("transaction_date", { ascending: true })
+        .order("created_at", { ascending: true }),
+      this.supabase.from("categories").select("id, name").eq("household_id", householdId),
+      this.supabase.from("household_members").select("id, full_name").eq("household_id", householdId),
+    ]);
+
+    const failedResult = [transactionsResult, categoriesResult, membersResult].find((result) => result.error);
+    if (failedResult?.error) {
+      console.error("Database error while fetching budget report data:", failedResult.error);
+      throw new Error("BUDGET_FETCH_FAILED");
+    }
+
+    const categoryNames = new Map((categoriesResult.data || []).map((category) => [category.id, category.name]));
+    const memberNames = new Map((membersResult.data || []).map((member) => [member.id, member.full_name]));
+
+    // Subcategories follow their parent, in the order of the summary
+    const perCategory = summaryResponse.summary.perCategory ?? [];
+    const orderedCategories = perCategory
+      .filter(
+        (category) => !category.parentId || !perCategory.some((parent) => parent.categoryId === category.parentId)
+      )
+      .flatMap((category) => [category, ...perCategory.filter((child) => child.parentId === category.categoryId)]);
+
+    return {
+      month: detail.month,
+      note: detail.note,
+      generatedAt: new Date(),
+      totals: {
+        totalIncome: detail.summary.totalIncome,
+        totalPlanned: detail.summary.totalPlanned,
+        totalSpent: summaryResponse.summary.totalSpent,
+        freeFunds: detail.summary.freeFunds,
+      },
+      incomes: detail.incomes.map((income) => ({
+        memberName: memberNames.get(income.householdMemberId) ?? "",
+        amount: income.amount,
+      })),
+      categories: orderedCategories.map((category) => ({
+        name: category.name,
+        isSubcategory:
+          category.parentId !== null && orderedCategories.some((item) => item.categoryId === category.parentId),
+        limit: category.effectiveLimit,
+        spent: category.spent,
+        progress: category.progress,
+        status: category.status,
+      })),
+      transactions: (transactionsResult.data || []).map((transaction) => ({
+        date: transaction.transaction_date,
+        // Split transactions are listed with all categories they are booked against
+        categoryName:
+          transaction.transaction_splits.length > 0
+            ? transaction.transaction_splits.map((split) => categoryNames.get(split.category_id) ?? "").join(", ")
+            : (categoryNames.get(transaction.category_id) ?? ""),
+        memberName: transaction.household_member_id ? (memberNames.get(transaction.household_member_id) ?? null) : null,
+        note: transaction.note,
+        amount: getSignedAmount(transaction.kind as TransactionKind, transaction.amount),
+      })),
+    };
+  }
+
+  /**
+   * Calculates who owes whom in a budget so that spending is shared between household members according to a rule.
+   * All active members take part in the settlement, and so do inactive members with income or payments in the budget;
+   * with the custom rule also every weighted member does. Members without a weight get a zero share under the custom
+   * rule.
+   * Spending not attributed to any member is left out of the settlement and returned separately.
+   *
+   * @param userId - The ID of the user whose budget settlement to calculate
+   * @param budgetId - The ID of the budget to settle
+   * @param options - Split rule and custom weights
+   * @returns Promise resolving to per-member balances and the transfers evening them out
+   * @throws Error if household not found, budget not found, weighted member is invalid, or database error occurs
+   */
+  async getBudgetSettlement(
+    userId: string,
+    budgetId: string,
+    options: GetBudgetSettlementOptions = {}
+  ): Promise<BudgetSettlementDto> {
+    const { rule = "equal", weights = [] } = options;
+
+    // First, get the household_id for the user
+    const { data: householdData, error: householdError } = await this.supabase
+      .from("households")
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
+      .single();
+
+    if (householdError) {
+      if (householdError.code === "PGRST116") {
+        throw new Error("BUDGET_NOT_FOUND"); // Hide household existence from API response
+      }
+      console.error("Database error while fetching household:", householdError);
+      throw new Error("SETTLEMENT_FETCH_FAILED");
+    }
+
+    if (!householdData) {
+      throw new Error("BUDGET_NOT_FOUND");
+    }
+
+    const householdId = householdData.id;
+
+    // Verify that the budget exists and belongs to the user's household
+    const { data: budgetData, error: budgetError } = await this.supabase
+      .from("budgets")
+      .select("id, month")
+      .eq("id", budgetId)
+      .eq("household_id", householdId)
+      .single();
+
+    if (budgetError) {
+      if (budgetError.code === "PGRST116") {
+        throw new Error("BUDGET_NOT_FOUND");
+      }
+      console.error("Database error while fetching budget:", budgetError);
+      throw new Error("SETTLEMENT_FETCH_FAILED");
+    }
+
+    if (!budgetData) {
+      throw new Error("BUDGET_NOT_FOUND");
+    }
+
+    const weightsByMember = new Map(
+      rule === "custom" ? weights.map((entry) => [entry.householdMemberId, entry.weight]) : []
+    );
+    if (weightsByMember.size > 0) {
+      // Inactive members may still be weighted - they can take part in settling a past month
+      const { data: weightedMembers, error: weightedMembersError } = await this.supabase
+        .from("household_members")
+        .select("id")
+        .eq("household_id", householdId)
+        .in("id", Array.from(weightsByMember.keys()));
+
+      if (weightedMembersError) {
+        console.error("Database error while validating weighted members:", weightedMembersError);
+        throw new Error("SETTLEMENT_FETCH_FAILED");
+      }
+
+      if (!weightedMembers || weightedMembers.length !== weightsByMember.size) {
+        throw new Error("INVALID_MEMBER");
+      }
+    }
+
+    let incomesData: BudgetIncomeDto[];
+    let transactionsData: BudgetTransactionLine[];
+    try {
+      // Inactive members are included - they may have earned or paid before being deactivated
+      [incomesData, transactionsData] = await Promise.all([
+        this.getBudgetIncomes(budgetId, householdId, true),
+        this.getBudgetTransactions(budgetId, householdId),
+      ]);
+    } catch (error) {
+      console.error(`Error fetching budget settlement data for user ${userId}, budget ${budgetId}:`, error);
+      throw new Error("SETTLEMENT_FETCH_FAILED");
+    }
+
+    const incomeByMember = new Map<string, number>();
+    incomesData.forEach((income) => {
+      const currentAmount = incomeByMember.get(income.householdMemberId) || 0;
+      incomeByMember.set(income.householdMemberId, currentAmount + income.amount);
+    });
+
+    const paidByMember = new Map<string, number>();
+    let unassignedSpent = 0;
+    transactionsData.forEach((transaction) => {
+      if (transaction.householdMemberId) {
+        const currentAmount = paidByMember.get(transaction.householdMemberId) || 0;
+        paidByMember.set(transaction.householdMemberId, currentAmount + transaction.amount);
+      } else {
+        unassignedSpent += transaction.amount;
+      }
+    });
+
+    // Every active member shares the spending, even without income or payments in the budget;
+    // inactive members take part only when they earned, paid or are weighted
+    const { data: membersData, error: membersError } = await this.supabase
+      .from("household_members")
+      .select("id, full_name, is_active")
+      .eq("household_id", householdId);
+
+    if (membersError) {
+      console.error("Database error while fetching household members:", membersError);
+      throw new Error("SETTLEMENT_FETCH_FAILED");
+    }
+
+    const participantIds = new Set([
+      ...(membersData || []).filter((member) => member.is_active).map((member) => member.id),
+      ...incomeByMember.keys(),
+      ...paidByMember.keys(),
+      ...weightsByMember.keys(),
+    ]);
+
+    if (participantIds.size === 0) {
+      return {
+        budgetId: budgetData.id,
+        month: budgetData.month,
+        rule,
+        totalPaid: 0,
+        unassignedSpent,
+        members: [],
+        transfers: [],
+      };
+    }
+
+    const membersMap = new Map((membersData || []).map((member) => [member.id, member.full_name]));
+
+    const participants: SettlementParticipant[] = Array.from(participantIds).map((memberId) => ({
+      memberId,
+      income: incomeByMember.get(memberId) ?? 0,
+      paid: paidByMember.get(memberId) ?? 0,
+      weight: weightsByMember.get(memberId) ?? 0,
+    }));
+
+    const balances = calculateSettlementBalances(participants, rule);
+    const getMemberName = (memberId: string) => membersMap.get(memberId) ?? "Unknown Member";
+
+    const members: BudgetSettlementMemberDto[] = balances
+      .map((entry, index) => ({
+        householdMemberId: entry.memberId,
+        fullName: getMemberName(entry.memberId),
+        income: participants[index].income,
+        paid: participants[index].paid,
+        share: entry.share,
+        owed: entry.owed,
+        balance: entry.balance,
+      }))
+      .sort((a, b) => b.balance - a.balance);
+
+    return {
+      budgetId: budgetData.id,
+      month: budgetData.month,
+      rule,
+      totalPaid: participants.reduce((sum, participant) => sum + participant.paid, 0),
+      unassignedSpent,
+      members,
+      transfers: calculateSettlementTransfers(balances).map((transfer) => ({
+        fromMemberId: transfer.fromMemberId,
+        fromName: getMemberName(transfer.fromMemberId),
+        toMemberId: transfer.toMemberId,
+        toName: getMemberName(transfer.toMemberId),
+        amount: transfer.amount,
+      })),
+    };
+  }
+
   /**
    * Maps a database transaction record to TransactionDto.
    *
@@ -2301,9 +4008,18 @@ export class BudgetsService {
       householdId: transaction.household_id as string,
       budgetId: transaction.budget_id as string,
       categoryId: transaction.category_id as string,
+      householdMemberId: transaction.household_member_id as string | null,
+      kind: (transaction.kind as TransactionKind | undefined) ?? "expense",
       amount: Number(transaction.amount),
       transactionDate: transaction.transaction_date as string,
       note: transaction.note as string | null,
+      externalId: (transaction.external_id as string | null | undefined) ?? null,
+      refundedTransactionId: (transaction.refunded_transaction_id as string | null | undefined) ?? null,
+      splits: ((transaction.transaction_splits as Record<string, unknown>[] | undefined) ?? []).map((split) => ({
+        id: split.id as string,
+        categoryId: split.category_id as string,
+        amount: Number(split.amount),
+      })),
       createdAt: transaction.created_at as string,
       updatedAt: transaction.updated_at as string,
     };
@@ -1,4 +1,6 @@
+import type { Tables, TablesUpdate } from "../../db/database.types";
 import type { SupabaseClient } from "../../db/supabase.client";
+import { validateCategoryParent } from "../category-tree";
 import type {
   CategoryDto,
   PaginationMetaDto,
@@ -6,15 +8,26 @@ import type {
   CreateCategoryCommand,
   UpdateCategoryCommand,
   DeleteCategoryCommand,
+  CategoryDependenciesDto,
+  MergeCategoryCommand,
+  CategoryMergedDto,
+  CategoryGroup,
+  ReorderCategoriesCommand,
 } from "../../types";
 
 export type SupabaseClientType = SupabaseClient;
 
+type CategoryRecord = Omit<Tables<"categories">, "household_id">;
+
+const CATEGORY_COLUMNS =
+  "id, name, parent_id, is_archived, color, icon, sort_order, cost_group, warning_threshold, over_threshold, pace_alert_day, pace_alert_percent, created_at, updated_at";
+
 export interface ListCategoriesOptions {
   search?: string;
   page?: number;
   pageSize?: number;
-  sort?: "name" | "createdAt";
+  sort?: "name" | "createdAt" | "sortOrder";
+  includeArchived?: boolean;
 }
 
 /**
@@ -25,6 +38,7 @@ export class CategoriesService {
 
   /**
    * Lists categories for the specified user with pagination, filtering, and sorting.
+   * Archived categories are left out unless includeArchived is set.
    *
    * @param userId - The ID of the user whose categories to retrieve
    * @param options - Options for filtering, pagination, and sorting
@@ -32,13 +46,13 @@ export class CategoriesService {
    * @throws Error if household not found or database error occurs
    */
   async listCategories(userId: string, options: ListCategoriesOptions = {}): Promise<CategoriesListResponseDto> {
-    const { search, page = 1, pageSize = 20, sort = "name" } = options;
+    const { search, page = 1, pageSize = 20, sort = "name", includeArchived = false } = options;
 
     // First, get the household_id for the user
     const { data: householdData, error: householdError } = await this.supabase
       .from("households")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
       .single();
 
     if (householdError) {
@@ -66,9 +80,13 @@ export class CategoriesService {
     // count: 'estimated' or head: true for better performance.
     let query = this.supabase
       .from("categories")
-      .select("id, name, created_at, updated_at", { count: "exact" })
+      .select(CATEGORY_COLUMNS, { count: "exact" })
       .eq("household_id", householdId);
 
+    if (!includeArchived) {
+      query = query.eq("is_archived", false);
+    }
+
     // Apply search filter if provided
     if (search && search.trim().length > 0) {
       // Sanitize search term by escaping % and _ characters
@@ -83,6 +101,8 @@ export class CategoriesService {
       query = query.order("name", { ascending: true });
     } else if (sort === "createdAt") {
       query = query.order("created_at", { ascending: true });
+    } else if (sort === "sortOrder") {
+      query = query.order("sort_order", { ascending: true }).order("name", { ascending: true });
     }
 
     // Apply pagination
@@ -97,12 +117,7 @@ export class CategoriesService {
     }
 
     // Map database rows to DTOs
-    const categories: CategoryDto[] = (categoriesData || []).map((category) => ({
-      id: category.id,
-      name: category.name,
-      createdAt: category.created_at,
-      updatedAt: category.updated_at,
-    }));
+    const categories: CategoryDto[] = (categoriesData || []).map((category) => this.mapCategoryToDto(category));
 
     // Calculate pagination metadata
     const totalItems = count || 0;
@@ -125,18 +140,19 @@ export class CategoriesService {
    * Creates a new category for the specified user's household.
    *
    * @param userId - The ID of the user creating the category
-   * @param command - The category creation command containing the name
+   * @param command - The category creation command containing the name, optional parent and appearance
    * @returns Promise resolving to the created category DTO
-   * @throws Error if household not found, name conflict, or database error occurs
+   * @throws Error if household not found, invalid parent, name conflict, or database error occurs
    */
   async createCategory(userId: string, command: CreateCategoryCommand): Promise<CategoryDto> {
-    const { name } = command;
+    const { name, parentId, color, icon, group, warningThreshold, overThreshold, paceAlertDay, paceAlertPercent } =
+      command;
 
     // First, get the household_id for the user
     const { data: householdData, error: householdError } = await this.supabase
       .from("households")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
       .single();
 
     if (householdError) {
@@ -155,14 +171,41 @@ export class CategoriesService {
 
     const householdId = householdData.id;
 
+    if (parentId) {
+      await this.validateParent(householdId, null, parentId, "CATEGORY_CREATE_FAILED");
+    }
+
+    // New categories are added at the end of the user-defined order
+    const { data: lastCategory, error: lastCategoryError } = await this.supabase
+      .from("categories")
+      .select("sort_order")
+      .eq("household_id", householdId)
+      .order("sort_order", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (lastCategoryError) {
+      console.error("Database error while fetching category order:", lastCategoryError);
+      throw new Error("CATEGORY_CREATE_FAILED");
+    }
+
     // Insert the new category
     const { data: categoryData, error: insertError } = await this.supabase
       .from("categories")
       .insert({
         household_id: householdId,
         name: name.trim(),
+        parent_id: parentId ?? null,
+        color: color ?? null,
+        icon: icon ?? null,
+        sort_order: lastCategory ? lastCategory.sort_order + 1 : 0,
+        cost_group: group ?? "variable",
+        warning_threshold: warningThreshold ?? null,
+        over_threshold: overThreshold ?? null,
+        pace_alert_day: paceAlertDay ?? null,
+        pace_alert_percent: paceAlertPercent ?? null,
       })
-      .select("id, name, created_at, updated_at")
+      .select(CATEGORY_COLUMNS)
       .single();
 
     if (insertError) {
@@ -183,37 +226,44 @@ export class CategoriesService {
     }
 
     // Map database row to DTO
-    const categoryDto: CategoryDto = {
-      id: categoryData.id,
-      name: categoryData.name,
-      createdAt: categoryData.created_at,
-      updatedAt: categoryData.updated_at,
-    };
-
-    return categoryDto;
+    return this.mapCategoryToDto(categoryData);
   }
 
   /**
    * Updates an existing category for the specified user's household.
+   * Archiving a top-level category archives its subcategories too.
    *
    * @param userId - The ID of the user updating the category
    * @param categoryId - The ID of the category to update
-   * @param command - The category update command containing the new name
+   * @param command - The category update command containing the new name, parent, archived state, appearance
+   *   and/or alert settings
    * @returns Promise resolving to the updated category DTO
-   * @throws Error if household not found, category not found, name conflict, or database error occurs
+   * @throws Error if household not found, category not found, invalid parent, warning threshold above
+   *   the overspending threshold, name conflict, or database error occurs
    */
   async updateCategoryByUserId(
     userId: string,
     categoryId: string,
     command: UpdateCategoryCommand
   ): Promise<CategoryDto> {
-    const { name } = command;
+    const {
+      name,
+      parentId,
+      isArchived,
+      color,
+      icon,
+      group,
+      warningThreshold,
+      overThreshold,
+      paceAlertDay,
+      paceAlertPercent,
+    } = command;
 
     // First, get the household_id for the user
     const { data: householdData, error: householdError } = await this.supabase
       .from("households")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
       .single();
 
     if (householdError) {
@@ -232,16 +282,65 @@ export class CategoriesService {
 
     const householdId = householdData.id;
 
+    if (parentId) {
+      await this.validateParent(householdId, categoryId, parentId, "CATEGORY_UPDATE_FAILED");
+    }
+
+    if (warningThreshold !== undefined || overThreshold !== undefined) {
+      await this.validateThresholds(householdId, categoryId, warningThreshold, overThreshold);
+    }
+
+    const updateData: TablesUpdate<"categories"> & { updated_at: string } = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (name !== undefined) {
+      updateData.name = name.trim();
+    }
+
+    if (parentId !== undefined) {
+      updateData.parent_id = parentId;
+    }
+
+    if (isArchived !== undefined) {
+      updateData.is_archived = isArchived;
+    }
+
+    if (color !== undefined) {
+      updateData.color = color;
+    }
+
+    if (icon !== undefined) {
+      updateData.icon = icon;
+    }
+
+    if (group !== undefined) {
+      updateData.cost_group = group;
+    }
+
+    if (warningThreshold !== undefined) {
+      updateData.warning_threshold = warningThreshold;
+    }
+
+    if (overThreshold !== undefined) {
+      updateData.over_threshold = overThreshold;
+    }
+
+    if (paceAlertDay !== undefined) {
+      updateData.pace_alert_day = paceAlertDay;
+    }
+
+    if (paceAlertPercent !== undefined) {
+      updateData.pace_alert_percent = paceAlertPercent;
+    }
+
     // Update the category
     const { data: categoryData, error: updateError } = await this.supabase
       .from("categories")
-      .update({
-        name: name.trim(),
-        updated_at: new Date().toISOString(),
-      })
+      .update(updateData)
       .eq("id", categoryId)
       .eq("household_id", householdId)
-      .select("id, name, created_at, updated_at")
+      .select(CATEGORY_COLUMNS)
       .single();
 
     if (updateError) {
@@ -261,21 +360,30 @@ export class CategoriesService {
       throw new Error("CATEGORY_NOT_FOUND");
     }
 
-    // Map database row to DTO
-    const categoryDto: CategoryDto = {
-      id: categoryData.id,
-      name: categoryData.name,
-      createdAt: categoryData.created_at,
-      updatedAt: categoryData.updated_at,
-    };
+    // Subcategories are retired together with their parent; restoring the parent leaves them archived
+    if (isArchived === true) {
+      const { error: subcategoriesError } = await this.supabase
+        .from("categories")
+        .update({ is_archived: true, updated_at: updateData.updated_at })
+        .eq("household_id", householdId)
+        .eq("parent_id", categoryId)
+        .eq("is_archived", false);
+
+      if (subcategoriesError) {
+        console.error("Database error while archiving subcategories:", subcategoriesError);
+        throw new Error("CATEGORY_UPDATE_FAILED");
+      }
+    }
 
-    return categoryDto;
+    // Map database row to DTO
+    return this.mapCategoryToDto(categoryData);
   }
 
   /**
    * Deletes a category for the specified user's household.
    * Checks for dependencies in planned_expenses and transactions tables.
    * Requires force=true confirmation if dependencies exist.
+   * Subcategories of the deleted category are kept and become top-level categories.
    *
    * @param userId - The ID of the user deleting the category
    * @param categoryId - The ID of the category to delete
@@ -289,8 +397,8 @@ export class CategoriesService {
     // First, get the household_id for the user
     const { data: householdData, error: householdError } = await this.supabase
       .from("households")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
       .single();
 
     if (householdError) {
@@ -332,13 +440,46 @@ export class CategoriesService {
     }
 
     // Check for dependencies in planned_expenses and transactions
-    const dependencyCounts = await this.getCategoryDependenciesCounts(categoryId, householdId);
+    const dependencyCounts = await this.getCategoryDependenciesCounts(
+      categoryId,
+      householdId,
+      "CATEGORY_DELETE_FAILED"
+    );
     const totalDependencies = dependencyCounts.plannedExpenses + dependencyCounts.transactions;
 
     if (totalDependencies > 0 && force !== true) {
       throw new Error("CATEGORY_DEPENDENCIES_EXIST");
     }
 
+    // Split transactions using the category are removed as a whole, like regular transactions of the category.
+    // Cascading only their lines would leave the remaining lines out of balance with the transaction amount.
+    const { data: splitLines, error: splitLinesError } = await this.supabase
+      .from("transaction_splits")
+      .select("transaction_id")
+      .eq("category_id", categoryId)
+      .eq("household_id", householdId);
+
+    if (splitLinesError) {
+      console.error("Database error while fetching split transactions of category:", splitLinesError);
+      throw new Error("CATEGORY_DELETE_FAILED");
+    }
+
+    if (splitLines && splitLines.length > 0) {
+      const { error: splitTransactionsDeleteError } = await this.supabase
+        .from("transactions")
+        .delete()
+        .eq("household_id", householdId)
+        .in(
+          "id",
+          splitLines.map((line) => line.transaction_id)
+        );
+
+      if (splitTransactionsDeleteError) {
+        console.error("Database error while deleting split transactions of category:", splitTransactionsDeleteError);
+        throw new Error("CATEGORY_DELETE_FAILED");
+      }
+    }
+
     // Delete the category (ON DELETE CASCADE will handle dependent records)
     const { error: deleteError } = await this.supabase
       .from("categories")
@@ -352,16 +493,317 @@ export class CategoriesService {
     }
   }
 
+  /**
+   * Saves the user-defined order of categories in the specified user's household.
+   * Every listed category gets its position in the list; categories left out keep their position.
+   *
+   * @param userId - The ID of the user owning the categories
+   * @param command - The reorder command containing category IDs in the new order
+   * @returns Promise resolving to all categories of the household in the new order, including archived ones
+   * @throws Error if household not found, a category is not in the household, or database error occurs
+   */
+  async reorderCategories(userId: string, command: ReorderCategoriesCommand): Promise<CategoryDto[]> {
+    const householdId = await this.getHouseholdId(userId, "CATEGORIES_REORDER_FAILED");
+
+    const { data: categoriesData, error: categoriesError } = await this.supabase
+      .from("categories")
+      .select("id")
+      .eq("household_id", householdId);
+
+    if (categoriesError) {
+      console.error("Database error while fetching categories to reorder:", categoriesError);
+      throw new Error("CATEGORIES_REORDER_FAILED");
+    }
+
+    const householdCategoryIds = new Set((categoriesData || []).map((category) => category.id));
+    if (command.categoryIds.some((categoryId) => !householdCategoryIds.has(categoryId))) {
+      throw new Error("INVALID_CATEGORY_ID");
+    }
+
+    const updatedAt = new Date().toISOString();
+    const results = await Promise.all(
+      command.categoryIds.map((categoryId, position) =>
+        this.supabase
+          .from("categories")
+          .update({ sort_order: position, updated_at: updatedAt })
+          .eq("id", categoryId)
+          .eq("household_id", householdId)
+      )
+    );
+
+    const failed = results.find((result) => result.error);
+    if (failed) {
+      console.error("Database error while saving category order:", failed.error);
+      throw new Error("CATEGORIES_REORDER_FAILED");
+    }
+
+    const { data: reorderedData, error: reorderedError } = await this.supabase
+      .from("categories")
+      .select(CATEGORY_COLUMNS)
+      .eq("household_id", householdId)
+      .order("sort_order", { ascending: true })
+      .order("name", { ascending: true });
+
+    if (reorderedError) {
+      console.error("Database error while fetching reordered categories:", reorderedError);
+      throw new Error("CATEGORIES_REORDER_FAILED");
+    }
+
+    return (reorderedData || []).map((category) => this.mapCategoryToDto(category));
+  }
+
+  /**
+   * Counts the entries that depend on a category of the specified user's household.
+   * Used to show what deleting or merging the category affects.
+   *
+   * @param userId - The ID of the user owning the category
+   * @param categoryId - The ID of the category to check
+   * @returns Promise resolving to counts of planned expenses, transactions and subcategories
+   * @throws Error if household not found, category not found, or database error occurs
+   */
+  async getCategoryDependencies(userId: string, categoryId: string): Promise<CategoryDependenciesDto> {
+    const householdId = await this.getHouseholdId(userId, "CATEGORY_DEPENDENCIES_FAILED");
+
+    const { data: categoryData, error: categoryError } = await this.supabase
+      .from("categories")
+      .select("id")
+      .eq("id", categoryId)
+      .eq("household_id", householdId)
+      .maybeSingle();
+
+    if (categoryError) {
+      console.error("Database error while fetching category:", categoryError);
+      throw new Error("CATEGORY_DEPENDENCIES_FAILED");
+    }
+
+    if (!categoryData) {
+      throw new Error("CATEGORY_NOT_FOUND");
+    }
+
+    const [dependencyCounts, { count: subcategoriesCount, error: subcategoriesError }] = await Promise.all([
+      this.getCategoryDependenciesCounts(categoryId, householdId, "CATEGORY_DEPENDENCIES_FAILED"),
+      this.supabase
+        .from("categories")
+        .select("*", { count: "exact", head: true })
+        .eq("household_id", householdId)
+        .eq("parent_id", categoryId),
+    ]);
+
+    if (subcategoriesError) {
+      console.error("Database error while counting subcategories:", subcategoriesError);
+      throw new Error("CATEGORY_DEPENDENCIES_FAILED");
+    }
+
+    return {
+      ...dependencyCounts,
+      subcategories: subcategoriesCount || 0,
+    };
+  }
+
+  /**
+   * Merges a category into another category of the specified user's household and deletes it.
+   * Transactions (including split lines), planned expenses, categorization rules and recurring transactions
+   * are moved to the target category, so nothing is lost as with a forced delete.
+   * When both categories are planned in the same budget, the limits are added up on the target's planned expense.
+   * Subcategories move under the target when it is a top-level category, otherwise they become top-level categories.
+   * All entries are moved and the category is deleted in a single database transaction.
+   *
+   * @param userId - The ID of the user owning both categories
+   * @param categoryId - The ID of the category to merge and delete
+   * @param command - The merge command containing the target category
+   * @returns Promise resolving to the target category and the numbers of moved entries
+   * @throws Error if household not found, either category not found, target category archived,
+   *   or database error occurs
+   */
+  async mergeCategory(userId: string, categoryId: string, command: MergeCategoryCommand): Promise<CategoryMergedDto> {
+    const { targetCategoryId } = command;
+
+    if (targetCategoryId === categoryId) {
+      throw new Error("INVALID_TARGET_CATEGORY_ID");
+    }
+
+    const householdId = await this.getHouseholdId(userId, "CATEGORY_MERGE_FAILED");
+
+    const { data: categoriesData, error: categoriesError } = await this.supabase
+      .from("categories")
+      .select(CATEGORY_COLUMNS)
+      .eq("household_id", householdId)
+      .in("id", [categoryId, targetCategoryId]);
+
+    if (categoriesError) {
+      console.error("Database error while fetching categories to merge:", categoriesError);
+      throw new Error("CATEGORY_MERGE_FAILED");
+    }
+
+    const sourceCategory = (categoriesData || []).find((category) => category.id === categoryId);
+    const targetCategory = (categoriesData || []).find((category) => category.id === targetCategoryId);
+
+    if (!sourceCategory) {
+      throw new Error("CATEGORY_NOT_FOUND");
+    }
+
+    if (!targetCategory) {
+      throw new Error("TARGET_CATEGORY_NOT_FOUND");
+    }
+
+    // Entries moved into an archived category could no longer be picked in forms
+    if (targetCategory.is_archived) {
+      throw new Error("CATEGORY_ARCHIVED");
+    }
+
+    const { data: mergeData, error: mergeError } = await this.supabase.rpc("merge_category", {
+      source_category_id: categoryId,
+      target_category_id: targetCategoryId,
+    });
+
+    if (mergeError) {
+      // no_data_found, raised when either category was removed meanwhile
+      if (mergeError.code === "P0002") {
+        throw new Error("CATEGORY_NOT_FOUND");
+      }
+      console.error("Database error while merging category:", mergeError);
+      throw new Error("CATEGORY_MERGE_FAILED");
+    }
+
+    const [mergeResult] = mergeData || [];
+    if (!mergeResult) {
+      throw new Error("CATEGORY_MERGE_FAILED");
+    }
+
+    return {
+      targetCategory: this.mapCategoryToDto({
+        ...targetCategory,
+        // The target was a subcategory of the merged category and is now top-level
+        parent_id: targetCategory.parent_id === categoryId ? null : targetCategory.parent_id,
+      }),
+      movedTransactions: mergeResult.moved_transactions,
+      movedPlannedExpenses: mergeResult.moved_planned_expenses,
+      combinedPlannedExpenses: mergeResult.combined_planned_expenses,
+    };
+  }
+
+  /**
+   * Returns the household ID of the specified user.
+   *
+   * @param userId - The ID of the user
+   * @param failureCode - Error code thrown on database errors
+   * @throws Error HOUSEHOLD_NOT_FOUND when the user has no household
+   */
+  private async getHouseholdId(userId: string, failureCode: string): Promise<string> {
+    const { data: householdData, error: householdError } = await this.supabase
+      .from("households")
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
+      .single();
+
+    if (householdError) {
+      if (householdError.code === "PGRST116") {
+        // No rows returned - household not found
+        throw new Error("HOUSEHOLD_NOT_FOUND");
+      }
+      // Other database errors
+      console.error("Database error while fetching household:", householdError);
+      throw new Error(failureCode);
+    }
+
+    if (!householdData) {
+      throw new Error("HOUSEHOLD_NOT_FOUND");
+    }
+
+    return householdData.id;
+  }
+
+  /**
+   * Verifies that a category can be placed under the given parent in the household.
+   * The hierarchy is at most two levels deep, which also rules out cycles.
+   *
+   * @param householdId - The household the category belongs to
+   * @param categoryId - The category being moved, or null for a new category
+   * @param parentId - The requested parent category
+   * @param failureCode - Error code thrown on database errors
+   * @throws Error INVALID_PARENT_ID, CATEGORY_PARENT_CYCLE or CATEGORY_DEPTH_EXCEEDED when the parent is not allowed
+   */
+  private async validateParent(
+    householdId: string,
+    categoryId: string | null,
+    parentId: string,
+    failureCode: string
+  ): Promise<void> {
+    const { data, error } = await this.supabase
+      .from("categories")
+      .select("id, parent_id")
+      .eq("household_id", householdId);
+
+    if (error) {
+      console.error("Database error while fetching category hierarchy:", error);
+      throw new Error(failureCode);
+    }
+
+    const parentError = validateCategoryParent(
+      (data || []).map((category) => ({ id: category.id, parentId: category.parent_id })),
+      categoryId,
+      parentId
+    );
+
+    if (parentError) {
+      throw new Error(parentError);
+    }
+  }
+
+  /**
+   * Verifies that the warning threshold of a category stays at or below its overspending threshold.
+   * A threshold left out of the update keeps its current value; null thresholds use the household default
+   * and are not compared.
+   *
+   * @param householdId - The household the category belongs to
+   * @param categoryId - The category being updated
+   * @param warningThreshold - The new warning threshold, undefined when unchanged
+   * @param overThreshold - The new overspending threshold, undefined when unchanged
+   * @throws Error CATEGORY_NOT_FOUND or INVALID_THRESHOLDS
+   */
+  private async validateThresholds(
+    householdId: string,
+    categoryId: string,
+    warningThreshold: number | null | undefined,
+    overThreshold: number | null | undefined
+  ): Promise<void> {
+    const { data, error } = await this.supabase
+      .from("categories")
+      .select("warning_threshold, over_threshold")
+      .eq("id", categoryId)
+      .eq("household_id", householdId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Database error while fetching category thresholds:", error);
+      throw new Error("CATEGORY_UPDATE_FAILED");
+    }
+
+    if (!data) {
+      throw new Error("CATEGORY_NOT_FOUND");
+    }
+
+    const warning = warningThreshold === undefined ? data.warning_threshold : warningThreshold;
+    const over = overThreshold === undefined ? data.over_threshold : overThreshold;
+
+    if (warning !== null && over !== null && warning > over) {
+      throw new Error("INVALID_THRESHOLDS");
+    }
+  }
+
   /**
    * Counts dependencies for a category in planned_expenses and transactions tables.
+   * Split transactions count once when any of their lines uses the category.
    *
    * @param categoryId - The ID of the category to check
    * @param householdId - The ID of the household (for security filtering)
+   * @param failureCode - Error code thrown on database errors
    * @returns Promise resolving to counts of dependencies
    */
   private async getCategoryDependenciesCounts(
     categoryId: string,
-    householdId: string
+    householdId: string,
+    failureCode: string
   ): Promise<{ plannedExpenses: number; transactions: number }> {
     // Count planned_expenses dependencies
     const { count: plannedExpensesCount, error: plannedError } = await this.supabase
@@ -371,7 +813,7 @@ export class CategoriesService {
 
     if (plannedError) {
       console.error("Database error while counting planned expenses:", plannedError);
-      throw new Error("CATEGORY_DELETE_FAILED");
+      throw new Error(failureCode);
     }
 
     // Count transactions dependencies
@@ -383,12 +825,51 @@ export class CategoriesService {
 
     if (transactionsError) {
       console.error("Database error while counting transactions:", transactionsError);
-      throw new Error("CATEGORY_DELETE_FAILED");
+      throw new Error(failureCode);
+    }
+
+    // Count split transactions that use the category only through their lines
+    // (split transactions whose parent row points to the category are already counted above)
+    const { count: splitTransactionsCount, error: splitsError } = await this.supabase
+      .from("transaction_splits")
+      .select("id, transactions!inner(category_id)", { count: "exact", head: true })
+      .eq("category_id", categoryId)
+      .eq("household_id", householdId)
+      .neq("transactions.category_id", categoryId);
+
+    if (splitsError) {
+      console.error("Database error while counting transaction splits:", splitsError);
+      throw new Error(failureCode);
     }
 
     return {
       plannedExpenses: plannedExpensesCount || 0,
-      transactions: transactionsCount || 0,
+      transactions: (transactionsCount || 0) + (splitTransactionsCount || 0),
+    };
+  }
+
+  /**
+   * Maps a database category record to CategoryDto.
+   *
+   * @param row - The category record from the database
+   * @returns Mapped CategoryDto
+   */
+  private mapCategoryToDto(row: CategoryRecord): CategoryDto {
+    return {
+      id: row.id,
+      name: row.name,
+      parentId: row.parent_id,
+      isArchived: row.is_archived,
+      color: row.color,
+      icon: row.icon,
+      sortOrder: row.sort_order,
+      group: row.cost_group as CategoryGroup,
+      warningThreshold: row.warning_threshold,
+      overThreshold: row.over_threshold,
+      paceAlertDay: row.pace_alert_day,
+      paceAlertPercent: row.pace_alert_percent,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
     };
   }
 
@@ -0,0 +1,357 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type {
+  CategorizationRuleDto,
+  CategorizationRulesListResponseDto,
+  CreateCategorizationRuleCommand,
+  CreateTransactionCommand,
+  UpdateCategorizationRuleCommand,
+} from "../../types";
+import { findMatchingCategorizationRule } from "../categorization";
+import type { TransactionImportDraft } from "../import/pipeline";
+
+export type SupabaseClientType = SupabaseClient;
+
+const CATEGORIZATION_RULE_COLUMNS =
+  "id, category_id, pattern, priority, min_amount, max_amount, created_at, updated_at";
+
+/**
+ * Service for managing categorization rules and picking the category of transactions from their notes.
+ */
+export class CategorizationService {
+  constructor(private supabase: SupabaseClientType) {}
+
+  /**
+   * Lists categorization rules of the specified user's household, the highest priority first.
+   *
+   * @param userId - The ID of the user whose rules to retrieve
+   * @returns Promise resolving to the list of categorization rules
+   * @throws Error if household not found or database error occurs
+   */
+  async listRules(userId: string): Promise<CategorizationRulesListResponseDto> {
+    const householdId = await this.getHouseholdId(userId, "CATEGORIZATION_RULES_LIST_FAILED");
+
+    return { data: await this.getHouseholdRules(householdId, "CATEGORIZATION_RULES_LIST_FAILED") };
+  }
+
+  /**
+   * Creates a new categorization rule for the specified user's household.
+   *
+   * @param userId - The ID of the user creating the rule
+   * @param command - The categorization rule creation command
+   * @returns Promise resolving to the created categorization rule DTO
+   * @throws Error if household not found, category invalid or archived, amount range empty, or database error occurs
+   */
+  async createRule(userId: string, command: CreateCategorizationRuleCommand): Promise<CategorizationRuleDto> {
+    const householdId = await this.getHouseholdId(userId, "CATEGORIZATION_RULE_CREATE_FAILED");
+
+    await this.validateCategory(householdId, command.categoryId, "CATEGORIZATION_RULE_CREATE_FAILED");
+
+    const { data, error } = await this.supabase
+      .from("categorization_rules")
+      .insert({
+        household_id: householdId,
+        category_id: command.categoryId,
+        pattern: command.pattern.trim(),
+        priority: command.priority ?? 0,
+        min_amount: command.minAmount ?? null,
+        max_amount: command.maxAmount ?? null,
+      })
+      .select(CATEGORIZATION_RULE_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      if (error?.code === "23514") {
+        throw new Error("INVALID_AMOUNT_RANGE");
+      }
+      console.error("Database error while creating categorization rule:", error);
+      throw new Error("CATEGORIZATION_RULE_CREATE_FAILED");
+    }
+
+    return this.mapRuleToDto(data);
+  }
+
+  /**
+   * Updates an existing categorization rule.
+   *
+   * @param userId - The ID of the user updating the rule
+   * @param ruleId - The ID of the rule to update
+   * @param command - The update command containing changed fields
+   * @returns Promise resolving to the updated categorization rule DTO
+   * @throws Error if household or rule not found, category invalid or archived, amount range empty, or database error occurs
+   */
+  async updateRule(
+    userId: string,
+    ruleId: string,
+    command: UpdateCategorizationRuleCommand
+  ): Promise<CategorizationRuleDto> {
+    const householdId = await this.getHouseholdId(userId, "CATEGORIZATION_RULE_UPDATE_FAILED");
+
+    const { data: existing, error: fetchError } = await this.supabase
+      .from("categorization_rules")
+      .select(CATEGORIZATION_RULE_COLUMNS)
+      .eq("id", ruleId)
+      .eq("household_id", householdId)
+      .single();
+
+    if (fetchError) {
+      if (fetchError.code === "PGRST116") {
+        throw new Error("CATEGORIZATION_RULE_NOT_FOUND");
+      }
+      console.error("Database error while fetching categorization rule:", fetchError);
+      throw new Error("CATEGORIZATION_RULE_UPDATE_FAILED");
+    }
+
+    if (!existing) {
+      throw new Error("CATEGORIZATION_RULE_NOT_FOUND");
+    }
+
+    if (command.categoryId && command.categoryId !== existing.category_id) {
+      await this.validateCategory(householdId, command.categoryId, "CATEGORIZATION_RULE_UPDATE_FAILED");
+    }
+
+    const minAmount = command.minAmount !== undefined ? command.minAmount : existing.min_amount;
+    const maxAmount = command.maxAmount !== undefined ? command.maxAmount : existing.max_amount;
+
+    if (minAmount !== null && maxAmount !== null && Number(minAmount) > Number(maxAmount)) {
+      throw new Error("INVALID_AMOUNT_RANGE");
+    }
+
+    // Prepare update object with only provided fields
+    const updateData: Record<string, unknown> = {};
+
+    if (command.categoryId !== undefined) {
+      updateData.category_id = command.categoryId;
+    }
+    if (command.pattern !== undefined) {
+      updateData.pattern = command.pattern.trim();
+    }
+    if (command.priority !== undefined) {
+      updateData.priority = command.priority;
+    }
+    if (command.minAmount !== undefined) {
+      updateData.min_amount = command.minAmount;
+    }
+    if (command.maxAmount !== undefined) {
+      updateData.max_amount = command.maxAmount;
+    }
+
+    const { data, error } = await this.supabase
+      .from("categorization_rules")
+      .update(updateData)
+      .eq("id", ruleId)
+      .eq("household_id", householdId)
+      .select(CATEGORIZATION_RULE_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      if (error?.code === "PGRST116") {
+        throw new Error("CATEGORIZATION_RULE_NOT_FOUND");
+      }
+      if (error?.code === "23514") {
+        throw new Error("INVALID_AMOUNT_RANGE");
+      }
+      console.error("Database error while updating categorization rule:", error);
+      throw new Error("CATEGORIZATION_RULE_UPDATE_FAILED");
+    }
+
+    return this.mapRuleToDto(data);
+  }
+
+  /**
+   * Deletes a categorization rule. Transactions categorized by the rule keep their category.
+   *
+   * @param userId - The ID of the user deleting the rule
+   * @param ruleId - The ID of the rule to delete
+   * @throws Error if household or rule not found, or database error occurs
+   */
+  async deleteRule(userId: string, ruleId: string): Promise<void> {
+    const householdId = await this.getHouseholdId(userId, "CATEGORIZATION_RULE_DELETE_FAILED");
+
+    const { data, error } = await this.supabase
+      .from("categorization_rules")
+      .delete()
+      .eq("id", ruleId)
+      .eq("household_id", householdId)
+      .select("id");
+
+    if (error) {
+      console.error("Database error while deleting categorization rule:", error);
+      throw new Error("CATEGORIZATION_RULE_DELETE_FAILED");
+    }
+
+    if (!data || data.length === 0) {
+      throw new Error("CATEGORIZATION_RULE_NOT_FOUND");
+    }
+  }
+
+  /**
+   * Picks the category of a new transaction from its note when no category or splits are given.
+   * A command that already has a category is returned unchanged.
+   *
+   * @param householdId - The household the transaction is created in
+   * @param command - The transaction creation command
+   * @param failureCode - Error code thrown on unexpected database errors
+   * @returns Promise resolving to the command with the category of the matching rule, if any
+   * @throws Error if database error occurs
+   */
+  async categorizeTransaction(
+    householdId: string,
+    command: CreateTransactionCommand,
+    failureCode: string
+  ): Promise<CreateTransactionCommand> {
+    if (command.categoryId || command.splits || !command.note?.trim()) {
+      return command;
+    }
+
+    const rules = await this.getHouseholdRules(householdId, failureCode);
+    const rule = findMatchingCategorizationRule(rules, command);
+
+    return rule ? { ...command, categoryId: rule.categoryId } : command;
+  }
+
+  /**
+   * Records the category of the matching rule on every import draft with a note.
+   * Whether it takes precedence over the category name read from the file is decided by the import pipeline.
+   *
+   * @param householdId - The household the transactions are imported into
+   * @param drafts - Transactions read from the imported file
+   * @param failureCode - Error code thrown on unexpected database errors
+   * @returns Promise resolving to the drafts with rule categories
+   * @throws Error if database error occurs
+   */
+  async categorizeDrafts(
+    householdId: string,
+    drafts: TransactionImportDraft[],
+    failureCode: string
+  ): Promise<TransactionImportDraft[]> {
+    if (!drafts.some((draft) => draft.note)) {
+      return drafts;
+    }
+
+    const rules = await this.getHouseholdRules(householdId, failureCode);
+    if (rules.length === 0) {
+      return drafts;
+    }
+
+    return drafts.map((draft) => {
+      const rule = draft.note ? findMatchingCategorizationRule(rules, draft) : null;
+      return rule ? { ...draft, ruleCategoryId: rule.categoryId } : draft;
+    });
+  }
+
+  /**
+   * Loads the categorization rules of a household, the highest priority first.
+   * Rules of archived categories are left out, so that they no longer categorize new transactions.
+   *
+   * @param householdId - The ID of the household
+   * @param failureCode - Error code thrown on unexpected database errors
+   * @returns Promise resolving to the household's rules
+   * @throws Error if database error occurs
+   */
+  private async getHouseholdRules(householdId: string, failureCode: string): Promise<CategorizationRuleDto[]> {
+    const { data, error } = await this.supabase
+      .from("categorization_rules")
+      .select(`${CATEGORIZATION_RULE_COLUMNS}, categories!inner(is_archived)`)
+      .eq("household_id", householdId)
+      .eq("categories.is_archived", false)
+      .order("priority", { ascending: false })
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Database error while fetching categorization rules:", error);
+      throw new Error(failureCode);
+    }
+
+    return (data || []).map((row) => this.mapRuleToDto(row));
+  }
+
+  /**
+   * Retrieves the household ID for the specified user.
+   *
+   * @param userId - The ID of the user
+   * @param failureCode - Error code thrown on unexpected database errors
+   * @returns Promise resolving to the household ID
+   * @throws Error if household not found or database error occurs
+   */
+  private async getHouseholdId(userId: string, failureCode: string): Promise<string> {
+    const { data: householdData, error: householdError } = await this.supabase
+      .from("households")
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
+      .single();
+
+    if (householdError) {
+      if (householdError.code === "PGRST116") {
+        throw new Error("HOUSEHOLD_NOT_FOUND");
+      }
+      console.error("Database error while fetching household:", householdError);
+      throw new Error(failureCode);
+    }
+
+    if (!householdData) {
+      throw new Error("HOUSEHOLD_NOT_FOUND");
+    }
+
+    return householdData.id;
+  }
+
+  /**
+   * Validates that the category belongs to the household and is not archived.
+   *
+   * @throws Error with INVALID_CATEGORY_ID if the category is not accessible
+   * @throws Error with CATEGORY_ARCHIVED if the category is archived
+   */
+  private async validateCategory(householdId: string, categoryId: string, failureCode: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from("categories")
+      .select("id, is_archived")
+      .eq("id", categoryId)
+      .eq("household_id", householdId)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        throw new Error("INVALID_CATEGORY_ID");
+      }
+      console.error("Database error while validating category:", error);
+      throw new Error(failureCode);
+    }
+
+    if (!data) {
+      throw new Error("INVALID_CATEGORY_ID");
+    }
+
+    if (data.is_archived) {
+      throw new Error("CATEGORY_ARCHIVED");
+    }
+  }
+
+  /**
+   * Maps a database categorization rule record to CategorizationRuleDto.
+   *
+   * @param row - The categorization rule record from the database
+   * @returns Mapped CategorizationRuleDto
+   */
+  private mapRuleToDto(row: Record<string, unknown>): CategorizationRuleDto {
+    return {
+      id: row.id as string,
+      categoryId: row.category_id as string,
+      pattern: row.pattern as string,
+      priority: row.priority as number,
+      minAmount: row.min_amount === null ? null : Number(row.min_amount),
+      maxAmount: row.max_amount === null ? null : Number(row.max_amount),
+      createdAt: row.created_at as string,
+      updatedAt: row.updated_at as string,
+    };
+  }
+}
+
+/**
+ * Factory function to create a CategorizationService instance.
+ *
+ * @param supabase - Supabase client instance
+ * @returns New CategorizationService instance
+ */
+export function createCategorizationService(supabase: SupabaseClientType): CategorizationService {
+  return new CategorizationService(supabase);
+}
@@ -0,0 +1,438 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { TransactionKind } from "../../types";
+import { sumPlannedLimits } from "../category-tree";
+import type { ExportCell, ExportSheet, ExportWorkbook } from "../export/workbook";
+import { expandTransactionSplits } from "../splits";
+import { createPartialMatchPattern } from "../sql";
+import { createHouseholdMembersService } from "./household-members.service";
+
+export type SupabaseClientType = SupabaseClient;
+
+/**
+ * Filters of the exported transactions, the same as those of the transactions list.
+ */
+export interface ExportTransactionsFilters {
+  categoryId?: string;
+  memberId?: string;
+  fromDate?: string;
+  toDate?: string;
+  searchNote?: string;
+  sort: "date_desc" | "amount_desc" | "amount_asc";
+}
+
+/**
+ * Export filters with the member filter "me" resolved; a null member ID matches no transactions.
+ */
+type ResolvedExportFilters = Omit<ExportTransactionsFilters, "memberId"> & { memberId?: string | null };
+
+interface ExportBudget {
+  id: string;
+  month: string;
+}
+
+/**
+ * Number of transactions fetched per request; the API caps the rows returned by a single query.
+ */
+const EXPORT_BATCH_SIZE = 1000;
+
+const TRANSACTION_KIND_LABELS: Record<TransactionKind, string> = {
+  expense: "Wydatek",
+  refund: "Zwrot",
+};
+
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+/** Budget months are exported as YYYY-MM */
+const formatBudgetMonth = (month: string | undefined): string => (month ?? "").slice(0, 7);
+
+/**
+ * Service for exporting budgets and transactions to spreadsheets.
+ */
+export class ExportService {
+  constructor(private supabase: SupabaseClientType) {}
+
+  /**
+   * Exports a single budget of the user's household: its summary, incomes, planned expenses and transactions.
+   *
+   * @param userId - The ID of the user whose household owns the budget
+   * @param budgetId - The ID of the budget to export
+   * @param filters - Filters and order of the exported transactions
+   * @returns Promise resolving to the export sheets
+   * @throws Error if household or budget not found, or database error occurs
+   */
+  async exportBudget(userId: string, budgetId: string, filters: ExportTransactionsFilters): Promise<ExportWorkbook> {
+    const householdId = await this.getHouseholdId(userId);
+    const transactionFilters = await this.resolveFilters(householdId, userId, filters);
+
+    const { data: budget, error } = await this.supabase
+      .from("budgets")
+      .select("id, month")
+      .eq("id", budgetId)
+      .eq("household_id", householdId)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        throw new Error("BUDGET_NOT_FOUND");
+      }
+      console.error("Database error while fetching budget for export:", error);
+      throw new Error("EXPORT_FAILED");
+    }
+
+    if (!budget) {
+      throw new Error("BUDGET_NOT_FOUND");
+    }
+
+    return {
+      fileName: `budzet-${formatBudgetMonth(budget.month)}`,
+      sheets: await this.buildSheets(householdId, [budget], transactionFilters),
+    };
+  }
+
+  /**
+   * Exports the transactions of the user's household, across budgets. Without dates the full history is exported;
+   * with dates only the transactions between them, together with the budgets of the months they cover.
+   *
+   * @param userId - The ID of the user whose household to export
+   * @param filters - Filters and order of the exported transactions
+   * @returns Promise resolving to the export sheets
+   * @throws Error if household not found or database error occurs
+   */
+  async exportTransactions(userId: string, filters: ExportTransactionsFilters): Promise<ExportWorkbook> {
+    const householdId = await this.getHouseholdId(userId);
+    const transactionFilters = await this.resolveFilters(householdId, userId, filters);
+
+    let query = this.supabase
+      .from("budgets")
+      .select("id, month")
+      .eq("household_id", householdId)
+      .order("month", { ascending: true });
+
+    if (filters.fromDate) {
+      query = query.gte("month", `${filters.fromDate.slice(0, 7)}-01`);
+    }
+
+    if (filters.toDate) {
+      query = query.lte("month", `${filters.toDate.slice(0, 7)}-01`);
+    }
+
+    const { data: budgets, error } = await query;
+
+    if (error) {
+      console.error("Database error while fetching budgets for export:", error);
+      throw new Error("EXPORT_FAILED");
+    }
+
+    const fileName =
+      filters.fromDate && filters.toDate ? `transakcje-${filters.fromDate}-${filters.toDate}` : "historia-transakcji";
+
+    return {
+      fileName,
+      sheets: await this.buildSheets(householdId, budgets || [], transactionFilters),
+    };
+  }
+
+  /**
+   * Builds the summary, incomes, planned expenses and transactions sheets of the given budgets.
+   * Split transactions are exported one row per line; refunds have negative amounts.
+   * The spending in the summary is the sum of the exported transactions, so it follows the filters.
+   */
+  private async buildSheets(
+    householdId: string,
+    budgets: ExportBudget[],
+    filters: ResolvedExportFilters
+  ): Promise<ExportSheet[]> {
+    const budgetIds = budgets.map((budget) => budget.id);
+    const monthByBudgetId = new Map(budgets.map((budget) => [budget.id, budget.month]));
+
+    const [incomesResult, plannedResult, categoriesResult, membersResult, transactions] = await Promise.all([
+      this.supabase
+        .from("incomes")
+        .select("budget_id, household_member_id, amount")
+        .eq("household_id", householdId)
+        .in("budget_id", budgetIds),
+      this.supabase
+        .from("planned_expenses")
+        .select("budget_id, category_id, limit_amount")
+        .eq("household_id", householdId)
+        .in("budget_id", budgetIds),
+      // Archived categories and inactive members are included, they still appear in past budgets
+      this.supabase.from("categories").select("id, name, parent_id").eq("household_id", householdId),
+      this.supabase.from("household_members").select("id, full_name").eq("household_id", householdId),
+      this.fetchTransactions(householdId, budgetIds, filters),
+    ]);
+
+    const failedResult = [incomesResult, plannedResult, categoriesResult, membersResult].find((result) => result.error);
+    if (failedResult?.error) {
+      console.error("Database error while fetching export data:", failedResult.error);
+      throw new Error("EXPORT_FAILED");
+    }
+
+    const categories = categoriesResult.data || [];
+    const categoriesById = new Map(categories.map((category) => [category.id, category]));
+    const parentById = new Map(categories.map((category) => [category.id, category.parent_id]));
+    const memberNameById = new Map((membersResult.data || []).map((member) => [member.id, member.full_name]));
+    const incomes = incomesResult.data || [];
+    const plannedExpenses = plannedResult.data || [];
+
+    const getCategoryName = (categoryId: string): string => categoriesById.get(categoryId)?.name ?? "";
+    const getParentName = (categoryId: string): string | null => {
+      const parentId = categoriesById.get(categoryId)?.parent_id;
+      return parentId ? getCategoryName(parentId) : null;
+    };
+
+    const transactionRows: ExportCell[][] = [];
+    const spentByBudgetId = new Map<string, number>();
+
+    transactions.forEach((transaction) => {
+      const lines = expandTransactionSplits({
+        categoryId: transaction.category_id,
+        kind: transaction.kind as TransactionKind,
+        amount: transaction.amount,
+        splits: transaction.transaction_splits.map((split) => ({
+          categoryId: split.category_id,
+          amount: split.amount,
+        })),
+      });
+
+      lines.forEach((line) => {
+        spentByBudgetId.set(transaction.budget_id, (spentByBudgetId.get(transaction.budget_id) || 0) + line.amount);
+        transactionRows.push([
+          transaction.transaction_date,
+          formatBudgetMonth(monthByBudgetId.get(transaction.budget_id)),
+          getCategoryName(line.categoryId),
+          getParentName(line.categoryId),
+          roundToCents(line.amount),
+          TRANSACTION_KIND_LABELS[transaction.kind as TransactionKind] ?? transaction.kind,
+          transaction.household_member_id ? (memberNameById.get(transaction.household_member_id) ?? null) : null,
+          transaction.note,
+        ]);
+      });
+    });
+
+    const summaryRows: ExportCell[][] = budgets.map((budget) => {
+      const income = incomes.filter((item) => item.budget_id === budget.id).reduce((sum, item) => sum + item.amount, 0);
+      // Parent limits cover their subcategories, so nested limits are not counted twice
+      const planned = sumPlannedLimits(
+        plannedExpenses
+          .filter((item) => item.budget_id === budget.id)
+          .map((item) => ({ categoryId: item.category_id, limitAmount: item.limit_amount })),
+        parentById
+      );
+      const spent = spentByBudgetId.get(budget.id) || 0;
+
+      return [
+        formatBudgetMonth(budget.month),
+        roundToCents(income),
+        roundToCents(planned),
+        roundToCents(spent),
+        roundToCents(income - planned),
+        roundToCents(income - spent),
+      ];
+    });
+
+    if (summaryRows.length > 1) {
+      summaryRows.push([
+        "Razem",
+        ...[1, 2, 3, 4, 5].map((column) =>
+          roundToCents(summaryRows.reduce((sum, row) => sum + (row[column] as number), 0))
+        ),
+      ]);
+    }
+
+    return [
+      {
+        key: "summary",
+        name: "Podsumowanie",
+        columns: ["Miesiąc", "Przychody", "Zaplanowane wydatki", "Wydatki", "Wolne środki", "Pozostało"],
+        rows: summaryRows,
+      },
+      {
+        key: "incomes",
+        name: "Przychody",
+        columns: ["Miesiąc", "Domownik", "Kwota"],
+        rows: incomes.map((income) => [
+          formatBudgetMonth(monthByBudgetId.get(income.budget_id)),
+          memberNameById.get(income.household_member_id) ?? "",
+          income.amount,
+        ]),
+      },
+      {
+        key: "plannedExpenses",
+        name: "Planowane wydatki",
+        columns: ["Miesiąc", "Kategoria", "Kategoria nadrzędna", "Limit"],
+        rows: plannedExpenses.map((planned) => [
+          formatBudgetMonth(monthByBudgetId.get(planned.budget_id)),
+          getCategoryName(planned.category_id),
+          getParentName(planned.category_id),
+          planned.limit_amount,
+        ]),
+      },
+      {
+        key: "transactions",
+        name: "Transakcje",
+        columns: [
+          "Data",
+          "Miesiąc budżetu",
+          "Kategoria",
+          "Kategoria nadrzędna",
+          "Kwota",
+          "Rodzaj",
+          "Domownik",
+          "Notatka",
+        ],
+        rows: transactionRows,
+      },
+    ];
+  }
+
+  /**
+   * Fetches all transactions of the given budgets matching the filters, in batches.
+   */
+  private async fetchTransactions(householdId: string, budgetIds: string[], filters: ResolvedExportFilters) {
+    // "me" was requested, but no member is linked to the account
+    if (filters.memberId === null) {
+      return [];
+    }
+
+    let splitTransactionIds: string[] = [];
+
+    if (filters.categoryId) {
+      // Split transactions match when any of their lines uses the category
+      const { data: splitMatches, error: splitMatchesError } = await this.supabase
+        .from("transaction_splits")
+        .select("transaction_id")
+        .eq("household_id", householdId)
+        .eq("category_id", filters.categoryId);
+
+      if (splitMatchesError) {
+        console.error("Error fetching split transactions for category filter:", splitMatchesError);
+        throw new Error("EXPORT_FAILED");
+      }
+
+      splitTransactionIds = Array.from(new Set((splitMatches || []).map((split) => split.transaction_id)));
+    }
+
+    const fetchBatch = async (offset: number) => {
+      let query = this.supabase
+        .from("transactions")
+        .select(
+          "id, budget_id, category_id, household_member_id, kind, amount, transaction_date, note, transaction_splits(category_id, amount)"
+        )
+        .eq("household_id", householdId)
+        .in("budget_id", budgetIds);
+
+      if (filters.categoryId) {
+        query =
+          splitTransactionIds.length > 0
+            ? query.or(`category_id.eq.${filters.categoryId},id.in.(${splitTransactionIds.join(",")})`)
+            : query.eq("category_id", filters.categoryId);
+      }
+
+      if (filters.memberId) {
+        query = query.eq("household_member_id", filters.memberId);
+      }
+
+      if (filters.fromDate) {
+        query = query.gte("transaction_date", filters.fromDate);
+      }
+
+      if (filters.toDate) {
+        query = query.lte("transaction_date", filters.toDate);
+      }
+
+      if (filters.searchNote) {
+        query = query.ilike("note", createPartialMatchPattern(filters.searchNote));
+      }
+
+      switch (filters.sort) {
+        case "date_desc":
+          query = query.order("transaction_date", { ascending: false });
+          break;
+        case "amount_desc":
+          query = query.order("amount", { ascending: false });
+          break;
+        case "amount_asc":
+          query = query.order("amount", { ascending: true });
+          break;
+      }
+
+      // The ID keeps the order stable between batches
+      return query.order("id", { ascending: true }).range(offset, offset + EXPORT_BATCH_SIZE - 1);
+    };
+
+    const transactions = [];
+
+    for (let offset = 0; ; offset += EXPORT_BATCH_SIZE) {
+      const { data, error } = await fetchBatch(offset);
+
+      if (error) {
+        console.error("Database error while fetching transactions for export:", error);
+        throw new Error("EXPORT_FAILED");
+      }
+
+      transactions.push(...(data || []));
+
+      if (!data || data.length < EXPORT_BATCH_SIZE) {
+        return transactions;
+      }
+    }
+  }
+
+  /**
+   * Resolves the member filter "me" to the member linked to the user's account.
+   */
+  private async resolveFilters(
+    householdId: string,
+    userId: string,
+    filters: ExportTransactionsFilters
+  ): Promise<ResolvedExportFilters> {
+    const memberId = await createHouseholdMembersService(this.supabase).resolveMemberFilter(
+      householdId,
+      userId,
+      filters.memberId,
+      "EXPORT_FAILED"
+    );
+
+    return { ...filters, memberId };
+  }
+
+  /**
+   * Retrieves the household ID for the specified user.
+   *
+   * @param userId - The ID of the user
+   * @returns Promise resolving to the household ID
+   * @throws Error if household not found or database error occurs
+   */
+  private async getHouseholdId(userId: string): Promise<string> {
+    const { data, error } = await this.supabase
+      .from("households")
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        throw new Error("HOUSEHOLD_NOT_FOUND");
+      }
+      console.error("Database error while fetching household:", error);
+      throw new Error("EXPORT_FAILED");
+    }
+
+    if (!data) {
+      throw new Error("HOUSEHOLD_NOT_FOUND");
+    }
+
+    return data.id;
+  }
+}
+
+/**
+ * Factory function to create an ExportService instance.
+ *
+ * @param supabase - Supabase client instance
+ * @returns New ExportService instance
+ */
+export function createExportService(supabase: SupabaseClientType): ExportService {
+  return new ExportService(supabase);
+}
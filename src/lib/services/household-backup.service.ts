@@ -0,0 +1,359 @@
+import type { Json } from "../../db/database.types";
+import type { SupabaseClient } from "../../db/supabase.client";
+import type {
+  CategoryGroup,
+  HouseholdBackupDto,
+  HouseholdImportedDto,
+  PlannedExpenseRolloverMode,
+  TransactionKind,
+} from "../../types";
+import { HOUSEHOLD_BACKUP_VERSION, remapBackupIds } from "../household-backup";
+
+export type SupabaseClientType = SupabaseClient;
+
+/**
+ * Number of rows fetched per request; the API caps the rows returned by a single query.
+ */
+const BACKUP_BATCH_SIZE = 1000;
+
+/**
+ * Service for taking full backups of a household and restoring them.
+ */
+export class HouseholdBackupService {
+  constructor(private supabase: SupabaseClientType) {}
+
+  /**
+   * Exports the household of the user with all its members, categories, budgets, incomes, planned expenses
+   * and transactions. Inactive members and archived categories are included to keep the history complete.
+   *
+   * @param userId - The ID of the user whose household to export
+   * @returns Promise resolving to the backup document
+   * @throws Error if household not found or database error occurs
+   */
+  async exportHousehold(userId: string): Promise<HouseholdBackupDto> {
+    const { data: household, error: householdError } = await this.supabase
+      .from("households")
+      .select(
+        "id, name, category_warning_threshold, category_over_threshold, pace_alert_day, pace_alert_percent, household_users!inner(user_id)"
+      )
+      .eq("household_users.user_id", userId)
+      .single();
+
+    if (householdError) {
+      if (householdError.code === "PGRST116") {
+        throw new Error("HOUSEHOLD_NOT_FOUND");
+      }
+      console.error("Database error while fetching household for backup:", householdError);
+      throw new Error("HOUSEHOLD_EXPORT_FAILED");
+    }
+
+    if (!household) {
+      throw new Error("HOUSEHOLD_NOT_FOUND");
+    }
+
+    const householdId = household.id;
+
+    const [members, categories, budgets, incomes, plannedExpenses, transactions, transactionSplits] = await Promise.all(
+      [
+        this.fetchAll((from, to) =>
+          this.supabase
+            .from("household_members")
+            .select("id, full_name, is_active")
+            .eq("household_id", householdId)
+            .order("id")
+            .range(from, to)
+        ),
+        this.fetchAll((from, to) =>
+          this.supabase
+            .from("categories")
+            .select(
+              "id, name, parent_id, is_archived, color, icon, sort_order, cost_group, warning_threshold, over_threshold, pace_alert_day, pace_alert_percent"
+            )
+            .eq("household_id", householdId)
+            .order("id")
+            .range(from, to)
+        ),
+        this.fetchAll((from, to) =>
+          this.supabase
+            .from("budgets")
+            .select("id, month, note")
+            .eq("household_id", householdId)
+            .order("id")
+            .range(from, to)
+        ),
+        this.fetchAll((from, to) =>
+          this.supabase
+            .from("incomes")
+            .select("id, budget_id, household_member_id, amount")
+            .eq("household_id", householdId)
+            .order("id")
+            .range(from, to)
+        ),
+        this.fetchAll((from, to) =>
+          this.supabase
+            .from("planned_expenses")
+            .select("id, budget_id, category_id, limit_amount, rollover_mode")
+            .eq("household_id", householdId)
+            .order("id")
+            .range(from, to)
+        ),
+        this.fetchAll((from, to) =>
+          this.supabase
+            .from("transactions")
+            .select(
+              "id, budget_id, category_id, household_member_id, kind, amount, transaction_date, note, external_id, refunded_transaction_id"
+            )
+            .eq("household_id", householdId)
+            .order("id")
+            .range(from, to)
+        ),
+        this.fetchAll((from, to) =>
+          this.supabase
+            .from("transaction_splits")
+            .select("id, transaction_id, category_id, amount")
+            .eq("household_id", householdId)
+            .order("id")
+            .range(from, to)
+        ),
+      ]
+    );
+
+    return {
+      version: HOUSEHOLD_BACKUP_VERSION,
+      exportedAt: new Date().toISOString(),
+      household: {
+        name: household.name,
+        categoryWarningThreshold: household.category_warning_threshold,
+        categoryOverThreshold: household.category_over_threshold,
+        paceAlertDay: household.pace_alert_day,
+        paceAlertPercent: household.pace_alert_percent,
+      },
+      members: members.map((member) => ({
+        id: member.id,
+        fullName: member.full_name,
+        isActive: member.is_active,
+      })),
+      categories: categories.map((category) => ({
+        id: category.id,
+        name: category.name,
+        parentId: category.parent_id,
+        isArchived: category.is_archived,
+        color: category.color,
+        icon: category.icon,
+        sortOrder: category.sort_order,
+        group: category.cost_group as CategoryGroup,
+        warningThreshold: category.warning_threshold,
+        overThreshold: category.over_threshold,
+        paceAlertDay: category.pace_alert_day,
+        paceAlertPercent: category.pace_alert_percent,
+      })),
+      budgets: budgets.map((budget) => ({
+        id: budget.id,
+        month: budget.month,
+        note: budget.note,
+      })),
+      incomes: incomes.map((income) => ({
+        id: income.id,
+        budgetId: income.budget_id,
+        householdMemberId: income.household_member_id,
+        amount: income.amount,
+      })),
+      plannedExpenses: plannedExpenses.map((plannedExpense) => ({
+        id: plannedExpense.id,
+        budgetId: plannedExpense.budget_id,
+        categoryId: plannedExpense.category_id,
+        limitAmount: plannedExpense.limit_amount,
+        rolloverMode: plannedExpense.rollover_mode as PlannedExpenseRolloverMode,
+      })),
+      transactions: transactions.map((transaction) => ({
+        id: transaction.id,
+        budgetId: transaction.budget_id,
+        categoryId: transaction.category_id,
+        householdMemberId: transaction.household_member_id,
+        kind: transaction.kind as TransactionKind,
+        amount: transaction.amount,
+        transactionDate: transaction.transaction_date,
+        note: transaction.note,
+        externalId: transaction.external_id,
+        refundedTransactionId: transaction.refunded_transaction_id,
+      })),
+      transactionSplits: transactionSplits.map((split) => ({
+        id: split.id,
+        transactionId: split.transaction_id,
+        categoryId: split.category_id,
+        amount: split.amount,
+      })),
+    };
+  }
+
+  /**
+   * Restores a backup into the user's household. Every record gets a new ID, and the whole backup is written
+   * in a single database transaction. The household must be empty apart from its default categories,
+   * which are replaced with the categories of the backup; its name and alert settings are overwritten.
+   *
+   * @param userId - The ID of the user whose household to restore the backup into
+   * @param backup - Validated backup document
+   * @returns Promise resolving to the number of restored records
+   * @throws Error if household not found, household not empty, or database error occurs
+   */
+  async importHousehold(userId: string, backup: HouseholdBackupDto): Promise<HouseholdImportedDto> {
+    const { data: household, error: householdError } = await this.supabase
+      .from("households")
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
+      .single();
+
+    if (householdError) {
+      if (householdError.code === "PGRST116") {
+        throw new Error("HOUSEHOLD_NOT_FOUND");
+      }
+      console.error("Database error while fetching household for restore:", householdError);
+      throw new Error("HOUSEHOLD_IMPORT_FAILED");
+    }
+
+    if (!household) {
+      throw new Error("HOUSEHOLD_NOT_FOUND");
+    }
+
+    const remapped = remapBackupIds(backup);
+
+    const { error } = await this.supabase.rpc("import_household_backup", {
+      backup: this.toImportPayload(remapped),
+    });
+
+    if (error) {
+      // object_not_in_prerequisite_state, raised when the household already has data
+      if (error.code === "55000") {
+        throw new Error("HOUSEHOLD_NOT_EMPTY");
+      }
+      // no_data_found, raised when the user has no household
+      if (error.code === "P0002") {
+        throw new Error("HOUSEHOLD_NOT_FOUND");
+      }
+      // Integrity constraint violations, e.g. a split line or amount the database rejects
+      if (error.code?.startsWith("23")) {
+        console.warn("Backup rejected by database constraints:", error);
+        throw new Error("INVALID_BACKUP");
+      }
+      console.error("Database error while restoring household backup:", error);
+      throw new Error("HOUSEHOLD_IMPORT_FAILED");
+    }
+
+    return {
+      members: backup.members.length,
+      categories: backup.categories.length,
+      budgets: backup.budgets.length,
+      incomes: backup.incomes.length,
+      plannedExpenses: backup.plannedExpenses.length,
+      transactions: backup.transactions.length,
+    };
+  }
+
+  /**
+   * Converts a backup to the rows expected by import_household_backup(), keyed by column names.
+   */
+  private toImportPayload(backup: HouseholdBackupDto): Json {
+    return {
+      household: {
+        name: backup.household.name,
+        category_warning_threshold: backup.household.categoryWarningThreshold,
+        category_over_threshold: backup.household.categoryOverThreshold,
+        pace_alert_day: backup.household.paceAlertDay,
+        pace_alert_percent: backup.household.paceAlertPercent,
+      },
+      members: backup.members.map((member) => ({
+        id: member.id,
+        full_name: member.fullName.trim(),
+        is_active: member.isActive,
+      })),
+      categories: backup.categories.map((category) => ({
+        id: category.id,
+        name: category.name.trim(),
+        parent_id: category.parentId,
+        is_archived: category.isArchived,
+        color: category.color,
+        icon: category.icon,
+        sort_order: category.sortOrder,
+        cost_group: category.group,
+        warning_threshold: category.warningThreshold,
+        over_threshold: category.overThreshold,
+        pace_alert_day: category.paceAlertDay,
+        pace_alert_percent: category.paceAlertPercent,
+      })),
+      budgets: backup.budgets.map((budget) => ({
+        id: budget.id,
+        month: budget.month,
+        note: budget.note,
+      })),
+      incomes: backup.incomes.map((income) => ({
+        id: income.id,
+        budget_id: income.budgetId,
+        household_member_id: income.householdMemberId,
+        amount: income.amount,
+      })),
+      planned_expenses: backup.plannedExpenses.map((plannedExpense) => ({
+        id: plannedExpense.id,
+        budget_id: plannedExpense.budgetId,
+        category_id: plannedExpense.categoryId,
+        limit_amount: plannedExpense.limitAmount,
+        rollover_mode: plannedExpense.rolloverMode,
+      })),
+      transactions: backup.transactions.map((transaction) => ({
+        id: transaction.id,
+        budget_id: transaction.budgetId,
+        category_id: transaction.categoryId,
+        household_member_id: transaction.householdMemberId,
+        kind: transaction.kind,
+        amount: transaction.amount,
+        transaction_date: transaction.transactionDate,
+        note: transaction.note,
+        external_id: transaction.externalId,
+        refunded_transaction_id: transaction.refundedTransactionId,
+      })),
+      transaction_splits: backup.transactionSplits.map((split) => ({
+        id: split.id,
+        transaction_id: split.transactionId,
+        category_id: split.categoryId,
+        amount: split.amount,
+      })),
+    };
+  }
+
+  /**
+   * Fetches every row of a query, batch by batch.
+   *
+   * @param fetchBatch - Runs the query for the rows in the given range (inclusive); must have a stable order
+   * @returns Promise resolving to all rows
+   * @throws Error if database error occurs
+   */
+  private async fetchAll<T>(
+    fetchBatch: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+  ): Promise<T[]> {
+    const rows: T[] = [];
+
+    for (let offset = 0; ; offset += BACKUP_BATCH_SIZE) {
+      const { data, error } = await fetchBatch(offset, offset + BACKUP_BATCH_SIZE - 1);
+
+      if (error) {
+        console.error("Database error while fetching household data for backup:", error);
+        throw new Error("HOUSEHOLD_EXPORT_FAILED");
+      }
+
+      rows.push(...(data || []));
+
+      if (!data || data.length < BACKUP_BATCH_SIZE) {
+        return rows;
+      }
+    }
+  }
+}
+
+/**
+ * Factory function to create a HouseholdBackupService instance.
+ *
+ * @param supabase - Supabase client instance
+ * @returns New HouseholdBackupService instance
+ */
+export function createHouseholdBackupService(supabase: SupabaseClientType): HouseholdBackupService {
+  return new HouseholdBackupService(supabase);
+}
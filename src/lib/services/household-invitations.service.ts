@@ -0,0 +1,247 @@
+import type { Tables } from "../../db/database.types";
+import type { SupabaseClient } from "../../db/supabase.client";
+import type {
+  AssignableHouseholdRole,
+  CreateHouseholdInvitationCommand,
+  HouseholdInvitationAcceptedDto,
+  HouseholdInvitationDto,
+  HouseholdInvitationsListResponseDto,
+} from "../../types";
+import { generateInvitationToken, getInvitationStatus, hashInvitationToken } from "../invitations";
+
+export type SupabaseClientType = SupabaseClient;
+
+type HouseholdInvitationRecord = Pick<
+  Tables<"household_invitations">,
+  "id" | "email" | "role" | "expires_at" | "accepted_at" | "revoked_at" | "created_at"
+>;
+
+const HOUSEHOLD_INVITATION_COLUMNS = "id, email, role, expires_at, accepted_at, revoked_at, created_at";
+
+/**
+ * Service for inviting people to a household and accepting invitations.
+ */
+export class HouseholdInvitationsService {
+  constructor(private supabase: SupabaseClientType) {}
+
+  /**
+   * Lists invitations of the specified user's household, the newest first.
+   *
+   * @param userId - The ID of the user whose household invitations to retrieve
+   * @returns Promise resolving to the list of invitations
+   * @throws Error if household not found or database error occurs
+   */
+  async listInvitations(userId: string): Promise<HouseholdInvitationsListResponseDto> {
+    const householdId = await this.getHouseholdId(userId, "HOUSEHOLD_INVITATIONS_LIST_FAILED");
+
+    const { data, error } = await this.supabase
+      .from("household_invitations")
+      .select(HOUSEHOLD_INVITATION_COLUMNS)
+      .eq("household_id", householdId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Database error while listing household invitations:", error);
+      throw new Error("HOUSEHOLD_INVITATIONS_LIST_FAILED");
+    }
+
+    return { data: (data || []).map((invitation) => this.mapInvitationToDto(invitation)) };
+  }
+
+  /**
+   * Creates an invitation to the specified user's household.
+   * The token is returned only here; the database keeps its hash.
+   *
+   * @param userId - The ID of the user creating the invitation
+   * @param command - The invitation creation command
+   * @returns Promise resolving to the created invitation and its token
+   * @throws Error if household not found, a pending invitation for the email exists, or database error occurs
+   */
+  async createInvitation(
+    userId: string,
+    command: CreateHouseholdInvitationCommand
+  ): Promise<{ invitation: HouseholdInvitationDto; token: string }> {
+    const householdId = await this.getHouseholdId(userId, "HOUSEHOLD_INVITATION_CREATE_FAILED");
+    const email = command.email.trim().toLowerCase();
+
+    const { data: existing, error: existingError } = await this.supabase
+      .from("household_invitations")
+      .select("id")
+      .eq("household_id", householdId)
+      .eq("email", email)
+      .is("accepted_at", null)
+      .is("revoked_at", null)
+      .gt("expires_at", new Date().toISOString())
+      .limit(1);
+
+    if (existingError) {
+      console.error("Database error while checking pending invitations:", existingError);
+      throw new Error("HOUSEHOLD_INVITATION_CREATE_FAILED");
+    }
+
+    if (existing && existing.length > 0) {
+      throw new Error("INVITATION_ALREADY_PENDING");
+    }
+
+    const token = generateInvitationToken();
+
+    const { data, error } = await this.supabase
+      .from("household_invitations")
+      .insert({
+        household_id: householdId,
+        email,
+        role: command.role ?? "editor",
+        token_hash: await hashInvitationToken(token),
+        invited_by: userId,
+      })
+      .select(HOUSEHOLD_INVITATION_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      console.error("Database error while creating household invitation:", error);
+      throw new Error("HOUSEHOLD_INVITATION_CREATE_FAILED");
+    }
+
+    return { invitation: this.mapInvitationToDto(data), token };
+  }
+
+  /**
+   * Revokes a pending invitation of the specified user's household.
+   *
+   * @param userId - The ID of the user revoking the invitation
+   * @param invitationId - The ID of the invitation to revoke
+   * @throws Error if household or invitation not found, invitation no longer pending, or database error occurs
+   */
+  async revokeInvitation(userId: string, invitationId: string): Promise<void> {
+    const householdId = await this.getHouseholdId(userId, "HOUSEHOLD_INVITATION_REVOKE_FAILED");
+
+    const { data: invitation, error: fetchError } = await this.supabase
+      .from("household_invitations")
+      .select(HOUSEHOLD_INVITATION_COLUMNS)
+      .eq("id", invitationId)
+      .eq("household_id", householdId)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error("Database error while fetching household invitation:", fetchError);
+      throw new Error("HOUSEHOLD_INVITATION_REVOKE_FAILED");
+    }
+
+    if (!invitation) {
+      throw new Error("INVITATION_NOT_FOUND");
+    }
+
+    if (this.mapInvitationToDto(invitation).status !== "pending") {
+      throw new Error("INVITATION_NOT_PENDING");
+    }
+
+    const { error } = await this.supabase
+      .from("household_invitations")
+      .update({ revoked_at: new Date().toISOString() })
+      .eq("id", invitationId)
+      .eq("household_id", householdId);
+
+    if (error) {
+      console.error("Database error while revoking household invitation:", error);
+      throw new Error("HOUSEHOLD_INVITATION_REVOKE_FAILED");
+    }
+  }
+
+  /**
+   * Accepts an invitation for the current user, who then leaves their current household and joins the invited one.
+   * The user must be signed in with the invited email address. A household the user is the last account of must be
+   * empty, and the owner cannot leave a household other accounts still use.
+   *
+   * @param token - The invitation token
+   * @returns Promise resolving to the ID of the joined household
+   * @throws Error if invitation not found, expired or revoked, sent to another email, household not empty,
+   *   owner leaving a household other accounts still use, or database error occurs
+   */
+  async acceptInvitation(token: string): Promise<HouseholdInvitationAcceptedDto> {
+    const { data, error } = await this.supabase.rpc("accept_household_invitation", {
+      invitation_token: token,
+    });
+
+    if (error) {
+      // no_data_found, raised for unknown, used, expired and revoked invitations
+      if (error.code === "P0002") {
+        throw new Error("INVITATION_NOT_FOUND");
+      }
+      // insufficient_privilege, raised when the invitation was sent to another email address
+      if (error.code === "42501") {
+        throw new Error("INVITATION_EMAIL_MISMATCH");
+      }
+      // object_not_in_prerequisite_state, raised when the user is the last account of a household with data
+      if (error.code === "55000") {
+        throw new Error("HOUSEHOLD_NOT_EMPTY");
+      }
+      // dependent_objects_still_exist, raised when the owner would leave a household other accounts still use
+      if (error.code === "2BP01") {
+        throw new Error("HOUSEHOLD_OWNER_CANNOT_LEAVE");
+      }
+      console.error("Database error while accepting household invitation:", error);
+      throw new Error("HOUSEHOLD_INVITATION_ACCEPT_FAILED");
+    }
+
+    return { householdId: data };
+  }
+
+  /**
+   * Retrieves the ID of the household the user is a member of.
+   *
+   * @param userId - The ID of the user
+   * @param failureCode - Error code thrown on unexpected database errors
+   * @returns Promise resolving to the household ID
+   * @throws Error if household not found or database error occurs
+   */
+  private async getHouseholdId(userId: string, failureCode: string): Promise<string> {
+    const { data: householdData, error: householdError } = await this.supabase
+      .from("households")
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
+      .single();
+
+    if (householdError) {
+      if (householdError.code === "PGRST116") {
+        throw new Error("HOUSEHOLD_NOT_FOUND");
+      }
+      console.error("Database error while fetching household:", householdError);
+      throw new Error(failureCode);
+    }
+
+    if (!householdData) {
+      throw new Error("HOUSEHOLD_NOT_FOUND");
+    }
+
+    return householdData.id;
+  }
+
+  /**
+   * Maps a database invitation record to HouseholdInvitationDto.
+   */
+  private mapInvitationToDto(row: HouseholdInvitationRecord): HouseholdInvitationDto {
+    return {
+      id: row.id,
+      email: row.email,
+      role: row.role as AssignableHouseholdRole,
+      status: getInvitationStatus({
+        acceptedAt: row.accepted_at,
+        revokedAt: row.revoked_at,
+        expiresAt: row.expires_at,
+      }),
+      expiresAt: row.expires_at,
+      acceptedAt: row.accepted_at,
+      createdAt: row.created_at,
+    };
+  }
+}
+
+/**
+ * Factory function to create a HouseholdInvitationsService instance.
+ *
+ * @param supabase - Supabase client instance
+ * @returns New HouseholdInvitationsService instance
+ */
+export function createHouseholdInvitationsService(supabase: SupabaseClientType): HouseholdInvitationsService {
+  return new HouseholdInvitationsService(supabase);
+}
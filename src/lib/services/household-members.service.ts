@@ -1,3 +1,4 @@
+import type { Tables } from "../../db/database.types";
 import type { SupabaseClient } from "../../db/supabase.client";
 import type {
   HouseholdMemberDto,
@@ -6,9 +7,17 @@ import type {
   CreateHouseholdMemberCommand,
   UpdateHouseholdMemberCommand,
 } from "../../types";
+import { CURRENT_USER_MEMBER_FILTER } from "../validation/transactions";
 
 export type SupabaseClientType = SupabaseClient;
 
+type HouseholdMemberRecord = Pick<
+  Tables<"household_members">,
+  "id" | "full_name" | "is_active" | "user_id" | "created_at" | "updated_at"
+>;
+
+const HOUSEHOLD_MEMBER_COLUMNS = "id, full_name, is_active, user_id, created_at, updated_at";
+
 export interface ListMembersOptions {
   includeInactive?: boolean;
   page?: number;
@@ -36,8 +45,8 @@ export class HouseholdMembersService {
     // First, get the household_id for the user
     const { data: householdData, error: householdError } = await this.supabase
       .from("households")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
       .single();
 
     if (householdError) {
@@ -62,7 +71,7 @@ export class HouseholdMembersService {
     // Build the query for household members
     let query = this.supabase
       .from("household_members")
-      .select("id, full_name, is_active, created_at, updated_at", { count: "exact" })
+      .select(HOUSEHOLD_MEMBER_COLUMNS, { count: "exact" })
       .eq("household_id", householdId);
 
     // Apply active/inactive filter
@@ -89,13 +98,7 @@ export class HouseholdMembersService {
     }
 
     // Map database rows to DTOs
-    const members: HouseholdMemberDto[] = (membersData || []).map((member) => ({
-      id: member.id,
-      fullName: member.full_name,
-      isActive: member.is_active,
-      createdAt: member.created_at,
-      updatedAt: member.updated_at,
-    }));
+    const members: HouseholdMemberDto[] = (membersData || []).map((member) => this.mapMemberToDto(member, userId));
 
     // Calculate pagination metadata
     const totalItems = count || 0;
@@ -120,14 +123,14 @@ export class HouseholdMembersService {
    * @param userId - The ID of the user whose household to add the member to
    * @param command - The command containing member data to create
    * @returns Promise resolving to the created household member DTO
-   * @throws Error if household not found, name conflict, or database error occurs
+   * @throws Error if household not found, name conflict, linked account invalid or taken, or database error occurs
    */
   async createMember(userId: string, command: CreateHouseholdMemberCommand): Promise<HouseholdMemberDto> {
     // First, get the household_id for the user
     const { data: householdData, error: householdError } = await this.supabase
       .from("households")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
       .single();
 
     if (householdError) {
@@ -166,6 +169,11 @@ export class HouseholdMembersService {
       throw new Error("MEMBER_NAME_CONFLICT");
     }
 
+    // A linked account must have access to the household and no other member
+    if (command.userId) {
+      await this.validateLinkedUser(householdId, command.userId, null, "MEMBER_CREATE_FAILED");
+    }
+
     // Insert the new household member
     const { data: newMember, error: insertError } = await this.supabase
       .from("household_members")
@@ -173,10 +181,16 @@ export class HouseholdMembersService {
         household_id: householdId,
         full_name: command.fullName,
         is_active: true,
+        user_id: command.userId ?? null,
       })
-      .select("id, full_name, is_active, created_at, updated_at")
+      .select(HOUSEHOLD_MEMBER_COLUMNS)
       .single();
 
+    // foreign_key_violation, raised when the account lost access to the household in the meantime
+    if (insertError?.code === "23503") {
+      throw new Error("MEMBER_USER_NOT_IN_HOUSEHOLD");
+    }
+
     if (insertError) {
       console.error("Database error while creating household member:", insertError);
       throw new Error("MEMBER_CREATE_FAILED");
@@ -187,13 +201,7 @@ export class HouseholdMembersService {
     }
 
     // Map database row to DTO
-    return {
-      id: newMember.id,
-      fullName: newMember.full_name,
-      isActive: newMember.is_active,
-      createdAt: newMember.created_at,
-      updatedAt: newMember.updated_at,
-    };
+    return this.mapMemberToDto(newMember, userId);
   }
 
   /**
@@ -203,7 +211,8 @@ export class HouseholdMembersService {
    * @param memberId - The ID of the household member to update
    * @param command - The command containing updated member data
    * @returns Promise resolving to the updated household member DTO
-   * @throws Error if household not found, member not found, name conflict, or database error occurs
+   * @throws Error if household not found, member not found, name conflict, linked account invalid or taken,
+   *   or database error occurs
    */
   async updateMember(
     userId: string,
@@ -213,8 +222,8 @@ export class HouseholdMembersService {
     // First, get the household_id for the user
     const { data: householdData, error: householdError } = await this.supabase
       .from("households")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
       .single();
 
     if (householdError) {
@@ -278,14 +287,22 @@ export class HouseholdMembersService {
       }
     }
 
+    // A linked account must have access to the household and no other member
+    if (command.userId) {
+      await this.validateLinkedUser(householdId, command.userId, memberId, "MEMBER_UPDATE_FAILED");
+    }
+
     // Prepare update data
-    const updateData: Record<string, string | boolean> = {};
+    const updateData: Record<string, string | boolean | null> = {};
     if (command.fullName !== undefined) {
       updateData.full_name = command.fullName;
     }
     if (command.isActive !== undefined) {
       updateData.is_active = command.isActive;
     }
+    if (command.userId !== undefined) {
+      updateData.user_id = command.userId;
+    }
 
     // Update the household member
     const { data: updatedMember, error: updateError } = await this.supabase
@@ -293,9 +310,14 @@ export class HouseholdMembersService {
       .update(updateData)
       .eq("id", memberId)
       .eq("household_id", householdId) // Additional security check via RLS
-      .select("id, full_name, is_active, created_at, updated_at")
+      .select(HOUSEHOLD_MEMBER_COLUMNS)
       .single();
 
+    // foreign_key_violation, raised when the account lost access to the household in the meantime
+    if (updateError?.code === "23503") {
+      throw new Error("MEMBER_USER_NOT_IN_HOUSEHOLD");
+    }
+
     if (updateError) {
       console.error("Database error while updating household member:", updateError);
       throw new Error("MEMBER_UPDATE_FAILED");
@@ -306,13 +328,7 @@ export class HouseholdMembersService {
     }
 
     // Map database row to DTO
-    return {
-      id: updatedMember.id,
-      fullName: updatedMember.full_name,
-      isActive: updatedMember.is_active,
-      createdAt: updatedMember.created_at,
-      updatedAt: updatedMember.updated_at,
-    };
+    return this.mapMemberToDto(updatedMember, userId);
   }
 
   /**
@@ -328,8 +344,8 @@ export class HouseholdMembersService {
     // First, get the household_id for the user
     const { data: householdData, error: householdError } = await this.supabase
       .from("households")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
       .single();
 
     if (householdError) {
@@ -382,6 +398,117 @@ export class HouseholdMembersService {
       throw new Error("MEMBER_DEACTIVATE_FAILED");
     }
   }
+
+  /**
+   * Finds the member of a household linked to the specified account.
+   *
+   * @param householdId - The ID of the household
+   * @param userId - The ID of the account
+   * @param failureCode - Error code thrown on unexpected database errors
+   * @returns Promise resolving to the linked member, or null if no member is linked to the account
+   * @throws Error if database error occurs
+   */
+  async getLinkedMember(
+    householdId: string,
+    userId: string,
+    failureCode: string
+  ): Promise<{ id: string; isActive: boolean } | null> {
+    const { data, error } = await this.supabase
+      .from("household_members")
+      .select("id, is_active")
+      .eq("household_id", householdId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Database error while fetching member linked to user:", error);
+      throw new Error(failureCode);
+    }
+
+    return data ? { id: data.id, isActive: data.is_active } : null;
+  }
+
+  /**
+   * Resolves the member filter of a list: "me" stands for the member linked to the signed-in account.
+   *
+   * @param householdId - The ID of the household
+   * @param userId - The ID of the signed-in account
+   * @param memberId - Member ID, "me" or undefined when the list is not filtered by member
+   * @param failureCode - Error code thrown on unexpected database errors
+   * @returns Promise resolving to the member ID to filter by, undefined for no filter,
+   *   or null when "me" was requested but no member is linked to the account
+   * @throws Error if database error occurs
+   */
+  async resolveMemberFilter(
+    householdId: string,
+    userId: string,
+    memberId: string | undefined,
+    failureCode: string
+  ): Promise<string | null | undefined> {
+    if (memberId !== CURRENT_USER_MEMBER_FILTER) {
+      return memberId;
+    }
+
+    const linkedMember = await this.getLinkedMember(householdId, userId, failureCode);
+    return linkedMember ? linkedMember.id : null;
+  }
+
+  /**
+   * Checks that an account can be linked to a member: it must have access to the household
+   * and must not be linked to another member.
+   *
+   * @param householdId - The ID of the household
+   * @param linkedUserId - The ID of the account to link
+   * @param memberId - The ID of the member being updated, null for a new member
+   * @param failureCode - Error code thrown on unexpected database errors
+   * @throws Error if account has no access to the household, is linked to another member, or database error occurs
+   */
+  private async validateLinkedUser(
+    householdId: string,
+    linkedUserId: string,
+    memberId: string | null,
+    failureCode: string
+  ): Promise<void> {
+    const { data: householdUser, error: householdUserError } = await this.supabase
+      .from("household_users")
+      .select("user_id")
+      .eq("household_id", householdId)
+      .eq("user_id", linkedUserId)
+      .maybeSingle();
+
+    if (householdUserError) {
+      console.error("Database error while fetching household user:", householdUserError);
+      throw new Error(failureCode);
+    }
+
+    if (!householdUser) {
+      throw new Error("MEMBER_USER_NOT_IN_HOUSEHOLD");
+    }
+
+    const linkedMember = await this.getLinkedMember(householdId, linkedUserId, failureCode);
+
+    if (linkedMember && linkedMember.id !== memberId) {
+      throw new Error("MEMBER_USER_CONFLICT");
+    }
+  }
+
+  /**
+   * Maps a database member record to HouseholdMemberDto.
+   *
+   * @param row - The member record
+   * @param userId - The ID of the signed-in user, used to mark their own member
+   */
+  private mapMemberToDto(row: HouseholdMemberRecord, userId: string): HouseholdMemberDto {
+    return {
+      id: row.id,
+      fullName: row.full_name,
+      isActive: row.is_active,
+      userId: row.user_id,
+      isCurrentUser: row.user_id !== null && row.user_id === userId,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
 }
 
 /**
@@ -0,0 +1,111 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type {
+  HouseholdRole,
+  HouseholdUserDto,
+  HouseholdUsersListResponseDto,
+  UpdateHouseholdUserRoleCommand,
+} from "../../types";
+
+export type SupabaseClientType = SupabaseClient;
+
+/**
+ * Service for the accounts with access to a household and their roles.
+ */
+export class HouseholdUsersService {
+  constructor(private supabase: SupabaseClientType) {}
+
+  /**
+   * Lists the accounts with access to the specified user's household, in the order they joined.
+   *
+   * @param userId - The ID of the user whose household accounts to retrieve
+   * @returns Promise resolving to the list of household accounts
+   * @throws Error if database error occurs
+   */
+  async listUsers(userId: string): Promise<HouseholdUsersListResponseDto> {
+    const { data, error } = await this.supabase.rpc("list_household_users");
+
+    if (error) {
+      console.error("Database error while listing household users:", error);
+      throw new Error("HOUSEHOLD_USERS_LIST_FAILED");
+    }
+
+    return {
+      data: (data || []).map((row) => this.mapUserToDto(row, userId)),
+    };
+  }
+
+  /**
+   * Changes the role of another account with access to the specified user's household.
+   * The owner role cannot be granted, and the owner keeps their role.
+   *
+   * @param userId - The ID of the user changing the role
+   * @param targetUserId - The ID of the account whose role to change
+   * @param command - The new role
+   * @returns Promise resolving to the updated household account
+   * @throws Error if the account is not found, is the owner or the user themselves, or database error occurs
+   */
+  async updateUserRole(
+    userId: string,
+    targetUserId: string,
+    command: UpdateHouseholdUserRoleCommand
+  ): Promise<HouseholdUserDto> {
+    if (targetUserId === userId) {
+      throw new Error("CANNOT_CHANGE_OWN_ROLE");
+    }
+
+    const { data: users } = await this.listUsers(userId);
+    const target = users.find((user) => user.userId === targetUserId);
+
+    if (!target) {
+      throw new Error("HOUSEHOLD_USER_NOT_FOUND");
+    }
+
+    if (target.role === "owner") {
+      throw new Error("OWNER_ROLE_LOCKED");
+    }
+
+    const { data, error } = await this.supabase
+      .from("household_users")
+      .update({ role: command.role })
+      .eq("user_id", targetUserId)
+      .select("user_id");
+
+    if (error) {
+      console.error("Database error while updating household user role:", error);
+      throw new Error("HOUSEHOLD_USER_UPDATE_FAILED");
+    }
+
+    // The update policy only lets the owner change roles
+    if (!data || data.length === 0) {
+      throw new Error("HOUSEHOLD_USER_NOT_FOUND");
+    }
+
+    return { ...target, role: command.role };
+  }
+
+  /**
+   * Maps a household account returned by list_household_users() to HouseholdUserDto.
+   */
+  private mapUserToDto(
+    row: { user_id: string; email: string; role: string; created_at: string },
+    currentUserId: string
+  ): HouseholdUserDto {
+    return {
+      userId: row.user_id,
+      email: row.email,
+      role: row.role as HouseholdRole,
+      joinedAt: row.created_at,
+      isCurrentUser: row.user_id === currentUserId,
+    };
+  }
+}
+
+/**
+ * Factory function to create a HouseholdUsersService instance.
+ *
+ * @param supabase - Supabase client instance
+ * @returns New HouseholdUsersService instance
+ */
+export function createHouseholdUsersService(supabase: SupabaseClientType): HouseholdUsersService {
+  return new HouseholdUsersService(supabase);
+}
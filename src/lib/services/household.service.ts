@@ -1,8 +1,14 @@
+import type { Tables, TablesUpdate } from "../../db/database.types";
 import type { SupabaseClient } from "../../db/supabase.client";
 import type { HouseholdDto, DefaultCategoryDto, UpdateHouseholdCommand } from "../../types";
 
 export type SupabaseClientType = SupabaseClient;
 
+type HouseholdRecord = Omit<Tables<"households">, "user_id">;
+
+const HOUSEHOLD_COLUMNS =
+  "id, name, category_warning_threshold, category_over_threshold, pace_alert_day, pace_alert_percent, created_at, updated_at";
+
 export interface GetHouseholdProfileOptions {
   includeDefaults?: boolean;
 }
@@ -32,11 +38,13 @@ export class HouseholdService {
   ): Promise<GetHouseholdProfileResult> {
     const { includeDefaults = false } = options;
 
+    const householdId = await this.getHouseholdId(userId);
+
     // Fetch household data for the user
     const { data: householdData, error: householdError } = await this.supabase
       .from("households")
-      .select("id, name, created_at, updated_at")
-      .eq("user_id", userId)
+      .select(HOUSEHOLD_COLUMNS)
+      .eq("id", householdId)
       .single();
 
     if (householdError) {
@@ -53,12 +61,7 @@ export class HouseholdService {
     }
 
     // Map database row to DTO
-    const household: HouseholdDto = {
-      id: householdData.id,
-      name: householdData.name,
-      createdAt: householdData.created_at,
-      updatedAt: householdData.updated_at,
-    };
+    const household = this.mapHouseholdToDto(householdData);
 
     const result: GetHouseholdProfileResult = { household };
 
@@ -90,35 +93,59 @@ export class HouseholdService {
   }
 
   /**
-   * Updates the household name for the specified user.
+   * Updates the household name and/or the default alert settings of categories for the specified user.
    *
    * @param userId - The ID of the user whose household to update
-   * @param command - The update command containing the new name
+   * @param command - The update command containing the new name and/or alert settings
    * @returns Promise resolving to updated household data
-   * @throws Error if household not found, update failed, or database error occurs
+   * @throws Error if household not found, warning threshold above the overspending threshold,
+   *   update failed, or database error occurs
    */
-  async updateHouseholdName(userId: string, command: UpdateHouseholdCommand): Promise<HouseholdDto> {
+  async updateHousehold(userId: string, command: UpdateHouseholdCommand): Promise<HouseholdDto> {
+    const { name, categoryWarningThreshold, categoryOverThreshold, paceAlertDay, paceAlertPercent } = command;
+
     // Validate input
     if (!userId?.trim()) {
       throw new Error("INVALID_USER_ID");
     }
 
-    if (!command.name?.trim()) {
+    if (name !== undefined && !name.trim()) {
       throw new Error("INVALID_NAME");
     }
 
-    // Normalize the name (trim whitespace)
-    const normalizedName = command.name.trim();
+    const updateData: TablesUpdate<"households"> & { updated_at: string } = {
+      updated_at: new Date().toISOString(),
+    };
+
+    if (name !== undefined) {
+      // Normalize the name (trim whitespace)
+      updateData.name = name.trim();
+    }
+
+    if (categoryWarningThreshold !== undefined) {
+      updateData.category_warning_threshold = categoryWarningThreshold;
+    }
 
-    // Update household name for the user
+    if (categoryOverThreshold !== undefined) {
+      updateData.category_over_threshold = categoryOverThreshold;
+    }
+
+    if (paceAlertDay !== undefined) {
+      updateData.pace_alert_day = paceAlertDay;
+    }
+
+    if (paceAlertPercent !== undefined) {
+      updateData.pace_alert_percent = paceAlertPercent;
+    }
+
+    const householdId = await this.getHouseholdId(userId);
+
+    // Update the household of the user
     const { data: updatedData, error: updateError } = await this.supabase
       .from("households")
-      .update({
-        name: normalizedName,
-        updated_at: new Date().toISOString(),
-      })
-      .eq("user_id", userId)
-      .select("id, name, created_at, updated_at")
+      .update(updateData)
+      .eq("id", householdId)
+      .select(HOUSEHOLD_COLUMNS)
       .single();
 
     if (updateError) {
@@ -126,6 +153,10 @@ export class HouseholdService {
         // No rows updated - household not found for this user
         throw new Error("HOUSEHOLD_NOT_FOUND");
       }
+      // Check constraint violation (PostgreSQL error code 23514) - the warning threshold exceeds the other one
+      if (updateError.code === "23514") {
+        throw new Error("INVALID_THRESHOLDS");
+      }
       // Other database errors
       console.error("Database error during household update:", updateError);
       throw new Error("HOUSEHOLD_UPDATE_FAILED");
@@ -136,11 +167,54 @@ export class HouseholdService {
     }
 
     // Map database row to DTO
+    return this.mapHouseholdToDto(updatedData);
+  }
+
+  /**
+   * Resolves the household the user is a member of.
+   *
+   * @param userId - The ID of the user
+   * @returns Promise resolving to the household ID
+   * @throws Error if the user is not a member of any household or database error occurs
+   */
+  async getHouseholdId(userId: string): Promise<string> {
+    const { data, error } = await this.supabase
+      .from("household_users")
+      .select("household_id")
+      .eq("user_id", userId)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        throw new Error("HOUSEHOLD_NOT_FOUND");
+      }
+      console.error("Database error while resolving household membership:", error);
+      throw new Error("HOUSEHOLD_FETCH_FAILED");
+    }
+
+    if (!data) {
+      throw new Error("HOUSEHOLD_NOT_FOUND");
+    }
+
+    return data.household_id;
+  }
+
+  /**
+   * Maps a database household record to HouseholdDto.
+   *
+   * @param row - The household record from the database
+   * @returns Mapped HouseholdDto
+   */
+  private mapHouseholdToDto(row: HouseholdRecord): HouseholdDto {
     return {
-      id: updatedData.id,
-      name: updatedData.name,
-      createdAt: updatedData.created_at,
-      updatedAt: updatedData.updated_at,
+      id: row.id,
+      name: row.name,
+      categoryWarningThreshold: row.category_warning_threshold,
+      categoryOverThreshold: row.category_over_threshold,
+      paceAlertDay: row.pace_alert_day,
+      paceAlertPercent: row.pace_alert_percent,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
     };
   }
 }
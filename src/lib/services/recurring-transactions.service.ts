@@ -0,0 +1,616 @@
+import { endOfMonth, format, parseISO } from "date-fns";
+
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { TablesInsert } from "../../db/database.types";
+import type {
+  CreateRecurringTransactionCommand,
+  RecurringTransactionDto,
+  RecurringTransactionFrequency,
+  RecurringTransactionsListResponseDto,
+  RecurringTransactionsMaterializedDto,
+  TransactionDto,
+  TransactionKind,
+  UpdateRecurringTransactionCommand,
+} from "../../types";
+import {
+  getFirstOccurrenceOnOrAfter,
+  getMonthStart,
+  getNextOccurrence,
+  isWithinSchedule,
+  type RecurrenceSchedule,
+} from "../recurrence";
+
+export type SupabaseClientType = SupabaseClient;
+
+export interface ListRecurringTransactionsOptions {
+  includeInactive?: boolean;
+}
+
+export interface MaterializeRecurringTransactionsOptions {
+  /**
+   * Last date (inclusive, YYYY-MM-DD) for which occurrences are materialized. Defaults to today.
+   */
+  throughDate?: string;
+}
+
+const RECURRING_TRANSACTION_COLUMNS =
+  "id, category_id, amount, note, frequency, interval_days, start_date, end_date, next_run_date, is_active, created_at, updated_at";
+
+/**
+ * Safety limit for occurrences processed per rule in a single run
+ * (e.g. a weekly rule started years ago and never materialized).
+ */
+const MAX_OCCURRENCES_PER_RULE = 366;
+
+/**
+ * Service for managing recurring transaction rules and materializing them into transactions.
+ */
+export class RecurringTransactionsService {
+  constructor(private supabase: SupabaseClientType) {}
+
+  /**
+   * Lists recurring transaction rules for the specified user's household.
+   *
+   * @param userId - The ID of the user whose rules to retrieve
+   * @param options - Options for filtering (e.g., include paused rules)
+   * @returns Promise resolving to the list of recurring transactions
+   * @throws Error if household not found or database error occurs
+   */
+  async listRecurringTransactions(
+    userId: string,
+    options: ListRecurringTransactionsOptions = {}
+  ): Promise<RecurringTransactionsListResponseDto> {
+    const { includeInactive = true } = options;
+    const householdId = await this.getHouseholdId(userId, "RECURRING_TRANSACTIONS_LIST_FAILED");
+
+    let query = this.supabase
+      .from("recurring_transactions")
+      .select(RECURRING_TRANSACTION_COLUMNS)
+      .eq("household_id", householdId);
+
+    if (!includeInactive) {
+      query = query.eq("is_active", true);
+    }
+
+    const { data, error } = await query
+      .order("next_run_date", { ascending: true })
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Database error while fetching recurring transactions:", error);
+      throw new Error("RECURRING_TRANSACTIONS_LIST_FAILED");
+    }
+
+    return {
+      data: (data || []).map((row) => this.mapRecurringTransactionToDto(row)),
+    };
+  }
+
+  /**
+   * Creates a new recurring transaction rule for the specified user's household.
+   * The first occurrence is the start date itself.
+   *
+   * @param userId - The ID of the user creating the rule
+   * @param command - The recurring transaction creation command
+   * @returns Promise resolving to the created recurring transaction DTO
+   * @throws Error if household not found, category invalid or archived, or database error occurs
+   */
+  async createRecurringTransaction(
+    userId: string,
+    command: CreateRecurringTransactionCommand
+  ): Promise<RecurringTransactionDto> {
+    const householdId = await this.getHouseholdId(userId, "RECURRING_TRANSACTION_CREATE_FAILED");
+
+    await this.validateCategory(householdId, command.categoryId, "RECURRING_TRANSACTION_CREATE_FAILED");
+
+    const { data, error } = await this.supabase
+      .from("recurring_transactions")
+      .insert({
+        household_id: householdId,
+        category_id: command.categoryId,
+        amount: command.amount,
+        note: command.note?.trim() || null,
+        frequency: command.frequency,
+        interval_days: command.frequency === "custom" ? (command.intervalDays ?? null) : null,
+        start_date: command.startDate,
+        end_date: command.endDate ?? null,
+        next_run_date: command.startDate,
+      })
+      .select(RECURRING_TRANSACTION_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      if (error?.code === "23514") {
+        throw new Error("INVALID_SCHEDULE");
+      }
+      console.error("Database error while creating recurring transaction:", error);
+      throw new Error("RECURRING_TRANSACTION_CREATE_FAILED");
+    }
+
+    return this.mapRecurringTransactionToDto(data);
+  }
+
+  /**
+   * Updates an existing recurring transaction rule.
+   * When the schedule changes, the next run date is recalculated from the new schedule
+   * without re-creating occurrences that were already materialized.
+   * A resumed rule continues from its next occurrence on or after today,
+   * so occurrences missed while it was paused are skipped.
+   *
+   * @param userId - The ID of the user updating the rule
+   * @param recurringTransactionId - The ID of the rule to update
+   * @param command - The update command containing changed fields
+   * @returns Promise resolving to the updated recurring transaction DTO
+   * @throws Error if household or rule not found, schedule or category invalid, category archived, or database error occurs
+   */
+  async updateRecurringTransaction(
+    userId: string,
+    recurringTransactionId: string,
+    command: UpdateRecurringTransactionCommand
+  ): Promise<RecurringTransactionDto> {
+    const householdId = await this.getHouseholdId(userId, "RECURRING_TRANSACTION_UPDATE_FAILED");
+
+    const { data: existing, error: fetchError } = await this.supabase
+      .from("recurring_transactions")
+      .select(RECURRING_TRANSACTION_COLUMNS)
+      .eq("id", recurringTransactionId)
+      .eq("household_id", householdId)
+      .single();
+
+    if (fetchError) {
+      if (fetchError.code === "PGRST116") {
+        throw new Error("RECURRING_TRANSACTION_NOT_FOUND");
+      }
+      console.error("Database error while fetching recurring transaction:", fetchError);
+      throw new Error("RECURRING_TRANSACTION_UPDATE_FAILED");
+    }
+
+    if (!existing) {
+      throw new Error("RECURRING_TRANSACTION_NOT_FOUND");
+    }
+
+    if (command.categoryId && command.categoryId !== existing.category_id) {
+      await this.validateCategory(householdId, command.categoryId, "RECURRING_TRANSACTION_UPDATE_FAILED");
+    }
+
+    const frequency = command.frequency ?? (existing.frequency as RecurringTransactionFrequency);
+    const schedule: RecurrenceSchedule = {
+      frequency,
+      intervalDays:
+        frequency === "custom"
+          ? command.intervalDays !== undefined
+            ? command.intervalDays
+            : existing.interval_days
+          : null,
+      startDate: command.startDate ?? existing.start_date,
+      endDate: command.endDate !== undefined ? command.endDate : existing.end_date,
+    };
+
+    if (frequency === "custom" && !schedule.intervalDays) {
+      throw new Error("INVALID_SCHEDULE");
+    }
+
+    if (schedule.endDate && schedule.endDate < schedule.startDate) {
+      throw new Error("INVALID_SCHEDULE");
+    }
+
+    // Prepare update object with only provided fields
+    const updateData: Record<string, unknown> = {};
+
+    if (command.categoryId !== undefined) {
+      updateData.category_id = command.categoryId;
+    }
+    if (command.amount !== undefined) {
+      updateData.amount = command.amount;
+    }
+    if (command.note !== undefined) {
+      updateData.note = command.note?.trim() || null;
+    }
+    if (command.isActive !== undefined) {
+      updateData.is_active = command.isActive;
+    }
+
+    const scheduleChanged =
+      command.frequency !== undefined || command.intervalDays !== undefined || command.startDate !== undefined;
+    // Occurrences missed while the rule was paused are not booked into past budgets
+    const reactivated = command.isActive === true && !existing.is_active;
+
+    if (scheduleChanged) {
+      updateData.frequency = schedule.frequency;
+      updateData.interval_days = schedule.intervalDays ?? null;
+      updateData.start_date = schedule.startDate;
+    }
+
+    if (scheduleChanged || reactivated) {
+      // Continue from the pending cursor, never before the (possibly moved) start date or, when resumed, today
+      const resumeFrom = [
+        existing.next_run_date,
+        schedule.startDate,
+        reactivated ? format(new Date(), "yyyy-MM-dd") : "",
+      ].reduce((latest, date) => (date > latest ? date : latest));
+      updateData.next_run_date = getFirstOccurrenceOnOrAfter(schedule, resumeFrom);
+    }
+
+    if (command.endDate !== undefined) {
+      updateData.end_date = schedule.endDate ?? null;
+    }
+
+    const { data, error } = await this.supabase
+      .from("recurring_transactions")
+      .update(updateData)
+      .eq("id", recurringTransactionId)
+      .eq("household_id", householdId)
+      .select(RECURRING_TRANSACTION_COLUMNS)
+      .single();
+
+    if (error || !data) {
+      if (error?.code === "PGRST116") {
+        throw new Error("RECURRING_TRANSACTION_NOT_FOUND");
+      }
+      if (error?.code === "23514") {
+        throw new Error("INVALID_SCHEDULE");
+      }
+      console.error("Database error while updating recurring transaction:", error);
+      throw new Error("RECURRING_TRANSACTION_UPDATE_FAILED");
+    }
+
+    return this.mapRecurringTransactionToDto(data);
+  }
+
+  /**
+   * Deletes a recurring transaction rule.
+   * Transactions that were already materialized are kept.
+   *
+   * @param userId - The ID of the user deleting the rule
+   * @param recurringTransactionId - The ID of the rule to delete
+   * @throws Error if household or rule not found, or database error occurs
+   */
+  async deleteRecurringTransaction(userId: string, recurringTransactionId: string): Promise<void> {
+    const householdId = await this.getHouseholdId(userId, "RECURRING_TRANSACTION_DELETE_FAILED");
+
+    const { data, error } = await this.supabase
+      .from("recurring_transactions")
+      .delete()
+      .eq("id", recurringTransactionId)
+      .eq("household_id", householdId)
+      .select("id");
+
+    if (error) {
+      console.error("Database error while deleting recurring transaction:", error);
+      throw new Error("RECURRING_TRANSACTION_DELETE_FAILED");
+    }
+
+    if (!data || data.length === 0) {
+      throw new Error("RECURRING_TRANSACTION_NOT_FOUND");
+    }
+  }
+
+  /**
+   * Creates transactions for every due occurrence of the household's active rules.
+   *
+   * Occurrences are booked into the budget of their month. When that budget does not exist yet:
+   * - occurrences from past months are skipped (the month is closed),
+   * - occurrences from the current or later months stay pending until the budget is created.
+   *
+   * The run is idempotent: already materialized occurrences are never created twice.
+   * Occurrences of rules whose category has been archived are skipped.
+   *
+   * @param userId - The ID of the user whose rules to materialize
+   * @param options - Options for the run (e.g., materialization horizon)
+   * @returns Promise resolving to the created transactions
+   * @throws Error if household not found or database error occurs
+   */
+  async materializeDueTransactions(
+    userId: string,
+    options: MaterializeRecurringTransactionsOptions = {}
+  ): Promise<RecurringTransactionsMaterializedDto> {
+    const today = format(new Date(), "yyyy-MM-dd");
+    const throughDate = options.throughDate ?? today;
+    const currentMonth = getMonthStart(today);
+
+    const householdId = await this.getHouseholdId(userId, "RECURRING_TRANSACTIONS_MATERIALIZE_FAILED");
+
+    const { data: rules, error: rulesError } = await this.supabase
+      .from("recurring_transactions")
+      .select(RECURRING_TRANSACTION_COLUMNS)
+      .eq("household_id", householdId)
+      .eq("is_active", true)
+      .lte("next_run_date", throughDate);
+
+    if (rulesError) {
+      console.error("Database error while fetching due recurring transactions:", rulesError);
+      throw new Error("RECURRING_TRANSACTIONS_MATERIALIZE_FAILED");
+    }
+
+    if (!rules || rules.length === 0) {
+      return { createdCount: 0, transactions: [] };
+    }
+
+    // Expand every rule into its due occurrences
+    const dueOccurrences = rules.map((rule) => {
+      const schedule = this.toSchedule(rule);
+      const occurrences: string[] = [];
+      let cursor = rule.next_run_date;
+
+      while (
+        cursor <= throughDate &&
+        isWithinSchedule(schedule, cursor) &&
+        occurrences.length < MAX_OCCURRENCES_PER_RULE
+      ) {
+        occurrences.push(cursor);
+        cursor = getNextOccurrence(schedule, cursor);
+      }
+
+      return { rule, schedule, occurrences };
+    });
+
+    // Resolve target budgets for all affected months in a single query
+    const months = [...new Set(dueOccurrences.flatMap(({ occurrences }) => occurrences.map(getMonthStart)))];
+    const budgetsByMonth = new Map<string, string>();
+
+    if (months.length > 0) {
+      const { data: budgets, error: budgetsError } = await this.supabase
+        .from("budgets")
+        .select("id, month")
+        .eq("household_id", householdId)
+        .in("month", months);
+
+      if (budgetsError) {
+        console.error("Database error while fetching budgets for materialization:", budgetsError);
+        throw new Error("RECURRING_TRANSACTIONS_MATERIALIZE_FAILED");
+      }
+
+      for (const budget of budgets || []) {
+        budgetsByMonth.set(budget.month, budget.id);
+      }
+    }
+
+    // Skip occurrences that were already materialized (e.g. by a concurrent request)
+    const ruleIds = rules.map((rule) => rule.id);
+    const { data: existingTransactions, error: existingError } = await this.supabase
+      .from("transactions")
+      .select("recurring_transaction_id, transaction_date")
+      .eq("household_id", householdId)
+      .in("recurring_transaction_id", ruleIds);
+
+    if (existingError) {
+      console.error("Database error while fetching materialized transactions:", existingError);
+      throw new Error("RECURRING_TRANSACTIONS_MATERIALIZE_FAILED");
+    }
+
+    const materializedKeys = new Set(
+      (existingTransactions || []).map((row) => `${row.recurring_transaction_id}:${row.transaction_date}`)
+    );
+
+    // Occurrences of rules whose category was archived are skipped, only their cursors move on
+    const { data: archivedCategories, error: categoriesError } = await this.supabase
+      .from("categories")
+      .select("id")
+      .eq("household_id", householdId)
+      .eq("is_archived", true)
+      .in("id", [...new Set(rules.map((rule) => rule.category_id))]);
+
+    if (categoriesError) {
+      console.error("Database error while fetching categories for materialization:", categoriesError);
+      throw new Error("RECURRING_TRANSACTIONS_MATERIALIZE_FAILED");
+    }
+
+    const archivedCategoryIds = new Set((archivedCategories || []).map((category) => category.id));
+
+    const inserts: TablesInsert<"transactions">[] = [];
+    const cursorUpdates: { id: string; nextRunDate: string }[] = [];
+
+    for (const { rule, schedule, occurrences } of dueOccurrences) {
+      let nextRunDate = rule.next_run_date;
+
+      for (const occurrence of occurrences) {
+        const month = getMonthStart(occurrence);
+        const budgetId = budgetsByMonth.get(month);
+
+        if (!budgetId && month >= currentMonth) {
+          // Wait until the budget for this month is created
+          break;
+        }
+
+        if (
+          budgetId &&
+          !archivedCategoryIds.has(rule.category_id) &&
+          !materializedKeys.has(`${rule.id}:${occurrence}`)
+        ) {
+          inserts.push({
+            household_id: householdId,
+            budget_id: budgetId,
+            category_id: rule.category_id,
+            amount: Number(rule.amount),
+            transaction_date: occurrence,
+            note: rule.note,
+            recurring_transaction_id: rule.id,
+          });
+        }
+
+        nextRunDate = getNextOccurrence(schedule, occurrence);
+      }
+
+      if (nextRunDate !== rule.next_run_date) {
+        cursorUpdates.push({ id: rule.id, nextRunDate });
+      }
+    }
+
+    if (inserts.length === 0 && cursorUpdates.length === 0) {
+      return { createdCount: 0, transactions: [] };
+    }
+
+    // Transactions are stored together with the advanced cursors, so an occurrence is never booked twice
+    const { data: insertedData, error: materializeError } = await this.supabase.rpc(
+      "materialize_recurring_transactions",
+      {
+        occurrences: inserts,
+        cursors: cursorUpdates.map(({ id, nextRunDate }) => ({ id, next_run_date: nextRunDate })),
+      }
+    );
+
+    if (materializeError) {
+      console.error("Database error while materializing recurring transactions:", materializeError);
+      throw new Error("RECURRING_TRANSACTIONS_MATERIALIZE_FAILED");
+    }
+
+    const created = (insertedData || []).map((row) => this.mapTransactionToDto(row));
+
+    return { createdCount: created.length, transactions: created };
+  }
+
+  /**
+   * Materializes occurrences after a budget has been created.
+   * For a budget of a future month the whole month is materialized up front.
+   *
+   * @param userId - The ID of the user who created the budget
+   * @param month - Month of the created budget (YYYY-MM-01)
+   * @returns Promise resolving to the created transactions
+   * @throws Error if household not found or database error occurs
+   */
+  async materializeForBudgetMonth(userId: string, month: string): Promise<RecurringTransactionsMaterializedDto> {
+    const today = format(new Date(), "yyyy-MM-dd");
+    const monthEnd = format(endOfMonth(parseISO(month)), "yyyy-MM-dd");
+
+    return this.materializeDueTransactions(userId, {
+      throughDate: monthEnd > today ? monthEnd : today,
+    });
+  }
+
+  /**
+   * Retrieves the household ID for the specified user.
+   *
+   * @param userId - The ID of the user
+   * @param failureCode - Error code thrown on unexpected database errors
+   * @returns Promise resolving to the household ID
+   * @throws Error if household not found or database error occurs
+   */
+  private async getHouseholdId(userId: string, failureCode: string): Promise<string> {
+    const { data: householdData, error: householdError } = await this.supabase
+      .from("households")
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
+      .single();
+
+    if (householdError) {
+      if (householdError.code === "PGRST116") {
+        throw new Error("HOUSEHOLD_NOT_FOUND");
+      }
+      console.error("Database error while fetching household:", householdError);
+      throw new Error(failureCode);
+    }
+
+    if (!householdData) {
+      throw new Error("HOUSEHOLD_NOT_FOUND");
+    }
+
+    return householdData.id;
+  }
+
+  /**
+   * Validates that the category belongs to the household and is not archived.
+   *
+   * @throws Error with INVALID_CATEGORY_ID if the category is not accessible
+   * @throws Error with CATEGORY_ARCHIVED if the category is archived
+   */
+  private async validateCategory(householdId: string, categoryId: string, failureCode: string): Promise<void> {
+    const { data, error } = await this.supabase
+      .from("categories")
+      .select("id, is_archived")
+      .eq("id", categoryId)
+      .eq("household_id", householdId)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        throw new Error("INVALID_CATEGORY_ID");
+      }
+      console.error("Database error while validating category:", error);
+      throw new Error(failureCode);
+    }
+
+    if (!data) {
+      throw new Error("INVALID_CATEGORY_ID");
+    }
+
+    if (data.is_archived) {
+      throw new Error("CATEGORY_ARCHIVED");
+    }
+  }
+
+  /**
+   * Builds the recurrence schedule from a database record.
+   */
+  private toSchedule(rule: {
+    frequency: string;
+    interval_days: number | null;
+    start_date: string;
+    end_date: string | null;
+  }): RecurrenceSchedule {
+    return {
+      frequency: rule.frequency as RecurringTransactionFrequency,
+      intervalDays: rule.interval_days,
+      startDate: rule.start_date,
+      endDate: rule.end_date,
+    };
+  }
+
+  /**
+   * Maps a database recurring transaction record to RecurringTransactionDto.
+   *
+   * @param row - The recurring transaction record from the database
+   * @returns Mapped RecurringTransactionDto
+   */
+  private mapRecurringTransactionToDto(row: Record<string, unknown>): RecurringTransactionDto {
+    return {
+      id: row.id as string,
+      categoryId: row.category_id as string,
+      amount: Number(row.amount),
+      note: row.note as string | null,
+      frequency: row.frequency as RecurringTransactionFrequency,
+      intervalDays: row.interval_days as number | null,
+      startDate: row.start_date as string,
+      endDate: row.end_date as string | null,
+      nextRunDate: row.next_run_date as string,
+      isActive: row.is_active as boolean,
+      createdAt: row.created_at as string,
+      updatedAt: row.updated_at as string,
+    };
+  }
+
+  /**
+   * Maps a database transaction record to TransactionDto.
+   *
+   * @param transaction - The transaction record from the database
+   * @returns Mapped TransactionDto
+   */
+  private mapTransactionToDto(transaction: Record<string, unknown>): TransactionDto {
+    return {
+      id: transaction.id as string,
+      householdId: transaction.household_id as string,
+      budgetId: transaction.budget_id as string,
+      categoryId: transaction.category_id as string,
+      householdMemberId: transaction.household_member_id as string | null,
+      kind: transaction.kind as TransactionKind,
+      amount: Number(transaction.amount),
+      transactionDate: transaction.transaction_date as string,
+      note: transaction.note as string | null,
+      externalId: transaction.external_id as string | null,
+      refundedTransactionId: transaction.refunded_transaction_id as string | null,
+      // Materialized transactions are never split
+      splits: [],
+      createdAt: transaction.created_at as string,
+      updatedAt: transaction.updated_at as string,
+    };
+  }
+}
+
+/**
+ * Factory function to create a RecurringTransactionsService instance.
+ *
+ * @param supabase - Supabase client instance
+ * @returns New RecurringTransactionsService instance
+ */
+export function createRecurringTransactionsService(supabase: SupabaseClientType): RecurringTransactionsService {
+  return new RecurringTransactionsService(supabase);
+}
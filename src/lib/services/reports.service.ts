@@ -0,0 +1,426 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type {
+  AnnualReportCategoryDto,
+  AnnualReportDto,
+  AnnualReportMemberIncomeDto,
+  CategoryGroup,
+  TransactionKind,
+  TrendsGroupBy,
+  TrendsMonthDto,
+  TrendsReportDto,
+  TrendsSeriesDto,
+} from "../../types";
+import { sumPlannedLimits } from "../category-tree";
+import { expandTransactionSplits } from "../splits";
+import {
+  buildMonthlySeries,
+  calculateSavings,
+  findBestAndWorstMonths,
+  listMonthsBetween,
+  type MonthlyAmount,
+} from "../trends";
+
+export type SupabaseClientType = SupabaseClient;
+
+export interface GetTrendsOptions {
+  /** First month of the report (YYYY-MM-01) */
+  from: string;
+  /** Last month of the report (YYYY-MM-01) */
+  to: string;
+  groupBy: TrendsGroupBy;
+}
+
+/**
+ * Spending booked in a report month, split transactions expanded into their lines.
+ */
+interface ReportSpendingLine {
+  readonly month: string;
+  readonly categoryId: string;
+  readonly householdMemberId: string | null;
+  readonly amount: number;
+}
+
+/**
+ * Budgets of a range of months with the data the reports are built from.
+ */
+interface ReportData {
+  readonly months: TrendsMonthDto[];
+  readonly spendingLines: ReportSpendingLine[];
+  readonly incomes: { householdMemberId: string; amount: number }[];
+  readonly categories: {
+    id: string;
+    name: string;
+    color: string | null;
+    parent_id: string | null;
+    cost_group: string;
+  }[];
+  readonly members: { id: string; full_name: string }[];
+}
+
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Number of rows fetched per request, within the max_rows limit of the API
+ */
+const REPORT_BATCH_SIZE = 1000;
+
+/**
+ * Service for reports spanning several budgets of a household.
+ */
+export class ReportsService {
+  constructor(private supabase: SupabaseClientType) {}
+
+  /**
+   * Builds the monthly trends of a household: income, planned, spent and free funds of every month,
+   * plus the monthly spending per top-level category or per paying household member.
+   * Refunds are netted against the spending; months without a budget are reported with zero totals.
+   *
+   * @param userId - The ID of the user whose household to report on
+   * @param options - Range of months and the grouping of the spending series
+   * @returns Promise resolving to the trends report DTO
+   * @throws Error if household not found or database error occurs
+   */
+  async getTrends(userId: string, options: GetTrendsOptions): Promise<TrendsReportDto> {
+    const { from, to, groupBy } = options;
+    const householdId = await this.getHouseholdId(userId);
+    const data = await this.getReportData(householdId, from, to);
+    const months = data.months.map((month) => month.month);
+    const parentById = new Map(data.categories.map((category) => [category.id, category.parent_id]));
+
+    // Categories are reported at the top level, members by who paid
+    const seriesAmounts: MonthlyAmount[] = data.spendingLines.map((line) => ({
+      month: line.month,
+      key: groupBy === "category" ? (parentById.get(line.categoryId) ?? line.categoryId) : line.householdMemberId,
+      amount: line.amount,
+    }));
+    const categoriesById = new Map(data.categories.map((category) => [category.id, category]));
+    const membersById = new Map(data.members.map((member) => [member.id, member]));
+
+    const series: TrendsSeriesDto[] = Array.from(buildMonthlySeries(seriesAmounts, months)).map(
+      ([key, monthlySpent]) => {
+        const category = key && groupBy === "category" ? categoriesById.get(key) : undefined;
+        const member = key && groupBy === "member" ? membersById.get(key) : undefined;
+
+        return {
+          id: key,
+          name: category?.name ?? member?.full_name ?? null,
+          color: category?.color ?? null,
+          totalSpent: roundToCents(monthlySpent.reduce((sum, amount) => sum + amount, 0)),
+          monthlySpent,
+        };
+      }
+    );
+
+    return {
+      from,
+      to,
+      groupBy,
+      months: data.months,
+      series: series.sort((first, second) => second.totalSpent - first.totalSpent),
+    };
+  }
+
+  /**
+   * Summarizes the budgets of a calendar year: totals, income per member, spending per top-level category,
+   * average monthly spending, the best and worst months and the savings rate.
+   * Averages count only the months that have a budget.
+   *
+   * @param userId - The ID of the user whose household to report on
+   * @param year - The calendar year
+   * @returns Promise resolving to the annual report DTO
+   * @throws Error if household not found or database error occurs
+   */
+  async getAnnualReport(userId: string, year: number): Promise<AnnualReportDto> {
+    const householdId = await this.getHouseholdId(userId);
+    const data = await this.getReportData(householdId, `${year}-01-01`, `${year}-12-01`);
+
+    const budgetCount = data.months.filter((month) => month.budgetId !== null).length;
+    const averageOf = (amount: number) => (budgetCount > 0 ? roundToCents(amount / budgetCount) : 0);
+    const totalIncome = roundToCents(data.months.reduce((sum, month) => sum + month.totalIncome, 0));
+    const totalPlanned = roundToCents(data.months.reduce((sum, month) => sum + month.totalPlanned, 0));
+    const totalSpent = roundToCents(data.months.reduce((sum, month) => sum + month.totalSpent, 0));
+
+    const incomeByMemberId = new Map<string, number>();
+    data.incomes.forEach((income) => {
+      const currentAmount = incomeByMemberId.get(income.householdMemberId) || 0;
+      incomeByMemberId.set(income.householdMemberId, currentAmount + income.amount);
+    });
+    const membersById = new Map(data.members.map((member) => [member.id, member]));
+    const incomeByMember: AnnualReportMemberIncomeDto[] = Array.from(incomeByMemberId)
+      .map(([householdMemberId, amount]) => ({
+        householdMemberId,
+        fullName: membersById.get(householdMemberId)?.full_name ?? "",
+        totalIncome: roundToCents(amount),
+      }))
+      .sort((first, second) => second.totalIncome - first.totalIncome);
+
+    // Subcategories are reported within their top-level category
+    const categoriesById = new Map(data.categories.map((category) => [category.id, category]));
+    const spentByCategoryId = new Map<string, number>();
+    data.spendingLines.forEach((line) => {
+      const topLevelId = categoriesById.get(line.categoryId)?.parent_id ?? line.categoryId;
+      spentByCategoryId.set(topLevelId, (spentByCategoryId.get(topLevelId) || 0) + line.amount);
+    });
+    const spentByCategory: AnnualReportCategoryDto[] = Array.from(spentByCategoryId)
+      .map(([categoryId, amount]) => {
+        const category = categoriesById.get(categoryId);
+
+        return {
+          categoryId,
+          name: category?.name ?? null,
+          color: category?.color ?? null,
+          group: (category?.cost_group ?? "variable") as CategoryGroup,
+          totalSpent: roundToCents(amount),
+          averageMonthlySpent: averageOf(amount),
+        };
+      })
+      .sort((first, second) => second.totalSpent - first.totalSpent);
+
+    const savingsSpent = spentByCategory
+      .filter((category) => category.group === "savings")
+      .reduce((sum, category) => sum + category.totalSpent, 0);
+    const { best, worst } = findBestAndWorstMonths(data.months);
+
+    return {
+      year,
+      budgetCount,
+      totalIncome,
+      totalPlanned,
+      totalSpent,
+      averageMonthlySpent: averageOf(totalSpent),
+      ...calculateSavings(totalIncome, totalSpent, savingsSpent),
+      bestMonth: best,
+      worstMonth: worst,
+      months: data.months,
+      incomeByMember,
+      spentByCategory,
+    };
+  }
+
+  /**
+   * Fetches the budgets of a range of months with their incomes, planned limits and spending,
+   * together with the categories and members of the household.
+   *
+   * @param householdId - The household ID for security filtering
+   * @param from - First month of the range (YYYY-MM-01)
+   * @param to - Last month of the range (YYYY-MM-01)
+   * @returns Promise resolving to the totals of every month of the range and the underlying data
+   * @throws Error if database error occurs
+   */
+  private async getReportData(householdId: string, from: string, to: string): Promise<ReportData> {
+    const months = listMonthsBetween(from, to);
+
+    const { data: budgetsData, error: budgetsError } = await this.supabase
+      .from("budgets")
+      .select("id, month")
+      .eq("household_id", householdId)
+      .gte("month", from)
+      .lte("month", to);
+
+    if (budgetsError) {
+      console.error("Database error while fetching budgets for report:", budgetsError);
+      throw new Error("REPORT_FETCH_FAILED");
+    }
+
+    const monthByBudgetId = new Map((budgetsData || []).map((budget) => [budget.id, budget.month]));
+    const budgetIds = Array.from(monthByBudgetId.keys());
+
+    if (budgetIds.length === 0) {
+      return {
+        months: months.map((month) => this.buildMonthTotals(month, null, 0, 0, 0)),
+        spendingLines: [],
+        incomes: [],
+        categories: [],
+        members: [],
+      };
+    }
+
+    // Ranges of up to MAX_REPORT_MONTHS budgets easily exceed a single batch of rows
+    const [incomesData, plannedData, transactionsData, categories, members] = await Promise.all([
+      this.fetchAll((rangeFrom, rangeTo) =>
+        this.supabase
+          .from("incomes")
+          .select("budget_id, household_member_id, amount")
+          .eq("household_id", householdId)
+          .in("budget_id", budgetIds)
+          .order("id")
+          .range(rangeFrom, rangeTo)
+      ),
+      this.fetchAll((rangeFrom, rangeTo) =>
+        this.supabase
+          .from("planned_expenses")
+          .select("budget_id, category_id, limit_amount")
+          .eq("household_id", householdId)
+          .in("budget_id", budgetIds)
+          .order("id")
+          .range(rangeFrom, rangeTo)
+      ),
+      this.fetchAll((rangeFrom, rangeTo) =>
+        this.supabase
+          .from("transactions")
+          .select("budget_id, category_id, household_member_id, kind, amount, transaction_splits(category_id, amount)")
+          .eq("household_id", householdId)
+          .in("budget_id", budgetIds)
+          .order("id")
+          .range(rangeFrom, rangeTo)
+      ),
+      // Archived categories are included, they still have spending in past months
+      this.fetchAll((rangeFrom, rangeTo) =>
+        this.supabase
+          .from("categories")
+          .select("id, name, color, parent_id, cost_group")
+          .eq("household_id", householdId)
+          .order("id")
+          .range(rangeFrom, rangeTo)
+      ),
+      this.fetchAll((rangeFrom, rangeTo) =>
+        this.supabase
+          .from("household_members")
+          .select("id, full_name")
+          .eq("household_id", householdId)
+          .order("id")
+          .range(rangeFrom, rangeTo)
+      ),
+    ]);
+
+    const parentById = new Map(categories.map((category) => [category.id, category.parent_id]));
+
+    // Spending lines per month, split transactions are counted per line
+    const spendingLines = transactionsData.flatMap((transaction) =>
+      expandTransactionSplits({
+        categoryId: transaction.category_id,
+        kind: transaction.kind as TransactionKind,
+        amount: transaction.amount,
+        splits: transaction.transaction_splits.map((split) => ({
+          categoryId: split.category_id,
+          amount: split.amount,
+        })),
+      }).map((line) => ({
+        ...line,
+        month: monthByBudgetId.get(transaction.budget_id) ?? "",
+        householdMemberId: transaction.household_member_id,
+      }))
+    );
+
+    const reportMonths = months.map((month) => {
+      const monthBudgetId = budgetIds.find((budgetId) => monthByBudgetId.get(budgetId) === month) ?? null;
+      if (!monthBudgetId) {
+        return this.buildMonthTotals(month, null, 0, 0, 0);
+      }
+
+      const totalIncome = incomesData
+        .filter((income) => income.budget_id === monthBudgetId)
+        .reduce((sum, income) => sum + income.amount, 0);
+      // Parent limits cover their subcategories, so nested limits are not counted twice
+      const totalPlanned = sumPlannedLimits(
+        plannedData
+          .filter((planned) => planned.budget_id === monthBudgetId)
+          .map((planned) => ({ categoryId: planned.category_id, limitAmount: planned.limit_amount })),
+        parentById
+      );
+      const totalSpent = spendingLines
+        .filter((line) => line.month === month)
+        .reduce((sum, line) => sum + line.amount, 0);
+
+      return this.buildMonthTotals(month, monthBudgetId, totalIncome, totalPlanned, totalSpent);
+    });
+
+    return {
+      months: reportMonths,
+      spendingLines,
+      incomes: incomesData.map((income) => ({
+        householdMemberId: income.household_member_id,
+        amount: income.amount,
+      })),
+      categories,
+      members,
+    };
+  }
+
+  /**
+   * Builds the totals of one report month.
+   */
+  private buildMonthTotals(
+    month: string,
+    budgetId: string | null,
+    totalIncome: number,
+    totalPlanned: number,
+    totalSpent: number
+  ): TrendsMonthDto {
+    return {
+      month,
+      budgetId,
+      totalIncome: roundToCents(totalIncome),
+      totalPlanned: roundToCents(totalPlanned),
+      totalSpent: roundToCents(totalSpent),
+      freeFunds: roundToCents(totalIncome - totalPlanned),
+    };
+  }
+
+  /**
+   * Fetches every row of a query, batch by batch.
+   *
+   * @param fetchBatch - Runs the query for the rows in the given range (inclusive); must have a stable order
+   * @returns Promise resolving to all rows
+   * @throws Error if database error occurs
+   */
+  private async fetchAll<T>(
+    fetchBatch: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+  ): Promise<T[]> {
+    const rows: T[] = [];
+
+    for (let offset = 0; ; offset += REPORT_BATCH_SIZE) {
+      const { data, error } = await fetchBatch(offset, offset + REPORT_BATCH_SIZE - 1);
+
+      if (error) {
+        console.error("Database error while fetching report data:", error);
+        throw new Error("REPORT_FETCH_FAILED");
+      }
+
+      rows.push(...(data || []));
+
+      if (!data || data.length < REPORT_BATCH_SIZE) {
+        return rows;
+      }
+    }
+  }
+
+  /**
+   * Retrieves the household ID for the specified user.
+   *
+   * @param userId - The ID of the user
+   * @returns Promise resolving to the household ID
+   * @throws Error if household not found or database error occurs
+   */
+  private async getHouseholdId(userId: string): Promise<string> {
+    const { data, error } = await this.supabase
+      .from("households")
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        throw new Error("HOUSEHOLD_NOT_FOUND");
+      }
+      console.error("Database error while fetching household:", error);
+      throw new Error("REPORT_FETCH_FAILED");
+    }
+
+    if (!data) {
+      throw new Error("HOUSEHOLD_NOT_FOUND");
+    }
+
+    return data.id;
+  }
+}
+
+/**
+ * Factory function to create a ReportsService instance.
+ *
+ * @param supabase - Supabase client instance
+ * @returns New ReportsService instance
+ */
+export function createReportsService(supabase: SupabaseClientType): ReportsService {
+  return new ReportsService(supabase);
+}
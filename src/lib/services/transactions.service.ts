@@ -1,8 +1,20 @@
+import type { Json } from "../../db/database.types";
 import type { SupabaseClient } from "../../db/supabase.client";
-import type { TransactionDto, UpdateTransactionCommand } from "../../types";
+import { isSuspectedDuplicate } from "../duplicates";
+import { splitsMatchTotal } from "../splits";
+import type {
+  MergeTransactionsCommand,
+  TransactionDto,
+  TransactionKind,
+  TransactionSplitCommandItem,
+  UpdateTransactionCommand,
+} from "../../types";
 
 export type SupabaseClientType = SupabaseClient;
 
+// Columns of a transaction together with its split lines
+const TRANSACTION_WITH_SPLITS_COLUMNS = "*, transaction_splits(id, category_id, amount)";
+
 /**
  * Service for managing transactions operations.
  */
@@ -21,8 +33,8 @@ export class TransactionsService {
     // First, get the household_id for the user
     const { data: householdData, error: householdError } = await this.supabase
       .from("households")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
       .single();
 
     if (householdError) {
@@ -38,7 +50,7 @@ export class TransactionsService {
     // Fetch the transaction, ensuring it belongs to the user's household
     const { data: transactionData, error: transactionError } = await this.supabase
       .from("transactions")
-      .select("*")
+      .select(TRANSACTION_WITH_SPLITS_COLUMNS)
       .eq("id", transactionId)
       .eq("household_id", householdData.id)
       .single();
@@ -61,6 +73,8 @@ export class TransactionsService {
 
   /**
    * Updates a transaction for the authenticated user's household.
+   * A refund stays linked to its expense unless it is unlinked or turned into an expense;
+   * an expense with refunds cannot be turned into a refund or lowered below the amount they return.
    *
    * @param userId - The authenticated user's ID
    * @param transactionId - The transaction ID to update
@@ -76,8 +90,8 @@ export class TransactionsService {
     // First, get the household_id for the user
     const { data: householdData, error: householdError } = await this.supabase
       .from("households")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
       .single();
 
     if (householdError) {
@@ -93,7 +107,7 @@ export class TransactionsService {
     // First, verify the transaction exists and belongs to the user's household
     const { data: existingTransaction, error: fetchError } = await this.supabase
       .from("transactions")
-      .select("*")
+      .select(TRANSACTION_WITH_SPLITS_COLUMNS)
       .eq("id", transactionId)
       .eq("household_id", householdData.id)
       .single();
@@ -111,11 +125,41 @@ export class TransactionsService {
       throw new Error("TRANSACTION_NOT_FOUND");
     }
 
+    // Split lines must always add up to the transaction amount
+    const existingSplits = existingTransaction.transaction_splits ?? [];
+    const targetAmount = command.amount ?? Number(existingTransaction.amount);
+
+    if (command.splits) {
+      if (!splitsMatchTotal(targetAmount, command.splits)) {
+        throw new Error("SPLIT_TOTAL_MISMATCH");
+      }
+
+      await this.validateSplitCategories(householdData.id, command.splits, [
+        existingTransaction.category_id,
+        ...existingSplits.map((split) => split.category_id),
+      ]);
+    } else if (command.splits === undefined && existingSplits.length > 0) {
+      if (command.categoryId !== undefined) {
+        // The category of a split transaction is defined by its lines
+        throw new Error("INVALID_SPLITS");
+      }
+
+      if (
+        command.amount !== undefined &&
+        !splitsMatchTotal(
+          command.amount,
+          existingSplits.map((split) => ({ categoryId: split.category_id, amount: Number(split.amount) }))
+        )
+      ) {
+        throw new Error("SPLIT_TOTAL_MISMATCH");
+      }
+    }
+
     // If categoryId is provided, verify it belongs to the same household
     if (command.categoryId) {
       const { data: categoryData, error: categoryError } = await this.supabase
         .from("categories")
-        .select("id")
+        .select("id, is_archived")
         .eq("id", command.categoryId)
         .eq("household_id", householdData.id)
         .single();
@@ -132,6 +176,51 @@ export class TransactionsService {
       if (!categoryData) {
         throw new Error("INVALID_CATEGORY_ID");
       }
+
+      // A transaction can keep its archived category, but cannot be moved to one
+      if (categoryData.is_archived && command.categoryId !== existingTransaction.category_id) {
+        throw new Error("CATEGORY_ARCHIVED");
+      }
+    }
+
+    // If a paying member is provided, verify it is an active member of the same household
+    if (command.householdMemberId) {
+      await this.validateHouseholdMember(householdData.id, command.householdMemberId);
+    }
+
+    const targetKind = command.kind ?? (existingTransaction.kind as TransactionKind);
+    // Turning a refund into an expense unlinks it from the refunded expense
+    const targetRefundedTransactionId =
+      targetKind === "expense"
+        ? null
+        : command.refundedTransactionId !== undefined
+          ? command.refundedTransactionId
+          : existingTransaction.refunded_transaction_id;
+
+    if (targetKind === "refund" && existingTransaction.kind === "expense") {
+      await this.validateWithoutRefunds(householdData.id, transactionId);
+    }
+
+    // An expense cannot become smaller than the refunds already linked to it
+    if (targetKind === "expense" && existingTransaction.kind === "expense" && command.amount !== undefined) {
+      await this.validateRefundsWithinAmount(
+        householdData.id,
+        [transactionId],
+        command.amount,
+        "TRANSACTION_UPDATE_FAILED"
+      );
+    }
+
+    if (
+      targetRefundedTransactionId &&
+      (targetRefundedTransactionId !== existingTransaction.refunded_transaction_id || command.amount !== undefined)
+    ) {
+      await this.validateRefundedTransaction(
+        householdData.id,
+        transactionId,
+        targetRefundedTransactionId,
+        targetAmount
+      );
     }
 
     // Prepare update object with only provided fields
@@ -149,6 +238,24 @@ export class TransactionsService {
     if (command.note !== undefined) {
       updateData.note = command.note;
     }
+    if (command.householdMemberId !== undefined) {
+      updateData.household_member_id = command.householdMemberId;
+    }
+    if (command.kind !== undefined) {
+      updateData.kind = command.kind;
+    }
+    if (targetRefundedTransactionId !== existingTransaction.refunded_transaction_id) {
+      updateData.refunded_transaction_id = targetRefundedTransactionId;
+    }
+    if (command.splits) {
+      // The parent row keeps the category of the first line so that it always points to a valid category
+      updateData.category_id = command.splits[0].categoryId;
+    }
+
+    // New split lines are written together with the parent row, so that its lines always add up to its amount
+    if (command.splits !== undefined) {
+      return this.updateSplitTransaction(householdData.id, transactionId, updateData, command.splits ?? []);
+    }
 
     // Perform the update
     const { data: updatedTransaction, error: updateError } = await this.supabase
@@ -156,7 +263,7 @@ export class TransactionsService {
       .update(updateData)
       .eq("id", transactionId)
       .eq("household_id", householdData.id)
-      .select("*")
+      .select(TRANSACTION_WITH_SPLITS_COLUMNS)
       .single();
 
     if (updateError) {
@@ -194,8 +301,8 @@ export class TransactionsService {
     // First, get the household_id for the user
     const { data: householdData, error: householdError } = await this.supabase
       .from("households")
-      .select("id")
-      .eq("user_id", userId)
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
       .single();
 
     if (householdError) {
@@ -253,6 +360,351 @@ export class TransactionsService {
     // This follows the pattern established in other transaction operations
   }
 
+  /**
+   * Merges a duplicate into a transaction of the authenticated user's household.
+   * The transaction is kept and takes over the note, paying member and bank reference of the duplicate
+   * where it has none of its own; refunds of the duplicate are linked to the kept transaction and the duplicate is deleted.
+   * Only a pair of suspected duplicates of the same budget can be merged, and the refunds of both
+   * cannot return more than the amount of the kept expense. All changes are written in a single database transaction.
+   *
+   * @param userId - The authenticated user's ID
+   * @param transactionId - The ID of the transaction to keep
+   * @param command - The ID of the duplicate to merge into the transaction
+   * @returns Promise resolving to the merged TransactionDto
+   * @throws Error with specific error codes for different failure scenarios
+   */
+  async mergeTransactions(
+    userId: string,
+    transactionId: string,
+    command: MergeTransactionsCommand
+  ): Promise<TransactionDto> {
+    if (command.duplicateTransactionId === transactionId) {
+      throw new Error("INVALID_TRANSACTION_ID");
+    }
+
+    // First, get the household_id for the user
+    const { data: householdData, error: householdError } = await this.supabase
+      .from("households")
+      .select("id, household_users!inner(user_id)")
+      .eq("household_users.user_id", userId)
+      .single();
+
+    if (householdError) {
+      console.error("Error fetching household for user:", householdError);
+      throw new Error("TRANSACTION_MERGE_FAILED");
+    }
+
+    if (!householdData) {
+      // User has no household - treat as transaction not found to avoid revealing data structure
+      throw new Error("TRANSACTION_NOT_FOUND");
+    }
+
+    // Both transactions must belong to the user's household
+    const { data: transactionsData, error: fetchError } = await this.supabase
+      .from("transactions")
+      .select(TRANSACTION_WITH_SPLITS_COLUMNS)
+      .eq("household_id", householdData.id)
+      .in("id", [transactionId, command.duplicateTransactionId]);
+
+    if (fetchError) {
+      console.error("Error fetching transactions for merge:", fetchError);
+      throw new Error("TRANSACTION_MERGE_FAILED");
+    }
+
+    const transaction = transactionsData?.find((row) => row.id === transactionId);
+    const duplicate = transactionsData?.find((row) => row.id === command.duplicateTransactionId);
+
+    if (!transaction || !duplicate) {
+      throw new Error("TRANSACTION_NOT_FOUND");
+    }
+
+    if (transaction.kind !== duplicate.kind) {
+      throw new Error("TRANSACTION_KIND_MISMATCH");
+    }
+
+    // Only a pair listed as suspected duplicates of the same budget can be merged
+    if (
+      transaction.budget_id !== duplicate.budget_id ||
+      !isSuspectedDuplicate(this.mapTransactionToDto(transaction), this.mapTransactionToDto(duplicate))
+    ) {
+      throw new Error("TRANSACTIONS_NOT_DUPLICATES");
+    }
+
+    // Refunds of both transactions are linked to the kept expense and cannot return more than its amount
+    if (transaction.kind === "expense") {
+      await this.validateRefundsWithinAmount(
+        householdData.id,
+        [transactionId, duplicate.id],
+        Number(transaction.amount),
+        "TRANSACTION_MERGE_FAILED"
+      );
+    }
+
+    const { error: mergeError } = await this.supabase.rpc("merge_transactions", {
+      target_transaction_id: transactionId,
+      duplicate_transaction_id: duplicate.id,
+    });
+
+    if (mergeError) {
+      // no_data_found, raised when either transaction was removed meanwhile
+      if (mergeError.code === "P0002") {
+        throw new Error("TRANSACTION_NOT_FOUND");
+      }
+      console.error("Error merging transactions:", mergeError);
+      throw new Error("TRANSACTION_MERGE_FAILED");
+    }
+
+    const { data: mergedTransaction, error: fetchMergedError } = await this.supabase
+      .from("transactions")
+      .select(TRANSACTION_WITH_SPLITS_COLUMNS)
+      .eq("id", transactionId)
+      .eq("household_id", householdData.id)
+      .single();
+
+    if (fetchMergedError || !mergedTransaction) {
+      console.error("Error fetching merged transaction:", fetchMergedError);
+      throw new Error("TRANSACTION_MERGE_FAILED");
+    }
+
+    return this.mapTransactionToDto(mergedTransaction);
+  }
+
+  /**
+   * Verifies that the household member exists in the household and is active.
+   *
+   * @param householdId - The household ID for security filtering
+   * @param memberId - The household member ID to validate
+   * @throws Error INVALID_MEMBER if the member does not belong to the household or is inactive
+   */
+  private async validateHouseholdMember(householdId: string, memberId: string): Promise<void> {
+    const { data: memberData, error: memberError } = await this.supabase
+      .from("household_members")
+      .select("id, is_active")
+      .eq("id", memberId)
+      .eq("household_id", householdId)
+      .single();
+
+    if (memberError) {
+      if (memberError.code === "PGRST116") {
+        throw new Error("INVALID_MEMBER");
+      }
+      console.error("Error validating household member:", memberError);
+      throw new Error("TRANSACTION_UPDATE_FAILED");
+    }
+
+    if (!memberData || !memberData.is_active) {
+      throw new Error("INVALID_MEMBER");
+    }
+  }
+
+  /**
+   * Verifies that a refund can be linked to the given transaction: it must be another expense of the household
+   * and its refunds, including this one, cannot return more than the expense amount.
+   *
+   * @param householdId - The household ID for security filtering
+   * @param transactionId - The ID of the refund being updated
+   * @param refundedTransactionId - The ID of the expense the refund returns money for
+   * @param amount - Amount of the refund after the update
+   * @throws Error INVALID_REFUNDED_TRANSACTION if the transaction is not another expense of the household,
+   * REFUND_EXCEEDS_EXPENSE if the refunds would exceed the expense amount
+   */
+  private async validateRefundedTransaction(
+    householdId: string,
+    transactionId: string,
+    refundedTransactionId: string,
+    amount: number
+  ): Promise<void> {
+    if (refundedTransactionId === transactionId) {
+      throw new Error("INVALID_REFUNDED_TRANSACTION");
+    }
+
+    const [refundedResult, refundsResult] = await Promise.all([
+      this.supabase
+        .from("transactions")
+        .select("id, kind, amount")
+        .eq("id", refundedTransactionId)
+        .eq("household_id", householdId)
+        .single(),
+      this.supabase
+        .from("transactions")
+        .select("amount")
+        .eq("household_id", householdId)
+        .eq("refunded_transaction_id", refundedTransactionId)
+        .neq("id", transactionId),
+    ]);
+
+    const { data: refundedData, error: refundedError } = refundedResult;
+    if (refundedError) {
+      if (refundedError.code === "PGRST116") {
+        throw new Error("INVALID_REFUNDED_TRANSACTION");
+      }
+      console.error("Error fetching refunded transaction:", refundedError);
+      throw new Error("TRANSACTION_UPDATE_FAILED");
+    }
+
+    if (!refundedData || refundedData.kind !== "expense") {
+      throw new Error("INVALID_REFUNDED_TRANSACTION");
+    }
+
+    const { data: refundsData, error: refundsError } = refundsResult;
+    if (refundsError) {
+      console.error("Error fetching refunds of transaction:", refundsError);
+      throw new Error("TRANSACTION_UPDATE_FAILED");
+    }
+
+    const refundedAmount = (refundsData || []).reduce((sum, refund) => sum + Number(refund.amount), amount);
+    if (Math.round(refundedAmount * 100) > Math.round(Number(refundedData.amount) * 100)) {
+      throw new Error("REFUND_EXCEEDS_EXPENSE");
+    }
+  }
+
+  /**
+   * Verifies that no refund is linked to the transaction, so that it can be turned into a refund itself.
+   *
+   * @param householdId - The household ID for security filtering
+   * @param transactionId - The ID of the expense being turned into a refund
+   * @throws Error TRANSACTION_HAS_REFUNDS if any refund is linked to the transaction
+   */
+  private async validateWithoutRefunds(householdId: string, transactionId: string): Promise<void> {
+    const { count, error } = await this.supabase
+      .from("transactions")
+      .select("id", { count: "exact", head: true })
+      .eq("household_id", householdId)
+      .eq("refunded_transaction_id", transactionId);
+
+    if (error) {
+      console.error("Error counting refunds of transaction:", error);
+      throw new Error("TRANSACTION_UPDATE_FAILED");
+    }
+
+    if (count && count > 0) {
+      throw new Error("TRANSACTION_HAS_REFUNDS");
+    }
+  }
+
+  /**
+   * Verifies that the refunds linked to the given expenses do not return more than the amount of the expense
+   * they are linked to after the update or merge.
+   *
+   * @param householdId - The household ID for security filtering
+   * @param transactionIds - IDs of the expenses whose refunds are counted
+   * @param amount - Amount of the expense after the update or merge
+   * @param failureCode - Error code thrown when the query fails, specific to the calling operation
+   * @throws Error REFUND_EXCEEDS_EXPENSE if the refunds would exceed the expense amount
+   */
+  private async validateRefundsWithinAmount(
+    householdId: string,
+    transactionIds: readonly string[],
+    amount: number,
+    failureCode: string
+  ): Promise<void> {
+    const { data: refundsData, error: refundsError } = await this.supabase
+      .from("transactions")
+      .select("amount")
+      .eq("household_id", householdId)
+      .in("refunded_transaction_id", transactionIds);
+
+    if (refundsError) {
+      console.error("Error fetching refunds of transaction:", refundsError);
+      throw new Error(failureCode);
+    }
+
+    const refundedAmount = (refundsData || []).reduce((sum, refund) => sum + Number(refund.amount), 0);
+    if (Math.round(refundedAmount * 100) > Math.round(amount * 100)) {
+      throw new Error("REFUND_EXCEEDS_EXPENSE");
+    }
+  }
+
+  /**
+   * Verifies that all categories used by split lines belong to the household and are not archived.
+   *
+   * @param householdId - The household ID for security filtering
+   * @param splits - Split lines to validate
+   * @param currentCategoryIds - Categories the transaction already uses, which it can keep even when archived
+   * @throws Error INVALID_CATEGORY_ID if any category does not belong to the household
+   * @throws Error CATEGORY_ARCHIVED if a line is moved to an archived category
+   */
+  private async validateSplitCategories(
+    householdId: string,
+    splits: readonly TransactionSplitCommandItem[],
+    currentCategoryIds: readonly string[]
+  ): Promise<void> {
+    const categoryIds = splits.map((split) => split.categoryId);
+
+    const { data: categoriesData, error: categoriesError } = await this.supabase
+      .from("categories")
+      .select("id, is_archived")
+      .eq("household_id", householdId)
+      .in("id", categoryIds);
+
+    if (categoriesError) {
+      console.error("Error validating split categories:", categoriesError);
+      throw new Error("TRANSACTION_UPDATE_FAILED");
+    }
+
+    if ((categoriesData || []).length !== new Set(categoryIds).size) {
+      throw new Error("INVALID_CATEGORY_ID");
+    }
+
+    if ((categoriesData || []).some((category) => category.is_archived && !currentCategoryIds.includes(category.id))) {
+      throw new Error("CATEGORY_ARCHIVED");
+    }
+  }
+
+  /**
+   * Updates a transaction and replaces its split lines in a single database transaction.
+   * An empty list of lines removes the split.
+   *
+   * @param householdId - The household ID for security filtering
+   * @param transactionId - The transaction to update
+   * @param updateData - Changed columns of the transaction
+   * @param splits - New split lines
+   * @returns Promise resolving to the updated TransactionDto
+   * @throws Error INVALID_CATEGORY_ID if a category no longer exists, TRANSACTION_NOT_FOUND if the transaction
+   * was removed meanwhile, TRANSACTION_UPDATE_FAILED if the transaction could not be written
+   */
+  private async updateSplitTransaction(
+    householdId: string,
+    transactionId: string,
+    updateData: Record<string, unknown>,
+    splits: readonly TransactionSplitCommandItem[]
+  ): Promise<TransactionDto> {
+    const { error: updateError } = await this.supabase.rpc("update_split_transaction", {
+      target_transaction_id: transactionId,
+      changes: updateData as Json,
+      splits: splits.map((split) => ({ category_id: split.categoryId, amount: split.amount })),
+    });
+
+    if (updateError) {
+      console.error("Error updating split transaction:", updateError);
+
+      // no_data_found, raised when the transaction does not belong to the household
+      if (updateError.code === "P0002") {
+        throw new Error("TRANSACTION_NOT_FOUND");
+      }
+      // Foreign key constraint violation
+      if (updateError.code === "23503") {
+        throw new Error("INVALID_CATEGORY_ID");
+      }
+
+      throw new Error("TRANSACTION_UPDATE_FAILED");
+    }
+
+    const { data: updatedTransaction, error: fetchError } = await this.supabase
+      .from("transactions")
+      .select(TRANSACTION_WITH_SPLITS_COLUMNS)
+      .eq("id", transactionId)
+      .eq("household_id", householdId)
+      .single();
+
+    if (fetchError || !updatedTransaction) {
+      console.error("Error fetching updated split transaction:", fetchError);
+      throw new Error("TRANSACTION_UPDATE_FAILED");
+    }
+
+    return this.mapTransactionToDto(updatedTransaction);
+  }
+
   /**
    * Maps a database transaction record to TransactionDto.
    *
@@ -267,20 +719,34 @@ export class TransactionsService {
     household_id: string;
     budget_id: string;
     category_id: string;
+    household_member_id: string | null;
+    kind: string;
     amount: number | string;
     transaction_date: string;
     note: string | null;
+    external_id: string | null;
+    refunded_transaction_id: string | null;
     created_at: string;
     updated_at: string;
+    transaction_splits?: { id: string; category_id: string; amount: number | string }[];
   }): TransactionDto {
     return {
       id: transaction.id,
       householdId: transaction.household_id,
       budgetId: transaction.budget_id,
       categoryId: transaction.category_id,
+      householdMemberId: transaction.household_member_id,
+      kind: transaction.kind as TransactionKind,
       amount: Number(transaction.amount),
       transactionDate: transaction.transaction_date,
       note: transaction.note,
+      externalId: transaction.external_id,
+      refundedTransactionId: transaction.refunded_transaction_id,
+      splits: (transaction.transaction_splits ?? []).map((split) => ({
+        id: split.id,
+        categoryId: split.category_id,
+        amount: Number(split.amount),
+      })),
       createdAt: transaction.created_at,
       updatedAt: transaction.updated_at,
     };
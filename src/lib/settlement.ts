@@ -0,0 +1,140 @@
+import type { SettlementSplitRule } from "../types";
+
+/**
+ * Household member taking part in a settlement, with what they earned and paid in the budget.
+ */
+export interface SettlementParticipant {
+  readonly memberId: string;
+  readonly income: number;
+  readonly paid: number;
+  /** Weight used by the custom rule, ignored by other rules */
+  readonly weight?: number;
+}
+
+/**
+ * Settlement figures of a single member.
+ * A positive balance means the member paid more than their share and should receive money.
+ */
+export interface SettlementBalance {
+  readonly memberId: string;
+  readonly share: number;
+  readonly owed: number;
+  readonly balance: number;
+}
+
+/**
+ * Money transfer that evens out balances between two members.
+ */
+export interface SettlementTransfer {
+  readonly fromMemberId: string;
+  readonly toMemberId: string;
+  readonly amount: number;
+}
+
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Returns the share (0-1) of total spending that every participant should cover.
+ * The income rule falls back to equal shares when nobody has income, the custom rule when all weights are zero.
+ */
+export function calculateShares(
+  participants: readonly SettlementParticipant[],
+  rule: SettlementSplitRule
+): Map<string, number> {
+  const shares = new Map<string, number>();
+  if (participants.length === 0) {
+    return shares;
+  }
+
+  const basis = participants.map((participant) => {
+    switch (rule) {
+      case "income":
+        return Math.max(participant.income, 0);
+      case "custom":
+        return Math.max(participant.weight ?? 0, 0);
+      default:
+        return 1;
+    }
+  });
+  const total = basis.reduce((sum, value) => sum + value, 0);
+
+  participants.forEach((participant, index) => {
+    shares.set(participant.memberId, total > 0 ? basis[index] / total : 1 / participants.length);
+  });
+
+  return shares;
+}
+
+/**
+ * Calculates what every participant owes according to the rule and how it compares with what they paid.
+ * Rounding differences are assigned to the participant with the largest share, so balances always sum to zero.
+ */
+export function calculateSettlementBalances(
+  participants: readonly SettlementParticipant[],
+  rule: SettlementSplitRule
+): SettlementBalance[] {
+  const shares = calculateShares(participants, rule);
+  const totalPaid = roundToCents(participants.reduce((sum, participant) => sum + participant.paid, 0));
+
+  const owedAmounts = participants.map((participant) =>
+    roundToCents(totalPaid * (shares.get(participant.memberId) ?? 0))
+  );
+  const roundingDifference = roundToCents(totalPaid - owedAmounts.reduce((sum, owed) => sum + owed, 0));
+
+  if (roundingDifference !== 0 && participants.length > 0) {
+    let largestIndex = 0;
+    participants.forEach((participant, index) => {
+      if ((shares.get(participant.memberId) ?? 0) > (shares.get(participants[largestIndex].memberId) ?? 0)) {
+        largestIndex = index;
+      }
+    });
+    owedAmounts[largestIndex] = roundToCents(owedAmounts[largestIndex] + roundingDifference);
+  }
+
+  return participants.map((participant, index) => ({
+    memberId: participant.memberId,
+    share: shares.get(participant.memberId) ?? 0,
+    owed: owedAmounts[index],
+    balance: roundToCents(participant.paid - owedAmounts[index]),
+  }));
+}
+
+/**
+ * Builds a short list of transfers that brings every balance to zero.
+ * The largest debtor always pays the largest creditor, which needs at most one transfer fewer than there are members.
+ */
+export function calculateSettlementTransfers(balances: readonly SettlementBalance[]): SettlementTransfer[] {
+  const creditors = balances
+    .filter((entry) => entry.balance > 0)
+    .map((entry) => ({ memberId: entry.memberId, amount: entry.balance }));
+  const debtors = balances
+    .filter((entry) => entry.balance < 0)
+    .map((entry) => ({ memberId: entry.memberId, amount: -entry.balance }));
+
+  const transfers: SettlementTransfer[] = [];
+
+  while (creditors.length > 0 && debtors.length > 0) {
+    creditors.sort((a, b) => b.amount - a.amount);
+    debtors.sort((a, b) => b.amount - a.amount);
+
+    const creditor = creditors[0];
+    const debtor = debtors[0];
+    const amount = roundToCents(Math.min(creditor.amount, debtor.amount));
+
+    if (amount > 0) {
+      transfers.push({ fromMemberId: debtor.memberId, toMemberId: creditor.memberId, amount });
+    }
+
+    creditor.amount = roundToCents(creditor.amount - amount);
+    debtor.amount = roundToCents(debtor.amount - amount);
+
+    if (creditor.amount <= 0) {
+      creditors.shift();
+    }
+    if (debtor.amount <= 0) {
+      debtors.shift();
+    }
+  }
+
+  return transfers;
+}
@@ -0,0 +1,62 @@
+import type { TransactionKind } from "../types";
+
+/**
+ * Minimum number of lines a split transaction must have. A single line is just a regular transaction.
+ */
+export const MIN_SPLIT_LINES = 2;
+
+/**
+ * Amount booked against a single category.
+ */
+export interface CategoryAmount {
+  readonly categoryId: string;
+  readonly amount: number;
+}
+
+/**
+ * Transaction as seen by per-category aggregations: its own category and amount plus optional split lines.
+ * Amounts are positive; a missing kind means an expense.
+ */
+export interface SplittableTransaction extends CategoryAmount {
+  readonly kind?: TransactionKind;
+  readonly splits: readonly CategoryAmount[];
+}
+
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Returns the sum of split line amounts rounded to cents.
+ */
+export function sumSplitAmounts(splits: readonly CategoryAmount[]): number {
+  return roundToCents(splits.reduce((sum, split) => sum + split.amount, 0));
+}
+
+/**
+ * Checks that split lines add up to the transaction amount, to the cent.
+ */
+export function splitsMatchTotal(amount: number, splits: readonly CategoryAmount[]): boolean {
+  return sumSplitAmounts(splits) === roundToCents(amount);
+}
+
+/**
+ * Returns the amount a transaction adds to the spending: positive for expenses, negative for refunds.
+ */
+export function getSignedAmount(kind: TransactionKind | undefined, amount: number): number {
+  return kind === "refund" ? -amount : amount;
+}
+
+/**
+ * Expands a transaction into the amounts it books against categories.
+ * A split transaction contributes its lines, any other transaction contributes itself.
+ * Refunds book negative amounts, so that they net against the spending of their categories.
+ */
+export function expandTransactionSplits(transaction: SplittableTransaction): CategoryAmount[] {
+  if (transaction.splits.length === 0) {
+    return [{ categoryId: transaction.categoryId, amount: getSignedAmount(transaction.kind, transaction.amount) }];
+  }
+
+  return transaction.splits.map((split) => ({
+    categoryId: split.categoryId,
+    amount: getSignedAmount(transaction.kind, split.amount),
+  }));
+}
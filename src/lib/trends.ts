@@ -0,0 +1,143 @@
+/**
+ * Helpers for reports spanning several budget months.
+ * Months are handled as YYYY-MM-01 strings.
+ */
+
+/**
+ * Amount booked in a month for one series of a report, e.g. a category or a household member.
+ */
+export interface MonthlyAmount {
+  readonly month: string;
+  readonly key: string | null;
+  readonly amount: number;
+}
+
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Lists every month between two months, both included.
+ *
+ * @param from - First month (YYYY-MM-01)
+ * @param to - Last month (YYYY-MM-01)
+ * @returns Months in chronological order, empty when from is after to
+ */
+export function listMonthsBetween(from: string, to: string): string[] {
+  const months: string[] = [];
+  let [year, month] = from.split("-").map(Number);
+  const [toYear, toMonth] = to.split("-").map(Number);
+
+  while (year < toYear || (year === toYear && month <= toMonth)) {
+    months.push(`${year}-${String(month).padStart(2, "0")}-01`);
+    month += 1;
+    if (month > 12) {
+      month = 1;
+      year += 1;
+    }
+  }
+
+  return months;
+}
+
+/**
+ * Shifts a month by a number of months.
+ *
+ * @param month - The month (YYYY-MM-01)
+ * @param offset - Number of months to add, negative to go back
+ * @returns The shifted month (YYYY-MM-01)
+ */
+export function addMonthsToMonth(month: string, offset: number): string {
+  const [year, monthNumber] = month.split("-").map(Number);
+  const index = year * 12 + (monthNumber - 1) + offset;
+
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, "0")}-01`;
+}
+
+/**
+ * Sums amounts into one monthly series per key.
+ * Every series has a value for each month, in the order of the given months; amounts of other months are ignored.
+ *
+ * @param amounts - Amounts with their months and series keys
+ * @param months - Months of the report (YYYY-MM-01)
+ * @returns Map of series key to the amounts per month, rounded to cents
+ */
+export function buildMonthlySeries(
+  amounts: readonly MonthlyAmount[],
+  months: readonly string[]
+): Map<string | null, number[]> {
+  const monthIndex = new Map(months.map((month, index) => [month, index]));
+  const series = new Map<string | null, number[]>();
+
+  amounts.forEach(({ month, key, amount }) => {
+    const index = monthIndex.get(month);
+    if (index === undefined) {
+      return;
+    }
+
+    const values = series.get(key) ?? months.map(() => 0);
+    values[index] += amount;
+    series.set(key, values);
+  });
+
+  series.forEach((values, key) => series.set(key, values.map(roundToCents)));
+
+  return series;
+}
+
+/**
+ * Totals of a report month needed to compare months with each other.
+ */
+export interface MonthBalance {
+  readonly budgetId: string | null;
+  readonly totalIncome: number;
+  readonly totalSpent: number;
+}
+
+/**
+ * Finds the months with the highest and lowest income left after spending.
+ * Only months with a budget are compared; on a tie the earlier month wins.
+ *
+ * @param months - Report months in chronological order
+ * @returns The best and worst month, null when no month has a budget
+ */
+export function findBestAndWorstMonths<T extends MonthBalance>(
+  months: readonly T[]
+): { best: T | null; worst: T | null } {
+  let best: T | null = null;
+  let worst: T | null = null;
+  const balanceOf = (month: T) => month.totalIncome - month.totalSpent;
+
+  months
+    .filter((month) => month.budgetId !== null)
+    .forEach((month) => {
+      if (!best || balanceOf(month) > balanceOf(best)) {
+        best = month;
+      }
+      if (!worst || balanceOf(month) < balanceOf(worst)) {
+        worst = month;
+      }
+    });
+
+  return { best, worst };
+}
+
+/**
+ * Calculates how much of the income was saved.
+ * Spending on savings categories (e.g. transfers to a savings account) counts as saved, not spent.
+ *
+ * @param totalIncome - Income of the period
+ * @param totalSpent - Spending of the period, savings categories included
+ * @param savingsSpent - Part of the spending booked on savings categories
+ * @returns Saved amount and its percentage of the income (null without income)
+ */
+export function calculateSavings(
+  totalIncome: number,
+  totalSpent: number,
+  savingsSpent: number
+): { savedAmount: number; savingsRate: number | null } {
+  const savedAmount = roundToCents(totalIncome - totalSpent + savingsSpent);
+
+  return {
+    savedAmount,
+    savingsRate: totalIncome > 0 ? Math.round((savedAmount / totalIncome) * 10000) / 100 : null,
+  };
+}
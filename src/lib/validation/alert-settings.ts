@@ -0,0 +1,72 @@
+import { z } from "zod";
+
+const percentageSchema = (label: string) =>
+  z
+    .number({ invalid_type_error: `${label} must be a number` })
+    .positive(`${label} must be greater than 0`)
+    .max(1000, `${label} cannot exceed 1000`)
+    .refine((val) => {
+      // Check if the number has at most 2 decimal places
+      const decimalPlaces = (val.toString().split(".")[1] || "").length;
+      return decimalPlaces <= 2;
+    }, `${label} cannot have more than 2 decimal places`);
+
+/**
+ * Warning threshold as a percentage of the category limit.
+ */
+export const warningThresholdSchema = percentageSchema("Warning threshold");
+
+/**
+ * Overspending threshold as a percentage of the category limit.
+ */
+export const overThresholdSchema = percentageSchema("Overspending threshold");
+
+/**
+ * Day of the month by which the pace alert percentage should not be exceeded.
+ */
+export const paceAlertDaySchema = z
+  .number({ invalid_type_error: "Pace alert day must be a number" })
+  .int("Pace alert day must be a whole number")
+  .min(1, "Pace alert day must be between 1 and 31")
+  .max(31, "Pace alert day must be between 1 and 31");
+
+export const paceAlertPercentSchema = percentageSchema("Pace alert percentage");
+
+// Map alert setting field errors to detailed error codes
+export const ALERT_SETTINGS_ERROR_CODES: Record<string, string> = {
+  warningThreshold: "INVALID_THRESHOLDS",
+  overThreshold: "INVALID_THRESHOLDS",
+  categoryWarningThreshold: "INVALID_THRESHOLDS",
+  categoryOverThreshold: "INVALID_THRESHOLDS",
+  paceAlertDay: "INVALID_PACE_ALERT",
+  paceAlertPercent: "INVALID_PACE_ALERT",
+};
+
+interface AlertSettingsInput {
+  readonly paceAlertDay?: number | null;
+  readonly paceAlertPercent?: number | null;
+}
+
+/**
+ * Checks that the pace alert day and percentage are given together:
+ * both set, both null (alert disabled), or both left out.
+ */
+export function hasCompletePaceAlert(data: AlertSettingsInput): boolean {
+  const isDaySet = data.paceAlertDay !== undefined && data.paceAlertDay !== null;
+  const isPercentSet = data.paceAlertPercent !== undefined && data.paceAlertPercent !== null;
+
+  return isDaySet === isPercentSet && (data.paceAlertDay === undefined) === (data.paceAlertPercent === undefined);
+}
+
+/**
+ * Checks that a warning threshold does not exceed an overspending threshold given in the same request.
+ */
+export function hasOrderedThresholds(warningThreshold?: number | null, overThreshold?: number | null): boolean {
+  return (
+    warningThreshold === undefined ||
+    warningThreshold === null ||
+    overThreshold === undefined ||
+    overThreshold === null ||
+    warningThreshold <= overThreshold
+  );
+}
@@ -56,6 +56,7 @@ export const createPlannedExpenseSchema = z.object({
         message: "Limit amount can have at most 2 decimal places",
       }
     ),
+  rolloverMode: z.enum(["none", "surplus", "surplus_and_deficit"]).optional(),
 });
 
 /**
@@ -125,3 +126,65 @@ export function parseCreatePlannedExpenseBody(body: unknown): CreatePlannedExpen
 
   return result.data;
 }
+
+/**
+ * Validation schema for a single custom settlement weight ("memberId:weight").
+ */
+const settlementWeightSchema = z
+  .string()
+  .regex(/^[^:]+:\d+(?:\.\d+)?$/, "Each weight must have the format memberId:weight")
+  .transform((entry) => {
+    const [householdMemberId, weight] = entry.split(":");
+    return { householdMemberId, weight: Number(weight) };
+  })
+  .pipe(
+    z.object({
+      householdMemberId: z.string().uuid("Weight member ID must be a valid UUID"),
+      weight: z.number().min(0, "Weight cannot be negative").max(1000, "Weight cannot exceed 1000"),
+    })
+  );
+
+/**
+ * Validation schema for budget settlement query parameters.
+ * Custom weights are passed as a comma separated list, e.g. `weights=<memberId>:2,<memberId>:1`.
+ */
+export const getBudgetSettlementQuerySchema = z
+  .object({
+    rule: z.enum(["equal", "income", "custom"]).optional().default("equal"),
+    weights: z
+      .string()
+      .optional()
+      .transform((val) => (val ? val.split(",").map((entry) => entry.trim()) : []))
+      .pipe(z.array(settlementWeightSchema)),
+  })
+  .refine((query) => query.rule !== "custom" || query.weights.length > 0, {
+    message: "Custom rule requires weights",
+    path: ["weights"],
+  })
+  .refine((query) => new Set(query.weights.map((entry) => entry.householdMemberId)).size === query.weights.length, {
+    message: "Each member can have only one weight",
+    path: ["weights"],
+  });
+
+/**
+ * Type for validated budget settlement query parameters.
+ */
+export type GetBudgetSettlementQuery = z.infer<typeof getBudgetSettlementQuerySchema>;
+
+/**
+ * Parses and validates budget settlement query parameters.
+ *
+ * @param query - Query parameters to validate
+ * @returns Validated GetBudgetSettlementQuery
+ * @throws Error with validation details if query is invalid
+ */
+export function parseGetBudgetSettlementQuery(query: unknown): GetBudgetSettlementQuery {
+  const result = getBudgetSettlementQuerySchema.safeParse(query);
+
+  if (!result.success) {
+    const firstError = result.error.errors[0];
+    throw new Error(`INVALID_QUERY_PARAMS: ${firstError.message}`);
+  }
+
+  return result.data;
+}
@@ -0,0 +1,131 @@
+import { z } from "zod";
+import type { CreateCategorizationRuleCommand, UpdateCategorizationRuleCommand } from "../../types";
+
+const patternSchema = z
+  .string({
+    required_error: "Pattern is required",
+    invalid_type_error: "Pattern must be a string",
+  })
+  .trim()
+  .min(1, "Pattern cannot be empty")
+  .max(100, "Pattern cannot exceed 100 characters")
+  .refine((pattern) => /[\p{L}\p{N}]/u.test(pattern), "Pattern must contain at least one letter or digit");
+
+const prioritySchema = z
+  .number({ invalid_type_error: "Priority must be a number" })
+  .int("Priority must be a whole number")
+  .min(0, "Priority cannot be negative")
+  .max(1000, "Priority cannot exceed 1000");
+
+const amountLimitSchema = (label: string) =>
+  z
+    .number({ invalid_type_error: `${label} must be a number` })
+    .positive(`${label} must be greater than 0`)
+    .max(9999999.99, `${label} cannot exceed 9999999.99`)
+    .refine((val) => {
+      // Check if the number has at most 2 decimal places
+      const decimalPlaces = (val.toString().split(".")[1] || "").length;
+      return decimalPlaces <= 2;
+    }, `${label} cannot have more than 2 decimal places`);
+
+// Map specific field errors to detailed error codes
+const fieldErrorMap: Record<string, string> = {
+  categoryId: "INVALID_CATEGORY_ID",
+  pattern: "INVALID_PATTERN",
+  priority: "INVALID_PRIORITY",
+  minAmount: "INVALID_AMOUNT_RANGE",
+  maxAmount: "INVALID_AMOUNT_RANGE",
+};
+
+/**
+ * Validation schema for creating a new categorization rule.
+ */
+export const createCategorizationRuleSchema = z
+  .object({
+    categoryId: z.string().uuid("Category ID must be a valid UUID"),
+    pattern: patternSchema,
+    priority: prioritySchema.optional(),
+    minAmount: amountLimitSchema("Minimum amount").nullable().optional(),
+    maxAmount: amountLimitSchema("Maximum amount").nullable().optional(),
+  })
+  .refine((data) => !data.minAmount || !data.maxAmount || data.minAmount <= data.maxAmount, {
+    message: "Minimum amount cannot exceed the maximum amount",
+    path: ["maxAmount"],
+  });
+
+/**
+ * Parses and validates create categorization rule request body.
+ *
+ * @param body - Request body to validate
+ * @returns Validated CreateCategorizationRuleCommand
+ * @throws Error with validation details if body is invalid
+ */
+export function parseCreateCategorizationRuleBody(body: unknown): CreateCategorizationRuleCommand {
+  const result = createCategorizationRuleSchema.safeParse(body);
+
+  if (!result.success) {
+    const firstError = result.error.errors[0];
+    const errorCode = fieldErrorMap[firstError.path[0] as string] || "INVALID_BODY";
+    throw new Error(`${errorCode}: ${firstError.message}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Validation schema for updating an existing categorization rule.
+ * All fields are optional, but at least one field must be provided.
+ * The amount range is checked by the service against the stored row.
+ */
+export const updateCategorizationRuleSchema = z
+  .object({
+    categoryId: z.string().uuid("Category ID must be a valid UUID").optional(),
+    pattern: patternSchema.optional(),
+    priority: prioritySchema.optional(),
+    minAmount: amountLimitSchema("Minimum amount").nullable().optional(),
+    maxAmount: amountLimitSchema("Maximum amount").nullable().optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "At least one field must be provided for update",
+    path: [],
+  });
+
+/**
+ * Parses and validates update categorization rule request body.
+ *
+ * @param body - Request body to validate
+ * @returns Validated UpdateCategorizationRuleCommand
+ * @throws Error with validation details if body is invalid
+ */
+export function parseUpdateCategorizationRuleBody(body: unknown): UpdateCategorizationRuleCommand {
+  const result = updateCategorizationRuleSchema.safeParse(body);
+
+  if (!result.success) {
+    const firstError = result.error.errors[0];
+    const errorCode = fieldErrorMap[firstError.path[0] as string] || "INVALID_BODY";
+    throw new Error(`${errorCode}: ${firstError.message}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Parses and validates categorization rule ID from path parameters.
+ *
+ * @param params - Path parameters containing ruleId
+ * @returns Validated categorization rule ID
+ * @throws Error with validation details if the ID is invalid
+ */
+export function parseCategorizationRuleIdParam(params: { ruleId?: string }): string {
+  const result = z
+    .string({ required_error: "Rule ID is required" })
+    .uuid("Rule ID must be a valid UUID")
+    .safeParse(params.ruleId);
+
+  if (!result.success) {
+    const firstError = result.error.errors[0];
+    throw new Error(`INVALID_CATEGORIZATION_RULE_ID: ${firstError.message}`);
+  }
+
+  return result.data;
+}
@@ -0,0 +1,105 @@
+import { z } from "zod";
+import { transactionsQuerySchema } from "./transactions";
+
+/**
+ * Validation schema for export query parameters.
+ * Transactions are filtered and sorted with the same parameters as the transactions list, without pagination.
+ * A CSV file holds one sheet, the transactions unless another one is chosen.
+ */
+const exportQueryObjectSchema = transactionsQuerySchema
+  .innerType()
+  .omit({ budgetId: true, page: true, pageSize: true })
+  .extend({
+    format: z
+      .enum(["csv", "xlsx"], {
+        errorMap: () => ({ message: "Format must be one of: csv, xlsx" }),
+      })
+      .default("csv"),
+
+    sheet: z
+      .enum(["summary", "incomes", "plannedExpenses", "transactions"], {
+        errorMap: () => ({ message: "Sheet must be one of: summary, incomes, plannedExpenses, transactions" }),
+      })
+      .default("transactions"),
+  });
+
+const isDateRangeOrdered = (data: { fromDate?: string; toDate?: string }) =>
+  !data.fromDate || !data.toDate || data.fromDate <= data.toDate;
+
+const dateRangeOrderMessage = {
+  message: "From date must be less than or equal to to date",
+  path: ["fromDate"],
+};
+
+export const exportQuerySchema = exportQueryObjectSchema.refine(isDateRangeOrdered, dateRangeOrderMessage);
+
+/**
+ * Type for validated export query parameters.
+ */
+export type ExportQuery = z.infer<typeof exportQuerySchema>;
+
+/**
+ * Type for validated date range export query parameters.
+ */
+export type ExportRangeQuery = z.infer<typeof exportRangeQuerySchema>;
+
+/**
+ * Validation schema for exporting a date range, which requires both dates.
+ */
+export const exportRangeQuerySchema = exportQuerySchema.refine(
+  (data): data is ExportQuery & { fromDate: string; toDate: string } => !!data.fromDate && !!data.toDate,
+  {
+    message: "From date and to date are required",
+    path: ["fromDate"],
+  }
+);
+
+/**
+ * Reads the export query parameters from URL search params, leaving out empty ones.
+ */
+const getExportQueryData = (searchParams: URLSearchParams) => ({
+  categoryId: searchParams.get("categoryId") || undefined,
+  memberId: searchParams.get("memberId") || undefined,
+  fromDate: searchParams.get("fromDate") || undefined,
+  toDate: searchParams.get("toDate") || undefined,
+  searchNote: searchParams.get("searchNote") || undefined,
+  sort: searchParams.get("sort") || undefined,
+  format: searchParams.get("format") || undefined,
+  sheet: searchParams.get("sheet") || undefined,
+});
+
+/**
+ * Parses and validates export query parameters from URL search params.
+ *
+ * @param searchParams - URL search parameters
+ * @returns Validated export query parameters
+ * @throws Error with validation details if parameters are invalid
+ */
+export function parseExportQuery(searchParams: URLSearchParams): ExportQuery {
+  const result = exportQuerySchema.safeParse(getExportQueryData(searchParams));
+
+  if (!result.success) {
+    const firstError = result.error.errors[0];
+    throw new Error(`INVALID_QUERY_PARAMS: ${firstError.message}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Parses and validates the query parameters of a date range export.
+ *
+ * @param searchParams - URL search parameters
+ * @returns Validated export query parameters with both dates
+ * @throws Error with validation details if parameters are invalid or a date is missing
+ */
+export function parseExportRangeQuery(searchParams: URLSearchParams): ExportRangeQuery {
+  const result = exportRangeQuerySchema.safeParse(getExportQueryData(searchParams));
+
+  if (!result.success) {
+    const firstError = result.error.errors[0];
+    throw new Error(`INVALID_QUERY_PARAMS: ${firstError.message}`);
+  }
+
+  return result.data;
+}
@@ -0,0 +1,321 @@
+import { z } from "zod";
+import type { HouseholdBackupDto } from "../../types";
+import { HOUSEHOLD_BACKUP_VERSION } from "../household-backup";
+import {
+  hasCompletePaceAlert,
+  hasOrderedThresholds,
+  overThresholdSchema,
+  paceAlertDaySchema,
+  paceAlertPercentSchema,
+  warningThresholdSchema,
+} from "./alert-settings";
+
+const idSchema = z.string().uuid("ID must be a valid UUID");
+
+const amountSchema = z
+  .number({
+    required_error: "Amount is required",
+    invalid_type_error: "Amount must be a number",
+  })
+  .positive("Amount must be greater than 0")
+  .max(99999999.99, "Amount cannot exceed 99999999.99")
+  .refine((val) => {
+    // Check if the number has at most 2 decimal places
+    const decimalPlaces = (val.toString().split(".")[1] || "").length;
+    return decimalPlaces <= 2;
+  }, "Amount cannot have more than 2 decimal places");
+
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+  .refine((date) => !isNaN(Date.parse(date)), "Date must be a valid date");
+
+const noteSchema = z.string().max(500, "Note cannot exceed 500 characters").nullable();
+
+const settingsSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, "Household name cannot be empty")
+      .max(120, "Household name cannot exceed 120 characters"),
+    categoryWarningThreshold: warningThresholdSchema,
+    categoryOverThreshold: overThresholdSchema,
+    paceAlertDay: paceAlertDaySchema.nullable(),
+    paceAlertPercent: paceAlertPercentSchema.nullable(),
+  })
+  .refine((data) => hasOrderedThresholds(data.categoryWarningThreshold, data.categoryOverThreshold), {
+    message: "Warning threshold cannot exceed the overspending threshold",
+    path: ["categoryWarningThreshold"],
+  })
+  .refine(hasCompletePaceAlert, {
+    message: "Pace alert day and percentage must be provided together",
+    path: ["paceAlertDay"],
+  });
+
+const memberSchema = z.object({
+  id: idSchema,
+  fullName: z
+    .string()
+    .trim()
+    .min(1, "Member name cannot be empty")
+    .max(120, "Member name cannot exceed 120 characters"),
+  isActive: z.boolean(),
+});
+
+const categorySchema = z
+  .object({
+    id: idSchema,
+    name: z
+      .string()
+      .trim()
+      .min(1, "Category name cannot be empty")
+      .max(100, "Category name cannot exceed 100 characters"),
+    parentId: idSchema.nullable(),
+    isArchived: z.boolean(),
+    color: z
+      .string()
+      .regex(/^#[0-9a-fA-F]{6}$/, "Color must be a #rrggbb hex string")
+      .nullable(),
+    icon: z.string().min(1).max(50, "Icon cannot exceed 50 characters").nullable(),
+    sortOrder: z.number().int("Sort order must be a whole number"),
+    group: z.enum(["fixed", "variable", "savings"]),
+    warningThreshold: warningThresholdSchema.nullable(),
+    overThreshold: overThresholdSchema.nullable(),
+    paceAlertDay: paceAlertDaySchema.nullable(),
+    paceAlertPercent: paceAlertPercentSchema.nullable(),
+  })
+  .refine((data) => hasOrderedThresholds(data.warningThreshold, data.overThreshold), {
+    message: "Warning threshold cannot exceed the overspending threshold",
+    path: ["warningThreshold"],
+  })
+  .refine(hasCompletePaceAlert, {
+    message: "Pace alert day and percentage must be provided together",
+    path: ["paceAlertDay"],
+  });
+
+const budgetSchema = z.object({
+  id: idSchema,
+  month: dateSchema.refine((month) => month.endsWith("-01"), "Budget month must be the first day of a month"),
+  note: noteSchema,
+});
+
+const incomeSchema = z.object({
+  id: idSchema,
+  budgetId: idSchema,
+  householdMemberId: idSchema,
+  amount: amountSchema,
+});
+
+const plannedExpenseSchema = z.object({
+  id: idSchema,
+  budgetId: idSchema,
+  categoryId: idSchema,
+  limitAmount: amountSchema,
+  rolloverMode: z.enum(["none", "surplus", "surplus_and_deficit"]),
+});
+
+const transactionSchema = z
+  .object({
+    id: idSchema,
+    budgetId: idSchema,
+    categoryId: idSchema,
+    householdMemberId: idSchema.nullable(),
+    kind: z.enum(["expense", "refund"]),
+    amount: amountSchema,
+    transactionDate: dateSchema,
+    note: noteSchema,
+    externalId: z.string().min(1).max(255, "External ID cannot exceed 255 characters").nullable(),
+    refundedTransactionId: idSchema.nullable(),
+  })
+  .refine((data) => data.refundedTransactionId === null || data.kind === "refund", {
+    message: "Only refunds can point to a refunded transaction",
+    path: ["refundedTransactionId"],
+  });
+
+const transactionSplitSchema = z.object({
+  id: idSchema,
+  transactionId: idSchema,
+  categoryId: idSchema,
+  amount: amountSchema,
+});
+
+/**
+ * Finds the position of the first value that occurs more than once.
+ */
+const findDuplicateIndex = (values: readonly string[]): number => {
+  const seen = new Set<string>();
+  return values.findIndex((value) => {
+    if (seen.has(value)) {
+      return true;
+    }
+    seen.add(value);
+    return false;
+  });
+};
+
+/**
+ * Validation schema for a household backup.
+ * Besides the records themselves it checks that every reference points to a record of the backup
+ * and that the records satisfy the uniqueness rules of the database.
+ */
+export const householdBackupSchema = z
+  .object({
+    version: z.literal(HOUSEHOLD_BACKUP_VERSION, {
+      errorMap: () => ({ message: `Only backup version ${HOUSEHOLD_BACKUP_VERSION} is supported` }),
+    }),
+    exportedAt: z.string().datetime({ offset: true, message: "Export date must be an ISO date-time" }),
+    household: settingsSchema,
+    members: z.array(memberSchema),
+    categories: z.array(categorySchema),
+    budgets: z.array(budgetSchema),
+    incomes: z.array(incomeSchema),
+    plannedExpenses: z.array(plannedExpenseSchema),
+    transactions: z.array(transactionSchema),
+    transactionSplits: z.array(transactionSplitSchema),
+  })
+  .superRefine((backup, ctx) => {
+    const addIssue = (path: (string | number)[], message: string) =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message });
+
+    const checkUnique = (collection: string, values: readonly string[], message: string) => {
+      const index = findDuplicateIndex(values);
+      if (index !== -1) {
+        addIssue([collection, index], message);
+      }
+    };
+
+    const memberIds = new Set(backup.members.map((member) => member.id));
+    const categoryIds = new Set(backup.categories.map((category) => category.id));
+    const budgetIds = new Set(backup.budgets.map((budget) => budget.id));
+    const transactionIds = new Set(backup.transactions.map((transaction) => transaction.id));
+    const parentIds = new Map(backup.categories.map((category) => [category.id, category.parentId]));
+
+    checkUnique(
+      "members",
+      backup.members.map((member) => member.id),
+      "Member IDs must be unique"
+    );
+    checkUnique(
+      "members",
+      backup.members.map((member) => member.fullName.trim().toLowerCase()),
+      "Member names must be unique"
+    );
+    checkUnique(
+      "categories",
+      backup.categories.map((category) => category.id),
+      "Category IDs must be unique"
+    );
+    checkUnique(
+      "categories",
+      backup.categories.map((category) => category.name.trim().toLowerCase()),
+      "Category names must be unique"
+    );
+    checkUnique(
+      "budgets",
+      backup.budgets.map((budget) => budget.id),
+      "Budget IDs must be unique"
+    );
+    checkUnique(
+      "budgets",
+      backup.budgets.map((budget) => budget.month),
+      "Only one budget per month is allowed"
+    );
+    checkUnique(
+      "incomes",
+      backup.incomes.map((income) => `${income.budgetId}:${income.householdMemberId}`),
+      "Only one income per member and budget is allowed"
+    );
+    checkUnique(
+      "plannedExpenses",
+      backup.plannedExpenses.map((plannedExpense) => `${plannedExpense.budgetId}:${plannedExpense.categoryId}`),
+      "Only one planned expense per category and budget is allowed"
+    );
+    checkUnique(
+      "transactions",
+      backup.transactions.map((transaction) => transaction.id),
+      "Transaction IDs must be unique"
+    );
+    checkUnique(
+      "transactions",
+      backup.transactions.flatMap((transaction) => (transaction.externalId ? [transaction.externalId] : [])),
+      "External IDs of transactions must be unique"
+    );
+
+    backup.categories.forEach((category, index) => {
+      if (category.parentId === null) {
+        return;
+      }
+      // The hierarchy is two levels deep: the parent must exist and be a top-level category
+      if (!categoryIds.has(category.parentId) || category.parentId === category.id) {
+        addIssue(["categories", index, "parentId"], "Parent category not found in the backup");
+      } else if (parentIds.get(category.parentId) !== null) {
+        addIssue(["categories", index, "parentId"], "Parent category must be a top-level category");
+      }
+    });
+
+    backup.incomes.forEach((income, index) => {
+      if (!budgetIds.has(income.budgetId)) {
+        addIssue(["incomes", index, "budgetId"], "Budget not found in the backup");
+      }
+      if (!memberIds.has(income.householdMemberId)) {
+        addIssue(["incomes", index, "householdMemberId"], "Household member not found in the backup");
+      }
+    });
+
+    backup.plannedExpenses.forEach((plannedExpense, index) => {
+      if (!budgetIds.has(plannedExpense.budgetId)) {
+        addIssue(["plannedExpenses", index, "budgetId"], "Budget not found in the backup");
+      }
+      if (!categoryIds.has(plannedExpense.categoryId)) {
+        addIssue(["plannedExpenses", index, "categoryId"], "Category not found in the backup");
+      }
+    });
+
+    backup.transactions.forEach((transaction, index) => {
+      if (!budgetIds.has(transaction.budgetId)) {
+        addIssue(["transactions", index, "budgetId"], "Budget not found in the backup");
+      }
+      if (!categoryIds.has(transaction.categoryId)) {
+        addIssue(["transactions", index, "categoryId"], "Category not found in the backup");
+      }
+      if (transaction.householdMemberId !== null && !memberIds.has(transaction.householdMemberId)) {
+        addIssue(["transactions", index, "householdMemberId"], "Household member not found in the backup");
+      }
+      if (
+        transaction.refundedTransactionId !== null &&
+        (!transactionIds.has(transaction.refundedTransactionId) || transaction.refundedTransactionId === transaction.id)
+      ) {
+        addIssue(["transactions", index, "refundedTransactionId"], "Refunded transaction not found in the backup");
+      }
+    });
+
+    backup.transactionSplits.forEach((split, index) => {
+      if (!transactionIds.has(split.transactionId)) {
+        addIssue(["transactionSplits", index, "transactionId"], "Transaction not found in the backup");
+      }
+      if (!categoryIds.has(split.categoryId)) {
+        addIssue(["transactionSplits", index, "categoryId"], "Category not found in the backup");
+      }
+    });
+  });
+
+/**
+ * Parses and validates a household backup document.
+ *
+ * @param body - Request body to validate
+ * @returns Validated HouseholdBackupDto
+ * @throws Error with validation details if the document is invalid
+ */
+export function parseHouseholdBackup(body: unknown): HouseholdBackupDto {
+  const result = householdBackupSchema.safeParse(body);
+
+  if (!result.success) {
+    const firstError = result.error.errors[0];
+    const errorCode = firstError.path[0] === "version" ? "UNSUPPORTED_BACKUP_VERSION" : "INVALID_BACKUP";
+    const location = firstError.path.length > 0 ? ` (${firstError.path.join(".")})` : "";
+    throw new Error(`${errorCode}: ${firstError.message}${location}`);
+  }
+
+  return result.data;
+}
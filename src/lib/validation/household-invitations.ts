@@ -0,0 +1,91 @@
+import { z } from "zod";
+import type { AcceptHouseholdInvitationCommand, CreateHouseholdInvitationCommand } from "../../types";
+import { assignableHouseholdRoleSchema } from "./household-users";
+
+/**
+ * Validation schema for creating a household invitation.
+ */
+export const createHouseholdInvitationSchema = z.object({
+  email: z
+    .string({
+      required_error: "Email is required",
+      invalid_type_error: "Email must be a string",
+    })
+    .trim()
+    .toLowerCase()
+    .email("Email must be a valid email address")
+    .max(254, "Email cannot exceed 254 characters"),
+  role: assignableHouseholdRoleSchema.optional(),
+});
+
+/**
+ * Validation schema for accepting a household invitation.
+ */
+export const acceptHouseholdInvitationSchema = z.object({
+  token: z
+    .string({
+      required_error: "Invitation token is required",
+      invalid_type_error: "Invitation token must be a string",
+    })
+    .trim()
+    .min(1, "Invitation token is required")
+    .max(200, "Invitation token is too long"),
+});
+
+/**
+ * Parses and validates create household invitation request body.
+ *
+ * @param body - Request body to validate
+ * @returns Validated CreateHouseholdInvitationCommand
+ * @throws Error with validation details if body is invalid
+ */
+export function parseCreateHouseholdInvitationBody(body: unknown): CreateHouseholdInvitationCommand {
+  const result = createHouseholdInvitationSchema.safeParse(body);
+
+  if (!result.success) {
+    const firstError = result.error.errors[0];
+    const code = firstError.path[0] === "role" ? "INVALID_ROLE" : "INVALID_EMAIL";
+    throw new Error(`${code}: ${firstError.message}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Parses and validates accept household invitation request body.
+ *
+ * @param body - Request body to validate
+ * @returns Validated AcceptHouseholdInvitationCommand
+ * @throws Error with validation details if body is invalid
+ */
+export function parseAcceptHouseholdInvitationBody(body: unknown): AcceptHouseholdInvitationCommand {
+  const result = acceptHouseholdInvitationSchema.safeParse(body);
+
+  if (!result.success) {
+    const firstError = result.error.errors[0];
+    throw new Error(`INVALID_TOKEN: ${firstError.message}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Parses and validates invitation ID from path parameters.
+ *
+ * @param params - Path parameters containing invitationId
+ * @returns Validated invitation ID
+ * @throws Error with validation details if the ID is invalid
+ */
+export function parseInvitationIdParam(params: { invitationId?: string }): string {
+  const result = z
+    .string({ required_error: "Invitation ID is required" })
+    .uuid("Invitation ID must be a valid UUID")
+    .safeParse(params.invitationId);
+
+  if (!result.success) {
+    const firstError = result.error.errors[0];
+    throw new Error(`INVALID_INVITATION_ID: ${firstError.message}`);
+  }
+
+  return result.data;
+}
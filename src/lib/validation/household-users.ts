@@ -0,0 +1,55 @@
+import { z } from "zod";
+import type { UpdateHouseholdUserRoleCommand } from "../../types";
+
+/**
+ * Validation schema for a role granted to another account; the owner role cannot be granted.
+ */
+export const assignableHouseholdRoleSchema = z.enum(["editor", "viewer"], {
+  errorMap: () => ({ message: "Role must be either editor or viewer" }),
+});
+
+/**
+ * Validation schema for changing the role of a household user.
+ */
+export const updateHouseholdUserRoleSchema = z.object({
+  role: assignableHouseholdRoleSchema,
+});
+
+/**
+ * Parses and validates update household user role request body.
+ *
+ * @param body - Request body to validate
+ * @returns Validated UpdateHouseholdUserRoleCommand
+ * @throws Error with validation details if body is invalid
+ */
+export function parseUpdateHouseholdUserRoleBody(body: unknown): UpdateHouseholdUserRoleCommand {
+  const result = updateHouseholdUserRoleSchema.safeParse(body);
+
+  if (!result.success) {
+    const firstError = result.error.errors[0];
+    throw new Error(`INVALID_ROLE: ${firstError.message}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Parses and validates user ID from path parameters.
+ *
+ * @param params - Path parameters containing userId
+ * @returns Validated user ID
+ * @throws Error with validation details if the ID is invalid
+ */
+export function parseHouseholdUserIdParam(params: { userId?: string }): string {
+  const result = z
+    .string({ required_error: "User ID is required" })
+    .uuid("User ID must be a valid UUID")
+    .safeParse(params.userId);
+
+  if (!result.success) {
+    const firstError = result.error.errors[0];
+    throw new Error(`INVALID_USER_ID: ${firstError.message}`);
+  }
+
+  return result.data;
+}
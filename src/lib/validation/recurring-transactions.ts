@@ -0,0 +1,148 @@
+import { z } from "zod";
+import type { CreateRecurringTransactionCommand, UpdateRecurringTransactionCommand } from "../../types";
+
+const amountSchema = z
+  .number({
+    required_error: "Amount is required",
+    invalid_type_error: "Amount must be a number",
+  })
+  .positive("Amount must be greater than 0")
+  .max(9999999.99, "Amount cannot exceed 9999999.99")
+  .refine((val) => {
+    // Check if the number has at most 2 decimal places
+    const decimalPlaces = (val.toString().split(".")[1] || "").length;
+    return decimalPlaces <= 2;
+  }, "Amount cannot have more than 2 decimal places");
+
+const dateSchema = (label: string) =>
+  z
+    .string({
+      required_error: `${label} is required`,
+      invalid_type_error: `${label} must be a string`,
+    })
+    .regex(/^\d{4}-\d{2}-\d{2}$/, `${label} must be in YYYY-MM-DD format`)
+    .refine((date) => !isNaN(Date.parse(date)), `${label} must be a valid date`);
+
+const frequencySchema = z.enum(["monthly", "weekly", "custom"], {
+  errorMap: () => ({ message: "Frequency must be one of: monthly, weekly, custom" }),
+});
+
+const intervalDaysSchema = z
+  .number({ invalid_type_error: "Interval must be a number" })
+  .int("Interval must be a whole number of days")
+  .min(1, "Interval must be at least 1 day")
+  .max(366, "Interval cannot exceed 366 days");
+
+// Map specific field errors to detailed error codes
+const fieldErrorMap: Record<string, string> = {
+  categoryId: "INVALID_CATEGORY_ID",
+  amount: "INVALID_AMOUNT",
+  note: "INVALID_NOTE",
+  frequency: "INVALID_SCHEDULE",
+  intervalDays: "INVALID_SCHEDULE",
+  startDate: "INVALID_DATE",
+  endDate: "INVALID_DATE",
+  isActive: "INVALID_BODY",
+};
+
+/**
+ * Validation schema for creating a new recurring transaction.
+ */
+export const createRecurringTransactionSchema = z
+  .object({
+    categoryId: z.string().uuid("Category ID must be a valid UUID"),
+    amount: amountSchema,
+    note: z.string().max(500, "Note cannot exceed 500 characters").nullable().optional(),
+    frequency: frequencySchema,
+    intervalDays: intervalDaysSchema.nullable().optional(),
+    startDate: dateSchema("Start date"),
+    endDate: dateSchema("End date").nullable().optional(),
+  })
+  .refine((data) => data.frequency !== "custom" || (data.intervalDays ?? null) !== null, {
+    message: "Custom frequency requires intervalDays",
+    path: ["intervalDays"],
+  })
+  .refine((data) => !data.endDate || data.endDate >= data.startDate, {
+    message: "End date must be on or after the start date",
+    path: ["endDate"],
+  });
+
+/**
+ * Parses and validates create recurring transaction request body.
+ *
+ * @param body - Request body to validate
+ * @returns Validated CreateRecurringTransactionCommand
+ * @throws Error with validation details if body is invalid
+ */
+export function parseCreateRecurringTransactionBody(body: unknown): CreateRecurringTransactionCommand {
+  const result = createRecurringTransactionSchema.safeParse(body);
+
+  if (!result.success) {
+    const firstError = result.error.errors[0];
+    const errorCode = fieldErrorMap[firstError.path[0] as string] || "INVALID_BODY";
+    throw new Error(`${errorCode}: ${firstError.message}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Validation schema for updating an existing recurring transaction.
+ * All fields are optional, but at least one field must be provided.
+ * Cross-field schedule rules are checked by the service against the stored row.
+ */
+export const updateRecurringTransactionSchema = z
+  .object({
+    categoryId: z.string().uuid("Category ID must be a valid UUID").optional(),
+    amount: amountSchema.optional(),
+    note: z.union([z.string().max(500, "Note cannot exceed 500 characters"), z.null()]).optional(),
+    frequency: frequencySchema.optional(),
+    intervalDays: intervalDaysSchema.nullable().optional(),
+    startDate: dateSchema("Start date").optional(),
+    endDate: dateSchema("End date").nullable().optional(),
+    isActive: z.boolean({ invalid_type_error: "isActive must be a boolean" }).optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "At least one field must be provided for update",
+    path: [],
+  });
+
+/**
+ * Parses and validates update recurring transaction request body.
+ *
+ * @param body - Request body to validate
+ * @returns Validated UpdateRecurringTransactionCommand
+ * @throws Error with validation details if body is invalid
+ */
+export function parseUpdateRecurringTransactionBody(body: unknown): UpdateRecurringTransactionCommand {
+  const result = updateRecurringTransactionSchema.safeParse(body);
+
+  if (!result.success) {
+    const firstError = result.error.errors[0];
+    const errorCode = fieldErrorMap[firstError.path[0] as string] || "INVALID_BODY";
+    throw new Error(`${errorCode}: ${firstError.message}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Parses and validates recurring transaction ID from path parameters.
+ *
+ * @param params - Path parameters containing recurringTransactionId
+ * @returns Validated recurring transaction ID
+ * @throws Error with validation details if the ID is invalid
+ */
+export function parseRecurringTransactionIdParam(params: { recurringTransactionId?: string }): string {
+  const result = z
+    .string({ required_error: "Recurring transaction ID is required" })
+    .uuid("Recurring transaction ID must be a valid UUID")
+    .safeParse(params.recurringTransactionId);
+
+  if (!result.success) {
+    const firstError = result.error.errors[0];
+    throw new Error(`INVALID_RECURRING_TRANSACTION_ID: ${firstError.message}`);
+  }
+
+  return result.data;
+}
@@ -0,0 +1,66 @@
+import { z } from "zod";
+import { addMonthsToMonth, listMonthsBetween } from "../trends";
+
+/**
+ * Maximum number of months a single report can span.
+ */
+export const MAX_REPORT_MONTHS = 24;
+
+/**
+ * Number of months reported when no range is given, ending with the current month.
+ */
+export const DEFAULT_REPORT_MONTHS = 12;
+
+const monthSchema = (name: string) =>
+  z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/, `${name} must be in YYYY-MM format`)
+    .transform((val) => `${val}-01`);
+
+/**
+ * Validation schema for trends report query parameters.
+ * Without "to" the report ends with the current month; without "from" it covers DEFAULT_REPORT_MONTHS months.
+ */
+export const getTrendsQuerySchema = z
+  .object({
+    from: monthSchema("from").optional(),
+    to: monthSchema("to").optional(),
+    groupBy: z.enum(["category", "member"]).optional().default("category"),
+  })
+  .transform((query) => {
+    const to = query.to ?? new Date().toISOString().slice(0, 7) + "-01";
+    const from = query.from ?? addMonthsToMonth(to, 1 - DEFAULT_REPORT_MONTHS);
+
+    return { from, to, groupBy: query.groupBy };
+  })
+  .refine((query) => query.from <= query.to, {
+    message: "from cannot be after to",
+    path: ["from"],
+  })
+  .refine((query) => listMonthsBetween(query.from, query.to).length <= MAX_REPORT_MONTHS, {
+    message: `Report cannot span more than ${MAX_REPORT_MONTHS} months`,
+    path: ["from"],
+  });
+
+/**
+ * Type for validated trends report query parameters.
+ */
+export type GetTrendsQuery = z.infer<typeof getTrendsQuerySchema>;
+
+/**
+ * Parses and validates trends report query parameters.
+ *
+ * @param query - Query parameters to validate
+ * @returns Validated GetTrendsQuery with months in YYYY-MM-01 format
+ * @throws Error with validation details if query is invalid
+ */
+export function parseGetTrendsQuery(query: unknown): GetTrendsQuery {
+  const result = getTrendsQuerySchema.safeParse(query);
+
+  if (!result.success) {
+    const firstError = result.error.errors[0];
+    throw new Error(`INVALID_QUERY_PARAMS: ${firstError.message}`);
+  }
+
+  return result.data;
+}
@@ -1,35 +1,158 @@
 import { z } from "zod";
-import type { CreateTransactionCommand, UpdateTransactionCommand } from "../../types";
+import { MIN_SPLIT_LINES } from "../splits";
+import type {
+  CreateTransactionCommand,
+  DismissTransactionDuplicateCommand,
+  ImportTransactionsCommand,
+  MergeTransactionsCommand,
+  TransactionImportRowErrorDto,
+  UpdateTransactionCommand,
+} from "../../types";
 
 /**
- * Validation schema for creating a new transaction.
+ * Value of the member filter of transaction and income lists that stands for the member linked to the signed-in account.
  */
-export const createTransactionSchema = z.object({
-  categoryId: z.string().uuid("Category ID must be a valid UUID"),
+export const CURRENT_USER_MEMBER_FILTER = "me";
 
-  amount: z
-    .number({
-      required_error: "Amount is required",
-      invalid_type_error: "Amount must be a number",
-    })
-    .positive("Amount must be greater than 0")
-    .refine((val) => {
-      // Check if the number has at most 2 decimal places
-      const decimalPlaces = (val.toString().split(".")[1] || "").length;
-      return decimalPlaces <= 2;
-    }, "Amount cannot have more than 2 decimal places"),
-
-  transactionDate: z
-    .string({
-      required_error: "Transaction date is required",
-      invalid_type_error: "Transaction date must be a string",
+/**
+ * Validation schema for a member filter: a member ID or "me" for the member of the signed-in account.
+ */
+export const memberFilterSchema = z
+  .string()
+  .refine(
+    (value) => value === CURRENT_USER_MEMBER_FILTER || z.string().uuid().safeParse(value).success,
+    `Member ID must be a valid UUID or "${CURRENT_USER_MEMBER_FILTER}"`
+  );
+
+/**
+ * Validation schema for split lines of a transaction.
+ * Every line books part of the amount against its own category; categories cannot repeat.
+ * Whether the lines add up to the transaction amount is checked by the service,
+ * because on update the amount may come from the stored transaction.
+ */
+const transactionSplitsSchema = z
+  .array(
+    z.object({
+      categoryId: z.string().uuid("Split category ID must be a valid UUID"),
+      amount: z
+        .number({
+          required_error: "Split amount is required",
+          invalid_type_error: "Split amount must be a number",
+        })
+        .positive("Split amount must be greater than 0")
+        .refine((val) => {
+          // Check if the number has at most 2 decimal places
+          const decimalPlaces = (val.toString().split(".")[1] || "").length;
+          return decimalPlaces <= 2;
+        }, "Split amount cannot have more than 2 decimal places"),
     })
-    .regex(/^\d{4}-\d{2}-\d{2}$/, "Transaction date must be in YYYY-MM-DD format")
-    .refine((date) => !isNaN(Date.parse(date)), "Transaction date must be a valid date"),
+  )
+  .min(MIN_SPLIT_LINES, `Split transaction must have at least ${MIN_SPLIT_LINES} lines`)
+  .refine(
+    (splits) => new Set(splits.map((split) => split.categoryId)).size === splits.length,
+    "Each split line must use a different category"
+  );
 
-  note: z.string().max(500, "Note cannot exceed 500 characters").optional(),
+/**
+ * Validation schema for the kind of a transaction.
+ */
+const transactionKindSchema = z.enum(["expense", "refund"], {
+  errorMap: () => ({ message: "Kind must be one of: expense, refund" }),
 });
 
+/**
+ * Validation schema for creating a new transaction.
+ * A transaction is booked either against a single category or split into lines.
+ * The category can be left out when the transaction has a note; it is then picked by the categorization rules.
+ * A refund linked to the expense it returns money for can leave it out as well, it then takes the expense's category.
+ */
+export const createTransactionSchema = z
+  .object({
+    categoryId: z.string().uuid("Category ID must be a valid UUID").optional(),
+
+    amount: z
+      .number({
+        required_error: "Amount is required",
+        invalid_type_error: "Amount must be a number",
+      })
+      .positive("Amount must be greater than 0")
+      .refine((val) => {
+        // Check if the number has at most 2 decimal places
+        const decimalPlaces = (val.toString().split(".")[1] || "").length;
+        return decimalPlaces <= 2;
+      }, "Amount cannot have more than 2 decimal places"),
+
+    transactionDate: z
+      .string({
+        required_error: "Transaction date is required",
+        invalid_type_error: "Transaction date must be a string",
+      })
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Transaction date must be in YYYY-MM-DD format")
+      .refine((date) => !isNaN(Date.parse(date)), "Transaction date must be a valid date"),
+
+    note: z.string().max(500, "Note cannot exceed 500 characters").optional(),
+
+    // Omitted for an expense, the payer is the member linked to the signed-in account; null leaves it empty
+    householdMemberId: z.union([z.string().uuid("Household member ID must be a valid UUID"), z.null()]).optional(),
+
+    // Bank reference of an imported transaction
+    externalId: z
+      .string()
+      .trim()
+      .min(1, "External ID cannot be empty")
+      .max(255, "External ID cannot exceed 255 characters")
+      .optional(),
+
+    kind: transactionKindSchema.optional(),
+
+    // Expense the refund returns money for
+    refundedTransactionId: z.string().uuid("Refunded transaction ID must be a valid UUID").optional(),
+
+    splits: transactionSplitsSchema.optional(),
+
+    // Confirms a transaction rejected before as a suspected duplicate
+    allowDuplicate: z.boolean({ invalid_type_error: "Allow duplicate must be a boolean" }).optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.splits && data.categoryId) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Provide either categoryId or splits, not both",
+        path: ["splits"],
+      });
+    } else if (!data.splits && !data.categoryId && !data.note?.trim() && !data.refundedTransactionId) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message:
+          "Category ID is required unless splits, a refunded transaction or a note matching a categorization rule are provided",
+        path: ["categoryId"],
+      });
+    }
+
+    if (data.refundedTransactionId && data.kind !== "refund") {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Only refunds can be linked to a refunded transaction",
+        path: ["refundedTransactionId"],
+      });
+    }
+  });
+
+/**
+ * Maps create transaction fields to detailed error codes.
+ */
+const createTransactionFieldErrorMap: Record<string, string> = {
+  categoryId: "INVALID_CATEGORY_ID",
+  amount: "INVALID_AMOUNT",
+  transactionDate: "INVALID_DATE",
+  note: "INVALID_NOTE",
+  householdMemberId: "INVALID_MEMBER",
+  externalId: "INVALID_EXTERNAL_ID",
+  kind: "INVALID_KIND",
+  refundedTransactionId: "INVALID_REFUNDED_TRANSACTION",
+  splits: "INVALID_SPLITS",
+};
+
 /**
  * Type for validated create transaction data.
  */
@@ -48,21 +171,42 @@ export function parseCreateTransactionBody(body: unknown): CreateTransactionComm
   if (!result.success) {
     const firstError = result.error.errors[0];
 
-    // Map specific field errors to detailed error codes
-    const fieldErrorMap: Record<string, string> = {
-      categoryId: "INVALID_CATEGORY_ID",
-      amount: "INVALID_AMOUNT",
-      transactionDate: "INVALID_DATE",
-      note: "INVALID_NOTE",
-    };
-
-    const errorCode = fieldErrorMap[firstError.path[0] as string] || "INVALID_BODY";
+    const errorCode = createTransactionFieldErrorMap[firstError.path[0] as string] || "INVALID_BODY";
     throw new Error(`${errorCode}: ${firstError.message}`);
   }
 
   return result.data;
 }
 
+/**
+ * Validates a create transaction command and collects all field errors instead of stopping at the first one.
+ * Used by imports, where every row is reported separately.
+ *
+ * @param body - Command to validate
+ * @returns Validated command or the list of field errors with their error codes
+ */
+export function validateCreateTransactionCommand(
+  body: unknown
+): { data: CreateTransactionCommand; errors: [] } | { data: null; errors: TransactionImportRowErrorDto[] } {
+  const result = createTransactionSchema.safeParse(body);
+
+  if (result.success) {
+    return { data: result.data, errors: [] };
+  }
+
+  return {
+    data: null,
+    errors: result.error.errors.map((issue) => {
+      const field = String(issue.path[0] ?? "body");
+      return {
+        field,
+        code: createTransactionFieldErrorMap[field] || "INVALID_BODY",
+        message: issue.message,
+      };
+    }),
+  };
+}
+
 /**
  * Validation schema for updating an existing transaction.
  * All fields are optional, but at least one field must be provided.
@@ -92,6 +236,19 @@ export const updateTransactionSchema = z
       .optional(),
 
     note: z.union([z.string().max(500, "Note cannot exceed 500 characters"), z.null()]).optional(),
+
+    // null removes the attribution to a household member
+    householdMemberId: z.union([z.string().uuid("Household member ID must be a valid UUID"), z.null()]).optional(),
+
+    kind: transactionKindSchema.optional(),
+
+    // null unlinks a refund from the expense it returns money for
+    refundedTransactionId: z
+      .union([z.string().uuid("Refunded transaction ID must be a valid UUID"), z.null()])
+      .optional(),
+
+    // null removes the splits and turns the transaction back into a single-category one
+    splits: z.union([transactionSplitsSchema, z.null()]).optional(),
   })
   .refine(
     (data) => {
@@ -102,7 +259,15 @@ export const updateTransactionSchema = z
       message: "At least one field must be provided for update",
       path: [],
     }
-  );
+  )
+  .refine((data) => !(data.splits && data.categoryId !== undefined), {
+    message: "Provide either categoryId or splits, not both",
+    path: ["splits"],
+  })
+  .refine((data) => !(data.refundedTransactionId && data.kind === "expense"), {
+    message: "Only refunds can be linked to a refunded transaction",
+    path: ["refundedTransactionId"],
+  });
 
 /**
  * Type for validated update transaction data.
@@ -128,6 +293,10 @@ export function parseUpdateTransactionBody(body: unknown): UpdateTransactionComm
       amount: "INVALID_AMOUNT",
       transactionDate: "INVALID_DATE",
       note: "INVALID_NOTE",
+      householdMemberId: "INVALID_MEMBER",
+      kind: "INVALID_KIND",
+      refundedTransactionId: "INVALID_REFUNDED_TRANSACTION",
+      splits: "INVALID_SPLITS",
     };
 
     const errorCode = fieldErrorMap[firstError.path[0] as string] || "INVALID_BODY";
@@ -148,6 +317,8 @@ export const transactionsQuerySchema = z
     // Query parameters
     categoryId: z.string().uuid("Category ID must be a valid UUID").optional(),
 
+    memberId: memberFilterSchema.optional(),
+
     fromDate: z
       .string()
       .regex(/^\d{4}-\d{2}-\d{2}$/, "From date must be in YYYY-MM-DD format")
@@ -206,6 +377,7 @@ export type TransactionsQueryParams = z.infer<typeof transactionsQuerySchema>;
  */
 export interface ListTransactionsFilters {
   categoryId?: string;
+  memberId?: string;
   fromDate?: string;
   toDate?: string;
   searchNote?: string;
@@ -259,6 +431,7 @@ export function parseTransactionsQuery(
   const rawData = {
     budgetId: params.budgetId,
     categoryId: searchParams.get("categoryId") || undefined,
+    memberId: searchParams.get("memberId") || undefined,
     fromDate: searchParams.get("fromDate") || undefined,
     toDate: searchParams.get("toDate") || undefined,
     searchNote: searchParams.get("searchNote") || undefined,
@@ -276,3 +449,174 @@ export function parseTransactionsQuery(
 
   return result.data;
 }
+
+/**
+ * Validation schema for a column reference of an imported file (header name or zero-based index).
+ */
+const importColumnRefSchema = z.union([
+  z.string().trim().min(1, "Column name cannot be empty"),
+  z.number().int("Column index must be an integer").min(0, "Column index cannot be negative"),
+]);
+
+/**
+ * Validation schema for options shared by all import formats.
+ */
+const importOptionsSchema = z.object({
+  defaultCategoryId: z.string().uuid("Default category ID must be a valid UUID").optional(),
+
+  householdMemberId: z.string().uuid("Household member ID must be a valid UUID").optional(),
+
+  dryRun: z.boolean().optional().default(true),
+
+  allowDuplicates: z.boolean().optional().default(false),
+});
+
+/**
+ * Validation schema for importing bank transactions from CSV with a column mapping.
+ */
+const importCsvTransactionsSchema = importOptionsSchema.extend({
+  format: z.literal("csv"),
+
+  csv: z
+    .string({
+      required_error: "CSV content is required",
+      invalid_type_error: "CSV content must be a string",
+    })
+    .min(1, "CSV content cannot be empty")
+    .max(2_000_000, "CSV content cannot exceed 2,000,000 characters"),
+
+  mapping: z.object({
+    date: importColumnRefSchema,
+    amount: importColumnRefSchema,
+    description: importColumnRefSchema,
+    category: importColumnRefSchema.optional(),
+  }),
+
+  delimiter: z.enum([";", ",", "\t"]).optional(),
+
+  hasHeader: z.boolean().optional().default(true),
+
+  expenseSign: z.enum(["negative", "any"]).optional().default("negative"),
+});
+
+/**
+ * Validation schema for importing a bank statement file (MT940, OFX/QFX or camt.053).
+ */
+const importStatementTransactionsSchema = importOptionsSchema.extend({
+  format: z.enum(["mt940", "ofx", "camt053"]),
+
+  content: z
+    .string({
+      required_error: "Statement content is required",
+      invalid_type_error: "Statement content must be a string",
+    })
+    .min(1, "Statement content cannot be empty")
+    .max(5_000_000, "Statement content cannot exceed 5,000,000 characters"),
+});
+
+/**
+ * Validation schema for importing bank transactions. Requests without a format are CSV imports.
+ */
+export const importTransactionsSchema = z
+  .preprocess(
+    (body) => (body && typeof body === "object" && !("format" in body) ? { ...(body as object), format: "csv" } : body),
+    z.discriminatedUnion("format", [importCsvTransactionsSchema, importStatementTransactionsSchema])
+  )
+  .superRefine((data, ctx) => {
+    if (
+      data.format === "csv" &&
+      !data.hasHeader &&
+      Object.values(data.mapping).some((column) => typeof column === "string")
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: "Columns can be referenced by name only when the file has a header row",
+        path: ["mapping"],
+      });
+    }
+  });
+
+/**
+ * Parses and validates import transactions request body.
+ *
+ * @param body - Request body to validate
+ * @returns Validated ImportTransactionsCommand
+ * @throws Error with validation details if body is invalid
+ */
+export function parseImportTransactionsBody(body: unknown): ImportTransactionsCommand {
+  const result = importTransactionsSchema.safeParse(body);
+
+  if (!result.success) {
+    const firstError = result.error.errors[0];
+
+    const fieldErrorMap: Record<string, string> = {
+      format: "INVALID_FORMAT",
+      csv: "INVALID_CSV",
+      content: "INVALID_STATEMENT",
+      mapping: "INVALID_MAPPING",
+      defaultCategoryId: "INVALID_CATEGORY_ID",
+      householdMemberId: "INVALID_MEMBER",
+    };
+
+    const errorCode = fieldErrorMap[firstError.path[0] as string] || "INVALID_BODY";
+    throw new Error(`${errorCode}: ${firstError.message}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Validation schema for dismissing a pair of suspected duplicates.
+ */
+export const dismissTransactionDuplicateSchema = z
+  .object({
+    transactionId: z.string().uuid("Transaction ID must be a valid UUID"),
+    duplicateTransactionId: z.string().uuid("Duplicate transaction ID must be a valid UUID"),
+  })
+  .refine((data) => data.transactionId !== data.duplicateTransactionId, {
+    message: "A transaction cannot be a duplicate of itself",
+    path: ["duplicateTransactionId"],
+  });
+
+/**
+ * Parses and validates dismiss transaction duplicate request body.
+ *
+ * @param body - Request body to validate
+ * @returns Validated DismissTransactionDuplicateCommand
+ * @throws Error with validation details if body is invalid
+ */
+export function parseDismissTransactionDuplicateBody(body: unknown): DismissTransactionDuplicateCommand {
+  const result = dismissTransactionDuplicateSchema.safeParse(body);
+
+  if (!result.success) {
+    const firstError = result.error.errors[0];
+    throw new Error(`INVALID_TRANSACTION_ID: ${firstError.message}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Validation schema for merging a duplicate into a transaction.
+ */
+export const mergeTransactionsSchema = z.object({
+  duplicateTransactionId: z.string().uuid("Duplicate transaction ID must be a valid UUID"),
+});
+
+/**
+ * Parses and validates merge transactions request body.
+ *
+ * @param body - Request body to validate
+ * @returns Validated MergeTransactionsCommand
+ * @throws Error with validation details if body is invalid
+ */
+export function parseMergeTransactionsBody(body: unknown): MergeTransactionsCommand {
+  const result = mergeTransactionsSchema.safeParse(body);
+
+  if (!result.success) {
+    const firstError = result.error.errors[0];
+    throw new Error(`INVALID_TRANSACTION_ID: ${firstError.message}`);
+  }
+
+  return result.data;
+}
@@ -1,6 +1,8 @@
 import { defineMiddleware } from "astro:middleware";
 
 import { createSupabaseServerInstance } from "../db/supabase.client";
+import type { HouseholdRole } from "../types";
+import { getSafeRedirectPath, REDIRECT_PARAM, withRedirectParam } from "../lib/redirect";
 
 // Public paths that don't require authentication
 const PUBLIC_PATHS = [
@@ -33,14 +35,19 @@ export const onRequest = defineMiddleware(async ({ locals, cookies, url, request
   } = await supabase.auth.getUser();
 
   if (user) {
-    // User is authenticated - fetch household_id
-    const { data: household } = await supabase.from("households").select("id").eq("user_id", user.id).single();
+    // User is authenticated - fetch household_id and role through household membership
+    const { data: membership } = await supabase
+      .from("household_users")
+      .select("household_id, role")
+      .eq("user_id", user.id)
+      .single();
 
-    if (household) {
+    if (membership) {
       locals.user = {
         id: user.id,
         email: user.email ?? "",
-        household_id: household.id,
+        household_id: membership.household_id,
+        role: membership.role as HouseholdRole,
       };
     } else {
       // User exists but no household - this shouldn't happen due to trigger
@@ -49,17 +56,19 @@ export const onRequest = defineMiddleware(async ({ locals, cookies, url, request
       locals.user = undefined;
     }
 
-    // If user is authenticated and trying to access login/register, redirect to home
+    // If user is authenticated and trying to access login/register, redirect to home or the requested page
     if (url.pathname === "/login" || url.pathname === "/register") {
-      return redirect("/");
+      return redirect(getSafeRedirectPath(url.searchParams.get(REDIRECT_PARAM)));
     }
   } else {
     // User is not authenticated
     locals.user = undefined;
 
     // If trying to access protected route, redirect to login
+    // Pages are opened again after signing in, e.g. the link accepting a household invitation
     if (!isPublicPath) {
-      return redirect("/login");
+      const returnTo = url.pathname.startsWith("/api/") ? "/" : `${url.pathname}${url.search}`;
+      return redirect(withRedirectParam("/login", returnTo));
     }
   }
 
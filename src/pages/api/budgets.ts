@@ -1,6 +1,8 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "../../lib/permissions";
 import { createBudgetsService } from "../../lib/services/budgets.service";
+import { createRecurringTransactionsService } from "../../lib/services/recurring-transactions.service";
 import type { ApiErrorDto, BudgetsListResponseDto, CreateBudgetCommand, BudgetCreatedDto } from "../../types";
 
 export const prerender = false;
@@ -32,6 +34,7 @@ const incomeItemSchema = z.object({
 const plannedExpenseItemSchema = z.object({
   categoryId: z.string().uuid("Invalid category ID format"),
   limitAmount: z.number().positive("Planned expense limit must be positive"),
+  rolloverMode: z.enum(["none", "surplus", "surplus_and_deficit"]).optional(),
 });
 
 const createBudgetSchema = z
@@ -235,12 +238,13 @@ export const GET: APIRoute = async ({ request, locals }) => {
  *
  * Creates a new budget for the currently authenticated user's household.
  * Optionally initializes incomes and planned expenses in a single atomic operation.
+ * Recurring transactions pending for the budget's month are materialized after creation.
  *
  * Request Body:
  * - month (string, required): Month in YYYY-MM or YYYY-MM-DD format
  * - note (string, optional): Optional note/description for the budget (max 500 characters)
  * - incomes (array, optional): Array of income items with householdMemberId and amount
- * - plannedExpenses (array, optional): Array of planned expense items with categoryId and limitAmount
+ * - plannedExpenses (array, optional): Array of planned expense items with categoryId, limitAmount and optional rolloverMode
  *
  * Validation:
  * - No duplicate household member IDs in incomes
@@ -253,6 +257,7 @@ export const GET: APIRoute = async ({ request, locals }) => {
  * - 201: Budget created successfully with X-Result-Code: BUDGET_CREATED
  * - 400: Invalid request payload or validation errors
  * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
  * - 404: Household not found for user (HOUSEHOLD_NOT_FOUND)
  * - 409: Budget already exists for the specified month (BUDGET_ALREADY_EXISTS)
  * - 500: Internal server error (BUDGET_CREATE_FAILED)
@@ -318,6 +323,11 @@ export const POST: APIRoute = async ({ request, locals }) => {
       return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
     }
 
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "budgets:edit")) {
+      return createPermissionDeniedResponse("budgets:edit");
+    }
+
     // Create budgets service and create budget
     const budgetsService = createBudgetsService(supabase);
 
@@ -332,6 +342,17 @@ export const POST: APIRoute = async ({ request, locals }) => {
       const result = await budgetsService.createBudget(user.id, command);
 
       console.log(`Budget created successfully for user ${user.id}: ${result.id} for month ${result.month}`);
+
+      // Book recurring transactions that were waiting for this month's budget.
+      // Failures are logged only - the budget itself was created successfully.
+      // Occurrences are stored together with their cursors, so they are booked on the next run.
+      try {
+        const recurringTransactionsService = createRecurringTransactionsService(supabase);
+        await recurringTransactionsService.materializeForBudgetMonth(user.id, result.month);
+      } catch (materializeError) {
+        console.error("Failed to materialize recurring transactions for new budget:", materializeError);
+      }
+
       return createBudgetCreatedResponse(result);
     } catch (serviceError) {
       const errorMessage = serviceError instanceof Error ? serviceError.message : "Unknown error";
@@ -353,6 +374,10 @@ export const POST: APIRoute = async ({ request, locals }) => {
         return createErrorResponse("INVALID_CATEGORY", "One or more categories are invalid for this household", 400);
       }
 
+      if (errorMessage === "CATEGORY_ARCHIVED") {
+        return createErrorResponse("CATEGORY_ARCHIVED", "Archived categories cannot be planned", 400);
+      }
+
       if (errorMessage === "BUDGET_CREATE_FAILED") {
         console.error("Database error while creating budget:", serviceError);
         return createErrorResponse("BUDGET_CREATE_FAILED", "Failed to create budget", 500);
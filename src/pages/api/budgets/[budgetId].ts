@@ -1,5 +1,6 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "../../../lib/permissions";
 import { createBudgetsService } from "../../../lib/services/budgets.service";
 import type { ApiErrorDto, BudgetDetailDto, UpdateBudgetCommand } from "../../../types";
 
@@ -220,6 +221,7 @@ export const GET: APIRoute = async ({ params, request, locals }) => {
  * - 200: Budget updated successfully with X-Result-Code: BUDGET_UPDATED
  * - 400: Invalid request payload or state transition (INVALID_PAYLOAD, INVALID_STATE_TRANSITION)
  * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
  * - 404: Budget not found for user's household (BUDGET_NOT_FOUND)
  * - 500: Internal server error (BUDGET_UPDATE_FAILED)
  */
@@ -275,6 +277,11 @@ export const PATCH: APIRoute = async ({ params, request, locals }) => {
       return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
     }
 
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "budgets:edit")) {
+      return createPermissionDeniedResponse("budgets:edit");
+    }
+
     // Create budgets service and update budget metadata
     const budgetsService = createBudgetsService(supabase);
 
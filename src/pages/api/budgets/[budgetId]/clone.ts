@@ -0,0 +1,277 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "../../../../lib/permissions";
+import { createBudgetsService } from "../../../../lib/services/budgets.service";
+import { createRecurringTransactionsService } from "../../../../lib/services/recurring-transactions.service";
+import type { ApiErrorDto, BudgetClonedDto, BudgetClonePreviewDto, CloneBudgetCommand } from "../../../../types";
+
+export const prerender = false;
+
+// Validation schema for path parameters
+const paramsSchema = z.object({
+  budgetId: z.string().uuid("Budget ID must be a valid UUID"),
+});
+
+// Validation schema for POST request body
+const cloneBudgetSchema = z.object({
+  month: z
+    .string()
+    .trim()
+    .regex(/^\d{4}-\d{2}(-\d{2})?$/, "Month must be in YYYY-MM or YYYY-MM-DD format"),
+  note: z
+    .string()
+    .nullable()
+    .optional()
+    .transform((val) => {
+      if (val === null || val === undefined) return undefined;
+      const trimmed = val.trim();
+      return trimmed === "" ? undefined : trimmed;
+    })
+    .refine((val) => val === undefined || val.length <= 500, {
+      message: "Note must not exceed 500 characters",
+    }),
+});
+
+/**
+ * Creates a standardized API error response.
+ */
+function createErrorResponse(code: string, message: string, status: number): Response {
+  const errorResponse: ApiErrorDto = {
+    error: {
+      code,
+      message,
+    },
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
+}
+
+/**
+ * Creates a successful API response for budget clone preview.
+ */
+function createPreviewResponse(data: BudgetClonePreviewDto): Response {
+  return new Response(JSON.stringify(data), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "X-Result-Code": "BUDGET_CLONE_PREVIEWED",
+    },
+  });
+}
+
+/**
+ * Creates a successful API response for budget cloning.
+ */
+function createClonedResponse(data: BudgetClonedDto): Response {
+  return new Response(JSON.stringify(data), {
+    status: 201,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "X-Result-Code": "BUDGET_CLONED",
+    },
+  });
+}
+
+/**
+ * GET /api/budgets/{budgetId}/clone
+ *
+ * Returns the incomes and planned expenses that would be copied from the budget, without creating anything.
+ * Used by the budget wizard to prefill its forms from a previous month.
+ *
+ * Path Parameters:
+ * - budgetId (string, required): UUID of the source budget
+ *
+ * Responses:
+ * - 200: Clone preview with copyable and skipped items, X-Result-Code: BUDGET_CLONE_PREVIEWED
+ * - 400: Invalid budget ID (INVALID_BUDGET_ID)
+ * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 404: Budget not found for user's household (BUDGET_NOT_FOUND)
+ * - 500: Internal server error (BUDGET_CLONE_FAILED)
+ */
+export const GET: APIRoute = async ({ params, locals }) => {
+  try {
+    // Validate path parameters
+    const paramsResult = paramsSchema.safeParse(params);
+    if (!paramsResult.success) {
+      console.warn("Budget ID validation failed:", paramsResult.error);
+      const firstError = paramsResult.error.errors[0];
+      return createErrorResponse("INVALID_BUDGET_ID", firstError?.message || "Invalid budget ID format", 400);
+    }
+
+    const { budgetId } = paramsResult.data;
+
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      console.error("Supabase client not available in locals");
+      return createErrorResponse("BUDGET_CLONE_FAILED", "Database connection not available", 500);
+    }
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError) {
+      console.error("Authentication error:", authError);
+      return createErrorResponse("UNAUTHENTICATED", "Authentication failed", 401);
+    }
+
+    if (!user) {
+      return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
+    }
+
+    const budgetsService = createBudgetsService(supabase);
+
+    try {
+      const result = await budgetsService.getBudgetClonePreview(user.id, budgetId);
+      return createPreviewResponse(result);
+    } catch (serviceError) {
+      const errorMessage = serviceError instanceof Error ? serviceError.message : "Unknown error";
+
+      if (errorMessage === "HOUSEHOLD_NOT_FOUND" || errorMessage === "BUDGET_NOT_FOUND") {
+        return createErrorResponse("BUDGET_NOT_FOUND", "Budget not found or not accessible", 404);
+      }
+
+      console.error("Error while preparing budget clone preview:", serviceError);
+      return createErrorResponse("BUDGET_CLONE_FAILED", "Failed to prepare budget copy", 500);
+    }
+  } catch (error) {
+    // Catch-all for unexpected errors
+    console.error("Unexpected error in GET /api/budgets/[budgetId]/clone:", error);
+    return createErrorResponse("BUDGET_CLONE_FAILED", "An internal server error occurred", 500);
+  }
+};
+
+/**
+ * POST /api/budgets/{budgetId}/clone
+ *
+ * Creates a budget for the target month with incomes and planned expenses copied from the source budget.
+ * Incomes of inactive members and limits of archived categories are skipped and listed in the response.
+ * Recurring transactions pending for the target month are materialized after creation.
+ *
+ * Path Parameters:
+ * - budgetId (string, required): UUID of the source budget
+ *
+ * Request Body:
+ * - month (string, required): Target month in YYYY-MM or YYYY-MM-DD format
+ * - note (string, optional): Note for the new budget (max 500 characters)
+ *
+ * Responses:
+ * - 201: Budget cloned successfully with X-Result-Code: BUDGET_CLONED
+ * - 400: Invalid budget ID or payload (INVALID_BUDGET_ID, INVALID_MONTH_FORMAT, INVALID_PAYLOAD)
+ * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
+ * - 404: Source budget not found for user's household (BUDGET_NOT_FOUND)
+ * - 409: Budget already exists for the target month (BUDGET_ALREADY_EXISTS)
+ * - 500: Internal server error (BUDGET_CLONE_FAILED)
+ */
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // Validate path parameters
+    const paramsResult = paramsSchema.safeParse(params);
+    if (!paramsResult.success) {
+      console.warn("Budget ID validation failed:", paramsResult.error);
+      const firstError = paramsResult.error.errors[0];
+      return createErrorResponse("INVALID_BUDGET_ID", firstError?.message || "Invalid budget ID format", 400);
+    }
+
+    const { budgetId } = paramsResult.data;
+
+    // Parse and validate request body
+    let requestBody;
+    try {
+      requestBody = await request.json();
+    } catch (parseError) {
+      console.warn("JSON parsing failed:", parseError);
+      return createErrorResponse("INVALID_PAYLOAD", "Request body must be valid JSON", 400);
+    }
+
+    const bodyResult = cloneBudgetSchema.safeParse(requestBody);
+    if (!bodyResult.success) {
+      console.warn("Request body validation failed:", bodyResult.error);
+      const firstError = bodyResult.error.errors[0];
+
+      if (firstError?.path.includes("month")) {
+        return createErrorResponse("INVALID_MONTH_FORMAT", firstError.message, 400);
+      }
+
+      return createErrorResponse("INVALID_PAYLOAD", firstError?.message || "Invalid request payload", 400);
+    }
+
+    const command: CloneBudgetCommand = bodyResult.data;
+
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      console.error("Supabase client not available in locals");
+      return createErrorResponse("BUDGET_CLONE_FAILED", "Database connection not available", 500);
+    }
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError) {
+      console.error("Authentication error:", authError);
+      return createErrorResponse("UNAUTHENTICATED", "Authentication failed", 401);
+    }
+
+    if (!user) {
+      return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
+    }
+
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "budgets:edit")) {
+      return createPermissionDeniedResponse("budgets:edit");
+    }
+
+    const budgetsService = createBudgetsService(supabase);
+
+    try {
+      const result = await budgetsService.cloneBudget(user.id, budgetId, command);
+
+      console.log(
+        `Budget cloned successfully for user ${user.id}: ${budgetId} -> ${result.id} for month ${result.month}`
+      );
+
+      // Book recurring transactions that were waiting for this month's budget.
+      // Failures are logged only - the budget itself was created successfully.
+      // Occurrences are stored together with their cursors, so they are booked on the next run.
+      try {
+        const recurringTransactionsService = createRecurringTransactionsService(supabase);
+        await recurringTransactionsService.materializeForBudgetMonth(user.id, result.month);
+      } catch (materializeError) {
+        console.error("Failed to materialize recurring transactions for cloned budget:", materializeError);
+      }
+
+      return createClonedResponse(result);
+    } catch (serviceError) {
+      const errorMessage = serviceError instanceof Error ? serviceError.message : "Unknown error";
+
+      // Map service errors to HTTP responses
+      if (errorMessage === "HOUSEHOLD_NOT_FOUND" || errorMessage === "BUDGET_NOT_FOUND") {
+        return createErrorResponse("BUDGET_NOT_FOUND", "Budget not found or not accessible", 404);
+      }
+
+      if (errorMessage === "BUDGET_ALREADY_EXISTS") {
+        return createErrorResponse("BUDGET_ALREADY_EXISTS", "A budget for this month already exists", 409);
+      }
+
+      console.error("Error while cloning budget:", serviceError);
+      return createErrorResponse("BUDGET_CLONE_FAILED", "Failed to clone budget", 500);
+    }
+  } catch (error) {
+    // Catch-all for unexpected errors
+    console.error("Unexpected error in POST /api/budgets/[budgetId]/clone:", error);
+    return createErrorResponse("BUDGET_CLONE_FAILED", "An internal server error occurred", 500);
+  }
+};
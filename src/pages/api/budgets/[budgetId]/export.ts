@@ -0,0 +1,158 @@
+import type { APIRoute } from "astro";
+import type { ApiErrorDto } from "../../../../types";
+import { renderExportFile, type ExportFile } from "../../../../lib/export/file";
+import { createExportService } from "../../../../lib/services/export.service";
+import { parseGetBudgetSummaryParams } from "../../../../lib/validation/budgets";
+import { parseExportQuery } from "../../../../lib/validation/export";
+
+export const prerender = false;
+
+/**
+ * Creates a file download response for an export.
+ *
+ * @param file - Rendered export file
+ * @returns Response with the file and download headers
+ */
+function createFileResponse(file: ExportFile): Response {
+  return new Response(file.content, {
+    status: 200,
+    headers: {
+      "Content-Type": file.contentType,
+      "Content-Disposition": `attachment; filename="${file.fileName}"`,
+      "X-Result-Code": "EXPORT_CREATED",
+    },
+  });
+}
+
+/**
+ * Creates an error response with standardized format.
+ *
+ * @param code - Error code for the response
+ * @param message - Human-readable error message
+ * @param status - HTTP status code
+ * @returns Response with error details
+ */
+function createErrorResponse(code: string, message: string, status: number): Response {
+  const errorResponse: ApiErrorDto = {
+    error: {
+      code,
+      message,
+    },
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
+}
+
+/**
+ * GET /api/budgets/{budgetId}/export
+ *
+ * Exports a budget of the authenticated user's household to a spreadsheet: its summary, incomes,
+ * planned expenses and transactions.
+ *
+ * Path Parameters:
+ * - budgetId: UUID of the budget to export
+ *
+ * Query Parameters:
+ * - fromDate: string (optional) - Only transactions on or after the date (YYYY-MM-DD)
+ * - toDate: string (optional) - Only transactions on or before the date (YYYY-MM-DD)
+ * - categoryId: string (optional) - Only transactions booked against the category, split lines included
+ * - memberId: string (optional) - Only transactions paid by the household member, "me" for the signed-in account
+ * - searchNote: string (optional) - Only transactions whose note contains the text
+ * - sort: "date_desc" | "amount_desc" | "amount_asc" (default: "date_desc") - Order of the transactions
+ * - format: "csv" | "xlsx" (default: "csv") - CSV in UTF-8 with BOM and semicolon separators, or an XLSX workbook
+ *   with the summary, incomes, planned expenses and transactions sheets
+ * - sheet: "summary" | "incomes" | "plannedExpenses" | "transactions" (default: "transactions") - Sheet of a CSV file
+
+ * Responses:
+ * - 200: File exported successfully with X-Result-Code: EXPORT_CREATED and a Content-Disposition attachment
+ * - 400: Invalid request parameters (INVALID_BUDGET_ID, INVALID_QUERY_PARAMS)
+ * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 404: Household or budget not found (HOUSEHOLD_NOT_FOUND, BUDGET_NOT_FOUND)
+ * - 500: Internal server error (SUPABASE_CLIENT_UNAVAILABLE, EXPORT_FAILED, INTERNAL_SERVER_ERROR)
+ */
+export const GET: APIRoute = async ({ params, url, locals }) => {
+  try {
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      console.error("Supabase client not available in locals");
+      return createErrorResponse("SUPABASE_CLIENT_UNAVAILABLE", "Database connection not available", 500);
+    }
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError) {
+      console.error("Authentication error:", authError);
+      return createErrorResponse("UNAUTHENTICATED", "Authentication failed", 401);
+    }
+
+    if (!user) {
+      return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
+    }
+
+    // Validate path parameters
+    let validatedParams;
+    try {
+      validatedParams = parseGetBudgetSummaryParams(params);
+    } catch (validationError) {
+      const errorMessage = validationError instanceof Error ? validationError.message : "Invalid parameters";
+      console.log(`Invalid path parameters for user ${user.id}: ${errorMessage}`);
+      return createErrorResponse("INVALID_BUDGET_ID", errorMessage.replace("INVALID_REQUEST: ", ""), 400);
+    }
+
+    // Validate query parameters
+    let validatedQuery;
+    try {
+      validatedQuery = parseExportQuery(url.searchParams);
+    } catch (validationError) {
+      const errorMessage = validationError instanceof Error ? validationError.message : "Invalid query parameters";
+      console.log(`Invalid query parameters for user ${user.id}: ${errorMessage}`);
+      return createErrorResponse("INVALID_QUERY_PARAMS", errorMessage.replace("INVALID_QUERY_PARAMS: ", ""), 400);
+    }
+
+    // Create export service and render the file
+    const exportService = createExportService(supabase);
+
+    try {
+      const { format, sheet, ...filters } = validatedQuery;
+      const workbook = await exportService.exportBudget(user.id, validatedParams.budgetId, filters);
+      const file = renderExportFile(workbook, format, sheet);
+
+      console.log(`Budget exported for user ${user.id}: ${file.fileName}`);
+      return createFileResponse(file);
+    } catch (serviceError) {
+      const errorMessage = serviceError instanceof Error ? serviceError.message : "Unknown error";
+
+      // Map service errors to appropriate HTTP responses
+      switch (errorMessage) {
+        case "HOUSEHOLD_NOT_FOUND":
+          console.log(`Household not found for user ${user.id}`);
+          return createErrorResponse("HOUSEHOLD_NOT_FOUND", "Household not found", 404);
+
+        case "BUDGET_NOT_FOUND":
+          console.log(`Budget not found for user ${user.id}, budgetId: ${validatedParams.budgetId}`);
+          return createErrorResponse("BUDGET_NOT_FOUND", "Budget not found or access denied", 404);
+
+        case "EXPORT_FAILED":
+          console.error(`Export failed for user ${user.id}:`, serviceError);
+          return createErrorResponse("EXPORT_FAILED", "Failed to export data", 500);
+
+        default:
+          console.error(`Unexpected error during export for user ${user.id}:`, serviceError);
+          return createErrorResponse("INTERNAL_SERVER_ERROR", "An internal server error occurred", 500);
+      }
+    }
+  } catch (error) {
+    console.error("Unexpected error in budget export endpoint:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "An internal server error occurred", 500);
+  }
+};
@@ -1,6 +1,8 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "../../../../lib/permissions";
 import { createBudgetsService } from "../../../../lib/services/budgets.service";
+import { memberFilterSchema } from "../../../../lib/validation/transactions";
 import type { ApiErrorDto, BudgetIncomesListResponseDto, UpsertBudgetIncomesCommand } from "../../../../types";
 
 export const prerender = false;
@@ -10,6 +12,11 @@ const paramsSchema = z.object({
   budgetId: z.string().uuid("Budget ID must be a valid UUID"),
 });
 
+// Validation schema for query parameters of GET
+const querySchema = z.object({
+  memberId: memberFilterSchema.optional(),
+});
+
 // Validation schema for PUT request body
 const putBodySchema = z.object({
   incomes: z
@@ -85,14 +92,18 @@ function createSuccessResponse(data: BudgetIncomesListResponseDto, resultCode =
  * Path Parameters:
  * - budgetId (string, required): UUID of the budget to retrieve incomes for
  *
+ * Query Parameters:
+ * - memberId (string, optional): Only incomes of the household member, "me" for the member linked to the signed-in
+ *   account (no results without one)
+ *
  * Responses:
  * - 200: Incomes list retrieved successfully with X-Result-Code: INCOMES_LISTED
- * - 400: Invalid budget ID (INVALID_BUDGET_ID)
+ * - 400: Invalid budget ID (INVALID_BUDGET_ID) or query parameters (INVALID_QUERY_PARAMS)
  * - 401: User not authenticated (UNAUTHENTICATED)
  * - 404: Budget not found for user's household (BUDGET_NOT_FOUND)
  * - 500: Internal server error (INCOMES_LIST_FAILED)
  */
-export const GET: APIRoute = async ({ params, locals }) => {
+export const GET: APIRoute = async ({ params, request, locals }) => {
   try {
     // Validate path parameters
     const paramsResult = paramsSchema.safeParse(params);
@@ -104,6 +115,14 @@ export const GET: APIRoute = async ({ params, locals }) => {
 
     const { budgetId } = paramsResult.data;
 
+    // Validate query parameters
+    const url = new URL(request.url);
+    const queryResult = querySchema.safeParse({ memberId: url.searchParams.get("memberId") || undefined });
+    if (!queryResult.success) {
+      const firstError = queryResult.error.errors[0];
+      return createErrorResponse("INVALID_QUERY_PARAMS", firstError?.message || "Invalid query parameters", 400);
+    }
+
     // Get Supabase client from locals
     const supabase = locals.supabase;
     if (!supabase) {
@@ -130,7 +149,7 @@ export const GET: APIRoute = async ({ params, locals }) => {
     const budgetsService = createBudgetsService(supabase);
 
     try {
-      const result = await budgetsService.listBudgetIncomes(user.id, budgetId);
+      const result = await budgetsService.listBudgetIncomes(user.id, budgetId, queryResult.data.memberId);
 
       console.log(`Budget incomes fetched successfully for user ${user.id}: budget ${budgetId}`);
       return createSuccessResponse(result);
@@ -183,6 +202,7 @@ export const GET: APIRoute = async ({ params, locals }) => {
  * - 200: Incomes updated successfully with X-Result-Code: INCOMES_UPSERTED
  * - 400: Invalid budget ID, payload, or business rule violation
  * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
  * - 404: Budget not found for user's household (BUDGET_NOT_FOUND)
  * - 500: Internal server error (INCOMES_UPSERT_FAILED)
  */
@@ -247,6 +267,11 @@ export const PUT: APIRoute = async ({ params, request, locals }) => {
       return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
     }
 
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "budgets:edit")) {
+      return createPermissionDeniedResponse("budgets:edit");
+    }
+
     // Create budgets service and replace budget incomes
     const budgetsService = createBudgetsService(supabase);
 
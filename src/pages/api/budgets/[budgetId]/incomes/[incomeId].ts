@@ -1,5 +1,6 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "../../../../../lib/permissions";
 import { createBudgetsService } from "../../../../../lib/services/budgets.service";
 import type { ApiErrorDto, BudgetIncomeDto, UpdateBudgetIncomeCommand } from "../../../../../types";
 
@@ -85,6 +86,7 @@ function createDeleteSuccessResponse(): Response {
  * - 200: Income updated successfully with X-Result-Code: INCOME_UPDATED
  * - 400: Invalid budget ID, income ID, or payload (INVALID_BUDGET_ID, INVALID_INCOME_ID, INVALID_PAYLOAD)
  * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
  * - 404: Income not found (INCOME_NOT_FOUND)
  * - 500: Internal server error (INCOME_UPDATE_FAILED)
  */
@@ -147,6 +149,11 @@ export const PATCH: APIRoute = async ({ params, request, locals }) => {
       return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
     }
 
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "budgets:edit")) {
+      return createPermissionDeniedResponse("budgets:edit");
+    }
+
     // Create budgets service and update budget income
     const budgetsService = createBudgetsService(supabase);
 
@@ -206,6 +213,7 @@ export const PATCH: APIRoute = async ({ params, request, locals }) => {
  * - 204: Income deleted successfully with X-Result-Code: INCOME_DELETED
  * - 400: Invalid budget ID or income ID (INVALID_BUDGET_ID, INVALID_INCOME_ID, INVALID_PATH_PARAMS)
  * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
  * - 404: Income not found (INCOME_NOT_FOUND)
  * - 500: Internal server error (INCOME_DELETE_FAILED)
  */
@@ -250,6 +258,11 @@ export const DELETE: APIRoute = async ({ params, locals }) => {
       return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
     }
 
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "budgets:edit")) {
+      return createPermissionDeniedResponse("budgets:edit");
+    }
+
     // Create budgets service and delete budget income
     const budgetsService = createBudgetsService(supabase);
 
@@ -1,5 +1,6 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "../../../../lib/permissions";
 import { createBudgetsService } from "../../../../lib/services/budgets.service";
 import { parseCreatePlannedExpenseBody, parseGetBudgetSummaryParams } from "../../../../lib/validation/budgets";
 import type {
@@ -36,6 +37,7 @@ const upsertPlannedExpensesSchema = z.object({
               message: "Limit amount can have at most 2 decimal places",
             }
           ),
+        rolloverMode: z.enum(["none", "surplus", "surplus_and_deficit"]).optional(),
       })
     )
     .refine(
@@ -228,11 +230,14 @@ export const GET: APIRoute = async ({ params, locals }) => {
  * - plannedExpenses (array, required): Array of planned expense objects
  *   - categoryId (string, required): UUID of the category
  *   - limitAmount (number, required): Positive amount with max 2 decimal places, max 9,999,999.99
+ *   - rolloverMode (string, optional): "none" (default), "surplus" or "surplus_and_deficit"
  *
  * Responses:
  * - 200: Planned expenses updated successfully with X-Result-Code: PLANNED_EXPENSES_UPSERTED
- * - 400: Invalid request data (INVALID_PAYLOAD, INVALID_LIMIT, DUPLICATE_CATEGORY, INVALID_CATEGORY)
+ * - 400: Invalid request data (INVALID_PAYLOAD, INVALID_LIMIT, DUPLICATE_CATEGORY, INVALID_CATEGORY,
+ *        CATEGORY_ARCHIVED)
  * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
  * - 404: Budget or household not found (BUDGET_NOT_FOUND, HOUSEHOLD_NOT_FOUND)
  * - 500: Internal server error (PLANNED_EXPENSES_UPSERT_FAILED)
  */
@@ -291,6 +296,11 @@ export const PUT: APIRoute = async ({ params, request, locals }) => {
       return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
     }
 
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "budgets:edit")) {
+      return createPermissionDeniedResponse("budgets:edit");
+    }
+
     // Create budgets service and replace planned expenses
     const budgetsService = createBudgetsService(supabase);
 
@@ -317,6 +327,14 @@ export const PUT: APIRoute = async ({ params, request, locals }) => {
         return createErrorResponse("INVALID_CATEGORY", "One or more category IDs are invalid or not accessible", 400);
       }
 
+      if (errorMessage === "CATEGORY_ARCHIVED") {
+        return createErrorResponse(
+          "CATEGORY_ARCHIVED",
+          "Archived categories cannot be planned unless the budget already plans them",
+          400
+        );
+      }
+
       if (errorMessage === "DUPLICATE_CATEGORY") {
         return createErrorResponse("DUPLICATE_CATEGORY", "Duplicate category detected in database operation", 400);
       }
@@ -357,11 +375,14 @@ export const PUT: APIRoute = async ({ params, request, locals }) => {
  * Request Body:
  * - categoryId (string, required): UUID of the category
  * - limitAmount (number, required): Positive amount with max 2 decimal places, max 9,999,999.99
+ * - rolloverMode (string, optional): "none" (default), "surplus" or "surplus_and_deficit"
  *
  * Responses:
  * - 201: Planned expense created successfully with X-Result-Code: PLANNED_EXPENSE_CREATED
- * - 400: Invalid request data (INVALID_PAYLOAD, INVALID_LIMIT, DUPLICATE_CATEGORY, CATEGORY_NOT_FOUND)
+ * - 400: Invalid request data (INVALID_PAYLOAD, INVALID_LIMIT, DUPLICATE_CATEGORY, CATEGORY_NOT_FOUND,
+ *        CATEGORY_ARCHIVED)
  * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
  * - 404: Budget or household not found (BUDGET_NOT_FOUND)
  * - 500: Internal server error (PLANNED_EXPENSE_CREATE_FAILED)
  */
@@ -422,6 +443,11 @@ export const POST: APIRoute = async ({ params, request, locals }) => {
       return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
     }
 
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "budgets:edit")) {
+      return createPermissionDeniedResponse("budgets:edit");
+    }
+
     // Create budgets service and create planned expense
     const budgetsService = createBudgetsService(supabase);
 
@@ -448,6 +474,10 @@ export const POST: APIRoute = async ({ params, request, locals }) => {
         return createErrorResponse("CATEGORY_NOT_FOUND", "Category not found or not accessible", 400);
       }
 
+      if (errorMessage === "CATEGORY_ARCHIVED") {
+        return createErrorResponse("CATEGORY_ARCHIVED", "Archived categories cannot be planned", 400);
+      }
+
       if (errorMessage === "DUPLICATE_CATEGORY") {
         return createErrorResponse(
           "DUPLICATE_CATEGORY",
@@ -1,5 +1,6 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "../../../../../lib/permissions";
 import { createBudgetsService } from "../../../../../lib/services/budgets.service";
 import type { ApiErrorDto, BudgetPlannedExpenseDto, UpdatePlannedExpenseCommand } from "../../../../../types";
 
@@ -12,22 +13,28 @@ const paramsSchema = z.object({
 });
 
 // Validation schema for PATCH request body
-const updatePlannedExpenseSchema = z.object({
-  limitAmount: z
-    .number()
-    .positive("Limit amount must be greater than 0")
-    .max(9999999.99, "Limit amount cannot exceed 9,999,999.99")
-    .refine(
-      (val) => {
-        // Check for maximum 2 decimal places
-        const decimalPlaces = (val.toString().split(".")[1] || "").length;
-        return decimalPlaces <= 2;
-      },
-      {
-        message: "Limit amount can have at most 2 decimal places",
-      }
-    ),
-});
+const updatePlannedExpenseSchema = z
+  .object({
+    limitAmount: z
+      .number()
+      .positive("Limit amount must be greater than 0")
+      .max(9999999.99, "Limit amount cannot exceed 9,999,999.99")
+      .refine(
+        (val) => {
+          // Check for maximum 2 decimal places
+          const decimalPlaces = (val.toString().split(".")[1] || "").length;
+          return decimalPlaces <= 2;
+        },
+        {
+          message: "Limit amount can have at most 2 decimal places",
+        }
+      )
+      .optional(),
+    rolloverMode: z.enum(["none", "surplus", "surplus_and_deficit"]).optional(),
+  })
+  .refine((data) => data.limitAmount !== undefined || data.rolloverMode !== undefined, {
+    message: "Request body must contain limitAmount or rolloverMode",
+  });
 
 /**
  * Creates a standardized API error response.
@@ -103,7 +110,7 @@ async function parseRequestBody(request: Request): Promise<UpdatePlannedExpenseC
 /**
  * PATCH /api/budgets/{budgetId}/planned-expenses/{plannedExpenseId}
  *
- * Updates a single planned expense limit amount for a specific budget belonging to the authenticated user's household.
+ * Updates a single planned expense limit amount and/or rollover mode for a specific budget belonging to the authenticated user's household.
  * Validates ownership of both the budget and planned expense before performing the update.
  *
  * Path Parameters:
@@ -111,12 +118,15 @@ async function parseRequestBody(request: Request): Promise<UpdatePlannedExpenseC
  * - plannedExpenseId (string, required): UUID of the planned expense to update
  *
  * Request Body:
- * - limitAmount (number, required): New limit amount (positive, max 2 decimal places, max 9,999,999.99)
+ * - limitAmount (number, optional): New limit amount (positive, max 2 decimal places, max 9,999,999.99)
+ * - rolloverMode (string, optional): "none", "surplus" or "surplus_and_deficit"
+ * At least one of the fields is required.
  *
  * Responses:
  * - 200: Planned expense updated successfully with X-Result-Code: PLANNED_EXPENSE_UPDATED
  * - 400: Invalid request data (INVALID_BUDGET_ID, INVALID_PLANNED_EXPENSE_ID, INVALID_PAYLOAD)
  * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
  * - 404: Budget or planned expense not found (PLANNED_EXPENSE_NOT_FOUND)
  * - 500: Internal server error (PLANNED_EXPENSE_UPDATE_FAILED)
  */
@@ -182,6 +192,11 @@ export const PATCH: APIRoute = async ({ params, request, locals }) => {
       return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
     }
 
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "budgets:edit")) {
+      return createPermissionDeniedResponse("budgets:edit");
+    }
+
     // Create budgets service and update planned expense
     const budgetsService = createBudgetsService(supabase);
 
@@ -249,6 +264,7 @@ export const PATCH: APIRoute = async ({ params, request, locals }) => {
  * - 204: Planned expense deleted successfully with X-Result-Code: PLANNED_EXPENSE_DELETED
  * - 400: Invalid request data (INVALID_BUDGET_ID, INVALID_PLANNED_EXPENSE_ID)
  * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
  * - 404: Budget or planned expense not found (PLANNED_EXPENSE_NOT_FOUND)
  * - 500: Internal server error (PLANNED_EXPENSE_DELETE_FAILED)
  */
@@ -314,6 +330,11 @@ export const DELETE: APIRoute = async ({ params, request, locals }) => {
       return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
     }
 
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "budgets:edit")) {
+      return createPermissionDeniedResponse("budgets:edit");
+    }
+
     // Create budgets service and delete planned expense
     const budgetsService = createBudgetsService(supabase);
 
@@ -0,0 +1,137 @@
+import type { APIRoute } from "astro";
+import type { ApiErrorDto } from "../../../../types";
+import { renderBudgetReportPdf } from "../../../../lib/pdf/budget-report";
+import { createBudgetsService } from "../../../../lib/services/budgets.service";
+import { parseGetBudgetSummaryParams } from "../../../../lib/validation/budgets";
+
+export const prerender = false;
+
+/**
+ * Creates a PDF download response.
+ *
+ * @param content - PDF file bytes
+ * @param fileName - Name of the downloaded file
+ * @returns Response with the PDF and download headers
+ */
+function createPdfResponse(content: Uint8Array, fileName: string): Response {
+  return new Response(content, {
+    status: 200,
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+      "X-Result-Code": "BUDGET_REPORT_GENERATED",
+    },
+  });
+}
+
+/**
+ * Creates an error response with standardized format.
+ *
+ * @param code - Error code for the response
+ * @param message - Human-readable error message
+ * @param status - HTTP status code
+ * @returns Response with error details
+ */
+function createErrorResponse(code: string, message: string, status: number): Response {
+  const errorResponse: ApiErrorDto = {
+    error: {
+      code,
+      message,
+    },
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
+}
+
+/**
+ * GET /api/budgets/{budgetId}/report.pdf
+ *
+ * Generates the monthly report of a budget of the authenticated user's household as a PDF: the header with totals,
+ * the budget note, incomes per member, planned vs. spent per category with status colors and all transactions.
+ *
+ * Path Parameters:
+ * - budgetId: UUID of the budget to report on
+ *
+ * Responses:
+ * - 200: PDF generated successfully with X-Result-Code: BUDGET_REPORT_GENERATED and a Content-Disposition attachment
+ * - 400: Invalid path parameter (INVALID_BUDGET_ID)
+ * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 404: Household or budget not found (HOUSEHOLD_NOT_FOUND, BUDGET_NOT_FOUND)
+ * - 500: Internal server error (SUPABASE_CLIENT_UNAVAILABLE, BUDGET_REPORT_FAILED, INTERNAL_SERVER_ERROR)
+ */
+export const GET: APIRoute = async ({ params, locals }) => {
+  try {
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      console.error("Supabase client not available in locals");
+      return createErrorResponse("SUPABASE_CLIENT_UNAVAILABLE", "Database connection not available", 500);
+    }
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError) {
+      console.error("Authentication error:", authError);
+      return createErrorResponse("UNAUTHENTICATED", "Authentication failed", 401);
+    }
+
+    if (!user) {
+      return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
+    }
+
+    // Validate path parameters
+    let validatedParams;
+    try {
+      validatedParams = parseGetBudgetSummaryParams(params);
+    } catch (validationError) {
+      const errorMessage = validationError instanceof Error ? validationError.message : "Invalid parameters";
+      console.log(`Invalid path parameters for user ${user.id}: ${errorMessage}`);
+      return createErrorResponse("INVALID_BUDGET_ID", errorMessage.replace("INVALID_REQUEST: ", ""), 400);
+    }
+
+    // Create budgets service and render the report
+    const budgetsService = createBudgetsService(supabase);
+
+    try {
+      const reportData = await budgetsService.getBudgetReportData(user.id, validatedParams.budgetId);
+      const fileName = `budzet-${reportData.month.slice(0, 7)}.pdf`;
+
+      console.log(`Budget report generated for user ${user.id}: budget ${validatedParams.budgetId}`);
+      return createPdfResponse(renderBudgetReportPdf(reportData), fileName);
+    } catch (serviceError) {
+      const errorMessage = serviceError instanceof Error ? serviceError.message : "Unknown error";
+
+      // Map service errors to appropriate HTTP responses
+      switch (errorMessage) {
+        case "HOUSEHOLD_NOT_FOUND":
+          console.log(`Household not found for user ${user.id}`);
+          return createErrorResponse("HOUSEHOLD_NOT_FOUND", "Household not found", 404);
+
+        case "BUDGET_NOT_FOUND":
+          console.log(`Budget not found for user ${user.id}, budgetId: ${validatedParams.budgetId}`);
+          return createErrorResponse("BUDGET_NOT_FOUND", "Budget not found or access denied", 404);
+
+        case "BUDGET_FETCH_FAILED":
+        case "BUDGET_SUMMARY_FETCH_FAILED":
+          console.error(`Budget report failed for user ${user.id}:`, serviceError);
+          return createErrorResponse("BUDGET_REPORT_FAILED", "Failed to generate budget report", 500);
+
+        default:
+          console.error(`Unexpected error during budget report for user ${user.id}:`, serviceError);
+          return createErrorResponse("INTERNAL_SERVER_ERROR", "An internal server error occurred", 500);
+      }
+    }
+  } catch (error) {
+    console.error("Unexpected error in budget report endpoint:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "An internal server error occurred", 500);
+  }
+};
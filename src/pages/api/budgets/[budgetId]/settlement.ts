@@ -0,0 +1,164 @@
+import type { APIRoute } from "astro";
+import type { BudgetSettlementDto, ApiErrorDto } from "../../../../types";
+import { createBudgetsService } from "../../../../lib/services/budgets.service";
+import { parseGetBudgetSettlementQuery, parseGetBudgetSummaryParams } from "../../../../lib/validation/budgets";
+
+export const prerender = false;
+
+/**
+ * Creates a successful response for budget settlement.
+ *
+ * @param data - Budget settlement data
+ * @returns Response with budget settlement and success headers
+ */
+function createSuccessResponse(data: BudgetSettlementDto): Response {
+  return new Response(JSON.stringify(data), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "X-Result-Code": "BUDGET_SETTLEMENT_CALCULATED",
+    },
+  });
+}
+
+/**
+ * Creates an error response with standardized format.
+ *
+ * @param code - Error code for the response
+ * @param message - Human-readable error message
+ * @param status - HTTP status code
+ * @returns Response with error details
+ */
+function createErrorResponse(code: string, message: string, status: number): Response {
+  const errorResponse: ApiErrorDto = {
+    error: {
+      code,
+      message,
+    },
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
+}
+
+/**
+ * GET /api/budgets/{budgetId}/settlement
+ *
+ * Calculates the settle-up report for a budget: how spending should be shared between household members
+ * and the minimal list of transfers that evens out what each member actually paid.
+ *
+ * Path Parameters:
+ * - budgetId: UUID of the budget to settle
+ *
+ * Query Parameters:
+ * - rule: "equal" | "income" | "custom" (default: "equal") - How spending is shared between members
+ *   - equal: every member covers the same part, including active members without income or payments
+ *   - income: parts are proportional to member incomes in the budget (equal when nobody has income)
+ *   - custom: parts are proportional to the provided weights
+ * - weights: string (required for custom rule) - Comma separated `memberId:weight` pairs, e.g. `<uuid>:2,<uuid>:1`
+ *
+ * Responses:
+ * - 200: Settlement calculated successfully with X-Result-Code: BUDGET_SETTLEMENT_CALCULATED
+ * - 400: Invalid request parameters (INVALID_BUDGET_ID, INVALID_QUERY_PARAMS, INVALID_MEMBER)
+ * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 404: Budget not found or doesn't belong to user's household (BUDGET_NOT_FOUND)
+ * - 500: Internal server error (SUPABASE_CLIENT_UNAVAILABLE, SETTLEMENT_FETCH_FAILED, INTERNAL_SERVER_ERROR)
+ */
+export const GET: APIRoute = async ({ params, url, locals }) => {
+  try {
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      console.error("Supabase client not available in locals");
+      return createErrorResponse("SUPABASE_CLIENT_UNAVAILABLE", "Database connection not available", 500);
+    }
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError) {
+      console.error("Authentication error:", authError);
+      return createErrorResponse("UNAUTHENTICATED", "Authentication failed", 401);
+    }
+
+    if (!user) {
+      return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
+    }
+
+    // Validate path parameters
+    let validatedParams;
+    try {
+      validatedParams = parseGetBudgetSummaryParams(params);
+    } catch (validationError) {
+      const errorMessage = validationError instanceof Error ? validationError.message : "Invalid parameters";
+      console.log(`Invalid path parameters for user ${user.id}: ${errorMessage}`);
+      return createErrorResponse("INVALID_BUDGET_ID", errorMessage.replace("INVALID_REQUEST: ", ""), 400);
+    }
+
+    // Validate query parameters
+    let validatedQuery;
+    try {
+      const queryParams = Object.fromEntries(url.searchParams.entries());
+      validatedQuery = parseGetBudgetSettlementQuery(queryParams);
+    } catch (validationError) {
+      const errorMessage = validationError instanceof Error ? validationError.message : "Invalid query parameters";
+      console.log(`Invalid query parameters for user ${user.id}: ${errorMessage}`);
+      return createErrorResponse("INVALID_QUERY_PARAMS", errorMessage.replace("INVALID_QUERY_PARAMS: ", ""), 400);
+    }
+
+    // Create budgets service and calculate settlement
+    const budgetsService = createBudgetsService(supabase);
+
+    try {
+      const settlement = await budgetsService.getBudgetSettlement(user.id, validatedParams.budgetId, {
+        rule: validatedQuery.rule,
+        weights: validatedQuery.weights,
+      });
+
+      console.log(
+        `Budget settlement calculated for user ${user.id}: budget ${settlement.budgetId} (${settlement.month}), rule: ${settlement.rule}, transfers: ${settlement.transfers.length}`
+      );
+      return createSuccessResponse(settlement);
+    } catch (serviceError) {
+      const errorMessage = serviceError instanceof Error ? serviceError.message : "Unknown error";
+
+      // Map service errors to appropriate HTTP responses
+      switch (errorMessage) {
+        case "BUDGET_NOT_FOUND":
+          console.log(`Budget not found for user ${user.id}, budgetId: ${validatedParams.budgetId}`);
+          return createErrorResponse("BUDGET_NOT_FOUND", "Budget not found or access denied", 404);
+
+        case "INVALID_MEMBER":
+          return createErrorResponse(
+            "INVALID_MEMBER",
+            "One or more weighted members do not belong to the household",
+            400
+          );
+
+        case "SETTLEMENT_FETCH_FAILED":
+          console.error(
+            `Budget settlement failed for user ${user.id}, budgetId: ${validatedParams.budgetId}:`,
+            serviceError
+          );
+          return createErrorResponse("SETTLEMENT_FETCH_FAILED", "Failed to calculate budget settlement", 500);
+
+        default:
+          console.error(
+            `Unexpected error during budget settlement for user ${user.id}, budgetId: ${validatedParams.budgetId}:`,
+            serviceError
+          );
+          return createErrorResponse("INTERNAL_SERVER_ERROR", "An internal server error occurred", 500);
+      }
+    }
+  } catch (error) {
+    console.error("Unexpected error in budget settlement endpoint:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "An internal server error occurred", 500);
+  }
+};
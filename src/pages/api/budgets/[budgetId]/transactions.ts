@@ -1,4 +1,5 @@
 import type { APIRoute } from "astro";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "../../../../lib/permissions";
 import { createBudgetsService } from "../../../../lib/services/budgets.service";
 import { parseTransactionsQuery, parseCreateTransactionBody } from "../../../../lib/validation/transactions";
 import type { ApiErrorDto, TransactionsListResponseDto, TransactionDto } from "../../../../types";
@@ -54,7 +55,8 @@ function createTransactionCreatedResponse(data: TransactionDto): Response {
  * GET /api/budgets/{budgetId}/transactions
  *
  * Lists transactions for a specific budget with filtering, pagination, and sorting.
- * Supports filtering by category, date range, and note search.
+ * Supports filtering by category, paying household member, date range, and note search.
+ * The memberId filter "me" stands for the member linked to the signed-in account (no results without one).
  */
 export const GET: APIRoute = async ({ params, request, locals }) => {
   try {
@@ -94,6 +96,7 @@ export const GET: APIRoute = async ({ params, request, locals }) => {
 
     const filters = {
       categoryId: queryParams.categoryId,
+      memberId: queryParams.memberId,
       fromDate: queryParams.fromDate,
       toDate: queryParams.toDate,
       searchNote: queryParams.searchNote,
@@ -133,6 +136,21 @@ export const GET: APIRoute = async ({ params, request, locals }) => {
  *
  * Creates a new transaction for a specific budget.
  * Validates the budget exists, category belongs to the household, and creates the transaction.
+ * Instead of categoryId the body may contain splits - at least two lines with distinct categories
+ * whose amounts add up to the transaction amount (SPLIT_TOTAL_MISMATCH otherwise).
+ * Without categoryId and splits the category is picked by the household's categorization rules from the note
+ * (CATEGORY_NOT_MATCHED when no rule matches).
+ * Optional householdMemberId records who paid and must point to an active member (INVALID_MEMBER otherwise).
+ * An expense without householdMemberId is paid by the member linked to the signed-in account; null leaves it empty.
+ * Optional externalId keeps a bank reference, unique within the household (DUPLICATE_EXTERNAL_ID otherwise).
+ * Optional kind "refund" records money returned, which reduces the spending of its category. A refund may be linked
+ * through refundedTransactionId to an expense of the household (INVALID_REFUNDED_TRANSACTION otherwise); without
+ * categoryId and splits it then takes the expense's category. Refunds of an expense cannot return more than
+ * its amount (REFUND_EXCEEDS_EXPENSE).
+ * Archived categories cannot be assigned (CATEGORY_ARCHIVED), except the category a linked refund takes over.
+ * A transaction with the same category and amount, a date a few days apart and a similar note as an existing one
+ * is rejected with DUPLICATE_SUSPECTED; sending it again with allowDuplicate true saves it anyway.
+ * Every member of the household can add expenses; refunds need a role that edits budgets (PERMISSION_DENIED otherwise).
  */
 export const POST: APIRoute = async ({ params, request, locals }) => {
   try {
@@ -186,6 +204,12 @@ export const POST: APIRoute = async ({ params, request, locals }) => {
       return createErrorResponse("INVALID_BODY", errorMessage, 400);
     }
 
+    // Check the household role of the user; viewers can add expenses, but not refunds
+    const permission = command.kind === "refund" ? "budgets:edit" : "expenses:create";
+    if (!hasHouseholdPermission(locals.user?.role, permission)) {
+      return createPermissionDeniedResponse(permission);
+    }
+
     // Create service and create transaction
     const budgetsService = createBudgetsService(supabase);
     const result = await budgetsService.createBudgetTransaction(user.id, budgetId, command);
@@ -205,6 +229,54 @@ export const POST: APIRoute = async ({ params, request, locals }) => {
         case "CATEGORY_MISMATCH":
           return createErrorResponse("CATEGORY_MISMATCH", "Category does not belong to the user's household", 409);
 
+        case "CATEGORY_ARCHIVED":
+          return createErrorResponse("CATEGORY_ARCHIVED", "Archived categories cannot be assigned", 400);
+
+        case "CATEGORY_NOT_MATCHED":
+          return createErrorResponse(
+            "CATEGORY_NOT_MATCHED",
+            "No categorization rule matches the note, category ID is required",
+            400
+          );
+
+        case "INVALID_MEMBER":
+          return createErrorResponse("INVALID_MEMBER", "Household member not found or inactive", 400);
+
+        case "SPLIT_TOTAL_MISMATCH":
+          return createErrorResponse(
+            "SPLIT_TOTAL_MISMATCH",
+            "Split amounts must add up to the transaction amount",
+            400
+          );
+
+        case "INVALID_REFUNDED_TRANSACTION":
+          return createErrorResponse(
+            "INVALID_REFUNDED_TRANSACTION",
+            "Refunded transaction must be an expense of your household",
+            400
+          );
+
+        case "REFUND_EXCEEDS_EXPENSE":
+          return createErrorResponse(
+            "REFUND_EXCEEDS_EXPENSE",
+            "Refunds cannot return more than the amount of the refunded expense",
+            400
+          );
+
+        case "DUPLICATE_EXTERNAL_ID":
+          return createErrorResponse(
+            "DUPLICATE_EXTERNAL_ID",
+            "A transaction with this external ID already exists in the household",
+            409
+          );
+
+        case "DUPLICATE_SUSPECTED":
+          return createErrorResponse(
+            "DUPLICATE_SUSPECTED",
+            "A similar transaction already exists; send it with allowDuplicate to save it anyway",
+            409
+          );
+
         case "TRANSACTION_CREATE_FAILED":
           return createErrorResponse("TRANSACTION_CREATE_FAILED", "Failed to create transaction", 500);
 
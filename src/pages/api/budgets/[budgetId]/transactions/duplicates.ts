@@ -0,0 +1,106 @@
+import type { APIRoute } from "astro";
+import { createBudgetsService } from "../../../../../lib/services/budgets.service";
+import type { ApiErrorDto, TransactionDuplicatesListResponseDto } from "../../../../../types";
+
+export const prerender = false;
+
+/**
+ * Creates a standardized API error response.
+ */
+function createErrorResponse(code: string, message: string, status: number): Response {
+  const errorResponse: ApiErrorDto = {
+    error: {
+      code,
+      message,
+    },
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
+}
+
+/**
+ * Creates a successful API response for suspected duplicates list.
+ */
+function createSuccessResponse(data: TransactionDuplicatesListResponseDto): Response {
+  return new Response(JSON.stringify(data), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "X-Result-Code": "TRANSACTION_DUPLICATES_LISTED",
+    },
+  });
+}
+
+/**
+ * GET /api/budgets/{budgetId}/transactions/duplicates
+ *
+ * Lists pairs of suspected duplicate transactions in a specific budget: the same category and amount,
+ * dates at most a few days apart and similar notes. Each pair lists the earlier transaction first.
+ * Pairs dismissed with POST /api/budgets/{budgetId}/transactions/duplicates/dismissals are left out.
+ * A pair is resolved by merging the duplicate (POST /api/transactions/{transactionId}/merge) or dismissing it.
+ */
+export const GET: APIRoute = async ({ params, locals }) => {
+  try {
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      return createErrorResponse("SUPABASE_CLIENT_UNAVAILABLE", "Database client not available", 500);
+    }
+
+    // Verify user authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return createErrorResponse("UNAUTHENTICATED", "Authentication required", 401);
+    }
+
+    // Validate budgetId parameter
+    const budgetId = params?.budgetId;
+    if (!budgetId || typeof budgetId !== "string") {
+      return createErrorResponse("INVALID_BUDGET_ID", "Budget ID is required and must be a valid UUID", 400);
+    }
+
+    // Validate budgetId format (UUID)
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(budgetId)) {
+      return createErrorResponse("INVALID_BUDGET_ID", "Budget ID must be a valid UUID", 400);
+    }
+
+    // Create service and find suspected duplicates
+    const budgetsService = createBudgetsService(supabase);
+    const result = await budgetsService.listBudgetTransactionDuplicates(user.id, budgetId);
+
+    return createSuccessResponse(result);
+  } catch (error) {
+    console.error("Error in GET /api/budgets/[budgetId]/transactions/duplicates:", error);
+
+    if (error instanceof Error) {
+      switch (error.message) {
+        case "HOUSEHOLD_NOT_FOUND":
+          return createErrorResponse("HOUSEHOLD_NOT_FOUND", "Household not found for the authenticated user", 404);
+
+        case "BUDGET_NOT_FOUND":
+          return createErrorResponse("BUDGET_NOT_FOUND", "Budget not found or access denied", 404);
+
+        case "TRANSACTION_DUPLICATES_LIST_FAILED":
+          return createErrorResponse(
+            "TRANSACTION_DUPLICATES_LIST_FAILED",
+            "Failed to find duplicate transactions",
+            500
+          );
+
+        default:
+          return createErrorResponse("INTERNAL_SERVER_ERROR", "An unexpected error occurred", 500);
+      }
+    }
+
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "An unexpected error occurred", 500);
+  }
+};
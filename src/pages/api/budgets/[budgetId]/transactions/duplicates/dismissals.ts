@@ -0,0 +1,133 @@
+import type { APIRoute } from "astro";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "../../../../../../lib/permissions";
+import { createBudgetsService } from "../../../../../../lib/services/budgets.service";
+import { parseDismissTransactionDuplicateBody } from "../../../../../../lib/validation/transactions";
+import type { ApiErrorDto } from "../../../../../../types";
+
+export const prerender = false;
+
+/**
+ * Creates a standardized API error response.
+ */
+function createErrorResponse(code: string, message: string, status: number): Response {
+  const errorResponse: ApiErrorDto = {
+    error: {
+      code,
+      message,
+    },
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
+}
+
+/**
+ * Creates a successful API response for duplicate dismissal.
+ */
+function createDismissedResponse(): Response {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      "X-Result-Code": "TRANSACTION_DUPLICATE_DISMISSED",
+    },
+  });
+}
+
+/**
+ * POST /api/budgets/{budgetId}/transactions/duplicates/dismissals
+ *
+ * Marks a pair of suspected duplicates as two separate expenses, so that it is no longer listed.
+ * The body contains transactionId and duplicateTransactionId, both of which must belong to the budget.
+ * Dismissing the same pair again has no effect.
+ */
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      return createErrorResponse("SUPABASE_CLIENT_UNAVAILABLE", "Database client not available", 500);
+    }
+
+    // Verify user authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return createErrorResponse("UNAUTHENTICATED", "Authentication required", 401);
+    }
+
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "budgets:edit")) {
+      return createPermissionDeniedResponse("budgets:edit");
+    }
+
+    // Validate budgetId parameter
+    const budgetId = params?.budgetId;
+    if (!budgetId || typeof budgetId !== "string") {
+      return createErrorResponse("INVALID_BUDGET_ID", "Budget ID is required and must be a valid UUID", 400);
+    }
+
+    // Validate budgetId format (UUID)
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(budgetId)) {
+      return createErrorResponse("INVALID_BUDGET_ID", "Budget ID must be a valid UUID", 400);
+    }
+
+    // Parse and validate request body
+    let requestBody;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("INVALID_BODY", "Request body must be valid JSON", 400);
+    }
+
+    let command;
+    try {
+      command = parseDismissTransactionDuplicateBody(requestBody);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Invalid request body";
+
+      // Extract error code and message from validation error
+      if (errorMessage.includes(":")) {
+        const [code, message] = errorMessage.split(": ", 2);
+        return createErrorResponse(code, message, 400);
+      }
+
+      return createErrorResponse("INVALID_BODY", errorMessage, 400);
+    }
+
+    // Create service and dismiss the pair
+    const budgetsService = createBudgetsService(supabase);
+    await budgetsService.dismissBudgetTransactionDuplicate(user.id, budgetId, command);
+
+    return createDismissedResponse();
+  } catch (error) {
+    console.error("Error in POST /api/budgets/[budgetId]/transactions/duplicates/dismissals:", error);
+
+    if (error instanceof Error) {
+      switch (error.message) {
+        case "HOUSEHOLD_NOT_FOUND":
+          return createErrorResponse("HOUSEHOLD_NOT_FOUND", "Household not found for the authenticated user", 404);
+
+        case "BUDGET_NOT_FOUND":
+          return createErrorResponse("BUDGET_NOT_FOUND", "Budget not found or access denied", 404);
+
+        case "TRANSACTION_NOT_FOUND":
+          return createErrorResponse("TRANSACTION_NOT_FOUND", "Transaction not found in the budget", 404);
+
+        case "TRANSACTION_DUPLICATE_DISMISS_FAILED":
+          return createErrorResponse("TRANSACTION_DUPLICATE_DISMISS_FAILED", "Failed to dismiss duplicate", 500);
+
+        default:
+          return createErrorResponse("INTERNAL_SERVER_ERROR", "An unexpected error occurred", 500);
+      }
+    }
+
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "An unexpected error occurred", 500);
+  }
+};
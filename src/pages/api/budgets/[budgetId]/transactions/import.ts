@@ -0,0 +1,172 @@
+import type { APIRoute } from "astro";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "../../../../../lib/permissions";
+import { createBudgetsService } from "../../../../../lib/services/budgets.service";
+import { parseImportTransactionsBody } from "../../../../../lib/validation/transactions";
+import type { ApiErrorDto, TransactionsImportDto } from "../../../../../types";
+
+export const prerender = false;
+
+/**
+ * Creates a standardized API error response.
+ */
+function createErrorResponse(code: string, message: string, status: number): Response {
+  const errorResponse: ApiErrorDto = {
+    error: {
+      code,
+      message,
+    },
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
+}
+
+/**
+ * Creates a successful API response for a transactions import preview or commit.
+ */
+function createSuccessResponse(data: TransactionsImportDto): Response {
+  return new Response(JSON.stringify(data), {
+    status: data.dryRun ? 200 : 201,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "X-Result-Code": data.dryRun ? "TRANSACTIONS_IMPORT_PREVIEW" : "TRANSACTIONS_IMPORTED",
+    },
+  });
+}
+
+/**
+ * POST /api/budgets/{budgetId}/transactions/import
+ *
+ * Imports card payments from a CSV bank export or a bank statement into a specific budget.
+ *
+ * CSV (format "csv" or no format): the body contains the CSV content and a column mapping (date, amount,
+ * description and optional category), each given as a header name or zero-based column index.
+ * Decimal commas ("-1 234,56") and DD.MM.YYYY dates are supported. Category names are matched against
+ * active household categories. With expenseSign "negative" (default) only negative amounts are imported.
+ *
+ * Statements (format "mt940", "ofx" or "camt053"): the body contains the statement file as content.
+ * Only debits are imported; the bank reference is stored as the external ID and entries imported before are skipped.
+ *
+ * Rows without a matching category name get the category of the categorization rule matching their description;
+ * defaultCategoryId is used for rows that match neither and cannot be archived (CATEGORY_ARCHIVED). Incoming
+ * transfers are skipped, and so are rows that look like duplicates of existing transactions (DUPLICATE_SUSPECTED)
+ * unless allowDuplicates is true.
+ *
+ * With dryRun true (default) returns a preview with validation errors per row.
+ * With dryRun false inserts all rows in one batch, or nothing when any row is invalid (IMPORT_HAS_INVALID_ROWS).
+ */
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      return createErrorResponse("SUPABASE_CLIENT_UNAVAILABLE", "Database client not available", 500);
+    }
+
+    // Verify user authentication
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return createErrorResponse("UNAUTHENTICATED", "Authentication required", 401);
+    }
+
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "budgets:edit")) {
+      return createPermissionDeniedResponse("budgets:edit");
+    }
+
+    // Validate budgetId parameter
+    const budgetId = params?.budgetId;
+    if (!budgetId || typeof budgetId !== "string") {
+      return createErrorResponse("INVALID_BUDGET_ID", "Budget ID is required and must be a valid UUID", 400);
+    }
+
+    // Validate budgetId format (UUID)
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(budgetId)) {
+      return createErrorResponse("INVALID_BUDGET_ID", "Budget ID must be a valid UUID", 400);
+    }
+
+    // Parse and validate request body
+    let requestBody;
+    try {
+      requestBody = await request.json();
+    } catch {
+      return createErrorResponse("INVALID_BODY", "Request body must be valid JSON", 400);
+    }
+
+    let command;
+    try {
+      command = parseImportTransactionsBody(requestBody);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Invalid request body";
+
+      // Extract error code and message from validation error
+      if (errorMessage.includes(":")) {
+        const [code, message] = errorMessage.split(": ", 2);
+        return createErrorResponse(code, message, 400);
+      }
+
+      return createErrorResponse("INVALID_BODY", errorMessage, 400);
+    }
+
+    // Create service and import transactions
+    const budgetsService = createBudgetsService(supabase);
+    const result = await budgetsService.importBudgetTransactions(user.id, budgetId, command);
+
+    return createSuccessResponse(result);
+  } catch (error) {
+    console.error("Error in POST /api/budgets/[budgetId]/transactions/import:", error);
+
+    if (error instanceof Error) {
+      // File reading errors carry details after the code
+      const [code, message] = error.message.split(": ", 2);
+
+      switch (code) {
+        case "INVALID_CSV":
+        case "INVALID_MAPPING":
+        case "INVALID_STATEMENT":
+          return createErrorResponse(code, message ?? "The file cannot be read", 400);
+
+        case "IMPORT_TOO_LARGE":
+          return createErrorResponse(code, message ?? "The file contains too many rows", 413);
+
+        case "HOUSEHOLD_NOT_FOUND":
+          return createErrorResponse("HOUSEHOLD_NOT_FOUND", "Household not found for the authenticated user", 404);
+
+        case "BUDGET_NOT_FOUND":
+          return createErrorResponse("BUDGET_NOT_FOUND", "Budget not found or access denied", 404);
+
+        case "CATEGORY_MISMATCH":
+          return createErrorResponse("CATEGORY_MISMATCH", "Category does not belong to the user's household", 409);
+
+        case "CATEGORY_ARCHIVED":
+          return createErrorResponse("CATEGORY_ARCHIVED", "Archived categories cannot be assigned", 400);
+
+        case "INVALID_MEMBER":
+          return createErrorResponse("INVALID_MEMBER", "Household member not found or inactive", 400);
+
+        case "IMPORT_HAS_INVALID_ROWS":
+          return createErrorResponse(
+            "IMPORT_HAS_INVALID_ROWS",
+            "Some rows are invalid, run a dry run to see the errors",
+            400
+          );
+
+        case "TRANSACTION_IMPORT_FAILED":
+          return createErrorResponse("TRANSACTION_IMPORT_FAILED", "Failed to import transactions", 500);
+
+        default:
+          return createErrorResponse("INTERNAL_SERVER_ERROR", "An unexpected error occurred", 500);
+      }
+    }
+
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "An unexpected error occurred", 500);
+  }
+};
@@ -1,6 +1,17 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "../../lib/permissions";
+import { CATEGORY_COLOR_REGEX, CATEGORY_GROUPS, CATEGORY_ICON_KEYS } from "../../lib/category-appearance";
 import { createCategoriesService } from "../../lib/services/categories.service";
+import {
+  ALERT_SETTINGS_ERROR_CODES,
+  hasCompletePaceAlert,
+  hasOrderedThresholds,
+  overThresholdSchema,
+  paceAlertDaySchema,
+  paceAlertPercentSchema,
+  warningThresholdSchema,
+} from "../../lib/validation/alert-settings";
 import type { ApiErrorDto, CategoriesListResponseDto, CategoryDto, CreateCategoryCommand } from "../../types";
 
 export const prerender = false;
@@ -10,17 +21,48 @@ const querySchema = z.object({
   search: z.string().trim().max(100, "Search term must not exceed 100 characters").optional(),
   page: z.coerce.number().int().min(1).default(1),
   pageSize: z.coerce.number().int().min(1).max(100).default(20),
-  sort: z.enum(["name", "createdAt"]).default("name"),
+  sort: z.enum(["name", "createdAt", "sortOrder"]).default("name"),
+  // z.coerce.boolean() would read "false" as true
+  includeArchived: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((val) => val === "true"),
 });
 
 // Validation schema for POST request body
-const createCategorySchema = z.object({
-  name: z
-    .string()
-    .trim()
-    .min(1, "Category name cannot be empty")
-    .max(100, "Category name must not exceed 100 characters"),
-});
+const createCategorySchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, "Category name cannot be empty")
+      .max(100, "Category name must not exceed 100 characters"),
+    parentId: z.string().uuid("Parent category ID must be a valid UUID").nullable().optional(),
+    color: z.string().regex(CATEGORY_COLOR_REGEX, "Color must be a #rrggbb hex string").nullable().optional(),
+    icon: z.enum(CATEGORY_ICON_KEYS, { message: "Unknown icon key" }).nullable().optional(),
+    group: z.enum(CATEGORY_GROUPS, { message: "Group must be fixed, variable or savings" }).optional(),
+    warningThreshold: warningThresholdSchema.nullable().optional(),
+    overThreshold: overThresholdSchema.nullable().optional(),
+    paceAlertDay: paceAlertDaySchema.nullable().optional(),
+    paceAlertPercent: paceAlertPercentSchema.nullable().optional(),
+  })
+  .refine((data) => hasOrderedThresholds(data.warningThreshold, data.overThreshold), {
+    message: "Warning threshold cannot exceed the overspending threshold",
+    path: ["warningThreshold"],
+  })
+  .refine(hasCompletePaceAlert, {
+    message: "Pace alert day and percentage must be provided together",
+    path: ["paceAlertDay"],
+  });
+
+// Error codes of the request body fields other than the name
+const FIELD_ERROR_CODES: Record<string, string> = {
+  parentId: "INVALID_PARENT_ID",
+  color: "INVALID_COLOR",
+  icon: "INVALID_ICON",
+  group: "INVALID_GROUP",
+  ...ALERT_SETTINGS_ERROR_CODES,
+};
 
 /**
  * Creates a standardized API error response.
@@ -72,6 +114,7 @@ function createCategoryCreatedResponse(data: CategoryDto): Response {
  *
  * Retrieves a paginated list of categories for the currently authenticated user's household.
  * Supports filtering by name fragment (case-insensitive), sorting, and pagination.
+ * Archived categories are returned only when includeArchived=true is specified.
  *
  * Performance Notes:
  * - Uses functional index idx_categories_name for optimized case-insensitive search
@@ -82,7 +125,8 @@ function createCategoryCreatedResponse(data: CategoryDto): Response {
  * - search (string, optional): Fragment to search in category names, case-insensitive (max 100 chars)
  * - page (number, optional): Page number for pagination, starting from 1 (default: 1)
  * - pageSize (number, optional): Number of items per page, 1-100 (default: 20)
- * - sort (string, optional): Sort field - "name" or "createdAt" (default: "name")
+ * - sort (string, optional): Sort field - "name", "createdAt" or "sortOrder" (user-defined order, default: "name")
+ * - includeArchived (boolean, optional): Whether to include archived categories (default: false)
  *
  * Responses:
  * - 200: Categories list retrieved successfully with X-Result-Code: CATEGORIES_LISTED
@@ -108,7 +152,7 @@ export const GET: APIRoute = async ({ request, locals }) => {
       );
     }
 
-    const { search, page, pageSize, sort } = validationResult.data;
+    const { search, page, pageSize, sort, includeArchived } = validationResult.data;
 
     // Get Supabase client from locals
     const supabase = locals.supabase;
@@ -141,6 +185,7 @@ export const GET: APIRoute = async ({ request, locals }) => {
         page,
         pageSize,
         sort,
+        includeArchived,
       });
 
       console.log(`Categories listed successfully for user ${user.id}: ${result.data.length} categories found`);
@@ -180,11 +225,22 @@ export const GET: APIRoute = async ({ request, locals }) => {
  *
  * Request Body:
  * - name (string, required): Category name, 1-100 characters after trimming
+ * - parentId (string, optional): UUID of a top-level category to create the category as its subcategory
+ * - color (string | null, optional): Color as a #rrggbb hex string
+ * - icon (string | null, optional): Icon key, one of CATEGORY_ICON_KEYS
+ * - group (string, optional): Cost group - "fixed", "variable" (default) or "savings"
+ * - warningThreshold, overThreshold (number | null, optional): Alert thresholds as percentages of the limit,
+ *   null uses the household default
+ * - paceAlertDay (1-31), paceAlertPercent (number | null, optional): Pace alert, both or neither
+ *
+ * New categories are placed at the end of the user-defined order.
  *
  * Responses:
  * - 201: Category created successfully with X-Result-Code: CATEGORY_CREATED
- * - 400: Invalid request body (INVALID_NAME)
+ * - 400: Invalid request body (INVALID_NAME, INVALID_PARENT_ID, INVALID_COLOR, INVALID_ICON, INVALID_GROUP,
+ *        INVALID_THRESHOLDS, INVALID_PACE_ALERT, CATEGORY_DEPTH_EXCEEDED)
  * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
  * - 404: Household not found for user (HOUSEHOLD_NOT_FOUND)
  * - 409: Category name already exists in household (CATEGORY_NAME_CONFLICT)
  * - 500: Internal server error (CATEGORY_CREATE_FAILED)
@@ -204,10 +260,11 @@ export const POST: APIRoute = async ({ request, locals }) => {
     if (!validationResult.success) {
       console.warn("Request body validation failed:", validationResult.error);
       const firstError = validationResult.error.errors[0];
-      return createErrorResponse("INVALID_NAME", firstError?.message || "Invalid category name provided", 400);
+      const code = FIELD_ERROR_CODES[String(firstError?.path[0])] ?? "INVALID_NAME";
+      return createErrorResponse(code, firstError?.message || "Invalid category data provided", 400);
     }
 
-    const { name } = validationResult.data;
+    const { name, parentId, color, icon, group } = validationResult.data;
 
     // Get Supabase client from locals
     const supabase = locals.supabase;
@@ -231,11 +288,16 @@ export const POST: APIRoute = async ({ request, locals }) => {
       return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
     }
 
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "settings:edit")) {
+      return createPermissionDeniedResponse("settings:edit");
+    }
+
     // Create categories service and create category
     const categoriesService = createCategoriesService(supabase);
 
     try {
-      const createCommand: CreateCategoryCommand = { name };
+      const createCommand: CreateCategoryCommand = { name, parentId, color, icon, group };
       const result = await categoriesService.createCategory(user.id, createCommand);
 
       console.log(`Category created successfully for user ${user.id}: ${result.name} (ID: ${result.id})`);
@@ -255,6 +317,18 @@ export const POST: APIRoute = async ({ request, locals }) => {
         );
       }
 
+      if (errorMessage === "INVALID_PARENT_ID") {
+        return createErrorResponse("INVALID_PARENT_ID", "Parent category not found in your household", 400);
+      }
+
+      if (errorMessage === "CATEGORY_DEPTH_EXCEEDED") {
+        return createErrorResponse(
+          "CATEGORY_DEPTH_EXCEEDED",
+          "Categories can be nested only two levels deep: the parent must be a top-level category without a parent and the category cannot have subcategories",
+          400
+        );
+      }
+
       if (errorMessage === "CATEGORY_CREATE_FAILED") {
         console.error("Database error while creating category:", serviceError);
         return createErrorResponse("CATEGORY_CREATE_FAILED", "Failed to create category", 500);
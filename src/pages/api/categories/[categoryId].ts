@@ -1,6 +1,17 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "../../../lib/permissions";
+import { CATEGORY_COLOR_REGEX, CATEGORY_GROUPS, CATEGORY_ICON_KEYS } from "../../../lib/category-appearance";
 import { createCategoriesService } from "../../../lib/services/categories.service";
+import {
+  ALERT_SETTINGS_ERROR_CODES,
+  hasCompletePaceAlert,
+  hasOrderedThresholds,
+  overThresholdSchema,
+  paceAlertDaySchema,
+  paceAlertPercentSchema,
+  warningThresholdSchema,
+} from "../../../lib/validation/alert-settings";
 import type { ApiErrorDto, CategoryDto, UpdateCategoryCommand, DeleteCategoryCommand } from "../../../types";
 
 export const prerender = false;
@@ -9,13 +20,45 @@ export const prerender = false;
 const categoryIdSchema = z.string().uuid("Category ID must be a valid UUID");
 
 // Validation schema for PATCH request body
-const updateCategorySchema = z.object({
-  name: z
-    .string()
-    .trim()
-    .min(1, "Category name cannot be empty")
-    .max(100, "Category name must not exceed 100 characters"),
-});
+const updateCategorySchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, "Category name cannot be empty")
+      .max(100, "Category name must not exceed 100 characters")
+      .optional(),
+    parentId: z.string().uuid("Parent category ID must be a valid UUID").nullable().optional(),
+    isArchived: z.boolean({ invalid_type_error: "isArchived must be a boolean" }).optional(),
+    color: z.string().regex(CATEGORY_COLOR_REGEX, "Color must be a #rrggbb hex string").nullable().optional(),
+    icon: z.enum(CATEGORY_ICON_KEYS, { message: "Unknown icon key" }).nullable().optional(),
+    group: z.enum(CATEGORY_GROUPS, { message: "Group must be fixed, variable or savings" }).optional(),
+    warningThreshold: warningThresholdSchema.nullable().optional(),
+    overThreshold: overThresholdSchema.nullable().optional(),
+    paceAlertDay: paceAlertDaySchema.nullable().optional(),
+    paceAlertPercent: paceAlertPercentSchema.nullable().optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "At least one field must be provided",
+    path: ["name"],
+  })
+  .refine((data) => hasOrderedThresholds(data.warningThreshold, data.overThreshold), {
+    message: "Warning threshold cannot exceed the overspending threshold",
+    path: ["warningThreshold"],
+  })
+  .refine(hasCompletePaceAlert, {
+    message: "Pace alert day and percentage must be provided together",
+    path: ["paceAlertDay"],
+  });
+
+// Error codes of the request body fields other than the name
+const FIELD_ERROR_CODES: Record<string, string> = {
+  parentId: "INVALID_PARENT_ID",
+  color: "INVALID_COLOR",
+  icon: "INVALID_ICON",
+  group: "INVALID_GROUP",
+  ...ALERT_SETTINGS_ERROR_CODES,
+};
 
 /**
  * Creates a standardized API error response.
@@ -66,17 +109,31 @@ function createCategoryDeletedResponse(): Response {
  *
  * Updates an existing expense category for the currently authenticated user's household.
  * Requires valid authentication and validates the category name for uniqueness within the household.
+ * The parent must be a top-level category; a category with subcategories cannot become a subcategory.
+ * Archiving a top-level category archives its subcategories too.
  *
  * Path Parameters:
  * - categoryId (string, required): UUID of the category to update
  *
- * Request Body:
- * - name (string, required): New category name, 1-100 characters after trimming
+ * Request Body (at least one field required):
+ * - name (string, optional): New category name, 1-100 characters after trimming
+ * - parentId (string | null, optional): UUID of the new parent category, null moves the category to the top level
+ * - isArchived (boolean, optional): true archives the category, false restores it
+ * - color (string | null, optional): Color as a #rrggbb hex string, null resets it
+ * - icon (string | null, optional): Icon key, one of CATEGORY_ICON_KEYS, null resets it
+ * - group (string, optional): Cost group - "fixed", "variable" or "savings"
+ * - warningThreshold, overThreshold (number | null, optional): Alert thresholds as percentages of the limit,
+ *   null uses the household default
+ * - paceAlertDay (1-31), paceAlertPercent (number | null, optional): Pace alert, both or neither; null uses
+ *   the household default
  *
  * Responses:
  * - 200: Category updated successfully with X-Result-Code: CATEGORY_UPDATED
- * - 400: Invalid request parameters or body (INVALID_CATEGORY_ID, INVALID_NAME)
+ * - 400: Invalid request parameters or body (INVALID_CATEGORY_ID, INVALID_NAME, INVALID_PARENT_ID,
+ *        INVALID_COLOR, INVALID_ICON, INVALID_GROUP, INVALID_THRESHOLDS, INVALID_PACE_ALERT, CATEGORY_PARENT_CYCLE,
+ *        CATEGORY_DEPTH_EXCEEDED)
  * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
  * - 404: Category not found or not accessible (CATEGORY_NOT_FOUND)
  * - 409: Category name already exists in household (CATEGORY_NAME_CONFLICT)
  * - 500: Internal server error (CATEGORY_UPDATE_FAILED)
@@ -106,10 +163,11 @@ export const PATCH: APIRoute = async ({ params, request, locals }) => {
     if (!validationResult.success) {
       console.warn("Request body validation failed:", validationResult.error);
       const firstError = validationResult.error.errors[0];
-      return createErrorResponse("INVALID_NAME", firstError?.message || "Invalid category name provided", 400);
+      const code = FIELD_ERROR_CODES[String(firstError?.path[0])] ?? "INVALID_NAME";
+      return createErrorResponse(code, firstError?.message || "Invalid category data provided", 400);
     }
 
-    const { name } = validationResult.data;
+    const { name, parentId, isArchived, color, icon, group } = validationResult.data;
 
     // Get Supabase client from locals
     const supabase = locals.supabase;
@@ -133,11 +191,16 @@ export const PATCH: APIRoute = async ({ params, request, locals }) => {
       return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
     }
 
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "settings:edit")) {
+      return createPermissionDeniedResponse("settings:edit");
+    }
+
     // Create categories service and update category
     const categoriesService = createCategoriesService(supabase);
 
     try {
-      const updateCommand: UpdateCategoryCommand = { name };
+      const updateCommand: UpdateCategoryCommand = { name, parentId, isArchived, color, icon, group };
       const result = await categoriesService.updateCategoryByUserId(user.id, categoryId, updateCommand);
 
       console.log(`Category updated successfully: ${result.name} (ID: ${result.id})`);
@@ -165,6 +228,34 @@ export const PATCH: APIRoute = async ({ params, request, locals }) => {
         );
       }
 
+      if (errorMessage === "INVALID_PARENT_ID") {
+        return createErrorResponse("INVALID_PARENT_ID", "Parent category not found in your household", 400);
+      }
+
+      if (errorMessage === "INVALID_THRESHOLDS") {
+        return createErrorResponse(
+          "INVALID_THRESHOLDS",
+          "Warning threshold cannot exceed the overspending threshold",
+          400
+        );
+      }
+
+      if (errorMessage === "CATEGORY_PARENT_CYCLE") {
+        return createErrorResponse(
+          "CATEGORY_PARENT_CYCLE",
+          "A category cannot be placed under itself or its own subcategory",
+          400
+        );
+      }
+
+      if (errorMessage === "CATEGORY_DEPTH_EXCEEDED") {
+        return createErrorResponse(
+          "CATEGORY_DEPTH_EXCEEDED",
+          "Categories can be nested only two levels deep: the parent must be a top-level category without a parent and the category cannot have subcategories",
+          400
+        );
+      }
+
       if (errorMessage === "CATEGORY_UPDATE_FAILED") {
         console.error("Database error while updating category:", serviceError);
         return createErrorResponse("CATEGORY_UPDATE_FAILED", "Failed to update category", 500);
@@ -190,6 +281,7 @@ export const PATCH: APIRoute = async ({ params, request, locals }) => {
  *
  * Deletes an existing expense category for the currently authenticated user's household.
  * Requires force=true confirmation if the category has dependent records in planned_expenses or transactions.
+ * Subcategories of the deleted category are kept and become top-level categories.
  *
  * Path Parameters:
  * - categoryId (string, required): UUID of the category to delete
@@ -201,6 +293,7 @@ export const PATCH: APIRoute = async ({ params, request, locals }) => {
  * - 204: Category deleted successfully with X-Result-Code: CATEGORY_DELETED
  * - 400: Invalid request parameters (INVALID_CATEGORY_ID, INVALID_FORCE_FLAG, FORCE_CONFIRMATION_REQUIRED)
  * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
  * - 404: Category not found or not accessible (HOUSEHOLD_NOT_FOUND, CATEGORY_NOT_FOUND)
  * - 500: Internal server error (CATEGORY_DELETE_FAILED)
  */
@@ -255,6 +348,11 @@ export const DELETE: APIRoute = async ({ params, request, locals }) => {
       return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
     }
 
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "settings:edit")) {
+      return createPermissionDeniedResponse("settings:edit");
+    }
+
     // Create categories service and delete category
     const categoriesService = createCategoriesService(supabase);
 
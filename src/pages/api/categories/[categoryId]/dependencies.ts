@@ -0,0 +1,116 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { createCategoriesService } from "../../../../lib/services/categories.service";
+import type { ApiErrorDto, CategoryDependenciesDto } from "../../../../types";
+
+export const prerender = false;
+
+// Validation schema for categoryId parameter
+const categoryIdSchema = z.string().uuid("Category ID must be a valid UUID");
+
+/**
+ * Creates a standardized API error response.
+ */
+function createErrorResponse(code: string, message: string, status: number): Response {
+  const errorResponse: ApiErrorDto = {
+    error: {
+      code,
+      message,
+    },
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
+}
+
+/**
+ * Creates a successful API response with category dependencies.
+ */
+function createSuccessResponse(data: CategoryDependenciesDto): Response {
+  return new Response(JSON.stringify(data), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
+}
+
+/**
+ * GET /api/categories/{categoryId}/dependencies
+ *
+ * Returns how many planned expenses, transactions and subcategories depend on a category
+ * of the authenticated user's household, so the user can decide whether to merge or delete it.
+ * Split transactions count once, however many of their lines use the category.
+ *
+ * Path Parameters:
+ * - categoryId (string, required): UUID of the category to check
+ *
+ * Responses:
+ * - 200: Success with CategoryDependenciesDto
+ * - 400: Invalid path parameter (INVALID_CATEGORY_ID)
+ * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 404: Household or category not found (HOUSEHOLD_NOT_FOUND, CATEGORY_NOT_FOUND)
+ * - 500: Internal server error (CATEGORY_DEPENDENCIES_FAILED)
+ */
+export const GET: APIRoute = async ({ params, locals }) => {
+  try {
+    // Validate categoryId parameter
+    const categoryIdValidation = categoryIdSchema.safeParse(params.categoryId);
+    if (!categoryIdValidation.success) {
+      console.warn("Category ID validation failed:", categoryIdValidation.error);
+      const firstError = categoryIdValidation.error.errors[0];
+      return createErrorResponse("INVALID_CATEGORY_ID", firstError?.message || "Invalid category ID provided", 400);
+    }
+
+    const categoryId = categoryIdValidation.data;
+
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      console.error("Supabase client not available in locals");
+      return createErrorResponse("CATEGORY_DEPENDENCIES_FAILED", "Database connection not available", 500);
+    }
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError) {
+      console.error("Authentication error:", authError);
+      return createErrorResponse("UNAUTHENTICATED", "Authentication failed", 401);
+    }
+
+    if (!user) {
+      return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
+    }
+
+    const categoriesService = createCategoriesService(supabase);
+
+    try {
+      const result = await categoriesService.getCategoryDependencies(user.id, categoryId);
+      return createSuccessResponse(result);
+    } catch (serviceError) {
+      const errorMessage = serviceError instanceof Error ? serviceError.message : "Unknown error";
+
+      if (errorMessage === "HOUSEHOLD_NOT_FOUND") {
+        return createErrorResponse("HOUSEHOLD_NOT_FOUND", "No household found for the authenticated user", 404);
+      }
+
+      if (errorMessage === "CATEGORY_NOT_FOUND") {
+        return createErrorResponse("CATEGORY_NOT_FOUND", "Category not found or you don't have access to it", 404);
+      }
+
+      console.error("Error while counting category dependencies:", serviceError);
+      return createErrorResponse("CATEGORY_DEPENDENCIES_FAILED", "Failed to count category dependencies", 500);
+    }
+  } catch (error) {
+    console.error("Unexpected error in GET /api/categories/{categoryId}/dependencies:", error);
+    return createErrorResponse("CATEGORY_DEPENDENCIES_FAILED", "An internal server error occurred", 500);
+  }
+};
@@ -0,0 +1,190 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "../../../../lib/permissions";
+import { createCategoriesService } from "../../../../lib/services/categories.service";
+import type { ApiErrorDto, CategoryMergedDto } from "../../../../types";
+
+export const prerender = false;
+
+// Validation schema for categoryId parameter
+const categoryIdSchema = z.string().uuid("Category ID must be a valid UUID");
+
+// Validation schema for POST request body
+const mergeCategorySchema = z.object({
+  targetCategoryId: z.string().uuid("Target category ID must be a valid UUID"),
+});
+
+/**
+ * Creates a standardized API error response.
+ */
+function createErrorResponse(code: string, message: string, status: number): Response {
+  const errorResponse: ApiErrorDto = {
+    error: {
+      code,
+      message,
+    },
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
+}
+
+/**
+ * Creates a successful API response for category merge.
+ */
+function createCategoryMergedResponse(data: CategoryMergedDto): Response {
+  return new Response(JSON.stringify(data), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "X-Result-Code": "CATEGORY_MERGED",
+    },
+  });
+}
+
+/**
+ * POST /api/categories/{categoryId}/merge
+ *
+ * Merges an expense category into another category of the authenticated user's household and deletes it.
+ * Transactions, planned expenses, categorization rules and recurring transactions move to the target category.
+ * Where both categories are planned in the same budget, their limits are added up on the target category.
+ * Subcategories move under the target when it is a top-level category and become top-level categories otherwise.
+ * Everything is moved in a single database transaction, so a failed merge leaves both categories unchanged.
+ *
+ * Path Parameters:
+ * - categoryId (string, required): UUID of the category to merge and delete
+ *
+ * Request Body:
+ * - targetCategoryId (string, required): UUID of the category that takes over the entries
+ *
+ * Responses:
+ * - 200: Category merged successfully with X-Result-Code: CATEGORY_MERGED
+ * - 400: Invalid request parameters or body (INVALID_CATEGORY_ID, INVALID_TARGET_CATEGORY_ID, CATEGORY_ARCHIVED)
+ * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
+ * - 404: Household or either category not found (HOUSEHOLD_NOT_FOUND, CATEGORY_NOT_FOUND, TARGET_CATEGORY_NOT_FOUND)
+ * - 500: Internal server error (CATEGORY_MERGE_FAILED)
+ */
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // Validate categoryId parameter
+    const categoryIdValidation = categoryIdSchema.safeParse(params.categoryId);
+    if (!categoryIdValidation.success) {
+      console.warn("Category ID validation failed:", categoryIdValidation.error);
+      const firstError = categoryIdValidation.error.errors[0];
+      return createErrorResponse("INVALID_CATEGORY_ID", firstError?.message || "Invalid category ID provided", 400);
+    }
+
+    const categoryId = categoryIdValidation.data;
+
+    // Parse and validate request body
+    let requestBody;
+    try {
+      requestBody = await request.json();
+    } catch (parseError) {
+      console.warn("Failed to parse request body:", parseError);
+      return createErrorResponse("INVALID_TARGET_CATEGORY_ID", "Invalid JSON in request body", 400);
+    }
+
+    const validationResult = mergeCategorySchema.safeParse(requestBody);
+    if (!validationResult.success) {
+      console.warn("Request body validation failed:", validationResult.error);
+      const firstError = validationResult.error.errors[0];
+      return createErrorResponse(
+        "INVALID_TARGET_CATEGORY_ID",
+        firstError?.message || "Invalid target category provided",
+        400
+      );
+    }
+
+    const { targetCategoryId } = validationResult.data;
+
+    if (targetCategoryId === categoryId) {
+      return createErrorResponse("INVALID_TARGET_CATEGORY_ID", "A category cannot be merged into itself", 400);
+    }
+
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      console.error("Supabase client not available in locals");
+      return createErrorResponse("CATEGORY_MERGE_FAILED", "Database connection not available", 500);
+    }
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError) {
+      console.error("Authentication error:", authError);
+      return createErrorResponse("UNAUTHENTICATED", "Authentication failed", 401);
+    }
+
+    if (!user) {
+      return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
+    }
+
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "settings:edit")) {
+      return createPermissionDeniedResponse("settings:edit");
+    }
+
+    // Create categories service and merge category
+    const categoriesService = createCategoriesService(supabase);
+
+    try {
+      const result = await categoriesService.mergeCategory(user.id, categoryId, { targetCategoryId });
+
+      console.log(`Category merged successfully: ${categoryId} into ${result.targetCategory.name}`);
+      return createCategoryMergedResponse(result);
+    } catch (serviceError) {
+      const errorMessage = serviceError instanceof Error ? serviceError.message : "Unknown error";
+
+      if (errorMessage === "HOUSEHOLD_NOT_FOUND") {
+        return createErrorResponse("HOUSEHOLD_NOT_FOUND", "No household found for the authenticated user", 404);
+      }
+
+      if (errorMessage === "CATEGORY_NOT_FOUND") {
+        return createErrorResponse(
+          "CATEGORY_NOT_FOUND",
+          "Category not found or you don't have permission to merge it",
+          404
+        );
+      }
+
+      if (errorMessage === "TARGET_CATEGORY_NOT_FOUND") {
+        return createErrorResponse("TARGET_CATEGORY_NOT_FOUND", "Target category not found in your household", 404);
+      }
+
+      if (errorMessage === "INVALID_TARGET_CATEGORY_ID") {
+        return createErrorResponse("INVALID_TARGET_CATEGORY_ID", "A category cannot be merged into itself", 400);
+      }
+
+      if (errorMessage === "CATEGORY_ARCHIVED") {
+        return createErrorResponse("CATEGORY_ARCHIVED", "A category cannot be merged into an archived category", 400);
+      }
+
+      if (errorMessage === "CATEGORY_MERGE_FAILED") {
+        console.error("Database error while merging category:", serviceError);
+        return createErrorResponse("CATEGORY_MERGE_FAILED", "Failed to merge category", 500);
+      }
+
+      // Unexpected service error
+      console.error("Unexpected service error:", serviceError);
+      return createErrorResponse(
+        "CATEGORY_MERGE_FAILED",
+        "An unexpected error occurred while merging the category",
+        500
+      );
+    }
+  } catch (error) {
+    // Catch-all for unexpected errors
+    console.error("Unexpected error in POST /api/categories/{categoryId}/merge:", error);
+    return createErrorResponse("CATEGORY_MERGE_FAILED", "An internal server error occurred", 500);
+  }
+};
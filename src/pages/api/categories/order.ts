@@ -0,0 +1,139 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "../../../lib/permissions";
+import { createCategoriesService } from "../../../lib/services/categories.service";
+import type { ApiErrorDto, CategoryDto } from "../../../types";
+
+export const prerender = false;
+
+// Validation schema for PUT request body
+const reorderCategoriesSchema = z.object({
+  categoryIds: z
+    .array(z.string().uuid("Category ID must be a valid UUID"))
+    .min(1, "At least one category ID must be provided")
+    .max(500, "No more than 500 categories can be ordered at once")
+    .refine((ids) => new Set(ids).size === ids.length, "Category IDs must not repeat"),
+});
+
+/**
+ * Creates a standardized API error response.
+ */
+function createErrorResponse(code: string, message: string, status: number): Response {
+  const errorResponse: ApiErrorDto = {
+    error: {
+      code,
+      message,
+    },
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
+}
+
+/**
+ * Creates a successful API response for categories reorder.
+ */
+function createCategoriesReorderedResponse(data: CategoryDto[]): Response {
+  return new Response(JSON.stringify({ data }), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "X-Result-Code": "CATEGORIES_REORDERED",
+    },
+  });
+}
+
+/**
+ * PUT /api/categories/order
+ *
+ * Saves the user-defined order of categories in the authenticated user's household.
+ * Every listed category gets its position in the list; categories left out keep their position.
+ *
+ * Request Body:
+ * - categoryIds (string[], required): UUIDs of categories in the new order, without repeats
+ *
+ * Responses:
+ * - 200: Order saved with X-Result-Code: CATEGORIES_REORDERED, returns { data: CategoryDto[] } in the new order
+ * - 400: Invalid request body or category from outside the household (INVALID_BODY, INVALID_CATEGORY_ID)
+ * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
+ * - 404: Household not found for user (HOUSEHOLD_NOT_FOUND)
+ * - 500: Internal server error (CATEGORIES_REORDER_FAILED)
+ */
+export const PUT: APIRoute = async ({ request, locals }) => {
+  try {
+    // Parse and validate request body
+    let requestBody;
+    try {
+      requestBody = await request.json();
+    } catch (parseError) {
+      console.warn("Failed to parse request body:", parseError);
+      return createErrorResponse("INVALID_BODY", "Invalid JSON in request body", 400);
+    }
+
+    const validationResult = reorderCategoriesSchema.safeParse(requestBody);
+    if (!validationResult.success) {
+      console.warn("Request body validation failed:", validationResult.error);
+      const firstError = validationResult.error.errors[0];
+      // Errors of single array items point at a category ID
+      const code = typeof firstError?.path[1] === "number" ? "INVALID_CATEGORY_ID" : "INVALID_BODY";
+      return createErrorResponse(code, firstError?.message || "Invalid category order provided", 400);
+    }
+
+    const { categoryIds } = validationResult.data;
+
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      console.error("Supabase client not available in locals");
+      return createErrorResponse("CATEGORIES_REORDER_FAILED", "Database connection not available", 500);
+    }
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError) {
+      console.error("Authentication error:", authError);
+      return createErrorResponse("UNAUTHENTICATED", "Authentication failed", 401);
+    }
+
+    if (!user) {
+      return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
+    }
+
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "settings:edit")) {
+      return createPermissionDeniedResponse("settings:edit");
+    }
+
+    const categoriesService = createCategoriesService(supabase);
+
+    try {
+      const result = await categoriesService.reorderCategories(user.id, { categoryIds });
+      return createCategoriesReorderedResponse(result);
+    } catch (serviceError) {
+      const errorMessage = serviceError instanceof Error ? serviceError.message : "Unknown error";
+
+      if (errorMessage === "HOUSEHOLD_NOT_FOUND") {
+        return createErrorResponse("HOUSEHOLD_NOT_FOUND", "No household found for the authenticated user", 404);
+      }
+
+      if (errorMessage === "INVALID_CATEGORY_ID") {
+        return createErrorResponse("INVALID_CATEGORY_ID", "Category not found in your household", 400);
+      }
+
+      console.error("Error while reordering categories:", serviceError);
+      return createErrorResponse("CATEGORIES_REORDER_FAILED", "Failed to save the category order", 500);
+    }
+  } catch (error) {
+    console.error("Unexpected error in PUT /api/categories/order:", error);
+    return createErrorResponse("CATEGORIES_REORDER_FAILED", "An internal server error occurred", 500);
+  }
+};
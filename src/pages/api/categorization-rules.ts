@@ -0,0 +1,217 @@
+import type { APIRoute } from "astro";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "../../lib/permissions";
+import { createCategorizationService } from "../../lib/services/categorization.service";
+import { parseCreateCategorizationRuleBody } from "../../lib/validation/categorization-rules";
+import type {
+  ApiErrorDto,
+  CategorizationRuleDto,
+  CategorizationRulesListResponseDto,
+  CreateCategorizationRuleCommand,
+} from "../../types";
+
+export const prerender = false;
+
+/**
+ * Creates a standardized API error response.
+ */
+function createErrorResponse(code: string, message: string, status: number): Response {
+  const errorResponse: ApiErrorDto = {
+    error: {
+      code,
+      message,
+    },
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
+}
+
+/**
+ * Creates a successful API response for categorization rules list.
+ */
+function createListSuccessResponse(data: CategorizationRulesListResponseDto): Response {
+  return new Response(JSON.stringify(data), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "X-Result-Code": "CATEGORIZATION_RULES_LISTED",
+    },
+  });
+}
+
+/**
+ * Creates a successful API response for created categorization rule.
+ */
+function createCreatedResponse(data: CategorizationRuleDto): Response {
+  return new Response(JSON.stringify(data), {
+    status: 201,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "X-Result-Code": "CATEGORIZATION_RULE_CREATED",
+    },
+  });
+}
+
+/**
+ * GET /api/categorization-rules
+ *
+ * Retrieves categorization rules of the currently authenticated user's household,
+ * the highest priority first.
+ *
+ * Responses:
+ * - 200: Rules retrieved successfully with X-Result-Code: CATEGORIZATION_RULES_LISTED
+ * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 404: Household not found for user (HOUSEHOLD_NOT_FOUND)
+ * - 500: Internal server error (CATEGORIZATION_RULES_LIST_FAILED)
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      console.error("Supabase client not available in locals");
+      return createErrorResponse("CATEGORIZATION_RULES_LIST_FAILED", "Database connection not available", 500);
+    }
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError) {
+      console.error("Authentication error:", authError);
+      return createErrorResponse("UNAUTHENTICATED", "Authentication failed", 401);
+    }
+
+    if (!user) {
+      return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
+    }
+
+    const categorizationService = createCategorizationService(supabase);
+
+    try {
+      const result = await categorizationService.listRules(user.id);
+      return createListSuccessResponse(result);
+    } catch (serviceError) {
+      const errorMessage = serviceError instanceof Error ? serviceError.message : "Unknown error";
+
+      if (errorMessage === "HOUSEHOLD_NOT_FOUND") {
+        return createErrorResponse("HOUSEHOLD_NOT_FOUND", "No household found for the authenticated user", 404);
+      }
+
+      console.error("Error while fetching categorization rules:", serviceError);
+      return createErrorResponse("CATEGORIZATION_RULES_LIST_FAILED", "Failed to retrieve categorization rules", 500);
+    }
+  } catch (error) {
+    // Catch-all for unexpected errors
+    console.error("Unexpected error in GET /api/categorization-rules:", error);
+    return createErrorResponse("CATEGORIZATION_RULES_LIST_FAILED", "An internal server error occurred", 500);
+  }
+};
+
+/**
+ * POST /api/categorization-rules
+ *
+ * Creates a new categorization rule. New and imported transactions without a category whose note contains
+ * the pattern get the rule's category.
+ *
+ * Request Body:
+ * - categoryId (string, required): UUID of the category assigned by the rule
+ * - pattern (string, required): Text searched for in the note (case and diacritics insensitive), max 100 characters
+ * - priority (number, optional): 0-1000, the highest priority wins when several rules match (default: 0)
+ * - minAmount, maxAmount (number, optional): Inclusive amount range the transaction must fall into
+ *
+ * Responses:
+ * - 201: Rule created successfully with X-Result-Code: CATEGORIZATION_RULE_CREATED
+ * - 400: Invalid request body (INVALID_BODY, INVALID_CATEGORY_ID, INVALID_PATTERN, INVALID_PRIORITY, INVALID_AMOUNT_RANGE,
+ *        CATEGORY_ARCHIVED)
+ * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
+ * - 404: Household not found for user (HOUSEHOLD_NOT_FOUND)
+ * - 500: Internal server error (CATEGORIZATION_RULE_CREATE_FAILED)
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Parse request body
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch (parseError) {
+      console.warn("Failed to parse request body as JSON:", parseError);
+      return createErrorResponse("INVALID_BODY", "Request body must be valid JSON", 400);
+    }
+
+    // Validate request body
+    let command: CreateCategorizationRuleCommand;
+    try {
+      command = parseCreateCategorizationRuleBody(requestBody);
+    } catch (validationError) {
+      const errorMessage = validationError instanceof Error ? validationError.message : "Invalid request body";
+      const [code, message] = errorMessage.includes(":") ? errorMessage.split(": ", 2) : ["INVALID_BODY", errorMessage];
+      return createErrorResponse(code, message, 400);
+    }
+
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      console.error("Supabase client not available in locals");
+      return createErrorResponse("CATEGORIZATION_RULE_CREATE_FAILED", "Database connection not available", 500);
+    }
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError) {
+      console.error("Authentication error:", authError);
+      return createErrorResponse("UNAUTHENTICATED", "Authentication failed", 401);
+    }
+
+    if (!user) {
+      return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
+    }
+
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "settings:edit")) {
+      return createPermissionDeniedResponse("settings:edit");
+    }
+
+    const categorizationService = createCategorizationService(supabase);
+
+    try {
+      const created = await categorizationService.createRule(user.id, command);
+      return createCreatedResponse(created);
+    } catch (serviceError) {
+      const errorMessage = serviceError instanceof Error ? serviceError.message : "Unknown error";
+
+      switch (errorMessage) {
+        case "HOUSEHOLD_NOT_FOUND":
+          return createErrorResponse("HOUSEHOLD_NOT_FOUND", "No household found for the authenticated user", 404);
+
+        case "INVALID_CATEGORY_ID":
+          return createErrorResponse("INVALID_CATEGORY_ID", "Category not found in your household", 400);
+
+        case "CATEGORY_ARCHIVED":
+          return createErrorResponse("CATEGORY_ARCHIVED", "Archived categories cannot be assigned", 400);
+
+        case "INVALID_AMOUNT_RANGE":
+          return createErrorResponse("INVALID_AMOUNT_RANGE", "Minimum amount cannot exceed the maximum amount", 400);
+
+        default:
+          console.error("Error while creating categorization rule:", serviceError);
+          return createErrorResponse("CATEGORIZATION_RULE_CREATE_FAILED", "Failed to create categorization rule", 500);
+      }
+    }
+  } catch (error) {
+    // Catch-all for unexpected errors
+    console.error("Unexpected error in POST /api/categorization-rules:", error);
+    return createErrorResponse("CATEGORIZATION_RULE_CREATE_FAILED", "An internal server error occurred", 500);
+  }
+};
@@ -0,0 +1,256 @@
+import type { APIRoute } from "astro";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "../../../lib/permissions";
+import { createCategorizationService } from "../../../lib/services/categorization.service";
+import {
+  parseCategorizationRuleIdParam,
+  parseUpdateCategorizationRuleBody,
+} from "../../../lib/validation/categorization-rules";
+import type { ApiErrorDto, CategorizationRuleDto, UpdateCategorizationRuleCommand } from "../../../types";
+
+export const prerender = false;
+
+/**
+ * Creates a standardized API error response.
+ */
+function createErrorResponse(code: string, message: string, status: number): Response {
+  const errorResponse: ApiErrorDto = {
+    error: {
+      code,
+      message,
+    },
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
+}
+
+/**
+ * Creates a successful API response for categorization rule update.
+ */
+function createUpdatedResponse(data: CategorizationRuleDto): Response {
+  return new Response(JSON.stringify(data), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "X-Result-Code": "CATEGORIZATION_RULE_UPDATED",
+    },
+  });
+}
+
+/**
+ * Creates a successful API response for categorization rule deletion.
+ */
+function createDeletedResponse(): Response {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      "X-Result-Code": "CATEGORIZATION_RULE_DELETED",
+    },
+  });
+}
+
+/**
+ * PATCH /api/categorization-rules/{ruleId}
+ *
+ * Updates a categorization rule. Transactions categorized before keep their category.
+ *
+ * Path Parameters:
+ * - ruleId (string, required): UUID of the rule
+ *
+ * Request Body (at least one field required):
+ * - categoryId, pattern, priority, minAmount, maxAmount (null removes the limit)
+ *
+ * Responses:
+ * - 200: Rule updated successfully with X-Result-Code: CATEGORIZATION_RULE_UPDATED
+ * - 400: Invalid parameters or body (INVALID_CATEGORIZATION_RULE_ID, INVALID_BODY, INVALID_CATEGORY_ID,
+ *        INVALID_PATTERN, INVALID_PRIORITY, INVALID_AMOUNT_RANGE, CATEGORY_ARCHIVED)
+ * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
+ * - 404: Household or rule not found (HOUSEHOLD_NOT_FOUND, CATEGORIZATION_RULE_NOT_FOUND)
+ * - 500: Internal server error (CATEGORIZATION_RULE_UPDATE_FAILED)
+ */
+export const PATCH: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // Validate rule ID parameter
+    let ruleId: string;
+    try {
+      ruleId = parseCategorizationRuleIdParam(params);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Invalid rule ID";
+      const [code, message] = errorMessage.includes(":")
+        ? errorMessage.split(": ", 2)
+        : ["INVALID_CATEGORIZATION_RULE_ID", errorMessage];
+      return createErrorResponse(code, message, 400);
+    }
+
+    // Parse and validate request body
+    let command: UpdateCategorizationRuleCommand;
+    try {
+      const body = await request.json();
+      command = parseUpdateCategorizationRuleBody(body);
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        return createErrorResponse("INVALID_BODY", "Invalid JSON in request body", 400);
+      }
+
+      const errorMessage = error instanceof Error ? error.message : "Invalid request body";
+      const [code, message] = errorMessage.includes(":") ? errorMessage.split(": ", 2) : ["INVALID_BODY", errorMessage];
+      return createErrorResponse(code, message, 400);
+    }
+
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      console.error("Supabase client not available in locals");
+      return createErrorResponse("CATEGORIZATION_RULE_UPDATE_FAILED", "Database connection not available", 500);
+    }
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError) {
+      console.error("Authentication error:", authError);
+      return createErrorResponse("UNAUTHENTICATED", "Authentication failed", 401);
+    }
+
+    if (!user) {
+      return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
+    }
+
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "settings:edit")) {
+      return createPermissionDeniedResponse("settings:edit");
+    }
+
+    const categorizationService = createCategorizationService(supabase);
+
+    try {
+      const updated = await categorizationService.updateRule(user.id, ruleId, command);
+      return createUpdatedResponse(updated);
+    } catch (serviceError) {
+      const errorMessage = serviceError instanceof Error ? serviceError.message : "Unknown error";
+
+      switch (errorMessage) {
+        case "HOUSEHOLD_NOT_FOUND":
+          return createErrorResponse("HOUSEHOLD_NOT_FOUND", "No household found for the authenticated user", 404);
+
+        case "CATEGORIZATION_RULE_NOT_FOUND":
+          return createErrorResponse(
+            "CATEGORIZATION_RULE_NOT_FOUND",
+            "Categorization rule not found or access denied",
+            404
+          );
+
+        case "INVALID_CATEGORY_ID":
+          return createErrorResponse("INVALID_CATEGORY_ID", "Category not found in your household", 400);
+
+        case "CATEGORY_ARCHIVED":
+          return createErrorResponse("CATEGORY_ARCHIVED", "Archived categories cannot be assigned", 400);
+
+        case "INVALID_AMOUNT_RANGE":
+          return createErrorResponse("INVALID_AMOUNT_RANGE", "Minimum amount cannot exceed the maximum amount", 400);
+
+        default:
+          console.error("Error while updating categorization rule:", serviceError);
+          return createErrorResponse("CATEGORIZATION_RULE_UPDATE_FAILED", "Failed to update categorization rule", 500);
+      }
+    }
+  } catch (error) {
+    console.error("Unexpected error in PATCH /api/categorization-rules/{ruleId}:", error);
+    return createErrorResponse("CATEGORIZATION_RULE_UPDATE_FAILED", "An internal server error occurred", 500);
+  }
+};
+
+/**
+ * DELETE /api/categorization-rules/{ruleId}
+ *
+ * Deletes a categorization rule. Transactions categorized by the rule keep their category.
+ *
+ * Path Parameters:
+ * - ruleId (string, required): UUID of the rule
+ *
+ * Responses:
+ * - 204: Rule deleted successfully with X-Result-Code: CATEGORIZATION_RULE_DELETED
+ * - 400: Invalid path parameter (INVALID_CATEGORIZATION_RULE_ID)
+ * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
+ * - 404: Household or rule not found (HOUSEHOLD_NOT_FOUND, CATEGORIZATION_RULE_NOT_FOUND)
+ * - 500: Internal server error (CATEGORIZATION_RULE_DELETE_FAILED)
+ */
+export const DELETE: APIRoute = async ({ params, locals }) => {
+  try {
+    // Validate rule ID parameter
+    let ruleId: string;
+    try {
+      ruleId = parseCategorizationRuleIdParam(params);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Invalid rule ID";
+      const [code, message] = errorMessage.includes(":")
+        ? errorMessage.split(": ", 2)
+        : ["INVALID_CATEGORIZATION_RULE_ID", errorMessage];
+      return createErrorResponse(code, message, 400);
+    }
+
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      console.error("Supabase client not available in locals");
+      return createErrorResponse("CATEGORIZATION_RULE_DELETE_FAILED", "Database connection not available", 500);
+    }
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError) {
+      console.error("Authentication error:", authError);
+      return createErrorResponse("UNAUTHENTICATED", "Authentication failed", 401);
+    }
+
+    if (!user) {
+      return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
+    }
+
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "settings:edit")) {
+      return createPermissionDeniedResponse("settings:edit");
+    }
+
+    const categorizationService = createCategorizationService(supabase);
+
+    try {
+      await categorizationService.deleteRule(user.id, ruleId);
+      return createDeletedResponse();
+    } catch (serviceError) {
+      const errorMessage = serviceError instanceof Error ? serviceError.message : "Unknown error";
+
+      switch (errorMessage) {
+        case "HOUSEHOLD_NOT_FOUND":
+          return createErrorResponse("HOUSEHOLD_NOT_FOUND", "No household found for the authenticated user", 404);
+
+        case "CATEGORIZATION_RULE_NOT_FOUND":
+          return createErrorResponse(
+            "CATEGORIZATION_RULE_NOT_FOUND",
+            "Categorization rule not found or access denied",
+            404
+          );
+
+        default:
+          console.error("Error while deleting categorization rule:", serviceError);
+          return createErrorResponse("CATEGORIZATION_RULE_DELETE_FAILED", "Failed to delete categorization rule", 500);
+      }
+    }
+  } catch (error) {
+    console.error("Unexpected error in DELETE /api/categorization-rules/{ruleId}:", error);
+    return createErrorResponse("CATEGORIZATION_RULE_DELETE_FAILED", "An internal server error occurred", 500);
+  }
+};
@@ -48,7 +48,9 @@ function createErrorResponse(code: string, message: string, status: number): Res
  * GET /api/dashboard/current
  *
  * Retrieves the current dashboard summary for the authenticated user's household.
- * Returns financial overview and category breakdown for the active budget (current month or latest previous).
+ * Returns financial overview, category breakdown and end-of-month forecasts for the active budget (current month or latest previous).
+ * Due recurring transactions are not booked here; editors materialize them with
+ * POST /api/recurring-transactions/materialize before loading the dashboard.
  *
  * Query Parameters: None
  *
@@ -1,5 +1,6 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "../../lib/permissions";
 import { createHouseholdMembersService } from "../../lib/services/household-members.service";
 import type {
   ApiErrorDto,
@@ -21,6 +22,7 @@ const querySchema = z.object({
 // Validation schema for POST request body
 const bodySchema = z.object({
   fullName: z.string().trim().min(1, "Full name is required").max(120, "Full name must not exceed 120 characters"),
+  userId: z.string().uuid("User ID must be a valid UUID").nullable().optional(),
 });
 
 /**
@@ -176,13 +178,16 @@ export const GET: APIRoute = async ({ request, locals }) => {
  *
  * Request Body:
  * - fullName (string, required): Full name of the household member (1-120 characters, trimmed)
+ * - userId (string, optional): UUID of an account with access to the household the member represents
  *
  * Responses:
  * - 201: Member created successfully with X-Result-Code: MEMBER_CREATED
- * - 400: Invalid request body (INVALID_FULL_NAME)
+ * - 400: Invalid request body (INVALID_FULL_NAME, INVALID_USER_ID)
  * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
  * - 404: Household not found for user (HOUSEHOLD_NOT_FOUND)
  * - 409: Member name already exists in household (MEMBER_NAME_CONFLICT)
+ *   or account already linked to another member (MEMBER_USER_CONFLICT)
  * - 500: Internal server error (MEMBER_CREATE_FAILED)
  */
 export const POST: APIRoute = async ({ request, locals }) => {
@@ -200,10 +205,11 @@ export const POST: APIRoute = async ({ request, locals }) => {
     if (!validationResult.success) {
       console.error("Request body validation failed:", validationResult.error);
       const firstError = validationResult.error.errors[0];
-      return createErrorResponse("INVALID_FULL_NAME", firstError?.message || "Invalid full name provided", 400);
+      const errorCode = firstError?.path?.includes("userId") ? "INVALID_USER_ID" : "INVALID_FULL_NAME";
+      return createErrorResponse(errorCode, firstError?.message || "Invalid full name provided", 400);
     }
 
-    const { fullName } = validationResult.data;
+    const { fullName, userId } = validationResult.data;
 
     // Get Supabase client from locals
     const supabase = locals.supabase;
@@ -227,11 +233,16 @@ export const POST: APIRoute = async ({ request, locals }) => {
       return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
     }
 
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "settings:edit")) {
+      return createPermissionDeniedResponse("settings:edit");
+    }
+
     // Create household members service and create member
     const householdMembersService = createHouseholdMembersService(supabase);
 
     try {
-      const command: CreateHouseholdMemberCommand = { fullName };
+      const command: CreateHouseholdMemberCommand = { fullName, userId };
       const createdMember = await householdMembersService.createMember(user.id, command);
 
       console.log(
@@ -255,6 +266,18 @@ export const POST: APIRoute = async ({ request, locals }) => {
         );
       }
 
+      if (errorMessage === "MEMBER_USER_NOT_IN_HOUSEHOLD") {
+        return createErrorResponse("INVALID_USER_ID", "The account has no access to your household", 400);
+      }
+
+      if (errorMessage === "MEMBER_USER_CONFLICT") {
+        return createErrorResponse(
+          "MEMBER_USER_CONFLICT",
+          "The account is already linked to another member of your household",
+          409
+        );
+      }
+
       if (errorMessage === "MEMBER_CREATE_FAILED") {
         console.error(`Database error while creating household member for user ${user.id}:`, serviceError);
         return createErrorResponse("MEMBER_CREATE_FAILED", "Failed to create household member", 500);
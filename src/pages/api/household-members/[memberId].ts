@@ -1,5 +1,6 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "../../../lib/permissions";
 import { createHouseholdMembersService } from "../../../lib/services/household-members.service";
 import type { ApiErrorDto, HouseholdMemberDto, UpdateHouseholdMemberCommand } from "../../../types";
 
@@ -18,9 +19,10 @@ const patchBodySchema = z
       .max(120, "Full name must not exceed 120 characters")
       .optional(),
     isActive: z.boolean().optional(),
+    userId: z.string().uuid("User ID must be a valid UUID").nullable().optional(),
   })
-  .refine((data) => data.fullName !== undefined || data.isActive !== undefined, {
-    message: "At least one field (fullName or isActive) must be provided",
+  .refine((data) => data.fullName !== undefined || data.isActive !== undefined || data.userId !== undefined, {
+    message: "At least one field (fullName, isActive or userId) must be provided",
   });
 
 /**
@@ -71,7 +73,7 @@ function createMemberDeactivateSuccessResponse(): Response {
  * PATCH /api/household-members/{memberId}
  *
  * Updates an existing household member for the currently authenticated user's household.
- * Allows updating fullName and/or isActive status. At least one field must be provided.
+ * Allows updating fullName, isActive status and the linked account. At least one field must be provided.
  *
  * URL Parameters:
  * - memberId (string, required): UUID of the household member to update
@@ -79,14 +81,17 @@ function createMemberDeactivateSuccessResponse(): Response {
  * Request Body:
  * - fullName (string, optional): Updated full name (1-120 characters, trimmed)
  * - isActive (boolean, optional): Updated active status
+ * - userId (string | null, optional): UUID of an account with access to the household, null removes the link
  * - At least one of the above fields must be provided
  *
  * Responses:
  * - 200: Member updated successfully with X-Result-Code: MEMBER_UPDATED
- * - 400: Invalid member ID or request body (INVALID_MEMBER_ID, INVALID_FULL_NAME, INVALID_REQUEST_BODY)
+ * - 400: Invalid member ID or request body (INVALID_MEMBER_ID, INVALID_FULL_NAME, INVALID_USER_ID, INVALID_REQUEST_BODY)
  * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
  * - 404: Member not found in user's household (MEMBER_NOT_FOUND)
  * - 409: Member name already exists in household (MEMBER_NAME_CONFLICT)
+ *   or account already linked to another member (MEMBER_USER_CONFLICT)
  * - 500: Internal server error (MEMBER_UPDATE_FAILED)
  */
 export const PATCH: APIRoute = async ({ params, request, locals }) => {
@@ -114,7 +119,11 @@ export const PATCH: APIRoute = async ({ params, request, locals }) => {
     if (!validationResult.success) {
       console.error("Request body validation failed:", validationResult.error);
       const firstError = validationResult.error.errors[0];
-      const errorCode = firstError?.path?.includes("fullName") ? "INVALID_FULL_NAME" : "INVALID_REQUEST_BODY";
+      const errorCode = firstError?.path?.includes("fullName")
+        ? "INVALID_FULL_NAME"
+        : firstError?.path?.includes("userId")
+          ? "INVALID_USER_ID"
+          : "INVALID_REQUEST_BODY";
       return createErrorResponse(errorCode, firstError?.message || "Invalid request body", 400);
     }
 
@@ -142,6 +151,11 @@ export const PATCH: APIRoute = async ({ params, request, locals }) => {
       return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
     }
 
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "settings:edit")) {
+      return createPermissionDeniedResponse("settings:edit");
+    }
+
     // Create household members service and update member
     const householdMembersService = createHouseholdMembersService(supabase);
 
@@ -174,6 +188,18 @@ export const PATCH: APIRoute = async ({ params, request, locals }) => {
         );
       }
 
+      if (errorMessage === "MEMBER_USER_NOT_IN_HOUSEHOLD") {
+        return createErrorResponse("INVALID_USER_ID", "The account has no access to your household", 400);
+      }
+
+      if (errorMessage === "MEMBER_USER_CONFLICT") {
+        return createErrorResponse(
+          "MEMBER_USER_CONFLICT",
+          "The account is already linked to another member of your household",
+          409
+        );
+      }
+
       if (errorMessage === "MEMBER_UPDATE_FAILED") {
         console.error(`Database error while updating household member for user ${user.id}:`, serviceError);
         return createErrorResponse("MEMBER_UPDATE_FAILED", "Failed to update household member", 500);
@@ -209,6 +235,7 @@ export const PATCH: APIRoute = async ({ params, request, locals }) => {
  * - 204: Member deactivated successfully with X-Result-Code: MEMBER_DEACTIVATED
  * - 400: Invalid member ID (INVALID_MEMBER_ID)
  * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
  * - 404: Member not found in user's household (MEMBER_NOT_FOUND)
  * - 500: Internal server error (MEMBER_DEACTIVATE_FAILED)
  */
@@ -246,6 +273,11 @@ export const DELETE: APIRoute = async ({ params, locals }) => {
       return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
     }
 
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "settings:edit")) {
+      return createPermissionDeniedResponse("settings:edit");
+    }
+
     // Create household members service and deactivate member
     const householdMembersService = createHouseholdMembersService(supabase);
 
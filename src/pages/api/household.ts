@@ -1,6 +1,16 @@
 import type { APIRoute } from "astro";
 import { z } from "zod";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "../../lib/permissions";
 import { createHouseholdService } from "../../lib/services/household.service";
+import {
+  ALERT_SETTINGS_ERROR_CODES,
+  hasCompletePaceAlert,
+  hasOrderedThresholds,
+  overThresholdSchema,
+  paceAlertDaySchema,
+  paceAlertPercentSchema,
+  warningThresholdSchema,
+} from "../../lib/validation/alert-settings";
 import type { ApiErrorDto, HouseholdDto, DefaultCategoryDto, UpdateHouseholdCommand } from "../../types";
 
 export const prerender = false;
@@ -11,13 +21,31 @@ const querySchema = z.object({
 });
 
 // Validation schema for PATCH request body
-const patchBodySchema = z.object({
-  name: z
-    .string()
-    .trim()
-    .min(1, "Household name cannot be empty")
-    .max(120, "Household name cannot exceed 120 characters"),
-});
+const patchBodySchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, "Household name cannot be empty")
+      .max(120, "Household name cannot exceed 120 characters")
+      .optional(),
+    categoryWarningThreshold: warningThresholdSchema.optional(),
+    categoryOverThreshold: overThresholdSchema.optional(),
+    paceAlertDay: paceAlertDaySchema.nullable().optional(),
+    paceAlertPercent: paceAlertPercentSchema.nullable().optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "At least one field must be provided",
+    path: ["name"],
+  })
+  .refine((data) => hasOrderedThresholds(data.categoryWarningThreshold, data.categoryOverThreshold), {
+    message: "Warning threshold cannot exceed the overspending threshold",
+    path: ["categoryWarningThreshold"],
+  })
+  .refine(hasCompletePaceAlert, {
+    message: "Pace alert day and percentage must be provided together",
+    path: ["paceAlertDay"],
+  });
 
 // Response type for successful household fetch
 interface HouseholdResponseDto {
@@ -158,15 +186,20 @@ export const GET: APIRoute = async ({ request, locals }) => {
 /**
  * PATCH /api/household
  *
- * Updates the household name for the currently authenticated user.
+ * Updates the household name and/or the default alert settings of categories for the currently authenticated user.
  *
- * Request Body:
- * - name (string, required): New household name (1-120 characters after trim)
+ * Request Body (at least one field required):
+ * - name (string, optional): New household name (1-120 characters after trim)
+ * - categoryWarningThreshold, categoryOverThreshold (number, optional): Default alert thresholds of categories,
+ *   as percentages of the limit
+ * - paceAlertDay (1-31), paceAlertPercent (number | null, optional): Default pace alert of variable costs,
+ *   both or neither; null disables it
  *
  * Responses:
  * - 200: Household updated successfully
- * - 400: Invalid request body or name validation failed
+ * - 400: Invalid request body (INVALID_NAME, INVALID_THRESHOLDS, INVALID_PACE_ALERT)
  * - 401: User not authenticated
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
  * - 404: Household not found for user
  * - 500: Internal server error
  */
@@ -185,11 +218,10 @@ export const PATCH: APIRoute = async ({ request, locals }) => {
     if (!validationResult.success) {
       console.error("Request body validation failed:", validationResult.error);
       const firstError = validationResult.error.errors[0];
-      return createErrorResponse("INVALID_NAME", firstError?.message || "Invalid household name", 400);
+      const code = ALERT_SETTINGS_ERROR_CODES[String(firstError?.path[0])] ?? "INVALID_NAME";
+      return createErrorResponse(code, firstError?.message || "Invalid household name", 400);
     }
 
-    const { name } = validationResult.data;
-
     // Get Supabase client from locals
     const supabase = locals.supabase;
     if (!supabase) {
@@ -212,15 +244,20 @@ export const PATCH: APIRoute = async ({ request, locals }) => {
       return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
     }
 
-    // Create household service and update household name
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "household:manage")) {
+      return createPermissionDeniedResponse("household:manage");
+    }
+
+    // Create household service and update the household
     const householdService = createHouseholdService(supabase);
 
     try {
       // Create update command
-      const updateCommand: UpdateHouseholdCommand = { name };
+      const updateCommand: UpdateHouseholdCommand = validationResult.data;
 
-      // Update household name
-      await householdService.updateHouseholdName(user.id, updateCommand);
+      // Update household name and alert settings
+      await householdService.updateHousehold(user.id, updateCommand);
 
       // Fetch updated household profile to ensure consistent response format
       const result = await householdService.getHouseholdProfile(user.id, {
@@ -232,7 +269,7 @@ export const PATCH: APIRoute = async ({ request, locals }) => {
         household: result.household,
       };
 
-      console.log(`Household name updated successfully for user ${user.id}`);
+      console.log(`Household updated successfully for user ${user.id}`);
       return createSuccessResponse(responseData);
     } catch (serviceError) {
       const errorMessage = serviceError instanceof Error ? serviceError.message : "Unknown error";
@@ -245,16 +282,24 @@ export const PATCH: APIRoute = async ({ request, locals }) => {
         return createErrorResponse("INVALID_NAME", "Invalid household name provided", 400);
       }
 
+      if (errorMessage === "INVALID_THRESHOLDS") {
+        return createErrorResponse(
+          "INVALID_THRESHOLDS",
+          "Warning threshold cannot exceed the overspending threshold",
+          400
+        );
+      }
+
       if (errorMessage === "HOUSEHOLD_UPDATE_FAILED") {
         console.error("Database error while updating household:", serviceError);
-        return createErrorResponse("HOUSEHOLD_UPDATE_FAILED", "Failed to update household name", 500);
+        return createErrorResponse("HOUSEHOLD_UPDATE_FAILED", "Failed to update household", 500);
       }
 
       // Unexpected service error
       console.error("Unexpected service error:", serviceError);
       return createErrorResponse(
         "HOUSEHOLD_UPDATE_FAILED",
-        "An unexpected error occurred while updating household name",
+        "An unexpected error occurred while updating household",
         500
       );
     }
@@ -0,0 +1,117 @@
+import type { APIRoute } from "astro";
+import { createHouseholdBackupService } from "../../../lib/services/household-backup.service";
+import type { ApiErrorDto, HouseholdBackupDto } from "../../../types";
+
+export const prerender = false;
+
+/**
+ * Creates a file download response for a household backup.
+ *
+ * @param backup - Backup document
+ * @returns Response with the JSON document and download headers
+ */
+function createBackupResponse(backup: HouseholdBackupDto): Response {
+  const fileName = `gospodarstwo-${backup.exportedAt.slice(0, 10)}.json`;
+
+  return new Response(JSON.stringify(backup, null, 2), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+      "X-Result-Code": "HOUSEHOLD_EXPORTED",
+    },
+  });
+}
+
+/**
+ * Creates an error response with standardized format.
+ *
+ * @param code - Error code for the response
+ * @param message - Human-readable error message
+ * @param status - HTTP status code
+ * @returns Response with error details
+ */
+function createErrorResponse(code: string, message: string, status: number): Response {
+  const errorResponse: ApiErrorDto = {
+    error: {
+      code,
+      message,
+    },
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
+}
+
+/**
+ * GET /api/household/export
+ *
+ * Exports a full backup of the authenticated user's household as a versioned JSON document: household settings,
+ * members, categories, budgets, incomes, planned expenses and transactions with their split lines.
+ * The document can be restored with POST /api/household/import.
+ *
+ * Responses:
+ * - 200: Backup exported successfully with X-Result-Code: HOUSEHOLD_EXPORTED and a Content-Disposition attachment
+ * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 404: Household not found (HOUSEHOLD_NOT_FOUND)
+ * - 500: Internal server error (SUPABASE_CLIENT_UNAVAILABLE, HOUSEHOLD_EXPORT_FAILED, INTERNAL_SERVER_ERROR)
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      console.error("Supabase client not available in locals");
+      return createErrorResponse("SUPABASE_CLIENT_UNAVAILABLE", "Database connection not available", 500);
+    }
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError) {
+      console.error("Authentication error:", authError);
+      return createErrorResponse("UNAUTHENTICATED", "Authentication failed", 401);
+    }
+
+    if (!user) {
+      return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
+    }
+
+    // Create household backup service and export the household
+    const householdBackupService = createHouseholdBackupService(supabase);
+
+    try {
+      const backup = await householdBackupService.exportHousehold(user.id);
+
+      console.log(`Household exported for user ${user.id}: ${backup.transactions.length} transactions`);
+      return createBackupResponse(backup);
+    } catch (serviceError) {
+      const errorMessage = serviceError instanceof Error ? serviceError.message : "Unknown error";
+
+      // Map service errors to appropriate HTTP responses
+      switch (errorMessage) {
+        case "HOUSEHOLD_NOT_FOUND":
+          console.log(`Household not found for user ${user.id}`);
+          return createErrorResponse("HOUSEHOLD_NOT_FOUND", "Household not found", 404);
+
+        case "HOUSEHOLD_EXPORT_FAILED":
+          console.error(`Household export failed for user ${user.id}:`, serviceError);
+          return createErrorResponse("HOUSEHOLD_EXPORT_FAILED", "Failed to export household", 500);
+
+        default:
+          console.error(`Unexpected error during household export for user ${user.id}:`, serviceError);
+          return createErrorResponse("INTERNAL_SERVER_ERROR", "An internal server error occurred", 500);
+      }
+    }
+  } catch (error) {
+    console.error("Unexpected error in household export endpoint:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "An internal server error occurred", 500);
+  }
+};
@@ -0,0 +1,154 @@
+import type { APIRoute } from "astro";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "../../../lib/permissions";
+import { createHouseholdBackupService } from "../../../lib/services/household-backup.service";
+import { parseHouseholdBackup } from "../../../lib/validation/household-backup";
+import type { ApiErrorDto, HouseholdImportedDto } from "../../../types";
+
+export const prerender = false;
+
+/**
+ * Creates a successful API response for a restored backup.
+ */
+function createImportedResponse(data: HouseholdImportedDto): Response {
+  return new Response(JSON.stringify(data), {
+    status: 201,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "X-Result-Code": "HOUSEHOLD_IMPORTED",
+    },
+  });
+}
+
+/**
+ * Creates an error response with standardized format.
+ *
+ * @param code - Error code for the response
+ * @param message - Human-readable error message
+ * @param status - HTTP status code
+ * @returns Response with error details
+ */
+function createErrorResponse(code: string, message: string, status: number): Response {
+  const errorResponse: ApiErrorDto = {
+    error: {
+      code,
+      message,
+    },
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
+}
+
+/**
+ * POST /api/household/import
+ *
+ * Restores a backup created with GET /api/household/export into the authenticated user's household.
+ * The household must be empty: no members, budgets, recurring transactions or categorization rules.
+ * Its default categories are replaced with the categories of the backup, and its name and alert settings
+ * are overwritten. Every record gets a new ID, and nothing is saved when any part of the backup fails.
+ *
+ * Request Body:
+ * - Backup document (HouseholdBackupDto), version 1
+ *
+ * Responses:
+ * - 201: Backup restored with X-Result-Code: HOUSEHOLD_IMPORTED and the number of restored records
+ * - 400: Invalid backup (INVALID_PAYLOAD, INVALID_BACKUP, UNSUPPORTED_BACKUP_VERSION)
+ * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
+ * - 404: Household not found (HOUSEHOLD_NOT_FOUND)
+ * - 409: Household already has data (HOUSEHOLD_NOT_EMPTY)
+ * - 500: Internal server error (SUPABASE_CLIENT_UNAVAILABLE, HOUSEHOLD_IMPORT_FAILED, INTERNAL_SERVER_ERROR)
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      console.error("Supabase client not available in locals");
+      return createErrorResponse("SUPABASE_CLIENT_UNAVAILABLE", "Database connection not available", 500);
+    }
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError) {
+      console.error("Authentication error:", authError);
+      return createErrorResponse("UNAUTHENTICATED", "Authentication failed", 401);
+    }
+
+    if (!user) {
+      return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
+    }
+
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "household:manage")) {
+      return createPermissionDeniedResponse("household:manage");
+    }
+
+    // Parse and validate request body
+    let requestBody;
+    try {
+      requestBody = await request.json();
+    } catch (parseError) {
+      console.warn("JSON parsing failed:", parseError);
+      return createErrorResponse("INVALID_PAYLOAD", "Request body must be valid JSON", 400);
+    }
+
+    let backup;
+    try {
+      backup = parseHouseholdBackup(requestBody);
+    } catch (validationError) {
+      const errorMessage = validationError instanceof Error ? validationError.message : "INVALID_BACKUP";
+      const [code, ...messageParts] = errorMessage.split(": ");
+      console.log(`Invalid household backup for user ${user.id}: ${errorMessage}`);
+      return createErrorResponse(code, messageParts.join(": ") || "Invalid backup", 400);
+    }
+
+    // Create household backup service and restore the backup
+    const householdBackupService = createHouseholdBackupService(supabase);
+
+    try {
+      const result = await householdBackupService.importHousehold(user.id, backup);
+
+      console.log(`Household backup restored for user ${user.id}: ${result.transactions} transactions`);
+      return createImportedResponse(result);
+    } catch (serviceError) {
+      const errorMessage = serviceError instanceof Error ? serviceError.message : "Unknown error";
+
+      // Map service errors to appropriate HTTP responses
+      switch (errorMessage) {
+        case "HOUSEHOLD_NOT_FOUND":
+          console.log(`Household not found for user ${user.id}`);
+          return createErrorResponse("HOUSEHOLD_NOT_FOUND", "Household not found", 404);
+
+        case "HOUSEHOLD_NOT_EMPTY":
+          return createErrorResponse(
+            "HOUSEHOLD_NOT_EMPTY",
+            "A backup can only be restored into a household without members, budgets and rules",
+            409
+          );
+
+        case "INVALID_BACKUP":
+          return createErrorResponse("INVALID_BACKUP", "The backup does not satisfy the database constraints", 400);
+
+        case "HOUSEHOLD_IMPORT_FAILED":
+          console.error(`Household import failed for user ${user.id}:`, serviceError);
+          return createErrorResponse("HOUSEHOLD_IMPORT_FAILED", "Failed to restore the backup", 500);
+
+        default:
+          console.error(`Unexpected error during household import for user ${user.id}:`, serviceError);
+          return createErrorResponse("INTERNAL_SERVER_ERROR", "An internal server error occurred", 500);
+      }
+    }
+  } catch (error) {
+    console.error("Unexpected error in household import endpoint:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "An internal server error occurred", 500);
+  }
+};
@@ -0,0 +1,213 @@
+import type { APIRoute } from "astro";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "../../../lib/permissions";
+import { createHouseholdInvitationsService } from "../../../lib/services/household-invitations.service";
+import { parseCreateHouseholdInvitationBody } from "../../../lib/validation/household-invitations";
+import type {
+  ApiErrorDto,
+  CreateHouseholdInvitationCommand,
+  HouseholdInvitationCreatedDto,
+  HouseholdInvitationsListResponseDto,
+} from "../../../types";
+
+export const prerender = false;
+
+/**
+ * Creates a standardized API error response.
+ */
+function createErrorResponse(code: string, message: string, status: number): Response {
+  const errorResponse: ApiErrorDto = {
+    error: {
+      code,
+      message,
+    },
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
+}
+
+/**
+ * Creates a successful API response for household invitations list.
+ */
+function createListSuccessResponse(data: HouseholdInvitationsListResponseDto): Response {
+  return new Response(JSON.stringify(data), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "X-Result-Code": "HOUSEHOLD_INVITATIONS_LISTED",
+    },
+  });
+}
+
+/**
+ * Creates a successful API response for created household invitation.
+ */
+function createCreatedResponse(data: HouseholdInvitationCreatedDto): Response {
+  return new Response(JSON.stringify(data), {
+    status: 201,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "X-Result-Code": "HOUSEHOLD_INVITATION_CREATED",
+    },
+  });
+}
+
+/**
+ * GET /api/household/invitations
+ *
+ * Retrieves invitations to the currently authenticated user's household, the newest first.
+ *
+ * Responses:
+ * - 200: Invitations retrieved successfully with X-Result-Code: HOUSEHOLD_INVITATIONS_LISTED
+ * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 404: Household not found for user (HOUSEHOLD_NOT_FOUND)
+ * - 500: Internal server error (HOUSEHOLD_INVITATIONS_LIST_FAILED)
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      console.error("Supabase client not available in locals");
+      return createErrorResponse("HOUSEHOLD_INVITATIONS_LIST_FAILED", "Database connection not available", 500);
+    }
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError) {
+      console.error("Authentication error:", authError);
+      return createErrorResponse("UNAUTHENTICATED", "Authentication failed", 401);
+    }
+
+    if (!user) {
+      return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
+    }
+
+    const invitationsService = createHouseholdInvitationsService(supabase);
+
+    try {
+      const result = await invitationsService.listInvitations(user.id);
+      return createListSuccessResponse(result);
+    } catch (serviceError) {
+      const errorMessage = serviceError instanceof Error ? serviceError.message : "Unknown error";
+
+      if (errorMessage === "HOUSEHOLD_NOT_FOUND") {
+        return createErrorResponse("HOUSEHOLD_NOT_FOUND", "No household found for the authenticated user", 404);
+      }
+
+      console.error("Error while fetching household invitations:", serviceError);
+      return createErrorResponse("HOUSEHOLD_INVITATIONS_LIST_FAILED", "Failed to retrieve household invitations", 500);
+    }
+  } catch (error) {
+    // Catch-all for unexpected errors
+    console.error("Unexpected error in GET /api/household/invitations:", error);
+    return createErrorResponse("HOUSEHOLD_INVITATIONS_LIST_FAILED", "An internal server error occurred", 500);
+  }
+};
+
+/**
+ * POST /api/household/invitations
+ *
+ * Invites a person to the household. The response contains the invitation token and the link to accept it,
+ * which the inviting member passes on to the invited person; the token is not shown again.
+ * The invitation can be accepted within 7 days by an account signed in with the invited email address.
+ *
+ * Request Body:
+ * - email (string, required): Email address of the invited person
+ *
+ * Responses:
+ * - 201: Invitation created with X-Result-Code: HOUSEHOLD_INVITATION_CREATED
+ * - 400: Invalid request body (INVALID_BODY, INVALID_EMAIL)
+ * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
+ * - 404: Household not found for user (HOUSEHOLD_NOT_FOUND)
+ * - 409: A pending invitation for the email already exists (INVITATION_ALREADY_PENDING)
+ * - 500: Internal server error (HOUSEHOLD_INVITATION_CREATE_FAILED)
+ */
+export const POST: APIRoute = async ({ request, url, locals }) => {
+  try {
+    // Parse request body
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch (parseError) {
+      console.warn("Failed to parse request body as JSON:", parseError);
+      return createErrorResponse("INVALID_BODY", "Request body must be valid JSON", 400);
+    }
+
+    // Validate request body
+    let command: CreateHouseholdInvitationCommand;
+    try {
+      command = parseCreateHouseholdInvitationBody(requestBody);
+    } catch (validationError) {
+      const errorMessage = validationError instanceof Error ? validationError.message : "Invalid request body";
+      const [code, message] = errorMessage.includes(":") ? errorMessage.split(": ", 2) : ["INVALID_BODY", errorMessage];
+      return createErrorResponse(code, message, 400);
+    }
+
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      console.error("Supabase client not available in locals");
+      return createErrorResponse("HOUSEHOLD_INVITATION_CREATE_FAILED", "Database connection not available", 500);
+    }
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError) {
+      console.error("Authentication error:", authError);
+      return createErrorResponse("UNAUTHENTICATED", "Authentication failed", 401);
+    }
+
+    if (!user) {
+      return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
+    }
+
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "household:manage")) {
+      return createPermissionDeniedResponse("household:manage");
+    }
+
+    const invitationsService = createHouseholdInvitationsService(supabase);
+
+    try {
+      const { invitation, token } = await invitationsService.createInvitation(user.id, command);
+      const acceptUrl = new URL(`/invitations/accept?token=${encodeURIComponent(token)}`, url.origin).toString();
+
+      return createCreatedResponse({ ...invitation, token, acceptUrl });
+    } catch (serviceError) {
+      const errorMessage = serviceError instanceof Error ? serviceError.message : "Unknown error";
+
+      switch (errorMessage) {
+        case "HOUSEHOLD_NOT_FOUND":
+          return createErrorResponse("HOUSEHOLD_NOT_FOUND", "No household found for the authenticated user", 404);
+
+        case "INVITATION_ALREADY_PENDING":
+          return createErrorResponse(
+            "INVITATION_ALREADY_PENDING",
+            "A pending invitation for this email already exists",
+            409
+          );
+
+        default:
+          console.error("Error while creating household invitation:", serviceError);
+          return createErrorResponse("HOUSEHOLD_INVITATION_CREATE_FAILED", "Failed to create invitation", 500);
+      }
+    }
+  } catch (error) {
+    console.error("Unexpected error in POST /api/household/invitations:", error);
+    return createErrorResponse("HOUSEHOLD_INVITATION_CREATE_FAILED", "An internal server error occurred", 500);
+  }
+};
@@ -0,0 +1,125 @@
+import type { APIRoute } from "astro";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "../../../../lib/permissions";
+import { createHouseholdInvitationsService } from "../../../../lib/services/household-invitations.service";
+import { parseInvitationIdParam } from "../../../../lib/validation/household-invitations";
+import type { ApiErrorDto } from "../../../../types";
+
+export const prerender = false;
+
+/**
+ * Creates a standardized API error response.
+ */
+function createErrorResponse(code: string, message: string, status: number): Response {
+  const errorResponse: ApiErrorDto = {
+    error: {
+      code,
+      message,
+    },
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
+}
+
+/**
+ * Creates a successful API response for household invitation revocation.
+ */
+function createRevokedResponse(): Response {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      "X-Result-Code": "HOUSEHOLD_INVITATION_REVOKED",
+    },
+  });
+}
+
+/**
+ * DELETE /api/household/invitations/{invitationId}
+ *
+ * Revokes a pending invitation, so it can no longer be accepted. The invitation stays on the list as revoked.
+ *
+ * Path Parameters:
+ * - invitationId (string, required): UUID of the invitation
+ *
+ * Responses:
+ * - 204: Invitation revoked successfully with X-Result-Code: HOUSEHOLD_INVITATION_REVOKED
+ * - 400: Invalid path parameter (INVALID_INVITATION_ID)
+ * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
+ * - 404: Household or invitation not found (HOUSEHOLD_NOT_FOUND, INVITATION_NOT_FOUND)
+ * - 409: Invitation already accepted, revoked or expired (INVITATION_NOT_PENDING)
+ * - 500: Internal server error (HOUSEHOLD_INVITATION_REVOKE_FAILED)
+ */
+export const DELETE: APIRoute = async ({ params, locals }) => {
+  try {
+    // Validate invitation ID parameter
+    let invitationId: string;
+    try {
+      invitationId = parseInvitationIdParam(params);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Invalid invitation ID";
+      const [code, message] = errorMessage.includes(":")
+        ? errorMessage.split(": ", 2)
+        : ["INVALID_INVITATION_ID", errorMessage];
+      return createErrorResponse(code, message, 400);
+    }
+
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      console.error("Supabase client not available in locals");
+      return createErrorResponse("HOUSEHOLD_INVITATION_REVOKE_FAILED", "Database connection not available", 500);
+    }
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError) {
+      console.error("Authentication error:", authError);
+      return createErrorResponse("UNAUTHENTICATED", "Authentication failed", 401);
+    }
+
+    if (!user) {
+      return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
+    }
+
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "household:manage")) {
+      return createPermissionDeniedResponse("household:manage");
+    }
+
+    const invitationsService = createHouseholdInvitationsService(supabase);
+
+    try {
+      await invitationsService.revokeInvitation(user.id, invitationId);
+      return createRevokedResponse();
+    } catch (serviceError) {
+      const errorMessage = serviceError instanceof Error ? serviceError.message : "Unknown error";
+
+      switch (errorMessage) {
+        case "HOUSEHOLD_NOT_FOUND":
+          return createErrorResponse("HOUSEHOLD_NOT_FOUND", "No household found for the authenticated user", 404);
+
+        case "INVITATION_NOT_FOUND":
+          return createErrorResponse("INVITATION_NOT_FOUND", "Invitation not found or access denied", 404);
+
+        case "INVITATION_NOT_PENDING":
+          return createErrorResponse("INVITATION_NOT_PENDING", "Only pending invitations can be revoked", 409);
+
+        default:
+          console.error("Error while revoking household invitation:", serviceError);
+          return createErrorResponse("HOUSEHOLD_INVITATION_REVOKE_FAILED", "Failed to revoke invitation", 500);
+      }
+    }
+  } catch (error) {
+    console.error("Unexpected error in DELETE /api/household/invitations/{invitationId}:", error);
+    return createErrorResponse("HOUSEHOLD_INVITATION_REVOKE_FAILED", "An internal server error occurred", 500);
+  }
+};
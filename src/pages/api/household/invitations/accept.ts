@@ -0,0 +1,148 @@
+import type { APIRoute } from "astro";
+import { createHouseholdInvitationsService } from "../../../../lib/services/household-invitations.service";
+import { parseAcceptHouseholdInvitationBody } from "../../../../lib/validation/household-invitations";
+import type { AcceptHouseholdInvitationCommand, ApiErrorDto, HouseholdInvitationAcceptedDto } from "../../../../types";
+
+export const prerender = false;
+
+/**
+ * Creates a standardized API error response.
+ */
+function createErrorResponse(code: string, message: string, status: number): Response {
+  const errorResponse: ApiErrorDto = {
+    error: {
+      code,
+      message,
+    },
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
+}
+
+/**
+ * Creates a successful API response for accepted household invitation.
+ */
+function createAcceptedResponse(data: HouseholdInvitationAcceptedDto): Response {
+  return new Response(JSON.stringify(data), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "X-Result-Code": "HOUSEHOLD_INVITATION_ACCEPTED",
+    },
+  });
+}
+
+/**
+ * POST /api/household/invitations/accept
+ *
+ * Accepts an invitation for the authenticated user, who joins the invited household.
+ * The user must be signed in with the invited email address and leaves their current household. A household the user
+ * is the last account of must be empty and is deleted; a household other accounts still use keeps its data, but its
+ * owner cannot leave it.
+ *
+ * Request Body:
+ * - token (string, required): Invitation token from the invitation link
+ *
+ * Responses:
+ * - 200: Invitation accepted with X-Result-Code: HOUSEHOLD_INVITATION_ACCEPTED
+ * - 400: Invalid request body (INVALID_BODY, INVALID_TOKEN)
+ * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: Invitation sent to another email address (INVITATION_EMAIL_MISMATCH)
+ * - 404: Invitation not found, already used, expired or revoked (INVITATION_NOT_FOUND)
+ * - 409: User is the last account of a household with data (HOUSEHOLD_NOT_EMPTY) or the owner of a household
+ *        other accounts still use (HOUSEHOLD_OWNER_CANNOT_LEAVE)
+ * - 500: Internal server error (HOUSEHOLD_INVITATION_ACCEPT_FAILED)
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Parse request body
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch (parseError) {
+      console.warn("Failed to parse request body as JSON:", parseError);
+      return createErrorResponse("INVALID_BODY", "Request body must be valid JSON", 400);
+    }
+
+    // Validate request body
+    let command: AcceptHouseholdInvitationCommand;
+    try {
+      command = parseAcceptHouseholdInvitationBody(requestBody);
+    } catch (validationError) {
+      const errorMessage = validationError instanceof Error ? validationError.message : "Invalid request body";
+      const [code, message] = errorMessage.includes(":") ? errorMessage.split(": ", 2) : ["INVALID_BODY", errorMessage];
+      return createErrorResponse(code, message, 400);
+    }
+
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      console.error("Supabase client not available in locals");
+      return createErrorResponse("HOUSEHOLD_INVITATION_ACCEPT_FAILED", "Database connection not available", 500);
+    }
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError) {
+      console.error("Authentication error:", authError);
+      return createErrorResponse("UNAUTHENTICATED", "Authentication failed", 401);
+    }
+
+    if (!user) {
+      return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
+    }
+
+    const invitationsService = createHouseholdInvitationsService(supabase);
+
+    try {
+      const result = await invitationsService.acceptInvitation(command.token);
+
+      console.log(`User ${user.id} joined household ${result.householdId}`);
+      return createAcceptedResponse(result);
+    } catch (serviceError) {
+      const errorMessage = serviceError instanceof Error ? serviceError.message : "Unknown error";
+
+      switch (errorMessage) {
+        case "INVITATION_NOT_FOUND":
+          return createErrorResponse("INVITATION_NOT_FOUND", "Invitation not found, expired or revoked", 404);
+
+        case "INVITATION_EMAIL_MISMATCH":
+          return createErrorResponse(
+            "INVITATION_EMAIL_MISMATCH",
+            "The invitation was sent to another email address",
+            403
+          );
+
+        case "HOUSEHOLD_NOT_EMPTY":
+          return createErrorResponse(
+            "HOUSEHOLD_NOT_EMPTY",
+            "The last user of a household can join another one only while it has no members, budgets and rules",
+            409
+          );
+
+        case "HOUSEHOLD_OWNER_CANNOT_LEAVE":
+          return createErrorResponse(
+            "HOUSEHOLD_OWNER_CANNOT_LEAVE",
+            "The owner cannot leave a household other users still have access to",
+            409
+          );
+
+        default:
+          console.error("Error while accepting household invitation:", serviceError);
+          return createErrorResponse("HOUSEHOLD_INVITATION_ACCEPT_FAILED", "Failed to accept invitation", 500);
+      }
+    }
+  } catch (error) {
+    console.error("Unexpected error in POST /api/household/invitations/accept:", error);
+    return createErrorResponse("HOUSEHOLD_INVITATION_ACCEPT_FAILED", "An internal server error occurred", 500);
+  }
+};
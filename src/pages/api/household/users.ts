@@ -0,0 +1,88 @@
+import type { APIRoute } from "astro";
+import { createHouseholdUsersService } from "../../../lib/services/household-users.service";
+import type { ApiErrorDto, HouseholdUsersListResponseDto } from "../../../types";
+
+export const prerender = false;
+
+/**
+ * Creates a standardized API error response.
+ */
+function createErrorResponse(code: string, message: string, status: number): Response {
+  const errorResponse: ApiErrorDto = {
+    error: {
+      code,
+      message,
+    },
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
+}
+
+/**
+ * Creates a successful API response for household users list.
+ */
+function createListSuccessResponse(data: HouseholdUsersListResponseDto): Response {
+  return new Response(JSON.stringify(data), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "X-Result-Code": "HOUSEHOLD_USERS_LISTED",
+    },
+  });
+}
+
+/**
+ * GET /api/household/users
+ *
+ * Retrieves the accounts with access to the currently authenticated user's household, with their email addresses
+ * and roles, in the order they joined.
+ *
+ * Responses:
+ * - 200: Household users retrieved successfully with X-Result-Code: HOUSEHOLD_USERS_LISTED
+ * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 500: Internal server error (HOUSEHOLD_USERS_LIST_FAILED)
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      console.error("Supabase client not available in locals");
+      return createErrorResponse("HOUSEHOLD_USERS_LIST_FAILED", "Database connection not available", 500);
+    }
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError) {
+      console.error("Authentication error:", authError);
+      return createErrorResponse("UNAUTHENTICATED", "Authentication failed", 401);
+    }
+
+    if (!user) {
+      return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
+    }
+
+    const householdUsersService = createHouseholdUsersService(supabase);
+
+    try {
+      const result = await householdUsersService.listUsers(user.id);
+      return createListSuccessResponse(result);
+    } catch (serviceError) {
+      console.error("Error while fetching household users:", serviceError);
+      return createErrorResponse("HOUSEHOLD_USERS_LIST_FAILED", "Failed to retrieve household users", 500);
+    }
+  } catch (error) {
+    // Catch-all for unexpected errors
+    console.error("Unexpected error in GET /api/household/users:", error);
+    return createErrorResponse("HOUSEHOLD_USERS_LIST_FAILED", "An internal server error occurred", 500);
+  }
+};
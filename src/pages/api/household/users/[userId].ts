@@ -0,0 +1,152 @@
+import type { APIRoute } from "astro";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "../../../../lib/permissions";
+import { createHouseholdUsersService } from "../../../../lib/services/household-users.service";
+import {
+  parseHouseholdUserIdParam,
+  parseUpdateHouseholdUserRoleBody,
+} from "../../../../lib/validation/household-users";
+import type { ApiErrorDto, HouseholdUserDto, UpdateHouseholdUserRoleCommand } from "../../../../types";
+
+export const prerender = false;
+
+/**
+ * Creates a standardized API error response.
+ */
+function createErrorResponse(code: string, message: string, status: number): Response {
+  const errorResponse: ApiErrorDto = {
+    error: {
+      code,
+      message,
+    },
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
+}
+
+/**
+ * Creates a successful API response for updated household user.
+ */
+function createUpdatedResponse(data: HouseholdUserDto): Response {
+  return new Response(JSON.stringify(data), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "X-Result-Code": "HOUSEHOLD_USER_UPDATED",
+    },
+  });
+}
+
+/**
+ * PATCH /api/household/users/{userId}
+ *
+ * Changes the role of another account with access to the household. Only the owner can change roles;
+ * the owner role cannot be granted or taken away.
+ *
+ * Path Parameters:
+ * - userId (string, required): UUID of the account
+ *
+ * Request Body:
+ * - role (string, required): New role, "editor" or "viewer"
+ *
+ * Responses:
+ * - 200: Role changed with X-Result-Code: HOUSEHOLD_USER_UPDATED
+ * - 400: Invalid request (INVALID_USER_ID, INVALID_BODY, INVALID_ROLE)
+ * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: User is not the owner of the household (PERMISSION_DENIED)
+ * - 404: Account has no access to the household (HOUSEHOLD_USER_NOT_FOUND)
+ * - 409: Role of the owner or of the user themselves cannot be changed (OWNER_ROLE_LOCKED, CANNOT_CHANGE_OWN_ROLE)
+ * - 500: Internal server error (HOUSEHOLD_USER_UPDATE_FAILED)
+ */
+export const PATCH: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // Validate user ID parameter
+    let targetUserId: string;
+    try {
+      targetUserId = parseHouseholdUserIdParam(params);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Invalid user ID";
+      const [code, message] = errorMessage.includes(":")
+        ? errorMessage.split(": ", 2)
+        : ["INVALID_USER_ID", errorMessage];
+      return createErrorResponse(code, message, 400);
+    }
+
+    // Parse request body
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch (parseError) {
+      console.warn("Failed to parse request body as JSON:", parseError);
+      return createErrorResponse("INVALID_BODY", "Request body must be valid JSON", 400);
+    }
+
+    // Validate request body
+    let command: UpdateHouseholdUserRoleCommand;
+    try {
+      command = parseUpdateHouseholdUserRoleBody(requestBody);
+    } catch (validationError) {
+      const errorMessage = validationError instanceof Error ? validationError.message : "Invalid request body";
+      const [code, message] = errorMessage.includes(":") ? errorMessage.split(": ", 2) : ["INVALID_BODY", errorMessage];
+      return createErrorResponse(code, message, 400);
+    }
+
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      console.error("Supabase client not available in locals");
+      return createErrorResponse("HOUSEHOLD_USER_UPDATE_FAILED", "Database connection not available", 500);
+    }
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError) {
+      console.error("Authentication error:", authError);
+      return createErrorResponse("UNAUTHENTICATED", "Authentication failed", 401);
+    }
+
+    if (!user) {
+      return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
+    }
+
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "household:manage")) {
+      return createPermissionDeniedResponse("household:manage");
+    }
+
+    const householdUsersService = createHouseholdUsersService(supabase);
+
+    try {
+      const updated = await householdUsersService.updateUserRole(user.id, targetUserId, command);
+      return createUpdatedResponse(updated);
+    } catch (serviceError) {
+      const errorMessage = serviceError instanceof Error ? serviceError.message : "Unknown error";
+
+      switch (errorMessage) {
+        case "HOUSEHOLD_USER_NOT_FOUND":
+          return createErrorResponse("HOUSEHOLD_USER_NOT_FOUND", "Account has no access to the household", 404);
+
+        case "OWNER_ROLE_LOCKED":
+          return createErrorResponse("OWNER_ROLE_LOCKED", "The role of the household owner cannot be changed", 409);
+
+        case "CANNOT_CHANGE_OWN_ROLE":
+          return createErrorResponse("CANNOT_CHANGE_OWN_ROLE", "You cannot change your own role", 409);
+
+        default:
+          console.error("Error while updating household user role:", serviceError);
+          return createErrorResponse("HOUSEHOLD_USER_UPDATE_FAILED", "Failed to update household user role", 500);
+      }
+    }
+  } catch (error) {
+    console.error("Unexpected error in PATCH /api/household/users/{userId}:", error);
+    return createErrorResponse("HOUSEHOLD_USER_UPDATE_FAILED", "An internal server error occurred", 500);
+  }
+};
@@ -0,0 +1,256 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "../../lib/permissions";
+import { createRecurringTransactionsService } from "../../lib/services/recurring-transactions.service";
+import { parseCreateRecurringTransactionBody } from "../../lib/validation/recurring-transactions";
+import type {
+  ApiErrorDto,
+  CreateRecurringTransactionCommand,
+  RecurringTransactionDto,
+  RecurringTransactionsListResponseDto,
+} from "../../types";
+
+export const prerender = false;
+
+// Validation schema for query parameters
+const querySchema = z.object({
+  includeInactive: z.enum(["true", "false"]).default("true"),
+});
+
+/**
+ * Creates a standardized API error response.
+ */
+function createErrorResponse(code: string, message: string, status: number): Response {
+  const errorResponse: ApiErrorDto = {
+    error: {
+      code,
+      message,
+    },
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
+}
+
+/**
+ * Creates a successful API response for recurring transactions list.
+ */
+function createListSuccessResponse(data: RecurringTransactionsListResponseDto): Response {
+  return new Response(JSON.stringify(data), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "X-Result-Code": "RECURRING_TRANSACTIONS_LISTED",
+    },
+  });
+}
+
+/**
+ * Creates a successful API response for created recurring transaction.
+ */
+function createCreatedResponse(data: RecurringTransactionDto): Response {
+  return new Response(JSON.stringify(data), {
+    status: 201,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "X-Result-Code": "RECURRING_TRANSACTION_CREATED",
+    },
+  });
+}
+
+/**
+ * GET /api/recurring-transactions
+ *
+ * Retrieves recurring transaction rules for the currently authenticated user's household,
+ * ordered by the next run date.
+ *
+ * Query Parameters:
+ * - includeInactive ("true" | "false", optional): Whether to include paused rules (default: "true")
+ *
+ * Responses:
+ * - 200: Rules retrieved successfully with X-Result-Code: RECURRING_TRANSACTIONS_LISTED
+ * - 400: Invalid query parameters (INVALID_QUERY_PARAM)
+ * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 404: Household not found for user (HOUSEHOLD_NOT_FOUND)
+ * - 500: Internal server error (RECURRING_TRANSACTIONS_LIST_FAILED)
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  try {
+    // Parse and validate query parameters
+    const url = new URL(request.url);
+    const validationResult = querySchema.safeParse(Object.fromEntries(url.searchParams));
+
+    if (!validationResult.success) {
+      console.warn("Query parameter validation failed:", validationResult.error);
+      const firstError = validationResult.error.errors[0];
+      return createErrorResponse(
+        "INVALID_QUERY_PARAM",
+        firstError?.message || "Invalid query parameters provided",
+        400
+      );
+    }
+
+    const includeInactive = validationResult.data.includeInactive === "true";
+
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      console.error("Supabase client not available in locals");
+      return createErrorResponse("RECURRING_TRANSACTIONS_LIST_FAILED", "Database connection not available", 500);
+    }
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError) {
+      console.error("Authentication error:", authError);
+      return createErrorResponse("UNAUTHENTICATED", "Authentication failed", 401);
+    }
+
+    if (!user) {
+      return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
+    }
+
+    const recurringTransactionsService = createRecurringTransactionsService(supabase);
+
+    try {
+      const result = await recurringTransactionsService.listRecurringTransactions(user.id, { includeInactive });
+      return createListSuccessResponse(result);
+    } catch (serviceError) {
+      const errorMessage = serviceError instanceof Error ? serviceError.message : "Unknown error";
+
+      if (errorMessage === "HOUSEHOLD_NOT_FOUND") {
+        return createErrorResponse("HOUSEHOLD_NOT_FOUND", "No household found for the authenticated user", 404);
+      }
+
+      console.error("Error while fetching recurring transactions:", serviceError);
+      return createErrorResponse(
+        "RECURRING_TRANSACTIONS_LIST_FAILED",
+        "Failed to retrieve recurring transactions",
+        500
+      );
+    }
+  } catch (error) {
+    // Catch-all for unexpected errors
+    console.error("Unexpected error in GET /api/recurring-transactions:", error);
+    return createErrorResponse("RECURRING_TRANSACTIONS_LIST_FAILED", "An internal server error occurred", 500);
+  }
+};
+
+/**
+ * POST /api/recurring-transactions
+ *
+ * Creates a new recurring transaction rule. Occurrences are turned into regular transactions
+ * once they become due and the budget for their month exists.
+ *
+ * Request Body:
+ * - categoryId (string, required): UUID of the category
+ * - amount (number, required): Positive amount with up to 2 decimal places
+ * - note (string, optional): Note copied to materialized transactions, max 500 characters
+ * - frequency ("monthly" | "weekly" | "custom", required): Schedule type
+ * - intervalDays (number, required for custom): Interval in days (1-366)
+ * - startDate (string, required): First occurrence in YYYY-MM-DD format
+ * - endDate (string, optional): Last allowed occurrence date in YYYY-MM-DD format
+ *
+ * Responses:
+ * - 201: Rule created successfully with X-Result-Code: RECURRING_TRANSACTION_CREATED
+ * - 400: Invalid request body (INVALID_BODY, INVALID_CATEGORY_ID, INVALID_AMOUNT, INVALID_NOTE, INVALID_DATE, INVALID_SCHEDULE,
+ *        CATEGORY_ARCHIVED)
+ * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
+ * - 404: Household not found for user (HOUSEHOLD_NOT_FOUND)
+ * - 500: Internal server error (RECURRING_TRANSACTION_CREATE_FAILED)
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Parse request body
+    let requestBody: unknown;
+    try {
+      requestBody = await request.json();
+    } catch (parseError) {
+      console.warn("Failed to parse request body as JSON:", parseError);
+      return createErrorResponse("INVALID_BODY", "Request body must be valid JSON", 400);
+    }
+
+    // Validate request body
+    let command: CreateRecurringTransactionCommand;
+    try {
+      command = parseCreateRecurringTransactionBody(requestBody);
+    } catch (validationError) {
+      const errorMessage = validationError instanceof Error ? validationError.message : "Invalid request body";
+      const [code, message] = errorMessage.includes(":") ? errorMessage.split(": ", 2) : ["INVALID_BODY", errorMessage];
+      return createErrorResponse(code, message, 400);
+    }
+
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      console.error("Supabase client not available in locals");
+      return createErrorResponse("RECURRING_TRANSACTION_CREATE_FAILED", "Database connection not available", 500);
+    }
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError) {
+      console.error("Authentication error:", authError);
+      return createErrorResponse("UNAUTHENTICATED", "Authentication failed", 401);
+    }
+
+    if (!user) {
+      return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
+    }
+
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "settings:edit")) {
+      return createPermissionDeniedResponse("settings:edit");
+    }
+
+    const recurringTransactionsService = createRecurringTransactionsService(supabase);
+
+    try {
+      const created = await recurringTransactionsService.createRecurringTransaction(user.id, command);
+
+      console.log(`Recurring transaction created for user ${user.id}: ${created.id}`);
+      return createCreatedResponse(created);
+    } catch (serviceError) {
+      const errorMessage = serviceError instanceof Error ? serviceError.message : "Unknown error";
+
+      switch (errorMessage) {
+        case "HOUSEHOLD_NOT_FOUND":
+          return createErrorResponse("HOUSEHOLD_NOT_FOUND", "No household found for the authenticated user", 404);
+
+        case "INVALID_CATEGORY_ID":
+          return createErrorResponse("INVALID_CATEGORY_ID", "Category not found in your household", 400);
+
+        case "CATEGORY_ARCHIVED":
+          return createErrorResponse("CATEGORY_ARCHIVED", "Archived categories cannot be assigned", 400);
+
+        case "INVALID_SCHEDULE":
+          return createErrorResponse("INVALID_SCHEDULE", "Recurring schedule is invalid", 400);
+
+        default:
+          console.error("Error while creating recurring transaction:", serviceError);
+          return createErrorResponse(
+            "RECURRING_TRANSACTION_CREATE_FAILED",
+            "Failed to create recurring transaction",
+            500
+          );
+      }
+    }
+  } catch (error) {
+    // Catch-all for unexpected errors
+    console.error("Unexpected error in POST /api/recurring-transactions:", error);
+    return createErrorResponse("RECURRING_TRANSACTION_CREATE_FAILED", "An internal server error occurred", 500);
+  }
+};
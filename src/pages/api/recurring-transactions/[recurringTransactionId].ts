@@ -0,0 +1,270 @@
+import type { APIRoute } from "astro";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "../../../lib/permissions";
+import { createRecurringTransactionsService } from "../../../lib/services/recurring-transactions.service";
+import {
+  parseRecurringTransactionIdParam,
+  parseUpdateRecurringTransactionBody,
+} from "../../../lib/validation/recurring-transactions";
+import type { ApiErrorDto, RecurringTransactionDto, UpdateRecurringTransactionCommand } from "../../../types";
+
+export const prerender = false;
+
+/**
+ * Creates a standardized API error response.
+ */
+function createErrorResponse(code: string, message: string, status: number): Response {
+  const errorResponse: ApiErrorDto = {
+    error: {
+      code,
+      message,
+    },
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
+}
+
+/**
+ * Creates a successful API response for recurring transaction update.
+ */
+function createUpdatedResponse(data: RecurringTransactionDto): Response {
+  return new Response(JSON.stringify(data), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "X-Result-Code": "RECURRING_TRANSACTION_UPDATED",
+    },
+  });
+}
+
+/**
+ * Creates a successful API response for recurring transaction deletion.
+ */
+function createDeletedResponse(): Response {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      "X-Result-Code": "RECURRING_TRANSACTION_DELETED",
+    },
+  });
+}
+
+/**
+ * PATCH /api/recurring-transactions/{recurringTransactionId}
+ *
+ * Updates a recurring transaction rule. Changing the schedule recalculates the next run date;
+ * already materialized transactions are left untouched. A resumed rule (isActive: true) continues
+ * from its next occurrence on or after today, skipping the occurrences missed while it was paused.
+ *
+ * Path Parameters:
+ * - recurringTransactionId (string, required): UUID of the rule
+ *
+ * Request Body (at least one field required):
+ * - categoryId, amount, note, frequency, intervalDays, startDate, endDate, isActive
+ *
+ * Responses:
+ * - 200: Rule updated successfully with X-Result-Code: RECURRING_TRANSACTION_UPDATED
+ * - 400: Invalid parameters or body (INVALID_RECURRING_TRANSACTION_ID, INVALID_BODY, INVALID_CATEGORY_ID,
+ *        INVALID_AMOUNT, INVALID_NOTE, INVALID_DATE, INVALID_SCHEDULE, CATEGORY_ARCHIVED)
+ * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
+ * - 404: Household or rule not found (HOUSEHOLD_NOT_FOUND, RECURRING_TRANSACTION_NOT_FOUND)
+ * - 500: Internal server error (RECURRING_TRANSACTION_UPDATE_FAILED)
+ */
+export const PATCH: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // Validate recurring transaction ID parameter
+    let recurringTransactionId: string;
+    try {
+      recurringTransactionId = parseRecurringTransactionIdParam(params);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Invalid recurring transaction ID";
+      const [code, message] = errorMessage.includes(":")
+        ? errorMessage.split(": ", 2)
+        : ["INVALID_RECURRING_TRANSACTION_ID", errorMessage];
+      return createErrorResponse(code, message, 400);
+    }
+
+    // Parse and validate request body
+    let command: UpdateRecurringTransactionCommand;
+    try {
+      const body = await request.json();
+      command = parseUpdateRecurringTransactionBody(body);
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        return createErrorResponse("INVALID_BODY", "Invalid JSON in request body", 400);
+      }
+
+      const errorMessage = error instanceof Error ? error.message : "Invalid request body";
+      const [code, message] = errorMessage.includes(":") ? errorMessage.split(": ", 2) : ["INVALID_BODY", errorMessage];
+      return createErrorResponse(code, message, 400);
+    }
+
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      console.error("Supabase client not available in locals");
+      return createErrorResponse("RECURRING_TRANSACTION_UPDATE_FAILED", "Database connection not available", 500);
+    }
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError) {
+      console.error("Authentication error:", authError);
+      return createErrorResponse("UNAUTHENTICATED", "Authentication failed", 401);
+    }
+
+    if (!user) {
+      return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
+    }
+
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "settings:edit")) {
+      return createPermissionDeniedResponse("settings:edit");
+    }
+
+    const recurringTransactionsService = createRecurringTransactionsService(supabase);
+
+    try {
+      const updated = await recurringTransactionsService.updateRecurringTransaction(
+        user.id,
+        recurringTransactionId,
+        command
+      );
+      return createUpdatedResponse(updated);
+    } catch (serviceError) {
+      const errorMessage = serviceError instanceof Error ? serviceError.message : "Unknown error";
+
+      switch (errorMessage) {
+        case "HOUSEHOLD_NOT_FOUND":
+          return createErrorResponse("HOUSEHOLD_NOT_FOUND", "No household found for the authenticated user", 404);
+
+        case "RECURRING_TRANSACTION_NOT_FOUND":
+          return createErrorResponse(
+            "RECURRING_TRANSACTION_NOT_FOUND",
+            "Recurring transaction not found or access denied",
+            404
+          );
+
+        case "INVALID_CATEGORY_ID":
+          return createErrorResponse("INVALID_CATEGORY_ID", "Category not found in your household", 400);
+
+        case "CATEGORY_ARCHIVED":
+          return createErrorResponse("CATEGORY_ARCHIVED", "Archived categories cannot be assigned", 400);
+
+        case "INVALID_SCHEDULE":
+          return createErrorResponse("INVALID_SCHEDULE", "Recurring schedule is invalid", 400);
+
+        default:
+          console.error("Error while updating recurring transaction:", serviceError);
+          return createErrorResponse(
+            "RECURRING_TRANSACTION_UPDATE_FAILED",
+            "Failed to update recurring transaction",
+            500
+          );
+      }
+    }
+  } catch (error) {
+    console.error("Unexpected error in PATCH /api/recurring-transactions/{recurringTransactionId}:", error);
+    return createErrorResponse("RECURRING_TRANSACTION_UPDATE_FAILED", "An internal server error occurred", 500);
+  }
+};
+
+/**
+ * DELETE /api/recurring-transactions/{recurringTransactionId}
+ *
+ * Deletes a recurring transaction rule. Transactions created from the rule are kept.
+ *
+ * Path Parameters:
+ * - recurringTransactionId (string, required): UUID of the rule
+ *
+ * Responses:
+ * - 204: Rule deleted successfully with X-Result-Code: RECURRING_TRANSACTION_DELETED
+ * - 400: Invalid path parameter (INVALID_RECURRING_TRANSACTION_ID)
+ * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
+ * - 404: Household or rule not found (HOUSEHOLD_NOT_FOUND, RECURRING_TRANSACTION_NOT_FOUND)
+ * - 500: Internal server error (RECURRING_TRANSACTION_DELETE_FAILED)
+ */
+export const DELETE: APIRoute = async ({ params, locals }) => {
+  try {
+    // Validate recurring transaction ID parameter
+    let recurringTransactionId: string;
+    try {
+      recurringTransactionId = parseRecurringTransactionIdParam(params);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Invalid recurring transaction ID";
+      const [code, message] = errorMessage.includes(":")
+        ? errorMessage.split(": ", 2)
+        : ["INVALID_RECURRING_TRANSACTION_ID", errorMessage];
+      return createErrorResponse(code, message, 400);
+    }
+
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      console.error("Supabase client not available in locals");
+      return createErrorResponse("RECURRING_TRANSACTION_DELETE_FAILED", "Database connection not available", 500);
+    }
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError) {
+      console.error("Authentication error:", authError);
+      return createErrorResponse("UNAUTHENTICATED", "Authentication failed", 401);
+    }
+
+    if (!user) {
+      return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
+    }
+
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "settings:edit")) {
+      return createPermissionDeniedResponse("settings:edit");
+    }
+
+    const recurringTransactionsService = createRecurringTransactionsService(supabase);
+
+    try {
+      await recurringTransactionsService.deleteRecurringTransaction(user.id, recurringTransactionId);
+      return createDeletedResponse();
+    } catch (serviceError) {
+      const errorMessage = serviceError instanceof Error ? serviceError.message : "Unknown error";
+
+      switch (errorMessage) {
+        case "HOUSEHOLD_NOT_FOUND":
+          return createErrorResponse("HOUSEHOLD_NOT_FOUND", "No household found for the authenticated user", 404);
+
+        case "RECURRING_TRANSACTION_NOT_FOUND":
+          return createErrorResponse(
+            "RECURRING_TRANSACTION_NOT_FOUND",
+            "Recurring transaction not found or access denied",
+            404
+          );
+
+        default:
+          console.error("Error while deleting recurring transaction:", serviceError);
+          return createErrorResponse(
+            "RECURRING_TRANSACTION_DELETE_FAILED",
+            "Failed to delete recurring transaction",
+            500
+          );
+      }
+    }
+  } catch (error) {
+    console.error("Unexpected error in DELETE /api/recurring-transactions/{recurringTransactionId}:", error);
+    return createErrorResponse("RECURRING_TRANSACTION_DELETE_FAILED", "An internal server error occurred", 500);
+  }
+};
@@ -0,0 +1,109 @@
+import type { APIRoute } from "astro";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "../../../lib/permissions";
+import { createRecurringTransactionsService } from "../../../lib/services/recurring-transactions.service";
+import type { ApiErrorDto, RecurringTransactionsMaterializedDto } from "../../../types";
+
+export const prerender = false;
+
+/**
+ * Creates a standardized API error response.
+ */
+function createErrorResponse(code: string, message: string, status: number): Response {
+  const errorResponse: ApiErrorDto = {
+    error: {
+      code,
+      message,
+    },
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
+}
+
+/**
+ * Creates a successful API response for a materialization run.
+ */
+function createMaterializedResponse(data: RecurringTransactionsMaterializedDto): Response {
+  return new Response(JSON.stringify(data), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "X-Result-Code": "RECURRING_TRANSACTIONS_MATERIALIZED",
+    },
+  });
+}
+
+/**
+ * POST /api/recurring-transactions/materialize
+ *
+ * Books the occurrences of the household's active recurring transactions that became due since the last run.
+ * Occurrences are stored together with the advanced cursors of their rules, so a run can be retried safely.
+ * Called by the dashboard of editors and owners; viewers cannot add recurring transactions to budgets.
+ *
+ * Responses:
+ * - 200: Due occurrences materialized, returns the created transactions
+ * - 401: User not authenticated
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
+ * - 404: No household found for the user
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ locals }) => {
+  try {
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      console.error("Supabase client not available in locals");
+      return createErrorResponse("RECURRING_TRANSACTIONS_MATERIALIZE_FAILED", "Database connection not available", 500);
+    }
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError) {
+      console.error("Authentication error:", authError);
+      return createErrorResponse("UNAUTHENTICATED", "Authentication failed", 401);
+    }
+
+    if (!user) {
+      return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
+    }
+
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "budgets:edit")) {
+      return createPermissionDeniedResponse("budgets:edit");
+    }
+
+    const recurringTransactionsService = createRecurringTransactionsService(supabase);
+
+    try {
+      const result = await recurringTransactionsService.materializeDueTransactions(user.id);
+
+      return createMaterializedResponse(result);
+    } catch (serviceError) {
+      const errorMessage = serviceError instanceof Error ? serviceError.message : "Unknown error";
+
+      switch (errorMessage) {
+        case "HOUSEHOLD_NOT_FOUND":
+          return createErrorResponse("HOUSEHOLD_NOT_FOUND", "No household found for the authenticated user", 404);
+
+        default:
+          console.error(`Failed to materialize recurring transactions for user ${user.id}:`, serviceError);
+          return createErrorResponse(
+            "RECURRING_TRANSACTIONS_MATERIALIZE_FAILED",
+            "Failed to materialize recurring transactions",
+            500
+          );
+      }
+    }
+  } catch (error) {
+    console.error("Unexpected error in POST /api/recurring-transactions/materialize:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "An unexpected error occurred", 500);
+  }
+};
@@ -0,0 +1,135 @@
+import type { APIRoute } from "astro";
+import { z } from "zod";
+import type { AnnualReportDto, ApiErrorDto } from "../../../../types";
+import { createReportsService } from "../../../../lib/services/reports.service";
+
+export const prerender = false;
+
+// Validation schema for year parameter
+const yearSchema = z.coerce
+  .number({ invalid_type_error: "Year must be a number" })
+  .int("Year must be an integer")
+  .min(2000, "Year must be between 2000 and 2100")
+  .max(2100, "Year must be between 2000 and 2100");
+
+/**
+ * Creates a successful response for annual report.
+ *
+ * @param data - Annual report data
+ * @returns Response with annual report and success headers
+ */
+function createSuccessResponse(data: AnnualReportDto): Response {
+  return new Response(JSON.stringify(data), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "X-Result-Code": "ANNUAL_REPORT",
+    },
+  });
+}
+
+/**
+ * Creates an error response with standardized format.
+ *
+ * @param code - Error code for the response
+ * @param message - Human-readable error message
+ * @param status - HTTP status code
+ * @returns Response with error details
+ */
+function createErrorResponse(code: string, message: string, status: number): Response {
+  const errorResponse: ApiErrorDto = {
+    error: {
+      code,
+      message,
+    },
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
+}
+
+/**
+ * GET /api/reports/annual/{year}
+ *
+ * Retrieves the year-at-a-glance summary of the authenticated user's household: income, planned and spent totals,
+ * income per member, spending per top-level category, average monthly spending, the best and worst months
+ * and the savings rate. Spending on savings categories counts as saved.
+ *
+ * Path Parameters:
+ * - year (number, required): Calendar year between 2000 and 2100
+ *
+ * Responses:
+ * - 200: Annual report retrieved successfully with X-Result-Code: ANNUAL_REPORT
+ * - 400: Invalid path parameter (INVALID_YEAR)
+ * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 404: Household not found (HOUSEHOLD_NOT_FOUND)
+ * - 500: Internal server error (SUPABASE_CLIENT_UNAVAILABLE, REPORT_FETCH_FAILED, INTERNAL_SERVER_ERROR)
+ */
+export const GET: APIRoute = async ({ params, locals }) => {
+  try {
+    // Validate year parameter
+    const yearValidation = yearSchema.safeParse(params.year);
+    if (!yearValidation.success) {
+      const firstError = yearValidation.error.errors[0];
+      return createErrorResponse("INVALID_YEAR", firstError?.message || "Invalid year provided", 400);
+    }
+
+    const year = yearValidation.data;
+
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      console.error("Supabase client not available in locals");
+      return createErrorResponse("SUPABASE_CLIENT_UNAVAILABLE", "Database connection not available", 500);
+    }
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError) {
+      console.error("Authentication error:", authError);
+      return createErrorResponse("UNAUTHENTICATED", "Authentication failed", 401);
+    }
+
+    if (!user) {
+      return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
+    }
+
+    // Create reports service and build the annual report
+    const reportsService = createReportsService(supabase);
+
+    try {
+      const report = await reportsService.getAnnualReport(user.id, year);
+
+      console.log(`Annual report retrieved for user ${user.id}: ${year}, budgets: ${report.budgetCount}`);
+      return createSuccessResponse(report);
+    } catch (serviceError) {
+      const errorMessage = serviceError instanceof Error ? serviceError.message : "Unknown error";
+
+      // Map service errors to appropriate HTTP responses
+      switch (errorMessage) {
+        case "HOUSEHOLD_NOT_FOUND":
+          console.log(`Household not found for user ${user.id}`);
+          return createErrorResponse("HOUSEHOLD_NOT_FOUND", "Household not found", 404);
+
+        case "REPORT_FETCH_FAILED":
+          console.error(`Annual report failed for user ${user.id}:`, serviceError);
+          return createErrorResponse("REPORT_FETCH_FAILED", "Failed to build annual report", 500);
+
+        default:
+          console.error(`Unexpected error during annual report for user ${user.id}:`, serviceError);
+          return createErrorResponse("INTERNAL_SERVER_ERROR", "An internal server error occurred", 500);
+      }
+    }
+  } catch (error) {
+    console.error("Unexpected error in annual report endpoint:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "An internal server error occurred", 500);
+  }
+};
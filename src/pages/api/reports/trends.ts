@@ -0,0 +1,135 @@
+import type { APIRoute } from "astro";
+import type { TrendsReportDto, ApiErrorDto } from "../../../types";
+import { createReportsService } from "../../../lib/services/reports.service";
+import { parseGetTrendsQuery } from "../../../lib/validation/reports";
+
+export const prerender = false;
+
+/**
+ * Creates a successful response for trends report.
+ *
+ * @param data - Trends report data
+ * @returns Response with trends report and success headers
+ */
+function createSuccessResponse(data: TrendsReportDto): Response {
+  return new Response(JSON.stringify(data), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "X-Result-Code": "TRENDS_REPORT",
+    },
+  });
+}
+
+/**
+ * Creates an error response with standardized format.
+ *
+ * @param code - Error code for the response
+ * @param message - Human-readable error message
+ * @param status - HTTP status code
+ * @returns Response with error details
+ */
+function createErrorResponse(code: string, message: string, status: number): Response {
+  const errorResponse: ApiErrorDto = {
+    error: {
+      code,
+      message,
+    },
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+    },
+  });
+}
+
+/**
+ * GET /api/reports/trends
+ *
+ * Retrieves monthly trends of the authenticated user's household: income, planned, spent and free funds
+ * of every month, plus monthly spending series per top-level category or per paying household member.
+ *
+ * Query Parameters:
+ * - from: string (optional) - First month in YYYY-MM format (default: 11 months before "to")
+ * - to: string (optional) - Last month in YYYY-MM format (default: current month)
+ * - groupBy: "category" | "member" (default: "category") - Grouping of the spending series
+ *
+ * The range cannot span more than 24 months.
+ *
+ * Responses:
+ * - 200: Trends report retrieved successfully with X-Result-Code: TRENDS_REPORT
+ * - 400: Invalid query parameters (INVALID_QUERY_PARAMS)
+ * - 401: User not authenticated (UNAUTHENTICATED)
+ * - 404: Household not found (HOUSEHOLD_NOT_FOUND)
+ * - 500: Internal server error (SUPABASE_CLIENT_UNAVAILABLE, REPORT_FETCH_FAILED, INTERNAL_SERVER_ERROR)
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+  try {
+    // Get Supabase client from locals
+    const supabase = locals.supabase;
+    if (!supabase) {
+      console.error("Supabase client not available in locals");
+      return createErrorResponse("SUPABASE_CLIENT_UNAVAILABLE", "Database connection not available", 500);
+    }
+
+    // Get authenticated user
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError) {
+      console.error("Authentication error:", authError);
+      return createErrorResponse("UNAUTHENTICATED", "Authentication failed", 401);
+    }
+
+    if (!user) {
+      return createErrorResponse("UNAUTHENTICATED", "User not authenticated", 401);
+    }
+
+    // Validate query parameters
+    let validatedQuery;
+    try {
+      const queryParams = Object.fromEntries(url.searchParams.entries());
+      validatedQuery = parseGetTrendsQuery(queryParams);
+    } catch (validationError) {
+      const errorMessage = validationError instanceof Error ? validationError.message : "Invalid query parameters";
+      console.log(`Invalid query parameters for user ${user.id}: ${errorMessage}`);
+      return createErrorResponse("INVALID_QUERY_PARAMS", errorMessage.replace("INVALID_QUERY_PARAMS: ", ""), 400);
+    }
+
+    // Create reports service and build the trends
+    const reportsService = createReportsService(supabase);
+
+    try {
+      const report = await reportsService.getTrends(user.id, validatedQuery);
+
+      console.log(
+        `Trends report retrieved for user ${user.id}: ${report.from} - ${report.to}, groupBy: ${report.groupBy}, series: ${report.series.length}`
+      );
+      return createSuccessResponse(report);
+    } catch (serviceError) {
+      const errorMessage = serviceError instanceof Error ? serviceError.message : "Unknown error";
+
+      // Map service errors to appropriate HTTP responses
+      switch (errorMessage) {
+        case "HOUSEHOLD_NOT_FOUND":
+          console.log(`Household not found for user ${user.id}`);
+          return createErrorResponse("HOUSEHOLD_NOT_FOUND", "Household not found", 404);
+
+        case "REPORT_FETCH_FAILED":
+          console.error(`Trends report failed for user ${user.id}:`, serviceError);
+          return createErrorResponse("REPORT_FETCH_FAILED", "Failed to build trends report", 500);
+
+        default:
+          console.error(`Unexpected error during trends report for user ${user.id}:`, serviceError);
+          return createErrorResponse("INTERNAL_SERVER_ERROR", "An internal server error occurred", 500);
+      }
+    }
+  } catch (error) {
+    console.error("Unexpected error in trends report endpoint:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "An internal server error occurred", 500);
+  }
+};
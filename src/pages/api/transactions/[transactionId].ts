@@ -1,4 +1,5 @@
 import type { APIRoute } from "astro";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "../../../lib/permissions";
 import { createTransactionsService } from "../../../lib/services/transactions.service";
 import { parseTransactionIdParam, parseUpdateTransactionBody } from "../../../lib/validation/transactions";
 import type { ApiErrorDto, TransactionDto } from "../../../types";
@@ -148,13 +149,23 @@ export const GET: APIRoute = async ({ locals, params }) => {
  * - amount?: number (positive number with max 2 decimal places)
  * - transactionDate?: string (YYYY-MM-DD format)
  * - note?: string | null (max 500 characters, null to clear)
+ * - householdMemberId?: string | null (UUID of an active household member who paid, null to clear)
+ * - kind?: "expense" | "refund" (turning a refund into an expense unlinks it from the refunded expense)
+ * - refundedTransactionId?: string | null (UUID of the expense a refund returns money for, null to unlink)
+ * - splits?: { categoryId, amount }[] | null (at least 2 lines adding up to the amount, null to remove the split)
  *
  * At least one field must be provided for update.
+ * Refunds of an expense cannot return more than its amount, so an expense cannot be lowered below its refunds,
+ * and an expense with refunds cannot become a refund.
+ * Category of a split transaction is defined by its lines and cannot be changed directly,
+ * and its amount can only change together with lines that still add up to it.
+ * A transaction can keep an archived category, but cannot be moved to one.
  *
  * Responses:
  * - 200: Transaction updated successfully
  * - 400: Invalid request body or transaction ID format
  * - 401: User not authenticated
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
  * - 404: Transaction not found or doesn't belong to user's household
  * - 500: Internal server error
  */
@@ -178,6 +189,11 @@ export const PATCH: APIRoute = async ({ locals, params, request }) => {
       return createErrorResponse("UNAUTHENTICATED", "Authentication required", 401);
     }
 
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "budgets:edit")) {
+      return createPermissionDeniedResponse("budgets:edit");
+    }
+
     // Validate transaction ID parameter
     let transactionId: string;
     try {
@@ -223,6 +239,40 @@ export const PATCH: APIRoute = async ({ locals, params, request }) => {
           return createErrorResponse("TRANSACTION_NOT_FOUND", "Transaction not found or access denied", 404);
         case "INVALID_CATEGORY_ID":
           return createErrorResponse("INVALID_CATEGORY_ID", "Category not found or access denied", 400);
+        case "CATEGORY_ARCHIVED":
+          return createErrorResponse("CATEGORY_ARCHIVED", "Archived categories cannot be assigned", 400);
+        case "INVALID_MEMBER":
+          return createErrorResponse("INVALID_MEMBER", "Household member not found or inactive", 400);
+        case "INVALID_SPLITS":
+          return createErrorResponse(
+            "INVALID_SPLITS",
+            "Category of a split transaction is defined by its splits - update splits instead",
+            400
+          );
+        case "SPLIT_TOTAL_MISMATCH":
+          return createErrorResponse(
+            "SPLIT_TOTAL_MISMATCH",
+            "Split amounts must add up to the transaction amount",
+            400
+          );
+        case "INVALID_REFUNDED_TRANSACTION":
+          return createErrorResponse(
+            "INVALID_REFUNDED_TRANSACTION",
+            "Refunded transaction must be another expense of your household",
+            400
+          );
+        case "REFUND_EXCEEDS_EXPENSE":
+          return createErrorResponse(
+            "REFUND_EXCEEDS_EXPENSE",
+            "Refunds cannot return more than the amount of the refunded expense",
+            400
+          );
+        case "TRANSACTION_HAS_REFUNDS":
+          return createErrorResponse(
+            "TRANSACTION_HAS_REFUNDS",
+            "An expense with linked refunds cannot be turned into a refund",
+            400
+          );
         case "TRANSACTION_UPDATE_FAILED":
           return createErrorResponse("TRANSACTION_UPDATE_FAILED", "Failed to update transaction", 500);
         default:
@@ -248,6 +298,7 @@ export const PATCH: APIRoute = async ({ locals, params, request }) => {
  * - 204: Transaction deleted successfully
  * - 400: Invalid transaction ID format
  * - 401: User not authenticated
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
  * - 404: Transaction not found or doesn't belong to user's household
  * - 500: Internal server error
  */
@@ -271,6 +322,11 @@ export const DELETE: APIRoute = async ({ locals, params }) => {
       return createErrorResponse("UNAUTHENTICATED", "Authentication required", 401);
     }
 
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "budgets:edit")) {
+      return createPermissionDeniedResponse("budgets:edit");
+    }
+
     // Validate transaction ID parameter
     let transactionId: string;
     try {
@@ -0,0 +1,162 @@
+import type { APIRoute } from "astro";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "../../../../lib/permissions";
+import { createTransactionsService } from "../../../../lib/services/transactions.service";
+import { parseMergeTransactionsBody, parseTransactionIdParam } from "../../../../lib/validation/transactions";
+import type { ApiErrorDto, TransactionDto } from "../../../../types";
+
+export const prerender = false;
+
+/**
+ * Creates a standardized API error response.
+ */
+function createErrorResponse(code: string, message: string, status: number): Response {
+  const errorResponse: ApiErrorDto = {
+    error: {
+      code,
+      message,
+    },
+  };
+
+  return new Response(JSON.stringify(errorResponse), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "X-Result-Code": code,
+    },
+  });
+}
+
+/**
+ * Creates a successful API response for transactions merge.
+ */
+function createMergeSuccessResponse(data: TransactionDto): Response {
+  return new Response(JSON.stringify(data), {
+    status: 200,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "X-Result-Code": "TRANSACTIONS_MERGED",
+    },
+  });
+}
+
+/**
+ * POST /api/transactions/{transactionId}/merge
+ *
+ * Merges a suspected duplicate into a transaction of the authenticated user's household.
+ * The transaction is kept and takes over the note, paying member and bank reference of the duplicate
+ * where it has none of its own; refunds of the duplicate are linked to the kept transaction and the duplicate is deleted.
+ * An expense cannot be merged with a refund (TRANSACTION_KIND_MISMATCH), only a pair of suspected duplicates
+ * of the same budget can be merged (TRANSACTIONS_NOT_DUPLICATES), and the refunds of both transactions cannot
+ * return more than the amount of the kept expense (REFUND_EXCEEDS_EXPENSE).
+ * All changes are written in a single database transaction.
+ *
+ * Path Parameters:
+ * - transactionId: UUID of the transaction to keep
+ *
+ * Request Body:
+ * - duplicateTransactionId: UUID of the transaction to merge and delete
+ *
+ * Responses:
+ * - 200: Transactions merged successfully, returns the kept transaction
+ * - 400: Invalid transaction ID or request body, transactions are not suspected duplicates, or refunds exceed the amount
+ * - 401: User not authenticated
+ * - 403: Household role does not allow the operation (PERMISSION_DENIED)
+ * - 404: Either transaction not found or doesn't belong to user's household
+ * - 500: Internal server error
+ */
+export const POST: APIRoute = async ({ locals, params, request }) => {
+  try {
+    // Check if Supabase client is available
+    if (!locals.supabase) {
+      console.error("Supabase client not available in locals");
+      return createErrorResponse("INTERNAL_SERVER_ERROR", "Service temporarily unavailable", 500);
+    }
+
+    // Authenticate user
+    const { data: authData, error: authError } = await locals.supabase.auth.getUser();
+
+    if (authError) {
+      console.error("Authentication error:", authError);
+      return createErrorResponse("UNAUTHENTICATED", "Authentication required", 401);
+    }
+
+    if (!authData.user) {
+      return createErrorResponse("UNAUTHENTICATED", "Authentication required", 401);
+    }
+
+    // Check the household role of the user
+    if (!hasHouseholdPermission(locals.user?.role, "budgets:edit")) {
+      return createPermissionDeniedResponse("budgets:edit");
+    }
+
+    // Validate transaction ID parameter
+    let transactionId: string;
+    try {
+      transactionId = parseTransactionIdParam(params as { transactionId: string });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Invalid transaction ID";
+      const [code, message] = errorMessage.includes(":")
+        ? errorMessage.split(": ", 2)
+        : ["INVALID_TRANSACTION_ID", errorMessage];
+      return createErrorResponse(code, message, 400);
+    }
+
+    // Parse and validate request body
+    let mergeCommand;
+    try {
+      const body = await request.json();
+      mergeCommand = parseMergeTransactionsBody(body);
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        return createErrorResponse("INVALID_BODY", "Invalid JSON in request body", 400);
+      }
+
+      const errorMessage = error instanceof Error ? error.message : "Invalid request body";
+      const [code, message] = errorMessage.includes(":") ? errorMessage.split(": ", 2) : ["INVALID_BODY", errorMessage];
+      return createErrorResponse(code, message, 400);
+    }
+
+    // Create service and merge transactions
+    const transactionsService = createTransactionsService(locals.supabase);
+
+    try {
+      const mergedTransaction = await transactionsService.mergeTransactions(
+        authData.user.id,
+        transactionId,
+        mergeCommand
+      );
+      return createMergeSuccessResponse(mergedTransaction);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+
+      switch (errorMessage) {
+        case "INVALID_TRANSACTION_ID":
+          return createErrorResponse("INVALID_TRANSACTION_ID", "A transaction cannot be merged with itself", 400);
+        case "TRANSACTION_KIND_MISMATCH":
+          return createErrorResponse("TRANSACTION_KIND_MISMATCH", "An expense cannot be merged with a refund", 400);
+        case "TRANSACTIONS_NOT_DUPLICATES":
+          return createErrorResponse(
+            "TRANSACTIONS_NOT_DUPLICATES",
+            "Only suspected duplicates of the same budget can be merged",
+            400
+          );
+        case "REFUND_EXCEEDS_EXPENSE":
+          return createErrorResponse(
+            "REFUND_EXCEEDS_EXPENSE",
+            "Refunds of both transactions cannot return more than the amount of the kept expense",
+            400
+          );
+        case "TRANSACTION_NOT_FOUND":
+          return createErrorResponse("TRANSACTION_NOT_FOUND", "Transaction not found or access denied", 404);
+        case "TRANSACTION_MERGE_FAILED":
+          return createErrorResponse("TRANSACTION_MERGE_FAILED", "Failed to merge transactions", 500);
+        default:
+          console.error("Unexpected error in POST /api/transactions/[transactionId]/merge:", error);
+          return createErrorResponse("INTERNAL_SERVER_ERROR", "An unexpected error occurred", 500);
+      }
+    }
+  } catch (error) {
+    console.error("Unhandled error in POST /api/transactions/[transactionId]/merge:", error);
+    return createErrorResponse("INTERNAL_SERVER_ERROR", "An unexpected error occurred", 500);
+  }
+};
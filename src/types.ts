@@ -18,13 +18,20 @@ export interface PaginatedDataDto<T> {
   readonly meta: PaginationMetaDto;
 }
 
+/**
+ * Error code returned with status 403 when the household role of the user does not allow the operation.
+ */
+export type PermissionDeniedErrorCode = "PERMISSION_DENIED";
+
 /**
  * Standardised error payload returned by API routes.
  */
 export interface ApiErrorDto {
   readonly error: {
-    readonly code: string;
+    readonly code: PermissionDeniedErrorCode | (string & Record<never, never>);
     readonly message: string;
+    /** Role needed for the operation, set with PERMISSION_DENIED */
+    readonly requiredRole?: HouseholdRole;
   };
 }
 
@@ -34,12 +41,30 @@ type HouseholdUpdate = TablesUpdate<"households">;
 export interface HouseholdDto {
   readonly id: HouseholdRow["id"];
   readonly name: HouseholdRow["name"];
+  /**
+   * Default alert settings of categories, as percentages of the category limit.
+   * Categories can override them with their own settings.
+   */
+  readonly categoryWarningThreshold: HouseholdRow["category_warning_threshold"];
+  readonly categoryOverThreshold: HouseholdRow["category_over_threshold"];
+  /**
+   * Default pace alert: warns when more than paceAlertPercent is spent by day paceAlertDay; null when disabled.
+   */
+  readonly paceAlertDay: HouseholdRow["pace_alert_day"];
+  readonly paceAlertPercent: HouseholdRow["pace_alert_percent"];
   readonly createdAt: HouseholdRow["created_at"];
   readonly updatedAt: HouseholdRow["updated_at"];
 }
 
 export interface UpdateHouseholdCommand {
-  readonly name: NonNullable<HouseholdUpdate["name"]>;
+  readonly name?: NonNullable<HouseholdUpdate["name"]>;
+  readonly categoryWarningThreshold?: NonNullable<HouseholdUpdate["category_warning_threshold"]>;
+  readonly categoryOverThreshold?: NonNullable<HouseholdUpdate["category_over_threshold"]>;
+  /**
+   * The pace alert day and percentage are set together; null for both disables the alert.
+   */
+  readonly paceAlertDay?: HouseholdUpdate["pace_alert_day"];
+  readonly paceAlertPercent?: HouseholdUpdate["pace_alert_percent"];
 }
 
 type HouseholdMemberRow = Tables<"household_members">;
@@ -50,6 +75,10 @@ export interface HouseholdMemberDto {
   readonly id: HouseholdMemberRow["id"];
   readonly fullName: HouseholdMemberRow["full_name"];
   readonly isActive: HouseholdMemberRow["is_active"];
+  /** Account the member represents, null for members without an account */
+  readonly userId: HouseholdMemberRow["user_id"];
+  /** True for the member linked to the signed-in account */
+  readonly isCurrentUser: boolean;
   readonly createdAt: HouseholdMemberRow["created_at"];
   readonly updatedAt: HouseholdMemberRow["updated_at"];
 }
@@ -58,20 +87,58 @@ export type HouseholdMembersListResponseDto = PaginatedDataDto<HouseholdMemberDt
 
 export interface CreateHouseholdMemberCommand {
   readonly fullName: NonNullable<HouseholdMemberInsert["full_name"]>;
+  /** Links the member to an account with access to the household */
+  readonly userId?: HouseholdMemberInsert["user_id"];
 }
 
 export interface UpdateHouseholdMemberCommand {
   readonly fullName?: NonNullable<HouseholdMemberUpdate["full_name"]>;
   readonly isActive?: HouseholdMemberUpdate["is_active"];
+  /** Links the member to an account with access to the household, null removes the link */
+  readonly userId?: HouseholdMemberUpdate["user_id"];
 }
 
 type CategoryRow = Tables<"categories">;
 type CategoryInsert = TablesInsert<"categories">;
 type CategoryUpdate = TablesUpdate<"categories">;
 
+/**
+ * Cost group of a category: fixed costs, variable costs or savings.
+ */
+export type CategoryGroup = "fixed" | "variable" | "savings";
+
 export interface CategoryDto {
   readonly id: CategoryRow["id"];
   readonly name: CategoryRow["name"];
+  /**
+   * Parent category, null for top-level categories. Categories are nested at most two levels deep.
+   */
+  readonly parentId: CategoryRow["parent_id"];
+  /**
+   * Archived categories are hidden when adding expenses and planning budgets but keep their history.
+   */
+  readonly isArchived: CategoryRow["is_archived"];
+  /**
+   * Color as a #rrggbb hex string, null for the neutral color.
+   */
+  readonly color: CategoryRow["color"];
+  /**
+   * Icon key, null for the generic category icon.
+   */
+  readonly icon: CategoryRow["icon"];
+  /**
+   * User-defined position; categories with the same position are ordered by name.
+   */
+  readonly sortOrder: CategoryRow["sort_order"];
+  readonly group: CategoryGroup;
+  /**
+   * Alert settings of the category; null uses the household default.
+   * The pace alert day and percentage are either both set or both null.
+   */
+  readonly warningThreshold: CategoryRow["warning_threshold"];
+  readonly overThreshold: CategoryRow["over_threshold"];
+  readonly paceAlertDay: CategoryRow["pace_alert_day"];
+  readonly paceAlertPercent: CategoryRow["pace_alert_percent"];
   readonly createdAt: CategoryRow["created_at"];
   readonly updatedAt: CategoryRow["updated_at"];
 }
@@ -80,10 +147,46 @@ export type CategoriesListResponseDto = PaginatedDataDto<CategoryDto>;
 
 export interface CreateCategoryCommand {
   readonly name: NonNullable<CategoryInsert["name"]>;
+  readonly parentId?: CategoryInsert["parent_id"];
+  readonly color?: CategoryInsert["color"];
+  readonly icon?: CategoryInsert["icon"];
+  readonly group?: CategoryGroup;
+  readonly warningThreshold?: CategoryInsert["warning_threshold"];
+  readonly overThreshold?: CategoryInsert["over_threshold"];
+  readonly paceAlertDay?: CategoryInsert["pace_alert_day"];
+  readonly paceAlertPercent?: CategoryInsert["pace_alert_percent"];
 }
 
 export interface UpdateCategoryCommand {
-  readonly name: NonNullable<CategoryUpdate["name"]>;
+  readonly name?: NonNullable<CategoryUpdate["name"]>;
+  /**
+   * New parent category; null moves the category to the top level.
+   */
+  readonly parentId?: CategoryUpdate["parent_id"];
+  /**
+   * Archives or restores the category; archiving a top-level category archives its subcategories too.
+   */
+  readonly isArchived?: CategoryUpdate["is_archived"];
+  /**
+   * New color or icon; null resets it to the default.
+   */
+  readonly color?: CategoryUpdate["color"];
+  readonly icon?: CategoryUpdate["icon"];
+  readonly group?: CategoryGroup;
+  /**
+   * New alert settings; null falls back to the household default.
+   */
+  readonly warningThreshold?: CategoryUpdate["warning_threshold"];
+  readonly overThreshold?: CategoryUpdate["over_threshold"];
+  readonly paceAlertDay?: CategoryUpdate["pace_alert_day"];
+  readonly paceAlertPercent?: CategoryUpdate["pace_alert_percent"];
+}
+
+/**
+ * New order of categories; every listed category gets its position in the list.
+ */
+export interface ReorderCategoriesCommand {
+  readonly categoryIds: readonly CategoryRow["id"][];
 }
 
 export interface DeleteCategoryCommand {
@@ -93,6 +196,31 @@ export interface DeleteCategoryCommand {
   readonly force?: boolean;
 }
 
+/**
+ * Numbers of entries that would be removed together with a category, or moved when it is merged.
+ */
+export interface CategoryDependenciesDto {
+  readonly plannedExpenses: number;
+  /** Split transactions count once when any of their lines uses the category */
+  readonly transactions: number;
+  readonly subcategories: number;
+}
+
+export interface MergeCategoryCommand {
+  /**
+   * Category receiving the transactions and planned expenses of the merged category.
+   */
+  readonly targetCategoryId: CategoryRow["id"];
+}
+
+export interface CategoryMergedDto {
+  readonly targetCategory: CategoryDto;
+  readonly movedTransactions: number;
+  readonly movedPlannedExpenses: number;
+  /** Planned expenses added to a limit the target category already had in the same budget */
+  readonly combinedPlannedExpenses: number;
+}
+
 type BudgetRow = Tables<"budgets">;
 type BudgetInsert = TablesInsert<"budgets">;
 type BudgetUpdate = TablesUpdate<"budgets">;
@@ -136,10 +264,13 @@ type BudgetPlannedExpenseRow = Tables<"planned_expenses">;
 type BudgetPlannedExpenseInsert = TablesInsert<"planned_expenses">;
 type BudgetPlannedExpenseUpdate = TablesUpdate<"planned_expenses">;
 
+export type PlannedExpenseRolloverMode = "none" | "surplus" | "surplus_and_deficit";
+
 export interface BudgetPlannedExpenseDto {
   readonly id: BudgetPlannedExpenseRow["id"];
   readonly categoryId: BudgetPlannedExpenseRow["category_id"];
   readonly limitAmount: BudgetPlannedExpenseRow["limit_amount"];
+  readonly rolloverMode: PlannedExpenseRolloverMode;
   readonly createdAt: BudgetPlannedExpenseRow["created_at"];
   readonly updatedAt: BudgetPlannedExpenseRow["updated_at"];
 }
@@ -147,24 +278,174 @@ export interface BudgetPlannedExpenseDto {
 export interface BudgetPlannedExpenseCommandItem {
   readonly categoryId: BudgetPlannedExpenseInsert["category_id"];
   readonly limitAmount: BudgetPlannedExpenseInsert["limit_amount"];
+  readonly rolloverMode?: PlannedExpenseRolloverMode;
 }
 
-export type BudgetCategorySummaryStatus = "ok" | "warning" | "over";
+/**
+ * Spending status of a category:
+ * - ok: spending is within the thresholds and keeps pace with the month
+ * - ahead_of_pace: variable costs are spent faster than the month is passing
+ * - warning: spending reached the warning threshold or the pace alert fired
+ * - over: spending reached the overspending threshold
+ */
+export type BudgetCategorySummaryStatus = "ok" | "ahead_of_pace" | "warning" | "over";
 
 export interface BudgetCategorySummaryDto {
   readonly categoryId: BudgetPlannedExpenseDto["categoryId"];
   readonly name: CategoryDto["name"];
+  readonly parentId: CategoryDto["parentId"];
+  readonly color: CategoryDto["color"];
+  readonly icon: CategoryDto["icon"];
+  readonly sortOrder: CategoryDto["sortOrder"];
+  readonly group: CategoryDto["group"];
+  /**
+   * Spending of the category including its subcategories.
+   */
   readonly spent: number;
+  /**
+   * False for parent categories listed only because their subcategories are planned;
+   * their limits are then the sums of the subcategory limits.
+   */
+  readonly hasOwnLimit: boolean;
   readonly limitAmount: BudgetPlannedExpenseDto["limitAmount"];
+  readonly rolloverMode: PlannedExpenseRolloverMode;
+  readonly carriedIn: number;
+  readonly effectiveLimit: number;
+  readonly carriedOut: number;
   readonly progress: number;
+  /**
+   * Share of the budget month that has passed (0-100), the progress a category keeping pace would have.
+   */
+  readonly expectedProgress: number;
   readonly status: BudgetCategorySummaryStatus;
 }
 
+export interface BudgetMemberSpendingDto {
+  readonly householdMemberId: HouseholdMemberRow["id"];
+  readonly fullName: HouseholdMemberRow["full_name"];
+  readonly spent: number;
+}
+
 export type BudgetSummaryDto = BudgetSummaryTotalsDto & {
   readonly progress: number;
   readonly perCategory?: readonly BudgetCategorySummaryDto[];
+  readonly perMember?: readonly BudgetMemberSpendingDto[];
+  readonly unassignedSpent?: number;
 };
 
+export type SettlementSplitRule = "equal" | "income" | "custom";
+
+export interface BudgetSettlementMemberDto {
+  readonly householdMemberId: HouseholdMemberRow["id"];
+  readonly fullName: HouseholdMemberRow["full_name"];
+  readonly income: number;
+  readonly paid: number;
+  readonly share: number;
+  readonly owed: number;
+  readonly balance: number;
+}
+
+export interface SettlementTransferDto {
+  readonly fromMemberId: HouseholdMemberRow["id"];
+  readonly fromName: HouseholdMemberRow["full_name"];
+  readonly toMemberId: HouseholdMemberRow["id"];
+  readonly toName: HouseholdMemberRow["full_name"];
+  readonly amount: number;
+}
+
+export interface BudgetSettlementDto {
+  readonly budgetId: BudgetRow["id"];
+  readonly month: BudgetRow["month"];
+  readonly rule: SettlementSplitRule;
+  readonly totalPaid: number;
+  readonly unassignedSpent: number;
+  readonly members: readonly BudgetSettlementMemberDto[];
+  readonly transfers: readonly SettlementTransferDto[];
+}
+
+export type TrendsGroupBy = "category" | "member";
+
+/**
+ * Totals of one month of a trends report; months without a budget have zero totals and no budget ID.
+ */
+export interface TrendsMonthDto {
+  readonly month: BudgetRow["month"];
+  readonly budgetId: BudgetRow["id"] | null;
+  readonly totalIncome: number;
+  readonly totalPlanned: number;
+  readonly totalSpent: number;
+  readonly freeFunds: number;
+}
+
+/**
+ * Monthly spending of one category or member, aligned with the months of the report.
+ * Categories are reported at the top level, including their subcategories.
+ */
+export interface TrendsSeriesDto {
+  /**
+   * Category or household member ID, null for spending without a paying member.
+   */
+  readonly id: string | null;
+  readonly name: string | null;
+  readonly color: CategoryDto["color"];
+  readonly totalSpent: number;
+  readonly monthlySpent: readonly number[];
+}
+
+export interface TrendsReportDto {
+  readonly from: BudgetRow["month"];
+  readonly to: BudgetRow["month"];
+  readonly groupBy: TrendsGroupBy;
+  readonly months: readonly TrendsMonthDto[];
+  readonly series: readonly TrendsSeriesDto[];
+}
+
+export interface AnnualReportMemberIncomeDto {
+  readonly householdMemberId: HouseholdMemberRow["id"];
+  readonly fullName: HouseholdMemberRow["full_name"];
+  readonly totalIncome: number;
+}
+
+/**
+ * Spending of a top-level category over a year, including its subcategories.
+ */
+export interface AnnualReportCategoryDto {
+  readonly categoryId: CategoryRow["id"];
+  readonly name: CategoryRow["name"] | null;
+  readonly color: CategoryDto["color"];
+  readonly group: CategoryGroup;
+  readonly totalSpent: number;
+  readonly averageMonthlySpent: number;
+}
+
+/**
+ * Summary of the budgets of a calendar year. Averages are taken over the months that have a budget.
+ */
+export interface AnnualReportDto {
+  readonly year: number;
+  readonly budgetCount: number;
+  readonly totalIncome: number;
+  readonly totalPlanned: number;
+  readonly totalSpent: number;
+  readonly averageMonthlySpent: number;
+  /**
+   * Income that was not spent; spending on savings categories counts as saved.
+   */
+  readonly savedAmount: number;
+  /**
+   * Saved amount as a percentage of the income, null without income.
+   */
+  readonly savingsRate: number | null;
+  /**
+   * Months with a budget and the highest and lowest income left after spending.
+   */
+  readonly bestMonth: TrendsMonthDto | null;
+  readonly worstMonth: TrendsMonthDto | null;
+  readonly months: readonly TrendsMonthDto[];
+  readonly incomeByMember: readonly AnnualReportMemberIncomeDto[];
+  readonly spentByCategory: readonly AnnualReportCategoryDto[];
+}
+
 export interface BudgetCreatedDto {
   readonly id: BudgetRow["id"];
   readonly month: BudgetRow["month"];
@@ -189,6 +470,47 @@ export interface CreateBudgetCommand {
   readonly plannedExpenses?: readonly BudgetPlannedExpenseCommandItem[];
 }
 
+export interface CloneBudgetCommand {
+  readonly month: NonNullable<BudgetInsert["month"]>;
+  readonly note?: BudgetInsert["note"];
+}
+
+export type BudgetCloneSkipReason = "INACTIVE_MEMBER" | "CATEGORY_ARCHIVED";
+
+export interface BudgetCloneSkippedIncomeDto {
+  readonly householdMemberId: BudgetIncomeRow["household_member_id"];
+  readonly fullName: HouseholdMemberRow["full_name"];
+  readonly amount: BudgetIncomeRow["amount"];
+  readonly reason: BudgetCloneSkipReason;
+}
+
+export interface BudgetCloneSkippedPlannedExpenseDto {
+  readonly categoryId: BudgetPlannedExpenseRow["category_id"];
+  readonly categoryName: CategoryRow["name"];
+  readonly limitAmount: BudgetPlannedExpenseRow["limit_amount"];
+  readonly reason: BudgetCloneSkipReason;
+}
+
+export interface BudgetCloneSkippedDto {
+  readonly incomes: readonly BudgetCloneSkippedIncomeDto[];
+  readonly plannedExpenses: readonly BudgetCloneSkippedPlannedExpenseDto[];
+}
+
+export interface BudgetClonePreviewDto {
+  readonly sourceBudgetId: BudgetRow["id"];
+  readonly sourceMonth: BudgetRow["month"];
+  readonly incomes: readonly BudgetIncomeCommandItem[];
+  readonly plannedExpenses: readonly BudgetPlannedExpenseCommandItem[];
+  readonly skipped: BudgetCloneSkippedDto;
+}
+
+export type BudgetClonedDto = BudgetCreatedDto & {
+  readonly sourceBudgetId: BudgetRow["id"];
+  readonly copiedIncomes: number;
+  readonly copiedPlannedExpenses: number;
+  readonly skipped: BudgetCloneSkippedDto;
+};
+
 export interface UpdateBudgetCommand {
   readonly note?: BudgetUpdate extends { note?: infer T } ? T : string;
 }
@@ -214,21 +536,44 @@ export interface UpsertPlannedExpensesCommand {
 }
 
 export interface UpdatePlannedExpenseCommand {
-  readonly limitAmount: NonNullable<BudgetPlannedExpenseUpdate["limit_amount"]>;
+  readonly limitAmount?: NonNullable<BudgetPlannedExpenseUpdate["limit_amount"]>;
+  readonly rolloverMode?: PlannedExpenseRolloverMode;
 }
 
 type TransactionRow = Tables<"transactions">;
 type TransactionInsert = TablesInsert<"transactions">;
 type TransactionUpdate = TablesUpdate<"transactions">;
+type TransactionSplitRow = Tables<"transaction_splits">;
+
+/** Expenses add to the spending of their category, refunds reduce it */
+export type TransactionKind = "expense" | "refund";
+
+export interface TransactionSplitDto {
+  readonly id: TransactionSplitRow["id"];
+  readonly categoryId: TransactionSplitRow["category_id"];
+  readonly amount: TransactionSplitRow["amount"];
+}
+
+export interface TransactionSplitCommandItem {
+  readonly categoryId: TransactionSplitRow["category_id"];
+  readonly amount: TransactionSplitRow["amount"];
+}
 
 export interface TransactionDto {
   readonly id: TransactionRow["id"];
   readonly householdId: TransactionRow["household_id"];
   readonly budgetId: TransactionRow["budget_id"];
   readonly categoryId: TransactionRow["category_id"];
+  readonly householdMemberId: TransactionRow["household_member_id"];
+  readonly kind: TransactionKind;
+  /** Always positive; the kind decides whether it adds to or reduces the spending */
   readonly amount: TransactionRow["amount"];
   readonly transactionDate: TransactionRow["transaction_date"];
   readonly note: TransactionRow["note"];
+  readonly externalId: TransactionRow["external_id"];
+  /** Expense the refund returns money for */
+  readonly refundedTransactionId: TransactionRow["refunded_transaction_id"];
+  readonly splits: readonly TransactionSplitDto[];
   readonly createdAt: TransactionRow["created_at"];
   readonly updatedAt: TransactionRow["updated_at"];
 }
@@ -236,10 +581,18 @@ export interface TransactionDto {
 export type TransactionsListResponseDto = PaginatedDataDto<TransactionDto>;
 
 export interface CreateTransactionCommand {
-  readonly categoryId: TransactionInsert["category_id"];
+  readonly categoryId?: TransactionInsert["category_id"];
   readonly amount: TransactionInsert["amount"];
   readonly transactionDate: TransactionInsert["transaction_date"];
   readonly note?: TransactionInsert["note"] | undefined;
+  readonly householdMemberId?: TransactionInsert["household_member_id"];
+  readonly externalId?: TransactionInsert["external_id"];
+  /** Defaults to expense */
+  readonly kind?: TransactionKind;
+  readonly refundedTransactionId?: TransactionInsert["refunded_transaction_id"];
+  readonly splits?: readonly TransactionSplitCommandItem[];
+  /** Saves the transaction even when it looks like a duplicate of an existing one */
+  readonly allowDuplicate?: boolean;
 }
 
 export interface UpdateTransactionCommand {
@@ -247,6 +600,381 @@ export interface UpdateTransactionCommand {
   readonly amount?: TransactionUpdate["amount"];
   readonly transactionDate?: TransactionUpdate["transaction_date"];
   readonly note?: TransactionUpdate["note"];
+  readonly householdMemberId?: TransactionUpdate["household_member_id"];
+  readonly kind?: TransactionKind;
+  readonly refundedTransactionId?: TransactionUpdate["refunded_transaction_id"];
+  readonly splits?: readonly TransactionSplitCommandItem[] | null;
+}
+
+/** Two transactions that look like the same expense recorded twice; the earlier one comes first */
+export interface TransactionDuplicatePairDto {
+  readonly transaction: TransactionDto;
+  readonly duplicate: TransactionDto;
+}
+
+export interface TransactionDuplicatesListResponseDto {
+  readonly data: readonly TransactionDuplicatePairDto[];
+}
+
+export interface DismissTransactionDuplicateCommand {
+  readonly transactionId: TransactionRow["id"];
+  readonly duplicateTransactionId: TransactionRow["id"];
+}
+
+export interface MergeTransactionsCommand {
+  readonly duplicateTransactionId: TransactionRow["id"];
+}
+
+/** Column of the imported file, either a header name or a zero-based index */
+export type ImportColumnRef = string | number;
+
+export interface ImportTransactionsColumnMapping {
+  readonly date: ImportColumnRef;
+  readonly amount: ImportColumnRef;
+  readonly description: ImportColumnRef;
+  readonly category?: ImportColumnRef;
+}
+
+/** Which amounts in the file are expenses: only negative ones (bank exports) or all of them */
+export type ImportExpenseSign = "negative" | "any";
+
+/** Bank statement formats; only debit entries are imported as expenses */
+export type ImportStatementFormat = "mt940" | "ofx" | "camt053";
+
+export type ImportFileFormat = "csv" | ImportStatementFormat;
+
+interface ImportTransactionsOptions {
+  readonly defaultCategoryId?: TransactionInsert["category_id"];
+  readonly householdMemberId?: TransactionInsert["household_member_id"];
+  readonly dryRun?: boolean;
+  /** Imports rows that look like duplicates of existing transactions instead of skipping them */
+  readonly allowDuplicates?: boolean;
+}
+
+export interface ImportCsvTransactionsCommand extends ImportTransactionsOptions {
+  readonly format?: "csv";
+  readonly csv: string;
+  readonly mapping: ImportTransactionsColumnMapping;
+  readonly delimiter?: ";" | "," | "\t";
+  readonly hasHeader?: boolean;
+  readonly expenseSign?: ImportExpenseSign;
+}
+
+export interface ImportStatementTransactionsCommand extends ImportTransactionsOptions {
+  readonly format: ImportStatementFormat;
+  readonly content: string;
+}
+
+export type ImportTransactionsCommand = ImportCsvTransactionsCommand | ImportStatementTransactionsCommand;
+
+export type TransactionImportRowStatus = "valid" | "invalid" | "skipped";
+
+export interface TransactionImportRowErrorDto {
+  readonly field: string;
+  readonly code: string;
+  readonly message: string;
+}
+
+export interface TransactionImportRowDto {
+  readonly rowNumber: number;
+  readonly status: TransactionImportRowStatus;
+  readonly transaction: CreateTransactionCommand | null;
+  readonly errors: readonly TransactionImportRowErrorDto[];
+  readonly skipReason: string | null;
+}
+
+export interface TransactionsImportDto {
+  readonly dryRun: boolean;
+  readonly totalRows: number;
+  readonly validCount: number;
+  readonly invalidCount: number;
+  readonly skippedCount: number;
+  readonly importedCount: number;
+  readonly rows: readonly TransactionImportRowDto[];
+}
+
+export type ExportFormat = "csv" | "xlsx";
+
+/** Sheets of an export; a CSV file holds one of them */
+export type ExportSheetKey = "summary" | "incomes" | "plannedExpenses" | "transactions";
+
+/**
+ * Full backup of a household: settings, members, categories and budgets with their incomes, planned expenses
+ * and transactions. IDs only link the records of the document; new IDs are assigned when it is restored.
+ */
+export interface HouseholdBackupDto {
+  readonly version: 1;
+  readonly exportedAt: string;
+  readonly household: HouseholdBackupSettingsDto;
+  readonly members: readonly HouseholdBackupMemberDto[];
+  readonly categories: readonly HouseholdBackupCategoryDto[];
+  readonly budgets: readonly HouseholdBackupBudgetDto[];
+  readonly incomes: readonly HouseholdBackupIncomeDto[];
+  readonly plannedExpenses: readonly HouseholdBackupPlannedExpenseDto[];
+  readonly transactions: readonly HouseholdBackupTransactionDto[];
+  readonly transactionSplits: readonly HouseholdBackupTransactionSplitDto[];
+}
+
+export interface HouseholdBackupSettingsDto {
+  readonly name: HouseholdRow["name"];
+  readonly categoryWarningThreshold: HouseholdRow["category_warning_threshold"];
+  readonly categoryOverThreshold: HouseholdRow["category_over_threshold"];
+  readonly paceAlertDay: HouseholdRow["pace_alert_day"];
+  readonly paceAlertPercent: HouseholdRow["pace_alert_percent"];
+}
+
+export interface HouseholdBackupMemberDto {
+  readonly id: HouseholdMemberRow["id"];
+  readonly fullName: HouseholdMemberRow["full_name"];
+  readonly isActive: HouseholdMemberRow["is_active"];
+}
+
+export interface HouseholdBackupCategoryDto {
+  readonly id: CategoryRow["id"];
+  readonly name: CategoryRow["name"];
+  readonly parentId: CategoryRow["parent_id"];
+  readonly isArchived: CategoryRow["is_archived"];
+  readonly color: CategoryRow["color"];
+  readonly icon: CategoryRow["icon"];
+  readonly sortOrder: CategoryRow["sort_order"];
+  readonly group: CategoryGroup;
+  readonly warningThreshold: CategoryRow["warning_threshold"];
+  readonly overThreshold: CategoryRow["over_threshold"];
+  readonly paceAlertDay: CategoryRow["pace_alert_day"];
+  readonly paceAlertPercent: CategoryRow["pace_alert_percent"];
+}
+
+export interface HouseholdBackupBudgetDto {
+  readonly id: BudgetRow["id"];
+  readonly month: BudgetRow["month"];
+  readonly note: BudgetRow["note"];
+}
+
+export interface HouseholdBackupIncomeDto {
+  readonly id: BudgetIncomeRow["id"];
+  readonly budgetId: BudgetIncomeRow["budget_id"];
+  readonly householdMemberId: BudgetIncomeRow["household_member_id"];
+  readonly amount: BudgetIncomeRow["amount"];
+}
+
+export interface HouseholdBackupPlannedExpenseDto {
+  readonly id: BudgetPlannedExpenseRow["id"];
+  readonly budgetId: BudgetPlannedExpenseRow["budget_id"];
+  readonly categoryId: BudgetPlannedExpenseRow["category_id"];
+  readonly limitAmount: BudgetPlannedExpenseRow["limit_amount"];
+  readonly rolloverMode: PlannedExpenseRolloverMode;
+}
+
+export interface HouseholdBackupTransactionDto {
+  readonly id: TransactionRow["id"];
+  readonly budgetId: TransactionRow["budget_id"];
+  readonly categoryId: TransactionRow["category_id"];
+  readonly householdMemberId: TransactionRow["household_member_id"];
+  readonly kind: TransactionKind;
+  readonly amount: TransactionRow["amount"];
+  readonly transactionDate: TransactionRow["transaction_date"];
+  readonly note: TransactionRow["note"];
+  readonly externalId: TransactionRow["external_id"];
+  readonly refundedTransactionId: TransactionRow["refunded_transaction_id"];
+}
+
+export interface HouseholdBackupTransactionSplitDto {
+  readonly id: TransactionSplitRow["id"];
+  readonly transactionId: TransactionSplitRow["transaction_id"];
+  readonly categoryId: TransactionSplitRow["category_id"];
+  readonly amount: TransactionSplitRow["amount"];
+}
+
+/**
+ * Number of records restored from a household backup.
+ */
+export interface HouseholdImportedDto {
+  readonly members: number;
+  readonly categories: number;
+  readonly budgets: number;
+  readonly incomes: number;
+  readonly plannedExpenses: number;
+  readonly transactions: number;
+}
+
+type HouseholdUserRow = Tables<"household_users">;
+type HouseholdInvitationRow = Tables<"household_invitations">;
+
+/**
+ * Role of an account in its household, from the most to the least privileged:
+ * the owner manages the household and its access, an editor manages budgets and settings,
+ * a viewer reads everything and adds expenses.
+ */
+export type HouseholdRole = "owner" | "editor" | "viewer";
+
+/**
+ * Roles that can be granted to other accounts; every household has exactly one owner.
+ */
+export type AssignableHouseholdRole = Exclude<HouseholdRole, "owner">;
+
+export interface HouseholdUserDto {
+  readonly userId: HouseholdUserRow["user_id"];
+  readonly email: string;
+  readonly role: HouseholdRole;
+  readonly joinedAt: HouseholdUserRow["created_at"];
+  readonly isCurrentUser: boolean;
+}
+
+export interface HouseholdUsersListResponseDto {
+  readonly data: readonly HouseholdUserDto[];
+}
+
+export interface UpdateHouseholdUserRoleCommand {
+  readonly role: AssignableHouseholdRole;
+}
+
+/**
+ * Status of a household invitation; only pending invitations can be accepted or revoked.
+ */
+export type HouseholdInvitationStatus = "pending" | "accepted" | "revoked" | "expired";
+
+export interface HouseholdInvitationDto {
+  readonly id: HouseholdInvitationRow["id"];
+  readonly email: HouseholdInvitationRow["email"];
+  readonly role: AssignableHouseholdRole;
+  readonly status: HouseholdInvitationStatus;
+  readonly expiresAt: HouseholdInvitationRow["expires_at"];
+  readonly acceptedAt: HouseholdInvitationRow["accepted_at"];
+  readonly createdAt: HouseholdInvitationRow["created_at"];
+}
+
+export interface HouseholdInvitationsListResponseDto {
+  readonly data: readonly HouseholdInvitationDto[];
+}
+
+/**
+ * Invitation returned once after it is created, with the token needed to accept it.
+ */
+export interface HouseholdInvitationCreatedDto extends HouseholdInvitationDto {
+  readonly token: string;
+  readonly acceptUrl: string;
+}
+
+export interface CreateHouseholdInvitationCommand {
+  readonly email: HouseholdInvitationRow["email"];
+  /** Role granted on acceptance, editor by default */
+  readonly role?: AssignableHouseholdRole;
+}
+
+export interface AcceptHouseholdInvitationCommand {
+  readonly token: string;
+}
+
+export interface HouseholdInvitationAcceptedDto {
+  readonly householdId: HouseholdInvitationRow["household_id"];
+}
+
+type RecurringTransactionRow = Tables<"recurring_transactions">;
+type RecurringTransactionInsert = TablesInsert<"recurring_transactions">;
+type RecurringTransactionUpdate = TablesUpdate<"recurring_transactions">;
+
+export type RecurringTransactionFrequency = "monthly" | "weekly" | "custom";
+
+export interface RecurringTransactionDto {
+  readonly id: RecurringTransactionRow["id"];
+  readonly categoryId: RecurringTransactionRow["category_id"];
+  readonly amount: RecurringTransactionRow["amount"];
+  readonly note: RecurringTransactionRow["note"];
+  readonly frequency: RecurringTransactionFrequency;
+  readonly intervalDays: RecurringTransactionRow["interval_days"];
+  readonly startDate: RecurringTransactionRow["start_date"];
+  readonly endDate: RecurringTransactionRow["end_date"];
+  readonly nextRunDate: RecurringTransactionRow["next_run_date"];
+  readonly isActive: RecurringTransactionRow["is_active"];
+  readonly createdAt: RecurringTransactionRow["created_at"];
+  readonly updatedAt: RecurringTransactionRow["updated_at"];
+}
+
+export interface RecurringTransactionsListResponseDto {
+  readonly data: readonly RecurringTransactionDto[];
+}
+
+export interface CreateRecurringTransactionCommand {
+  readonly categoryId: RecurringTransactionInsert["category_id"];
+  readonly amount: RecurringTransactionInsert["amount"];
+  readonly note?: RecurringTransactionInsert["note"];
+  readonly frequency: RecurringTransactionFrequency;
+  readonly intervalDays?: RecurringTransactionInsert["interval_days"];
+  readonly startDate: RecurringTransactionInsert["start_date"];
+  readonly endDate?: RecurringTransactionInsert["end_date"];
+}
+
+export interface UpdateRecurringTransactionCommand {
+  readonly categoryId?: RecurringTransactionUpdate["category_id"];
+  readonly amount?: RecurringTransactionUpdate["amount"];
+  readonly note?: RecurringTransactionUpdate["note"];
+  readonly frequency?: RecurringTransactionFrequency;
+  readonly intervalDays?: RecurringTransactionUpdate["interval_days"];
+  readonly startDate?: RecurringTransactionUpdate["start_date"];
+  readonly endDate?: RecurringTransactionUpdate["end_date"];
+  readonly isActive?: RecurringTransactionUpdate["is_active"];
+}
+
+/**
+ * DTO describing the outcome of a recurring transactions materialization run.
+ */
+export interface RecurringTransactionsMaterializedDto {
+  readonly createdCount: number;
+  readonly transactions: readonly TransactionDto[];
+}
+
+type CategorizationRuleRow = Tables<"categorization_rules">;
+type CategorizationRuleInsert = TablesInsert<"categorization_rules">;
+type CategorizationRuleUpdate = TablesUpdate<"categorization_rules">;
+
+export interface CategorizationRuleDto {
+  readonly id: CategorizationRuleRow["id"];
+  readonly categoryId: CategorizationRuleRow["category_id"];
+  readonly pattern: CategorizationRuleRow["pattern"];
+  readonly priority: CategorizationRuleRow["priority"];
+  readonly minAmount: CategorizationRuleRow["min_amount"];
+  readonly maxAmount: CategorizationRuleRow["max_amount"];
+  readonly createdAt: CategorizationRuleRow["created_at"];
+  readonly updatedAt: CategorizationRuleRow["updated_at"];
+}
+
+export interface CategorizationRulesListResponseDto {
+  readonly data: readonly CategorizationRuleDto[];
+}
+
+export interface CreateCategorizationRuleCommand {
+  readonly categoryId: CategorizationRuleInsert["category_id"];
+  readonly pattern: CategorizationRuleInsert["pattern"];
+  readonly priority?: CategorizationRuleInsert["priority"];
+  readonly minAmount?: CategorizationRuleInsert["min_amount"];
+  readonly maxAmount?: CategorizationRuleInsert["max_amount"];
+}
+
+export interface UpdateCategorizationRuleCommand {
+  readonly categoryId?: CategorizationRuleUpdate["category_id"];
+  readonly pattern?: CategorizationRuleUpdate["pattern"];
+  readonly priority?: CategorizationRuleUpdate["priority"];
+  readonly minAmount?: CategorizationRuleUpdate["min_amount"];
+  readonly maxAmount?: CategorizationRuleUpdate["max_amount"];
+}
+
+/**
+ * Projection of the spending at the end of the budget month.
+ * Bounds form a confidence band around the projection; they collapse onto it once the month is over.
+ */
+export interface SpendingForecastDto {
+  readonly projectedSpent: number;
+  readonly lowerBound: number;
+  readonly upperBound: number;
+  /**
+   * Recurring payments still due in the month, included in the projection.
+   */
+  readonly upcomingRecurring: number;
+  readonly daysRemaining: number;
+}
+
+export interface DashboardCategorySummaryDto extends BudgetCategorySummaryDto {
+  readonly forecast: SpendingForecastDto;
 }
 
 export interface DashboardSummaryDto {
@@ -257,7 +985,8 @@ export interface DashboardSummaryDto {
   readonly totalSpent: BudgetSummaryDto["totalSpent"];
   readonly freeFunds: BudgetSummaryDto["freeFunds"];
   readonly progress: BudgetSummaryDto["progress"];
-  readonly categories: readonly BudgetCategorySummaryDto[];
+  readonly forecast: SpendingForecastDto;
+  readonly categories: readonly DashboardCategorySummaryDto[];
 }
 
 export interface BudgetSummaryResponseDto {
@@ -0,0 +1,107 @@
+-- Migration: Create recurring transactions
+-- Purpose: Store recurring expense rules (rent, subscriptions, bills) that are materialized into transactions
+-- Affected: recurring_transactions table (new), transactions table (new recurring_transaction_id column)
+-- Date: 2024-10-11 12:00:00 UTC
+
+-- Create recurring_transactions table
+-- Each row describes a schedule that produces real transactions when an occurrence becomes due
+-- Supported schedules: monthly (same day of month as start_date), weekly and custom interval in days
+create table recurring_transactions (
+  -- Primary key using UUID
+  id uuid primary key default gen_random_uuid(),
+
+  -- Foreign key to households table with cascade delete
+  household_id uuid not null references households(id) on delete cascade,
+
+  -- Category that materialized transactions are booked against
+  category_id uuid not null references categories(id) on delete cascade,
+
+  -- Amount of every materialized transaction
+  -- Must be positive value
+  amount decimal(10, 2) not null check (amount > 0),
+
+  -- Optional note copied to every materialized transaction (max 500 characters)
+  note text check (note is null or char_length(note) <= 500),
+
+  -- Schedule type
+  frequency text not null check (frequency in ('monthly', 'weekly', 'custom')),
+
+  -- Interval in days, required only for custom schedules
+  interval_days integer check (interval_days is null or interval_days between 1 and 366),
+
+  -- First occurrence of the schedule
+  start_date date not null,
+
+  -- Optional last day on which an occurrence may fall (inclusive)
+  end_date date,
+
+  -- Date of the next occurrence that has not been materialized yet
+  -- Acts as a cursor for the materialization step
+  next_run_date date not null,
+
+  -- Paused rules are kept but never materialized
+  is_active boolean not null default true,
+
+  -- Audit timestamps
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+
+  -- Custom schedules must define their interval, other schedules must not
+  check ((frequency = 'custom') = (interval_days is not null)),
+
+  -- End date cannot precede the start date
+  check (end_date is null or end_date >= start_date),
+
+  -- Composite foreign key constraint to ensure category belongs to the same household
+  foreign key (category_id, household_id) references categories(id, household_id) on delete cascade
+);
+
+-- Enable Row Level Security for recurring_transactions table
+alter table recurring_transactions enable row level security;
+
+-- Link materialized transactions back to the rule that produced them
+-- On rule deletion the transactions stay as regular entries
+alter table transactions
+add column recurring_transaction_id uuid references recurring_transactions(id) on delete set null;
+
+-- Prevent the same occurrence from being materialized twice (e.g. concurrent requests)
+create unique index idx_transactions_recurring_occurrence
+on transactions(recurring_transaction_id, transaction_date)
+where recurring_transaction_id is not null;
+
+-- Index on household_id + next_run_date for fast lookup of due rules
+create index idx_recurring_transactions_due
+on recurring_transactions(household_id, next_run_date)
+where is_active;
+
+-- RLS Policies for recurring_transactions table
+-- Users can select recurring transactions from their own household
+create policy select_recurring_transactions
+  on recurring_transactions
+  for select
+  using (household_id = get_current_household_id());
+
+-- Users can insert recurring transactions into their own household
+create policy insert_recurring_transactions
+  on recurring_transactions
+  for insert
+  with check (household_id = get_current_household_id());
+
+-- Users can update recurring transactions in their own household
+create policy update_recurring_transactions
+  on recurring_transactions
+  for update
+  using (household_id = get_current_household_id())
+  with check (household_id = get_current_household_id());
+
+-- Users can delete recurring transactions from their own household
+create policy delete_recurring_transactions
+  on recurring_transactions
+  for delete
+  using (household_id = get_current_household_id());
+
+-- Trigger for recurring_transactions table to automatically update updated_at timestamp
+create trigger trigger_recurring_transactions_updated_at
+  before update on recurring_transactions
+  for each row
+  execute function set_updated_at();
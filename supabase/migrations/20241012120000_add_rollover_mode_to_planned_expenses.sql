@@ -0,0 +1,17 @@
+-- Migration: Add rollover mode to planned expenses
+-- Purpose: Allow unspent (and optionally overspent) category limits to be carried into the next budget
+-- Affected: planned_expenses table (new rollover_mode column)
+-- Date: 2024-10-12 12:00:00 UTC
+
+-- Rollover mode decides what happens with the difference between the effective limit and the spending
+-- of a category at the end of the month:
+--   none                - nothing is carried over (previous behaviour)
+--   surplus             - unspent money increases next month's limit of the same category
+--   surplus_and_deficit - unspent money increases and overspending decreases next month's limit
+-- Carried amounts are calculated on read from the previous budget, nothing is stored
+alter table planned_expenses
+add column rollover_mode text not null default 'none'
+  check (rollover_mode in ('none', 'surplus', 'surplus_and_deficit'));
+
+-- Add comment for documentation
+comment on column planned_expenses.rollover_mode is 'How the leftover of this limit is carried into the next budget: none, surplus or surplus_and_deficit';
@@ -0,0 +1,80 @@
+-- Migration: Create transaction splits
+-- Purpose: Allow a single transaction (e.g. one supermarket receipt) to be divided across several categories
+-- Affected: transaction_splits table (new), transactions table (new composite unique constraint)
+-- Date: 2024-10-13 12:00:00 UTC
+
+-- Composite unique constraint to support foreign key references from transaction_splits
+alter table transactions
+add constraint transactions_id_household_id_key unique (id, household_id);
+
+-- Create transaction_splits table
+-- A split transaction keeps its total amount on the parent row and has at least two lines here,
+-- each booked against its own category. Line amounts must add up to the parent amount,
+-- which is enforced by the application layer. Transactions without lines are not split.
+create table transaction_splits (
+  -- Primary key using UUID
+  id uuid primary key default gen_random_uuid(),
+
+  -- Foreign key to households table with cascade delete
+  household_id uuid not null references households(id) on delete cascade,
+
+  -- Parent transaction, lines are removed together with it
+  -- Referenced only through the composite key below so that the relationship stays unambiguous for embedding
+  transaction_id uuid not null,
+
+  -- Category the line is booked against
+  category_id uuid not null references categories(id) on delete cascade,
+
+  -- Line amount with precision for currency
+  -- Must be positive value
+  amount decimal(10, 2) not null check (amount > 0),
+
+  -- Audit timestamps
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+
+  -- Composite foreign key constraints to ensure data integrity across households
+  foreign key (transaction_id, household_id) references transactions(id, household_id) on delete cascade,
+  foreign key (category_id, household_id) references categories(id, household_id) on delete cascade
+);
+
+-- Enable Row Level Security for transaction_splits table
+alter table transaction_splits enable row level security;
+
+-- Index on transaction_id for loading the lines of a transaction
+create index idx_transaction_splits_transaction on transaction_splits(transaction_id);
+
+-- Index on household_id + category_id for per-category aggregations and dependency checks
+create index idx_transaction_splits_category on transaction_splits(household_id, category_id);
+
+-- RLS Policies for transaction_splits table
+-- Users can select transaction splits from their own household
+create policy select_transaction_splits
+  on transaction_splits
+  for select
+  using (household_id = get_current_household_id());
+
+-- Users can insert transaction splits into their own household
+create policy insert_transaction_splits
+  on transaction_splits
+  for insert
+  with check (household_id = get_current_household_id());
+
+-- Users can update transaction splits in their own household
+create policy update_transaction_splits
+  on transaction_splits
+  for update
+  using (household_id = get_current_household_id())
+  with check (household_id = get_current_household_id());
+
+-- Users can delete transaction splits from their own household
+create policy delete_transaction_splits
+  on transaction_splits
+  for delete
+  using (household_id = get_current_household_id());
+
+-- Trigger for transaction_splits table to automatically update updated_at timestamp
+create trigger trigger_transaction_splits_updated_at
+  before update on transaction_splits
+  for each row
+  execute function set_updated_at();
@@ -0,0 +1,18 @@
+-- Migration: Add household member to transactions
+-- Purpose: Record which household member paid for an expense, so spending can be broken down per person
+-- Affected: transactions table (new household_member_id column)
+-- Date: 2024-10-14 12:00:00 UTC
+
+-- Optional reference to the member who paid
+-- No cascade delete, same as incomes: members are only soft-deleted (is_active = false)
+-- and their transactions keep the attribution for historical purposes
+alter table transactions
+add column household_member_id uuid references household_members(id);
+
+-- Index on household_id + household_member_id for per-member filtering and aggregations
+create index idx_transactions_household_member
+on transactions(household_id, household_member_id)
+where household_member_id is not null;
+
+-- Add comment for documentation
+comment on column transactions.household_member_id is 'Household member who paid for the expense, null when not attributed';
@@ -0,0 +1,18 @@
+-- Migration: Add external ID to transactions
+-- Purpose: Keep the bank reference of imported transactions, so the same statement entry is never imported twice
+-- Affected: transactions table (new external_id column)
+-- Date: 2024-10-15 12:00:00 UTC
+
+-- Optional reference assigned by the bank (e.g. MT940 bank reference, OFX FITID, camt.053 AcctSvcrRef)
+-- Null for transactions entered by hand
+alter table transactions
+add column external_id varchar(255);
+
+-- Unique index on household_id + external_id
+-- Guards against importing overlapping statements twice; transactions without a reference are not restricted
+create unique index idx_transactions_household_external_id
+on transactions(household_id, external_id)
+where external_id is not null;
+
+-- Add comment for documentation
+comment on column transactions.external_id is 'Bank reference of an imported transaction, null when entered by hand';
@@ -0,0 +1,56 @@
+-- Migration: Create transaction duplicate dismissals
+-- Purpose: Remember pairs of transactions that look like duplicates but were confirmed by the user as separate expenses
+-- Affected: transaction_duplicate_dismissals table (new)
+-- Date: 2024-10-16 12:00:00 UTC
+
+-- Create transaction_duplicate_dismissals table
+-- Suspected duplicates are detected on the fly (same category and amount, close dates, similar notes),
+-- so only the pairs dismissed by the user are stored. A pair is stored once, with the smaller id first,
+-- which is enforced by the check constraint below.
+create table transaction_duplicate_dismissals (
+  -- Primary key using UUID
+  id uuid primary key default gen_random_uuid(),
+
+  -- Foreign key to households table with cascade delete
+  household_id uuid not null references households(id) on delete cascade,
+
+  -- Transactions of the dismissed pair, the dismissal is removed together with either of them
+  transaction_id uuid not null,
+  duplicate_transaction_id uuid not null,
+
+  -- Audit timestamp
+  created_at timestamptz not null default now(),
+
+  -- Each pair can be dismissed only once and is stored in a single order
+  constraint transaction_duplicate_dismissals_pair_key unique (transaction_id, duplicate_transaction_id),
+  constraint transaction_duplicate_dismissals_pair_order check (transaction_id < duplicate_transaction_id),
+
+  -- Composite foreign key constraints to ensure data integrity across households
+  foreign key (transaction_id, household_id) references transactions(id, household_id) on delete cascade,
+  foreign key (duplicate_transaction_id, household_id) references transactions(id, household_id) on delete cascade
+);
+
+-- Enable Row Level Security for transaction_duplicate_dismissals table
+alter table transaction_duplicate_dismissals enable row level security;
+
+-- Index on household_id for loading the dismissed pairs of a household
+create index idx_transaction_duplicate_dismissals_household on transaction_duplicate_dismissals(household_id);
+
+-- RLS Policies for transaction_duplicate_dismissals table
+-- Users can select dismissed pairs from their own household
+create policy select_transaction_duplicate_dismissals
+  on transaction_duplicate_dismissals
+  for select
+  using (household_id = get_current_household_id());
+
+-- Users can insert dismissed pairs into their own household
+create policy insert_transaction_duplicate_dismissals
+  on transaction_duplicate_dismissals
+  for insert
+  with check (household_id = get_current_household_id());
+
+-- Users can delete dismissed pairs from their own household
+create policy delete_transaction_duplicate_dismissals
+  on transaction_duplicate_dismissals
+  for delete
+  using (household_id = get_current_household_id());
@@ -0,0 +1,78 @@
+-- Migration: Create categorization rules
+-- Purpose: Pick the category of new and imported transactions automatically from their notes
+-- Affected: categorization_rules table (new)
+-- Date: 2024-10-17 12:00:00 UTC
+
+-- Create categorization_rules table
+-- A rule assigns its category to transactions whose note contains the pattern
+-- (bank statement imports put the payee name in the note, so payees are matched the same way)
+-- When several rules match, the one with the highest priority wins
+create table categorization_rules (
+  -- Primary key using UUID
+  id uuid primary key default gen_random_uuid(),
+
+  -- Foreign key to households table with cascade delete
+  household_id uuid not null references households(id) on delete cascade,
+
+  -- Category assigned to matching transactions
+  category_id uuid not null,
+
+  -- Text searched for in the note, compared case and diacritics insensitively
+  pattern varchar(100) not null check (char_length(trim(pattern)) > 0),
+
+  -- Higher priority wins when several rules match the same note
+  priority integer not null default 0 check (priority between 0 and 1000),
+
+  -- Optional amount range (inclusive) the transaction must fall into
+  min_amount decimal(10, 2) check (min_amount is null or min_amount > 0),
+  max_amount decimal(10, 2) check (max_amount is null or max_amount > 0),
+
+  -- Audit timestamps
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+
+  -- The amount range cannot be empty
+  check (min_amount is null or max_amount is null or min_amount <= max_amount),
+
+  -- Composite foreign key constraint to ensure category belongs to the same household
+  -- Rules of a deleted category are deleted with it
+  foreign key (category_id, household_id) references categories(id, household_id) on delete cascade
+);
+
+-- Enable Row Level Security for categorization_rules table
+alter table categorization_rules enable row level security;
+
+-- Index on household_id for loading all rules of a household when transactions are categorized
+create index idx_categorization_rules_household_id on categorization_rules(household_id);
+
+-- RLS Policies for categorization_rules table
+-- Users can select categorization rules from their own household
+create policy select_categorization_rules
+  on categorization_rules
+  for select
+  using (household_id = get_current_household_id());
+
+-- Users can insert categorization rules into their own household
+create policy insert_categorization_rules
+  on categorization_rules
+  for insert
+  with check (household_id = get_current_household_id());
+
+-- Users can update categorization rules in their own household
+create policy update_categorization_rules
+  on categorization_rules
+  for update
+  using (household_id = get_current_household_id())
+  with check (household_id = get_current_household_id());
+
+-- Users can delete categorization rules from their own household
+create policy delete_categorization_rules
+  on categorization_rules
+  for delete
+  using (household_id = get_current_household_id());
+
+-- Trigger for categorization_rules table to automatically update updated_at timestamp
+create trigger trigger_categorization_rules_updated_at
+  before update on categorization_rules
+  for each row
+  execute function set_updated_at();
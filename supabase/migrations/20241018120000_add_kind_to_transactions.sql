@@ -0,0 +1,34 @@
+-- Migration: Add kind to transactions
+-- Purpose: Record refunds, so that money returned for a purchase reduces the spending of its category
+-- Affected: transactions table (new kind and refunded_transaction_id columns)
+-- Date: 2024-10-18 12:00:00 UTC
+
+-- Kind of the transaction:
+--   expense - money spent (previous behaviour)
+--   refund  - money returned, netted against the spending of its category
+-- The amount stays positive for both kinds, the kind decides the sign in summaries
+alter table transactions
+add column kind text not null default 'expense'
+  check (kind in ('expense', 'refund'));
+
+-- Optional reference to the expense a refund returns money for
+-- Set to null when the original expense is deleted, the refund itself keeps counting
+alter table transactions
+add column refunded_transaction_id uuid references transactions(id) on delete set null;
+
+-- Only refunds can point to an original transaction, and never to themselves
+alter table transactions
+add constraint transactions_refunded_transaction_check
+  check (
+    refunded_transaction_id is null
+    or (kind = 'refund' and refunded_transaction_id <> id)
+  );
+
+-- Index on refunded_transaction_id for looking up refunds of an expense
+create index idx_transactions_refunded_transaction
+on transactions(refunded_transaction_id)
+where refunded_transaction_id is not null;
+
+-- Add comments for documentation
+comment on column transactions.kind is 'Kind of the transaction: expense or refund; refunds reduce the spending of their category';
+comment on column transactions.refunded_transaction_id is 'Expense the refund returns money for, null when not linked';
@@ -0,0 +1,57 @@
+-- Migration: Add parent to categories
+-- Purpose: Group categories into a two-level hierarchy (e.g. Car > Fuel, Car > Insurance)
+-- Affected: categories table (new parent_id column), new check_category_parent() trigger function
+-- Date: 2024-10-19 12:00:00 UTC
+
+-- Optional parent category from the same household
+-- When the parent is deleted, its subcategories become top-level categories
+alter table categories
+add column parent_id uuid;
+
+alter table categories
+add constraint categories_parent_id_household_id_fkey
+  foreign key (parent_id, household_id) references categories(id, household_id) on delete set null (parent_id);
+
+-- A category cannot be its own parent
+alter table categories
+add constraint categories_parent_check
+  check (parent_id is null or parent_id <> id);
+
+-- Index on parent_id for listing subcategories of a category
+create index idx_categories_parent
+on categories(parent_id)
+where parent_id is not null;
+
+-- Trigger function keeping the hierarchy two levels deep
+-- The parent must be a top-level category, and a category with subcategories cannot get a parent
+-- Together with categories_parent_check this also rules out cycles
+create or replace function check_category_parent()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.parent_id is null then
+    return new;
+  end if;
+
+  if exists (select 1 from categories where id = new.parent_id and parent_id is not null) then
+    raise exception 'Category % cannot be nested under a subcategory', new.id
+      using errcode = 'check_violation';
+  end if;
+
+  if exists (select 1 from categories where parent_id = new.id) then
+    raise exception 'Category % has subcategories and cannot become a subcategory', new.id
+      using errcode = 'check_violation';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger trigger_categories_check_parent
+  before insert or update of parent_id on categories
+  for each row
+  execute function check_category_parent();
+
+-- Add comments for documentation
+comment on column categories.parent_id is 'Parent category, null for top-level categories; the hierarchy is at most two levels deep';
@@ -0,0 +1,17 @@
+-- Migration: Add archived state to categories
+-- Purpose: Retire old categories without deleting them, so their transactions and planned expenses keep their history
+-- Affected: categories table (new is_archived column)
+-- Date: 2024-10-20 12:00:00 UTC
+
+-- Archived categories are hidden when adding expenses and planning budgets,
+-- but summaries and reports of past budgets still show them
+alter table categories
+add column is_archived boolean not null default false;
+
+-- Index on household_id for listing the categories still in use
+create index idx_categories_active
+on categories(household_id)
+where is_archived = false;
+
+-- Add comment for documentation
+comment on column categories.is_archived is 'Whether the category is retired; archived categories keep their history but cannot be picked for new entries';
@@ -0,0 +1,69 @@
+-- Migration: Add appearance, ordering and cost group to categories
+-- Purpose: Let users color categories, pick icons, order them and tell fixed costs from variable costs and savings
+-- Affected: categories table (new color, icon, sort_order and cost_group columns), seed_default_categories() function
+-- Date: 2024-10-21 12:00:00 UTC
+
+-- Optional color as a #rrggbb hex string, null shows the category in the neutral color
+alter table categories
+add column color text
+  check (color is null or color ~ '^#[0-9a-fA-F]{6}$');
+
+-- Optional icon key resolved to an icon by the application, null shows the generic category icon
+alter table categories
+add column icon text
+  check (icon is null or char_length(icon) between 1 and 50);
+
+-- User-defined position, categories with the same position are ordered by name
+alter table categories
+add column sort_order integer not null default 0;
+
+-- Cost group used to group categories on the dashboard:
+--   fixed    - recurring costs with a known amount (rent, loans, subscriptions)
+--   variable - everyday costs that change month to month (food, entertainment)
+--   savings  - money set aside rather than spent
+alter table categories
+add column cost_group text not null default 'variable'
+  check (cost_group in ('fixed', 'variable', 'savings'));
+
+-- Keep the current alphabetical order of existing categories
+update categories
+set sort_order = ordered.position
+from (
+  select id, row_number() over (partition by household_id order by lower(name)) - 1 as position
+  from categories
+) as ordered
+where categories.id = ordered.id;
+
+-- Seed default categories with their icons, groups and order
+create or replace function seed_default_categories()
+returns trigger
+language plpgsql
+security definer
+as $$
+begin
+  insert into public.categories (household_id, name, icon, cost_group, sort_order) values
+    (NEW.id, 'Mieszkanie', 'home', 'fixed', 0),              -- Housing
+    (NEW.id, 'Rachunki', 'bills', 'fixed', 1),               -- Bills/Utilities
+    (NEW.id, 'Kredyty', 'loans', 'fixed', 2),                -- Loans
+    (NEW.id, 'Żywność', 'food', 'variable', 3),              -- Food
+    (NEW.id, 'Transport', 'transport', 'variable', 4),       -- Transportation
+    (NEW.id, 'Zdrowie', 'health', 'variable', 5),            -- Health
+    (NEW.id, 'Rozrywka', 'entertainment', 'variable', 6),    -- Entertainment
+    (NEW.id, 'Ubrania', 'clothing', 'variable', 7),          -- Clothing
+    (NEW.id, 'Edukacja', 'education', 'variable', 8),        -- Education
+    (NEW.id, 'Inne', 'other', 'variable', 9),                -- Other/Miscellaneous
+    (NEW.id, 'Oszczędności', 'savings', 'savings', 10);      -- Savings
+
+  return NEW;
+end;
+$$;
+
+-- Index on household_id + sort_order for listing categories in the user-defined order
+create index idx_categories_sort_order
+on categories(household_id, sort_order);
+
+-- Add comments for documentation
+comment on column categories.color is 'Category color as a #rrggbb hex string, null for the neutral color';
+comment on column categories.icon is 'Icon key of the category, resolved to an icon by the application';
+comment on column categories.sort_order is 'User-defined position of the category, ties are ordered by name';
+comment on column categories.cost_group is 'Cost group of the category: fixed, variable or savings';
@@ -0,0 +1,52 @@
+-- Migration: Add alert settings to households and categories
+-- Purpose: Make the warning and overspending thresholds configurable and alert when spending runs ahead of pace
+-- Affected: households table (default thresholds and pace alert), categories table (per-category overrides)
+-- Date: 2024-10-22 12:00:00 UTC
+
+-- Household defaults, used by every category without its own settings
+-- Thresholds are percentages of the category limit; a category is in warning once it reaches the warning threshold
+-- and overspent once it reaches the overspending threshold
+alter table households
+add column category_warning_threshold numeric(6,2) not null default 80
+  check (category_warning_threshold > 0 and category_warning_threshold <= 1000),
+add column category_over_threshold numeric(6,2) not null default 100
+  check (category_over_threshold > 0 and category_over_threshold <= 1000),
+add constraint households_category_thresholds_check
+  check (category_warning_threshold <= category_over_threshold);
+
+-- Optional pace alert: a category is in warning when more than pace_alert_percent of its limit
+-- is spent by day pace_alert_day of the budget month
+alter table households
+add column pace_alert_day smallint
+  check (pace_alert_day is null or pace_alert_day between 1 and 31),
+add column pace_alert_percent numeric(6,2)
+  check (pace_alert_percent is null or (pace_alert_percent > 0 and pace_alert_percent <= 1000)),
+add constraint households_pace_alert_check
+  check ((pace_alert_day is null) = (pace_alert_percent is null));
+
+-- Per-category overrides, null falls back to the household default
+alter table categories
+add column warning_threshold numeric(6,2)
+  check (warning_threshold is null or (warning_threshold > 0 and warning_threshold <= 1000)),
+add column over_threshold numeric(6,2)
+  check (over_threshold is null or (over_threshold > 0 and over_threshold <= 1000)),
+add constraint categories_thresholds_check
+  check (warning_threshold is null or over_threshold is null or warning_threshold <= over_threshold);
+
+alter table categories
+add column pace_alert_day smallint
+  check (pace_alert_day is null or pace_alert_day between 1 and 31),
+add column pace_alert_percent numeric(6,2)
+  check (pace_alert_percent is null or (pace_alert_percent > 0 and pace_alert_percent <= 1000)),
+add constraint categories_pace_alert_check
+  check ((pace_alert_day is null) = (pace_alert_percent is null));
+
+-- Add comments for documentation
+comment on column households.category_warning_threshold is 'Default percentage of the limit above which a category is in warning';
+comment on column households.category_over_threshold is 'Default percentage of the limit above which a category is overspent';
+comment on column households.pace_alert_day is 'Default pace alert: day of the month by which no more than pace_alert_percent should be spent';
+comment on column households.pace_alert_percent is 'Default pace alert: percentage of the limit allowed to be spent by pace_alert_day';
+comment on column categories.warning_threshold is 'Warning threshold of the category, null uses the household default';
+comment on column categories.over_threshold is 'Overspending threshold of the category, null uses the household default';
+comment on column categories.pace_alert_day is 'Pace alert day of the category, null uses the household default';
+comment on column categories.pace_alert_percent is 'Pace alert percentage of the category, null uses the household default';
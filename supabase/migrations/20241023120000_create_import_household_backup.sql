@@ -0,0 +1,86 @@
+-- Migration: Create import_household_backup() function
+-- Purpose: Restore a full household backup (members, categories, budgets, incomes, planned expenses
+--          and transactions) in a single transaction, so a failed import leaves nothing behind
+-- Affected: new import_household_backup(jsonb) function
+-- Date: 2024-10-23 12:00:00 UTC
+
+-- Restores a backup into the household of the current user
+-- The backup is prepared by the application: it is validated, every record has a new ID and the keys of the
+-- records are the column names of their tables (household, members, categories, budgets, incomes,
+-- planned_expenses, transactions, transaction_splits)
+-- The household must be empty: the categories seeded for a new household are replaced with those of the backup,
+-- any other data makes the import fail
+-- Runs with the privileges of the caller, so the row level security policies apply to every statement
+create or replace function import_household_backup(backup jsonb)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  target_household_id uuid := get_current_household_id();
+begin
+  if target_household_id is null then
+    raise exception 'No household found for the current user'
+      using errcode = 'no_data_found';
+  end if;
+
+  if exists (select 1 from household_members where household_id = target_household_id)
+    or exists (select 1 from budgets where household_id = target_household_id)
+    or exists (select 1 from recurring_transactions where household_id = target_household_id)
+    or exists (select 1 from categorization_rules where household_id = target_household_id) then
+    raise exception 'Household % is not empty', target_household_id
+      using errcode = 'object_not_in_prerequisite_state';
+  end if;
+
+  delete from categories where household_id = target_household_id;
+
+  update households
+  set name = settings.name,
+      category_warning_threshold = settings.category_warning_threshold,
+      category_over_threshold = settings.category_over_threshold,
+      pace_alert_day = settings.pace_alert_day,
+      pace_alert_percent = settings.pace_alert_percent
+  from jsonb_populate_record(null::households, backup->'household') as settings
+  where households.id = target_household_id;
+
+  insert into household_members (id, household_id, full_name, is_active)
+  select id, target_household_id, full_name, is_active
+  from jsonb_populate_recordset(null::household_members, backup->'members');
+
+  -- Foreign keys are checked at the end of each statement, so subcategories may reference parents inserted with them
+  insert into categories (
+    id, household_id, name, parent_id, is_archived, color, icon, sort_order, cost_group,
+    warning_threshold, over_threshold, pace_alert_day, pace_alert_percent
+  )
+  select id, target_household_id, name, parent_id, is_archived, color, icon, sort_order, cost_group,
+    warning_threshold, over_threshold, pace_alert_day, pace_alert_percent
+  from jsonb_populate_recordset(null::categories, backup->'categories');
+
+  insert into budgets (id, household_id, month, note)
+  select id, target_household_id, month, note
+  from jsonb_populate_recordset(null::budgets, backup->'budgets');
+
+  insert into incomes (id, household_id, budget_id, household_member_id, amount)
+  select id, target_household_id, budget_id, household_member_id, amount
+  from jsonb_populate_recordset(null::incomes, backup->'incomes');
+
+  insert into planned_expenses (id, household_id, budget_id, category_id, limit_amount, rollover_mode)
+  select id, target_household_id, budget_id, category_id, limit_amount, rollover_mode
+  from jsonb_populate_recordset(null::planned_expenses, backup->'planned_expenses');
+
+  -- Likewise, refunds may reference expenses inserted with them
+  insert into transactions (
+    id, household_id, budget_id, category_id, household_member_id, kind, amount, transaction_date, note,
+    external_id, refunded_transaction_id
+  )
+  select id, target_household_id, budget_id, category_id, household_member_id, kind, amount, transaction_date, note,
+    external_id, refunded_transaction_id
+  from jsonb_populate_recordset(null::transactions, backup->'transactions');
+
+  insert into transaction_splits (id, household_id, transaction_id, category_id, amount)
+  select id, target_household_id, transaction_id, category_id, amount
+  from jsonb_populate_recordset(null::transaction_splits, backup->'transaction_splits');
+end;
+$$;
+
+comment on function import_household_backup(jsonb) is 'Restores a prepared household backup into the empty household of the current user';
@@ -0,0 +1,236 @@
+-- Migration: Create household users and invitations
+-- Purpose: Let several accounts share one household. Access is granted by membership in household_users
+--          instead of households.user_id, and new users join through invitations
+-- Affected: household_users table (new), household_invitations table (new), get_current_household_id(),
+--           create_household_for_new_user(), new accept_household_invitation() function
+-- Date: 2024-10-24 12:00:00 UTC
+
+-- Create household_users table
+-- Accounts with access to a household; an account belongs to exactly one household at a time
+-- households.user_id keeps the account that created the household
+create table household_users (
+  -- Household the account has access to, memberships are removed together with it
+  household_id uuid not null references households(id) on delete cascade,
+
+  -- Account with access to the household, one household per account
+  user_id uuid not null unique references auth.users(id) on delete cascade,
+
+  -- Audit timestamp
+  created_at timestamptz not null default now(),
+
+  primary key (household_id, user_id)
+);
+
+-- Every existing household keeps its creator as the first member
+insert into household_users (household_id, user_id)
+select id, user_id
+from households;
+
+-- Enable Row Level Security for household_users table
+alter table household_users enable row level security;
+
+-- Resolve the household of the current user through membership
+-- Every row level security policy checks household_id = get_current_household_id(),
+-- so all of them now grant access to every member of the household
+-- security definer keeps the lookup from being subject to the household_users policies below
+create or replace function get_current_household_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select hu.household_id
+  from public.household_users hu
+  where hu.user_id = auth.uid()
+  limit 1;
+$$;
+
+-- RLS Policies for household_users table
+-- Users can see who has access to their household
+-- Memberships are created and removed by create_household_for_new_user() and accept_household_invitation()
+create policy select_household_users
+  on household_users
+  for select
+  using (household_id = get_current_household_id());
+
+-- A new account becomes the first member of the household created for it
+create or replace function create_household_for_new_user()
+returns trigger
+language plpgsql
+security definer
+as $$
+declare
+  household_name text;
+  new_household_id uuid;
+begin
+  -- Use the user's email as the default household name
+  -- If email is not available, use a generic name
+  household_name := coalesce(NEW.email, 'My Household');
+
+  -- Create a new household for the user
+  -- The household will automatically get default categories via the existing trigger
+  insert into public.households (user_id, name)
+  values (NEW.id, household_name)
+  returning id into new_household_id;
+
+  insert into public.household_users (household_id, user_id)
+  values (new_household_id, NEW.id);
+
+  return NEW;
+exception
+  when others then
+    -- Log the error but don't prevent user creation
+    -- This ensures that even if household creation fails, the user can still be created
+    raise warning 'Failed to create household for user %: %', NEW.id, SQLERRM;
+    return NEW;
+end;
+$$;
+
+-- Create household_invitations table
+-- An invitation lets the owner of an email address join the household once
+-- Only a hash of the token is stored; the token itself is shown once to the member who creates the invitation
+create table household_invitations (
+  -- Primary key using UUID
+  id uuid primary key default gen_random_uuid(),
+
+  -- Foreign key to households table with cascade delete
+  household_id uuid not null references households(id) on delete cascade,
+
+  -- Address of the invited person, the invitation can only be accepted by an account with this email
+  email text not null check (char_length(email) between 3 and 254),
+
+  -- SHA-256 hash of the invitation token, hex encoded
+  token_hash text not null unique,
+
+  -- Member who created the invitation
+  invited_by uuid references auth.users(id) on delete set null,
+
+  -- Invitations are valid for a week unless accepted or revoked earlier
+  expires_at timestamptz not null default now() + interval '7 days',
+
+  -- Set when the invitation is accepted, it cannot be used again
+  accepted_at timestamptz,
+  accepted_by uuid references auth.users(id) on delete set null,
+
+  -- Set when a member revokes the invitation
+  revoked_at timestamptz,
+
+  -- Audit timestamps
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Enable Row Level Security for household_invitations table
+alter table household_invitations enable row level security;
+
+-- Index on household_id + created_at for listing the invitations of a household
+create index idx_household_invitations_household on household_invitations(household_id, created_at desc);
+
+-- RLS Policies for household_invitations table
+-- Invited users have no access to the household yet, they accept invitations with accept_household_invitation()
+-- Users can select invitations of their own household
+create policy select_household_invitations
+  on household_invitations
+  for select
+  using (household_id = get_current_household_id());
+
+-- Users can invite people to their own household
+create policy insert_household_invitations
+  on household_invitations
+  for insert
+  with check (household_id = get_current_household_id());
+
+-- Users can revoke invitations of their own household
+create policy update_household_invitations
+  on household_invitations
+  for update
+  using (household_id = get_current_household_id())
+  with check (household_id = get_current_household_id());
+
+-- Trigger for household_invitations table to automatically update updated_at timestamp
+create trigger trigger_household_invitations_updated_at
+  before update on household_invitations
+  for each row
+  execute function set_updated_at();
+
+-- Accepts an invitation on behalf of the current user and moves the user to the invited household
+-- The user must be signed in with the invited email address, and their current household must be empty
+-- (no members, budgets, recurring transactions or categorization rules). A household left without users
+-- is deleted together with its default categories
+-- Returns the ID of the household the user joined
+create or replace function accept_household_invitation(invitation_token text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  current_user_id uuid := auth.uid();
+  invitation household_invitations%rowtype;
+  previous_household_id uuid;
+begin
+  if current_user_id is null then
+    raise exception 'Not authenticated'
+      using errcode = 'invalid_authorization_specification';
+  end if;
+
+  select *
+  into invitation
+  from household_invitations
+  where token_hash = encode(sha256(convert_to(invitation_token, 'UTF8')), 'hex')
+  for update;
+
+  if not found
+    or invitation.revoked_at is not null
+    or invitation.accepted_at is not null
+    or invitation.expires_at <= now() then
+    raise exception 'Invitation not found, expired or revoked'
+      using errcode = 'no_data_found';
+  end if;
+
+  if lower(invitation.email) <> lower(coalesce(auth.jwt() ->> 'email', '')) then
+    raise exception 'Invitation was sent to another email address'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  select household_id
+  into previous_household_id
+  from household_users
+  where user_id = current_user_id;
+
+  if previous_household_id is distinct from invitation.household_id then
+    if previous_household_id is not null then
+      if exists (select 1 from household_members where household_id = previous_household_id)
+        or exists (select 1 from budgets where household_id = previous_household_id)
+        or exists (select 1 from recurring_transactions where household_id = previous_household_id)
+        or exists (select 1 from categorization_rules where household_id = previous_household_id) then
+        raise exception 'Household % is not empty', previous_household_id
+          using errcode = 'object_not_in_prerequisite_state';
+      end if;
+
+      delete from household_users where user_id = current_user_id;
+
+      delete from households
+      where id = previous_household_id
+        and not exists (select 1 from household_users where household_id = previous_household_id);
+    end if;
+
+    insert into household_users (household_id, user_id)
+    values (invitation.household_id, current_user_id);
+  end if;
+
+  update household_invitations
+  set accepted_at = now(),
+      accepted_by = current_user_id
+  where id = invitation.id;
+
+  return invitation.household_id;
+end;
+$$;
+
+-- Add comments for documentation
+comment on table household_users is 'Accounts with access to a household, one household per account';
+comment on table household_invitations is 'Invitations to join a household, accepted with accept_household_invitation()';
+comment on column household_invitations.token_hash is 'SHA-256 hash of the invitation token, hex encoded';
+comment on column households.user_id is 'Account that created the household; access is granted through household_users';
@@ -0,0 +1,433 @@
+-- Migration: Add household roles
+-- Purpose: Give every account with access to a household a role. Owners manage the household and its access,
+--          editors manage budgets and settings, viewers can read everything and add expenses
+-- Affected: household_users (role), household_invitations (role), transactions (created_by), new functions
+--           has_household_role() and list_household_users(), create_household_for_new_user(),
+--           accept_household_invitation(), insert/update/delete policies of all household tables
+-- Date: 2024-10-25 12:00:00 UTC
+
+-- Add role to household_users table
+-- Existing members default to editors; the account that created the household becomes its owner
+alter table household_users
+  add column role text not null default 'editor'
+    check (role in ('owner', 'editor', 'viewer'));
+
+update household_users hu
+set role = 'owner'
+from households h
+where h.id = hu.household_id
+  and h.user_id = hu.user_id;
+
+-- Add role to household_invitations table
+-- The invited account joins with this role; households have a single owner, so it cannot be invited
+alter table household_invitations
+  add column role text not null default 'editor'
+    check (role in ('editor', 'viewer'));
+
+-- Add created_by to transactions table
+-- Viewers may add the lines of split expenses only to transactions they created themselves
+alter table transactions
+  add column created_by uuid default auth.uid() references auth.users(id) on delete set null;
+
+-- Checks whether the current user's role in their household is at least the required one
+-- Roles are ordered viewer < editor < owner
+-- security definer keeps the lookup from being subject to the household_users policies
+create or replace function has_household_role(required_role text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1
+    from public.household_users hu
+    where hu.user_id = auth.uid()
+      and case hu.role when 'owner' then 3 when 'editor' then 2 else 1 end
+        >= case required_role when 'owner' then 3 when 'editor' then 2 else 1 end
+  );
+$$;
+
+-- Lists the accounts with access to the current user's household together with their email addresses,
+-- which are only readable from auth.users
+create or replace function list_household_users()
+returns table (user_id uuid, email text, role text, created_at timestamptz)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select hu.user_id, u.email::text, hu.role, hu.created_at
+  from public.household_users hu
+  join auth.users u on u.id = hu.user_id
+  where hu.household_id = get_current_household_id()
+  order by hu.created_at, u.email;
+$$;
+
+-- A new account becomes the owner of the household created for it
+create or replace function create_household_for_new_user()
+returns trigger
+language plpgsql
+security definer
+as $$
+declare
+  household_name text;
+  new_household_id uuid;
+begin
+  -- Use the user's email as the default household name
+  -- If email is not available, use a generic name
+  household_name := coalesce(NEW.email, 'My Household');
+
+  -- Create a new household for the user
+  -- The household will automatically get default categories via the existing trigger
+  insert into public.households (user_id, name)
+  values (NEW.id, household_name)
+  returning id into new_household_id;
+
+  insert into public.household_users (household_id, user_id, role)
+  values (new_household_id, NEW.id, 'owner');
+
+  return NEW;
+exception
+  when others then
+    -- Log the error but don't prevent user creation
+    -- This ensures that even if household creation fails, the user can still be created
+    raise warning 'Failed to create household for user %: %', NEW.id, SQLERRM;
+    return NEW;
+end;
+$$;
+
+-- Accepting an invitation now grants the role of the invitation
+create or replace function accept_household_invitation(invitation_token text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  current_user_id uuid := auth.uid();
+  invitation household_invitations%rowtype;
+  previous_household_id uuid;
+begin
+  if current_user_id is null then
+    raise exception 'Not authenticated'
+      using errcode = 'invalid_authorization_specification';
+  end if;
+
+  select *
+  into invitation
+  from household_invitations
+  where token_hash = encode(sha256(convert_to(invitation_token, 'UTF8')), 'hex')
+  for update;
+
+  if not found
+    or invitation.revoked_at is not null
+    or invitation.accepted_at is not null
+    or invitation.expires_at <= now() then
+    raise exception 'Invitation not found, expired or revoked'
+      using errcode = 'no_data_found';
+  end if;
+
+  if lower(invitation.email) <> lower(coalesce(auth.jwt() ->> 'email', '')) then
+    raise exception 'Invitation was sent to another email address'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  select household_id
+  into previous_household_id
+  from household_users
+  where user_id = current_user_id;
+
+  if previous_household_id is distinct from invitation.household_id then
+    if previous_household_id is not null then
+      if exists (select 1 from household_members where household_id = previous_household_id)
+        or exists (select 1 from budgets where household_id = previous_household_id)
+        or exists (select 1 from recurring_transactions where household_id = previous_household_id)
+        or exists (select 1 from categorization_rules where household_id = previous_household_id) then
+        raise exception 'Household % is not empty', previous_household_id
+          using errcode = 'object_not_in_prerequisite_state';
+      end if;
+
+      delete from household_users where user_id = current_user_id;
+
+      delete from households
+      where id = previous_household_id
+        and not exists (select 1 from household_users where household_id = previous_household_id);
+    end if;
+
+    insert into household_users (household_id, user_id, role)
+    values (invitation.household_id, current_user_id, invitation.role);
+  end if;
+
+  update household_invitations
+  set accepted_at = now(),
+      accepted_by = current_user_id
+  where id = invitation.id;
+
+  return invitation.household_id;
+end;
+$$;
+
+-- RLS Policies for households table
+-- Only the owner can change the name and alert settings of the household or delete it
+drop policy update_households on households;
+create policy update_households
+  on households
+  for update
+  using (id = get_current_household_id() and has_household_role('owner'))
+  with check (id = get_current_household_id() and has_household_role('owner'));
+
+drop policy delete_households on households;
+create policy delete_households
+  on households
+  for delete
+  using (id = get_current_household_id() and has_household_role('owner'));
+
+-- RLS Policies for household_users table
+-- The owner can change the roles of other accounts; the owner role itself cannot be granted or changed
+create policy update_household_users
+  on household_users
+  for update
+  using (household_id = get_current_household_id() and has_household_role('owner') and role <> 'owner')
+  with check (household_id = get_current_household_id() and role <> 'owner');
+
+-- RLS Policies for household_invitations table
+-- Only the owner can invite people and revoke invitations
+drop policy insert_household_invitations on household_invitations;
+create policy insert_household_invitations
+  on household_invitations
+  for insert
+  with check (household_id = get_current_household_id() and has_household_role('owner'));
+
+drop policy update_household_invitations on household_invitations;
+create policy update_household_invitations
+  on household_invitations
+  for update
+  using (household_id = get_current_household_id() and has_household_role('owner'))
+  with check (household_id = get_current_household_id() and has_household_role('owner'));
+
+-- RLS Policies for household_members table
+-- Editors and owners manage household members
+drop policy insert_household_members on household_members;
+create policy insert_household_members
+  on household_members
+  for insert
+  with check (household_id = get_current_household_id() and has_household_role('editor'));
+
+drop policy update_household_members on household_members;
+create policy update_household_members
+  on household_members
+  for update
+  using (household_id = get_current_household_id() and has_household_role('editor'))
+  with check (household_id = get_current_household_id() and has_household_role('editor'));
+
+drop policy delete_household_members on household_members;
+create policy delete_household_members
+  on household_members
+  for delete
+  using (household_id = get_current_household_id() and has_household_role('editor'));
+
+-- RLS Policies for categories table
+-- Editors and owners manage categories
+drop policy insert_categories on categories;
+create policy insert_categories
+  on categories
+  for insert
+  with check (household_id = get_current_household_id() and has_household_role('editor'));
+
+drop policy update_categories on categories;
+create policy update_categories
+  on categories
+  for update
+  using (household_id = get_current_household_id() and has_household_role('editor'))
+  with check (household_id = get_current_household_id() and has_household_role('editor'));
+
+drop policy delete_categories on categories;
+create policy delete_categories
+  on categories
+  for delete
+  using (household_id = get_current_household_id() and has_household_role('editor'));
+
+-- RLS Policies for budgets table
+-- Editors and owners manage budgets
+drop policy insert_budgets on budgets;
+create policy insert_budgets
+  on budgets
+  for insert
+  with check (household_id = get_current_household_id() and has_household_role('editor'));
+
+drop policy update_budgets on budgets;
+create policy update_budgets
+  on budgets
+  for update
+  using (household_id = get_current_household_id() and has_household_role('editor'))
+  with check (household_id = get_current_household_id() and has_household_role('editor'));
+
+drop policy delete_budgets on budgets;
+create policy delete_budgets
+  on budgets
+  for delete
+  using (household_id = get_current_household_id() and has_household_role('editor'));
+
+-- RLS Policies for incomes table
+-- Editors and owners manage incomes
+drop policy insert_incomes on incomes;
+create policy insert_incomes
+  on incomes
+  for insert
+  with check (household_id = get_current_household_id() and has_household_role('editor'));
+
+drop policy update_incomes on incomes;
+create policy update_incomes
+  on incomes
+  for update
+  using (household_id = get_current_household_id() and has_household_role('editor'))
+  with check (household_id = get_current_household_id() and has_household_role('editor'));
+
+drop policy delete_incomes on incomes;
+create policy delete_incomes
+  on incomes
+  for delete
+  using (household_id = get_current_household_id() and has_household_role('editor'));
+
+-- RLS Policies for planned_expenses table
+-- Editors and owners manage planned expenses
+drop policy insert_planned_expenses on planned_expenses;
+create policy insert_planned_expenses
+  on planned_expenses
+  for insert
+  with check (household_id = get_current_household_id() and has_household_role('editor'));
+
+drop policy update_planned_expenses on planned_expenses;
+create policy update_planned_expenses
+  on planned_expenses
+  for update
+  using (household_id = get_current_household_id() and has_household_role('editor'))
+  with check (household_id = get_current_household_id() and has_household_role('editor'));
+
+drop policy delete_planned_expenses on planned_expenses;
+create policy delete_planned_expenses
+  on planned_expenses
+  for delete
+  using (household_id = get_current_household_id() and has_household_role('editor'));
+
+-- RLS Policies for transactions table
+-- Viewers can add expenses in their own name; refunds, changes and deletions need an editor or owner
+drop policy insert_transactions on transactions;
+create policy insert_transactions
+  on transactions
+  for insert
+  with check (
+    household_id = get_current_household_id()
+    and (
+      has_household_role('editor')
+      or (kind = 'expense' and created_by = auth.uid())
+    )
+  );
+
+drop policy update_transactions on transactions;
+create policy update_transactions
+  on transactions
+  for update
+  using (household_id = get_current_household_id() and has_household_role('editor'))
+  with check (household_id = get_current_household_id() and has_household_role('editor'));
+
+drop policy delete_transactions on transactions;
+create policy delete_transactions
+  on transactions
+  for delete
+  using (household_id = get_current_household_id() and has_household_role('editor'));
+
+-- RLS Policies for transaction_splits table
+-- Viewers can add the lines of expenses they created
+drop policy insert_transaction_splits on transaction_splits;
+create policy insert_transaction_splits
+  on transaction_splits
+  for insert
+  with check (
+    household_id = get_current_household_id()
+    and (
+      has_household_role('editor')
+      or exists (
+        select 1
+        from transactions t
+        where t.id = transaction_id
+          and t.kind = 'expense'
+          and t.created_by = auth.uid()
+      )
+    )
+  );
+
+drop policy update_transaction_splits on transaction_splits;
+create policy update_transaction_splits
+  on transaction_splits
+  for update
+  using (household_id = get_current_household_id() and has_household_role('editor'))
+  with check (household_id = get_current_household_id() and has_household_role('editor'));
+
+drop policy delete_transaction_splits on transaction_splits;
+create policy delete_transaction_splits
+  on transaction_splits
+  for delete
+  using (household_id = get_current_household_id() and has_household_role('editor'));
+
+-- RLS Policies for transaction_duplicate_dismissals table
+-- Editors and owners review suspected duplicates
+drop policy insert_transaction_duplicate_dismissals on transaction_duplicate_dismissals;
+create policy insert_transaction_duplicate_dismissals
+  on transaction_duplicate_dismissals
+  for insert
+  with check (household_id = get_current_household_id() and has_household_role('editor'));
+
+drop policy delete_transaction_duplicate_dismissals on transaction_duplicate_dismissals;
+create policy delete_transaction_duplicate_dismissals
+  on transaction_duplicate_dismissals
+  for delete
+  using (household_id = get_current_household_id() and has_household_role('editor'));
+
+-- RLS Policies for recurring_transactions table
+-- Editors and owners manage recurring transactions
+drop policy insert_recurring_transactions on recurring_transactions;
+create policy insert_recurring_transactions
+  on recurring_transactions
+  for insert
+  with check (household_id = get_current_household_id() and has_household_role('editor'));
+
+drop policy update_recurring_transactions on recurring_transactions;
+create policy update_recurring_transactions
+  on recurring_transactions
+  for update
+  using (household_id = get_current_household_id() and has_household_role('editor'))
+  with check (household_id = get_current_household_id() and has_household_role('editor'));
+
+drop policy delete_recurring_transactions on recurring_transactions;
+create policy delete_recurring_transactions
+  on recurring_transactions
+  for delete
+  using (household_id = get_current_household_id() and has_household_role('editor'));
+
+-- RLS Policies for categorization_rules table
+-- Editors and owners manage categorization rules
+drop policy insert_categorization_rules on categorization_rules;
+create policy insert_categorization_rules
+  on categorization_rules
+  for insert
+  with check (household_id = get_current_household_id() and has_household_role('editor'));
+
+drop policy update_categorization_rules on categorization_rules;
+create policy update_categorization_rules
+  on categorization_rules
+  for update
+  using (household_id = get_current_household_id() and has_household_role('editor'))
+  with check (household_id = get_current_household_id() and has_household_role('editor'));
+
+drop policy delete_categorization_rules on categorization_rules;
+create policy delete_categorization_rules
+  on categorization_rules
+  for delete
+  using (household_id = get_current_household_id() and has_household_role('editor'));
+
+-- Add comments for documentation
+comment on column household_users.role is 'owner manages the household and its access, editor manages budgets and settings, viewer reads and adds expenses';
+comment on column household_invitations.role is 'Role granted to the account that accepts the invitation';
+comment on column transactions.created_by is 'Account that added the transaction';
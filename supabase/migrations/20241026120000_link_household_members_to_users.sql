@@ -0,0 +1,67 @@
+-- Migration: Link household members to accounts
+-- Purpose: Let a household member be tied to an account with access to the household, so that the account's
+--          expenses are attributed to its member and lists can be filtered to the signed-in account
+-- Affected: household_members (user_id), new functions validate_household_member_user() and
+--           unlink_household_members_of_user(), new triggers on household_members and household_users
+-- Date: 2024-10-26 12:00:00 UTC
+
+-- Add user_id to household_members table
+-- Members stay plain names unless linked; removing the account keeps the member and its history
+alter table household_members
+  add column user_id uuid references auth.users(id) on delete set null;
+
+-- An account is linked to at most one member of a household
+create unique index idx_household_members_user on household_members(household_id, user_id)
+  where user_id is not null;
+
+-- Only accounts with access to the household can be linked to its members
+create or replace function validate_household_member_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.user_id is not null and not exists (
+    select 1
+    from household_users
+    where household_id = new.household_id
+      and user_id = new.user_id
+  ) then
+    -- foreign_key_violation, mapped by the API to an invalid user
+    raise exception 'User % has no access to household %', new.user_id, new.household_id
+      using errcode = '23503';
+  end if;
+
+  return new;
+end;
+$$;
+
+create trigger validate_household_member_user
+  before insert or update of user_id, household_id on household_members
+  for each row
+  execute function validate_household_member_user();
+
+-- Accounts leaving a household (e.g. after accepting an invitation to another one) are unlinked from its members
+create or replace function unlink_household_members_of_user()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update household_members
+  set user_id = null
+  where household_id = old.household_id
+    and user_id = old.user_id;
+
+  return old;
+end;
+$$;
+
+create trigger unlink_household_members_of_user
+  after delete on household_users
+  for each row
+  execute function unlink_household_members_of_user();
+
+comment on column household_members.user_id is 'Account the member represents, if any; at most one member per account in a household';
@@ -0,0 +1,89 @@
+-- Migration: Create split transaction functions
+-- Purpose: Write a split transaction and its lines in a single transaction, so that a failure cannot leave
+--          a parent row without its lines or with only some of them
+-- Affected: new create_split_transaction(jsonb, jsonb) and update_split_transaction(uuid, jsonb, jsonb) functions
+-- Date: 2024-10-27 12:00:00 UTC
+
+-- Creates a transaction of the current user's household together with its split lines
+-- The transaction is prepared by the application: its keys are the column names of the transactions table,
+-- and every line has a category_id and an amount that add up to the transaction amount
+-- Runs with the privileges of the caller, so the row level security policies apply to every statement
+create or replace function create_split_transaction(transaction jsonb, splits jsonb)
+returns uuid
+language plpgsql
+security invoker
+as $$
+declare
+  target_household_id uuid := get_current_household_id();
+  new_transaction_id uuid;
+begin
+  if target_household_id is null then
+    raise exception 'No household found for the current user'
+      using errcode = 'no_data_found';
+  end if;
+
+  insert into transactions (
+    household_id, budget_id, category_id, household_member_id, kind, amount, transaction_date, note,
+    external_id, refunded_transaction_id
+  )
+  select target_household_id, budget_id, category_id, household_member_id, kind, amount, transaction_date, note,
+    external_id, refunded_transaction_id
+  from jsonb_populate_record(null::transactions, transaction)
+  returning id into new_transaction_id;
+
+  insert into transaction_splits (household_id, transaction_id, category_id, amount)
+  select target_household_id, new_transaction_id, line.category_id, line.amount
+  from jsonb_to_recordset(splits) as line(category_id uuid, amount decimal(10, 2));
+
+  return new_transaction_id;
+end;
+$$;
+
+-- Updates a transaction of the current user's household and replaces its split lines
+-- Only the columns present in changes are updated; an empty list of lines removes the split
+-- Runs with the privileges of the caller, so the row level security policies apply to every statement
+create or replace function update_split_transaction(target_transaction_id uuid, changes jsonb, splits jsonb)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  target_household_id uuid := get_current_household_id();
+begin
+  update transactions t
+  set category_id = case when changes ? 'category_id' then (changes->>'category_id')::uuid else t.category_id end,
+      household_member_id = case
+        when changes ? 'household_member_id' then (changes->>'household_member_id')::uuid
+        else t.household_member_id
+      end,
+      kind = case when changes ? 'kind' then changes->>'kind' else t.kind end,
+      amount = case when changes ? 'amount' then (changes->>'amount')::decimal(10, 2) else t.amount end,
+      transaction_date = case
+        when changes ? 'transaction_date' then (changes->>'transaction_date')::date
+        else t.transaction_date
+      end,
+      note = case when changes ? 'note' then changes->>'note' else t.note end,
+      refunded_transaction_id = case
+        when changes ? 'refunded_transaction_id' then (changes->>'refunded_transaction_id')::uuid
+        else t.refunded_transaction_id
+      end
+  where t.id = target_transaction_id
+    and t.household_id = target_household_id;
+
+  if not found then
+    raise exception 'Transaction % not found', target_transaction_id
+      using errcode = 'no_data_found';
+  end if;
+
+  delete from transaction_splits
+  where transaction_id = target_transaction_id
+    and household_id = target_household_id;
+
+  insert into transaction_splits (household_id, transaction_id, category_id, amount)
+  select target_household_id, target_transaction_id, line.category_id, line.amount
+  from jsonb_to_recordset(splits) as line(category_id uuid, amount decimal(10, 2));
+end;
+$$;
+
+comment on function create_split_transaction(jsonb, jsonb) is 'Creates a transaction of the current user''s household together with its split lines';
+comment on function update_split_transaction(uuid, jsonb, jsonb) is 'Updates a transaction of the current user''s household and replaces its split lines';
@@ -0,0 +1,59 @@
+-- Migration: Create merge_transactions() function
+-- Purpose: Merge a duplicate into a transaction in a single transaction, so that a failure cannot leave refunds
+--          moved to the kept transaction or the duplicate deleted before its details are copied
+-- Affected: new merge_transactions(uuid, uuid) function
+-- Date: 2024-10-27 12:01:00 UTC
+
+-- Merges a duplicate into a transaction of the current user's household
+-- The kept transaction takes over the note, paying member and bank reference of the duplicate where it has none
+-- of its own, refunds of the duplicate are linked to the kept transaction and the duplicate is deleted
+-- The application checks beforehand that the pair is a suspected duplicate and that the refunds fit the amount
+-- Runs with the privileges of the caller, so the row level security policies apply to every statement
+create or replace function merge_transactions(target_transaction_id uuid, duplicate_transaction_id uuid)
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  target_household_id uuid := get_current_household_id();
+  duplicate transactions%rowtype;
+begin
+  select *
+  into duplicate
+  from transactions
+  where id = duplicate_transaction_id
+    and household_id = target_household_id
+  for update;
+
+  if not found
+    or not exists (
+      select 1
+      from transactions
+      where id = target_transaction_id
+        and household_id = target_household_id
+    ) then
+    raise exception 'Transaction not found'
+      using errcode = 'no_data_found';
+  end if;
+
+  -- Refunds would lose their link when the duplicate is deleted
+  update transactions
+  set refunded_transaction_id = target_transaction_id
+  where household_id = target_household_id
+    and refunded_transaction_id = duplicate.id;
+
+  -- The duplicate is deleted first, so that its bank reference can move to the kept transaction
+  delete from transactions
+  where id = duplicate.id
+    and household_id = target_household_id;
+
+  update transactions t
+  set note = coalesce(nullif(t.note, ''), duplicate.note),
+      household_member_id = coalesce(t.household_member_id, duplicate.household_member_id),
+      external_id = coalesce(t.external_id, duplicate.external_id)
+  where t.id = target_transaction_id
+    and t.household_id = target_household_id;
+end;
+$$;
+
+comment on function merge_transactions(uuid, uuid) is 'Merges a duplicate into a transaction of the current user''s household';
@@ -0,0 +1,49 @@
+-- Migration: Create materialize_recurring_transactions() function
+-- Purpose: Store the materialized occurrences of recurring transactions and advance the rules' cursors
+--          in a single transaction, so that a failure cannot book an occurrence without moving its cursor
+-- Affected: new materialize_recurring_transactions(jsonb, jsonb) function
+-- Date: 2024-10-27 12:02:00 UTC
+
+-- Inserts the occurrences prepared by the application and moves the next run date of their rules
+-- The keys of the occurrences are the column names of the transactions table; every cursor has the id of a rule
+-- and its new next_run_date
+-- Runs with the privileges of the caller, so the row level security policies apply to every statement:
+-- only editors and owners can move the cursors, so viewers cannot materialize transactions
+create or replace function materialize_recurring_transactions(occurrences jsonb, cursors jsonb)
+returns setof transactions
+language plpgsql
+security invoker
+as $$
+declare
+  target_household_id uuid := get_current_household_id();
+  cursor_count integer;
+begin
+  if target_household_id is null then
+    raise exception 'No household found for the current user'
+      using errcode = 'no_data_found';
+  end if;
+
+  update recurring_transactions r
+  set next_run_date = c.next_run_date
+  from jsonb_to_recordset(cursors) as c(id uuid, next_run_date date)
+  where r.id = c.id
+    and r.household_id = target_household_id;
+
+  get diagnostics cursor_count = row_count;
+
+  if cursor_count <> jsonb_array_length(cursors) then
+    raise exception 'Recurring transaction cursors could not be advanced'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  return query
+  insert into transactions (
+    household_id, budget_id, category_id, amount, transaction_date, note, recurring_transaction_id
+  )
+  select target_household_id, budget_id, category_id, amount, transaction_date, note, recurring_transaction_id
+  from jsonb_populate_recordset(null::transactions, occurrences)
+  returning *;
+end;
+$$;
+
+comment on function materialize_recurring_transactions(jsonb, jsonb) is 'Stores materialized occurrences of recurring transactions and advances the cursors of their rules';
@@ -0,0 +1,98 @@
+-- Migration: Allow leaving shared households when accepting an invitation
+-- Purpose: Accepting an invitation was rejected whenever the current household of the user had data, even when
+--          other accounts still use it; only the last account of a household with data is now kept from leaving,
+--          and the owner cannot leave a household other accounts still use
+-- Affected: accept_household_invitation() function
+-- Date: 2024-10-27 12:03:00 UTC
+
+-- The user leaves their current household and joins the invited one with the role of the invitation
+-- A household the user is the last account of is deleted, which is only allowed while it has no data;
+-- a household other accounts still use keeps its data, but it cannot lose its owner
+create or replace function accept_household_invitation(invitation_token text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  current_user_id uuid := auth.uid();
+  invitation household_invitations%rowtype;
+  previous_membership household_users%rowtype;
+begin
+  if current_user_id is null then
+    raise exception 'Not authenticated'
+      using errcode = 'invalid_authorization_specification';
+  end if;
+
+  select *
+  into invitation
+  from household_invitations
+  where token_hash = encode(sha256(convert_to(invitation_token, 'UTF8')), 'hex')
+  for update;
+
+  if not found
+    or invitation.revoked_at is not null
+    or invitation.accepted_at is not null
+    or invitation.expires_at <= now() then
+    raise exception 'Invitation not found, expired or revoked'
+      using errcode = 'no_data_found';
+  end if;
+
+  if lower(invitation.email) <> lower(coalesce(auth.jwt() ->> 'email', '')) then
+    raise exception 'Invitation was sent to another email address'
+      using errcode = 'insufficient_privilege';
+  end if;
+
+  select *
+  into previous_membership
+  from household_users
+  where user_id = current_user_id;
+
+  if previous_membership.household_id is distinct from invitation.household_id then
+    if previous_membership.household_id is not null then
+      -- Locks the accounts of the previous household, so that none of them can leave it at the same time
+      perform 1
+      from household_users
+      where household_id = previous_membership.household_id
+      for update;
+
+      if not exists (
+        select 1
+        from household_users
+        where household_id = previous_membership.household_id
+          and user_id <> current_user_id
+      ) then
+        if exists (select 1 from household_members where household_id = previous_membership.household_id)
+          or exists (select 1 from budgets where household_id = previous_membership.household_id)
+          or exists (select 1 from recurring_transactions where household_id = previous_membership.household_id)
+          or exists (select 1 from categorization_rules where household_id = previous_membership.household_id) then
+          raise exception 'Household % is not empty', previous_membership.household_id
+            using errcode = 'object_not_in_prerequisite_state';
+        end if;
+      elsif previous_membership.role = 'owner' then
+        raise exception 'The owner cannot leave household % while other accounts use it',
+          previous_membership.household_id
+          using errcode = 'dependent_objects_still_exist';
+      end if;
+
+      delete from household_users where user_id = current_user_id;
+
+      delete from households
+      where id = previous_membership.household_id
+        and not exists (select 1 from household_users where household_id = previous_membership.household_id);
+    end if;
+
+    insert into household_users (household_id, user_id, role)
+    values (invitation.household_id, current_user_id, invitation.role);
+  end if;
+
+  update household_invitations
+  set accepted_at = now(),
+      accepted_by = current_user_id
+  where id = invitation.id;
+
+  return invitation.household_id;
+end;
+$$;
+
+comment on function accept_household_invitation(text) is 'Accepts an invitation for the current user, who leaves their current household and joins the invited one';
@@ -0,0 +1,128 @@
+-- Migration: Create merge_category() function
+-- Purpose: Merge a category into another one in a single transaction, so that a failure cannot leave entries
+--          split between both categories or add the limits of the merged category to the target twice on a retry
+-- Affected: new merge_category(uuid, uuid) function
+-- Date: 2024-10-27 12:04:00 UTC
+
+-- Merges a category of the current user's household into another category of the household and deletes it
+-- Transactions, split lines, planned expenses, categorization rules and recurring transactions move to the target;
+-- in budgets planning both categories the limits are added up on the target's planned expense
+-- Subcategories move under the target when it is a top-level category, otherwise they become top-level categories
+-- The application checks beforehand that the target can take the entries of the merged category
+-- Runs with the privileges of the caller, so the row level security policies apply to every statement
+create or replace function merge_category(source_category_id uuid, target_category_id uuid)
+returns table (moved_transactions integer, moved_planned_expenses integer, combined_planned_expenses integer)
+language plpgsql
+security invoker
+as $$
+declare
+  target_household_id uuid := get_current_household_id();
+  target_parent_id uuid;
+begin
+  -- Both categories are locked, so that no entries can be added to the merged category meanwhile
+  perform 1
+  from categories
+  where id = source_category_id
+    and household_id = target_household_id
+  for update;
+
+  if not found then
+    raise exception 'Category % not found', source_category_id
+      using errcode = 'no_data_found';
+  end if;
+
+  select parent_id
+  into target_parent_id
+  from categories
+  where id = target_category_id
+    and household_id = target_household_id
+  for update;
+
+  if not found then
+    raise exception 'Category % not found', target_category_id
+      using errcode = 'no_data_found';
+  end if;
+
+  -- A budget plans every category only once, so limits planned for both categories are added up
+  update planned_expenses t
+  set limit_amount = t.limit_amount + s.limit_amount
+  from planned_expenses s
+  where t.household_id = target_household_id
+    and t.category_id = target_category_id
+    and s.household_id = target_household_id
+    and s.category_id = source_category_id
+    and s.budget_id = t.budget_id;
+
+  get diagnostics combined_planned_expenses = row_count;
+
+  delete from planned_expenses s
+  where s.household_id = target_household_id
+    and s.category_id = source_category_id
+    and exists (
+      select 1
+      from planned_expenses t
+      where t.household_id = target_household_id
+        and t.category_id = target_category_id
+        and t.budget_id = s.budget_id
+    );
+
+  update planned_expenses
+  set category_id = target_category_id
+  where household_id = target_household_id
+    and category_id = source_category_id;
+
+  get diagnostics moved_planned_expenses = row_count;
+
+  -- A split transaction may end up with several lines of the target category, which is allowed;
+  -- it is counted once
+  with moved_parents as (
+    update transactions
+    set category_id = target_category_id
+    where household_id = target_household_id
+      and category_id = source_category_id
+    returning id
+  ),
+  moved_lines as (
+    update transaction_splits
+    set category_id = target_category_id
+    where household_id = target_household_id
+      and category_id = source_category_id
+    returning transaction_id
+  )
+  select count(*)::integer
+  into moved_transactions
+  from (
+    select id from moved_parents
+    union
+    select transaction_id from moved_lines
+  ) moved;
+
+  -- Rules and recurring transactions keep working for the target category
+  update categorization_rules
+  set category_id = target_category_id
+  where household_id = target_household_id
+    and category_id = source_category_id;
+
+  update recurring_transactions
+  set category_id = target_category_id
+  where household_id = target_household_id
+    and category_id = source_category_id;
+
+  -- A subcategory target cannot take subcategories; they become top-level when the category is deleted
+  if target_parent_id is null then
+    update categories
+    set parent_id = target_category_id,
+        updated_at = now()
+    where household_id = target_household_id
+      and parent_id = source_category_id;
+  end if;
+
+  delete from categories
+  where id = source_category_id
+    and household_id = target_household_id;
+
+  return next;
+end;
+$$;
+
+comment on function merge_category(uuid, uuid) is 'Merges a category of the current user''s household into another category and deletes it';
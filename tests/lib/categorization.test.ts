@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import {
+  findMatchingCategorizationRule,
+  matchesCategorizationRule,
+  suggestCategorizationPattern,
+} from "@/lib/categorization";
+
+const groceries = { categoryId: "food", pattern: "Biedronka", priority: 0 };
+const fuel = { categoryId: "car", pattern: "Orlen", priority: 0 };
+
+describe("categorization", () => {
+  describe("matchesCategorizationRule", () => {
+    it("matches the pattern anywhere in the note ignoring case and diacritics", () => {
+      expect(matchesCategorizationRule(groceries, { note: "JMP S.A. BIEDRONKA 1234 WARSZAWA" })).toBe(true);
+      expect(matchesCategorizationRule({ ...groceries, pattern: "żabka" }, { note: "ZABKA Z1234" })).toBe(true);
+    });
+
+    it("does not match a note without the pattern", () => {
+      expect(matchesCategorizationRule(groceries, { note: "Lidl" })).toBe(false);
+      expect(matchesCategorizationRule(groceries, { note: null })).toBe(false);
+    });
+
+    it("checks the amount range inclusively", () => {
+      const rule = { ...fuel, minAmount: 50, maxAmount: 400 };
+
+      expect(matchesCategorizationRule(rule, { note: "Orlen", amount: 50 })).toBe(true);
+      expect(matchesCategorizationRule(rule, { note: "Orlen", amount: 12.5 })).toBe(false);
+      expect(matchesCategorizationRule(rule, { note: "Orlen" })).toBe(false);
+    });
+  });
+
+  describe("findMatchingCategorizationRule", () => {
+    it("returns null when no rule matches", () => {
+      expect(findMatchingCategorizationRule([groceries, fuel], { note: "Apteka" })).toBeNull();
+    });
+
+    it("prefers the rule with the highest priority", () => {
+      const snacks = { categoryId: "snacks", pattern: "Orlen", priority: 5, maxAmount: 30 };
+
+      expect(findMatchingCategorizationRule([fuel, snacks], { note: "ORLEN STACJA 12", amount: 18 })).toBe(snacks);
+      expect(findMatchingCategorizationRule([fuel, snacks], { note: "ORLEN STACJA 12", amount: 250 })).toBe(fuel);
+    });
+
+    it("prefers the longer pattern on equal priority", () => {
+      const cafe = { categoryId: "eating-out", pattern: "Orlen Stop Cafe", priority: 0 };
+
+      expect(findMatchingCategorizationRule([fuel, cafe], { note: "ORLEN STOP CAFE 12" })).toBe(cafe);
+    });
+  });
+
+  describe("suggestCategorizationPattern", () => {
+    it("suggests the first word that is not a number", () => {
+      expect(suggestCategorizationPattern("1234 BIEDRONKA WARSZAWA")).toBe("BIEDRONKA");
+      expect(suggestCategorizationPattern("Żabka, ul. Długa 5")).toBe("Żabka");
+    });
+
+    it("returns null for notes without words", () => {
+      expect(suggestCategorizationPattern("12 / 34")).toBeNull();
+      expect(suggestCategorizationPattern(null)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_CATEGORY_ALERT_SETTINGS,
+  getCategoryStatus,
+  getMonthPace,
+  resolveCategoryAlertSettings,
+} from "@/lib/category-alerts";
+
+const NO_OVERRIDES = { warningThreshold: null, overThreshold: null, paceAlertDay: null, paceAlertPercent: null };
+const HOUSEHOLD = { warningThreshold: 75, overThreshold: 100, paceAlertDay: 10, paceAlertPercent: 50 };
+
+describe("category-alerts", () => {
+  describe("getMonthPace", () => {
+    it("reports the day and elapsed share of the current month", () => {
+      expect(getMonthPace("2024-04-01", new Date(2024, 3, 15))).toEqual({ dayOfMonth: 15, elapsedPercentage: 50 });
+    });
+
+    it("treats past months as elapsed and upcoming months as not started", () => {
+      expect(getMonthPace("2024-03-01", new Date(2024, 3, 15))).toEqual({ dayOfMonth: null, elapsedPercentage: 100 });
+      expect(getMonthPace("2024-05-01", new Date(2024, 3, 15))).toEqual({ dayOfMonth: null, elapsedPercentage: 0 });
+    });
+  });
+
+  describe("resolveCategoryAlertSettings", () => {
+    it("falls back to the household for missing overrides", () => {
+      expect(resolveCategoryAlertSettings(HOUSEHOLD, { ...NO_OVERRIDES, overThreshold: 110 }, "variable")).toEqual({
+        ...HOUSEHOLD,
+        overThreshold: 110,
+      });
+    });
+
+    it("inherits the household pace alert only for variable costs", () => {
+      expect(resolveCategoryAlertSettings(HOUSEHOLD, NO_OVERRIDES, "fixed")).toMatchObject({
+        paceAlertDay: null,
+        paceAlertPercent: null,
+      });
+      expect(
+        resolveCategoryAlertSettings(HOUSEHOLD, { ...NO_OVERRIDES, paceAlertDay: 5, paceAlertPercent: 20 }, "fixed")
+      ).toMatchObject({ paceAlertDay: 5, paceAlertPercent: 20 });
+    });
+  });
+
+  describe("getCategoryStatus", () => {
+    const midMonth = { dayOfMonth: 15, elapsedPercentage: 50 };
+
+    it("reaches a threshold as soon as spending is equal to it", () => {
+      expect(getCategoryStatus(2000, 2000, DEFAULT_CATEGORY_ALERT_SETTINGS, midMonth, "fixed")).toEqual({
+        progress: 100,
+        status: "over",
+      });
+      expect(getCategoryStatus(1600, 2000, DEFAULT_CATEGORY_ALERT_SETTINGS, midMonth, "fixed")).toEqual({
+        progress: 80,
+        status: "warning",
+      });
+      expect(getCategoryStatus(1599, 2000, DEFAULT_CATEGORY_ALERT_SETTINGS, midMonth, "fixed").status).toBe("ok");
+    });
+
+    it("applies the warning and overspending thresholds", () => {
+      const settings = { ...DEFAULT_CATEGORY_ALERT_SETTINGS, warningThreshold: 90, overThreshold: 110 };
+
+      expect(getCategoryStatus(850, 1000, settings, midMonth, "fixed").status).toBe("ok");
+      expect(getCategoryStatus(950, 1000, settings, midMonth, "fixed").status).toBe("warning");
+      expect(getCategoryStatus(1150, 1000, settings, midMonth, "fixed").status).toBe("over");
+    });
+
+    it("warns when the pace alert fires by its day", () => {
+      const settings = { ...DEFAULT_CATEGORY_ALERT_SETTINGS, paceAlertDay: 10, paceAlertPercent: 50 };
+
+      expect(getCategoryStatus(600, 1000, settings, { dayOfMonth: 8, elapsedPercentage: 25 }, "variable").status).toBe(
+        "warning"
+      );
+      expect(getCategoryStatus(600, 1000, settings, midMonth, "variable").status).toBe("ok");
+    });
+
+    it("marks variable costs spent faster than the month passes", () => {
+      expect(getCategoryStatus(700, 1000, DEFAULT_CATEGORY_ALERT_SETTINGS, midMonth, "variable").status).toBe(
+        "ahead_of_pace"
+      );
+      expect(getCategoryStatus(700, 1000, DEFAULT_CATEGORY_ALERT_SETTINGS, midMonth, "savings").status).toBe("ok");
+    });
+
+    it("treats spending without a limit as overspent", () => {
+      expect(getCategoryStatus(10, 0, DEFAULT_CATEGORY_ALERT_SETTINGS, midMonth, "variable")).toEqual({
+        progress: 100,
+        status: "over",
+      });
+      expect(getCategoryStatus(0, 0, DEFAULT_CATEGORY_ALERT_SETTINGS, midMonth, "variable").status).toBe("ok");
+    });
+  });
+});
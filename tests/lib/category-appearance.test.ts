@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { compareCategoryOrder, groupCategoriesByCostGroup, moveCategory } from "@/lib/category-appearance";
+
+describe("category-appearance", () => {
+  describe("compareCategoryOrder", () => {
+    it("orders by position and falls back to the name", () => {
+      const sorted = [
+        { name: "Jedzenie", sortOrder: 2 },
+        { name: "Auto", sortOrder: 2 },
+        { name: "Mieszkanie", sortOrder: 0 },
+      ].sort(compareCategoryOrder);
+
+      expect(sorted.map((category) => category.name)).toEqual(["Mieszkanie", "Auto", "Jedzenie"]);
+    });
+  });
+
+  describe("moveCategory", () => {
+    it("puts the category at the position of the target", () => {
+      expect(moveCategory(["a", "b", "c", "d"], "a", "c")).toEqual(["b", "c", "a", "d"]);
+      expect(moveCategory(["a", "b", "c", "d"], "d", "b")).toEqual(["a", "d", "b", "c"]);
+    });
+
+    it("keeps the order when an ID is unknown", () => {
+      expect(moveCategory(["a", "b"], "x", "a")).toEqual(["a", "b"]);
+    });
+  });
+
+  describe("groupCategoriesByCostGroup", () => {
+    it("sums every group and skips empty ones", () => {
+      const groups = groupCategoriesByCostGroup([
+        { id: "food", group: "variable" as const, spent: 420.5, limit: 800 },
+        { id: "rent", group: "fixed" as const, spent: 2000, limit: 2000 },
+        { id: "fun", group: "variable" as const, spent: 100, limit: 200 },
+      ]);
+
+      expect(
+        groups.map(({ group, categories, spent, limit }) => [group, categories.map((c) => c.id), spent, limit])
+      ).toEqual([
+        ["fixed", ["rent"], 2000, 2000],
+        ["variable", ["food", "fun"], 520.5, 1000],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildCategoryTree,
+  rollUpCategoryAmounts,
+  sumPlannedLimits,
+  validateCategoryParent,
+} from "@/lib/category-tree";
+
+const categories = [
+  { id: "car", parentId: null },
+  { id: "fuel", parentId: "car" },
+  { id: "insurance", parentId: "car" },
+  { id: "food", parentId: null },
+];
+
+const parentById = new Map(categories.map((category) => [category.id, category.parentId]));
+
+describe("category-tree", () => {
+  describe("validateCategoryParent", () => {
+    it("accepts a top-level parent for a category without subcategories", () => {
+      expect(validateCategoryParent(categories, "food", "car")).toBeNull();
+      expect(validateCategoryParent(categories, null, "car")).toBeNull();
+    });
+
+    it("rejects a parent from outside the household", () => {
+      expect(validateCategoryParent(categories, "food", "unknown")).toBe("INVALID_PARENT_ID");
+    });
+
+    it("rejects the category itself and its own subcategories as parents", () => {
+      expect(validateCategoryParent(categories, "car", "car")).toBe("CATEGORY_PARENT_CYCLE");
+      expect(validateCategoryParent(categories, "car", "fuel")).toBe("CATEGORY_PARENT_CYCLE");
+    });
+
+    it("keeps the tree two levels deep", () => {
+      expect(validateCategoryParent(categories, "food", "fuel")).toBe("CATEGORY_DEPTH_EXCEEDED");
+      expect(validateCategoryParent(categories, "car", "food")).toBe("CATEGORY_DEPTH_EXCEEDED");
+    });
+  });
+
+  describe("rollUpCategoryAmounts", () => {
+    it("adds subcategory spending to the parent and keeps the subcategories unchanged", () => {
+      const rolledUp = rollUpCategoryAmounts(
+        new Map([
+          ["car", 50],
+          ["fuel", 200],
+          ["insurance", 120.5],
+          ["food", 300],
+        ]),
+        parentById
+      );
+
+      expect(Object.fromEntries(rolledUp)).toEqual({ car: 370.5, fuel: 200, insurance: 120.5, food: 300 });
+    });
+
+    it("creates a parent entry when only subcategories have spending", () => {
+      expect(rollUpCategoryAmounts(new Map([["fuel", 80]]), parentById).get("car")).toBe(80);
+    });
+  });
+
+  describe("sumPlannedLimits", () => {
+    it("counts subcategory limits once when the parent has a covering limit", () => {
+      expect(
+        sumPlannedLimits(
+          [
+            { categoryId: "car", limitAmount: 1000 },
+            { categoryId: "fuel", limitAmount: 400 },
+            { categoryId: "insurance", limitAmount: 300 },
+            { categoryId: "food", limitAmount: 800 },
+          ],
+          parentById
+        )
+      ).toBe(1800);
+    });
+
+    it("counts the subcategory limits when they exceed the parent limit", () => {
+      expect(
+        sumPlannedLimits(
+          [
+            { categoryId: "car", limitAmount: 0 },
+            { categoryId: "fuel", limitAmount: 400 },
+            { categoryId: "insurance", limitAmount: 300 },
+          ],
+          parentById
+        )
+      ).toBe(700);
+    });
+  });
+
+  describe("buildCategoryTree", () => {
+    it("nests subcategories under their parents in input order", () => {
+      const tree = buildCategoryTree(categories);
+
+      expect(tree.map((node) => [node.category.id, node.children.map((child) => child.id)])).toEqual([
+        ["car", ["fuel", "insurance"]],
+        ["food", []],
+      ]);
+    });
+
+    it("shows subcategories at the top level when their parent is missing", () => {
+      const tree = buildCategoryTree(categories.filter((category) => category.id !== "car"));
+
+      expect(tree.map((node) => node.category.id)).toEqual(["fuel", "insurance", "food"]);
+    });
+  });
+});
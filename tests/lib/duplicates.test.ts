@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateNoteSimilarity,
+  findDuplicatePairs,
+  getDuplicateDateRange,
+  isSuspectedDuplicate,
+  tokenizeNote,
+} from "@/lib/duplicates";
+
+const expense = { categoryId: "food", amount: 45.1, transactionDate: "2024-10-05", note: "Biedronka" };
+
+describe("duplicates", () => {
+  describe("tokenizeNote", () => {
+    it("lowercases words and strips Polish diacritics", () => {
+      expect(tokenizeNote("Żabka, ul. Długa 5")).toEqual(new Set(["zabka", "ul", "dluga", "5"]));
+    });
+  });
+
+  describe("calculateNoteSimilarity", () => {
+    it("matches a hand-typed note contained in the bank description", () => {
+      expect(calculateNoteSimilarity("Biedronka", "BIEDRONKA 1234 WARSZAWA")).toBe(1);
+    });
+
+    it("treats an empty note as similar to any note", () => {
+      expect(calculateNoteSimilarity(null, "Lidl")).toBe(1);
+    });
+
+    it("returns 0 for notes without common words", () => {
+      expect(calculateNoteSimilarity("Biedronka", "Lidl")).toBe(0);
+    });
+  });
+
+  describe("isSuspectedDuplicate", () => {
+    it("flags the same expense booked two days later", () => {
+      expect(isSuspectedDuplicate(expense, { ...expense, transactionDate: "2024-10-07", note: "BIEDRONKA 1234" })).toBe(
+        true
+      );
+    });
+
+    it("ignores transactions outside the date window", () => {
+      expect(isSuspectedDuplicate(expense, { ...expense, transactionDate: "2024-10-09" })).toBe(false);
+    });
+
+    it("ignores different categories, amounts and notes", () => {
+      expect(isSuspectedDuplicate(expense, { ...expense, categoryId: "home" })).toBe(false);
+      expect(isSuspectedDuplicate(expense, { ...expense, amount: 45.11 })).toBe(false);
+      expect(isSuspectedDuplicate(expense, { ...expense, note: "Lidl" })).toBe(false);
+    });
+
+    it("never pairs a refund with the expense it returns", () => {
+      expect(isSuspectedDuplicate(expense, { ...expense, kind: "refund" })).toBe(false);
+      expect(isSuspectedDuplicate({ ...expense, kind: "expense" }, expense)).toBe(true);
+    });
+  });
+
+  describe("getDuplicateDateRange", () => {
+    it("extends the range of dates by the window on both sides", () => {
+      expect(getDuplicateDateRange(["2024-10-15", "2024-09-30"])).toEqual({
+        fromDate: "2024-09-27",
+        toDate: "2024-10-18",
+      });
+    });
+
+    it("returns null without dates", () => {
+      expect(getDuplicateDateRange([])).toBeNull();
+    });
+  });
+
+  describe("findDuplicatePairs", () => {
+    it("pairs duplicates with the earlier transaction first", () => {
+      const later = { ...expense, id: "b", transactionDate: "2024-10-06" };
+      const earlier = { ...expense, id: "a" };
+      const other = { ...expense, id: "c", amount: 12 };
+
+      expect(findDuplicatePairs([later, other, earlier])).toEqual([{ transaction: earlier, duplicate: later }]);
+    });
+
+    it("returns every pair among repeated entries", () => {
+      const transactions = ["a", "b", "c"].map((id) => ({ ...expense, id }));
+
+      expect(findDuplicatePairs(transactions).map((pair) => [pair.transaction.id, pair.duplicate.id])).toEqual([
+        ["a", "b"],
+        ["a", "c"],
+        ["b", "c"],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { buildCsv, formatCsvCell } from "@/lib/export/csv";
+import { parseCsv } from "@/lib/import/csv";
+
+describe("csv export", () => {
+  describe("formatCsvCell", () => {
+    it.each([
+      [null, ""],
+      [12.5, "12,5"],
+      [-1234.56, "-1234,56"],
+      ["Zakupy", "Zakupy"],
+      ["Sklep; spożywczy", '"Sklep; spożywczy"'],
+      ['Sklep "Żabka"', '"Sklep ""Żabka"""'],
+      ["=SUM(A1:A2)", "'=SUM(A1:A2)"],
+    ])("formats %s", (cell, expected) => {
+      expect(formatCsvCell(cell)).toBe(expected);
+    });
+  });
+
+  describe("buildCsv", () => {
+    it("writes a byte order mark, a header row and CRLF line endings", () => {
+      const csv = buildCsv({
+        key: "transactions",
+        name: "Transakcje",
+        columns: ["Data", "Kwota", "Notatka"],
+        rows: [["2025-01-15", 99.9, "Biedronka\nzakupy"]],
+      });
+
+      expect(csv.startsWith("\uFEFFData;Kwota;Notatka\r\n")).toBe(true);
+      expect(csv.endsWith("\r\n")).toBe(true);
+      expect(parseCsv(csv, ";")).toEqual([
+        ["Data", "Kwota", "Notatka"],
+        ["2025-01-15", "99,9", "Biedronka\nzakupy"],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { buildXlsx, getColumnName } from "@/lib/export/xlsx";
+import { crc32, createZip } from "@/lib/export/zip";
+
+/**
+ * Reads the entry names from the central directory of a ZIP archive.
+ */
+const readZipEntryNames = (archive: Uint8Array): string[] => {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const endOffset = archive.length - 22;
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  const names: string[] = [];
+
+  for (let index = 0; index < entryCount; index += 1) {
+    const nameLength = view.getUint16(offset + 28, true);
+    names.push(new TextDecoder().decode(archive.slice(offset + 46, offset + 46 + nameLength)));
+    offset += 46 + nameLength;
+  }
+
+  return names;
+};
+
+describe("xlsx export", () => {
+  describe("crc32", () => {
+    it("matches the standard check value", () => {
+      expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+    });
+  });
+
+  describe("createZip", () => {
+    it("writes local headers and a central directory for every entry", () => {
+      const archive = createZip([
+        { path: "a.txt", content: new TextEncoder().encode("alpha") },
+        { path: "folder/ż.txt", content: new Uint8Array() },
+      ]);
+      const view = new DataView(archive.buffer);
+
+      expect(view.getUint32(0, true)).toBe(0x04034b50);
+      expect(view.getUint32(archive.length - 22, true)).toBe(0x06054b50);
+      expect(readZipEntryNames(archive)).toEqual(["a.txt", "folder/ż.txt"]);
+    });
+  });
+
+  describe("getColumnName", () => {
+    it.each([
+      [0, "A"],
+      [25, "Z"],
+      [26, "AA"],
+      [701, "ZZ"],
+      [702, "AAA"],
+    ])("names column %i", (index, expected) => {
+      expect(getColumnName(index)).toBe(expected);
+    });
+  });
+
+  describe("buildXlsx", () => {
+    it("writes one worksheet per sheet with escaped text and numeric cells", () => {
+      const workbook = buildXlsx([
+        { key: "summary", name: "Podsumowanie", columns: ["Miesiąc", "Wydatki"], rows: [["2025-01", 1250.5]] },
+        { key: "transactions", name: "Transakcje", columns: ["Notatka"], rows: [["Rachunek <prąd> & gaz"], [null]] },
+      ]);
+      const content = new TextDecoder().decode(workbook);
+
+      expect(readZipEntryNames(workbook)).toEqual([
+        "[Content_Types].xml",
+        "_rels/.rels",
+        "xl/workbook.xml",
+        "xl/_rels/workbook.xml.rels",
+        "xl/styles.xml",
+        "xl/worksheets/sheet1.xml",
+        "xl/worksheets/sheet2.xml",
+      ]);
+      expect(content).toContain('<sheet name="Podsumowanie" sheetId="1" r:id="rId1"/>');
+      expect(content).toContain('<c r="B2" s="2"><v>1250.5</v></c>');
+      expect(content).toContain("Rachunek &lt;prąd&gt; &amp; gaz");
+      expect(content).toContain('<row r="3"></row>');
+    });
+  });
+});
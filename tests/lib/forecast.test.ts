@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { buildDailyAmounts, forecastSpending, getForecastPeriod } from "@/lib/forecast";
+
+describe("forecast", () => {
+  describe("getForecastPeriod", () => {
+    it("counts the elapsed days of the current month", () => {
+      expect(getForecastPeriod("2024-02-01", new Date(2024, 1, 10))).toEqual({ daysElapsed: 10, daysInMonth: 29 });
+    });
+
+    it("treats past months as elapsed and upcoming months as not started", () => {
+      expect(getForecastPeriod("2024-01-01", new Date(2024, 1, 10))).toEqual({ daysElapsed: 31, daysInMonth: 31 });
+      expect(getForecastPeriod("2024-03-01", new Date(2024, 1, 10))).toEqual({ daysElapsed: 0, daysInMonth: 31 });
+    });
+  });
+
+  describe("buildDailyAmounts", () => {
+    it("sums lines per elapsed day and skips future-dated ones", () => {
+      const lines = [
+        { date: "2024-03-01", amount: 20 },
+        { date: "2024-03-03", amount: 15 },
+        { date: "2024-03-03", amount: 5 },
+        { date: "2024-03-20", amount: 100 },
+        { date: "2024-02-28", amount: 10 },
+      ];
+
+      expect(buildDailyAmounts(lines, "2024-03-01", 4)).toEqual([30, 0, 20, 0]);
+    });
+  });
+
+  describe("forecastSpending", () => {
+    const period = { daysElapsed: 10, daysInMonth: 30 };
+
+    it("extrapolates a steady daily rate without widening the band", () => {
+      const forecast = forecastSpending(
+        { spent: 100, upcomingRecurring: 0, plannedOutflow: 0, dailyAmounts: Array.from({ length: 10 }, () => 10) },
+        period
+      );
+
+      expect(forecast).toEqual({
+        projectedSpent: 300,
+        lowerBound: 300,
+        upperBound: 300,
+        upcomingRecurring: 0,
+        daysRemaining: 20,
+      });
+    });
+
+    it("adds known outflows and widens the band for irregular spending", () => {
+      const forecast = forecastSpending(
+        { spent: 150, upcomingRecurring: 50, plannedOutflow: 200, dailyAmounts: [0, 20, 0, 20, 0, 20, 0, 20, 0, 20] },
+        period
+      );
+
+      expect(forecast.projectedSpent).toBe(600);
+      expect(forecast.lowerBound).toBeLessThan(600);
+      expect(forecast.lowerBound).toBeGreaterThanOrEqual(400);
+      expect(forecast.upperBound - 600).toBeCloseTo(600 - forecast.lowerBound, 2);
+    });
+
+    it("keeps a finished month at its spending", () => {
+      expect(
+        forecastSpending(
+          { spent: 420, upcomingRecurring: 30, plannedOutflow: 80, dailyAmounts: [420] },
+          { daysElapsed: 30, daysInMonth: 30 }
+        )
+      ).toEqual({ projectedSpent: 420, lowerBound: 420, upperBound: 420, upcomingRecurring: 0, daysRemaining: 0 });
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import { remapBackupIds } from "@/lib/household-backup";
+import { parseHouseholdBackup } from "@/lib/validation/household-backup";
+import type { HouseholdBackupDto } from "@/types";
+
+const id = (n: number) => `00000000-0000-4000-8000-${String(n).padStart(12, "0")}`;
+
+const category = (categoryId: string, name: string, parentId: string | null = null) => ({
+  id: categoryId,
+  name,
+  parentId,
+  isArchived: false,
+  color: null,
+  icon: null,
+  sortOrder: 0,
+  group: "variable" as const,
+  warningThreshold: null,
+  overThreshold: null,
+  paceAlertDay: null,
+  paceAlertPercent: null,
+});
+
+const transaction = (transactionId: string, overrides: Partial<HouseholdBackupDto["transactions"][number]> = {}) => ({
+  id: transactionId,
+  budgetId: id(20),
+  categoryId: id(11),
+  householdMemberId: id(1),
+  kind: "expense" as const,
+  amount: 120.5,
+  transactionDate: "2025-03-05",
+  note: null,
+  externalId: null,
+  refundedTransactionId: null,
+  ...overrides,
+});
+
+const createBackup = (): HouseholdBackupDto => ({
+  version: 1,
+  exportedAt: "2025-04-01T10:00:00.000Z",
+  household: {
+    name: "Dom",
+    categoryWarningThreshold: 80,
+    categoryOverThreshold: 100,
+    paceAlertDay: null,
+    paceAlertPercent: null,
+  },
+  members: [{ id: id(1), fullName: "Anna", isActive: true }],
+  categories: [category(id(10), "Dom"), category(id(11), "Remont", id(10))],
+  budgets: [{ id: id(20), month: "2025-03-01", note: null }],
+  incomes: [{ id: id(30), budgetId: id(20), householdMemberId: id(1), amount: 5000 }],
+  plannedExpenses: [{ id: id(40), budgetId: id(20), categoryId: id(10), limitAmount: 1000, rolloverMode: "none" }],
+  transactions: [
+    transaction(id(50)),
+    transaction(id(51), { kind: "refund", amount: 20, refundedTransactionId: id(50) }),
+  ],
+  transactionSplits: [],
+});
+
+describe("parseHouseholdBackup", () => {
+  it("accepts a consistent backup", () => {
+    expect(parseHouseholdBackup(createBackup())).toEqual(createBackup());
+  });
+
+  it("rejects other versions", () => {
+    expect(() => parseHouseholdBackup({ ...createBackup(), version: 2 })).toThrow(/^UNSUPPORTED_BACKUP_VERSION: /);
+  });
+
+  it("rejects references to records missing from the backup", () => {
+    const backup = createBackup();
+
+    expect(() =>
+      parseHouseholdBackup({ ...backup, incomes: [{ ...backup.incomes[0], householdMemberId: id(2) }] })
+    ).toThrow("INVALID_BACKUP: Household member not found in the backup (incomes.0.householdMemberId)");
+  });
+
+  it("rejects categories nested more than two levels deep", () => {
+    const backup = createBackup();
+
+    expect(() =>
+      parseHouseholdBackup({ ...backup, categories: [...backup.categories, category(id(12), "Farby", id(11))] })
+    ).toThrow("Parent category must be a top-level category");
+  });
+
+  it("rejects duplicated budget months and refunds of unknown transactions", () => {
+    const backup = createBackup();
+
+    expect(() =>
+      parseHouseholdBackup({ ...backup, budgets: [...backup.budgets, { id: id(21), month: "2025-03-01", note: null }] })
+    ).toThrow("Only one budget per month is allowed");
+    expect(() =>
+      parseHouseholdBackup({
+        ...backup,
+        transactions: [transaction(id(50), { kind: "refund", refundedTransactionId: id(59) })],
+      })
+    ).toThrow("Refunded transaction not found in the backup");
+  });
+});
+
+describe("remapBackupIds", () => {
+  it("assigns new IDs and keeps references between records", () => {
+    let next = 100;
+    const remapped = remapBackupIds(createBackup(), () => id((next += 1)));
+    const [parent, child] = remapped.categories;
+    const [expense, refund] = remapped.transactions;
+
+    expect(remapped.members[0].id).not.toBe(id(1));
+    expect(child.parentId).toBe(parent.id);
+    expect(remapped.incomes[0]).toMatchObject({
+      budgetId: remapped.budgets[0].id,
+      householdMemberId: remapped.members[0].id,
+    });
+    expect(remapped.plannedExpenses[0].categoryId).toBe(parent.id);
+    expect(expense).toMatchObject({
+      budgetId: remapped.budgets[0].id,
+      categoryId: child.id,
+      householdMemberId: remapped.members[0].id,
+    });
+    expect(refund.refundedTransactionId).toBe(expense.id);
+    expect(new Set([parent.id, child.id, expense.id, refund.id, remapped.incomes[0].id]).size).toBe(5);
+  });
+});
@@ -0,0 +1,25 @@
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { describe, it, expect } from "vitest";
+import { parseCamt053Statement } from "@/lib/import/camt053";
+
+const sample = readFileSync(resolve(__dirname, "../../fixtures/statements/sample.camt053.xml"), "utf-8");
+
+describe("parseCamt053Statement", () => {
+  it("reads booked entries and skips pending ones", () => {
+    expect(parseCamt053Statement(sample)).toEqual([
+      {
+        bookingDate: "2024-10-07",
+        amount: -59.99,
+        description: "NETFLIX INTERNATIONAL B.V. Subskrypcja 10/2024",
+        reference: "CAMT-2024100700001",
+      },
+      { bookingDate: "2024-10-10", amount: 3200, description: "Wynagrodzenie", reference: "CAMT-2024101000002" },
+      { bookingDate: "2024-10-20", amount: -120, description: "Opłata za przedszkole & wyżywienie", reference: "4" },
+    ]);
+  });
+
+  it("rejects XML that is not a camt.053 statement", () => {
+    expect(() => parseCamt053Statement('<?xml version="1.0"?><Document></Document>')).toThrow("INVALID_STATEMENT");
+  });
+});
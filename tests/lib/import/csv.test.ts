@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { csvToImportDrafts, parseCsv, parseImportAmount, parseImportDate } from "@/lib/import/csv";
+
+describe("csv import", () => {
+  describe("parseCsv", () => {
+    it("detects semicolons and handles quoted fields", () => {
+      expect(parseCsv('Data;Kwota;Opis\r\n01.10.2024;"-12,50";"Sklep ""Żabka"""\r\n')).toEqual([
+        ["Data", "Kwota", "Opis"],
+        ["01.10.2024", "-12,50", 'Sklep "Żabka"'],
+      ]);
+    });
+
+    it("skips empty lines and a byte order mark", () => {
+      expect(parseCsv("\uFEFFa,b\n\n1,2\n", ",")).toEqual([
+        ["a", "b"],
+        ["1", "2"],
+      ]);
+    });
+  });
+
+  describe("parseImportAmount", () => {
+    it.each([
+      ["-1 234,56", -1234.56],
+      ["1.234,56 PLN", 1234.56],
+      ["-45.10", -45.1],
+      ["1,234.56", 1234.56],
+      ["12,5", 12.5],
+    ])("parses %s", (value, expected) => {
+      expect(parseImportAmount(value)).toBe(expected);
+    });
+
+    it("returns null for text", () => {
+      expect(parseImportAmount("brak")).toBeNull();
+    });
+  });
+
+  describe("parseImportDate", () => {
+    it.each([
+      ["05.10.2024", "2024-10-05"],
+      ["5/10/2024", "2024-10-05"],
+      ["2024-10-05", "2024-10-05"],
+      ["2024-10-05 13:45:00", "2024-10-05"],
+    ])("parses %s", (value, expected) => {
+      expect(parseImportDate(value)).toBe(expected);
+    });
+
+    it("rejects dates that do not exist", () => {
+      expect(parseImportDate("31.02.2024")).toBeNull();
+    });
+  });
+
+  describe("csvToImportDrafts", () => {
+    const csv = [
+      "Data operacji;Kwota;Opis;Kategoria",
+      "01.10.2024;-120,50;Biedronka  Warszawa;Jedzenie",
+      "02.10.2024;5000,00;Wynagrodzenie;",
+      "xx;-10,00;Kiosk;",
+    ].join("\n");
+
+    it("maps columns by header name and skips incoming transfers", () => {
+      const drafts = csvToImportDrafts(csv, {
+        mapping: { date: "Data operacji", amount: "Kwota", description: "Opis", category: "Kategoria" },
+        hasHeader: true,
+        expenseSign: "negative",
+      });
+
+      expect(drafts).toEqual([
+        {
+          rowNumber: 2,
+          transactionDate: "2024-10-01",
+          amount: 120.5,
+          note: "Biedronka Warszawa",
+          categoryName: "Jedzenie",
+          errors: [],
+        },
+        { rowNumber: 3, skipReason: "NOT_AN_EXPENSE", errors: [] },
+        {
+          rowNumber: 4,
+          transactionDate: undefined,
+          amount: 10,
+          note: "Kiosk",
+          categoryName: undefined,
+          errors: [{ field: "transactionDate", code: "INVALID_DATE", message: '"xx" is not a valid date' }],
+        },
+      ]);
+    });
+
+    it("rejects a mapping to a column that is not in the header", () => {
+      expect(() =>
+        csvToImportDrafts(csv, {
+          mapping: { date: "Data księgowania", amount: "Kwota", description: "Opis" },
+          hasHeader: true,
+          expenseSign: "negative",
+        })
+      ).toThrow("INVALID_MAPPING");
+    });
+  });
+});
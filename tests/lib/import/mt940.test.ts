@@ -0,0 +1,35 @@
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { describe, it, expect } from "vitest";
+import { parseMt940Statement } from "@/lib/import/mt940";
+
+const sample = readFileSync(resolve(__dirname, "../../fixtures/statements/sample.mt940"), "utf-8");
+
+describe("parseMt940Statement", () => {
+  it("reads statement lines with their descriptions", () => {
+    expect(parseMt940Statement(sample)).toEqual([
+      {
+        bookingDate: "2024-10-01",
+        amount: -120.5,
+        description: "BIEDRONKA 1234 WARSZAWA Karta 1234 XXXX BIEDRONKA",
+        reference: "BR24100112345",
+      },
+      {
+        bookingDate: "2024-10-03",
+        amount: 4500,
+        description: "Wynagrodzenie 10/2024 PRACODAWCA SP. Z O.O.",
+        reference: "BR24100354321",
+      },
+      {
+        bookingDate: "2024-10-05",
+        amount: -89.99,
+        description: "ORLEN STACJA NR 123 KRAKOW",
+        reference: "REF2024100501",
+      },
+    ]);
+  });
+
+  it("rejects content that is not an MT940 statement", () => {
+    expect(() => parseMt940Statement("Data;Kwota\n01.10.2024;-10,00")).toThrow("INVALID_STATEMENT");
+  });
+});
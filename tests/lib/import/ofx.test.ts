@@ -0,0 +1,31 @@
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { describe, it, expect } from "vitest";
+import { parseOfxStatement } from "@/lib/import/ofx";
+
+const sample = readFileSync(resolve(__dirname, "../../fixtures/statements/sample.ofx"), "utf-8");
+
+describe("parseOfxStatement", () => {
+  it("reads transactions from an SGML statement", () => {
+    expect(parseOfxStatement(sample)).toEqual([
+      {
+        bookingDate: "2024-10-02",
+        amount: -45.3,
+        description: "LIDL SP. Z O.O. Zakupy spożywcze & chemia",
+        reference: "2024100200001",
+      },
+      { bookingDate: "2024-10-10", amount: 200, description: "JAN KOWALSKI", reference: "2024101000002" },
+      { bookingDate: "2024-10-15", amount: -1250, description: "CZYNSZ", reference: "2024101500003" },
+    ]);
+  });
+
+  it("reads transactions from an XML statement", () => {
+    const xml =
+      "<OFX><STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20241102</DTPOSTED><TRNAMT>-9.99</TRNAMT>" +
+      "<FITID>X1</FITID><NAME>Spotify</NAME></STMTTRN></OFX>";
+
+    expect(parseOfxStatement(xml)).toEqual([
+      { bookingDate: "2024-11-02", amount: -9.99, description: "Spotify", reference: "X1" },
+    ]);
+  });
+});
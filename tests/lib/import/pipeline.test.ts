@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import { resolveImportDrafts } from "@/lib/import/pipeline";
+
+const FOOD_ID = "6f1f8c2a-2b7e-4c55-9d3e-0a1b2c3d4e5f";
+const OTHER_ID = "7a2b9d3b-3c8f-4d66-8e4f-1b2c3d4e5f60";
+
+describe("import pipeline", () => {
+  const categories = [
+    { id: FOOD_ID, name: "Jedzenie" },
+    { id: OTHER_ID, name: "Inne" },
+  ];
+
+  it("matches category names case-insensitively", () => {
+    const [row] = resolveImportDrafts(
+      [
+        {
+          rowNumber: 2,
+          transactionDate: "2024-10-01",
+          amount: 12.5,
+          note: "Biedronka",
+          categoryName: "jedzenie",
+          errors: [],
+        },
+      ],
+      { categories }
+    );
+
+    expect(row.status).toBe("valid");
+    expect(row.transaction).toMatchObject({ categoryId: FOOD_ID, amount: 12.5, transactionDate: "2024-10-01" });
+  });
+
+  it("falls back to the default category for unknown names", () => {
+    const [row] = resolveImportDrafts(
+      [{ rowNumber: 2, transactionDate: "2024-10-01", amount: 10, categoryName: "Paliwo", errors: [] }],
+      { categories, defaultCategoryId: OTHER_ID }
+    );
+
+    expect(row.transaction?.categoryId).toBe(OTHER_ID);
+  });
+
+  it("uses the rule category unless the file names an existing category", () => {
+    const [byRule, byName] = resolveImportDrafts(
+      [
+        { rowNumber: 2, transactionDate: "2024-10-01", amount: 10, note: "ORLEN", ruleCategoryId: FOOD_ID, errors: [] },
+        {
+          rowNumber: 3,
+          transactionDate: "2024-10-01",
+          amount: 10,
+          note: "ORLEN",
+          categoryName: "Inne",
+          ruleCategoryId: FOOD_ID,
+          errors: [],
+        },
+      ],
+      { categories, defaultCategoryId: OTHER_ID }
+    );
+
+    expect(byRule.transaction?.categoryId).toBe(FOOD_ID);
+    expect(byName.transaction?.categoryId).toBe(OTHER_ID);
+  });
+
+  it("requires a category when neither the file, a rule nor the default provides one", () => {
+    const [row] = resolveImportDrafts(
+      [{ rowNumber: 2, transactionDate: "2024-10-01", amount: 10, note: "Apteka", errors: [] }],
+      { categories }
+    );
+
+    expect(row.status).toBe("invalid");
+    expect(row.errors.map((error) => error.code)).toEqual(["INVALID_CATEGORY_ID"]);
+  });
+
+  it("reports unknown categories and validation errors of the transaction rules", () => {
+    const [row] = resolveImportDrafts(
+      [{ rowNumber: 3, transactionDate: "2024-10-01", amount: 10.555, categoryName: "Paliwo", errors: [] }],
+      { categories }
+    );
+
+    expect(row.status).toBe("invalid");
+    expect(row.errors.map((error) => error.code)).toEqual(["CATEGORY_NOT_FOUND", "INVALID_AMOUNT"]);
+  });
+
+  it("keeps file reading errors instead of duplicating them", () => {
+    const [row] = resolveImportDrafts(
+      [
+        {
+          rowNumber: 4,
+          amount: 10,
+          errors: [{ field: "transactionDate", code: "INVALID_DATE", message: '"xx" is not a valid date' }],
+        },
+      ],
+      { categories, defaultCategoryId: FOOD_ID }
+    );
+
+    expect(row.errors).toEqual([
+      { field: "transactionDate", code: "INVALID_DATE", message: '"xx" is not a valid date' },
+    ]);
+  });
+
+  it("passes skipped rows through", () => {
+    expect(resolveImportDrafts([{ rowNumber: 5, skipReason: "NOT_AN_EXPENSE", errors: [] }], { categories })).toEqual([
+      { rowNumber: 5, status: "skipped", transaction: null, errors: [], skipReason: "NOT_AN_EXPENSE" },
+    ]);
+  });
+
+  it("skips rows that look like duplicates of existing transactions unless allowed", () => {
+    const drafts = [
+      { rowNumber: 2, transactionDate: "2024-10-03", amount: 45.1, note: "BIEDRONKA 1234 WARSZAWA", errors: [] },
+    ];
+    const existingTransactions = [
+      { categoryId: FOOD_ID, amount: 45.1, transactionDate: "2024-10-01", note: "Biedronka" },
+    ];
+
+    const [skipped] = resolveImportDrafts(drafts, { categories, defaultCategoryId: FOOD_ID, existingTransactions });
+    const [allowed] = resolveImportDrafts(drafts, {
+      categories,
+      defaultCategoryId: FOOD_ID,
+      existingTransactions,
+      allowDuplicates: true,
+    });
+
+    expect(skipped).toMatchObject({ status: "skipped", skipReason: "DUPLICATE_SUSPECTED" });
+    expect(allowed.status).toBe("valid");
+  });
+});
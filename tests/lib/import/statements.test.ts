@@ -0,0 +1,37 @@
+import { readFileSync } from "fs";
+import { resolve } from "path";
+import { describe, it, expect } from "vitest";
+import { resolveImportDrafts } from "@/lib/import/pipeline";
+import { statementToImportDrafts } from "@/lib/import/statements";
+
+const CATEGORY_ID = "6f1f8c2a-2b7e-4c55-9d3e-0a1b2c3d4e5f";
+
+const sample = readFileSync(resolve(__dirname, "../../fixtures/statements/sample.mt940"), "utf-8");
+
+describe("statement import", () => {
+  it("imports debits as expenses with the bank reference and skips credits", () => {
+    const rows = resolveImportDrafts(statementToImportDrafts("mt940", sample), {
+      categories: [],
+      defaultCategoryId: CATEGORY_ID,
+    });
+
+    expect(rows.map((row) => row.status)).toEqual(["valid", "skipped", "valid"]);
+    expect(rows[0].transaction).toEqual({
+      categoryId: CATEGORY_ID,
+      amount: 120.5,
+      transactionDate: "2024-10-01",
+      note: "BIEDRONKA 1234 WARSZAWA Karta 1234 XXXX BIEDRONKA",
+      externalId: "BR24100112345",
+    });
+  });
+
+  it("skips entries that were imported before", () => {
+    const rows = resolveImportDrafts(statementToImportDrafts("mt940", sample), {
+      categories: [],
+      defaultCategoryId: CATEGORY_ID,
+      existingExternalIds: new Set(["BR24100112345"]),
+    });
+
+    expect(rows[0]).toMatchObject({ status: "skipped", skipReason: "ALREADY_IMPORTED" });
+  });
+});
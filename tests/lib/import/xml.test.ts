@@ -0,0 +1,15 @@
+import { describe, it, expect } from "vitest";
+import { decodeXmlEntities } from "@/lib/import/xml";
+
+describe("decodeXmlEntities", () => {
+  it("decodes predefined entities and character references", () => {
+    expect(decodeXmlEntities("Zakupy &amp; chemia &#8211; &#x17C;abka &lt;3")).toBe("Zakupy & chemia – żabka <3");
+  });
+
+  it("rejects character references outside the Unicode range", () => {
+    expect(() => decodeXmlEntities("&#99999999;")).toThrow("INVALID_STATEMENT");
+    expect(() => decodeXmlEntities("&#x110000;")).toThrow("INVALID_STATEMENT");
+    expect(() => decodeXmlEntities("&#xD800;")).toThrow("INVALID_STATEMENT");
+    expect(() => decodeXmlEntities("&#0;")).toThrow("INVALID_STATEMENT");
+  });
+});
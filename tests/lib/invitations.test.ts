@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import {
+  generateInvitationToken,
+  getHouseholdLeaveBlocker,
+  getInvitationStatus,
+  hashInvitationToken,
+} from "@/lib/invitations";
+import { getSafeRedirectPath, withRedirectParam } from "@/lib/redirect";
+import { parseCreateHouseholdInvitationBody } from "@/lib/validation/household-invitations";
+
+describe("generateInvitationToken", () => {
+  it("generates distinct URL-safe tokens from 32 random bytes", () => {
+    const first = generateInvitationToken();
+    const second = generateInvitationToken();
+
+    expect(first).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(second).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(first).not.toBe(second);
+  });
+});
+
+describe("hashInvitationToken", () => {
+  it("returns the hex encoded SHA-256 hash used by the database", async () => {
+    await expect(hashInvitationToken("abc")).resolves.toBe(
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+    );
+  });
+});
+
+describe("getInvitationStatus", () => {
+  const now = new Date("2025-03-10T12:00:00Z");
+  const pending = { acceptedAt: null, revokedAt: null, expiresAt: "2025-03-12T12:00:00Z" };
+
+  it("treats an open invitation before its expiry as pending", () => {
+    expect(getInvitationStatus(pending, now)).toBe("pending");
+  });
+
+  it("expires invitations at their expiry time", () => {
+    expect(getInvitationStatus({ ...pending, expiresAt: "2025-03-10T12:00:00Z" }, now)).toBe("expired");
+  });
+
+  it("reports accepted and revoked invitations regardless of expiry", () => {
+    const expiresAt = "2025-03-01T00:00:00Z";
+
+    expect(getInvitationStatus({ ...pending, expiresAt, acceptedAt: "2025-02-25T10:00:00Z" }, now)).toBe("accepted");
+    expect(getInvitationStatus({ ...pending, expiresAt, revokedAt: "2025-02-25T10:00:00Z" }, now)).toBe("revoked");
+  });
+});
+
+describe("getHouseholdLeaveBlocker", () => {
+  it("lets members leave a shared household that has data", () => {
+    expect(getHouseholdLeaveBlocker({ role: "editor", otherUserCount: 1, hasData: true })).toBeNull();
+    expect(getHouseholdLeaveBlocker({ role: "viewer", otherUserCount: 2, hasData: true })).toBeNull();
+  });
+
+  it("keeps the owner in a household other accounts still use", () => {
+    expect(getHouseholdLeaveBlocker({ role: "owner", otherUserCount: 1, hasData: false })).toBe(
+      "HOUSEHOLD_OWNER_CANNOT_LEAVE"
+    );
+  });
+
+  it("lets the last account leave only an empty household", () => {
+    expect(getHouseholdLeaveBlocker({ role: "owner", otherUserCount: 0, hasData: false })).toBeNull();
+    expect(getHouseholdLeaveBlocker({ role: "owner", otherUserCount: 0, hasData: true })).toBe("HOUSEHOLD_NOT_EMPTY");
+  });
+});
+
+describe("parseCreateHouseholdInvitationBody", () => {
+  it("normalizes the email address", () => {
+    expect(parseCreateHouseholdInvitationBody({ email: "  Anna.Kowalska@Example.com " })).toEqual({
+      email: "anna.kowalska@example.com",
+    });
+  });
+
+  it("rejects invalid email addresses", () => {
+    expect(() => parseCreateHouseholdInvitationBody({ email: "anna" })).toThrow(/^INVALID_EMAIL: /);
+  });
+});
+
+describe("getSafeRedirectPath", () => {
+  it("keeps local paths with their query string", () => {
+    expect(getSafeRedirectPath("/invitations/accept?token=abc")).toBe("/invitations/accept?token=abc");
+  });
+
+  it("falls back to the home page for missing and external targets", () => {
+    expect(getSafeRedirectPath(null)).toBe("/");
+    expect(getSafeRedirectPath("https://example.com")).toBe("/");
+    expect(getSafeRedirectPath("//example.com")).toBe("/");
+    expect(getSafeRedirectPath("/\\example.com")).toBe("/");
+  });
+
+  it("builds links that return to the requested page", () => {
+    expect(withRedirectParam("/login", "/invitations/accept?token=abc")).toBe(
+      "/login?redirectTo=%2Finvitations%2Faccept%3Ftoken%3Dabc"
+    );
+    expect(withRedirectParam("/login", "/")).toBe("/login");
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { renderBudgetReportPdf, type BudgetReportData } from "@/lib/pdf/budget-report";
+import { PdfDocument } from "@/lib/pdf/document";
+
+const decode = (bytes: Uint8Array): string => new TextDecoder().decode(bytes);
+
+/**
+ * Checks that every cross-reference entry points at the start of its object.
+ */
+const expectValidCrossReferences = (pdf: string) => {
+  const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)?.[1]);
+  const entries = pdf.slice(xrefOffset).split("\n").slice(3);
+  const objectCount = Number(pdf.match(/\/Size (\d+)/)?.[1]) - 1;
+
+  expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe("xref");
+  for (let index = 0; index < objectCount; index += 1) {
+    const offset = Number(entries[index].slice(0, 10));
+    expect(pdf.slice(offset, offset + `${index + 1} 0 obj`.length)).toBe(`${index + 1} 0 obj`);
+  }
+};
+
+describe("pdf document", () => {
+  it("writes a valid file with cross references", () => {
+    const document = new PdfDocument();
+    document.drawText("Hello (world)", 40, 40);
+    document.addPage();
+    document.drawText("Second page", 40, 40, { bold: true });
+    const pdf = decode(document.save());
+
+    expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+    expect(pdf.trimEnd().endsWith("%%EOF")).toBe(true);
+    expect(pdf).toContain("/Count 2");
+    expect(pdf).toContain("(Hello \\(world\\)) Tj");
+    expectValidCrossReferences(pdf);
+  });
+
+  it("encodes Polish letters through the custom encoding", () => {
+    const document = new PdfDocument();
+    document.drawText("Zażółć gęślą jaźń €", 40, 40);
+    const pdf = decode(document.save());
+
+    expect(pdf).toContain("(Za\\207\\363\\203\\201 g\\202\\205l\\200 ja\\206\\204 ?) Tj");
+    expect(pdf).toContain("/Differences [128 /aogonek /cacute /eogonek /lslash");
+  });
+
+  it("measures, shortens and wraps text", () => {
+    const document = new PdfDocument();
+
+    expect(document.measureText("ł", 10)).toBe(document.measureText("l", 10));
+    expect(document.fitText("Bardzo długa notatka do transakcji", 60, 10)).toMatch(/\.\.\.$/);
+    expect(
+      document.measureText(document.fitText("Bardzo długa notatka do transakcji", 60, 10), 10)
+    ).toBeLessThanOrEqual(60);
+    expect(document.wrapText("jeden dwa trzy cztery", 50, 10)).toEqual(["jeden dwa", "trzy cztery"]);
+  });
+
+  it("renders a budget report over several pages", () => {
+    const data: BudgetReportData = {
+      month: "2025-03-01",
+      note: "Wakacje i remont łazienki",
+      generatedAt: new Date("2025-04-01T10:00:00Z"),
+      totals: { totalIncome: 10000, totalPlanned: 8000, totalSpent: 7500, freeFunds: 2000 },
+      incomes: [{ memberName: "Anna", amount: 10000 }],
+      categories: [
+        { name: "Dom", isSubcategory: false, limit: 3000, spent: 3300, progress: 110, status: "over" },
+        { name: "Remont", isSubcategory: true, limit: 1000, spent: 900, progress: 90, status: "warning" },
+      ],
+      transactions: Array.from({ length: 80 }, (_, index) => ({
+        date: "2025-03-10",
+        categoryName: "Dom",
+        memberName: "Anna",
+        note: `Zakup ${index + 1}`,
+        amount: index % 10 === 0 ? -20 : 93.75,
+      })),
+    };
+    const pdf = decode(renderBudgetReportPdf(data));
+
+    expect(pdf).toMatch(/\/Count [2-9]/);
+    expect(pdf).toContain("Strona 1 z");
+    expect(pdf).toContain("(Wakacje i remont \\203azienki) Tj");
+    expectValidCrossReferences(pdf);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { createPermissionDeniedResponse, hasHouseholdPermission } from "@/lib/permissions";
+import { parseUpdateHouseholdUserRoleBody } from "@/lib/validation/household-users";
+
+describe("hasHouseholdPermission", () => {
+  it("lets viewers add expenses but not edit budgets or settings", () => {
+    expect(hasHouseholdPermission("viewer", "expenses:create")).toBe(true);
+    expect(hasHouseholdPermission("viewer", "budgets:edit")).toBe(false);
+    expect(hasHouseholdPermission("viewer", "settings:edit")).toBe(false);
+    expect(hasHouseholdPermission("viewer", "household:manage")).toBe(false);
+  });
+
+  it("lets editors do everything except managing the household", () => {
+    expect(hasHouseholdPermission("editor", "expenses:create")).toBe(true);
+    expect(hasHouseholdPermission("editor", "budgets:edit")).toBe(true);
+    expect(hasHouseholdPermission("editor", "settings:edit")).toBe(true);
+    expect(hasHouseholdPermission("editor", "household:manage")).toBe(false);
+  });
+
+  it("lets owners manage the household", () => {
+    expect(hasHouseholdPermission("owner", "household:manage")).toBe(true);
+    expect(hasHouseholdPermission("owner", "budgets:edit")).toBe(true);
+  });
+
+  it("denies everything without a role", () => {
+    expect(hasHouseholdPermission(undefined, "expenses:create")).toBe(false);
+  });
+});
+
+describe("createPermissionDeniedResponse", () => {
+  it("returns 403 with the PERMISSION_DENIED code and the required role", async () => {
+    const response = createPermissionDeniedResponse("settings:edit");
+
+    expect(response.status).toBe(403);
+    await expect(response.json()).resolves.toEqual({
+      error: {
+        code: "PERMISSION_DENIED",
+        message: "Your household role does not allow this operation",
+        requiredRole: "editor",
+      },
+    });
+  });
+});
+
+describe("parseUpdateHouseholdUserRoleBody", () => {
+  it("accepts the editor and viewer roles", () => {
+    expect(parseUpdateHouseholdUserRoleBody({ role: "viewer" })).toEqual({ role: "viewer" });
+  });
+
+  it("rejects the owner role", () => {
+    expect(() => parseUpdateHouseholdUserRoleBody({ role: "owner" })).toThrow(/^INVALID_ROLE: /);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import {
+  getFirstOccurrenceOnOrAfter,
+  getMonthStart,
+  getNextOccurrence,
+  isWithinSchedule,
+  listOccurrencesBetween,
+} from "@/lib/recurrence";
+
+describe("recurrence", () => {
+  describe("monthly schedule", () => {
+    const schedule = { frequency: "monthly" as const, startDate: "2024-01-31" };
+
+    it("keeps the start date's day of month, clamped to shorter months", () => {
+      expect(getNextOccurrence(schedule, "2024-01-31")).toBe("2024-02-29");
+      expect(getNextOccurrence(schedule, "2024-02-29")).toBe("2024-03-31");
+      expect(getNextOccurrence(schedule, "2024-03-31")).toBe("2024-04-30");
+    });
+
+    it("finds the first occurrence on or after a date", () => {
+      expect(getFirstOccurrenceOnOrAfter(schedule, "2023-12-01")).toBe("2024-01-31");
+      expect(getFirstOccurrenceOnOrAfter(schedule, "2024-05-31")).toBe("2024-05-31");
+      expect(getFirstOccurrenceOnOrAfter(schedule, "2024-06-01")).toBe("2024-06-30");
+    });
+  });
+
+  describe("weekly and custom schedules", () => {
+    it("steps weekly schedules by seven days", () => {
+      const schedule = { frequency: "weekly" as const, startDate: "2024-03-04" };
+
+      expect(getNextOccurrence(schedule, "2024-03-04")).toBe("2024-03-11");
+      expect(getFirstOccurrenceOnOrAfter(schedule, "2024-03-12")).toBe("2024-03-18");
+    });
+
+    it("steps custom schedules by the configured number of days", () => {
+      const schedule = { frequency: "custom" as const, intervalDays: 10, startDate: "2024-03-01" };
+
+      expect(getNextOccurrence(schedule, "2024-03-01")).toBe("2024-03-11");
+      expect(getFirstOccurrenceOnOrAfter(schedule, "2024-03-12")).toBe("2024-03-21");
+    });
+
+    it("rejects custom schedules without an interval", () => {
+      const schedule = { frequency: "custom" as const, intervalDays: null, startDate: "2024-03-01" };
+
+      expect(() => getNextOccurrence(schedule, "2024-03-01")).toThrow("INVALID_SCHEDULE");
+    });
+  });
+
+  it("respects the inclusive end date", () => {
+    const schedule = { frequency: "weekly" as const, startDate: "2024-03-04", endDate: "2024-03-18" };
+
+    expect(isWithinSchedule(schedule, "2024-03-18")).toBe(true);
+    expect(isWithinSchedule(schedule, "2024-03-25")).toBe(false);
+    expect(isWithinSchedule({ ...schedule, endDate: null }, "2030-01-01")).toBe(true);
+  });
+
+  it("lists the occurrences within a range up to the end date", () => {
+    const schedule = { frequency: "weekly" as const, startDate: "2024-03-04", endDate: "2024-03-25" };
+
+    expect(listOccurrencesBetween(schedule, "2024-03-10", "2024-03-31")).toEqual([
+      "2024-03-11",
+      "2024-03-18",
+      "2024-03-25",
+    ]);
+    expect(listOccurrencesBetween(schedule, "2024-03-26", "2024-03-31")).toEqual([]);
+  });
+
+  it("maps a date to its budget month", () => {
+    expect(getMonthStart("2024-07-19")).toBe("2024-07-01");
+  });
+});
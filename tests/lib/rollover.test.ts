@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { calculateCarriedOut, calculateRolloverChain } from "@/lib/rollover";
+
+describe("rollover", () => {
+  describe("calculateCarriedOut", () => {
+    it("carries nothing when rollover is disabled", () => {
+      expect(calculateCarriedOut("none", 500, 300)).toBe(0);
+      expect(calculateCarriedOut("none", 500, 700)).toBe(0);
+    });
+
+    it("carries only unspent money in surplus mode", () => {
+      expect(calculateCarriedOut("surplus", 500, 320.5)).toBe(179.5);
+      expect(calculateCarriedOut("surplus", 500, 700)).toBe(0);
+    });
+
+    it("carries overspending as a negative amount in surplus_and_deficit mode", () => {
+      expect(calculateCarriedOut("surplus_and_deficit", 500, 300)).toBe(200);
+      expect(calculateCarriedOut("surplus_and_deficit", 500, 650.1)).toBe(-150.1);
+    });
+  });
+
+  describe("calculateRolloverChain", () => {
+    it("passes each month's leftover into the next month's effective limit", () => {
+      const chain = calculateRolloverChain([
+        { limitAmount: 600, rolloverMode: "surplus", spent: 450 },
+        { limitAmount: 600, rolloverMode: "surplus_and_deficit", spent: 900 },
+        { limitAmount: 600, rolloverMode: "none", spent: 100 },
+      ]);
+
+      expect(chain).toEqual([
+        { carriedIn: 0, effectiveLimit: 600, carriedOut: 150 },
+        { carriedIn: 150, effectiveLimit: 750, carriedOut: -150 },
+        { carriedIn: -150, effectiveLimit: 450, carriedOut: 0 },
+      ]);
+    });
+
+    it("returns an empty chain for no periods", () => {
+      expect(calculateRolloverChain([])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { createBudgetsService } from "@/lib/services/budgets.service";
+import { createSupabaseTablesMock } from "../../mocks/supabase-tables.mock";
+
+const HOUSEHOLD_ID = "household-1";
+
+describe("BudgetsService", () => {
+  describe("getBudgetSettlement", () => {
+    it("shares spending equally with an active member who neither earned nor paid", async () => {
+      const { client } = createSupabaseTablesMock({
+        households: [{ id: HOUSEHOLD_ID }],
+        budgets: [{ id: "budget-1", household_id: HOUSEHOLD_ID, month: "2024-03-01" }],
+        household_members: [
+          { id: "anna", household_id: HOUSEHOLD_ID, full_name: "Anna", is_active: true },
+          { id: "piotr", household_id: HOUSEHOLD_ID, full_name: "Piotr", is_active: true },
+          { id: "ola", household_id: HOUSEHOLD_ID, full_name: "Ola", is_active: true },
+          { id: "jan", household_id: HOUSEHOLD_ID, full_name: "Jan", is_active: false },
+        ],
+        incomes: [
+          {
+            id: "income-1",
+            household_id: HOUSEHOLD_ID,
+            budget_id: "budget-1",
+            household_member_id: "anna",
+            amount: 5000,
+            created_at: "2024-03-01T00:00:00Z",
+            updated_at: "2024-03-01T00:00:00Z",
+          },
+        ],
+        transactions: [
+          {
+            household_id: HOUSEHOLD_ID,
+            budget_id: "budget-1",
+            category_id: "food",
+            household_member_id: "anna",
+            kind: "expense",
+            amount: 600,
+            transaction_date: "2024-03-05",
+            recurring_transaction_id: null,
+            transaction_splits: [],
+          },
+          {
+            household_id: HOUSEHOLD_ID,
+            budget_id: "budget-1",
+            category_id: "food",
+            household_member_id: "piotr",
+            kind: "expense",
+            amount: 300,
+            transaction_date: "2024-03-06",
+            recurring_transaction_id: null,
+            transaction_splits: [],
+          },
+        ],
+      });
+
+      const settlement = await createBudgetsService(client).getBudgetSettlement("user-1", "budget-1");
+
+      expect(
+        settlement.members.map(({ householdMemberId, paid, owed }) => ({ householdMemberId, paid, owed }))
+      ).toEqual([
+        { householdMemberId: "anna", paid: 600, owed: 300 },
+        { householdMemberId: "piotr", paid: 300, owed: 300 },
+        { householdMemberId: "ola", paid: 0, owed: 300 },
+      ]);
+      expect(settlement.transfers).toEqual([
+        { fromMemberId: "ola", fromName: "Ola", toMemberId: "anna", toName: "Anna", amount: 300 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { createCategoriesService } from "@/lib/services/categories.service";
+import { createSupabaseTablesMock } from "../../mocks/supabase-tables.mock";
+
+const HOUSEHOLD_ID = "household-1";
+
+const createCategory = (id: string, isArchived: boolean) => ({
+  id,
+  household_id: HOUSEHOLD_ID,
+  name: id,
+  parent_id: null,
+  is_archived: isArchived,
+  color: null,
+  icon: null,
+  sort_order: 0,
+  cost_group: "variable",
+  warning_threshold: null,
+  over_threshold: null,
+  pace_alert_day: null,
+  pace_alert_percent: null,
+  created_at: "2024-10-01T00:00:00Z",
+  updated_at: "2024-10-01T00:00:00Z",
+});
+
+describe("CategoriesService", () => {
+  describe("mergeCategory", () => {
+    const tables = {
+      households: [{ id: HOUSEHOLD_ID }],
+      categories: [createCategory("groceries", false), createCategory("food", false), createCategory("old", true)],
+    };
+
+    it("rejects an archived target category before moving any entries", async () => {
+      const { client, rpc } = createSupabaseTablesMock(tables);
+
+      await expect(
+        createCategoriesService(client).mergeCategory("user-1", "groceries", { targetCategoryId: "old" })
+      ).rejects.toThrow("CATEGORY_ARCHIVED");
+      expect(rpc).not.toHaveBeenCalled();
+    });
+
+    it("moves the entries to an active target category in a single call", async () => {
+      const { client, rpc } = createSupabaseTablesMock(tables);
+      rpc.mockResolvedValue({
+        data: [{ moved_transactions: 3, moved_planned_expenses: 1, combined_planned_expenses: 2 }],
+        error: null,
+      });
+
+      const result = await createCategoriesService(client).mergeCategory("user-1", "groceries", {
+        targetCategoryId: "food",
+      });
+
+      expect(rpc).toHaveBeenCalledWith("merge_category", {
+        source_category_id: "groceries",
+        target_category_id: "food",
+      });
+      expect(result).toMatchObject({
+        targetCategory: { id: "food" },
+        movedTransactions: 3,
+        movedPlannedExpenses: 1,
+        combinedPlannedExpenses: 2,
+      });
+    });
+  });
+});
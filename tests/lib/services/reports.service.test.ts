@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import { createReportsService } from "@/lib/services/reports.service";
+import { createSupabaseTablesMock } from "../../mocks/supabase-tables.mock";
+
+const HOUSEHOLD_ID = "household-1";
+
+/** A household with 2500 expenses of 2 zł, more than the 1000 rows a single request returns */
+const createTables = () => ({
+  households: [{ id: HOUSEHOLD_ID }],
+  budgets: [{ id: "budget-1", household_id: HOUSEHOLD_ID, month: "2024-03-01" }],
+  categories: [
+    {
+      id: "category-1",
+      household_id: HOUSEHOLD_ID,
+      name: "Jedzenie",
+      color: null,
+      parent_id: null,
+      cost_group: "variable",
+    },
+  ],
+  household_members: [{ id: "member-1", household_id: HOUSEHOLD_ID, full_name: "Anna" }],
+  incomes: [
+    {
+      id: "income-1",
+      household_id: HOUSEHOLD_ID,
+      budget_id: "budget-1",
+      household_member_id: "member-1",
+      amount: 8000,
+    },
+  ],
+  planned_expenses: [
+    {
+      id: "planned-1",
+      household_id: HOUSEHOLD_ID,
+      budget_id: "budget-1",
+      category_id: "category-1",
+      limit_amount: 6000,
+    },
+  ],
+  transactions: Array.from({ length: 2500 }, (_, index) => ({
+    id: `transaction-${String(index).padStart(4, "0")}`,
+    household_id: HOUSEHOLD_ID,
+    budget_id: "budget-1",
+    category_id: "category-1",
+    household_member_id: "member-1",
+    kind: "expense",
+    amount: 2,
+    transaction_splits: [],
+  })),
+});
+
+describe("ReportsService", () => {
+  describe("getTrends", () => {
+    it("counts transactions beyond the first batch of rows", async () => {
+      const { client } = createSupabaseTablesMock(createTables());
+
+      const report = await createReportsService(client).getTrends("user-1", {
+        from: "2024-03-01",
+        to: "2024-03-01",
+        groupBy: "category",
+      });
+
+      expect(report.months).toEqual([
+        {
+          month: "2024-03-01",
+          budgetId: "budget-1",
+          totalIncome: 8000,
+          totalPlanned: 6000,
+          totalSpent: 5000,
+          freeFunds: 2000,
+        },
+      ]);
+      expect(report.series).toEqual([
+        { id: "category-1", name: "Jedzenie", color: null, totalSpent: 5000, monthlySpent: [5000] },
+      ]);
+    });
+  });
+
+  describe("getAnnualReport", () => {
+    it("summarizes a year with more transactions than a single batch of rows", async () => {
+      const tables = createTables();
+      tables.budgets.push({ id: "budget-2", household_id: HOUSEHOLD_ID, month: "2024-04-01" });
+      tables.categories.push({
+        id: "category-2",
+        household_id: HOUSEHOLD_ID,
+        name: "Oszczędności",
+        color: null,
+        parent_id: null,
+        cost_group: "savings",
+      });
+      tables.incomes.push({
+        id: "income-2",
+        household_id: HOUSEHOLD_ID,
+        budget_id: "budget-2",
+        household_member_id: "member-1",
+        amount: 8000,
+      });
+      tables.transactions.push(
+        ...Array.from({ length: 1500 }, (_, index) => ({
+          id: `transaction-${String(2500 + index).padStart(4, "0")}`,
+          household_id: HOUSEHOLD_ID,
+          budget_id: "budget-2",
+          category_id: "category-2",
+          household_member_id: "member-1",
+          kind: "expense",
+          amount: 1,
+          transaction_splits: [],
+        }))
+      );
+      const { client } = createSupabaseTablesMock(tables);
+
+      const report = await createReportsService(client).getAnnualReport("user-1", 2024);
+
+      expect(report).toMatchObject({
+        budgetCount: 2,
+        totalIncome: 16000,
+        totalSpent: 6500,
+        averageMonthlySpent: 3250,
+        savedAmount: 11000,
+        savingsRate: 68.75,
+        bestMonth: { month: "2024-04-01", totalSpent: 1500 },
+        worstMonth: { month: "2024-03-01", totalSpent: 5000 },
+      });
+      expect(report.spentByCategory.map(({ categoryId, totalSpent }) => ({ categoryId, totalSpent }))).toEqual([
+        { categoryId: "category-1", totalSpent: 5000 },
+        { categoryId: "category-2", totalSpent: 1500 },
+      ]);
+    });
+  });
+});
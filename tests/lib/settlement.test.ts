@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { calculateSettlementBalances, calculateSettlementTransfers, calculateShares } from "@/lib/settlement";
+
+describe("settlement", () => {
+  describe("calculateShares", () => {
+    it("splits equally between all participants", () => {
+      const shares = calculateShares(
+        [
+          { memberId: "anna", income: 6000, paid: 0 },
+          { memberId: "piotr", income: 2000, paid: 0 },
+        ],
+        "equal"
+      );
+
+      expect(shares.get("anna")).toBe(0.5);
+      expect(shares.get("piotr")).toBe(0.5);
+    });
+
+    it("splits proportionally to income", () => {
+      const shares = calculateShares(
+        [
+          { memberId: "anna", income: 6000, paid: 0 },
+          { memberId: "piotr", income: 2000, paid: 0 },
+        ],
+        "income"
+      );
+
+      expect(shares.get("anna")).toBe(0.75);
+      expect(shares.get("piotr")).toBe(0.25);
+    });
+
+    it("falls back to equal shares when nobody has income", () => {
+      const shares = calculateShares(
+        [
+          { memberId: "anna", income: 0, paid: 100 },
+          { memberId: "piotr", income: 0, paid: 0 },
+        ],
+        "income"
+      );
+
+      expect(shares.get("anna")).toBe(0.5);
+    });
+
+    it("uses custom weights and gives members without a weight no share", () => {
+      const shares = calculateShares(
+        [
+          { memberId: "anna", income: 0, paid: 0, weight: 2 },
+          { memberId: "piotr", income: 0, paid: 0, weight: 1 },
+          { memberId: "ola", income: 0, paid: 0 },
+        ],
+        "custom"
+      );
+
+      expect(shares.get("anna")).toBeCloseTo(2 / 3);
+      expect(shares.get("piotr")).toBeCloseTo(1 / 3);
+      expect(shares.get("ola")).toBe(0);
+    });
+  });
+
+  describe("calculateSettlementBalances", () => {
+    it("compares what each member paid with their share", () => {
+      expect(
+        calculateSettlementBalances(
+          [
+            { memberId: "anna", income: 0, paid: 300 },
+            { memberId: "piotr", income: 0, paid: 100 },
+          ],
+          "equal"
+        )
+      ).toEqual([
+        { memberId: "anna", share: 0.5, owed: 200, balance: 100 },
+        { memberId: "piotr", share: 0.5, owed: 200, balance: -100 },
+      ]);
+    });
+
+    it("keeps balances summing to zero despite rounding", () => {
+      const balances = calculateSettlementBalances(
+        [
+          { memberId: "anna", income: 0, paid: 100 },
+          { memberId: "piotr", income: 0, paid: 0 },
+          { memberId: "ola", income: 0, paid: 0 },
+        ],
+        "equal"
+      );
+
+      const owedTotal = balances.reduce((sum, entry) => sum + entry.owed, 0);
+      expect(Math.round(owedTotal * 100) / 100).toBe(100);
+    });
+  });
+
+  describe("calculateSettlementTransfers", () => {
+    it("returns no transfers when everyone is settled", () => {
+      expect(
+        calculateSettlementTransfers([
+          { memberId: "anna", share: 0.5, owed: 100, balance: 0 },
+          { memberId: "piotr", share: 0.5, owed: 100, balance: 0 },
+        ])
+      ).toEqual([]);
+    });
+
+    it("pays the largest creditor from the largest debtor first", () => {
+      expect(
+        calculateSettlementTransfers([
+          { memberId: "anna", share: 0.25, owed: 75, balance: 225 },
+          { memberId: "piotr", share: 0.25, owed: 75, balance: -75 },
+          { memberId: "ola", share: 0.5, owed: 150, balance: -150 },
+        ])
+      ).toEqual([
+        { fromMemberId: "ola", toMemberId: "anna", amount: 150 },
+        { fromMemberId: "piotr", toMemberId: "anna", amount: 75 },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { expandTransactionSplits, getSignedAmount, splitsMatchTotal, sumSplitAmounts } from "@/lib/splits";
+
+describe("splits", () => {
+  describe("sumSplitAmounts", () => {
+    it("sums line amounts without floating point noise", () => {
+      expect(
+        sumSplitAmounts([
+          { categoryId: "food", amount: 0.1 },
+          { categoryId: "home", amount: 0.2 },
+        ])
+      ).toBe(0.3);
+    });
+  });
+
+  describe("splitsMatchTotal", () => {
+    it("accepts lines that add up to the transaction amount", () => {
+      expect(
+        splitsMatchTotal(120.5, [
+          { categoryId: "food", amount: 80.25 },
+          { categoryId: "home", amount: 40.25 },
+        ])
+      ).toBe(true);
+    });
+
+    it("rejects lines that differ from the transaction amount by a cent", () => {
+      expect(
+        splitsMatchTotal(120.5, [
+          { categoryId: "food", amount: 80.25 },
+          { categoryId: "home", amount: 40.24 },
+        ])
+      ).toBe(false);
+    });
+  });
+
+  describe("expandTransactionSplits", () => {
+    it("returns the transaction itself when it is not split", () => {
+      expect(expandTransactionSplits({ categoryId: "food", amount: 50, splits: [] })).toEqual([
+        { categoryId: "food", amount: 50 },
+      ]);
+    });
+
+    it("returns the split lines instead of the parent category", () => {
+      expect(
+        expandTransactionSplits({
+          categoryId: "food",
+          amount: 100,
+          splits: [
+            { categoryId: "food", amount: 70 },
+            { categoryId: "home", amount: 30 },
+          ],
+        })
+      ).toEqual([
+        { categoryId: "food", amount: 70 },
+        { categoryId: "home", amount: 30 },
+      ]);
+    });
+
+    it("books refunds as negative amounts on every line", () => {
+      expect(
+        expandTransactionSplits({
+          categoryId: "food",
+          kind: "refund",
+          amount: 40,
+          splits: [
+            { categoryId: "food", amount: 25 },
+            { categoryId: "home", amount: 15 },
+          ],
+        })
+      ).toEqual([
+        { categoryId: "food", amount: -25 },
+        { categoryId: "home", amount: -15 },
+      ]);
+    });
+  });
+
+  describe("getSignedAmount", () => {
+    it("keeps expenses positive and treats a missing kind as an expense", () => {
+      expect(getSignedAmount("expense", 12.5)).toBe(12.5);
+      expect(getSignedAmount(undefined, 12.5)).toBe(12.5);
+    });
+
+    it("negates refunds", () => {
+      expect(getSignedAmount("refund", 12.5)).toBe(-12.5);
+    });
+  });
+});
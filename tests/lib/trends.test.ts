@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import {
+  addMonthsToMonth,
+  buildMonthlySeries,
+  calculateSavings,
+  findBestAndWorstMonths,
+  listMonthsBetween,
+} from "@/lib/trends";
+
+describe("trends", () => {
+  describe("listMonthsBetween", () => {
+    it("lists every month across a year boundary", () => {
+      expect(listMonthsBetween("2023-11-01", "2024-02-01")).toEqual([
+        "2023-11-01",
+        "2023-12-01",
+        "2024-01-01",
+        "2024-02-01",
+      ]);
+    });
+
+    it("returns no months for a reversed range", () => {
+      expect(listMonthsBetween("2024-03-01", "2024-02-01")).toEqual([]);
+    });
+  });
+
+  describe("addMonthsToMonth", () => {
+    it("shifts months in both directions", () => {
+      expect(addMonthsToMonth("2024-01-01", -11)).toBe("2023-02-01");
+      expect(addMonthsToMonth("2024-12-01", 1)).toBe("2025-01-01");
+    });
+  });
+
+  describe("buildMonthlySeries", () => {
+    it("sums amounts per key and month and skips months outside the report", () => {
+      const series = buildMonthlySeries(
+        [
+          { month: "2024-01-01", key: "food", amount: 100.1 },
+          { month: "2024-01-01", key: "food", amount: 0.2 },
+          { month: "2024-02-01", key: "food", amount: -20 },
+          { month: "2024-02-01", key: null, amount: 50 },
+          { month: "2023-12-01", key: "food", amount: 999 },
+        ],
+        ["2024-01-01", "2024-02-01"]
+      );
+
+      expect(series.get("food")).toEqual([100.3, -20]);
+      expect(series.get(null)).toEqual([0, 50]);
+    });
+  });
+
+  describe("findBestAndWorstMonths", () => {
+    it("compares the income left in months with a budget", () => {
+      const months = [
+        { month: "2024-01-01", budgetId: "a", totalIncome: 5000, totalSpent: 4000 },
+        { month: "2024-02-01", budgetId: null, totalIncome: 0, totalSpent: 0 },
+        { month: "2024-03-01", budgetId: "c", totalIncome: 5000, totalSpent: 5500 },
+        { month: "2024-04-01", budgetId: "d", totalIncome: 6000, totalSpent: 4000 },
+      ];
+
+      const { best, worst } = findBestAndWorstMonths(months);
+
+      expect(best?.month).toBe("2024-04-01");
+      expect(worst?.month).toBe("2024-03-01");
+    });
+
+    it("returns no months without budgets", () => {
+      expect(findBestAndWorstMonths([{ budgetId: null, totalIncome: 0, totalSpent: 0 }])).toEqual({
+        best: null,
+        worst: null,
+      });
+    });
+  });
+
+  describe("calculateSavings", () => {
+    it("counts spending on savings categories as saved", () => {
+      expect(calculateSavings(10000, 9000, 1500)).toEqual({ savedAmount: 2500, savingsRate: 25 });
+    });
+
+    it("has no rate without income", () => {
+      expect(calculateSavings(0, 200, 0)).toEqual({ savedAmount: -200, savingsRate: null });
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { vi } from "vitest";
+import type { SupabaseClient } from "@/db/supabase.client";
+
+type Row = Record<string, unknown>;
+
+/**
+ * Read-only Supabase client backed by in-memory tables, for service tests.
+ * Supports the eq, in, gte, lte, order, range and single modifiers; filters on embedded tables
+ * (e.g. "household_users.user_id") are ignored. Like the API, every request returns at most maxRows rows.
+ * Usage: createSupabaseTablesMock({ transactions: [...] }) and pass the client to a service factory.
+ */
+export function createSupabaseTablesMock(tables: Record<string, Row[]>, maxRows = 1000) {
+  const from = vi.fn((table: string) => {
+    const filters: ((row: Row) => boolean)[] = [];
+    let orderColumn: string | null = null;
+    let rangeFrom = 0;
+    let rangeTo = Number.POSITIVE_INFINITY;
+    let isSingle = false;
+
+    const addFilter = (column: string, predicate: (value: unknown) => boolean) => {
+      if (!column.includes(".")) {
+        filters.push((row) => predicate(row[column]));
+      }
+      return builder;
+    };
+
+    const execute = () => {
+      const rows = (tables[table] ?? []).filter((row) => filters.every((filter) => filter(row)));
+      if (orderColumn) {
+        const column = orderColumn;
+        rows.sort((first, second) => String(first[column]).localeCompare(String(second[column])));
+      }
+      const page = rows.slice(rangeFrom, Math.min(rangeTo + 1, rangeFrom + maxRows));
+
+      if (isSingle) {
+        return page.length === 1
+          ? { data: page[0], error: null }
+          : { data: null, error: { code: "PGRST116", message: "No single row" } };
+      }
+      return { data: page, error: null };
+    };
+
+    const builder = {
+      select: () => builder,
+      eq: (column: string, value: unknown) => addFilter(column, (rowValue) => rowValue === value),
+      in: (column: string, values: unknown[]) => addFilter(column, (rowValue) => values.includes(rowValue)),
+      gte: (column: string, value: string) => addFilter(column, (rowValue) => String(rowValue) >= value),
+      lte: (column: string, value: string) => addFilter(column, (rowValue) => String(rowValue) <= value),
+      order: (column: string) => {
+        orderColumn = column;
+        return builder;
+      },
+      range: (start: number, end: number) => {
+        rangeFrom = start;
+        rangeTo = end;
+        return builder;
+      },
+      single: () => {
+        isSingle = true;
+        return builder;
+      },
+      then: <T>(resolve: (result: ReturnType<typeof execute>) => T, reject?: (reason: unknown) => T) =>
+        Promise.resolve().then(execute).then(resolve, reject),
+    };
+
+    return builder;
+  });
+
+  const client = { from, rpc: vi.fn() };
+
+  return { client: client as unknown as SupabaseClient, from, rpc: client.rpc };
+}